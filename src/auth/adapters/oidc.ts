@@ -17,6 +17,8 @@ export interface OIDCProviderConfig {
   authorizationEndpoint?: string;
   tokenEndpoint?: string;
   userinfoEndpoint?: string;
+  introspectionEndpoint?: string;
+  revocationEndpoint?: string;
   jwksUri?: string;
   scopes?: string[];
   redirectUri?: string;
@@ -24,6 +26,8 @@ export interface OIDCProviderConfig {
   pkce?: boolean;
   audience?: string;
   clockTolerance?: number;
+  /** Accept bearer access tokens issued by this provider, validated via RFC 7662 introspection */
+  introspectTokens?: boolean;
 }
 
 interface OIDCDiscoveryDocument {
@@ -31,6 +35,8 @@ interface OIDCDiscoveryDocument {
   authorization_endpoint: string;
   token_endpoint: string;
   userinfo_endpoint?: string;
+  introspection_endpoint?: string;
+  revocation_endpoint?: string;
   jwks_uri: string;
   response_types_supported: string[];
   scopes_supported: string[];
@@ -47,6 +53,16 @@ interface OIDCTokenResponse {
   scope?: string;
 }
 
+export interface OIDCIntrospectionResult {
+  active: boolean;
+  sub?: string;
+  exp?: number;
+  scope?: string;
+  client_id?: string;
+  jti?: string;
+  [key: string]: unknown;
+}
+
 export interface OIDCUserInfo {
   sub: string;
   email?: string;
@@ -112,6 +128,11 @@ export interface OIDCAdapterOptions {
     account: OIDCAccount
   ) => void | Promise<void>;
   onError?: (error: Error, provider: string) => void;
+  /**
+   * How long an active introspection result is reused for the same token.
+   * Off by default: a token revoked elsewhere is accepted until its entry expires.
+   */
+  introspectionCacheTtlMs?: number;
 }
 
 interface OIDCState {
@@ -131,6 +152,14 @@ export class OIDCAdapter extends BaseAuthAdapter {
   private options: OIDCAdapterOptions;
   private stateStore: Map<string, OIDCState> = new Map();
   private discoveryCache: Map<string, OIDCDiscoveryDocument> = new Map();
+  // Active introspection results by token hash, so a bearer token isn't
+  // sent to the provider on every request
+  private introspectionCache: Map<
+    string,
+    { provider: string; result: OIDCIntrospectionResult; expiresAt: number }
+  > = new Map();
+  // Bumped by revokeToken so lookups already in flight don't cache
+  private revocations = 0;
 
   constructor(options: OIDCAdapterOptions) {
     super({
@@ -346,11 +375,142 @@ export class OIDCAdapter extends BaseAuthAdapter {
     }
 
     const session = await this.getSession(token);
-    if (!session) {
-      return { success: false, error: "Session not found or expired" };
+    if (session) {
+      return { success: true, expiresAt: session.expiresAt };
+    }
+
+    if (credentials.type === "bearer") {
+      const key = this.tokenHash(token);
+      const cached = this.introspectionCache.get(key);
+      if (cached && cached.expiresAt > Date.now()) {
+        return this.introspectionResult(cached.provider, token, cached.result);
+      }
+      this.introspectionCache.delete(key);
+
+      const revocations = this.revocations;
+      for (const [name, provider] of this.providers) {
+        if (!provider.introspectTokens) continue;
+
+        const result = await this.introspectToken(name, token);
+        if (result.active && result.sub) {
+          const ttl = this.options.introspectionCacheTtlMs ?? 0;
+          const expiresAt = Math.min(Date.now() + ttl, result.exp ? result.exp * 1000 : Infinity);
+          // A revocation that ran while this lookup was in flight wins
+          if (ttl > 0 && this.revocations === revocations) {
+            this.introspectionCache.set(key, { provider: name, result, expiresAt });
+          }
+          return this.introspectionResult(name, token, result);
+        }
+      }
+    }
+
+    return { success: false, error: "Session not found or expired" };
+  }
+
+  private tokenHash(token: string): string {
+    return crypto.createHash("sha256").update(token).digest("hex");
+  }
+
+  private introspectionResult(
+    providerName: string,
+    token: string,
+    result: OIDCIntrospectionResult
+  ): AuthResult {
+    const expiresAt = result.exp ? new Date(result.exp * 1000) : undefined;
+    return {
+      success: true,
+      expiresAt,
+      user: {
+        id: result.sub!,
+        email: null,
+        name: null,
+        image: null,
+        emailVerified: null,
+        sessionId: result.jti ?? token,
+        sessionExpiresAt: expiresAt ?? new Date(),
+        metadata: { provider: providerName, scope: result.scope, clientId: result.client_id },
+      },
+    };
+  }
+
+  async introspectToken(
+    providerName: string,
+    token: string
+  ): Promise<OIDCIntrospectionResult> {
+    const provider = this.providers.get(providerName);
+    if (!provider) throw new Error(`Unknown provider: ${providerName}`);
+
+    const discovery = await this.discoverProvider(provider);
+    const introspectionUrl =
+      provider.introspectionEndpoint ?? discovery.introspection_endpoint;
+    if (!introspectionUrl) {
+      throw new Error("No introspection endpoint available");
     }
 
-    return { success: true, expiresAt: session.expiresAt };
+    const credentials = Buffer.from(
+      `${encodeURIComponent(provider.clientId)}:${encodeURIComponent(provider.clientSecret)}`
+    ).toString("base64");
+
+    const response = await fetch(introspectionUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+        Authorization: `Basic ${credentials}`,
+      },
+      body: new URLSearchParams({
+        token,
+        token_type_hint: "access_token",
+      }).toString(),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Token introspection failed: ${await response.text()}`);
+    }
+
+    return (await response.json()) as OIDCIntrospectionResult;
+  }
+
+  /**
+   * Revokes a token at the provider (RFC 7009) and drops its cached
+   * introspection result, so this process rejects it right away. Other
+   * processes caching introspection stop accepting it once their entry expires.
+   */
+  async revokeToken(
+    providerName: string,
+    token: string,
+    tokenTypeHint: "access_token" | "refresh_token" = "access_token"
+  ): Promise<void> {
+    const provider = this.providers.get(providerName);
+    if (!provider) throw new Error(`Unknown provider: ${providerName}`);
+
+    const key = this.tokenHash(token);
+    this.revocations++;
+    this.introspectionCache.delete(key);
+
+    const discovery = await this.discoverProvider(provider);
+    const revocationUrl = provider.revocationEndpoint ?? discovery.revocation_endpoint;
+    if (!revocationUrl) {
+      throw new Error("No revocation endpoint available");
+    }
+
+    const credentials = Buffer.from(
+      `${encodeURIComponent(provider.clientId)}:${encodeURIComponent(provider.clientSecret)}`
+    ).toString("base64");
+
+    const response = await fetch(revocationUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+        Authorization: `Basic ${credentials}`,
+      },
+      body: new URLSearchParams({ token, token_type_hint: tokenTypeHint }).toString(),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Token revocation failed: ${await response.text()}`);
+    }
+    this.revocations++;
+    this.introspectionCache.delete(key);
   }
 
   getRoutes(): Router {
@@ -22,6 +22,7 @@ export type {
   OIDCProviderConfig,
   OIDCAdapterOptions,
   OIDCUserInfo,
+  OIDCIntrospectionResult,
   OIDCAccount,
   OIDCUser,
 } from "./adapters/oidc";
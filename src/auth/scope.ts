@@ -1,13 +1,21 @@
 import { ScopeConfig, ScopeFunction, CompiledScope, UserContext } from "@/resource/types";
-import { emptyScope, allScope } from "./rsql";
-import { UnauthorizedError, ForbiddenError } from "@/resource/error";
+import { emptyScope, allScope, eq } from "./rsql";
+import { UnauthorizedError, ForbiddenError, NotFoundError } from "@/resource/error";
 
-export type Operation = "read" | "create" | "update" | "delete" | "subscribe";
+export type Operation =
+  | "read"
+  | "create"
+  | "update"
+  | "delete"
+  | "subscribe"
+  | "restore"
+  | "withDeleted";
 
 export class ScopeResolver {
   constructor(
     private config: ScopeConfig,
-    private resourceName: string
+    private resourceName: string,
+    private tenantField?: string
   ) {}
 
   isPublic(operation: Operation): boolean {
@@ -40,10 +48,17 @@ export class ScopeResolver {
         return this.config.delete ?? this.config.scope;
       case "subscribe":
         return this.config.subscribe ?? this.config.read ?? this.config.scope;
+      case "restore":
+        return this.config.restore ?? this.config.update ?? this.config.scope;
+      case "withDeleted":
+        return this.config.withDeleted ?? this.config.delete ?? this.config.scope;
     }
   }
 
-  async resolve(operation: Operation, user: UserContext | null): Promise<CompiledScope> {
+  private async resolveUserScope(
+    operation: Operation,
+    user: UserContext | null
+  ): Promise<CompiledScope> {
     if (this.isPublic(operation)) {
       return allScope();
     }
@@ -63,17 +78,50 @@ export class ScopeResolver {
     return scope;
   }
 
-  async canPerform(operation: Operation, user: UserContext | null): Promise<boolean> {
+  // On a tenant-scoped resource every scope, public ones included, is
+  // narrowed to the caller's tenant
+  async resolve(
+    operation: Operation,
+    user: UserContext | null,
+    tenant?: string
+  ): Promise<CompiledScope> {
+    const scope = await this.resolveUserScope(operation, user);
+    if (!this.tenantField) {
+      return scope;
+    }
+
+    // Without a tenant there is nothing the caller could see
+    if (!tenant) {
+      throw new NotFoundError(this.resourceName);
+    }
+
+    if (scope.isEmpty()) {
+      return scope;
+    }
+
+    const tenantScope = eq(this.tenantField, tenant);
+    return scope.toString() === "*" ? tenantScope : scope.and(tenantScope);
+  }
+
+  async canPerform(
+    operation: Operation,
+    user: UserContext | null,
+    tenant?: string
+  ): Promise<boolean> {
     try {
-      const scope = await this.resolve(operation, user);
+      const scope = await this.resolve(operation, user, tenant);
       return !scope.isEmpty();
     } catch {
       return false;
     }
   }
 
-  async requirePermission(operation: Operation, user: UserContext | null): Promise<CompiledScope> {
-    const scope = await this.resolve(operation, user);
+  async requirePermission(
+    operation: Operation,
+    user: UserContext | null,
+    tenant?: string
+  ): Promise<CompiledScope> {
+    const scope = await this.resolve(operation, user, tenant);
 
     if (scope.isEmpty()) {
       throw new ForbiddenError(
@@ -87,9 +135,10 @@ export class ScopeResolver {
 
 export const createScopeResolver = (
   config: ScopeConfig | undefined,
-  resourceName: string
+  resourceName: string,
+  tenantField?: string
 ): ScopeResolver => {
-  return new ScopeResolver(config ?? {}, resourceName);
+  return new ScopeResolver(config ?? {}, resourceName, tenantField);
 };
 
 export const combineScopes = (
@@ -117,10 +166,11 @@ export const checkObjectAccess = async (
   operation: Operation,
   user: UserContext | null,
   object: Record<string, unknown>,
-  filterCompile: (expr: string) => { execute: (obj: unknown) => boolean }
+  filterCompile: (expr: string) => { execute: (obj: unknown) => boolean },
+  tenant?: string
 ): Promise<boolean> => {
   try {
-    const scope = await resolver.resolve(operation, user);
+    const scope = await resolver.resolve(operation, user, tenant);
 
     if (scope.toString() === "*") {
       return true;
@@ -1,8 +1,18 @@
-import { ClientConfig, ResourceClient, OfflineConfig, ConcaveClient } from "./types";
+import {
+  ClientConfig,
+  ResourceClient,
+  OfflineConfig,
+  ConcaveClient,
+  SubscriptionTransportConfig,
+} from "./types";
 import { createTransport, Transport, FetchTransport, TransportError } from "./transport";
 import { createRepository, Repository } from "./repository";
 import { createOfflineManager, OfflineManager, InMemoryOfflineStorage, LocalStorageOfflineStorage } from "./offline";
+import { IndexedDBQueryCacheStorage } from "./indexeddb";
+import { createQueryCache, QueryCache } from "./query-cache";
 import { createSubscription, SubscriptionManager } from "./subscription-manager";
+import { SubscriptionSocket } from "./subscription-socket";
+import { WriteEffectBus } from "./write-effects";
 import { getClient, setGlobalClient, getAuthErrorHandler, setAuthErrorHandler } from "./globals";
 import {
   AuthManager,
@@ -20,11 +30,14 @@ export interface SimplifiedClientConfig {
   credentials?: RequestCredentials;
   timeout?: number;
   offline?: boolean | OfflineConfig;
+  // Persist live query results; `true` keeps them in IndexedDB
+  queryCache?: boolean | QueryCache;
   onError?: (error: Error) => void;
   onSyncComplete?: () => void;
   authCheckUrl?: string;
   auth?: OIDCClientConfig;
   jwt?: Omit<JWTClientConfig, "baseUrl">;
+  subscriptions?: SubscriptionTransportConfig;
 }
 
 export const createClient = (config: SimplifiedClientConfig): ConcaveClient => {
@@ -81,6 +94,12 @@ export const createClient = (config: SimplifiedClientConfig): ConcaveClient => {
     });
   }
 
+  const socket =
+    config.subscriptions?.transport === "websocket"
+      ? new SubscriptionSocket(transport, config.subscriptions.path)
+      : undefined;
+
+  const effects = new WriteEffectBus();
   let offline: OfflineManager | undefined;
 
   const offlineConfig: OfflineConfig | undefined =
@@ -103,7 +122,7 @@ export const createClient = (config: SimplifiedClientConfig): ConcaveClient => {
               body: mutation.data,
               headers: mutation.optimisticId ? {
                 "X-Concave-Optimistic-Id": mutation.optimisticId,
-                "X-Idempotency-Key": mutation.idempotencyKey,
+                "Idempotency-Key": mutation.idempotencyKey,
               } : undefined,
             });
             return {
@@ -116,22 +135,75 @@ export const createClient = (config: SimplifiedClientConfig): ConcaveClient => {
               method: "PATCH",
               path: `${mutation.resource}/${resolvedId}`,
               body: mutation.data,
+              headers: mutation.ifMatch ? { "If-Match": mutation.ifMatch } : undefined,
             });
             return { success: true };
           }
+          case "upsert":
+            await transport.request({
+              method: "POST",
+              path: `${mutation.resource}/upsert`,
+              body: mutation.data,
+              headers: mutation.ifMatch ? { "If-Match": mutation.ifMatch } : undefined,
+            });
+            return { success: true };
           case "delete": {
             const resolvedId = offline!.resolveId(mutation.objectId!);
             await transport.request({
               method: "DELETE",
               path: `${mutation.resource}/${resolvedId}`,
+              headers: mutation.ifMatch ? { "If-Match": mutation.ifMatch } : undefined,
             });
             return { success: true };
           }
+          case "batchCreate": {
+            const batch = await transport.request<{ items: { id: string }[] }>({
+              method: "POST",
+              path: `${mutation.resource}/batch`,
+              body: { items: mutation.data },
+              headers: { "Idempotency-Key": mutation.idempotencyKey },
+            });
+            // Live queries drop the queued rows and pick up the created ones
+            effects.settle(mutation.idempotencyKey, [mutation.resource]);
+            return { success: true, serverIds: batch.data.items.map((item) => item.id) };
+          }
+          case "batchUpdate":
+            await transport.request({
+              method: "PATCH",
+              path: `${mutation.resource}/batch`,
+              params: { filter: mutation.filter! },
+              body: mutation.data,
+              headers: { "Idempotency-Key": mutation.idempotencyKey },
+            });
+            return { success: true };
+          case "batchDelete":
+            await transport.request({
+              method: "DELETE",
+              path: `${mutation.resource}/batch`,
+              params: { filter: mutation.filter! },
+              headers: { "Idempotency-Key": mutation.idempotencyKey },
+            });
+            return { success: true };
+          case "rpc": {
+            const call = await transport.request<{ writeEffects?: { resource: string }[] }>({
+              method: "POST",
+              path: `${mutation.resource}/rpc/${mutation.procedure}`,
+              body: mutation.data,
+              headers: { "Idempotency-Key": mutation.idempotencyKey },
+            });
+            effects.settle(
+              mutation.idempotencyKey,
+              (call.data.writeEffects ?? []).map((effect) => effect.resource)
+            );
+            return { success: true };
+          }
           default:
             return { success: true };
         }
       },
       onMutationFailed: (mutation, error) => {
+        // Roll back what the write showed in live queries
+        effects.settle(mutation.idempotencyKey);
         console.error("Mutation failed:", mutation, error);
         config.onError?.(error);
       },
@@ -140,9 +212,15 @@ export const createClient = (config: SimplifiedClientConfig): ConcaveClient => {
     });
   }
 
+  const queryCache =
+    config.queryCache === true
+      ? createQueryCache({ storage: new IndexedDBQueryCacheStorage() })
+      : config.queryCache || undefined;
+
   const client: ConcaveClient = {
     transport,
     offline,
+    queryCache,
     auth,
     jwt: jwtClient,
 
@@ -151,6 +229,8 @@ export const createClient = (config: SimplifiedClientConfig): ConcaveClient => {
         transport,
         resourcePath: path,
         offline,
+        socket,
+        effects,
       });
     },
 
@@ -242,6 +322,7 @@ export type { Transport } from "./transport";
 export {
   FetchTransport,
   TransportError,
+  PreconditionFailedError,
   createTransport,
 } from "./transport";
 
@@ -265,6 +346,7 @@ export type {
   TypedAggregationResponse,
   TypedPaginatedResponse,
   QueryBuilderState,
+  DateBucket,
 } from "./query-types";
 
 export {
@@ -274,11 +356,32 @@ export {
   createOfflineManager,
 } from "./offline";
 
+export {
+  IndexedDBOfflineStorage,
+  IndexedDBQueryCacheStorage,
+} from "./indexeddb";
+
+export {
+  QueryCache,
+  InMemoryQueryCacheStorage,
+  createQueryCache,
+  queryCacheKey,
+} from "./query-cache";
+export type { QueryCacheConfig, QueryCacheKeyOptions, QueryCacheWrite } from "./query-cache";
+
 export {
   SubscriptionManager,
   createSubscription,
 } from "./subscription-manager";
 
+export { WriteEffectBus } from "./write-effects";
+
+export {
+  SubscriptionSocket,
+  DEFAULT_SUBSCRIPTION_SOCKET_PATH,
+} from "./subscription-socket";
+export type { SocketSubscriptionListener } from "./subscription-socket";
+
 export {
   fetchSchema,
   generateTypes,
@@ -375,6 +478,19 @@ export type {
   FileClientConfig,
 } from "./file-upload";
 
+export {
+  createTaskClient,
+} from "./task-client";
+export type {
+  TaskClient,
+  TaskClientConfig,
+  TaskSnapshot,
+  TaskSnapshotStatus,
+  TaskProgress,
+  TaskWatch,
+  TaskWatchCallbacks,
+} from "./task-client";
+
 export {
   createJWTClient,
   MemoryTokenStorage as JWTMemoryTokenStorage,
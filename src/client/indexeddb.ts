@@ -0,0 +1,213 @@
+import type {
+  OfflineMutation,
+  OfflineStorage,
+  QueryCacheEntry,
+  QueryCacheMeta,
+  QueryCacheStorage,
+} from "./types";
+
+const DEFAULT_DB_NAME = "concave_offline";
+const DB_VERSION = 1;
+
+const MUTATIONS_STORE = "mutations";
+const QUERIES_STORE = "queries";
+// Sizes and timestamps live apart from the items so eviction doesn't load them
+const QUERY_META_STORE = "query_meta";
+
+const resolveFactory = (factory?: IDBFactory): IDBFactory | null =>
+  factory ?? (typeof indexedDB !== "undefined" ? indexedDB : null);
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("IndexedDB transaction aborted"));
+  });
+
+// Both storages share one database, so a single connection serves them
+const connections = new WeakMap<IDBFactory, Map<string, Promise<IDBDatabase>>>();
+
+const openDatabase = (factory: IDBFactory, name: string): Promise<IDBDatabase> => {
+  let byName = connections.get(factory);
+  if (!byName) {
+    byName = new Map();
+    connections.set(factory, byName);
+  }
+
+  const existing = byName.get(name);
+  if (existing) return existing;
+
+  const opening = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = factory.open(name, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(MUTATIONS_STORE)) {
+        const mutations = db.createObjectStore(MUTATIONS_STORE, { keyPath: "id" });
+        mutations.createIndex("timestamp", "timestamp");
+      }
+      if (!db.objectStoreNames.contains(QUERIES_STORE)) {
+        db.createObjectStore(QUERIES_STORE, { keyPath: "key" });
+      }
+      if (!db.objectStoreNames.contains(QUERY_META_STORE)) {
+        db.createObjectStore(QUERY_META_STORE, { keyPath: "key" });
+      }
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab is upgrading or deleting the database
+      db.onversionchange = () => {
+        db.close();
+        byName!.delete(name);
+      };
+      resolve(db);
+    };
+    request.onerror = () => {
+      byName!.delete(name);
+      reject(request.error);
+    };
+  });
+
+  byName.set(name, opening);
+  return opening;
+};
+
+const warnUnavailable = (storage: string): void => {
+  console.warn(
+    `${storage}: indexedDB is not available. ` +
+    "Pass an IDBFactory or use an in-memory storage outside the browser."
+  );
+};
+
+/**
+ * IndexedDB-based offline storage. Each mutation is its own record, so
+ * queueing or updating one doesn't rewrite the whole queue.
+ */
+export class IndexedDBOfflineStorage implements OfflineStorage {
+  private dbName: string;
+  private factory: IDBFactory | null;
+
+  constructor(dbName = DEFAULT_DB_NAME, factory?: IDBFactory) {
+    this.dbName = dbName;
+    this.factory = resolveFactory(factory);
+    if (!this.factory) {
+      warnUnavailable("IndexedDBOfflineStorage");
+    }
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore | null> {
+    if (!this.factory) return null;
+    const db = await openDatabase(this.factory, this.dbName);
+    return db.transaction(MUTATIONS_STORE, mode).objectStore(MUTATIONS_STORE);
+  }
+
+  async getMutations(): Promise<OfflineMutation[]> {
+    const store = await this.store("readonly");
+    if (!store) return [];
+    return requestResult(store.index("timestamp").getAll() as IDBRequest<OfflineMutation[]>);
+  }
+
+  async addMutation(mutation: OfflineMutation): Promise<void> {
+    const store = await this.store("readwrite");
+    if (!store) return;
+    store.put(mutation);
+    await transactionDone(store.transaction);
+  }
+
+  async updateMutation(id: string, update: Partial<OfflineMutation>): Promise<void> {
+    const store = await this.store("readwrite");
+    if (!store) return;
+
+    const existing = await requestResult(store.get(id) as IDBRequest<OfflineMutation | undefined>);
+    if (existing) {
+      store.put({ ...existing, ...update, id });
+    }
+    await transactionDone(store.transaction);
+  }
+
+  async removeMutation(id: string): Promise<void> {
+    const store = await this.store("readwrite");
+    if (!store) return;
+    store.delete(id);
+    await transactionDone(store.transaction);
+  }
+
+  async clear(): Promise<void> {
+    const store = await this.store("readwrite");
+    if (!store) return;
+    store.clear();
+    await transactionDone(store.transaction);
+  }
+}
+
+/**
+ * IndexedDB-backed storage for the persisted live query cache.
+ */
+export class IndexedDBQueryCacheStorage implements QueryCacheStorage {
+  private dbName: string;
+  private factory: IDBFactory | null;
+
+  constructor(dbName = DEFAULT_DB_NAME, factory?: IDBFactory) {
+    this.dbName = dbName;
+    this.factory = resolveFactory(factory);
+    if (!this.factory) {
+      warnUnavailable("IndexedDBQueryCacheStorage");
+    }
+  }
+
+  private async transaction(mode: IDBTransactionMode): Promise<IDBTransaction | null> {
+    if (!this.factory) return null;
+    const db = await openDatabase(this.factory, this.dbName);
+    return db.transaction([QUERIES_STORE, QUERY_META_STORE], mode);
+  }
+
+  async get(key: string): Promise<QueryCacheEntry | null> {
+    const tx = await this.transaction("readonly");
+    if (!tx) return null;
+    const entry = await requestResult(
+      tx.objectStore(QUERIES_STORE).get(key) as IDBRequest<QueryCacheEntry | undefined>
+    );
+    return entry ?? null;
+  }
+
+  async set(entry: QueryCacheEntry): Promise<void> {
+    const tx = await this.transaction("readwrite");
+    if (!tx) return;
+    const meta: QueryCacheMeta = { key: entry.key, updatedAt: entry.updatedAt, size: entry.size };
+    tx.objectStore(QUERIES_STORE).put(entry);
+    tx.objectStore(QUERY_META_STORE).put(meta);
+    await transactionDone(tx);
+  }
+
+  async delete(...keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+    const tx = await this.transaction("readwrite");
+    if (!tx) return;
+    for (const key of keys) {
+      tx.objectStore(QUERIES_STORE).delete(key);
+      tx.objectStore(QUERY_META_STORE).delete(key);
+    }
+    await transactionDone(tx);
+  }
+
+  async list(): Promise<QueryCacheMeta[]> {
+    const tx = await this.transaction("readonly");
+    if (!tx) return [];
+    return requestResult(tx.objectStore(QUERY_META_STORE).getAll() as IDBRequest<QueryCacheMeta[]>);
+  }
+
+  async clear(): Promise<void> {
+    const tx = await this.transaction("readwrite");
+    if (!tx) return;
+    tx.objectStore(QUERIES_STORE).clear();
+    tx.objectStore(QUERY_META_STORE).clear();
+    await transactionDone(tx);
+  }
+}
@@ -1,4 +1,6 @@
-import type { LiveListResourceClient, SubscriptionCallbacks, Subscription, EventMeta, ListOptions, SubscribeOptions } from "./types";
+import type { LiveListResourceClient, SubscriptionCallbacks, Subscription, EventMeta, ListOptions, SubscribeOptions, WriteEffectEvent } from "./types";
+import { PreconditionFailedError } from "./transport";
+import type { QueryCache } from "./query-cache";
 
 export type LiveQueryStatus = "loading" | "live" | "reconnecting" | "offline" | "error";
 
@@ -37,8 +39,12 @@ export interface LiveQueryOptions {
   limit?: number;
   subscriptionMode?: SubscriptionMode;
   select?: string[];
+  // Persisted results to render from before the first fetch (see queryCacheKey)
+  cache?: { store: QueryCache; key: string };
 }
 
+const PERSIST_DELAY_MS = 100;
+
 type SortFn<T> = (a: T, b: T) => number;
 
 const createSortFn = <T>(orderBy?: string): SortFn<T> | null => {
@@ -74,6 +80,7 @@ export const createLiveQuery = <T extends { id: string }>(
     onIdRemapped?: (optimisticId: string, serverId: string) => void;
     getIdMappings?: () => Map<string, string>;
     hasPendingMutationsForId?: (id: string) => Promise<boolean>;
+    onConflict?: (error: PreconditionFailedError, id: string) => void;
   }
 ): LiveQuery<T> => {
   const cache = new Map<string, T>();
@@ -81,6 +88,8 @@ export const createLiveQuery = <T extends { id: string }>(
   const pendingDeletes = new Set<string>();
   const pendingUpdates = new Map<string, Partial<T>>();
   const pendingRemoteChanges = new Map<string, T>(); // Changes that arrived for items not yet in cache
+  // Rows touched by batch writes and procedure calls that haven't settled, by write
+  const effectOverlays = new Map<string, { created: string[]; updated: string[]; deleted: string[] }>();
   const idMappings = new Map<string, string>();
   const listeners = new Set<() => void>();
   let subscription: Subscription<T> | null = null;
@@ -93,6 +102,10 @@ export const createLiveQuery = <T extends { id: string }>(
   let totalCount: number | undefined;
   let isLoadingMore = false;
   let nextCursor: string | null = null;
+  // Items came from the persisted cache and haven't been checked against the server
+  let reconcilePending = false;
+  let reconciling = false;
+  let persistTimer: ReturnType<typeof setTimeout> | null = null;
 
   const sortFn = createSortFn<T>(options.orderBy);
 
@@ -139,8 +152,34 @@ export const createLiveQuery = <T extends { id: string }>(
     };
   };
 
+  const persist = () => {
+    if (!options.cache) return;
+    options.cache.store
+      .write({
+        key: options.cache.key,
+        items: Array.from(cache.values()),
+        optimisticIds: Array.from(optimisticIds),
+        lastSeq,
+        hasMore,
+        nextCursor,
+        totalCount,
+      })
+      .catch(() => {
+        // A full or unavailable cache only costs the next cold start
+      });
+  };
+
+  const schedulePersist = () => {
+    if (!options.cache || persistTimer) return;
+    persistTimer = setTimeout(() => {
+      persistTimer = null;
+      if (!destroyed) persist();
+    }, PERSIST_DELAY_MS);
+  };
+
   const notify = () => {
     updateSnapshot();
+    schedulePersist();
     for (const listener of listeners) {
       listener();
     }
@@ -395,6 +434,11 @@ export const createLiveQuery = <T extends { id: string }>(
         }
       }
 
+      // The cached ETag belongs to the previous version; keep only the one sent with this change
+      if (!("_etag" in item)) {
+        delete (finalItem as Record<string, unknown>)._etag;
+      }
+
       // Also preserve internal markers (__appendedAt, __prependedAt)
       const appendedAt = (existing as any).__appendedAt;
       const prependedAt = (existing as any).__prependedAt;
@@ -437,6 +481,14 @@ export const createLiveQuery = <T extends { id: string }>(
     lastSeq = seq;
     status = isOnline() ? "live" : "offline";
     notify();
+
+    // Cached items may be stale; bring them up to date now that we're connected
+    if (reconcilePending && !reconciling && isOnline()) {
+      reconciling = true;
+      refresh().finally(() => {
+        reconciling = false;
+      });
+    }
   };
 
   const handleDisconnected = () => {
@@ -548,31 +600,108 @@ export const createLiveQuery = <T extends { id: string }>(
         cache.set(optId, item);
       }
 
+      reconcilePending = false;
       status = "live";
       error = null;
       notify();
     } catch (err) {
-      if ((err as { status?: number }).status === 401) {
+      const httpStatus = (err as { status?: number }).status;
+      if (httpStatus === 401) {
         callbacks?.onAuthError?.();
         return;
       }
       error = err as Error;
-      status = "error";
+      // Without a response, cached items stay on screen until we reconnect
+      status = reconcilePending && httpStatus === undefined ? "offline" : "error";
       notify();
     }
   };
 
+  const hydrate = async () => {
+    if (!options.cache) return;
+
+    let entry;
+    try {
+      entry = await options.cache.store.read<T>(options.cache.key);
+    } catch {
+      return;
+    }
+    if (!entry || destroyed || cache.size > 0) return;
+
+    for (const item of entry.items) {
+      cache.set(item.id, item);
+    }
+    for (const id of entry.optimisticIds) {
+      if (cache.has(id)) optimisticIds.add(id);
+    }
+    lastSeq = entry.lastSeq;
+    hasMore = entry.hasMore;
+    nextCursor = entry.nextCursor;
+    totalCount = entry.totalCount;
+    reconcilePending = true;
+    notify();
+  };
+
+  // Shows the expected effects of a write, then drops them and refetches
+  // once the server has answered (or the write failed)
+  const handleWriteEffect = (event: WriteEffectEvent) => {
+    if (destroyed) return;
+
+    if (event.type === "apply") {
+      const overlay = { created: [] as string[], updated: [] as string[], deleted: [] as string[] };
+      for (const effect of event.effects) {
+        if (effect.type === "create") {
+          const id = String(effect.data.id);
+          optimisticIds.add(id);
+          cache.set(id, { ...effect.data, id } as T);
+          overlay.created.push(id);
+        } else if (effect.type === "update") {
+          const existing = cache.get(effect.id);
+          if (existing) cache.set(effect.id, { ...existing, ...effect.data });
+          pendingUpdates.set(effect.id, { ...pendingUpdates.get(effect.id), ...effect.data } as Partial<T>);
+          overlay.updated.push(effect.id);
+        } else {
+          cache.delete(effect.id);
+          pendingDeletes.add(effect.id);
+          overlay.deleted.push(effect.id);
+        }
+      }
+      effectOverlays.set(event.key, overlay);
+      notify();
+      return;
+    }
+
+    const overlay = effectOverlays.get(event.key);
+    if (overlay) {
+      effectOverlays.delete(event.key);
+      for (const id of overlay.created) {
+        cache.delete(id);
+        optimisticIds.delete(id);
+      }
+      for (const id of overlay.updated) pendingUpdates.delete(id);
+      for (const id of overlay.deleted) pendingDeletes.delete(id);
+    }
+    refresh();
+  };
+
+  const stopWriteEffects = repo.onWriteEffect?.(handleWriteEffect);
+
   const init = async () => {
+    await hydrate();
+    if (destroyed) return;
+
     await refresh();
     if (destroyed) return;
 
-    // Get the IDs we already have from the initial fetch
+    // Get the IDs we already have from the initial fetch (or the cache)
     const knownIds = Array.from(cache.keys());
 
     const subscribeOptions: SubscribeOptions = {
       skipExisting: true,
       knownIds,
     };
+    // Still showing cached items: resume from where they were captured
+    if (reconcilePending && lastSeq > 0) subscribeOptions.resumeFrom = lastSeq;
     if (options.filter) subscribeOptions.filter = options.filter;
     if (options.include) subscribeOptions.include = options.include;
 
@@ -674,6 +803,26 @@ export const createLiveQuery = <T extends { id: string }>(
     }
   };
 
+  // Conditional writes carry the ETag of the version this query last saw
+  const conditionalOptions = (item: T | undefined): { ifMatch: string } | undefined => {
+    const etag = (item as { _etag?: unknown } | undefined)?._etag;
+    return typeof etag === "string" ? { ifMatch: etag } : undefined;
+  };
+
+  // Someone else changed the item first: drop our local edit and resync from the server
+  const handleWriteError = (id: string, err: unknown) => {
+    if (err instanceof PreconditionFailedError) {
+      pendingUpdates.delete(id);
+      pendingDeletes.delete(id);
+      callbacks?.onConflict?.(err, id);
+      error = err;
+      notify();
+      refresh();
+      return;
+    }
+    throw err;
+  };
+
   const mutate: LiveQueryMutations<T> = {
     create: (data) => {
       const optimisticId = `optimistic_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -721,12 +870,15 @@ export const createLiveQuery = <T extends { id: string }>(
       const existingPending = pendingUpdates.get(id) || {};
       pendingUpdates.set(id, { ...existingPending, ...data } as Partial<T>);
 
-      repo.update(id, data).then(() => {
+      const options = conditionalOptions(existing);
+      const request = options ? repo.update(id, data, options) : repo.update(id, data);
+      request.then(() => {
         updatePendingCount();
-      });
+      }, (err) => handleWriteError(id, err));
     },
 
     delete: (id) => {
+      const options = conditionalOptions(cache.get(id));
       cache.delete(id);
       optimisticIds.delete(id);
       // Track pending delete so item doesn't reappear on reconnection
@@ -734,9 +886,10 @@ export const createLiveQuery = <T extends { id: string }>(
       pendingDeletes.add(id);
       notify();
 
-      repo.delete(id).then(() => {
+      const request = options ? repo.delete(id, options) : repo.delete(id);
+      request.then(() => {
         updatePendingCount();
-      });
+      }, (err) => handleWriteError(id, err));
     },
   };
 
@@ -753,7 +906,13 @@ export const createLiveQuery = <T extends { id: string }>(
     loadMore,
 
     destroy: () => {
+      if (persistTimer) {
+        clearTimeout(persistTimer);
+        persistTimer = null;
+        persist();
+      }
       destroyed = true;
+      stopWriteEffects?.();
       subscription?.unsubscribe();
       listeners.clear();
       cache.clear();
@@ -118,6 +118,8 @@ export class LocalStorageOfflineStorage implements OfflineStorage {
 export interface SyncResult {
   success: boolean;
   serverId?: string;
+  // Ids of the rows made by a batchCreate, in the order they were sent
+  serverIds?: string[];
   error?: Error;
 }
 
@@ -182,6 +184,20 @@ const findMergeableMutation = (
       continue;
     }
 
+    // A later upsert of the same object supersedes the pending one
+    if (mutation.type === "upsert") {
+      if (
+        p.type === "upsert" &&
+        p.resource === mutation.resource &&
+        p.objectId === mutation.objectId &&
+        mutation.objectId !== undefined &&
+        withinWindow
+      ) {
+        return { type: "merge", targetId: p.id, targetMutation: p };
+      }
+      continue;
+    }
+
     // For deletes, skip if there's already a pending delete for same object
     if (mutation.type === "delete") {
       if (
@@ -205,6 +221,18 @@ const isConflictError = (error: unknown): error is ConflictError => {
   return (error as ConflictError).code === "CONFLICT";
 };
 
+// A stale If-Match (412) is a conflict whose server state we don't have
+const toConflictError = (
+  error: unknown,
+  mutation: OfflineMutation
+): ConflictError | null => {
+  if (isConflictError(error)) return error;
+  if (typeof error === "object" && error !== null && (error as { status?: number }).status === 412) {
+    return { code: "CONFLICT", serverState: undefined, clientState: mutation.data };
+  }
+  return null;
+};
+
 /**
  * Recursively remap all optimistic IDs in a data structure to their server IDs.
  * This handles nested objects, arrays, and any depth of nesting.
@@ -240,6 +268,23 @@ const remapIdsInData = (
   return data;
 };
 
+// Filters are strings, so optimistic ids are replaced wherever they appear
+const remapIdsInFilter = (
+  filter: string | undefined,
+  idMappings: Map<string, string>
+): string | undefined => {
+  if (!filter) return filter;
+  let result = filter;
+  for (const [optimisticId, serverId] of idMappings) {
+    result = result.split(optimisticId).join(serverId);
+  }
+  return result;
+};
+
+type QueuedMutationFields = Partial<
+  Pick<OfflineMutation, "idempotencyKey" | "optimisticIds" | "filter" | "procedure">
+>;
+
 export class OfflineManager {
   private storage: OfflineStorage;
   private config: OfflineConfig;
@@ -321,20 +366,26 @@ export class OfflineManager {
   }
 
   async queueMutation(
-    type: "create" | "update" | "delete",
+    type: OfflineMutation["type"],
     resource: string,
     data?: unknown,
     objectId?: string,
-    optimisticId?: string
+    optimisticId?: string,
+    ifMatch?: string,
+    // Batch and rpc details; a key passed here is reused so a retry of a
+    // request that did reach the server is recognized as the same write
+    fields: QueuedMutationFields = {}
   ): Promise<string> {
     const mutation: OfflineMutation = {
+      ...fields,
       id: uuidv4(),
-      idempotencyKey: generateIdempotencyKey(type, resource, objectId),
+      idempotencyKey: fields.idempotencyKey ?? generateIdempotencyKey(type, resource, objectId),
       type,
       resource,
       data,
       objectId,
       optimisticId: type === "create" ? (optimisticId ?? uuidv4()) : undefined,
+      ifMatch: type !== "create" ? ifMatch : undefined,
       timestamp: Date.now(),
       retryCount: 0,
       status: "pending",
@@ -422,6 +473,7 @@ export class OfflineManager {
             objectId: mutation.objectId ? this.resolveId(mutation.objectId) : mutation.objectId,
             // Recursively remap any optimistic IDs in the data
             data: remapIdsInData(mutation.data, this.idMappings),
+            filter: remapIdsInFilter(mutation.filter, this.idMappings),
           };
 
           const result = await this.onMutationSync(remappedMutation);
@@ -442,13 +494,21 @@ export class OfflineManager {
               });
             }
 
+            if (mutation.type === "batchCreate" && mutation.optimisticIds && result.serverIds) {
+              mutation.optimisticIds.forEach((optimisticId, index) => {
+                const serverId = result.serverIds![index];
+                if (serverId !== undefined) this.registerIdMapping(optimisticId, serverId);
+              });
+            }
+
             await this.storage.removeMutation(mutation.id);
           } else if (result.error) {
             throw result.error;
           }
         } catch (error) {
-          if (isConflictError(error)) {
-            const resolution = await this.handleConflict(mutation, error);
+          const conflict = toConflictError(error, mutation);
+          if (conflict) {
+            const resolution = await this.handleConflict(mutation, conflict);
 
             if (resolution === "discard") {
               await this.storage.removeMutation(mutation.id);
@@ -467,6 +527,8 @@ export class OfflineManager {
               ...mutation,
               data: resolution.data,
               type: resolution.retryWith ?? mutation.type,
+              // A resolved mutation overwrites deliberately, so drop the stale precondition
+              ifMatch: undefined,
               idempotencyKey: generateIdempotencyKey(
                 resolution.retryWith ?? mutation.type,
                 mutation.resource,
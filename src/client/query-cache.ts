@@ -0,0 +1,145 @@
+import type { QueryCacheEntry, QueryCacheMeta, QueryCacheStorage } from "./types";
+
+export interface QueryCacheKeyOptions {
+  filter?: string;
+  orderBy?: string;
+  include?: string;
+  select?: string[];
+}
+
+/**
+ * Cache key for a live query. `select` is part of the key as well, since a
+ * projection's items can't stand in for full rows.
+ */
+export const queryCacheKey = (resource: string, options: QueryCacheKeyOptions = {}): string =>
+  JSON.stringify([
+    resource,
+    options.filter ?? "",
+    options.orderBy ?? "",
+    options.include ?? "",
+    options.select ? [...options.select].sort() : [],
+  ]);
+
+export class InMemoryQueryCacheStorage implements QueryCacheStorage {
+  private entries = new Map<string, QueryCacheEntry>();
+
+  async get(key: string): Promise<QueryCacheEntry | null> {
+    return this.entries.get(key) ?? null;
+  }
+
+  async set(entry: QueryCacheEntry): Promise<void> {
+    this.entries.set(entry.key, entry);
+  }
+
+  async delete(...keys: string[]): Promise<void> {
+    for (const key of keys) {
+      this.entries.delete(key);
+    }
+  }
+
+  async list(): Promise<QueryCacheMeta[]> {
+    return Array.from(this.entries.values()).map(({ key, updatedAt, size }) => ({
+      key,
+      updatedAt,
+      size,
+    }));
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+export interface QueryCacheConfig {
+  storage?: QueryCacheStorage;
+  // Total size of cached items across all queries (default 5MB)
+  maxBytes?: number;
+  // Entries older than this are dropped (default 7 days)
+  maxAgeMs?: number;
+  maxEntries?: number;
+}
+
+export type QueryCacheWrite<T> = Omit<QueryCacheEntry<T>, "updatedAt" | "size">;
+
+/**
+ * Persisted snapshots of live query results, so a cold start can render
+ * the last known rows before the network answers.
+ */
+export class QueryCache {
+  private storage: QueryCacheStorage;
+  private maxBytes: number;
+  private maxAgeMs: number;
+  private maxEntries: number;
+
+  constructor(config: QueryCacheConfig = {}) {
+    this.storage = config.storage ?? new InMemoryQueryCacheStorage();
+    this.maxBytes = config.maxBytes ?? 5 * 1024 * 1024;
+    this.maxAgeMs = config.maxAgeMs ?? 7 * 24 * 60 * 60 * 1000;
+    this.maxEntries = config.maxEntries ?? 100;
+  }
+
+  async read<T>(key: string): Promise<QueryCacheEntry<T> | null> {
+    const entry = await this.storage.get(key);
+    if (!entry) return null;
+
+    if (Date.now() - entry.updatedAt > this.maxAgeMs) {
+      await this.storage.delete(key);
+      return null;
+    }
+
+    return entry as QueryCacheEntry<T>;
+  }
+
+  async write<T>(entry: QueryCacheWrite<T>): Promise<void> {
+    const size = JSON.stringify(entry.items).length;
+
+    // A result too large for the whole budget would only evict everything else
+    if (size > this.maxBytes) {
+      await this.storage.delete(entry.key);
+      return;
+    }
+
+    await this.storage.set({ ...entry, updatedAt: Date.now(), size } as QueryCacheEntry);
+    await this.evict();
+  }
+
+  async remove(key: string): Promise<void> {
+    await this.storage.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    await this.storage.clear();
+  }
+
+  /**
+   * Drops expired entries, then the least recently written ones until the
+   * cache is within its size and entry limits. Returns how many were removed.
+   */
+  async evict(): Promise<number> {
+    const now = Date.now();
+    const entries = (await this.storage.list()).sort((a, b) => b.updatedAt - a.updatedAt);
+
+    const evicted: string[] = [];
+    let totalBytes = 0;
+    let kept = 0;
+
+    for (const entry of entries) {
+      const expired = now - entry.updatedAt > this.maxAgeMs;
+      if (expired || kept >= this.maxEntries || totalBytes + entry.size > this.maxBytes) {
+        evicted.push(entry.key);
+        continue;
+      }
+      totalBytes += entry.size;
+      kept++;
+    }
+
+    if (evicted.length > 0) {
+      await this.storage.delete(...evicted);
+    }
+    return evicted.length;
+  }
+}
+
+export const createQueryCache = (config: QueryCacheConfig = {}): QueryCache => {
+  return new QueryCache(config);
+};
@@ -25,6 +25,8 @@ export type BooleanKeys<T> = {
 }[keyof T] &
   string;
 
+export type DateBucket = "hour" | "day" | "week" | "month" | "year";
+
 export type TypedAggregationGroup<
   T,
   GroupKeys extends keyof T,
@@ -33,8 +35,14 @@ export type TypedAggregationGroup<
   MinKeys extends keyof T,
   MaxKeys extends keyof T,
   HasCount extends boolean,
+  BucketKeys extends keyof T = never,
 > = {
-  key: [GroupKeys] extends [never] ? null : Pick<T, GroupKeys>;
+  // Date buckets are labels such as "2024-03-05", not dates
+  key: [GroupKeys | BucketKeys] extends [never]
+    ? null
+    : Pick<T, Exclude<GroupKeys, BucketKeys>> & { [K in BucketKeys]: string };
+  countDistinct?: Record<string, number>;
+  percentile?: Record<string, Record<string, number>>;
 } & ([HasCount] extends [true] ? { count: number } : object) &
   ([SumKeys] extends [never] ? object : { sum: { [K in SumKeys]: number } }) &
   ([AvgKeys] extends [never] ? object : { avg: { [K in AvgKeys]: number } }) &
@@ -49,6 +57,7 @@ export interface TypedAggregationResponse<
   MinKeys extends keyof T,
   MaxKeys extends keyof T,
   HasCount extends boolean,
+  BucketKeys extends keyof T = never,
 > {
   groups: Array<
     TypedAggregationGroup<
@@ -58,7 +67,8 @@ export interface TypedAggregationResponse<
       AvgKeys,
       MinKeys,
       MaxKeys,
-      HasCount
+      HasCount,
+      BucketKeys
     >
   >;
 }
@@ -84,4 +94,9 @@ export interface QueryBuilderState<T> {
   avg?: (keyof T)[];
   min?: (keyof T)[];
   max?: (keyof T)[];
+  dateBuckets?: Partial<Record<keyof T, DateBucket>>;
+  timezone?: string;
+  countDistinct?: (keyof T)[];
+  percentile?: Partial<Record<keyof T, number[]>>;
+  having?: string;
 }
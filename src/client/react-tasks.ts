@@ -0,0 +1,87 @@
+import { useState, useEffect, useMemo } from "react";
+import { getClient } from "./globals";
+import { createTaskClient, TaskClient, TaskSnapshot } from "./task-client";
+
+export interface UseTaskOptions {
+  // Where createTaskRoutes is mounted; defaults to "/api/tasks"
+  basePath?: string;
+  enabled?: boolean;
+}
+
+export interface UseTaskResult<TResult = unknown> {
+  task: TaskSnapshot<TResult> | null;
+  // 0 to 100, as last reported by the task
+  progress: number;
+  message: string | undefined;
+  result: TResult | undefined;
+  error: Error | null;
+  isLoading: boolean;
+  isRunning: boolean;
+  isDone: boolean;
+  isCancelled: boolean;
+}
+
+interface TaskState<TResult> {
+  task: TaskSnapshot<TResult> | null;
+  cancelled: boolean;
+  error: Error | null;
+}
+
+/**
+ * Follows a background task as it runs, usually one a procedure enqueued
+ * and returned the id of. Progress reported with `ctx.reportProgress`
+ * arrives as it happens.
+ *
+ * @example
+ * const { progress, message, isDone, result } = useTask<{ url: string }>(taskId);
+ * return isDone ? <a href={result?.url}>Download</a> : <progress value={progress} max={100} />;
+ */
+export function useTask<TResult = unknown>(
+  taskId: string | null | undefined,
+  options: UseTaskOptions = {}
+): UseTaskResult<TResult> {
+  const { basePath, enabled = true } = options;
+
+  const [state, setState] = useState<TaskState<TResult>>({
+    task: null,
+    cancelled: false,
+    error: null,
+  });
+
+  const taskClient: TaskClient = useMemo(() => {
+    const client = getClient();
+    return createTaskClient({
+      transport: client.transport as Parameters<typeof createTaskClient>[0]["transport"],
+      basePath,
+    });
+  }, [basePath]);
+
+  useEffect(() => {
+    setState({ task: null, cancelled: false, error: null });
+    if (!taskId || !enabled) return;
+
+    const watch = taskClient.watch<TResult>(taskId, {
+      onUpdate: (task) => setState({ task, cancelled: false, error: null }),
+      onCancelled: () => setState((prev) => ({ ...prev, cancelled: true })),
+      onError: (error) => setState((prev) => ({ ...prev, error })),
+    });
+
+    return () => watch.unsubscribe();
+  }, [taskClient, taskId, enabled]);
+
+  const { task, cancelled } = state;
+  const failed = task?.status === "dead" || task?.status === "failed";
+  const error = state.error ?? (failed ? new Error(task?.error ?? "Task failed") : null);
+
+  return {
+    task,
+    progress: task?.status === "completed" ? 100 : task?.progress?.percent ?? 0,
+    message: task?.progress?.message,
+    result: task?.result,
+    error,
+    isLoading: !!taskId && enabled && !task && !cancelled && !state.error,
+    isRunning: task?.status === "running",
+    isDone: task?.status === "completed",
+    isCancelled: cancelled,
+  };
+}
@@ -1,6 +1,7 @@
 import { useSyncExternalStore, useRef, useEffect, useCallback, useState, useMemo } from "react";
-import type { LiveListResourceClient, SearchableResourceClient, ConcaveClient, SearchResponse, SearchOptions, LiveQueryLike } from "./types";
+import type { LiveListResourceClient, SearchableResourceClient, ConcaveClient, SearchResponse, SearchOptions, SearchFacetBucket, LiveQueryLike, LiveAggregateResourceClient, LiveAggregateCallbacks, LiveAggregateSubscription, AggregateOptions, AggregationGroup } from "./types";
 import { getClient, getAuthErrorHandler } from "./globals";
+import { queryCacheKey } from "./query-cache";
 import { createLiveQuery, LiveQuery, LiveQueryOptions, LiveQueryState, LiveQueryMutations, statusLabel } from "./live-store";
 
 export type LiveStatus = "loading" | "live" | "reconnecting" | "offline" | "error";
@@ -191,10 +192,16 @@ export function useLiveList<
 
     const authErrorHandler = getAuthErrorHandler();
 
-    const liveQueryOptions = {
+    const liveQueryOptions: LiveQueryOptions = {
       ...queryOptions,
       select: select as string[] | undefined,
     };
+    if (!liveQueryOptions.cache && client?.queryCache && resourcePath) {
+      liveQueryOptions.cache = {
+        store: client.queryCache,
+        key: queryCacheKey(resourcePath, liveQueryOptions),
+      };
+    }
 
     liveQueryRef.current = createLiveQuery(repo, liveQueryOptions, {
       onAuthError: authErrorHandler ?? undefined,
@@ -260,6 +267,139 @@ export function useLiveList<
   };
 }
 
+interface LiveAggregateStream<TResult> {
+  result: TResult | undefined;
+  status: LiveStatus;
+  error: Error | null;
+}
+
+// Holds the latest result of a live aggregate stream opened by `open`,
+// reopening it whenever `key` changes
+function useLiveAggregateStream<TResult>(
+  pathOrRepo: string | LiveAggregateResourceClient,
+  open: (
+    repo: LiveAggregateResourceClient,
+    callbacks: LiveAggregateCallbacks<TResult>
+  ) => LiveAggregateSubscription,
+  key: string,
+  enabled: boolean
+): LiveAggregateStream<TResult> {
+  const [stream, setStream] = useState<LiveAggregateStream<TResult>>({
+    result: undefined,
+    status: "loading",
+    error: null,
+  });
+
+  const repo = useMemo(() => {
+    if (typeof pathOrRepo === "string") {
+      return getClient().resource(pathOrRepo);
+    }
+    return pathOrRepo;
+  }, [pathOrRepo]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    setStream((prev) => ({ ...prev, status: "loading", error: null }));
+    const subscription = open(repo, {
+      onUpdate: (result) => setStream({ result, status: "live", error: null }),
+      onError: (error) => setStream((prev) => ({ ...prev, status: "error", error })),
+      onDisconnected: () => setStream((prev) => ({ ...prev, status: "reconnecting" })),
+    });
+
+    return () => subscription.unsubscribe();
+  }, [repo, key, enabled]);
+
+  return stream;
+}
+
+export interface UseLiveAggregateOptions extends AggregateOptions {
+  enabled?: boolean;
+}
+
+export interface UseLiveAggregateResult {
+  groups: AggregationGroup[];
+  status: LiveStatus;
+  error: Error | null;
+  isLoading: boolean;
+  isLive: boolean;
+}
+
+/**
+ * Aggregation that stays current as the resource changes. Counts and sums
+ * update with each write; other metrics are recomputed shortly after.
+ *
+ * @example
+ * const { groups } = useLiveAggregate('/api/orders', {
+ *   groupBy: ['status'],
+ *   count: true,
+ *   sum: ['total'],
+ * });
+ */
+export function useLiveAggregate(
+  pathOrRepo: string | LiveAggregateResourceClient,
+  options: UseLiveAggregateOptions = {}
+): UseLiveAggregateResult {
+  const { enabled = true, ...aggregateOptions } = options;
+  const key = JSON.stringify(aggregateOptions);
+
+  const stream = useLiveAggregateStream<{ groups: AggregationGroup[] }>(
+    pathOrRepo,
+    (repo, callbacks) => repo.subscribeAggregate(aggregateOptions, callbacks),
+    key,
+    enabled
+  );
+
+  return {
+    groups: stream.result?.groups ?? [],
+    status: stream.status,
+    error: stream.error,
+    isLoading: stream.status === "loading",
+    isLive: stream.status === "live",
+  };
+}
+
+export interface UseLiveCountOptions {
+  filter?: string;
+  enabled?: boolean;
+}
+
+export interface UseLiveCountResult {
+  count: number | undefined;
+  status: LiveStatus;
+  error: Error | null;
+  isLoading: boolean;
+  isLive: boolean;
+}
+
+/**
+ * Row count that stays current as the resource changes.
+ *
+ * @example
+ * const { count } = useLiveCount('/api/todos', { filter: 'completed==false' });
+ */
+export function useLiveCount(
+  pathOrRepo: string | LiveAggregateResourceClient,
+  options: UseLiveCountOptions = {}
+): UseLiveCountResult {
+  const { enabled = true, filter } = options;
+
+  const stream = useLiveAggregateStream<number>(
+    pathOrRepo,
+    (repo, callbacks) => repo.subscribeCount(filter, callbacks),
+    filter ?? "",
+    enabled
+  );
+
+  return {
+    count: stream.result,
+    status: stream.status,
+    error: stream.error,
+    isLoading: stream.status === "loading",
+    isLive: stream.status === "live",
+  };
+}
+
 export type AuthStrategy = "cookie" | "jwt" | "bearer" | "apiKey" | "auto";
 
 export interface UseAuthOptions {
@@ -556,6 +696,7 @@ export interface UseSearchResult<T> {
   items: T[];
   total: number;
   highlights?: Record<string, Record<string, string[]>>;
+  facets?: Record<string, SearchFacetBucket[]>;
   isSearching: boolean;
   error: Error | null;
   search: (query: string) => void;
@@ -571,6 +712,14 @@ export interface UseSearchResult<T> {
  * // In your component:
  * <input onChange={(e) => search(e.target.value)} />
  * {items.map(item => <div key={item.id}>{item.title}</div>)}
+ *
+ * @example
+ * // Search-as-you-type with typo tolerance and status counts
+ * const { items, facets, search } = useSearch<Todo>('/api/todos', {
+ *   prefix: true,
+ *   fuzzy: true,
+ *   facets: ['status'],
+ * });
  */
 export function useSearch<T extends { id: string }>(
   pathOrRepo: string | SearchableResourceClient<T>,
@@ -629,6 +778,7 @@ export function useSearch<T extends { id: string }>(
     items: results?.items ?? [],
     total: results?.total ?? 0,
     highlights: results?.highlights,
+    facets: results?.facets,
     isSearching,
     error,
     search,
@@ -656,6 +806,10 @@ export type {
   FileUploadOptions,
 } from "./react-files";
 
+export { useTask } from "./react-tasks";
+export type { UseTaskOptions, UseTaskResult } from "./react-tasks";
+export type { TaskSnapshot, TaskProgress } from "./task-client";
+
 export {
   useJWTAuth,
   initJWTClient,
@@ -10,33 +10,72 @@ import {
   CreateOptions,
   UpdateOptions,
   DeleteOptions,
+  UpsertOptions,
   SubscribeOptions,
   SubscriptionCallbacks,
   Subscription,
+  LiveAggregateCallbacks,
+  LiveAggregateSubscription,
+  BatchWriteOptions,
+  BatchWriteResult,
+  RpcOptions,
+  WriteEffectEvent,
 } from "./types";
 import { Transport, TransportError } from "./transport";
 import { createSubscription, SubscriptionManager } from "./subscription-manager";
-import { OfflineManager } from "./offline";
-import { ResourceQueryBuilder } from "./resource-query-builder";
+import { SubscriptionSocket } from "./subscription-socket";
+import { OfflineManager, generateIdempotencyKey } from "./offline";
+import { WriteEffectBus, createOptimisticId, isSameResource } from "./write-effects";
+import { ResourceQueryBuilder, percentileParam } from "./resource-query-builder";
 
 export interface RepositoryConfig {
   transport: Transport;
   resourcePath: string;
   idField?: string;
   offline?: OfflineManager;
+  socket?: SubscriptionSocket;
+  effects?: WriteEffectBus;
 }
 
+// Fetch rejects with a TypeError when the request never reaches the server;
+// anything the server answered arrives as a TransportError
+const isNetworkError = (error: unknown) => !(error instanceof TransportError);
+
 export class Repository<T extends { id: string }> implements ResourceClient<T> {
   private transport: Transport;
   private resourcePath: string;
   private idField: keyof T;
   private offline?: OfflineManager;
+  private socket?: SubscriptionSocket;
+  private effects?: WriteEffectBus;
+  // Last ETag seen per item, sent as If-Match on update/replace/delete
+  private etags = new Map<string, string>();
 
   constructor(config: RepositoryConfig) {
     this.transport = config.transport;
     this.resourcePath = config.resourcePath;
     this.idField = (config.idField ?? "id") as keyof T;
     this.offline = config.offline;
+    this.socket = config.socket;
+    this.effects = config.effects;
+  }
+
+  getETag(id: string): string | undefined {
+    return this.etags.get(id);
+  }
+
+  private rememberETag(id: unknown, etag: string | null | undefined): void {
+    if (id === undefined || id === null || !etag) return;
+    this.etags.set(String(id), etag);
+  }
+
+  private conditionalHeaders(
+    id: string,
+    ifMatch?: string | false
+  ): Record<string, string> | undefined {
+    if (ifMatch === false) return undefined;
+    const etag = ifMatch ?? this.etags.get(id);
+    return etag ? { "If-Match": etag } : undefined;
   }
 
   async list(options: ListOptions = {}): Promise<PaginatedResponse<T>> {
@@ -56,6 +95,10 @@ export class Repository<T extends { id: string }> implements ResourceClient<T> {
       params,
     });
 
+    for (const item of response.data?.items ?? []) {
+      this.rememberETag(item[this.idField], (item as { _etag?: string })._etag);
+    }
+
     return response.data;
   }
 
@@ -71,6 +114,8 @@ export class Repository<T extends { id: string }> implements ResourceClient<T> {
       params,
     });
 
+    this.rememberETag(id, response.headers?.get("ETag"));
+
     return response.data;
   }
 
@@ -88,20 +133,10 @@ export class Repository<T extends { id: string }> implements ResourceClient<T> {
   }
 
   async aggregate(options: AggregateOptions): Promise<AggregationResponse> {
-    const params: Record<string, string | boolean> = {};
-
-    if (options.filter) params.filter = options.filter;
-    if (options.groupBy) params.groupBy = options.groupBy.join(",");
-    if (options.count) params.count = true;
-    if (options.sum) params.sum = options.sum.join(",");
-    if (options.avg) params.avg = options.avg.join(",");
-    if (options.min) params.min = options.min.join(",");
-    if (options.max) params.max = options.max.join(",");
-
     const response = await this.transport.request<AggregationResponse>({
       method: "GET",
       path: `${this.resourcePath}/aggregate`,
-      params,
+      params: aggregateParams(options),
     });
 
     return response.data;
@@ -116,6 +151,9 @@ export class Repository<T extends { id: string }> implements ResourceClient<T> {
     if (options.limit) params.limit = options.limit;
     if (options.offset) params.offset = options.offset;
     if (options.highlight) params.highlight = true;
+    if (options.facets?.length) params.facets = options.facets.join(",");
+    if (options.fuzzy !== undefined) params.fuzzy = options.fuzzy;
+    if (options.prefix) params.prefix = true;
 
     const response = await this.transport.request<SearchResponse<T>>({
       method: "GET",
@@ -147,6 +185,7 @@ export class Repository<T extends { id: string }> implements ResourceClient<T> {
       path: this.resourcePath,
       body: data,
     });
+    this.rememberETag(response.data?.id, response.headers?.get("ETag"));
     return response.data;
   }
 
@@ -157,11 +196,12 @@ export class Repository<T extends { id: string }> implements ResourceClient<T> {
       body: data,
       headers: {
         "X-Concave-Optimistic-Id": optimisticId,
-        "X-Idempotency-Key": optimisticId,
+        "Idempotency-Key": optimisticId,
       },
     }).then(response => {
       // Success: remap ID if different
       const serverId = response.data.id;
+      this.rememberETag(serverId, response.headers?.get("ETag"));
       if (serverId !== optimisticId) {
         this.offline!.registerIdMapping(optimisticId, serverId);
       }
@@ -179,31 +219,38 @@ export class Repository<T extends { id: string }> implements ResourceClient<T> {
       const optimisticResult = { ...data, id } as T;
 
       // Fire off background sync
-      this.backgroundUpdate(id, data);
+      this.backgroundUpdate(id, data, options.ifMatch);
 
       return optimisticResult;
     }
 
     // Non-optimistic: wait for server response
+    const headers = this.conditionalHeaders(id, options.ifMatch);
     const response = await this.transport.request<T>({
       method: "PATCH",
       path: `${this.resourcePath}/${id}`,
       body: data,
+      ...(headers && { headers }),
     });
+    this.rememberETag(id, response.headers?.get("ETag"));
     return response.data;
   }
 
-  private backgroundUpdate(id: string, data: Partial<T>): void {
+  private backgroundUpdate(id: string, data: Partial<T>, ifMatch?: string | false): void {
     // Resolve optimistic ID to server ID if needed
     const resolvedId = this.offline!.resolveId(id);
+    const headers = this.conditionalHeaders(resolvedId, ifMatch);
 
     this.transport.request<T>({
       method: "PATCH",
       path: `${this.resourcePath}/${resolvedId}`,
       body: data,
+      ...(headers && { headers }),
+    }).then(response => {
+      this.rememberETag(resolvedId, response.headers?.get("ETag"));
     }).catch(() => {
       // Failure: queue for retry (use original id, will be resolved during sync)
-      this.offline!.queueMutation("update", this.resourcePath, data, id);
+      this.offline!.queueMutation("update", this.resourcePath, data, id, undefined, headers?.["If-Match"]);
     });
   }
 
@@ -215,31 +262,38 @@ export class Repository<T extends { id: string }> implements ResourceClient<T> {
       const optimisticResult = { ...data, id } as T;
 
       // Fire off background sync
-      this.backgroundReplace(id, data);
+      this.backgroundReplace(id, data, options.ifMatch);
 
       return optimisticResult;
     }
 
     // Non-optimistic: wait for server response
+    const headers = this.conditionalHeaders(id, options.ifMatch);
     const response = await this.transport.request<T>({
       method: "PUT",
       path: `${this.resourcePath}/${id}`,
       body: data,
+      ...(headers && { headers }),
     });
+    this.rememberETag(id, response.headers?.get("ETag"));
     return response.data;
   }
 
-  private backgroundReplace(id: string, data: Omit<T, "id">): void {
+  private backgroundReplace(id: string, data: Omit<T, "id">, ifMatch?: string | false): void {
     // Resolve optimistic ID to server ID if needed
     const resolvedId = this.offline!.resolveId(id);
+    const headers = this.conditionalHeaders(resolvedId, ifMatch);
 
     this.transport.request<T>({
       method: "PUT",
       path: `${this.resourcePath}/${resolvedId}`,
       body: data,
+      ...(headers && { headers }),
+    }).then(response => {
+      this.rememberETag(resolvedId, response.headers?.get("ETag"));
     }).catch(() => {
       // Failure: queue for retry
-      this.offline!.queueMutation("update", this.resourcePath, data, id);
+      this.offline!.queueMutation("update", this.resourcePath, data, id, undefined, headers?.["If-Match"]);
     });
   }
 
@@ -249,59 +303,181 @@ export class Repository<T extends { id: string }> implements ResourceClient<T> {
 
     if (useOptimistic) {
       // Fire off background sync
-      this.backgroundDelete(id);
+      this.backgroundDelete(id, options.ifMatch);
       return;
     }
 
     // Non-optimistic: wait for server response
+    const headers = this.conditionalHeaders(id, options.ifMatch);
     await this.transport.request<void>({
       method: "DELETE",
       path: `${this.resourcePath}/${id}`,
+      ...(headers && { headers }),
     });
+    this.etags.delete(id);
   }
 
-  private backgroundDelete(id: string): void {
+  private backgroundDelete(id: string, ifMatch?: string | false): void {
     // Resolve optimistic ID to server ID if needed
     const resolvedId = this.offline!.resolveId(id);
+    const headers = this.conditionalHeaders(resolvedId, ifMatch);
 
     this.transport.request<void>({
       method: "DELETE",
       path: `${this.resourcePath}/${resolvedId}`,
+      ...(headers && { headers }),
+    }).then(() => {
+      this.etags.delete(resolvedId);
+    }).catch(() => {
+      // Failure: queue for retry
+      this.offline!.queueMutation("delete", this.resourcePath, undefined, id, undefined, headers?.["If-Match"]);
+    });
+  }
+
+  async upsert(data: Partial<T>, options: UpsertOptions = {}): Promise<T> {
+    // Default to optimistic when offline manager is present (opt-out with optimistic: false)
+    const useOptimistic = this.offline && options.optimistic !== false;
+
+    if (useOptimistic) {
+      // Fire off background sync
+      this.backgroundUpsert(data, options.ifMatch);
+
+      return { ...data } as T;
+    }
+
+    // Non-optimistic: wait for server response
+    const response = await this.transport.request<T>({
+      method: "POST",
+      path: `${this.resourcePath}/upsert`,
+      body: data,
+      ...(options.ifMatch && { headers: { "If-Match": options.ifMatch } }),
+    });
+    this.rememberETag(response.data?.[this.idField], response.headers?.get("ETag"));
+    return response.data;
+  }
+
+  private backgroundUpsert(data: Partial<T>, ifMatch?: string): void {
+    const id = data[this.idField];
+    const objectId = id === undefined || id === null ? undefined : String(id);
+
+    this.transport.request<T>({
+      method: "POST",
+      path: `${this.resourcePath}/upsert`,
+      body: data,
+      ...(ifMatch && { headers: { "If-Match": ifMatch } }),
+    }).then(response => {
+      this.rememberETag(response.data?.[this.idField], response.headers?.get("ETag"));
     }).catch(() => {
       // Failure: queue for retry
-      this.offline!.queueMutation("delete", this.resourcePath, undefined, id);
+      this.offline!.queueMutation("upsert", this.resourcePath, data, objectId, undefined, ifMatch);
     });
   }
 
-  async batchCreate(items: Partial<Omit<T, "id">>[]): Promise<T[]> {
+  async batchCreate(items: Partial<Omit<T, "id">>[], options: BatchWriteOptions = {}): Promise<T[]> {
+    const idempotencyKey = generateIdempotencyKey("batchCreate", this.resourcePath);
+
+    const queue = async () => {
+      const created = items.map((data) => ({ ...data, id: createOptimisticId() }) as T);
+      // Show the rows in live queries until the batch syncs
+      this.effects?.apply(
+        idempotencyKey,
+        created.map((data) => ({ type: "create" as const, resource: this.resourcePath, data }))
+      );
+      await this.offline!.queueMutation("batchCreate", this.resourcePath, items, undefined, undefined, undefined, {
+        idempotencyKey,
+        optimisticIds: created.map((item) => item.id),
+      });
+      return created;
+    };
+
+    if (this.queuesWhileOffline(options)) return queue();
+
+    try {
+      const response = await this.transport.request<{ items: T[] }>({
+        method: "POST",
+        path: `${this.resourcePath}/batch`,
+        body: { items },
+        headers: { "Idempotency-Key": idempotencyKey },
+      });
+      return response.data.items;
+    } catch (error) {
+      if (!this.canQueue(options, error)) throw error;
+      return queue();
+    }
+  }
+
+  async batchUpsert(items: Partial<T>[]): Promise<T[]> {
     const response = await this.transport.request<{ items: T[] }>({
       method: "POST",
-      path: `${this.resourcePath}/batch`,
+      path: `${this.resourcePath}/batch/upsert`,
       body: { items },
     });
 
     return response.data.items;
   }
 
-  async batchUpdate(filter: string, data: Partial<T>): Promise<{ count: number }> {
-    const response = await this.transport.request<{ count: number }>({
-      method: "PATCH",
-      path: `${this.resourcePath}/batch`,
-      params: { filter },
-      body: data,
-    });
+  async batchUpdate(filter: string, data: Partial<T>, options: BatchWriteOptions = {}): Promise<BatchWriteResult> {
+    const idempotencyKey = generateIdempotencyKey("batchUpdate", this.resourcePath);
 
-    return response.data;
+    const queue = async (): Promise<BatchWriteResult> => {
+      await this.offline!.queueMutation("batchUpdate", this.resourcePath, data, undefined, undefined, undefined, {
+        idempotencyKey,
+        filter,
+      });
+      return { count: 0, queued: true };
+    };
+
+    if (this.queuesWhileOffline(options)) return queue();
+
+    try {
+      const response = await this.transport.request<BatchWriteResult>({
+        method: "PATCH",
+        path: `${this.resourcePath}/batch`,
+        params: { filter },
+        body: data,
+        headers: { "Idempotency-Key": idempotencyKey },
+      });
+      return response.data;
+    } catch (error) {
+      if (!this.canQueue(options, error)) throw error;
+      return queue();
+    }
   }
 
-  async batchDelete(filter: string): Promise<{ count: number }> {
-    const response = await this.transport.request<{ count: number }>({
-      method: "DELETE",
-      path: `${this.resourcePath}/batch`,
-      params: { filter },
-    });
+  async batchDelete(filter: string, options: BatchWriteOptions = {}): Promise<BatchWriteResult> {
+    const idempotencyKey = generateIdempotencyKey("batchDelete", this.resourcePath);
 
-    return response.data;
+    const queue = async (): Promise<BatchWriteResult> => {
+      await this.offline!.queueMutation("batchDelete", this.resourcePath, undefined, undefined, undefined, undefined, {
+        idempotencyKey,
+        filter,
+      });
+      return { count: 0, queued: true };
+    };
+
+    if (this.queuesWhileOffline(options)) return queue();
+
+    try {
+      const response = await this.transport.request<BatchWriteResult>({
+        method: "DELETE",
+        path: `${this.resourcePath}/batch`,
+        params: { filter },
+        headers: { "Idempotency-Key": idempotencyKey },
+      });
+      return response.data;
+    } catch (error) {
+      if (!this.canQueue(options, error)) throw error;
+      return queue();
+    }
+  }
+
+  // Batch writes queue by default when offline support is enabled (opt-out with optimistic: false)
+  private canQueue(options: { optimistic?: boolean }, error: unknown): boolean {
+    return !!this.offline && options.optimistic !== false && isNetworkError(error);
+  }
+
+  private queuesWhileOffline(options: { optimistic?: boolean }): boolean {
+    return !!this.offline && options.optimistic !== false && !this.offline.getIsOnline();
   }
 
   subscribe(
@@ -311,20 +487,140 @@ export class Repository<T extends { id: string }> implements ResourceClient<T> {
     return createSubscription({
       transport: this.transport,
       resourcePath: this.resourcePath,
+      socket: this.socket,
       idField: this.idField,
       options,
       callbacks,
     });
   }
 
-  async rpc<TInput, TOutput>(name: string, input: TInput): Promise<TOutput> {
-    const response = await this.transport.request<{ data: TOutput }>({
-      method: "POST",
-      path: `${this.resourcePath}/rpc/${name}`,
-      body: input,
+  subscribeAggregate(
+    options: AggregateOptions,
+    callbacks: LiveAggregateCallbacks<AggregationResponse>
+  ): LiveAggregateSubscription {
+    const params = Object.fromEntries(
+      Object.entries(aggregateParams(options)).map(([key, value]) => [key, String(value)])
+    );
+
+    return this.openLiveAggregate<{ groups: AggregationResponse["groups"] }>(
+      "aggregate",
+      params,
+      (event) => callbacks.onUpdate({ groups: event.groups }),
+      callbacks
+    );
+  }
+
+  subscribeCount(
+    filter: string | undefined,
+    callbacks: LiveAggregateCallbacks<number>
+  ): LiveAggregateSubscription {
+    return this.openLiveAggregate<{ count: number }>(
+      "count",
+      filter ? { filter } : {},
+      (event) => callbacks.onUpdate(event.count),
+      callbacks
+    );
+  }
+
+  // The browser reconnects dropped streams itself, and the server answers
+  // every connect with the current result
+  private openLiveAggregate<TEvent>(
+    endpoint: "aggregate" | "count",
+    params: Record<string, string>,
+    onEvent: (event: TEvent) => void,
+    callbacks: LiveAggregateCallbacks<never>
+  ): LiveAggregateSubscription {
+    const eventSource = this.transport.createEventSource(
+      `${this.resourcePath}/${endpoint}/subscribe`,
+      params
+    );
+
+    eventSource.onopen = () => callbacks.onConnected?.();
+
+    eventSource.addEventListener("message", (e) => {
+      try {
+        onEvent(JSON.parse((e as MessageEvent).data) as TEvent);
+      } catch (error) {
+        console.error("Failed to parse live aggregate event:", error);
+      }
+    });
+
+    eventSource.addEventListener("error", (e) => {
+      const data = (e as MessageEvent).data;
+      if (typeof data === "string") {
+        // Sent by the server before it ends the stream
+        eventSource.close();
+        callbacks.onError?.(new Error(JSON.parse(data).error));
+      } else if (eventSource.readyState === 2) {
+        callbacks.onError?.(new Error(`Live ${endpoint} stream closed`));
+      } else {
+        callbacks.onDisconnected?.();
+      }
     });
 
-    return response.data.data;
+    return { unsubscribe: () => eventSource.close() };
+  }
+
+  rpc<TInput, TOutput>(name: string, input: TInput, options?: RpcOptions & { queue?: false }): Promise<TOutput>;
+  rpc<TInput, TOutput>(name: string, input: TInput, options: RpcOptions & { queue: true }): Promise<TOutput | undefined>;
+  async rpc<TInput, TOutput>(name: string, input: TInput, options: RpcOptions = {}): Promise<TOutput | undefined> {
+    const idempotencyKey = generateIdempotencyKey("rpc", this.resourcePath, name);
+    // Procedures run arbitrary code, so calls only queue when asked to
+    const queueOptions = { optimistic: options.queue === true };
+
+    const queue = async () => {
+      // The effects stay applied until the queued call syncs
+      await this.offline!.queueMutation("rpc", this.resourcePath, input, undefined, undefined, undefined, {
+        idempotencyKey,
+        procedure: name,
+      });
+      return undefined;
+    };
+
+    this.effects?.apply(idempotencyKey, options.writeEffects ?? []);
+    if (this.queuesWhileOffline(queueOptions)) return queue();
+
+    try {
+      const response = await this.transport.request<{ data: TOutput; writeEffects?: { resource: string }[] }>({
+        method: "POST",
+        path: `${this.resourcePath}/rpc/${name}`,
+        body: input,
+        headers: { "Idempotency-Key": idempotencyKey },
+      });
+      this.effects?.settle(
+        idempotencyKey,
+        (response.data.writeEffects ?? []).map((effect) => effect.resource)
+      );
+      return response.data.data;
+    } catch (error) {
+      if (this.canQueue(queueOptions, error)) return queue();
+      this.effects?.settle(idempotencyKey);
+      throw error;
+    }
+  }
+
+  /**
+   * Listens for write effects on this resource, as applied by batch writes
+   * and procedure calls. A settle event is passed on when the write had
+   * effects here or the server reported changing this resource.
+   */
+  onWriteEffect(listener: (event: WriteEffectEvent) => void): () => void {
+    if (!this.effects) return () => {};
+    const appliedKeys = new Set<string>();
+
+    return this.effects.subscribe((event) => {
+      if (event.type === "apply") {
+        const effects = event.effects.filter((effect) => isSameResource(this.resourcePath, effect.resource));
+        if (effects.length === 0) return;
+        appliedKeys.add(event.key);
+        listener({ ...event, effects });
+      } else if (
+        appliedKeys.delete(event.key) ||
+        event.resources.some((resource) => isSameResource(this.resourcePath, resource))
+      ) {
+        listener(event);
+      }
+    });
   }
 
   query(): ResourceQueryBuilder<T> {
@@ -332,6 +628,26 @@ export class Repository<T extends { id: string }> implements ResourceClient<T> {
   }
 }
 
+const aggregateParams = (options: AggregateOptions): Record<string, string | number | boolean> => {
+  const params: Record<string, string | number | boolean> = {};
+
+  if (options.filter) params.filter = options.filter;
+  if (options.groupBy) params.groupBy = options.groupBy.join(",");
+  if (options.count) params.count = true;
+  if (options.sum) params.sum = options.sum.join(",");
+  if (options.avg) params.avg = options.avg.join(",");
+  if (options.min) params.min = options.min.join(",");
+  if (options.max) params.max = options.max.join(",");
+  if (options.countDistinct) params.countDistinct = options.countDistinct.join(",");
+  if (options.percentile) params.percentile = percentileParam(options.percentile);
+  if (options.timezone) params.timezone = options.timezone;
+  if (options.having) params.having = options.having;
+  if (options.orderBy) params.orderBy = options.orderBy;
+  if (options.limit) params.limit = options.limit;
+
+  return params;
+};
+
 export const createRepository = <T extends { id: string }>(
   config: RepositoryConfig
 ): ResourceClient<T> => {
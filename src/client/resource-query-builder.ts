@@ -5,8 +5,15 @@ import type {
   TypedAggregationResponse,
   TypedPaginatedResponse,
   QueryBuilderState,
+  DateBucket,
 } from "./query-types";
 
+// `{ latency: [50, 95] }` as the `percentile` query parameter
+export const percentileParam = (percentile: Record<string, number[]>): string =>
+  Object.entries(percentile)
+    .flatMap(([field, percents]) => percents.map((percent) => `${field}:${percent}`))
+    .join(",");
+
 export class ResourceQueryBuilder<
   T extends { id: string },
   SelectedFields extends keyof T = keyof T,
@@ -16,6 +23,7 @@ export class ResourceQueryBuilder<
   MinKeys extends ComparableKeys<T> = never,
   MaxKeys extends ComparableKeys<T> = never,
   HasCount extends boolean = false,
+  BucketKeys extends keyof T = never,
 > {
   private readonly transport: Transport;
   private readonly resourcePath: string;
@@ -39,6 +47,7 @@ export class ResourceQueryBuilder<
     NewMinKeys extends ComparableKeys<T> = MinKeys,
     NewMaxKeys extends ComparableKeys<T> = MaxKeys,
     NewHasCount extends boolean = HasCount,
+    NewBucketKeys extends keyof T = BucketKeys,
   >(
     newState: Partial<QueryBuilderState<T>>
   ): ResourceQueryBuilder<
@@ -49,7 +58,8 @@ export class ResourceQueryBuilder<
     NewAvgKeys,
     NewMinKeys,
     NewMaxKeys,
-    NewHasCount
+    NewHasCount,
+    NewBucketKeys
   > {
     return new ResourceQueryBuilder(this.transport, this.resourcePath, {
       ...this.state,
@@ -67,7 +77,8 @@ export class ResourceQueryBuilder<
     AvgKeys,
     MinKeys,
     MaxKeys,
-    HasCount
+    HasCount,
+    BucketKeys
   > {
     const allFields = [...(this.state.select ?? []), ...fields] as K[];
     return this.clone<
@@ -77,7 +88,8 @@ export class ResourceQueryBuilder<
       AvgKeys,
       MinKeys,
       MaxKeys,
-      HasCount
+      HasCount,
+      BucketKeys
     >({
       select: allFields,
     });
@@ -93,7 +105,8 @@ export class ResourceQueryBuilder<
     AvgKeys,
     MinKeys,
     MaxKeys,
-    HasCount
+    HasCount,
+    BucketKeys
   > {
     const combinedFilter = this.state.filter
       ? `(${this.state.filter});(${filter})`
@@ -111,7 +124,8 @@ export class ResourceQueryBuilder<
     AvgKeys,
     MinKeys,
     MaxKeys,
-    HasCount
+    HasCount,
+    BucketKeys
   > {
     return this.filter(filter);
   }
@@ -126,7 +140,8 @@ export class ResourceQueryBuilder<
     AvgKeys,
     MinKeys,
     MaxKeys,
-    HasCount
+    HasCount,
+    BucketKeys
   > {
     return this.clone({ orderBy });
   }
@@ -141,7 +156,8 @@ export class ResourceQueryBuilder<
     AvgKeys,
     MinKeys,
     MaxKeys,
-    HasCount
+    HasCount,
+    BucketKeys
   > {
     return this.clone({ limit });
   }
@@ -156,7 +172,8 @@ export class ResourceQueryBuilder<
     AvgKeys,
     MinKeys,
     MaxKeys,
-    HasCount
+    HasCount,
+    BucketKeys
   > {
     return this.clone({ cursor });
   }
@@ -171,7 +188,8 @@ export class ResourceQueryBuilder<
     AvgKeys,
     MinKeys,
     MaxKeys,
-    HasCount
+    HasCount,
+    BucketKeys
   > {
     return this.clone({ include });
   }
@@ -184,7 +202,8 @@ export class ResourceQueryBuilder<
     AvgKeys,
     MinKeys,
     MaxKeys,
-    HasCount
+    HasCount,
+    BucketKeys
   > {
     return this.clone({ totalCount: true });
   }
@@ -199,7 +218,8 @@ export class ResourceQueryBuilder<
     AvgKeys,
     MinKeys,
     MaxKeys,
-    HasCount
+    HasCount,
+    BucketKeys
   > {
     return this.clone<
       SelectedFields,
@@ -208,7 +228,8 @@ export class ResourceQueryBuilder<
       AvgKeys,
       MinKeys,
       MaxKeys,
-      HasCount
+      HasCount,
+      BucketKeys
     >({
       groupBy: fields,
     });
@@ -222,7 +243,8 @@ export class ResourceQueryBuilder<
     AvgKeys,
     MinKeys,
     MaxKeys,
-    true
+    true,
+    BucketKeys
   > {
     return this.clone<
       SelectedFields,
@@ -231,7 +253,8 @@ export class ResourceQueryBuilder<
       AvgKeys,
       MinKeys,
       MaxKeys,
-      true
+      true,
+      BucketKeys
     >({
       count: true,
     });
@@ -247,7 +270,8 @@ export class ResourceQueryBuilder<
     AvgKeys,
     MinKeys,
     MaxKeys,
-    HasCount
+    HasCount,
+    BucketKeys
   > {
     const allFields = [
       ...((this.state.sum ?? []) as NumericKeys<T>[]),
@@ -260,7 +284,8 @@ export class ResourceQueryBuilder<
       AvgKeys,
       MinKeys,
       MaxKeys,
-      HasCount
+      HasCount,
+      BucketKeys
     >({
       sum: allFields,
     });
@@ -276,7 +301,8 @@ export class ResourceQueryBuilder<
     AvgKeys | K,
     MinKeys,
     MaxKeys,
-    HasCount
+    HasCount,
+    BucketKeys
   > {
     const allFields = [
       ...((this.state.avg ?? []) as NumericKeys<T>[]),
@@ -289,7 +315,8 @@ export class ResourceQueryBuilder<
       AvgKeys | K,
       MinKeys,
       MaxKeys,
-      HasCount
+      HasCount,
+      BucketKeys
     >({
       avg: allFields,
     });
@@ -305,7 +332,8 @@ export class ResourceQueryBuilder<
     AvgKeys,
     MinKeys | K,
     MaxKeys,
-    HasCount
+    HasCount,
+    BucketKeys
   > {
     const allFields = [
       ...((this.state.min ?? []) as ComparableKeys<T>[]),
@@ -318,7 +346,8 @@ export class ResourceQueryBuilder<
       AvgKeys,
       MinKeys | K,
       MaxKeys,
-      HasCount
+      HasCount,
+      BucketKeys
     >({
       min: allFields,
     });
@@ -334,7 +363,8 @@ export class ResourceQueryBuilder<
     AvgKeys,
     MinKeys,
     MaxKeys | K,
-    HasCount
+    HasCount,
+    BucketKeys
   > {
     const allFields = [
       ...((this.state.max ?? []) as ComparableKeys<T>[]),
@@ -347,12 +377,104 @@ export class ResourceQueryBuilder<
       AvgKeys,
       MinKeys,
       MaxKeys | K,
-      HasCount
+      HasCount,
+      BucketKeys
     >({
       max: allFields,
     });
   }
 
+  /**
+   * Groups by a date field cut into buckets, labelled "2024-03-05" (day and
+   * week), "2024-03-05T14:00", "2024-03" or "2024". Buckets are cut in
+   * `timezone`, an IANA zone name or a UTC offset such as "+02:00".
+   */
+  groupByDate<K extends ComparableKeys<T>>(
+    field: K,
+    bucket: DateBucket,
+    timezone?: string
+  ): ResourceQueryBuilder<
+    T,
+    SelectedFields,
+    GroupKeys,
+    SumKeys,
+    AvgKeys,
+    MinKeys,
+    MaxKeys,
+    HasCount,
+    BucketKeys | K
+  > {
+    return this.clone<
+      SelectedFields,
+      GroupKeys,
+      SumKeys,
+      AvgKeys,
+      MinKeys,
+      MaxKeys,
+      HasCount,
+      BucketKeys | K
+    >({
+      dateBuckets: { ...this.state.dateBuckets, [field]: bucket } as QueryBuilderState<T>["dateBuckets"],
+      timezone: timezone ?? this.state.timezone,
+    });
+  }
+
+  countDistinct<K extends keyof T & string>(
+    ...fields: K[]
+  ): ResourceQueryBuilder<
+    T,
+    SelectedFields,
+    GroupKeys,
+    SumKeys,
+    AvgKeys,
+    MinKeys,
+    MaxKeys,
+    HasCount,
+    BucketKeys
+  > {
+    return this.clone({ countDistinct: [...(this.state.countDistinct ?? []), ...fields] });
+  }
+
+  // Percents from 1 to 99; needs Postgres on the server
+  percentile<K extends NumericKeys<T>>(
+    field: K,
+    ...percents: number[]
+  ): ResourceQueryBuilder<
+    T,
+    SelectedFields,
+    GroupKeys,
+    SumKeys,
+    AvgKeys,
+    MinKeys,
+    MaxKeys,
+    HasCount,
+    BucketKeys
+  > {
+    return this.clone({
+      percentile: {
+        ...this.state.percentile,
+        [field]: [...(this.state.percentile?.[field] ?? []), ...percents],
+      } as QueryBuilderState<T>["percentile"],
+    });
+  }
+
+  // RSQL over groupBy fields and aggregate aliases, e.g. `count>10;sum_total>=100`
+  having(
+    having: string
+  ): ResourceQueryBuilder<
+    T,
+    SelectedFields,
+    GroupKeys,
+    SumKeys,
+    AvgKeys,
+    MinKeys,
+    MaxKeys,
+    HasCount,
+    BucketKeys
+  > {
+    return this.clone({ having });
+  }
+
   async list(): Promise<TypedPaginatedResponse<Pick<T, SelectedFields>>> {
     const params: Record<string, string | number | boolean> = {};
 
@@ -420,15 +542,21 @@ export class ResourceQueryBuilder<
       AvgKeys,
       MinKeys,
       MaxKeys,
-      HasCount
+      HasCount,
+      BucketKeys
     >
   > {
-    const params: Record<string, string | boolean> = {};
+    const params: Record<string, string | number | boolean> = {};
 
     if (this.state.filter) params.filter = this.state.filter;
-    if (this.state.groupBy && this.state.groupBy.length > 0) {
-      params.groupBy = (this.state.groupBy as string[]).join(",");
-    }
+    const groupBy = [
+      ...((this.state.groupBy ?? []) as string[]),
+      ...Object.entries(this.state.dateBuckets ?? {}).map(
+        ([field, bucket]) => `${field}:${bucket}`
+      ),
+    ];
+    if (groupBy.length > 0) params.groupBy = groupBy.join(",");
+    if (this.state.timezone) params.timezone = this.state.timezone;
     if (this.state.count) params.count = true;
     if (this.state.sum && this.state.sum.length > 0) {
       params.sum = (this.state.sum as string[]).join(",");
@@ -442,6 +570,15 @@ export class ResourceQueryBuilder<
     if (this.state.max && this.state.max.length > 0) {
       params.max = (this.state.max as string[]).join(",");
     }
+    if (this.state.countDistinct && this.state.countDistinct.length > 0) {
+      params.countDistinct = (this.state.countDistinct as string[]).join(",");
+    }
+    if (this.state.percentile) {
+      params.percentile = percentileParam(this.state.percentile as Record<string, number[]>);
+    }
+    if (this.state.having) params.having = this.state.having;
+    if (this.state.orderBy) params.orderBy = this.state.orderBy;
+    if (this.state.limit) params.limit = this.state.limit;
 
     const response = await this.transport.request<
       TypedAggregationResponse<
@@ -451,7 +588,8 @@ export class ResourceQueryBuilder<
         AvgKeys,
         MinKeys,
         MaxKeys,
-        HasCount
+        HasCount,
+        BucketKeys
       >
     >({
       method: "GET",
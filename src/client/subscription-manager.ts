@@ -6,10 +6,13 @@ import {
   SubscribeOptions,
 } from "./types";
 import { Transport } from "./transport";
+import { SubscriptionSocket } from "./subscription-socket";
 
 export interface SubscriptionManagerConfig<T> {
   transport: Transport;
   resourcePath: string;
+  // When set, events arrive over this shared WebSocket instead of a per-subscription EventSource
+  socket?: SubscriptionSocket;
   idField: keyof T;
   options?: SubscribeOptions;
   callbacks?: SubscriptionCallbacks<T>;
@@ -17,6 +20,7 @@ export interface SubscriptionManagerConfig<T> {
 
 export class SubscriptionManager<T extends { id: string }> implements Subscription<T> {
   private eventSource: EventSource | null = null;
+  private socketUnsubscribe: (() => void) | null = null;
   private reconnectTimeout: NodeJS.Timeout | null = null;
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 10;
@@ -70,20 +74,17 @@ export class SubscriptionManager<T extends { id: string }> implements Subscripti
       params.knownIds = this.config.options.knownIds.join(",");
     }
 
+    if (this.config.socket) {
+      this.connectSocket(this.config.socket, params);
+      return;
+    }
+
     const path = `${this.config.resourcePath}/subscribe`;
     this.eventSource = this.config.transport.createEventSource(path, params);
 
     this.eventSource.addEventListener("connected", (e) => {
       const data = JSON.parse((e as MessageEvent).data);
-      this._state.isConnected = true;
-      this._state.error = null;
-      this.reconnectAttempts = 0;
-
-      if (data.seq !== undefined) {
-        this._state.lastSeq = data.seq;
-      }
-
-      this.config.callbacks?.onConnected?.(this._state.lastSeq);
+      this.handleConnected(data.seq);
     });
 
     this.eventSource.addEventListener("message", (e) => {
@@ -95,14 +96,56 @@ export class SubscriptionManager<T extends { id: string }> implements Subscripti
       }
     });
 
-    this.eventSource.onerror = () => {
-      this._state.isConnected = false;
-      this.config.callbacks?.onDisconnected?.();
+    this.eventSource.onerror = () => this.handleDisconnected();
+  }
 
-      if (!this.isUnsubscribed) {
-        this.scheduleReconnect();
-      }
-    };
+  private connectSocket(socket: SubscriptionSocket, params: Record<string, string>): void {
+    this.socketUnsubscribe = socket.subscribe(this.config.resourcePath, params, {
+      onSubscribed: (seq) => this.handleConnected(seq),
+      onEvent: (event) => this.handleEvent(event as SubscriptionEvent<T>),
+      onError: (error) => {
+        this.socketUnsubscribe = null;
+        this._state.error = error;
+        this.config.callbacks?.onError?.(error);
+      },
+      onDisconnected: () => {
+        this.socketUnsubscribe = null;
+        this.handleDisconnected();
+      },
+    });
+  }
+
+  private handleConnected(seq: number | undefined): void {
+    this._state.isConnected = true;
+    this._state.error = null;
+    this.reconnectAttempts = 0;
+
+    if (seq !== undefined) {
+      this._state.lastSeq = seq;
+    }
+
+    this.config.callbacks?.onConnected?.(this._state.lastSeq);
+  }
+
+  private handleDisconnected(): void {
+    this._state.isConnected = false;
+    this.config.callbacks?.onDisconnected?.();
+
+    if (!this.isUnsubscribed) {
+      this.scheduleReconnect();
+    }
+  }
+
+  private disconnect(): void {
+    if (this.eventSource) {
+      this.eventSource.close();
+      this.eventSource = null;
+    }
+
+    if (this.socketUnsubscribe) {
+      this.socketUnsubscribe();
+      this.socketUnsubscribe = null;
+    }
   }
 
   private handleEvent(event: SubscriptionEvent<T>): void {
@@ -174,10 +217,7 @@ export class SubscriptionManager<T extends { id: string }> implements Subscripti
   }
 
   reconnect(): void {
-    if (this.eventSource) {
-      this.eventSource.close();
-      this.eventSource = null;
-    }
+    this.disconnect();
 
     if (this.reconnectTimeout) {
       clearTimeout(this.reconnectTimeout);
@@ -190,11 +230,7 @@ export class SubscriptionManager<T extends { id: string }> implements Subscripti
 
   unsubscribe(): void {
     this.isUnsubscribed = true;
-
-    if (this.eventSource) {
-      this.eventSource.close();
-      this.eventSource = null;
-    }
+    this.disconnect();
 
     if (this.reconnectTimeout) {
       clearTimeout(this.reconnectTimeout);
@@ -0,0 +1,154 @@
+import { SubscriptionEvent } from "./types";
+import { Transport } from "./transport";
+
+export interface SocketSubscriptionListener {
+  onSubscribed(seq: number): void;
+  onEvent(event: SubscriptionEvent<unknown>): void;
+  onError(error: Error): void;
+  onDisconnected(): void;
+}
+
+interface SocketEntry {
+  ref: string;
+  resource: string;
+  params: Record<string, string>;
+  listener: SocketSubscriptionListener;
+  subscriptionId?: string;
+}
+
+type ServerMessage =
+  | { type: "subscribed"; ref: string; subscriptionId: string; seq: number }
+  | { type: "event"; event: SubscriptionEvent<unknown> }
+  | { type: "error"; ref?: string; status: number; code: string; message: string };
+
+export const DEFAULT_SUBSCRIPTION_SOCKET_PATH = "/__concave/subscriptions";
+
+/**
+ * Carries the subscriptions of every resource over a single WebSocket.
+ * The socket opens with the first subscription and closes after the last;
+ * when it drops, each subscriber is told and reconnects on its own schedule.
+ */
+export class SubscriptionSocket {
+  private socket: WebSocket | null = null;
+  private entries = new Map<string, SocketEntry>();
+  private bySubscriptionId = new Map<string, SocketEntry>();
+  private nextRef = 0;
+
+  constructor(
+    private transport: Transport,
+    private path: string = DEFAULT_SUBSCRIPTION_SOCKET_PATH
+  ) {}
+
+  subscribe(
+    resource: string,
+    params: Record<string, string>,
+    listener: SocketSubscriptionListener
+  ): () => void {
+    const ref = String(++this.nextRef);
+    const entry: SocketEntry = { ref, resource, params, listener };
+    this.entries.set(ref, entry);
+
+    const socket = this.ensureSocket();
+    if (socket.readyState === 1) {
+      this.sendSubscribe(entry);
+    }
+
+    return () => this.unsubscribe(ref);
+  }
+
+  private unsubscribe(ref: string): void {
+    const entry = this.entries.get(ref);
+    if (!entry) return;
+
+    this.entries.delete(ref);
+    if (entry.subscriptionId) {
+      this.bySubscriptionId.delete(entry.subscriptionId);
+      this.send({ type: "unsubscribe", subscriptionId: entry.subscriptionId });
+    }
+
+    if (this.entries.size === 0 && this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      socket.close();
+    }
+  }
+
+  private ensureSocket(): WebSocket {
+    if (this.socket) return this.socket;
+
+    if (!this.transport.createWebSocket) {
+      throw new Error("Transport does not support WebSocket subscriptions");
+    }
+
+    const socket = this.transport.createWebSocket(this.path);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      for (const entry of this.entries.values()) {
+        this.sendSubscribe(entry);
+      }
+    };
+
+    socket.onmessage = (e) => {
+      try {
+        this.handleMessage(JSON.parse(String(e.data)) as ServerMessage);
+      } catch (error) {
+        console.error("Failed to parse subscription message:", error);
+      }
+    };
+
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+
+      const entries = Array.from(this.entries.values());
+      this.entries.clear();
+      this.bySubscriptionId.clear();
+      for (const entry of entries) {
+        entry.listener.onDisconnected();
+      }
+    };
+
+    return socket;
+  }
+
+  private handleMessage(message: ServerMessage): void {
+    switch (message.type) {
+      case "subscribed": {
+        const entry = this.entries.get(message.ref);
+        if (!entry) {
+          // Unsubscribed before the server answered
+          this.send({ type: "unsubscribe", subscriptionId: message.subscriptionId });
+          return;
+        }
+        entry.subscriptionId = message.subscriptionId;
+        this.bySubscriptionId.set(message.subscriptionId, entry);
+        entry.listener.onSubscribed(message.seq);
+        break;
+      }
+
+      case "event": {
+        this.bySubscriptionId.get(message.event.subscriptionId)?.listener.onEvent(message.event);
+        break;
+      }
+
+      case "error": {
+        const entry = message.ref ? this.entries.get(message.ref) : undefined;
+        if (!entry) return;
+        this.entries.delete(entry.ref);
+        entry.listener.onError(new Error(message.message));
+        break;
+      }
+    }
+  }
+
+  private sendSubscribe(entry: SocketEntry): void {
+    this.send({ type: "subscribe", ref: entry.ref, resource: entry.resource, params: entry.params });
+  }
+
+  private send(message: Record<string, unknown>): void {
+    if (this.socket?.readyState === 1) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+}
@@ -0,0 +1,104 @@
+import type { Transport } from "./transport";
+
+export type TaskSnapshotStatus =
+  | "pending"
+  | "scheduled"
+  | "running"
+  | "completed"
+  | "failed"
+  | "dead";
+
+export interface TaskProgress {
+  percent: number;
+  message?: string;
+  updatedAt: number;
+}
+
+// A task as served by createTaskRoutes
+export interface TaskSnapshot<TResult = unknown> {
+  id: string;
+  name: string;
+  status: TaskSnapshotStatus;
+  attempt: number;
+  progress?: TaskProgress;
+  result?: TResult;
+  error?: string;
+}
+
+export interface TaskWatchCallbacks<TResult = unknown> {
+  // Receives the task on connect and again whenever it changes
+  onUpdate: (task: TaskSnapshot<TResult>) => void;
+  onCancelled?: () => void;
+  onError?: (error: Error) => void;
+}
+
+export interface TaskWatch {
+  unsubscribe(): void;
+}
+
+export interface TaskClient {
+  get<TResult = unknown>(taskId: string): Promise<TaskSnapshot<TResult>>;
+  watch<TResult = unknown>(taskId: string, callbacks: TaskWatchCallbacks<TResult>): TaskWatch;
+}
+
+export interface TaskClientConfig {
+  transport: Transport;
+  // Where createTaskRoutes is mounted
+  basePath?: string;
+}
+
+const isFinished = (status: TaskSnapshotStatus): boolean =>
+  status === "completed" || status === "failed" || status === "dead";
+
+export const createTaskClient = (config: TaskClientConfig): TaskClient => {
+  const { transport } = config;
+  const basePath = config.basePath ?? "/api/tasks";
+
+  return {
+    async get<TResult = unknown>(taskId: string): Promise<TaskSnapshot<TResult>> {
+      const response = await transport.request<{ task: TaskSnapshot<TResult> }>({
+        method: "GET",
+        path: `${basePath}/${encodeURIComponent(taskId)}`,
+      });
+      return response.data.task;
+    },
+
+    watch<TResult = unknown>(
+      taskId: string,
+      callbacks: TaskWatchCallbacks<TResult>
+    ): TaskWatch {
+      const eventSource = transport.createEventSource(
+        `${basePath}/${encodeURIComponent(taskId)}/events`
+      );
+
+      // The server ends the stream once the task is done; close it here too
+      // so the browser doesn't reconnect
+      eventSource.addEventListener("message", (e) => {
+        let event: { type: "task"; task: TaskSnapshot<TResult> } | { type: "cancelled" };
+        try {
+          event = JSON.parse((e as MessageEvent).data);
+        } catch (error) {
+          console.error("Failed to parse task event:", error);
+          return;
+        }
+
+        if (event.type === "cancelled") {
+          eventSource.close();
+          callbacks.onCancelled?.();
+          return;
+        }
+
+        if (isFinished(event.task.status)) eventSource.close();
+        callbacks.onUpdate(event.task);
+      });
+
+      eventSource.addEventListener("error", () => {
+        if (eventSource.readyState === 2) {
+          callbacks.onError?.(new Error(`Task stream for ${taskId} closed`));
+        }
+      });
+
+      return { unsubscribe: () => eventSource.close() };
+    },
+  };
+};
@@ -8,6 +8,7 @@ import {
 export interface Transport {
   request<T>(req: TransportRequest): Promise<TransportResponse<T>>;
   createEventSource(path: string, params?: Record<string, string>): EventSource;
+  createWebSocket?(path: string): WebSocket;
   setHeader(name: string, value: string): void;
   removeHeader(name: string): void;
 }
@@ -72,6 +73,9 @@ export class FetchTransport implements Transport {
 
       if (!response.ok) {
         const errorData = data as unknown as ErrorResponse;
+        if (response.status === 412) {
+          throw PreconditionFailedError.fromResponse(errorData);
+        }
         throw new TransportError(
           errorData?.error?.message ?? `HTTP ${response.status}`,
           response.status,
@@ -152,6 +156,35 @@ export class FetchTransport implements Transport {
     }
     return undefined;
   }
+
+  /**
+   * Open a WebSocket to the server, e.g. for multiplexed subscriptions.
+   * Browsers send cookies with the upgrade request; custom headers cannot be set.
+   */
+  createWebSocket(path: string): WebSocket {
+    const url = new URL(path, this.config.baseUrl);
+    url.protocol = url.protocol === "https:" ? "wss:" : "ws:";
+
+    const WebSocketImpl = this.webSocketConstructor ??
+      (typeof WebSocket !== "undefined" ? WebSocket : undefined);
+    if (!WebSocketImpl) {
+      throw new Error(
+        "WebSocket is not available. On Node.js, install 'ws' and call " +
+        "transport.setWebSocketConstructor(WebSocket)."
+      );
+    }
+
+    return new WebSocketImpl(url.toString());
+  }
+
+  private webSocketConstructor?: typeof WebSocket;
+
+  /**
+   * Set a custom WebSocket constructor, e.g. the 'ws' package on Node.js.
+   */
+  setWebSocketConstructor(constructor: typeof WebSocket): void {
+    this.webSocketConstructor = constructor;
+  }
 }
 
 export class TransportError extends Error {
@@ -188,6 +221,35 @@ export class TransportError extends Error {
   isServerError(): boolean {
     return this.status >= 500;
   }
+
+  isPreconditionFailed(): boolean {
+    return this.status === 412;
+  }
+}
+
+/**
+ * Thrown when a conditional write (If-Match) is rejected because the
+ * resource changed since its ETag was last seen. Refetch and retry.
+ */
+export class PreconditionFailedError extends TransportError {
+  constructor(
+    message: string,
+    public currentETag?: string,
+    details?: unknown
+  ) {
+    super(message, 412, "PRECONDITION_FAILED", details);
+    this.name = "PreconditionFailedError";
+  }
+
+  static fromResponse(data: unknown): PreconditionFailedError {
+    // Accepts both RFC 7807 problem bodies and the legacy { error } envelope
+    const body = (data ?? {}) as Record<string, unknown>;
+    const legacy = (body.error ?? {}) as ErrorResponse["error"];
+    const legacyDetails = (legacy.details ?? {}) as Record<string, unknown>;
+    const currentETag = (body.currentETag ?? legacyDetails.currentETag) as string | undefined;
+    const message = (body.detail as string | undefined) ?? legacy.message ?? "Resource was modified";
+    return new PreconditionFailedError(message, currentETag, legacy.details ?? body);
+  }
 }
 
 export const createTransport = (config: TransportConfig): Transport => {
@@ -608,8 +608,14 @@ const generateDartClientTypes = (schema: ConcaveSchema): string => {
   output += `  final List<String>? sum;\n`;
   output += `  final List<String>? avg;\n`;
   output += `  final List<String>? min;\n`;
-  output += `  final List<String>? max;\n\n`;
-  output += `  AggregateOptions({this.filter, this.groupBy, this.count, this.sum, this.avg, this.min, this.max});\n`;
+  output += `  final List<String>? max;\n`;
+  output += `  final List<String>? countDistinct;\n`;
+  output += `  final List<String>? percentile;\n`;
+  output += `  final String? timezone;\n`;
+  output += `  final String? having;\n`;
+  output += `  final List<String>? orderBy;\n`;
+  output += `  final int? limit;\n\n`;
+  output += `  AggregateOptions({this.filter, this.groupBy, this.count, this.sum, this.avg, this.min, this.max, this.countDistinct, this.percentile, this.timezone, this.having, this.orderBy, this.limit});\n`;
   output += `}\n\n`;
 
   return output;
@@ -1,4 +1,5 @@
 import type { ResourceQueryBuilder } from "./resource-query-builder";
+import type { QueryCache } from "./query-cache";
 
 export type EventType = "added" | "existing" | "changed" | "removed" | "invalidate";
 
@@ -58,6 +59,13 @@ export interface CountResponse {
   count: number;
 }
 
+// Rows touched by batchUpdate or batchDelete. A write queued while offline
+// reports a count of 0 and `queued: true`.
+export interface BatchWriteResult {
+  count: number;
+  queued?: boolean;
+}
+
 export interface AggregationGroup {
   key: Record<string, unknown> | null;
   count?: number;
@@ -65,6 +73,9 @@ export interface AggregationGroup {
   avg?: Record<string, number>;
   min?: Record<string, number | string>;
   max?: Record<string, number | string>;
+  countDistinct?: Record<string, number>;
+  // Per field, keyed `p95` and the like
+  percentile?: Record<string, Record<string, number>>;
 }
 
 export interface AggregationResponse {
@@ -76,12 +87,25 @@ export interface SearchOptions {
   limit?: number;
   offset?: number;
   highlight?: boolean;
+  // Facet names, as configured on the resource or plain field names
+  facets?: string[];
+  fuzzy?: boolean;
+  // Match the last word as a prefix, for search-as-you-type
+  prefix?: boolean;
+}
+
+export interface SearchFacetBucket {
+  key: string;
+  count: number;
+  from?: number | string;
+  to?: number | string;
 }
 
 export interface SearchResponse<T> {
   items: T[];
   total: number;
   highlights?: Record<string, Record<string, string[]>>;
+  facets?: Record<string, SearchFacetBucket[]>;
 }
 
 export interface ErrorResponse {
@@ -113,12 +137,23 @@ export interface GetOptions {
 
 export interface AggregateOptions {
   filter?: string;
+  // Fields, or date fields bucketed as `createdAt:day` (hour, day, week, month, year)
   groupBy?: string[];
   count?: boolean;
   sum?: string[];
   avg?: string[];
   min?: string[];
   max?: string[];
+  countDistinct?: string[];
+  // Percents per field, e.g. { latency: [50, 95] } (Postgres only)
+  percentile?: Record<string, number[]>;
+  // IANA zone name or UTC offset the date buckets are cut in
+  timezone?: string;
+  // RSQL over groupBy fields and aggregate aliases, e.g. `count>10;sum_total>=100`
+  having?: string;
+  // Groups order, e.g. "count:desc"
+  orderBy?: string;
+  limit?: number;
 }
 
 export interface SubscribeOptions {
@@ -136,10 +171,52 @@ export interface CreateOptions {
 
 export interface UpdateOptions {
   optimistic?: boolean;
+  /**
+   * ETag sent as If-Match. Defaults to the last ETag this client saw for the
+   * item; pass false to write unconditionally.
+   */
+  ifMatch?: string | false;
 }
 
 export interface DeleteOptions {
   optimistic?: boolean;
+  /** See UpdateOptions.ifMatch */
+  ifMatch?: string | false;
+}
+
+export interface UpsertOptions {
+  optimistic?: boolean;
+  /** ETag sent as If-Match. Only checked when the upsert hits an existing row. */
+  ifMatch?: string;
+}
+
+export interface BatchWriteOptions {
+  // Queue the write when the server can't be reached (default when offline support is enabled)
+  optimistic?: boolean;
+}
+
+/**
+ * A change a write is expected to make, shown in live queries over
+ * `resource` until the write settles. `resource` is the resource's path or
+ * its name as declared in a procedure's writeEffects.
+ */
+export type OptimisticWriteEffect =
+  | { type: "create"; resource: string; data: Record<string, unknown> }
+  | { type: "update"; resource: string; id: string; data: Record<string, unknown> }
+  | { type: "delete"; resource: string; id: string };
+
+export type WriteEffectEvent =
+  | { type: "apply"; key: string; effects: OptimisticWriteEffect[] }
+  | { type: "settle"; key: string; resources: string[] };
+
+export interface RpcOptions {
+  // Applied to live queries while the call is in flight or queued
+  writeEffects?: OptimisticWriteEffect[];
+  /**
+   * Queue the call when the server can't be reached instead of failing.
+   * A queued call resolves with undefined and runs once back online.
+   */
+  queue?: boolean;
 }
 
 export interface BatchCreateOptions {
@@ -173,6 +250,26 @@ export interface SubscriptionCallbacks<T> {
   onDisconnected?: () => void;
 }
 
+// Callbacks of a live `/aggregate` or `/count` stream. `onUpdate` receives
+// the full result on connect and again whenever it changes.
+export interface LiveAggregateCallbacks<TResult> {
+  onUpdate: (result: TResult) => void;
+  onError?: (error: Error) => void;
+  onConnected?: () => void;
+  onDisconnected?: () => void;
+}
+
+export interface LiveAggregateSubscription {
+  unsubscribe(): void;
+}
+
+export interface SubscriptionTransportConfig {
+  // "sse" opens one EventSource per subscription; "websocket" multiplexes all
+  // subscriptions over one socket served by createSubscriptionSocket
+  transport?: "sse" | "websocket";
+  path?: string;
+}
+
 export interface TransportConfig {
   baseUrl: string;
   headers?: Record<string, string>;
@@ -210,12 +307,19 @@ export interface ResolvedMutation {
 export interface OfflineMutation {
   id: string;
   idempotencyKey: string;
-  type: "create" | "update" | "delete";
+  type: "create" | "update" | "delete" | "upsert" | "batchCreate" | "batchUpdate" | "batchDelete" | "rpc";
   resource: string;
   data?: unknown;
   objectId?: string;
   optimisticId?: string;
+  // Ids handed out for the items of a queued batchCreate, in order
+  optimisticIds?: string[];
+  // Rows targeted by batchUpdate and batchDelete
+  filter?: string;
+  // Procedure called by an rpc mutation
+  procedure?: string;
   serverId?: string;
+  ifMatch?: string;
   timestamp: number;
   retryCount: number;
   status: "pending" | "processing" | "failed" | "synced";
@@ -245,6 +349,30 @@ export interface OfflineStorage {
   clear(): Promise<void>;
 }
 
+export interface QueryCacheMeta {
+  key: string;
+  updatedAt: number;
+  // Length of the serialized items, used for size-based eviction
+  size: number;
+}
+
+export interface QueryCacheEntry<T = unknown> extends QueryCacheMeta {
+  items: T[];
+  optimisticIds: string[];
+  lastSeq: number;
+  hasMore: boolean;
+  nextCursor: string | null;
+  totalCount?: number;
+}
+
+export interface QueryCacheStorage {
+  get(key: string): Promise<QueryCacheEntry | null>;
+  set(entry: QueryCacheEntry): Promise<void>;
+  delete(...keys: string[]): Promise<void>;
+  list(): Promise<QueryCacheMeta[]>;
+  clear(): Promise<void>;
+}
+
 export interface ClientConfig {
   baseUrl: string;
   headers?: Record<string, string>;
@@ -266,15 +394,27 @@ export interface ResourceClient<T extends { id: string }> {
   update(id: string, data: Partial<T>, options?: UpdateOptions): Promise<T>;
   replace(id: string, data: Omit<T, "id">, options?: UpdateOptions): Promise<T>;
   delete(id: string, options?: DeleteOptions): Promise<void>;
-  batchCreate(items: Partial<Omit<T, "id">>[]): Promise<T[]>;
-  batchUpdate(filter: string, data: Partial<T>): Promise<{ count: number }>;
-  batchDelete(filter: string): Promise<{ count: number }>;
+  upsert(data: Partial<T>, options?: UpsertOptions): Promise<T>;
+  batchCreate(items: Partial<Omit<T, "id">>[], options?: BatchWriteOptions): Promise<T[]>;
+  batchUpsert(items: Partial<T>[]): Promise<T[]>;
+  batchUpdate(filter: string, data: Partial<T>, options?: BatchWriteOptions): Promise<BatchWriteResult>;
+  batchDelete(filter: string, options?: BatchWriteOptions): Promise<BatchWriteResult>;
   subscribe(
     options?: SubscribeOptions,
     callbacks?: SubscriptionCallbacks<T>
   ): Subscription<T>;
-  rpc<TInput, TOutput>(name: string, input: TInput): Promise<TOutput>;
+  subscribeAggregate(
+    options: AggregateOptions,
+    callbacks: LiveAggregateCallbacks<AggregationResponse>
+  ): LiveAggregateSubscription;
+  subscribeCount(
+    filter: string | undefined,
+    callbacks: LiveAggregateCallbacks<number>
+  ): LiveAggregateSubscription;
+  rpc<TInput, TOutput>(name: string, input: TInput, options?: RpcOptions & { queue?: false }): Promise<TOutput>;
+  rpc<TInput, TOutput>(name: string, input: TInput, options: RpcOptions & { queue: true }): Promise<TOutput | undefined>;
   query(): ResourceQueryBuilder<T>;
+  onWriteEffect(listener: (event: WriteEffectEvent) => void): () => void;
 }
 
 /**
@@ -292,19 +432,34 @@ export interface LiveListResourceClient<T extends { id: string }> {
     totalCount?: boolean;
   }): Promise<{ items: T[]; nextCursor: string | null; hasMore: boolean; totalCount?: number }>;
   create(data: Partial<Omit<T, "id">>, options?: { optimistic?: boolean; optimisticId?: string }): Promise<T>;
-  update(id: string, data: Partial<T>, options?: { optimistic?: boolean }): Promise<T>;
-  delete(id: string, options?: { optimistic?: boolean }): Promise<void>;
+  update(id: string, data: Partial<T>, options?: { optimistic?: boolean; ifMatch?: string | false }): Promise<T>;
+  delete(id: string, options?: { optimistic?: boolean; ifMatch?: string | false }): Promise<void>;
   subscribe(
     options?: { filter?: string; include?: string; resumeFrom?: number; skipExisting?: boolean; knownIds?: string[] },
     callbacks?: SubscriptionCallbacks<T>
   ): Subscription<T>;
+  onWriteEffect?(listener: (event: WriteEffectEvent) => void): () => void;
+}
+
+/**
+ * Minimal interface for live aggregates used by React hooks.
+ */
+export interface LiveAggregateResourceClient {
+  subscribeAggregate(
+    options: AggregateOptions,
+    callbacks: LiveAggregateCallbacks<AggregationResponse>
+  ): LiveAggregateSubscription;
+  subscribeCount(
+    filter: string | undefined,
+    callbacks: LiveAggregateCallbacks<number>
+  ): LiveAggregateSubscription;
 }
 
 /**
  * Minimal interface for search functionality used by React hooks.
  */
 export interface SearchableResourceClient<T extends { id: string }> {
-  search(query: string, options?: { filter?: string; limit?: number; offset?: number; highlight?: boolean }): Promise<{ items: T[]; total: number; highlights?: Record<string, Record<string, string[]>> }>;
+  search(query: string, options?: SearchOptions): Promise<SearchResponse<T>>;
 }
 
 export interface Subscription<T> {
@@ -388,6 +543,7 @@ export interface JWTClientInterface {
 export interface ConcaveClient {
   readonly transport: unknown;
   readonly offline?: unknown;
+  readonly queryCache?: QueryCache;
   readonly auth: AuthManager;
   readonly jwt?: JWTClientInterface;
   resource<T extends { id: string }>(path: string): ResourceClient<T>;
@@ -0,0 +1,62 @@
+import type { OptimisticWriteEffect, WriteEffectEvent } from "./types";
+
+type WriteEffectListener = (event: WriteEffectEvent) => void;
+
+const trimSlashes = (path: string) => path.replace(/^\/+|\/+$/g, "");
+
+/**
+ * Whether an effect on `resource` lands on the resource served at `path`.
+ * Effects name resources either by path ("/api/posts") or by their last
+ * segment ("posts"), which is how procedures declare them.
+ */
+export const isSameResource = (path: string, resource: string): boolean => {
+  const a = trimSlashes(path);
+  const b = trimSlashes(resource);
+  return a === b || a.endsWith(`/${b}`) || b.endsWith(`/${a}`);
+};
+
+export const createOptimisticId = () =>
+  `optimistic_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+/**
+ * Relays the expected effects of pending writes (batch writes and procedure
+ * calls) to the live queries they touch. Effects are applied under a key,
+ * usually the write's idempotency key, and dropped again when the write
+ * settles so live queries can refresh from the server.
+ */
+export class WriteEffectBus {
+  private listeners = new Set<WriteEffectListener>();
+
+  subscribe(listener: WriteEffectListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Broadcasts effects to live queries. Creates without an id are given an
+   * optimistic one; the effects are returned with their ids filled in.
+   */
+  apply(key: string, effects: OptimisticWriteEffect[]): OptimisticWriteEffect[] {
+    const applied = effects.map((effect) =>
+      effect.type === "create" && effect.data.id === undefined
+        ? { ...effect, data: { ...effect.data, id: createOptimisticId() } }
+        : effect
+    );
+    if (applied.length > 0) this.emit({ type: "apply", key, effects: applied });
+    return applied;
+  }
+
+  /**
+   * Ends the write under `key`. `resources` lists what the server reported
+   * changing; live queries over them refresh even if nothing was applied.
+   */
+  settle(key: string, resources: string[] = []): void {
+    this.emit({ type: "settle", key, resources });
+  }
+
+  private emit(event: WriteEffectEvent): void {
+    for (const listener of this.listeners) {
+      listener(event);
+    }
+  }
+}
@@ -22,6 +22,7 @@ export {
   RateLimitError,
   BatchLimitError,
   ConflictError,
+  PreconditionFailedError,
   SearchError,
   SearchNotConfiguredError,
   formatErrorResponse,
@@ -37,8 +38,33 @@ export type {
   ProcedureDefinition,
   ProcedureContext,
   WriteEffect,
+  SoftDeleteConfig,
+  UpsertConfig,
+  TenantConfig,
+  TenantResolver,
+  TenantRequest,
 } from "./resource/types";
 
+// Multi-tenancy
+export {
+  tenantFromUser,
+  tenantFromHeader,
+  tenantFromSubdomain,
+  firstTenant,
+  tenantKey,
+  tenantKV,
+  tenantIndexName,
+} from "./resource/tenant";
+
+// Optimistic concurrency
+export {
+  generateETag,
+  compareETags,
+  validateIfMatch,
+  type ETagConfig,
+  type ResourceETagConfig,
+} from "./resource/etag";
+
 // Subscriptions
 export {
   createSubscription as createServerSubscription,
@@ -46,7 +72,15 @@ export {
   pushDeletesToSubscriptions,
   clearAllSubscriptions,
   type RelationLoader,
+  type BackpressureOptions,
 } from "./resource/subscription";
+export {
+  createSubscriptionSocket,
+  type SubscriptionSocket,
+  type SubscriptionSocketOptions,
+  type SocketClientMessage,
+  type SocketServerMessage,
+} from "./resource/subscription-socket";
 
 // Procedures
 export {
@@ -142,6 +176,29 @@ export type {
   ObservabilityConfig,
   MetricsCollector,
 } from "./middleware/observability";
+export {
+  createMetricsRegistry,
+  metricsRegistry,
+  instrumentKV,
+} from "./middleware/metrics";
+export type {
+  MetricsRegistry,
+  MetricFamily,
+  MetricLabels,
+  Counter,
+  Gauge,
+  Histogram,
+} from "./middleware/metrics";
+export {
+  createPrometheusExporter,
+  renderPrometheus,
+  mergeMetricFamilies,
+  PROMETHEUS_CONTENT_TYPE,
+} from "./middleware/prometheus";
+export type {
+  PrometheusExporter,
+  PrometheusExporterConfig,
+} from "./middleware/prometheus";
 
 // Admin UI
 export {
@@ -200,8 +257,11 @@ export {
   setGlobalKV,
   getGlobalKV,
   hasGlobalKV,
+  delIfEquals,
   MemoryKVStore,
   RedisKVStore,
+  createPrefixedKV,
+  PrefixedKVStore,
 } from "./kv";
 export type {
   KVAdapter,
@@ -258,11 +318,19 @@ export {
   createTaskWorker,
   startTaskWorkers,
   createTaskTriggerHooks,
+  createOutboxTriggerHooks,
+  createTaskOutbox,
+  createOutboxRelay,
+  createSQLTaskBackend,
   composeHooks as composeTaskHooks,
+  createPurgeTask,
+  createTaskRoutes,
 } from "./tasks";
 export type {
   TaskDefinition,
   TaskContext,
+  TaskProgress,
+  TaskEvent,
   Task,
   TaskStatus,
   TaskFilter,
@@ -275,8 +343,34 @@ export type {
   TaskRegistry,
   TaskWorker,
   TaskWorkerDbConfig,
+  PurgeTaskOptions,
+  TaskRoutesConfig,
+  WaitOptions,
+  TaskOutbox,
+  TaskOutboxConfig,
+  OutboxRelay,
+  TaskBackend,
+  SQLTaskConfig,
 } from "./tasks";
 
+// Webhooks
+export {
+  createWebhookManager,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  WEBHOOK_SIGNATURE_HEADER,
+} from "./webhooks";
+export type {
+  WebhookEventType,
+  WebhookEndpointConfig,
+  WebhookEndpoint,
+  WebhookPayload,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookManager,
+  WebhookManagerOptions,
+} from "./webhooks";
+
 // Relations
 export {
   parseInclude,
@@ -302,16 +396,36 @@ export {
   clearGlobalSearch,
   createMemorySearchAdapter,
   createOpenSearchAdapter,
+  createSQLiteSearchAdapter,
+  createPostgresSearchAdapter,
+  deriveIndexMappings,
+  reindexResource,
+  checkIndexConsistency,
+  createSearchReindexTask,
+  getReindexProgress,
+  listReindexProgress,
 } from "./search";
 export type {
   SearchAdapter,
   SearchQuery,
+  SearchScope,
+  FacetRequest,
+  FacetRange,
+  FacetBucket,
+  FacetConfig,
   SearchHit,
   SearchResult,
   SearchConfig,
   FieldMapping,
   IndexMappings,
   OpenSearchConfig,
+  SQLiteSearchConfig,
+  PostgresSearchConfig,
+  ReindexOptions,
+  ReindexProgress,
+  IndexConsistency,
+  ConsistencyReport,
+  SearchReindexTaskInput,
 } from "./search";
 export type { ResourceSearchConfig, SearchFieldConfig } from "./resource/types";
 
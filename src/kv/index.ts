@@ -30,12 +30,14 @@ export type {
   ScanResult,
 } from "./types";
 
-export { setGlobalKV, getGlobalKV, hasGlobalKV } from "./types";
+export { setGlobalKV, getGlobalKV, hasGlobalKV, delIfEquals } from "./types";
 
 export { MemoryKVStore, createMemoryKV } from "./memory";
 
 export { RedisKVStore, createRedisKV, createRedisKVFromConfig } from "./redis";
 
+export { PrefixedKVStore, createPrefixedKV } from "./prefixed";
+
 import { KVAdapter, KVConfig, setGlobalKV } from "./types";
 import { createMemoryKV } from "./memory";
 import { createRedisKVFromConfig } from "./redis";
@@ -150,6 +150,12 @@ export class MemoryKVStore implements KVAdapter {
     return deleted;
   }
 
+  async delIfEquals(key: string, value: string): Promise<boolean> {
+    const k = this.key(key);
+    if (this.getString(k) !== value) return false;
+    return this.store.delete(k);
+  }
+
   async exists(...keys: string[]): Promise<number> {
     let count = 0;
     for (const key of keys) {
@@ -0,0 +1,368 @@
+/**
+ * Prefixed KV Adapter
+ *
+ * Wraps another adapter so every key, channel and pattern lives under a
+ * prefix. Keys read back (keys, scan, pub/sub channels) have it stripped, so
+ * callers never see keys outside their namespace.
+ */
+
+import {
+  delIfEquals,
+  KVAdapter,
+  KVTransaction,
+  SetOptions,
+  ZRangeOptions,
+  ScanOptions,
+  ScanResult,
+} from "./types";
+
+export class PrefixedKVStore implements KVAdapter {
+  private kv: KVAdapter;
+  private prefix: string;
+
+  constructor(kv: KVAdapter, prefix: string) {
+    this.kv = kv;
+    this.prefix = prefix;
+  }
+
+  private key(k: string): string {
+    return `${this.prefix}:${k}`;
+  }
+
+  private unkey(k: string): string {
+    return k.slice(this.prefix.length + 1);
+  }
+
+  private callback(
+    callback: (message: string, channel: string) => void
+  ): (message: string, channel: string) => void {
+    return (message, channel) => callback(message, this.unkey(channel));
+  }
+
+  // Connection (the wrapped adapter owns it)
+
+  connect(): Promise<void> {
+    return this.kv.connect();
+  }
+
+  disconnect(): Promise<void> {
+    return this.kv.disconnect();
+  }
+
+  isConnected(): boolean {
+    return this.kv.isConnected();
+  }
+
+  // String operations
+
+  get(key: string): Promise<string | null> {
+    return this.kv.get(this.key(key));
+  }
+
+  set(key: string, value: string, options?: SetOptions): Promise<void> {
+    return this.kv.set(this.key(key), value, options);
+  }
+
+  del(...keys: string[]): Promise<number> {
+    return this.kv.del(...keys.map((k) => this.key(k)));
+  }
+
+  delIfEquals(key: string, value: string): Promise<boolean> {
+    return delIfEquals(this.kv, this.key(key), value);
+  }
+
+  exists(...keys: string[]): Promise<number> {
+    return this.kv.exists(...keys.map((k) => this.key(k)));
+  }
+
+  incr(key: string): Promise<number> {
+    return this.kv.incr(this.key(key));
+  }
+
+  incrBy(key: string, increment: number): Promise<number> {
+    return this.kv.incrBy(this.key(key), increment);
+  }
+
+  decr(key: string): Promise<number> {
+    return this.kv.decr(this.key(key));
+  }
+
+  expire(key: string, seconds: number): Promise<boolean> {
+    return this.kv.expire(this.key(key), seconds);
+  }
+
+  ttl(key: string): Promise<number> {
+    return this.kv.ttl(this.key(key));
+  }
+
+  // Hash operations
+
+  hget(key: string, field: string): Promise<string | null> {
+    return this.kv.hget(this.key(key), field);
+  }
+
+  hset(key: string, field: string, value: string): Promise<number> {
+    return this.kv.hset(this.key(key), field, value);
+  }
+
+  hmset(key: string, data: Record<string, string>): Promise<void> {
+    return this.kv.hmset(this.key(key), data);
+  }
+
+  hgetall(key: string): Promise<Record<string, string>> {
+    return this.kv.hgetall(this.key(key));
+  }
+
+  hdel(key: string, ...fields: string[]): Promise<number> {
+    return this.kv.hdel(this.key(key), ...fields);
+  }
+
+  hexists(key: string, field: string): Promise<boolean> {
+    return this.kv.hexists(this.key(key), field);
+  }
+
+  hkeys(key: string): Promise<string[]> {
+    return this.kv.hkeys(this.key(key));
+  }
+
+  hlen(key: string): Promise<number> {
+    return this.kv.hlen(this.key(key));
+  }
+
+  // Set operations
+
+  sadd(key: string, ...members: string[]): Promise<number> {
+    return this.kv.sadd(this.key(key), ...members);
+  }
+
+  srem(key: string, ...members: string[]): Promise<number> {
+    return this.kv.srem(this.key(key), ...members);
+  }
+
+  smembers(key: string): Promise<string[]> {
+    return this.kv.smembers(this.key(key));
+  }
+
+  sismember(key: string, member: string): Promise<boolean> {
+    return this.kv.sismember(this.key(key), member);
+  }
+
+  scard(key: string): Promise<number> {
+    return this.kv.scard(this.key(key));
+  }
+
+  // List operations
+
+  lpush(key: string, ...values: string[]): Promise<number> {
+    return this.kv.lpush(this.key(key), ...values);
+  }
+
+  rpush(key: string, ...values: string[]): Promise<number> {
+    return this.kv.rpush(this.key(key), ...values);
+  }
+
+  lpop(key: string): Promise<string | null> {
+    return this.kv.lpop(this.key(key));
+  }
+
+  rpop(key: string): Promise<string | null> {
+    return this.kv.rpop(this.key(key));
+  }
+
+  lrange(key: string, start: number, stop: number): Promise<string[]> {
+    return this.kv.lrange(this.key(key), start, stop);
+  }
+
+  llen(key: string): Promise<number> {
+    return this.kv.llen(this.key(key));
+  }
+
+  ltrim(key: string, start: number, stop: number): Promise<void> {
+    return this.kv.ltrim(this.key(key), start, stop);
+  }
+
+  // Sorted set operations
+
+  zadd(key: string, score: number, member: string): Promise<number> {
+    return this.kv.zadd(this.key(key), score, member);
+  }
+
+  zrem(key: string, ...members: string[]): Promise<number> {
+    return this.kv.zrem(this.key(key), ...members);
+  }
+
+  zscore(key: string, member: string): Promise<number | null> {
+    return this.kv.zscore(this.key(key), member);
+  }
+
+  zrange(key: string, start: number, stop: number): Promise<string[]> {
+    return this.kv.zrange(this.key(key), start, stop);
+  }
+
+  zrangebyscore(
+    key: string,
+    min: number | "-inf",
+    max: number | "+inf",
+    options?: ZRangeOptions
+  ): Promise<string[]> {
+    return this.kv.zrangebyscore(this.key(key), min, max, options);
+  }
+
+  zcard(key: string): Promise<number> {
+    return this.kv.zcard(this.key(key));
+  }
+
+  zincrby(key: string, increment: number, member: string): Promise<number> {
+    return this.kv.zincrby(this.key(key), increment, member);
+  }
+
+  // Key scanning
+
+  async keys(pattern: string): Promise<string[]> {
+    const keys = await this.kv.keys(this.key(pattern));
+    return keys.map((k) => this.unkey(k));
+  }
+
+  async scan(cursor: string, options?: ScanOptions): Promise<ScanResult> {
+    const result = await this.kv.scan(cursor, {
+      ...options,
+      match: this.key(options?.match ?? "*"),
+    });
+    return { cursor: result.cursor, keys: result.keys.map((k) => this.unkey(k)) };
+  }
+
+  // Pub/Sub
+
+  publish(channel: string, message: string): Promise<number> {
+    return this.kv.publish(this.key(channel), message);
+  }
+
+  subscribe(
+    channel: string,
+    callback: (message: string, channel: string) => void
+  ): Promise<void> {
+    return this.kv.subscribe(this.key(channel), this.callback(callback));
+  }
+
+  psubscribe(
+    pattern: string,
+    callback: (message: string, channel: string) => void
+  ): Promise<void> {
+    return this.kv.psubscribe(this.key(pattern), this.callback(callback));
+  }
+
+  unsubscribe(channel: string): Promise<void> {
+    return this.kv.unsubscribe(this.key(channel));
+  }
+
+  punsubscribe(pattern: string): Promise<void> {
+    return this.kv.punsubscribe(this.key(pattern));
+  }
+
+  // Transactions
+
+  multi(): KVTransaction {
+    return new PrefixedTransaction(this.kv.multi(), this.prefix);
+  }
+
+  // Lua scripting
+
+  eval(script: string, keys: string[], args: string[]): Promise<unknown> {
+    return this.kv.eval(
+      script,
+      keys.map((k) => this.key(k)),
+      args
+    );
+  }
+}
+
+class PrefixedTransaction implements KVTransaction {
+  private multi: KVTransaction;
+  private prefix: string;
+
+  constructor(multi: KVTransaction, prefix: string) {
+    this.multi = multi;
+    this.prefix = prefix;
+  }
+
+  private key(k: string): string {
+    return `${this.prefix}:${k}`;
+  }
+
+  get(key: string): KVTransaction {
+    this.multi.get(this.key(key));
+    return this;
+  }
+
+  set(key: string, value: string, options?: SetOptions): KVTransaction {
+    this.multi.set(this.key(key), value, options);
+    return this;
+  }
+
+  del(...keys: string[]): KVTransaction {
+    this.multi.del(...keys.map((k) => this.key(k)));
+    return this;
+  }
+
+  incr(key: string): KVTransaction {
+    this.multi.incr(this.key(key));
+    return this;
+  }
+
+  hset(key: string, field: string, value: string): KVTransaction {
+    this.multi.hset(this.key(key), field, value);
+    return this;
+  }
+
+  hdel(key: string, ...fields: string[]): KVTransaction {
+    this.multi.hdel(this.key(key), ...fields);
+    return this;
+  }
+
+  sadd(key: string, ...members: string[]): KVTransaction {
+    this.multi.sadd(this.key(key), ...members);
+    return this;
+  }
+
+  srem(key: string, ...members: string[]): KVTransaction {
+    this.multi.srem(this.key(key), ...members);
+    return this;
+  }
+
+  lpush(key: string, ...values: string[]): KVTransaction {
+    this.multi.lpush(this.key(key), ...values);
+    return this;
+  }
+
+  rpush(key: string, ...values: string[]): KVTransaction {
+    this.multi.rpush(this.key(key), ...values);
+    return this;
+  }
+
+  zadd(key: string, score: number, member: string): KVTransaction {
+    this.multi.zadd(this.key(key), score, member);
+    return this;
+  }
+
+  zrem(key: string, ...members: string[]): KVTransaction {
+    this.multi.zrem(this.key(key), ...members);
+    return this;
+  }
+
+  expire(key: string, seconds: number): KVTransaction {
+    this.multi.expire(this.key(key), seconds);
+    return this;
+  }
+
+  exec(): Promise<unknown[]> {
+    return this.multi.exec();
+  }
+
+  discard(): void {
+    this.multi.discard();
+  }
+}
+
+export const createPrefixedKV = (kv: KVAdapter, prefix: string): KVAdapter => {
+  return new PrefixedKVStore(kv, prefix);
+};
@@ -164,6 +164,16 @@ export class RedisKVStore implements KVAdapter {
     return this.client.del(...keys.map((k) => this.key(k)));
   }
 
+  async delIfEquals(key: string, value: string): Promise<boolean> {
+    const deleted = await this.client.eval(
+      'if redis.call("get", KEYS[1]) == ARGV[1] then return redis.call("del", KEYS[1]) end return 0',
+      1,
+      this.key(key),
+      value
+    );
+    return deleted === 1;
+  }
+
   async exists(...keys: string[]): Promise<number> {
     if (keys.length === 0) return 0;
     return this.client.exists(...keys.map((k) => this.key(k)));
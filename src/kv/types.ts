@@ -18,6 +18,10 @@ export interface KVAdapter {
   get(key: string): Promise<string | null>;
   set(key: string, value: string, options?: SetOptions): Promise<void>;
   del(...keys: string[]): Promise<number>;
+  // Deletes the key only while it still holds `value`, e.g. to release a
+  // lock without dropping one another process took after ours expired.
+  // Optional; call it through `delIfEquals(kv, key, value)`
+  delIfEquals?(key: string, value: string): Promise<boolean>;
   exists(...keys: string[]): Promise<number>;
   incr(key: string): Promise<number>;
   incrBy(key: string, increment: number): Promise<number>;
@@ -165,3 +169,22 @@ export const getGlobalKV = (): KVAdapter => {
 export const hasGlobalKV = (): boolean => {
   return globalKV !== null;
 };
+
+/**
+ * Deletes `key` only while it still holds `value`. Adapters without their
+ * own `delIfEquals` fall back to a get then a del, which is not atomic: a
+ * value set between the two is deleted too.
+ */
+export const delIfEquals = async (
+  kv: KVAdapter,
+  key: string,
+  value: string
+): Promise<boolean> => {
+  if (kv.delIfEquals) {
+    return kv.delIfEquals(key, value);
+  }
+  if ((await kv.get(key)) !== value) {
+    return false;
+  }
+  return (await kv.del(key)) > 0;
+};
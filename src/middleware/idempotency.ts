@@ -40,7 +40,8 @@ export const idempotencyMiddleware = (config: IdempotencyConfig) => {
   } = config;
 
   return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
-    const key = req.headers[headerName] as string | undefined;
+    // Node lowercases incoming header names
+    const key = req.headers[headerName.toLowerCase()] as string | undefined;
 
     if (!key) {
       return next();
@@ -155,7 +156,8 @@ export const idempotencyKeyValidationMiddleware = (
   headerName: string = DEFAULT_HEADER
 ) => {
   return (req: Request, res: Response, next: NextFunction): void => {
-    const key = req.headers[headerName] as string | undefined;
+    // Node lowercases incoming header names
+    const key = req.headers[headerName.toLowerCase()] as string | undefined;
 
     if (key && !validateIdempotencyKey(key)) {
       res.status(400).json({
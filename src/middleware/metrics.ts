@@ -0,0 +1,220 @@
+import { KVAdapter } from "@/kv/types";
+
+export type MetricType = "counter" | "gauge" | "histogram";
+
+export type MetricLabels = Record<string, string>;
+
+export interface MetricSeries {
+  labels: MetricLabels;
+  value: number;
+  // Histograms only: cumulative count per bucket boundary and the sum of
+  // observations; `value` holds the observation count
+  buckets?: number[];
+  sum?: number;
+}
+
+export interface MetricFamily {
+  name: string;
+  help: string;
+  type: MetricType;
+  buckets?: number[];
+  series: MetricSeries[];
+}
+
+export interface Counter {
+  inc(labels?: MetricLabels, value?: number): void;
+}
+
+export interface Gauge {
+  set(labels: MetricLabels, value: number): void;
+  inc(labels?: MetricLabels, value?: number): void;
+}
+
+export interface Histogram {
+  observe(labels: MetricLabels, value: number): void;
+}
+
+export interface MetricsRegistry {
+  counter(name: string, help: string): Counter;
+  gauge(name: string, help: string): Gauge;
+  histogram(name: string, help: string, buckets?: number[]): Histogram;
+  snapshot(): MetricFamily[];
+  reset(): void;
+}
+
+export const DEFAULT_DURATION_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+export const KV_DURATION_BUCKETS = [
+  0.0005, 0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1,
+];
+
+export const labelKey = (labels: MetricLabels): string =>
+  Object.keys(labels)
+    .sort()
+    .map((key) => `${key}=${labels[key]}`)
+    .join(",");
+
+export const createMetricsRegistry = (): MetricsRegistry => {
+  const families = new Map<string, MetricFamily>();
+  const seriesIndex = new Map<string, Map<string, MetricSeries>>();
+
+  const family = (
+    name: string,
+    help: string,
+    type: MetricType,
+    buckets?: number[]
+  ): MetricFamily => {
+    const existing = families.get(name);
+    if (existing) {
+      if (existing.type !== type) {
+        throw new Error(`Metric ${name} is already registered as a ${existing.type}`);
+      }
+      return existing;
+    }
+
+    const created: MetricFamily = { name, help, type, buckets, series: [] };
+    families.set(name, created);
+    seriesIndex.set(name, new Map());
+    return created;
+  };
+
+  const series = (metric: MetricFamily, labels: MetricLabels): MetricSeries => {
+    const index = seriesIndex.get(metric.name)!;
+    const key = labelKey(labels);
+    let entry = index.get(key);
+    if (!entry) {
+      entry = { labels: { ...labels }, value: 0 };
+      if (metric.buckets) {
+        entry.buckets = metric.buckets.map(() => 0);
+        entry.sum = 0;
+      }
+      index.set(key, entry);
+      metric.series.push(entry);
+    }
+    return entry;
+  };
+
+  return {
+    counter(name, help) {
+      const metric = family(name, help, "counter");
+      return {
+        inc(labels = {}, value = 1) {
+          series(metric, labels).value += value;
+        },
+      };
+    },
+
+    gauge(name, help) {
+      const metric = family(name, help, "gauge");
+      return {
+        set(labels, value) {
+          series(metric, labels).value = value;
+        },
+        inc(labels = {}, value = 1) {
+          series(metric, labels).value += value;
+        },
+      };
+    },
+
+    histogram(name, help, buckets = DEFAULT_DURATION_BUCKETS) {
+      const metric = family(name, help, "histogram", [...buckets].sort((a, b) => a - b));
+      return {
+        observe(labels, value) {
+          const entry = series(metric, labels);
+          entry.value += 1;
+          entry.sum! += value;
+          metric.buckets!.forEach((bound, i) => {
+            if (value <= bound) entry.buckets![i]! += 1;
+          });
+        },
+      };
+    },
+
+    snapshot() {
+      return Array.from(families.values()).map((metric) => ({
+        ...metric,
+        buckets: metric.buckets ? [...metric.buckets] : undefined,
+        series: metric.series.map((entry) => ({
+          ...entry,
+          labels: { ...entry.labels },
+          buckets: entry.buckets ? [...entry.buckets] : undefined,
+        })),
+      }));
+    },
+
+    reset() {
+      for (const metric of families.values()) {
+        metric.series.length = 0;
+        seriesIndex.get(metric.name)!.clear();
+      }
+    },
+  };
+};
+
+// Process-wide registry the framework records into; the Prometheus exporter
+// reads it on every scrape
+export const metricsRegistry = createMetricsRegistry();
+
+export const backpressureEvents = metricsRegistry.counter(
+  "concave_subscription_backpressure_events_total",
+  "Subscription events that hit a client's queue limit, by backpressure policy"
+);
+
+export const rateLimitRejections = metricsRegistry.counter(
+  "concave_rate_limit_rejections_total",
+  "Requests rejected by a rate limiter"
+);
+
+export const kvOperationDuration = metricsRegistry.histogram(
+  "concave_kv_operation_duration_seconds",
+  "KV adapter operation latency",
+  KV_DURATION_BUCKETS
+);
+
+// Connection management, pub/sub and transactions are not request-path
+// operations, so they are passed through untimed
+const UNTIMED_KV_METHODS = new Set([
+  "connect",
+  "disconnect",
+  "isConnected",
+  "multi",
+  "subscribe",
+  "psubscribe",
+  "unsubscribe",
+  "punsubscribe",
+]);
+
+const instrumentedKVs = new WeakSet<KVAdapter>();
+
+/**
+ * Wraps a KV adapter so every operation is recorded in
+ * `concave_kv_operation_duration_seconds`, labelled by method name. An
+ * adapter that is already instrumented is returned as is.
+ */
+export const instrumentKV = (kv: KVAdapter): KVAdapter => {
+  if (instrumentedKVs.has(kv)) return kv;
+
+  const instrumented = new Proxy(kv, {
+    get(target, prop, receiver) {
+      const value = Reflect.get(target, prop, receiver);
+      if (typeof value !== "function") return value;
+      if (typeof prop !== "string" || UNTIMED_KV_METHODS.has(prop)) {
+        return value.bind(target);
+      }
+
+      return (...args: unknown[]) => {
+        const start = process.hrtime.bigint();
+        const observe = () =>
+          kvOperationDuration.observe(
+            { operation: prop },
+            Number(process.hrtime.bigint() - start) / 1e9
+          );
+        return Promise.resolve(value.apply(target, args)).finally(observe);
+      };
+    },
+  });
+  instrumentedKVs.add(instrumented);
+  return instrumented;
+};
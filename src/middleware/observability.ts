@@ -80,6 +80,37 @@ export interface ObservableRequest extends Request {
   operation?: string;
 }
 
+// Names resource routes for metrics; anything else is reported as
+// "<method> <route>"
+const ROUTE_OPERATIONS: Record<string, string> = {
+  "GET /": "list",
+  "GET /:id": "get",
+  "GET /count": "count",
+  "GET /aggregate": "aggregate",
+  "GET /search": "search",
+  "GET /subscribe": "subscribe",
+  "POST /": "create",
+  "PUT /:id": "replace",
+  "PATCH /:id": "update",
+  "DELETE /:id": "delete",
+  "POST /upsert": "upsert",
+  "POST /:id/restore": "restore",
+  "POST /batch": "batch_create",
+  "PATCH /batch": "batch_update",
+  "DELETE /batch": "batch_delete",
+  "POST /batch/upsert": "batch_upsert",
+};
+
+export const routeOperation = (req: Request): string | undefined => {
+  const routePath = req.route?.path;
+  if (typeof routePath !== "string") return undefined;
+
+  const route = `${req.method} ${routePath}`;
+  if (ROUTE_OPERATIONS[route]) return ROUTE_OPERATIONS[route];
+  if (routePath.startsWith("/rpc/")) return `rpc:${routePath.slice(5)}`;
+  return route;
+};
+
 export const observabilityMiddleware = (config: ObservabilityConfig = {}) => {
   const mergedConfig = { ...DEFAULT_CONFIG, ...config };
   const {
@@ -119,7 +150,9 @@ export const observabilityMiddleware = (config: ObservabilityConfig = {}) => {
         method: req.method,
         path: req.path,
         resource: observableReq.resource,
-        operation: observableReq.operation,
+        operation:
+          observableReq.operation ??
+          (observableReq.resource ? routeOperation(req) : undefined),
         status: res.statusCode,
         duration,
         timestamp: Date.now(),
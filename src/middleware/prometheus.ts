@@ -0,0 +1,415 @@
+import { Request, Response } from "express";
+import { randomUUID } from "crypto";
+import { getGlobalKV, hasGlobalKV, setGlobalKV, KVAdapter } from "../kv";
+import { changelog } from "../resource/changelog";
+import { getSinkStats, getSubscriptionStats } from "../resource/subscription";
+import { createTaskQueue } from "../tasks/queue";
+import { createDeadLetterQueue } from "../tasks/dlq";
+import { TaskWorker } from "../tasks/worker";
+import type { TaskBackend } from "../tasks/backend";
+import {
+  ErrorMetrics,
+  MetricsCollector,
+  MetricsConfig,
+  RequestMetrics,
+  SubscriptionMetrics,
+} from "./observability";
+import {
+  DEFAULT_DURATION_BUCKETS,
+  labelKey,
+  MetricFamily,
+  MetricLabels,
+  MetricsRegistry,
+  metricsRegistry,
+  MetricType,
+  instrumentKV,
+} from "./metrics";
+
+// Each process stores its latest snapshot here, keyed by instance id
+const INSTANCES_KEY = "concave:metrics:instances";
+
+const TASK_PRIORITIES = [0, 25, 50, 75, 100];
+
+export const PROMETHEUS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+export interface PrometheusExporterConfig {
+  // Also receives every request, subscription and error metric, so the admin
+  // UI keeps working alongside the exporter
+  collector?: MetricsCollector;
+  // Defaults to the process-wide registry the framework records into
+  registry?: MetricsRegistry;
+  // Used for cluster aggregation and task queue stats; defaults to the global KV
+  kv?: KVAdapter;
+  cluster?: boolean;
+  instanceId?: string;
+  pushIntervalMs?: number;
+  staleAfterMs?: number;
+  workers?: TaskWorker[];
+  // Where to read task queue stats from when tasks aren't kept in KV
+  taskBackend?: TaskBackend;
+  requestBuckets?: number[];
+  // Times the global KV adapter's operations; set before creating the
+  // exporter. Defaults to true.
+  instrumentKV?: boolean;
+}
+
+export interface PrometheusExporter extends Required<MetricsConfig> {
+  instanceId: string;
+  collect(): Promise<string>;
+  handler(req: Request, res: Response): Promise<void>;
+  push(): Promise<void>;
+  start(): void;
+  stop(): Promise<void>;
+}
+
+interface InstanceSnapshot {
+  at: number;
+  families: MetricFamily[];
+}
+
+const gaugeFamily = (
+  name: string,
+  help: string,
+  samples: Array<[MetricLabels, number]>,
+  type: MetricType = "gauge"
+): MetricFamily => ({
+  name,
+  help,
+  type,
+  series: samples.map(([labels, value]) => ({ labels, value })),
+});
+
+const escapeLabelValue = (value: string): string =>
+  value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+
+const formatLabels = (labels: MetricLabels, extra?: [string, string]): string => {
+  const pairs = Object.entries(labels);
+  if (extra) pairs.push(extra);
+  if (pairs.length === 0) return "";
+  return `{${pairs.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(",")}}`;
+};
+
+const formatValue = (value: number): string => {
+  if (Number.isNaN(value)) return "NaN";
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  return String(value);
+};
+
+/**
+ * Renders metric families in the Prometheus text exposition format.
+ */
+export const renderPrometheus = (families: MetricFamily[]): string => {
+  const lines: string[] = [];
+
+  for (const family of families) {
+    lines.push(`# HELP ${family.name} ${family.help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n")}`);
+    lines.push(`# TYPE ${family.name} ${family.type}`);
+
+    for (const series of family.series) {
+      if (family.type !== "histogram") {
+        lines.push(`${family.name}${formatLabels(series.labels)} ${formatValue(series.value)}`);
+        continue;
+      }
+
+      family.buckets!.forEach((bound, i) => {
+        lines.push(
+          `${family.name}_bucket${formatLabels(series.labels, ["le", formatValue(bound)])} ${series.buckets![i]}`
+        );
+      });
+      lines.push(`${family.name}_bucket${formatLabels(series.labels, ["le", "+Inf"])} ${series.value}`);
+      lines.push(`${family.name}_sum${formatLabels(series.labels)} ${formatValue(series.sum ?? 0)}`);
+      lines.push(`${family.name}_count${formatLabels(series.labels)} ${series.value}`);
+    }
+  }
+
+  return lines.join("\n") + "\n";
+};
+
+/**
+ * Sums snapshots from several processes. Series with the same name and labels
+ * are added together, histogram buckets element-wise.
+ */
+export const mergeMetricFamilies = (snapshots: MetricFamily[][]): MetricFamily[] => {
+  const merged = new Map<string, MetricFamily>();
+  const index = new Map<string, Map<string, MetricFamily["series"][number]>>();
+
+  for (const families of snapshots) {
+    for (const family of families) {
+      let target = merged.get(family.name);
+      if (!target) {
+        target = { ...family, series: [] };
+        merged.set(family.name, target);
+        index.set(family.name, new Map());
+      }
+
+      const seriesByLabels = index.get(family.name)!;
+      for (const series of family.series) {
+        const key = labelKey(series.labels);
+        const existing = seriesByLabels.get(key);
+        if (!existing) {
+          const copy = {
+            ...series,
+            labels: { ...series.labels },
+            buckets: series.buckets ? [...series.buckets] : undefined,
+          };
+          seriesByLabels.set(key, copy);
+          target.series.push(copy);
+          continue;
+        }
+
+        existing.value += series.value;
+        if (existing.sum !== undefined) existing.sum += series.sum ?? 0;
+        series.buckets?.forEach((count, i) => {
+          existing.buckets![i] = (existing.buckets![i] ?? 0) + count;
+        });
+      }
+    }
+  }
+
+  return Array.from(merged.values());
+};
+
+export const createPrometheusExporter = (
+  config: PrometheusExporterConfig = {}
+): PrometheusExporter => {
+  const registry = config.registry ?? metricsRegistry;
+  const instanceId = config.instanceId ?? `${process.pid}-${randomUUID().slice(0, 8)}`;
+  const pushIntervalMs = config.pushIntervalMs ?? 15000;
+  const staleAfterMs = config.staleAfterMs ?? pushIntervalMs * 3;
+  const workers = config.workers ?? [];
+
+  if (config.instrumentKV !== false && hasGlobalKV()) {
+    setGlobalKV(instrumentKV(getGlobalKV()));
+  }
+
+  const requestDuration = registry.histogram(
+    "concave_http_request_duration_seconds",
+    "Request latency by resource and operation",
+    config.requestBuckets ?? DEFAULT_DURATION_BUCKETS
+  );
+  const errors = registry.counter("concave_errors_total", "Errors returned to clients");
+  const subscriptionEvents = registry.counter(
+    "concave_subscription_events_total",
+    "Subscription lifecycle events"
+  );
+
+  let timer: ReturnType<typeof setInterval> | null = null;
+
+  const getKV = (): KVAdapter | null =>
+    config.kv ?? (hasGlobalKV() ? getGlobalKV() : null);
+
+  const clusterKV = (): KVAdapter | null => (config.cluster === false ? null : getKV());
+
+  // Metrics that belong to this process and are summed across the cluster
+  const localFamilies = (): MetricFamily[] => {
+    const sinks = getSinkStats();
+    const families = [
+      ...registry.snapshot(),
+      gaugeFamily("concave_subscription_connections", "Open subscription connections", [
+        [{}, sinks.connections],
+      ]),
+      gaugeFamily(
+        "concave_subscription_queue_bytes",
+        "Bytes queued for subscription clients that have not read them yet",
+        [[{}, sinks.queuedBytes]]
+      ),
+    ];
+
+    if (workers.length > 0) {
+      const stats = workers.map((worker) => worker.getStats());
+      const byStatus: Record<string, number> = { running: 0, paused: 0, stopped: 0 };
+      for (const stat of stats) byStatus[stat.status] = (byStatus[stat.status] ?? 0) + 1;
+
+      families.push(
+        gaugeFamily(
+          "concave_task_workers",
+          "Task workers by status",
+          Object.entries(byStatus).map(([status, count]) => [{ status }, count])
+        ),
+        gaugeFamily(
+          "concave_task_worker_active_tasks",
+          "Tasks currently running on a worker",
+          stats.map((stat) => [{ worker: stat.id }, stat.activeTasks])
+        ),
+        gaugeFamily(
+          "concave_task_worker_processed_total",
+          "Tasks a worker completed",
+          stats.map((stat) => [{ worker: stat.id }, stat.processedCount]),
+          "counter"
+        ),
+        gaugeFamily(
+          "concave_task_worker_failed_total",
+          "Task attempts that failed on a worker",
+          stats.map((stat) => [{ worker: stat.id }, stat.failedCount]),
+          "counter"
+        )
+      );
+    }
+
+    return families;
+  };
+
+  // Metrics read from shared state, reported once rather than per process
+  const sharedFamilies = async (instances: number): Promise<MetricFamily[]> => {
+    const [subscriptions, sequence, minSequence, entries] = await Promise.all([
+      getSubscriptionStats(),
+      changelog.getCurrentSequence(),
+      changelog.getMinAvailableSequence(),
+      changelog.getEntryCount(),
+    ]);
+
+    const families = [
+      gaugeFamily("concave_metrics_instances", "Processes included in this scrape", [
+        [{}, instances],
+      ]),
+      gaugeFamily(
+        "concave_subscriptions",
+        "Active subscriptions by resource",
+        Object.entries(subscriptions.subscriptionsByResource).map(([resource, count]) => [
+          { resource },
+          count,
+        ])
+      ),
+      gaugeFamily("concave_changelog_sequence", "Latest changelog sequence number", [
+        [{}, sequence],
+      ]),
+      gaugeFamily("concave_changelog_entries", "Changelog entries retained", [[{}, entries]]),
+      gaugeFamily(
+        "concave_changelog_trim_lag",
+        "Sequences between the latest and the oldest retained changelog entry; clients further behind are invalidated on resume",
+        [[{}, Math.max(0, sequence - minSequence)]]
+      ),
+    ];
+
+    const kv = getKV();
+    if (kv) {
+      const queue = config.taskBackend?.queue ?? createTaskQueue(kv);
+      const depths = await Promise.all(
+        TASK_PRIORITIES.map((priority) => queue.getQueueDepth(priority))
+      );
+      const dlq = config.taskBackend
+        ? config.taskBackend.createDeadLetterQueue(kv, async () => "")
+        : createDeadLetterQueue(kv, async () => "");
+
+      families.push(
+        gaugeFamily(
+          "concave_task_queue_depth",
+          "Tasks waiting in the queue by priority",
+          TASK_PRIORITIES.map((priority, i) => [{ priority: String(priority) }, depths[i]!])
+        ),
+        gaugeFamily("concave_task_dead_letter_size", "Tasks in the dead letter queue", [
+          [{}, await dlq.count()],
+        ])
+      );
+    }
+
+    return families;
+  };
+
+  const push = async (): Promise<void> => {
+    const kv = clusterKV();
+    if (!kv) return;
+
+    const snapshot: InstanceSnapshot = { at: Date.now(), families: localFamilies() };
+    await kv.hset(INSTANCES_KEY, instanceId, JSON.stringify(snapshot));
+  };
+
+  const clusterFamilies = async (kv: KVAdapter): Promise<MetricFamily[][]> => {
+    await push();
+
+    const now = Date.now();
+    const snapshots: MetricFamily[][] = [];
+    const stale: string[] = [];
+
+    for (const [id, data] of Object.entries(await kv.hgetall(INSTANCES_KEY))) {
+      try {
+        const snapshot = JSON.parse(data) as InstanceSnapshot;
+        if (now - snapshot.at > staleAfterMs) {
+          stale.push(id);
+        } else {
+          snapshots.push(snapshot.families);
+        }
+      } catch {
+        stale.push(id);
+      }
+    }
+
+    if (stale.length > 0) {
+      await kv.hdel(INSTANCES_KEY, ...stale);
+    }
+
+    return snapshots;
+  };
+
+  const collect = async (): Promise<string> => {
+    const kv = clusterKV();
+    const snapshots = kv ? await clusterFamilies(kv) : [localFamilies()];
+
+    return renderPrometheus([
+      ...mergeMetricFamilies(snapshots),
+      ...(await sharedFamilies(snapshots.length)),
+    ]);
+  };
+
+  return {
+    instanceId,
+
+    onRequest(metrics: RequestMetrics) {
+      config.collector?.onRequest(metrics);
+      requestDuration.observe(
+        {
+          resource: metrics.resource ?? "",
+          operation: metrics.operation ?? "",
+          method: metrics.method,
+          status: String(metrics.status),
+        },
+        metrics.duration / 1000
+      );
+    },
+
+    onSubscription(metrics: SubscriptionMetrics) {
+      config.collector?.onSubscription(metrics);
+      subscriptionEvents.inc({ resource: metrics.resource, event: metrics.event });
+    },
+
+    onError(metrics: ErrorMetrics) {
+      config.collector?.onError(metrics);
+      errors.inc({ status: String(metrics.status), code: metrics.errorCode });
+    },
+
+    collect,
+
+    async handler(_req: Request, res: Response) {
+      try {
+        const body = await collect();
+        res.setHeader("Content-Type", PROMETHEUS_CONTENT_TYPE);
+        res.send(body);
+      } catch (error) {
+        res.status(500).type("text/plain").send(
+          `# Failed to collect metrics: ${error instanceof Error ? error.message : "Unknown error"}\n`
+        );
+      }
+    },
+
+    push,
+
+    start() {
+      if (timer) return;
+      timer = setInterval(() => {
+        push().catch(() => {
+          // The next push or scrape retries
+        });
+      }, pushIntervalMs);
+      timer.unref?.();
+    },
+
+    async stop() {
+      if (timer) {
+        clearInterval(timer);
+        timer = null;
+      }
+      await clusterKV()?.hdel(INSTANCES_KEY, instanceId);
+    },
+  };
+};
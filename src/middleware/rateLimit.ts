@@ -2,6 +2,8 @@ import { Request, Response, NextFunction } from "express";
 import { RateLimitError } from "@/resource/error";
 import { AuthenticatedRequest } from "@/auth/types";
 import { getGlobalKV, hasGlobalKV, KVAdapter } from "../kv";
+import { rateLimitRejections } from "./metrics";
+import { ObservableRequest } from "./observability";
 
 // KV key prefix
 const RATE_LIMIT_PREFIX = "concave:ratelimit:";
@@ -148,7 +150,7 @@ export class KVRateLimitStore implements RateLimitStore {
   }
 }
 
-const defaultKeyGenerator = (req: Request): string => {
+export const defaultKeyGenerator = (req: Request): string => {
   const authReq = req as AuthenticatedRequest;
   const userId = authReq.user?.id;
   const ip = req.ip ?? req.socket.remoteAddress ?? "unknown";
@@ -159,6 +161,10 @@ const defaultKeyGenerator = (req: Request): string => {
   return `ip:${ip}`;
 };
 
+const countRejection = (req: Request): void => {
+  rateLimitRejections.inc({ resource: (req as ObservableRequest).resource ?? "" });
+};
+
 // Default store - uses KV if available, otherwise in-memory
 let defaultStore: RateLimitStore | null = null;
 
@@ -211,6 +217,7 @@ export const createRateLimiter = (config: RateLimitConfig) => {
           res.setHeader("Retry-After", retryAfter);
         }
 
+        countRejection(req);
         throw new RateLimitError(retryAfter);
       }
 
@@ -323,6 +330,7 @@ export const createSlidingWindowRateLimiter = (config: RateLimitConfig) => {
           res.setHeader("X-RateLimit-Reset", Math.ceil((oldestTimestamp + windowMs) / 1000));
         }
 
+        countRejection(req);
         throw new RateLimitError(retryAfter);
       }
 
@@ -41,7 +41,16 @@ export const generateDiscoveryDocument = (
     jwks_uri: `${baseUrl}/jwks`,
     end_session_endpoint: `${baseUrl}/logout`,
     introspection_endpoint: `${baseUrl}/introspect`,
+    introspection_endpoint_auth_methods_supported: [
+      "client_secret_basic",
+      "client_secret_post",
+    ],
     revocation_endpoint: `${baseUrl}/revoke`,
+    revocation_endpoint_auth_methods_supported: [
+      "client_secret_basic",
+      "client_secret_post",
+      "none",
+    ],
 
     response_types_supported: [
       "code",
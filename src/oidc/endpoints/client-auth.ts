@@ -0,0 +1,64 @@
+import { Request } from "express";
+import { OIDCClient, OIDCProviderStores, TokenAuthMethod } from "../types";
+
+export interface ClientAuth {
+  success: boolean;
+  client?: OIDCClient;
+  error?: string;
+}
+
+export interface ClientAuthOptions {
+  // Reject credentials sent another way than the client's registered
+  // `tokenEndpointAuthMethod`. Introspection and revocation check it; the
+  // token endpoint accepts either way of sending the secret.
+  requireAuthMethod?: boolean;
+}
+
+export const authenticateClient = async (
+  req: Request,
+  clientStore: OIDCProviderStores["clients"],
+  options: ClientAuthOptions = {}
+): Promise<ClientAuth> => {
+  let clientId: string | undefined;
+  let clientSecret: string | undefined;
+  let method: TokenAuthMethod;
+
+  const authHeader = req.headers.authorization;
+  if (authHeader?.startsWith("Basic ")) {
+    const decoded = Buffer.from(authHeader.slice(6), "base64").toString("utf-8");
+    const [id, secret] = decoded.split(":");
+    clientId = decodeURIComponent(id);
+    clientSecret = decodeURIComponent(secret);
+    method = "client_secret_basic";
+  } else {
+    clientId = req.body?.client_id;
+    clientSecret = req.body?.client_secret;
+    method = clientSecret ? "client_secret_post" : "none";
+  }
+
+  if (!clientId) {
+    return { success: false, error: "client_id is required" };
+  }
+
+  const client = await clientStore.get(clientId);
+  if (!client) {
+    return { success: false, error: "Unknown client" };
+  }
+
+  if (client.tokenEndpointAuthMethod === "none") {
+    return { success: true, client };
+  }
+
+  if (options.requireAuthMethod && client.secret && method !== client.tokenEndpointAuthMethod) {
+    return {
+      success: false,
+      error: `Client must authenticate with ${client.tokenEndpointAuthMethod}`,
+    };
+  }
+
+  if (client.secret && client.secret !== clientSecret) {
+    return { success: false, error: "Invalid client credentials" };
+  }
+
+  return { success: true, client };
+};
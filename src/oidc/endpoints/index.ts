@@ -3,3 +3,6 @@ export { createTokenEndpoint } from "./token";
 export { createUserInfoEndpoint } from "./userinfo";
 export { createJWKSEndpoint } from "./jwks";
 export { createLogoutEndpoint } from "./logout";
+export { createIntrospectionEndpoint } from "./introspect";
+export { createRevocationEndpoint } from "./revoke";
+export { authenticateClient } from "./client-auth";
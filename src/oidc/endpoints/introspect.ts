@@ -0,0 +1,101 @@
+import { Router, Request, Response } from "express";
+import {
+  IntrospectionResponse,
+  OIDCProviderStores,
+  TokenService,
+  TokenTypeHint,
+} from "../types";
+import { authenticateClient } from "./client-auth";
+
+interface IntrospectionEndpointConfig {
+  stores: OIDCProviderStores;
+  tokenService: TokenService;
+}
+
+export const createIntrospectionEndpoint = ({
+  stores,
+  tokenService,
+}: IntrospectionEndpointConfig): Router => {
+  const router = Router();
+
+  const introspectAccessToken = async (
+    token: string
+  ): Promise<IntrospectionResponse | null> => {
+    const validation = await tokenService.validateAccessToken(token);
+    if (!validation.valid || !validation.claims) {
+      return null;
+    }
+
+    return {
+      ...validation.claims,
+      active: true,
+      token_type: "Bearer",
+    };
+  };
+
+  const introspectRefreshToken = async (
+    token: string
+  ): Promise<IntrospectionResponse | null> => {
+    const data = await stores.refreshTokens.get(token);
+    if (!data || Date.now() > data.expiresAt) {
+      return null;
+    }
+
+    return {
+      active: true,
+      token_type: "refresh_token",
+      scope: data.scope,
+      client_id: data.clientId,
+      sub: data.userId,
+      iat: Math.floor(data.createdAt / 1000),
+      exp: Math.floor(data.expiresAt / 1000),
+    };
+  };
+
+  router.post("/", async (req: Request, res: Response) => {
+    const clientAuth = await authenticateClient(req, stores.clients, {
+      requireAuthMethod: true,
+    });
+    if (
+      !clientAuth.success ||
+      !clientAuth.client ||
+      clientAuth.client.tokenEndpointAuthMethod === "none"
+    ) {
+      return res.status(401).json({
+        error: "invalid_client",
+        error_description: clientAuth.error ?? "Client authentication failed",
+      });
+    }
+
+    const { token, token_type_hint } = req.body as {
+      token?: string;
+      token_type_hint?: TokenTypeHint;
+    };
+
+    if (!token) {
+      return res.status(400).json({
+        error: "invalid_request",
+        error_description: "token is required",
+      });
+    }
+
+    // The hint only decides which lookup runs first
+    const lookups =
+      token_type_hint === "refresh_token"
+        ? [introspectRefreshToken, introspectAccessToken]
+        : [introspectAccessToken, introspectRefreshToken];
+
+    res.set("Cache-Control", "no-store");
+
+    for (const lookup of lookups) {
+      const result = await lookup(token);
+      if (result) {
+        return res.json(result);
+      }
+    }
+
+    return res.json({ active: false });
+  });
+
+  return router;
+};
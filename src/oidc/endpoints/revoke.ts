@@ -0,0 +1,81 @@
+import { Router, Request, Response } from "express";
+import { OIDCProviderStores, TokenService, TokenTypeHint } from "../types";
+import { authenticateClient } from "./client-auth";
+
+interface RevocationEndpointConfig {
+  stores: OIDCProviderStores;
+  tokenService: TokenService;
+}
+
+export const createRevocationEndpoint = ({
+  stores,
+  tokenService,
+}: RevocationEndpointConfig): Router => {
+  const router = Router();
+
+  router.post("/", async (req: Request, res: Response) => {
+    const clientAuth = await authenticateClient(req, stores.clients, {
+      requireAuthMethod: true,
+    });
+    if (!clientAuth.success || !clientAuth.client) {
+      return res.status(401).json({
+        error: "invalid_client",
+        error_description: clientAuth.error ?? "Client authentication failed",
+      });
+    }
+
+    const client = clientAuth.client;
+    const { token, token_type_hint } = req.body as {
+      token?: string;
+      token_type_hint?: TokenTypeHint;
+    };
+
+    if (!token) {
+      return res.status(400).json({
+        error: "invalid_request",
+        error_description: "token is required",
+      });
+    }
+
+    const revokeRefreshToken = async (): Promise<boolean> => {
+      const data = await stores.refreshTokens.get(token);
+      if (!data) return false;
+      if (data.clientId !== client.id) {
+        throw new Error("Token was not issued to this client");
+      }
+      await tokenService.revokeRefreshToken(token);
+      return true;
+    };
+
+    const revokeAccessToken = async (): Promise<boolean> => {
+      const validation = await tokenService.validateAccessToken(token);
+      if (!validation.valid || !validation.claims) return false;
+      if (validation.claims.client_id !== client.id) {
+        throw new Error("Token was not issued to this client");
+      }
+      await tokenService.revokeAccessToken(token);
+      return true;
+    };
+
+    const attempts =
+      token_type_hint === "access_token"
+        ? [revokeAccessToken, revokeRefreshToken]
+        : [revokeRefreshToken, revokeAccessToken];
+
+    try {
+      for (const attempt of attempts) {
+        if (await attempt()) break;
+      }
+    } catch (error) {
+      return res.status(400).json({
+        error: "invalid_request",
+        error_description: (error as Error).message,
+      });
+    }
+
+    // Unknown, expired and already-revoked tokens are not an error (RFC 7009 §2.2)
+    return res.status(200).send();
+  });
+
+  return router;
+};
@@ -1,12 +1,12 @@
 import { Router, Request, Response } from "express";
 import * as crypto from "crypto";
 import {
-  OIDCClient,
   OIDCProviderConfig,
   OIDCProviderStores,
   OIDCUser,
   TokenService,
 } from "../types";
+import { authenticateClient } from "./client-auth";
 
 const base64UrlEncode = (buffer: Buffer): string => {
   return buffer
@@ -16,50 +16,6 @@ const base64UrlEncode = (buffer: Buffer): string => {
     .replace(/=/g, "");
 };
 
-interface ClientAuth {
-  success: boolean;
-  client?: OIDCClient;
-  error?: string;
-}
-
-const authenticateClient = async (
-  req: Request,
-  clientStore: OIDCProviderStores["clients"]
-): Promise<ClientAuth> => {
-  let clientId: string | undefined;
-  let clientSecret: string | undefined;
-
-  const authHeader = req.headers.authorization;
-  if (authHeader?.startsWith("Basic ")) {
-    const decoded = Buffer.from(authHeader.slice(6), "base64").toString("utf-8");
-    const [id, secret] = decoded.split(":");
-    clientId = decodeURIComponent(id);
-    clientSecret = decodeURIComponent(secret);
-  } else {
-    clientId = req.body.client_id;
-    clientSecret = req.body.client_secret;
-  }
-
-  if (!clientId) {
-    return { success: false, error: "client_id is required" };
-  }
-
-  const client = await clientStore.get(clientId);
-  if (!client) {
-    return { success: false, error: "Unknown client" };
-  }
-
-  if (client.tokenEndpointAuthMethod === "none") {
-    return { success: true, client };
-  }
-
-  if (client.secret && client.secret !== clientSecret) {
-    return { success: false, error: "Invalid client credentials" };
-  }
-
-  return { success: true, client };
-};
-
 interface TokenEndpointConfig {
   config: OIDCProviderConfig;
   stores: OIDCProviderStores;
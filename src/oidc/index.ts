@@ -9,12 +9,14 @@ export {
   InMemoryClientStore,
   InMemoryAuthorizationCodeStore,
   InMemoryRefreshTokenStore,
+  InMemoryAccessTokenStore,
   InMemoryConsentStore,
   InMemoryInteractionStore,
   InMemoryStateStore,
   KVClientStore,
   KVAuthorizationCodeStore,
   KVRefreshTokenStore,
+  KVAccessTokenStore,
   KVConsentStore,
   KVInteractionStore,
   KVStateStore,
@@ -28,6 +30,8 @@ export {
   createUserInfoEndpoint,
   createJWKSEndpoint,
   createLogoutEndpoint,
+  createIntrospectionEndpoint,
+  createRevocationEndpoint,
 } from "./endpoints";
 
 export { createLoginHandler, createConsentHandler } from "./ui";
@@ -52,6 +56,9 @@ export type {
   AuthorizationRequest,
   AuthorizationCode,
   RefreshTokenData,
+  AccessTokenData,
+  IntrospectionResponse,
+  TokenTypeHint,
   TokenRequest,
   UserConsent,
   InteractionData,
@@ -67,6 +74,7 @@ export type {
   ClientStore,
   AuthorizationCodeStore,
   RefreshTokenStore,
+  AccessTokenStore,
   ConsentStore,
   InteractionStore,
   StateStore,
@@ -18,6 +18,8 @@ import {
   createUserInfoEndpoint,
   createJWKSEndpoint,
   createLogoutEndpoint,
+  createIntrospectionEndpoint,
+  createRevocationEndpoint,
 } from "./endpoints";
 import { createLoginHandler, createConsentHandler } from "./ui";
 import { createEmailPasswordBackend, createFederatedBackend } from "./backends";
@@ -46,7 +48,12 @@ export const createOIDCProvider = (config: OIDCProviderConfig): OIDCProviderResu
     }
   }
 
-  const tokenService = createTokenService(config, keyManager, stores.refreshTokens);
+  const tokenService = createTokenService(
+    config,
+    keyManager,
+    stores.refreshTokens,
+    stores.accessTokens
+  );
 
   const sessionStore: SessionStore =
     (config.stores?.sessionStore as SessionStore) ?? new InMemorySessionStore();
@@ -129,6 +136,22 @@ export const createOIDCProvider = (config: OIDCProviderConfig): OIDCProviderResu
     })
   );
 
+  router.use(
+    "/introspect",
+    createIntrospectionEndpoint({
+      stores,
+      tokenService,
+    })
+  );
+
+  router.use(
+    "/revoke",
+    createRevocationEndpoint({
+      stores,
+      tokenService,
+    })
+  );
+
   router.use(
     "/logout",
     createLogoutEndpoint({
@@ -1,4 +1,6 @@
 import {
+  AccessTokenData,
+  AccessTokenStore,
   AuthorizationCode,
   AuthorizationCodeStore,
   ClientStore,
@@ -108,6 +110,43 @@ export class InMemoryRefreshTokenStore implements RefreshTokenStore {
   }
 }
 
+export class InMemoryAccessTokenStore implements AccessTokenStore {
+  private tokens = new Map<string, AccessTokenData>();
+  private revoked = new Map<string, number>();
+
+  async set(data: AccessTokenData): Promise<void> {
+    this.tokens.set(data.token, data);
+  }
+
+  async get(token: string): Promise<AccessTokenData | null> {
+    const data = this.tokens.get(token);
+    if (!data) return null;
+    if (Date.now() > data.expiresAt) {
+      this.tokens.delete(token);
+      return null;
+    }
+    return data;
+  }
+
+  async delete(token: string): Promise<void> {
+    this.tokens.delete(token);
+  }
+
+  async revoke(jti: string, expiresAt: number): Promise<void> {
+    this.revoked.set(jti, expiresAt);
+  }
+
+  async isRevoked(jti: string): Promise<boolean> {
+    const expiresAt = this.revoked.get(jti);
+    if (expiresAt === undefined) return false;
+    if (Date.now() > expiresAt) {
+      this.revoked.delete(jti);
+      return false;
+    }
+    return true;
+  }
+}
+
 export class InMemoryConsentStore implements ConsentStore {
   private consents = new Map<string, UserConsent>();
 
@@ -297,6 +336,45 @@ export class KVRefreshTokenStore implements RefreshTokenStore {
   }
 }
 
+export class KVAccessTokenStore implements AccessTokenStore {
+  constructor(
+    private kv: KVAdapter,
+    private prefix: string = PREFIX
+  ) {}
+
+  private key(token: string): string {
+    return `${this.prefix}:access:${token}`;
+  }
+
+  private revokedKey(jti: string): string {
+    return `${this.prefix}:access:revoked:${jti}`;
+  }
+
+  async set(data: AccessTokenData): Promise<void> {
+    const ttl = Math.ceil((data.expiresAt - Date.now()) / 1000);
+    await this.kv.set(this.key(data.token), JSON.stringify(data), { ex: ttl });
+  }
+
+  async get(token: string): Promise<AccessTokenData | null> {
+    const data = await this.kv.get(this.key(token));
+    return data ? JSON.parse(data) : null;
+  }
+
+  async delete(token: string): Promise<void> {
+    await this.kv.del(this.key(token));
+  }
+
+  async revoke(jti: string, expiresAt: number): Promise<void> {
+    const ttl = Math.ceil((expiresAt - Date.now()) / 1000);
+    if (ttl <= 0) return;
+    await this.kv.set(this.revokedKey(jti), "1", { ex: ttl });
+  }
+
+  async isRevoked(jti: string): Promise<boolean> {
+    return (await this.kv.get(this.revokedKey(jti))) !== null;
+  }
+}
+
 export class KVConsentStore implements ConsentStore {
   constructor(
     private kv: KVAdapter,
@@ -403,6 +481,7 @@ export const createStores = (
       clients: new KVClientStore(config.kv, prefix),
       authorizationCodes: new KVAuthorizationCodeStore(config.kv, prefix),
       refreshTokens: new KVRefreshTokenStore(config.kv, prefix),
+      accessTokens: new KVAccessTokenStore(config.kv, prefix),
       consent: new KVConsentStore(config.kv, prefix),
       interactions: new KVInteractionStore(config.kv, prefix),
       state: new KVStateStore(config.kv, prefix),
@@ -414,6 +493,7 @@ export const createStores = (
     clients: clientStore,
     authorizationCodes: new InMemoryAuthorizationCodeStore(),
     refreshTokens: new InMemoryRefreshTokenStore(),
+    accessTokens: new InMemoryAccessTokenStore(),
     consent: new InMemoryConsentStore(),
     interactions: new InMemoryInteractionStore(),
     state: new InMemoryStateStore(),
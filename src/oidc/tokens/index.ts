@@ -1,6 +1,7 @@
 import * as crypto from "crypto";
 import {
   AccessTokenClaims,
+  AccessTokenStore,
   IDTokenClaims,
   KeyManager,
   OIDCClient,
@@ -10,6 +11,7 @@ import {
   TokenResponse,
   TokenService,
 } from "../types";
+import { InMemoryAccessTokenStore } from "../stores";
 
 const base64UrlEncode = (buffer: Buffer): string => {
   return buffer
@@ -36,7 +38,8 @@ interface ResolvedTokenConfig {
 export const createTokenService = (
   config: OIDCProviderConfig,
   keyManager: KeyManager,
-  refreshTokenStore: RefreshTokenStore
+  refreshTokenStore: RefreshTokenStore,
+  accessTokenStore: AccessTokenStore = new InMemoryAccessTokenStore()
 ): TokenService => {
   const tokenConfig: ResolvedTokenConfig = {
     accessToken: {
@@ -84,9 +87,28 @@ export const createTokenService = (
       Object.assign(claims, customClaims);
     }
 
+    if (tokenConfig.accessToken.format === "opaque") {
+      const token = crypto.randomBytes(32).toString("hex");
+      await accessTokenStore.set({ token, claims, expiresAt: claims.exp * 1000 });
+      return token;
+    }
+
     return keyManager.signToken(claims);
   };
 
+  const readAccessToken = async (token: string): Promise<AccessTokenClaims | null> => {
+    if (tokenConfig.accessToken.format === "opaque") {
+      const data = await accessTokenStore.get(token);
+      return data?.claims ?? null;
+    }
+
+    try {
+      return (await keyManager.verifyToken(token)) as AccessTokenClaims;
+    } catch {
+      return null;
+    }
+  };
+
   const generateIdToken = async (
     user: OIDCUser,
     client: OIDCClient,
@@ -204,22 +226,26 @@ export const createTokenService = (
     async validateAccessToken(
       token: string
     ): Promise<{ valid: boolean; claims?: AccessTokenClaims }> {
-      try {
-        const claims = (await keyManager.verifyToken(token)) as AccessTokenClaims;
-        const now = Math.floor(Date.now() / 1000);
+      const claims = await readAccessToken(token);
+      if (!claims) {
+        return { valid: false };
+      }
+
+      const now = Math.floor(Date.now() / 1000);
 
-        if (claims.exp && claims.exp < now) {
-          return { valid: false };
-        }
+      if (claims.exp && claims.exp < now) {
+        return { valid: false };
+      }
 
-        if (claims.iss !== config.issuer) {
-          return { valid: false };
-        }
+      if (claims.iss !== config.issuer) {
+        return { valid: false };
+      }
 
-        return { valid: true, claims };
-      } catch {
+      if (claims.jti && (await accessTokenStore.isRevoked(claims.jti))) {
         return { valid: false };
       }
+
+      return { valid: true, claims };
     },
 
     async decodeIdToken(token: string): Promise<IDTokenClaims> {
@@ -229,5 +255,18 @@ export const createTokenService = (
     async revokeRefreshToken(token: string): Promise<void> {
       await refreshTokenStore.delete(token);
     },
+
+    async revokeAccessToken(token: string): Promise<void> {
+      const claims = await readAccessToken(token);
+      if (!claims) {
+        return;
+      }
+
+      // Self-contained JWTs stay verifiable until they expire, so their jti is denylisted
+      await accessTokenStore.revoke(claims.jti, claims.exp * 1000);
+      if (tokenConfig.accessToken.format === "opaque") {
+        await accessTokenStore.delete(token);
+      }
+    },
   };
 };
@@ -120,6 +120,12 @@ export interface RefreshTokenData {
   createdAt: number;
 }
 
+export interface AccessTokenData {
+  token: string;
+  claims: AccessTokenClaims;
+  expiresAt: number;
+}
+
 export interface TokenRequest {
   grantType: GrantType;
   code?: string;
@@ -140,6 +146,24 @@ export interface TokenResponse {
   scope?: string;
 }
 
+export type TokenTypeHint = "access_token" | "refresh_token";
+
+export interface IntrospectionResponse {
+  active: boolean;
+  scope?: string;
+  client_id?: string;
+  username?: string;
+  token_type?: string;
+  exp?: number;
+  iat?: number;
+  nbf?: number;
+  sub?: string;
+  aud?: string | string[];
+  iss?: string;
+  jti?: string;
+  [key: string]: unknown;
+}
+
 export interface UserConsent {
   userId: string;
   clientId: string;
@@ -162,7 +186,9 @@ export interface OIDCDiscoveryDocument {
   jwks_uri: string;
   end_session_endpoint: string;
   introspection_endpoint?: string;
+  introspection_endpoint_auth_methods_supported?: string[];
   revocation_endpoint?: string;
+  revocation_endpoint_auth_methods_supported?: string[];
   registration_endpoint?: string;
   response_types_supported: string[];
   grant_types_supported: string[];
@@ -396,6 +422,14 @@ export interface RefreshTokenStore {
   deleteByUserId(userId: string): Promise<void>;
 }
 
+export interface AccessTokenStore {
+  set(data: AccessTokenData): Promise<void>;
+  get(token: string): Promise<AccessTokenData | null>;
+  delete(token: string): Promise<void>;
+  revoke(jti: string, expiresAt: number): Promise<void>;
+  isRevoked(jti: string): Promise<boolean>;
+}
+
 export interface ConsentStore {
   get(userId: string, clientId: string): Promise<UserConsent | null>;
   set(consent: UserConsent): Promise<void>;
@@ -496,12 +530,14 @@ export interface TokenService {
   ): Promise<{ valid: boolean; claims?: AccessTokenClaims }>;
   decodeIdToken(token: string): Promise<IDTokenClaims>;
   revokeRefreshToken(token: string): Promise<void>;
+  revokeAccessToken(token: string): Promise<void>;
 }
 
 export interface OIDCProviderStores {
   clients: ClientStore;
   authorizationCodes: AuthorizationCodeStore;
   refreshTokens: RefreshTokenStore;
+  accessTokens: AccessTokenStore;
   consent: ConsentStore;
   interactions: InteractionStore;
   state: StateStore;
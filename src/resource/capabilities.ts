@@ -1,6 +1,12 @@
 import { getTableColumns, Table, TableConfig, AnyColumn } from "drizzle-orm";
 import { ValidationError } from "./error";
-import { FieldPolicies, ResourceCapabilities } from "./types";
+import {
+  FieldPolicies,
+  FieldPoliciesResolver,
+  HiddenFieldsMap,
+  ResourceCapabilities,
+  UserContext,
+} from "./types";
 
 export type FieldOperation =
   | "read"
@@ -142,18 +148,22 @@ export const validateFieldAccessOrThrow = (
 
 export const applyReadablePolicy = <T extends Record<string, unknown>>(
   items: T[],
-  policies: FieldPolicies | undefined
+  policies: FieldPolicies | undefined,
+  schemaColumns?: string[]
 ): Partial<T>[] => {
   if (!policies?.readable) {
     return items;
   }
 
   const readable = new Set(policies.readable);
+  // With the schema known, only its columns are policed; included relations
+  // and meta keys such as _etag pass through
+  const policed = schemaColumns ? new Set(schemaColumns) : null;
 
   return items.map((item) => {
     const result: Partial<T> = {};
     for (const key of Object.keys(item)) {
-      if (readable.has(key)) {
+      if (readable.has(key) || (policed && !policed.has(key))) {
         result[key as keyof T] = item[key as keyof T];
       }
     }
@@ -181,6 +191,125 @@ export const stripNonWritableFields = <T extends Record<string, unknown>>(
   return result;
 };
 
+export const resolveFieldPolicies = async (
+  fields: FieldPolicies | FieldPoliciesResolver | undefined,
+  user: UserContext | null
+): Promise<FieldPolicies | undefined> => {
+  return typeof fields === "function" ? fields(user) : fields;
+};
+
+// Columns a reader may not see also cannot be filtered, sorted or aggregated
+// on, otherwise their values could be inferred from the results
+export const withReadableDefaults = (
+  policies: FieldPolicies | undefined
+): FieldPolicies | undefined => {
+  if (!policies?.readable) {
+    return policies;
+  }
+
+  return {
+    ...policies,
+    filterable: policies.filterable ?? policies.readable,
+    sortable: policies.sortable ?? policies.readable,
+    aggregatable: {
+      groupBy: policies.aggregatable?.groupBy ?? policies.readable,
+      metrics: policies.aggregatable?.metrics ?? policies.readable,
+    },
+  };
+};
+
+export const getHiddenFields = (
+  policies: FieldPolicies | undefined,
+  schemaColumns: string[]
+): string[] => {
+  if (!policies?.readable) {
+    return [];
+  }
+  const readable = new Set(policies.readable);
+  return schemaColumns.filter((column) => !readable.has(column));
+};
+
+const redactValue = (value: unknown, path: string[], hidden: string[]): unknown => {
+  if (Array.isArray(value)) {
+    return value.map((entry) => redactValue(entry, path, hidden));
+  }
+  if (!value || typeof value !== "object") {
+    return value;
+  }
+
+  const record = value as Record<string, unknown>;
+  if (path.length === 0) {
+    const result = { ...record };
+    for (const field of hidden) {
+      delete result[field];
+    }
+    return result;
+  }
+
+  const [head, ...rest] = path;
+  if (!(head! in record)) {
+    return record;
+  }
+  return { ...record, [head!]: redactValue(record[head!], rest, hidden) };
+};
+
+export const redactHiddenFields = <T extends Record<string, unknown>>(
+  item: T,
+  hiddenFields: HiddenFieldsMap | undefined
+): T => {
+  if (!hiddenFields) {
+    return item;
+  }
+
+  let result: unknown = item;
+  for (const [path, hidden] of Object.entries(hiddenFields)) {
+    if (hidden.length === 0) continue;
+    result = redactValue(result, path ? path.split(".") : [], hidden);
+  }
+  return result as T;
+};
+
+export interface FieldAccess {
+  policies: FieldPolicies | undefined;
+  hidden: string[];
+  redact<T extends Record<string, unknown>>(item: T): T;
+  stripWritable<T extends Record<string, unknown>>(data: T): T;
+  checkFilter(filter: string | undefined): void;
+  checkOrderBy(orderBy: string | undefined): void;
+  checkSelect(select: string[] | undefined): void;
+  checkAggregation(groupBy: string[], metrics: string[]): void;
+}
+
+// Field policies as seen by one caller. Checks are no-ops when the resource
+// declares no policies, so unconfigured resources behave exactly as before.
+export const createFieldAccess = (
+  resolved: FieldPolicies | undefined,
+  schemaColumns: string[]
+): FieldAccess => {
+  const policies = withReadableDefaults(resolved);
+  const hidden = getHiddenFields(policies, schemaColumns);
+
+  return {
+    policies,
+    hidden,
+    redact: (item) => applyReadablePolicy([item], policies, schemaColumns)[0] as typeof item,
+    stripWritable: (data) =>
+      (data && typeof data === "object" ? stripNonWritableFields(data, policies) : data) as typeof data,
+    checkFilter: (filter) => {
+      if (policies && filter) validateFilterFields(filter, policies, schemaColumns);
+    },
+    checkOrderBy: (orderBy) => {
+      if (policies) validateOrderByFields(orderBy, policies, schemaColumns);
+    },
+    checkSelect: (select) => {
+      if (policies) validateSelectFields(select, policies, schemaColumns);
+    },
+    checkAggregation: (groupBy, metrics) => {
+      if (policies) validateAggregationFields(groupBy, metrics, policies, schemaColumns);
+    },
+  };
+};
+
 export const DEFAULT_CAPABILITIES: ResourceCapabilities = {
   enableAggregations: true,
   enableBatch: true,
@@ -293,12 +422,41 @@ export const getResourceCapabilityInfo = (
   return info;
 };
 
+// Drops `relation=any=(...)` terms, whose fields belong to the related resource
+const stripRelationGroups = (filter: string): string => {
+  const anyRegex = /[a-zA-Z_][a-zA-Z0-9_.]*\s*=any=\s*\(/g;
+  let result = "";
+  let last = 0;
+  let match;
+
+  while ((match = anyRegex.exec(filter)) !== null) {
+    let depth = 1;
+    let i = anyRegex.lastIndex;
+    for (let inString = false; i < filter.length && depth > 0; i++) {
+      const char = filter[i];
+      if (inString) {
+        if (char === "\\") i++;
+        else if (char === '"') inString = false;
+      } else if (char === '"') inString = true;
+      else if (char === "(") depth++;
+      else if (char === ")") depth--;
+    }
+    result += filter.slice(last, match.index);
+    last = anyRegex.lastIndex = i;
+  }
+
+  return result + filter.slice(last);
+};
+
+// Fields of the resource itself; relation paths like `author.name` are left
+// to the related resource's policies
 export const extractFieldsFromFilter = (filter: string): string[] => {
   const fields: string[] = [];
-  const fieldRegex = /([a-zA-Z_][a-zA-Z0-9_]*)\s*(?:==|!=|>=|<=|>|<|=\w+=)/g;
+  const fieldRegex = /(?<![\w.])([a-zA-Z_][a-zA-Z0-9_]*)\s*(?:==|!=|>=|<=|>|<|=\w+=)/g;
+  const ownFilter = stripRelationGroups(filter);
   let match;
 
-  while ((match = fieldRegex.exec(filter)) !== null) {
+  while ((match = fieldRegex.exec(ownFilter)) !== null) {
     if (match[1] && !fields.includes(match[1])) {
       fields.push(match[1]);
     }
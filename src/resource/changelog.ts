@@ -1,9 +1,13 @@
+import * as crypto from "crypto";
 import { ChangelogEntry } from "./types";
 import { getGlobalKV, hasGlobalKV, KVAdapter } from "../kv";
 
 // KV keys
 const CHANGELOG_SEQ_KEY = "concave:changelog:seq";
 const CHANGELOG_ENTRIES_KEY = "concave:changelog:entries";
+const CHANGELOG_EVENTS_CHANNEL = "concave:changelog:events";
+
+export type ChangelogListener = (entry: ChangelogEntry) => void;
 
 export interface ChangelogConfig {
   maxEntries?: number;
@@ -20,6 +24,9 @@ class ChangelogManager {
   private localEntries: ChangelogEntry[] = [];
   private maxEntries: number;
   private onEntryAdded?: (entry: ChangelogEntry) => void;
+  private listeners = new Set<ChangelogListener>();
+  private listeningToKV = false;
+  private readonly instanceId = crypto.randomUUID();
 
   constructor(config: ChangelogConfig = {}) {
     this.maxEntries = config.maxEntries ?? 10000;
@@ -56,6 +63,13 @@ class ChangelogManager {
       if (this.onEntryAdded) {
         this.onEntryAdded(fullEntry);
       }
+      this.notifyListeners(fullEntry);
+
+      // Listeners in other processes sharing the store
+      await kv.publish(
+        CHANGELOG_EVENTS_CHANNEL,
+        JSON.stringify({ origin: this.instanceId, entry: fullEntry })
+      );
 
       return fullEntry;
     } else {
@@ -78,6 +92,7 @@ class ChangelogManager {
       if (this.onEntryAdded) {
         this.onEntryAdded(fullEntry);
       }
+      this.notifyListeners(fullEntry);
 
       return fullEntry;
     }
@@ -105,12 +120,53 @@ class ChangelogManager {
     if (this.onEntryAdded) {
       this.onEntryAdded(fullEntry);
     }
+    this.notifyListeners(fullEntry);
 
     return fullEntry;
   }
 
-  async getEntriesSince(resource: string, sinceSeq: number): Promise<ChangelogEntry[]> {
+  // Calls `listener` with every entry appended from now on, including those
+  // appended by other processes when a KV store is configured
+  async onAppend(listener: ChangelogListener): Promise<() => void> {
+    this.listeners.add(listener);
+
     const kv = getKV();
+    if (kv && !this.listeningToKV) {
+      this.listeningToKV = true;
+      await kv.subscribe(CHANGELOG_EVENTS_CHANNEL, (message) => {
+        try {
+          const { origin, entry } = JSON.parse(message) as { origin: string; entry: ChangelogEntry };
+          if (origin !== this.instanceId) this.notifyListeners(entry);
+        } catch {
+          // Ignore malformed messages
+        }
+      });
+    }
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notifyListeners(entry: ChangelogEntry): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(entry);
+      } catch (error) {
+        console.error("Changelog listener failed:", error);
+      }
+    }
+  }
+
+  // With a tenant, only that tenant's entries of the resource are returned
+  async getEntriesSince(
+    resource: string,
+    sinceSeq: number,
+    tenant?: string
+  ): Promise<ChangelogEntry[]> {
+    const kv = getKV();
+    const matches = (entry: ChangelogEntry) =>
+      entry.resource === resource && (tenant === undefined || entry.tenant === tenant);
 
     if (kv) {
       // Get entries with seq > sinceSeq
@@ -122,10 +178,10 @@ class ChangelogManager {
 
       return entries
         .map((data) => JSON.parse(data) as ChangelogEntry)
-        .filter((entry) => entry.resource === resource);
+        .filter(matches);
     } else {
       return this.localEntries.filter(
-        (entry) => entry.resource === resource && entry.seq > sinceSeq
+        (entry) => matches(entry) && entry.seq > sinceSeq
       );
     }
   }
@@ -284,7 +340,8 @@ export const changelog = new ChangelogManager();
 export const recordCreate = async (
   resource: string,
   objectId: string,
-  object: Record<string, unknown>
+  object: Record<string, unknown>,
+  tenant?: string
 ): Promise<ChangelogEntry> => {
   return changelog.append({
     resource,
@@ -292,6 +349,7 @@ export const recordCreate = async (
     objectId,
     object,
     timestamp: Date.now(),
+    ...(tenant !== undefined && { tenant }),
   });
 };
 
@@ -299,7 +357,8 @@ export const recordUpdate = async (
   resource: string,
   objectId: string,
   object: Record<string, unknown>,
-  previousObject?: Record<string, unknown>
+  previousObject?: Record<string, unknown>,
+  tenant?: string
 ): Promise<ChangelogEntry> => {
   return changelog.append({
     resource,
@@ -308,13 +367,15 @@ export const recordUpdate = async (
     object,
     previousObject,
     timestamp: Date.now(),
+    ...(tenant !== undefined && { tenant }),
   });
 };
 
 export const recordDelete = async (
   resource: string,
   objectId: string,
-  previousObject?: Record<string, unknown>
+  previousObject?: Record<string, unknown>,
+  tenant?: string
 ): Promise<ChangelogEntry> => {
   return changelog.append({
     resource,
@@ -322,6 +383,7 @@ export const recordDelete = async (
     objectId,
     previousObject,
     timestamp: Date.now(),
+    ...(tenant !== undefined && { tenant }),
   });
 };
 
@@ -361,8 +423,8 @@ export const createResourceChangelog = (
         previousObject,
         timestamp: Date.now(),
       }),
-    getEntriesSince: (sinceSeq: number) =>
-      parentChangelog.getEntriesSince(resource, sinceSeq),
+    getEntriesSince: (sinceSeq: number, tenant?: string) =>
+      parentChangelog.getEntriesSince(resource, sinceSeq, tenant),
     getCurrentSequence: () => parentChangelog.getCurrentSequence(),
     needsInvalidation: (sinceSeq: number) =>
       parentChangelog.needsInvalidation(sinceSeq),
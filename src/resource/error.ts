@@ -66,11 +66,13 @@ export class ResourceError extends Error {
 }
 
 export class NotFoundError extends ResourceError {
-  constructor(resource: string, id: string) {
-    super(`${resource} with id '${id}' not found`, 404, "NOT_FOUND", {
-      resource,
-      id,
-    });
+  constructor(resource: string, id?: string) {
+    super(
+      id === undefined ? `${resource} not found` : `${resource} with id '${id}' not found`,
+      404,
+      "NOT_FOUND",
+      { resource, id }
+    );
     this.name = "NotFoundError";
   }
 }
@@ -114,7 +116,7 @@ export class ConflictError extends ResourceError {
 }
 
 export class PreconditionFailedError extends ResourceError {
-  constructor(currentETag?: string, message = "Resource was modified") {
+  constructor(public currentETag?: string, message = "Resource was modified") {
     super(message, 412, "PRECONDITION_FAILED", {
       currentETag,
       suggestion: "Refetch the resource and retry with the new ETag",
@@ -2,6 +2,11 @@ import { createHash } from "crypto";
 import { Response } from "express";
 import { PreconditionFailedError } from "./error";
 
+/**
+ * The ETag is the version field when the item has one, else a hash of the
+ * whole item. `updatedAtField` opts into `<timestamp>-<id>` instead, which
+ * is cheaper but collides for writes within the column's precision.
+ */
 export interface ETagConfig {
   versionField?: string;
   updatedAtField?: string;
@@ -9,12 +14,25 @@ export interface ETagConfig {
   algorithm?: "weak" | "strong";
 }
 
+export interface ResourceETagConfig extends ETagConfig {
+  // Also send each item's ETag as `_etag` on list items and subscription
+  // events. Off by default, so their shape is the stored row's.
+  inline?: boolean;
+}
+
 const DEFAULT_CONFIG: ETagConfig = {
-  updatedAtField: "updatedAt",
   idField: "id",
   algorithm: "weak",
 };
 
+// Key order differs between a row that was selected and one returned by a
+// write, so the hash is taken over the keys sorted
+const hashItem = (item: Record<string, unknown>): string =>
+  createHash("md5")
+    .update(JSON.stringify(Object.keys(item).sort().map((key) => [key, item[key]])))
+    .digest("hex")
+    .slice(0, 16);
+
 export const generateETag = (
   item: Record<string, unknown>,
   config: ETagConfig = DEFAULT_CONFIG
@@ -39,11 +57,7 @@ export const generateETag = (
     const id = idField && item[idField] ? item[idField] : "";
     tag = `${timestamp}-${id}`;
   } else {
-    const hash = createHash("md5")
-      .update(JSON.stringify(item))
-      .digest("hex")
-      .slice(0, 16);
-    tag = hash;
+    tag = hashItem(item);
   }
 
   return algorithm === "weak" ? `W/"${tag}"` : `"${tag}"`;
@@ -211,12 +225,19 @@ export const addETagsToList = <T extends Record<string, unknown>>(
 export type ReturnPreference = "representation" | "minimal";
 
 export const parseReturnPreference = (
-  query: Record<string, unknown>
+  query: Record<string, unknown>,
+  preferHeader?: string
 ): ReturnPreference => {
   const returnParam = query.return as string | undefined;
   if (returnParam === "minimal") {
     return "minimal";
   }
+  if (preferHeader) {
+    const preferences = preferHeader.split(/[,;]/).map((p) => p.trim().toLowerCase());
+    if (preferences.includes("return=minimal")) {
+      return "minimal";
+    }
+  }
   return "representation";
 };
 
@@ -230,6 +251,7 @@ export const handleReturnPreference = (
   res.set("ETag", etag);
 
   if (preference === "minimal") {
+    res.set("Preference-Applied", "return=minimal");
     res.status(204).end();
   } else {
     res.json(item);
@@ -1,4 +1,4 @@
-import { getTableColumns, InferSelectModel } from "drizzle-orm";
+import { getTableColumns, getTableName, InferSelectModel } from "drizzle-orm";
 import {
   and,
   eq,
@@ -13,6 +13,7 @@ import {
 } from "drizzle-orm";
 import { CustomOperator } from "./types";
 import { FilterParseError } from "./error";
+import { RelationConfig } from "./relations";
 
 export interface FilterConfig {
   maxLength?: number;
@@ -174,25 +175,82 @@ const isFalsy = (v: unknown): boolean => {
 
 export interface OperatorDefinition {
   op: string;
-  convert: (lhs: SQLWrapper, rhs: SQLWrapper) => SQLWrapper;
+  // `value` is the right-hand literal, for operators whose SQL depends on it
+  convert: (lhs: SQLWrapper, rhs: SQLWrapper, value?: unknown) => SQLWrapper;
   execute: (lhs: unknown, rhs: unknown) => boolean;
 }
 
+export interface FilterContext {
+  // Read scope of each related resource, keyed by relation path; "*" or a
+  // missing entry leaves it unrestricted and false hides every row
+  relationScopes?: Record<string, string | false>;
+}
+
+// A relation a filter reaches into, with the filter applied to its rows
+export interface RelationReference {
+  path: string;
+  filter: string;
+}
+
 export interface CompiledFilterExpression {
   print(): string;
-  convert(): SQLWrapper;
-  execute(object: Record<string, unknown>): boolean;
+  convert(context?: FilterContext): SQLWrapper;
+  execute(object: Record<string, unknown>, context?: FilterContext): boolean;
+  relations(): RelationReference[];
+}
+
+export interface RelationFilterTarget {
+  compile(expr: string): CompiledFilterExpression;
 }
 
+export interface FilterRelation {
+  config: RelationConfig;
+  // Filter of the related resource, resolved on use since it may be mounted
+  // later; defaults to a plain filter over the related table
+  target?: () => RelationFilterTarget | undefined;
+}
+
+const ANY_OPERATOR = "=any=";
+
+const FALSE_SQL = sql`1 = 0`;
+
+// Scopes of relations nested below `path`, re-keyed relative to it
+const nestedContext = (context: FilterContext | undefined, path: string): FilterContext => {
+  const prefix = `${path}.`;
+  const relationScopes: Record<string, string | false> = {};
+  for (const [key, scope] of Object.entries(context?.relationScopes ?? {})) {
+    if (key.startsWith(prefix)) relationScopes[key.slice(prefix.length)] = scope;
+  }
+  return { relationScopes };
+};
+
 export const createResourceFilter = <TConfig extends TableConfig>(
   schema: Table<TConfig>,
   customOperators: Record<string, CustomOperator> = {},
-  filterConfig: FilterConfig = DEFAULT_FILTER_CONFIG
+  filterConfig: FilterConfig = DEFAULT_FILTER_CONFIG,
+  relations: Record<string, FilterRelation> = {},
+  // Named expressions filters compare instead of the table's columns, e.g.
+  // aggregate aliases in HAVING
+  expressions?: Record<string, SQLWrapper>
 ) => {
   type SchemaType = InferSelectModel<typeof schema>;
 
   const config = { ...DEFAULT_FILTER_CONFIG, ...filterConfig };
 
+  const fallbackTargets = new Map<string, RelationFilterTarget>();
+
+  const resolveTarget = (name: string, relation: FilterRelation): RelationFilterTarget => {
+    const target = relation.target?.();
+    if (target) return target;
+
+    let fallback = fallbackTargets.get(name);
+    if (!fallback) {
+      fallback = createResourceFilter(relation.config.schema);
+      fallbackTargets.set(name, fallback);
+    }
+    return fallback;
+  };
+
   const builtinOperators: OperatorDefinition[] = [
     // LIKE pattern operators (must be before == and != for parsing priority)
     {
@@ -279,8 +337,8 @@ export const createResourceFilter = <TConfig extends TableConfig>(
     // Null check operators
     {
       op: "=isnull=",
-      convert: (lhs, rhs) => {
-        const checkNull = String(rhs).toLowerCase() === "true";
+      convert: (lhs, _rhs, value) => {
+        const checkNull = String(value).toLowerCase() === "true";
         return checkNull ? drizzleIsNull(lhs) : drizzleIsNotNull(lhs);
       },
       execute: (lhs, rhs) => {
@@ -290,8 +348,8 @@ export const createResourceFilter = <TConfig extends TableConfig>(
     },
     {
       op: "=isempty=",
-      convert: (lhs, rhs) => {
-        const checkEmpty = String(rhs).toLowerCase() === "true";
+      convert: (lhs, _rhs, value) => {
+        const checkEmpty = String(value).toLowerCase() === "true";
         if (checkEmpty) {
           return sql`(${lhs} IS NULL OR ${lhs} = '')`;
         }
@@ -515,8 +573,12 @@ export const createResourceFilter = <TConfig extends TableConfig>(
 
   abstract class FilterExpression implements CompiledFilterExpression {
     abstract print(): string;
-    abstract convert(): SQLWrapper;
-    abstract execute(object: SchemaType): boolean;
+    abstract convert(context?: FilterContext): SQLWrapper;
+    abstract execute(object: SchemaType, context?: FilterContext): boolean;
+
+    relations(): RelationReference[] {
+      return [];
+    }
   }
 
   class EmptyFilterExpression extends FilterExpression {
@@ -549,6 +611,14 @@ export const createResourceFilter = <TConfig extends TableConfig>(
     }
 
     convert(): SQLWrapper {
+      if (expressions) {
+        const expression = expressions[this.columnName];
+        if (!expression) {
+          throw new FilterParseError(`Unknown column: ${this.columnName}`);
+        }
+        return expression;
+      }
+
       const columns = getTableColumns(schema);
       if (!(this.columnName in columns)) {
         throw new FilterParseError(`Unknown column: ${this.columnName}`);
@@ -706,7 +776,9 @@ export const createResourceFilter = <TConfig extends TableConfig>(
 
       const lhs = new ColumnFilterValue(this.field).convert();
       const rhs = this.value.convert();
-      return opDef.convert(lhs, rhs);
+      const value =
+        this.value instanceof ColumnFilterValue ? undefined : this.value.execute({} as SchemaType);
+      return opDef.convert(lhs, rhs, value);
     }
 
     execute(object: SchemaType): boolean {
@@ -732,19 +804,23 @@ export const createResourceFilter = <TConfig extends TableConfig>(
       );
     }
 
-    convert(): SQLWrapper {
-      return and(...this.expressions.map((expr) => expr.convert()))!;
+    convert(context?: FilterContext): SQLWrapper {
+      return and(...this.expressions.map((expr) => expr.convert(context)))!;
     }
 
-    execute(object: SchemaType): boolean {
+    execute(object: SchemaType, context?: FilterContext): boolean {
       for (const expr of this.expressions) {
-        if (!expr.execute(object)) {
+        if (!expr.execute(object, context)) {
           return false;
         }
       }
       return true;
     }
 
+    relations(): RelationReference[] {
+      return this.expressions.flatMap((expr) => expr.relations());
+    }
+
     addExpression(expr: FilterExpression) {
       this.expressions.push(expr);
     }
@@ -761,24 +837,100 @@ export const createResourceFilter = <TConfig extends TableConfig>(
       );
     }
 
-    convert(): SQLWrapper {
-      return or(...this.expressions.map((expr) => expr.convert()))!;
+    convert(context?: FilterContext): SQLWrapper {
+      return or(...this.expressions.map((expr) => expr.convert(context)))!;
     }
 
-    execute(object: SchemaType): boolean {
+    execute(object: SchemaType, context?: FilterContext): boolean {
       for (const expr of this.expressions) {
-        if (expr.execute(object)) {
+        if (expr.execute(object, context)) {
           return true;
         }
       }
       return false;
     }
 
+    relations(): RelationReference[] {
+      return this.expressions.flatMap((expr) => expr.relations());
+    }
+
     addExpression(expr: FilterExpression) {
       this.expressions.push(expr);
     }
   }
 
+  // Matches when any related row passes `inner`. Dotted paths and `=any=`
+  // groups both compile to an EXISTS subquery, narrowed by the related
+  // resource's read scope from the context.
+  class RelationFilterExpression extends FilterExpression {
+    constructor(
+      private name: string,
+      private relation: FilterRelation,
+      private inner: CompiledFilterExpression,
+      private innerFilter: string
+    ) {
+      super();
+    }
+
+    print(): string {
+      return `(${this.name} ${ANY_OPERATOR} ${this.inner.print()})`;
+    }
+
+    relations(): RelationReference[] {
+      return [
+        { path: this.name, filter: this.innerFilter },
+        ...this.inner.relations().map((ref) => ({ ...ref, path: `${this.name}.${ref.path}` })),
+      ];
+    }
+
+    private scopeFilter(context?: FilterContext): CompiledFilterExpression | false | null {
+      const scope = context?.relationScopes?.[this.name];
+      if (scope === false) return false;
+      if (!scope || scope === "*") return null;
+      return resolveTarget(this.name, this.relation).compile(scope);
+    }
+
+    convert(context?: FilterContext): SQLWrapper {
+      const scope = this.scopeFilter(context);
+      if (scope === false) return FALSE_SQL;
+
+      const conditions = [
+        this.inner.convert(nestedContext(context, this.name)),
+        ...(scope ? [scope.convert()] : []),
+      ];
+      const { type, schema: target, foreignKey, references, through } = this.relation.config;
+
+      switch (type) {
+        case "belongsTo":
+          return sql`exists (select 1 from ${target} where ${and(eq(references, foreignKey), ...conditions)})`;
+        case "hasOne":
+        case "hasMany":
+          return sql`exists (select 1 from ${target} where ${and(eq(foreignKey, references), ...conditions)})`;
+        case "manyToMany":
+          if (!through) {
+            throw new FilterParseError(`Relation '${this.name}' requires through configuration`);
+          }
+          return sql`exists (select 1 from ${through.schema} inner join ${target} on ${eq(through.targetKey, references)} where ${and(eq(through.sourceKey, foreignKey), ...conditions)})`;
+      }
+    }
+
+    // Reads related rows loaded onto the object: a row or null for to-one
+    // relations, an array for to-many ones
+    execute(object: SchemaType, context?: FilterContext): boolean {
+      const scope = this.scopeFilter(context);
+      if (scope === false) return false;
+
+      const value = (object as Record<string, unknown>)[this.name];
+      const rows = Array.isArray(value) ? value : value == null ? [] : [value];
+      const inner = nestedContext(context, this.name);
+
+      return rows.some(
+        (row: Record<string, unknown>) =>
+          (!scope || scope.execute(row)) && this.inner.execute(row, inner)
+      );
+    }
+  }
+
   const skipWhitespace = (string: string): string => {
     return string.replace(/^\s+/, "");
   };
@@ -804,8 +956,13 @@ export const createResourceFilter = <TConfig extends TableConfig>(
       throw new FilterParseError("Invalid identifier start");
     }
 
+    // Dots separate relation names from the related resource's fields
     let i = 1;
-    while (i < expression.length && isAlNum(expression[i] ?? "")) {
+    while (
+      i < expression.length &&
+      (isAlNum(expression[i] ?? "") ||
+        (expression[i] === "." && isAlpha(expression[i + 1] ?? "")))
+    ) {
       i++;
     }
     const identifier = expression.slice(0, i);
@@ -1196,6 +1353,10 @@ export const createResourceFilter = <TConfig extends TableConfig>(
       parseIdentifier(expression);
     expression = skipWhitespace(remAfterIdent);
 
+    if (identifier.includes(".") || expression.startsWith(ANY_OPERATOR)) {
+      return parseRelationTerm(identifier, expression);
+    }
+
     if (config.allowedFields && !config.allowedFields.includes(identifier)) {
       throw new FilterParseError(`Field '${identifier}' is not filterable`, {
         allowedFields: config.allowedFields,
@@ -1215,6 +1376,104 @@ export const createResourceFilter = <TConfig extends TableConfig>(
     return { expr: newExpr, remaining: expression };
   };
 
+  // Text of a parenthesised group, up to its matching parenthesis
+  const parseGroup = (
+    expression: string
+  ): { group: string; remaining: string } => {
+    expression = skipWhitespace(expression);
+    if (expression[0] !== "(") {
+      throw new FilterParseError(`Expected a parenthesised filter after ${ANY_OPERATOR}`);
+    }
+
+    let depth = 0;
+    let inString = false;
+    for (let i = 0; i < expression.length; i++) {
+      const char = expression[i];
+      if (inString) {
+        if (char === "\\") i++;
+        else if (char === '"') inString = false;
+      } else if (char === '"') {
+        inString = true;
+      } else if (char === "(") {
+        depth++;
+      } else if (char === ")" && --depth === 0) {
+        return { group: expression.slice(1, i), remaining: expression.slice(i + 1) };
+      }
+    }
+
+    throw new FilterParseError("Unterminated parenthesis in filter expression");
+  };
+
+  // `author.name=="Ada"` filters on the related row's field, and
+  // `comments=any=(status=="flagged")` on a whole filter over related rows.
+  // The rest of the term is compiled by the related resource's filter.
+  const parseRelationTerm = (
+    identifier: string,
+    expression: string
+  ): { expr: FilterExpression; remaining: string } => {
+    const dot = identifier.indexOf(".");
+    const name = dot === -1 ? identifier : identifier.slice(0, dot);
+    const relation = relations[name];
+
+    if (!relation) {
+      throw new FilterParseError(`Unknown relation: ${name}`, {
+        suggestion: Object.keys(relations).length > 0
+          ? `Available relations: ${Object.keys(relations).join(", ")}`
+          : undefined,
+      });
+    }
+    if (!relation.config.filterable) {
+      throw new FilterParseError(`Relation '${name}' is not filterable`, {
+        suggestion: "Set filterable: true in the relation config",
+      });
+    }
+    // Both sides of the subquery would name the same table
+    if (getTableName(relation.config.schema) === getTableName(schema)) {
+      throw new FilterParseError(`Relation '${name}' refers to its own table and cannot be filtered on`);
+    }
+    if (
+      config.allowedFields &&
+      !config.allowedFields.includes(identifier) &&
+      !config.allowedFields.includes(name)
+    ) {
+      throw new FilterParseError(`Field '${identifier}' is not filterable`, {
+        allowedFields: config.allowedFields,
+      });
+    }
+
+    let innerFilter: string;
+    let remaining: string;
+
+    if (dot === -1) {
+      if (config.allowedOperators && !config.allowedOperators.includes(ANY_OPERATOR)) {
+        throw new FilterParseError(`Operator '${ANY_OPERATOR}' is not allowed`, {
+          allowedOperators: config.allowedOperators,
+        });
+      }
+      ({ group: innerFilter, remaining } = parseGroup(expression.slice(ANY_OPERATOR.length)));
+    } else {
+      // Only the extent of the operation is parsed here
+      if (expression.startsWith(ANY_OPERATOR)) {
+        ({ remaining } = parseGroup(expression.slice(ANY_OPERATOR.length)));
+      } else {
+        const { remaining: remAfterOp } = parseOperatorWithValidation(
+          expression,
+          config.allowedOperators
+        );
+        ({ remaining } = parseValue(remAfterOp));
+      }
+      innerFilter =
+        identifier.slice(dot + 1) + expression.slice(0, expression.length - remaining.length);
+    }
+
+    const inner = resolveTarget(name, relation).compile(innerFilter);
+
+    return {
+      expr: new RelationFilterExpression(name, relation, inner, innerFilter),
+      remaining: skipWhitespace(remaining),
+    };
+  };
+
   const parseAndWithContext = (
     expression: string,
     ctx: ParserContext,
@@ -1374,13 +1633,13 @@ export const createResourceFilter = <TConfig extends TableConfig>(
     compile: (expr: string): CompiledFilterExpression => {
       return getCompiledFilter(expr);
     },
-    convert: (expr: string): SQLWrapper => {
+    convert: (expr: string, context?: FilterContext): SQLWrapper => {
       const filter = getCompiledFilter(expr);
-      return filter.convert();
+      return filter.convert(context);
     },
-    execute: (expr: string, object: SchemaType): boolean => {
+    execute: (expr: string, object: SchemaType, context?: FilterContext): boolean => {
       const filter = getCompiledFilter(expr);
-      return filter.execute(object);
+      return filter.execute(object, context);
     },
     clearCache: () => {
       filterCache.clear();
@@ -10,6 +10,9 @@ import {
   and,
   getTableColumns,
   inArray,
+  isNull,
+  or,
+  sql,
 } from "drizzle-orm";
 import { Request, Response, Router, type IRouter } from "express";
 import { createInsertSchema, createUpdateSchema } from "drizzle-zod";
@@ -17,13 +20,22 @@ import { AnyColumn } from "drizzle-orm";
 import z, { ZodError } from "zod";
 import { v4 as uuidv4 } from "uuid";
 
-import { createResourceFilter } from "./filter";
+import {
+  createResourceFilter,
+  DEFAULT_FILTER_CONFIG,
+  FilterRelation,
+  RelationFilterTarget,
+} from "./filter";
 import { recordCreate, recordUpdate, recordDelete, changelog } from "./changelog";
 import {
   createSubscription,
   removeSubscription,
   registerHandler,
   unregisterHandler,
+  registerSubscriptionEndpoint,
+  createSSESink,
+  BackpressureOptions,
+  SubscriptionEndpoint,
   pushInsertsToSubscriptions,
   pushUpdatesToSubscriptions,
   pushDeletesToSubscriptions,
@@ -32,6 +44,7 @@ import {
   isHandlerConnected,
   getHandlerSubscriptions,
   registerKnownIds,
+  registerRelationDependent,
 } from "./subscription";
 import {
   createPagination,
@@ -43,10 +56,12 @@ import {
   parseSelect,
   applyProjection,
   parseAggregationParams,
-  buildAggregationSelections,
-  transformAggregationResults,
+  aggregationMetricFields,
+  executeAggregation,
   createQueryHelper,
+  ParsedAggregationParams,
 } from "./query";
+import { openLiveAggregate } from "./live-aggregate";
 import {
   executeProcedure,
   executeBeforeCreate,
@@ -55,8 +70,10 @@ import {
   executeAfterUpdate,
   executeBeforeDelete,
   executeAfterDelete,
+  getWriteEffects,
 } from "./procedures";
 import { trackMutations, isTrackedDb } from "./track-mutations";
+import { runInTransaction } from "./mutate";
 import {
   ResourceConfig,
   CustomOperator,
@@ -64,35 +81,77 @@ import {
   LifecycleHooks,
   UserContext,
   ProcedureContext,
+  DrizzleDatabase,
   DrizzleTransaction,
   ResourceSearchConfig,
+  FieldPolicies,
+  FieldPoliciesResolver,
+  HiddenFieldsMap,
+  AggregationResult,
 } from "./types";
+import {
+  FieldAccess,
+  createFieldAccess,
+  getHiddenFields,
+  getSchemaColumns,
+  redactHiddenFields,
+  resolveFieldPolicies,
+  validateFilterFields,
+} from "./capabilities";
 import { createSearchHandler } from "./search";
+import {
+  ETagConfig,
+  generateETag,
+  handleConditionalGet,
+  checkConditionalWrite,
+  parseReturnPreference,
+} from "./etag";
 import { hasGlobalSearch, getGlobalSearch } from "@/search";
+import { getGlobalKV, hasGlobalKV, KVAdapter } from "@/kv";
 import {
   NotFoundError,
   ValidationError,
   BatchLimitError,
+  PreconditionFailedError,
+  ForbiddenError,
+  RateLimitError,
   ResourceError,
+  ConflictError,
   formatZodError,
 } from "./error";
 import { createScopeResolver, combineScopes, Operation } from "@/auth/scope";
 import { AuthenticatedRequest } from "@/auth/types";
-import { createRateLimiter, createOperationRateLimiter } from "@/middleware/rateLimit";
+import {
+  createRateLimiter,
+  createOperationRateLimiter,
+  defaultKeyGenerator,
+} from "@/middleware/rateLimit";
 import { asyncHandler } from "@/middleware/error";
+import { ObservableRequest } from "@/middleware/observability";
 import {
   parseInclude,
+  IncludeSpec,
   RelationLoader,
+  RelationConfig,
   RelationsConfig,
   IncludeConfig,
 } from "./relations";
+import {
+  splitNestedWrites,
+  columnKeyOf,
+  AfterCommit,
+  NestedWrite,
+  NestedWriteTarget,
+} from "./nested-writes";
 import { registerResourceSchema, setResourceMountPath } from "@/ui/schema-registry";
+import { tenantFromUser, tenantIndexName, tenantKey, tenantKV } from "./tenant";
 
 const DEFAULT_BATCH_LIMITS = {
   create: 100,
   update: 100,
   replace: 100,
   delete: 100,
+  upsert: 100,
 };
 
 const DEFAULT_PAGINATION = {
@@ -102,7 +161,15 @@ const DEFAULT_PAGINATION = {
 
 const resourceRegistry = new Map<
   string,
-  { schema: Table<TableConfig>; config: { relations?: RelationsConfig } }
+  {
+    schema: Table<TableConfig>;
+    config: { relations?: RelationsConfig; fields?: FieldPolicies | FieldPoliciesResolver };
+    filter?: RelationFilterTarget;
+    // What the caller may read of this resource when another resource
+    // filters on it through a relation; false when nothing
+    readScope?: (req: Request) => Promise<string | false>;
+    nestedWrite?: NestedWriteTarget;
+  }
 >();
 
 export const getResourceRegistry = () => resourceRegistry;
@@ -117,7 +184,7 @@ export const useResource = <TConfig extends TableConfig>(
 
   resourceRegistry.set(resourceName, {
     schema: schema as Table<TableConfig>,
-    config: { relations: config.relations as RelationsConfig | undefined },
+    config: { relations: config.relations as RelationsConfig | undefined, fields: config.fields },
   });
 
   // Default capabilities: all enabled unless explicitly disabled
@@ -130,6 +197,9 @@ export const useResource = <TConfig extends TableConfig>(
     enableBatch: config.capabilities?.enableBatch ?? !!config.batch,
   };
 
+  const searchEnabled = config.search?.enabled !== false && hasGlobalSearch();
+  const searchIndexName = config.search?.indexName ?? resourceName;
+
   registerResourceSchema(resourceName, schema as Table<TableConfig>, db, config.id, {
     relations: config.relations as RelationsConfig | undefined,
     auth: config.auth,
@@ -138,7 +208,11 @@ export const useResource = <TConfig extends TableConfig>(
     sseEnabled: !!config.sse,
     procedures: config.procedures ? Object.keys(config.procedures) : undefined,
     generatedFields: config.generatedFields,
-    fields: config.fields,
+    fields: typeof config.fields === "function" ? undefined : config.fields,
+    fieldPolicies: config.fields,
+    search: searchEnabled ? { ...config.search, indexName: searchIndexName } : undefined,
+    tenantColumn: config.tenant?.column,
+    softDeleteColumn: config.softDelete?.column,
   });
 
   const relationLoader = config.relations
@@ -151,12 +225,29 @@ export const useResource = <TConfig extends TableConfig>(
       )
     : null;
 
+  // Relations a filter reaches into are loaded whole, without the include
+  // limit, so subscriptions decide relevance on the rows SQL would see
+  const filterRelationLoader = config.relations
+    ? new RelationLoader(
+        db,
+        schema as Table<TableConfig>,
+        config.relations as RelationsConfig<TableConfig>,
+        resourceRegistry,
+        { maxDepth: config.include?.maxDepth }
+      )
+    : null;
+
   // Create a subscription relation loader for pushing updates with relations
   const subscriptionRelationLoader = relationLoader
-    ? async <T extends Record<string, unknown>>(items: T[], include: string): Promise<T[]> => {
+    ? async <T extends Record<string, unknown>>(
+        items: T[],
+        include: string,
+        purpose: "include" | "filter" = "include"
+      ): Promise<T[]> => {
         const includeSpecs = parseInclude(include);
         if (includeSpecs.length === 0) return items;
-        return relationLoader.loadRelationsForItems(items, includeSpecs, idColumnName) as Promise<T[]>;
+        const loader = purpose === "filter" ? filterRelationLoader! : relationLoader;
+        return loader.loadRelationsForItems(items, includeSpecs, idColumnName) as Promise<T[]>;
       }
     : undefined;
 
@@ -165,14 +256,30 @@ export const useResource = <TConfig extends TableConfig>(
   // Capture mount path on first request for OpenAPI auto-discovery
   let mountPathCaptured = false;
   router.use((req, _res, next) => {
+    (req as ObservableRequest).resource = resourceName;
     if (!mountPathCaptured) {
       setResourceMountPath(resourceName, req.baseUrl);
+      subscriptionEndpoint.mountPath = req.baseUrl;
       mountPathCaptured = true;
     }
     next();
   });
 
-  const filterer = createResourceFilter(schema, config.customOperators ?? {});
+  // Relation filters compile against the related resource's own filter, so
+  // its custom operators and relations apply there too
+  const filterRelations: Record<string, FilterRelation> = Object.fromEntries(
+    Object.entries((config.relations ?? {}) as RelationsConfig).map(([name, relation]) => [
+      name,
+      { config: relation, target: () => resourceRegistry.get(relation.resource)?.filter },
+    ])
+  );
+
+  const filterer = createResourceFilter(
+    schema,
+    config.customOperators ?? {},
+    DEFAULT_FILTER_CONFIG,
+    filterRelations
+  );
 
   const pagination = createPagination(
     schema,
@@ -182,7 +289,16 @@ export const useResource = <TConfig extends TableConfig>(
 
   const queryHelper = createQueryHelper(schema);
 
-  const scopeResolver = createScopeResolver(config.auth, resourceName);
+  // Config refers to columns by object; writes and RSQL need their property keys
+  const columnKeys = new Map(
+    Object.entries(getTableColumns(schema) as Record<string, AnyColumn>).map(
+      ([key, column]) => [column, key] as const
+    )
+  );
+
+  const tenantColumnKey = config.tenant ? columnKeys.get(config.tenant.column) : undefined;
+
+  const scopeResolver = createScopeResolver(config.auth, resourceName, tenantColumnKey);
 
   const baseInsertSchema = createInsertSchema(schema);
   const updateSchema = createUpdateSchema(schema);
@@ -234,15 +350,217 @@ export const useResource = <TConfig extends TableConfig>(
   const hooks = config.hooks;
   const procedures = config.procedures ?? {};
 
+  const getUser = (req: Request): UserContext | null => {
+    return (req as AuthenticatedRequest).user ?? null;
+  };
+
+  // The tenant is resolved once per request. A request without one passes
+  // through here and fails in the scope resolver, so routes that never touch
+  // scopes (procedures) stay reachable.
+  const tenantResolver = config.tenant?.resolve ?? tenantFromUser();
+  const tenantByRequest = new WeakMap<Request, Promise<string | undefined>>();
+  const resolvedTenants = new WeakMap<Request, string>();
+
+  const resolveTenant = async (req: Request): Promise<string | undefined> => {
+    const user = getUser(req);
+    const tenant = (await tenantResolver(user, req)) || undefined;
+    if (!tenant) return undefined;
+
+    // A tenant the caller does not belong to is indistinguishable from none
+    if (config.tenant?.authorize && !(await config.tenant.authorize(user, tenant))) {
+      throw new NotFoundError(resourceName);
+    }
+
+    resolvedTenants.set(req, tenant);
+    return tenant;
+  };
+
+  const getTenant = (req: Request): Promise<string | undefined> => {
+    if (!config.tenant) return Promise.resolve(undefined);
+
+    let tenant = tenantByRequest.get(req);
+    if (!tenant) {
+      tenant = resolveTenant(req);
+      tenantByRequest.set(req, tenant);
+    }
+    return tenant;
+  };
+
+  // Rows always belong to the caller's tenant, whatever the body says
+  const withTenantColumn = async <T>(req: Request, data: T): Promise<T> => {
+    if (!tenantColumnKey || !data || typeof data !== "object") return data;
+    return { ...data, [tenantColumnKey]: await getTenant(req) };
+  };
+
   const rateLimitMiddleware = config.rateLimit
     ? createRateLimiter({
         windowMs: config.rateLimit.windowMs ?? 60000,
         maxRequests: config.rateLimit.maxRequests ?? 100,
+        ...(config.tenant && {
+          keyGenerator: (req: Request) => {
+            const tenant = resolvedTenants.get(req);
+            const key = defaultKeyGenerator(req);
+            return tenant ? tenantKey(tenant, key) : key;
+          },
+        }),
       })
     : null;
 
-  const getUser = (req: Request): UserContext | null => {
-    return (req as AuthenticatedRequest).user ?? null;
+  const schemaColumns = getSchemaColumns(schema);
+
+  // Field policies may depend on the user, so they are resolved once per request
+  const fieldAccessByRequest = new WeakMap<Request, Promise<FieldAccess>>();
+
+  const getFieldAccess = (req: Request): Promise<FieldAccess> => {
+    let access = fieldAccessByRequest.get(req);
+    if (!access) {
+      access = resolveFieldPolicies(config.fields, getUser(req)).then((policies) =>
+        createFieldAccess(policies, schemaColumns)
+      );
+      fieldAccessByRequest.set(req, access);
+    }
+    return access;
+  };
+
+  // Hidden columns of this resource and of every included relation, each
+  // resolved against the related resource's own policies
+  const resolveHiddenFields = async (
+    req: Request,
+    includeSpecs: IncludeSpec[]
+  ): Promise<HiddenFieldsMap> => {
+    const user = getUser(req);
+    const hiddenFields: HiddenFieldsMap = { "": (await getFieldAccess(req)).hidden };
+
+    const visit = async (
+      specs: IncludeSpec[],
+      relations: RelationsConfig | undefined,
+      prefix: string
+    ): Promise<void> => {
+      for (const spec of specs) {
+        const relation = relations?.[spec.relation];
+        if (!relation) continue;
+
+        const target = resourceRegistry.get(relation.resource);
+        const path = prefix ? `${prefix}.${spec.relation}` : spec.relation;
+        const policies = await resolveFieldPolicies(target?.config.fields, user);
+        hiddenFields[path] = getHiddenFields(policies, getSchemaColumns(relation.schema));
+
+        if (spec.nested) {
+          await visit(spec.nested, target?.config.relations, path);
+        }
+      }
+    };
+
+    await visit(includeSpecs, config.relations as RelationsConfig | undefined, "");
+    return hiddenFields;
+  };
+
+  const etagConfig: ETagConfig = { idField: idColumnName, ...config.etag };
+  const versionColumn = etagConfig.versionField
+    ? (getTableColumns(schema) as Record<string, AnyColumn>)[etagConfig.versionField]
+    : undefined;
+
+  const etagOf = (item: Record<string, unknown>): string => generateETag(item, etagConfig);
+
+  // List items and subscription events carry `_etag` only when asked to
+  const inlineETags = config.etag?.inline ?? false;
+  const withETag = <T extends Record<string, unknown>>(item: T): T & { _etag?: string } =>
+    inlineETags ? { ...item, _etag: etagOf(item) } : item;
+
+  // Rejects writes whose If-Match does not match the current row
+  const requireIfMatch = (req: Request, existing: Record<string, unknown>): void => {
+    const { shouldProceed, currentETag } = checkConditionalWrite(
+      req.headers["if-match"],
+      existing,
+      etagConfig
+    );
+    if (!shouldProceed) {
+      throw new PreconditionFailedError(currentETag);
+    }
+  };
+
+  // Writes compare-and-swap on what the ETag is computed from, so two
+  // concurrent requests carrying the same If-Match cannot both succeed. A
+  // version column is always guarded; otherwise the guard only applies to
+  // writes that sent an If-Match, and covers the updatedAt column when the
+  // ETag is configured to come from it, or else the whole row it hashes.
+  const withETagGuard = (
+    req: Request,
+    filter: SQL<unknown> | undefined,
+    existing: Record<string, unknown>
+  ): SQL<unknown> | undefined => {
+    let guard: SQL<unknown> | undefined;
+    if (versionColumn && etagConfig.versionField) {
+      guard = eq(versionColumn, existing[etagConfig.versionField] as any);
+    } else {
+      const ifMatch = req.headers["if-match"];
+      if (!ifMatch || ifMatch === "*") return filter;
+
+      const columns = getTableColumns(schema) as Record<string, AnyColumn>;
+      const { updatedAtField } = etagConfig;
+      const guarded =
+        updatedAtField && existing[updatedAtField] && columns[updatedAtField]
+          ? [updatedAtField]
+          : Object.keys(columns);
+
+      guard = and(
+        ...guarded.map((key) => {
+          const column = columns[key]!;
+          const value = existing[key];
+          if (value === null || value === undefined) return isNull(column);
+          // Postgres has no equality operator for json
+          if (column.columnType === "PgJson") {
+            return sql`${column}::jsonb = ${JSON.stringify(value)}::jsonb`;
+          }
+          return eq(column, value);
+        })
+      );
+    }
+    return filter ? and(filter, guard) : guard;
+  };
+
+  const bumpVersion = <T extends Record<string, unknown>>(
+    data: T,
+    existing: Record<string, unknown>
+  ): T => {
+    if (!versionColumn || !etagConfig.versionField) return data;
+    const current = Number(existing[etagConfig.versionField] ?? 0);
+    return { ...data, [etagConfig.versionField]: current + 1 };
+  };
+
+  // A write that matched no row after passing the If-Match check lost a race
+  const throwLostUpdate = async (
+    conn: DrizzleDatabase,
+    id: string,
+    filter: SQL<unknown> | undefined
+  ): Promise<never> => {
+    const [current] = (await conn.select().from(schema).where(filter)) as Record<string, unknown>[];
+    if (!current) {
+      throw new NotFoundError(resourceName, id);
+    }
+    throw new PreconditionFailedError(etagOf(current));
+  };
+
+  const sendItem = (
+    req: Request,
+    res: Response,
+    item: Record<string, unknown>,
+    status = 200,
+    body: unknown = item
+  ): void => {
+    res.set("ETag", etagOf(item));
+
+    const preference = parseReturnPreference(
+      req.query as Record<string, unknown>,
+      req.get("prefer")
+    );
+    if (preference === "minimal") {
+      res.set("Preference-Applied", "return=minimal");
+      res.status(status === 201 ? 201 : 204).end();
+      return;
+    }
+
+    res.status(status).json(body);
   };
 
   // Create a tracked db for procedures if not already tracked
@@ -253,31 +571,457 @@ export const useResource = <TConfig extends TableConfig>(
         [resourceName]: { table: schema, id: config.id },
       });
 
-  const createProcedureContext = (req: Request): ProcedureContext<TConfig> => ({
-    db: trackedDb,
-    schema,
-    user: getUser(req),
-    req,
-  });
+  // Handlers of a tenant-scoped resource only see their tenant's KV keys
+  const handlerKV = (tenant: string | undefined): KVAdapter | undefined => {
+    if (!hasGlobalKV()) return undefined;
+    const kv = getGlobalKV();
+    return tenant ? tenantKV(kv, tenant) : kv;
+  };
+
+  const createProcedureContext = (req: Request): ProcedureContext<TConfig> => {
+    const tenant = resolvedTenants.get(req);
+    return {
+      db: trackedDb,
+      schema,
+      user: getUser(req),
+      req,
+      tenant,
+      kv: handlerKV(tenant),
+    };
+  };
+
+  // Hooks of a transactional resource write through the same transaction
+  const createWriteContext = (req: Request, tx: DrizzleTransaction): ProcedureContext<TConfig> =>
+    config.transactional ? { ...createProcedureContext(req), db: tx } : createProcedureContext(req);
+
+  // Runs the read-modify-write of a single-item route. With `transactional`, the
+  // reads, the write and the lifecycle hooks share one transaction; callers record
+  // the changelog and push to subscriptions only after this resolves (i.e. commits).
+  // Nested writes always run in a transaction, hooks of every resource included.
+  const runWrite = async <R>(
+    req: Request,
+    fn: (
+      conn: DrizzleDatabase,
+      ctx: ProcedureContext<TConfig>,
+      afterCommit: AfterCommit
+    ) => Promise<R>,
+    writes: NestedWrite[] = []
+  ): Promise<R> => {
+    if (writes.length > 0) {
+      return runInTransaction(db, ({ tx, afterCommit }) =>
+        fn(tx, { ...createProcedureContext(req), db: tx }, afterCommit)
+      );
+    }
+    if (config.transactional) {
+      return runInTransaction(db, ({ tx, afterCommit }) =>
+        fn(tx, createWriteContext(req, tx), afterCommit)
+      );
+    }
+
+    const callbacks: Array<() => Promise<void> | void> = [];
+    const result = await fn(db, createProcedureContext(req), (cb) => callbacks.push(cb));
+    for (const cb of callbacks) {
+      await cb();
+    }
+    return result;
+  };
+
+  const softDeleteKey = config.softDelete ? columnKeys.get(config.softDelete.column) : undefined;
+
+  const joinFilters = (...filters: (string | undefined)[]): string =>
+    filters
+      .filter((f): f is string => !!f)
+      .map((f, _, all) => (all.length > 1 ? `(${f})` : f))
+      .join(";");
 
+  // RSQL clause that hides soft-deleted rows. Reads may opt into them with
+  // ?withDeleted=true, limited to what the caller's `withDeleted` scope allows;
+  // restore is the one write that only ever targets deleted rows.
+  const resolveDeletedFilter = async (
+    req: Request,
+    operation: Operation
+  ): Promise<string | undefined> => {
+    if (!softDeleteKey) return undefined;
+
+    if (operation === "restore") {
+      return `${softDeleteKey}=isnull=false`;
+    }
+
+    const notDeleted = `${softDeleteKey}=isnull=true`;
+    if ((operation !== "read" && operation !== "subscribe") || req.query.withDeleted !== "true") {
+      return notDeleted;
+    }
+
+    const scope = (
+      await scopeResolver.requirePermission("withDeleted", getUser(req), await getTenant(req))
+    ).toString();
+    return scope === "*" ? undefined : `${notDeleted},(${scope})`;
+  };
+
+  // Relation a filter path like `author.organization` ends at, with the
+  // related resource's registry entry when it is mounted
+  const resolveRelationPath = (path: string) => {
+    let relations = config.relations as RelationsConfig | undefined;
+    let relation: RelationConfig | undefined;
+
+    for (const name of path.split(".")) {
+      relation = relations?.[name];
+      if (!relation) return undefined;
+      relations = resourceRegistry.get(relation.resource)?.config.relations;
+    }
+
+    return relation && { relation, target: resourceRegistry.get(relation.resource) };
+  };
+
+  // A user filter may only name fields the caller can filter on, here and
+  // in every related resource it reaches into
+  const checkFilterAccess = async (req: Request, filter: string | undefined): Promise<void> => {
+    (await getFieldAccess(req)).checkFilter(filter);
+    if (!filter) return;
+
+    const user = getUser(req);
+    for (const { path, filter: relationFilter } of filterer.compile(filter).relations()) {
+      const resolved = resolveRelationPath(path);
+      if (!resolved) continue;
+
+      const policies = await resolveFieldPolicies(resolved.target?.config.fields, user);
+      if (policies) {
+        validateFilterFields(relationFilter, policies, getSchemaColumns(resolved.relation.schema));
+      }
+    }
+  };
+
+  // Read scope of every related resource a filter reaches into, keyed by
+  // relation path, so relation filters only see rows the caller may read
+  const resolveRelationScopes = async (
+    req: Request,
+    filterExpr: string
+  ): Promise<Record<string, string | false>> => {
+    const scopes: Record<string, string | false> = {};
+    if (!filterExpr) return scopes;
+
+    for (const { path } of filterer.compile(filterExpr).relations()) {
+      const readScope = resolveRelationPath(path)?.target?.readScope;
+      scopes[path] = readScope ? await readScope(req) : "*";
+    }
+    return scopes;
+  };
+
+  // `deletedOperation` picks which rows soft delete leaves in reach, for a
+  // scope checked against a row another operation targets
   const applyFilters = async (
     req: Request,
     operation: Operation,
-    additionalFilter?: string
+    additionalFilter?: string,
+    deletedOperation: Operation = operation
   ): Promise<SQL<unknown> | undefined> => {
     const user = getUser(req);
-    const scope = await scopeResolver.resolve(operation, user);
+    const scope = await scopeResolver.resolve(operation, user, await getTenant(req));
+
+    if (!additionalFilter) {
+      await checkFilterAccess(req, req.query.filter?.toString());
+    }
 
     const filterQuery = additionalFilter ?? req.query.filter?.toString() ?? "";
     const combinedFilter = combineScopes(scope, filterQuery);
+    const scopedFilter =
+      combinedFilter === "" || combinedFilter === "*" ? filterQuery : combinedFilter;
+
+    const filterExpr = joinFilters(scopedFilter, await resolveDeletedFilter(req, deletedOperation));
+    if (!filterExpr) return undefined;
+
+    const relationScopes = await resolveRelationScopes(req, filterExpr);
+    return filterer.convert(filterExpr, { relationScopes }) as SQL<unknown>;
+  };
 
-    if (combinedFilter === "" || combinedFilter === "*") {
-      return filterQuery ? (filterer.convert(filterQuery) as SQL<unknown>) : undefined;
+  const readScopeForRelations = async (req: Request): Promise<string | false> => {
+    try {
+      const scope = await scopeResolver.resolve("read", getUser(req), await getTenant(req));
+      if (scope.isEmpty()) return false;
+      const notDeleted = softDeleteKey ? `${softDeleteKey}=isnull=true` : undefined;
+      return joinFilters(scope.toString() !== "*" ? scope.toString() : undefined, notDeleted) || "*";
+    } catch (error) {
+      // A caller who may not read this resource sees no related rows
+      if (error instanceof ResourceError) return false;
+      throw error;
+    }
+  };
+
+  resourceRegistry.set(resourceName, {
+    ...resourceRegistry.get(resourceName)!,
+    filter: filterer,
+    readScope: readScopeForRelations,
+  });
+
+  // Rows of this resource that changed related rows belong to
+  const resolveRelatedParents = async (
+    relation: RelationConfig,
+    rows: Record<string, unknown>[]
+  ): Promise<Record<string, unknown>[]> => {
+    const valuesOf = (column: AnyColumn): unknown[] => {
+      const key = columnKeyOf(relation.schema, column);
+      return [...new Set(rows.map((row) => row[key]).filter((value) => value != null))];
+    };
+
+    switch (relation.type) {
+      case "belongsTo": {
+        const values = valuesOf(relation.references);
+        if (values.length === 0) return [];
+        return db.select().from(schema).where(inArray(relation.foreignKey, values));
+      }
+      case "hasOne":
+      case "hasMany": {
+        const values = valuesOf(relation.foreignKey);
+        if (values.length === 0) return [];
+        return db.select().from(schema).where(inArray(relation.references, values));
+      }
+      case "manyToMany": {
+        const values = valuesOf(relation.references);
+        if (values.length === 0 || !relation.through) return [];
+        return db
+          .select(getTableColumns(schema))
+          .from(schema)
+          .innerJoin(relation.through.schema, eq(relation.through.sourceKey, relation.foreignKey))
+          .where(inArray(relation.through.targetKey, values));
+      }
+    }
+  };
+
+  for (const [name, relation] of Object.entries((config.relations ?? {}) as RelationsConfig)) {
+    if (!relation.subscribeToChanges) continue;
+
+    registerRelationDependent({
+      resource: resourceName,
+      relation: name,
+      target: relation.resource,
+      debounceMs:
+        typeof relation.subscribeToChanges === "object"
+          ? relation.subscribeToChanges.debounceMs
+          : undefined,
+      filter: filterer as any,
+      idColumn: idColumnName,
+      relationLoader: subscriptionRelationLoader,
+      resolveParents: (rows) => resolveRelatedParents(relation, rows),
+    });
+  }
+
+  // Soft delete and restore are updates of the deleted-at column, so subscribers
+  // see `removed`/`added` as rows leave or re-enter their (not-deleted) filter
+  const pushSoftDeleteChanges = async (
+    items: Record<string, unknown>[],
+    previousItems: Record<string, unknown>[],
+    tenant: string | undefined
+  ): Promise<void> => {
+    const previousMap = new Map<string, Record<string, unknown>>();
+    for (const item of previousItems) {
+      previousMap.set(String(item[idColumnName]), item);
+    }
+    await pushUpdatesToSubscriptions(
+      resourceName,
+      filterer as any,
+      items.map((item) => withETag(item)),
+      idColumnName,
+      previousMap,
+      subscriptionRelationLoader,
+      tenant
+    );
+  };
+
+  const upsertTarget = config.upsert?.target ?? [config.id];
+  const upsertTargetKeys = upsertTarget.map((column) => columnKeys.get(column) ?? column.name);
+
+  const upsertMatch = (row: Record<string, unknown>): SQL<unknown> => {
+    const missing = upsertTargetKeys.filter((key) => row[key] === undefined || row[key] === null);
+    if (missing.length > 0) {
+      throw new ValidationError(
+        "Validation failed",
+        missing.map((key) => ({ field: key, message: "Required for upsert" }))
+      );
+    }
+    return and(...upsertTarget.map((column, i) => eq(column, row[upsertTargetKeys[i]!] as any)))!;
+  };
+
+  // Filter an upsert has to pass to write over an existing row: the update
+  // scope, and for a soft-deleted row the restore scope as well, since the
+  // upsert revives it. Without `deleted` (no row was seen) either applies,
+  // depending on the row a concurrent insert leaves behind.
+  const upsertScope = async (
+    req: Request,
+    by: string,
+    deleted?: boolean
+  ): Promise<SQL<unknown> | undefined> => {
+    const update = () => applyFilters(req, "update", by);
+    const revive = async () =>
+      and(await applyFilters(req, "restore", by), await applyFilters(req, "update", by, "restore"));
+
+    if (!softDeleteKey || deleted === false) return update();
+    if (deleted) return revive();
+    return or(await update(), await revive());
+  };
+
+  // Columns an upsert never overwrites on an existing row
+  const upsertFixedKeys = new Set(
+    [...upsertTargetKeys, idColumnName, tenantColumnKey, etagConfig.versionField].filter(
+      (key): key is string => key !== undefined
+    )
+  );
+
+  const upsertSet = (
+    data: Record<string, unknown>,
+    input: Record<string, unknown>
+  ): Record<string, unknown> => {
+    const set: Record<string, unknown> = Object.fromEntries(
+      Object.entries(data).filter(([key]) => !upsertFixedKeys.has(key))
+    );
+    if (softDeleteKey) set[softDeleteKey] = null;
+    if (versionColumn && etagConfig.versionField) {
+      set[etagConfig.versionField] = sql`coalesce(${versionColumn}, 0) + 1`;
+    }
+    // ON CONFLICT DO UPDATE needs at least one column
+    if (Object.keys(set).length === 0) {
+      set[upsertTargetKeys[0]!] = input[upsertTargetKeys[0]!];
+    }
+    return set;
+  };
+
+  // One INSERT ... ON CONFLICT DO UPDATE writes the row. The row read
+  // beforehand picks the hooks, If-Match and the reported outcome; the
+  // conflict's WHERE repeats the scopes and the ETag against the row the
+  // statement actually meets, so a concurrent change cannot slip past them.
+  // The create permission is only needed when nothing holds the target.
+  const upsertRow = async (
+    req: Request,
+    conn: DrizzleDatabase,
+    ctx: ProcedureContext<TConfig>,
+    input: InferInsertModel<Table<TConfig>>,
+    checkIfMatch: boolean
+  ): Promise<{ item: Record<string, unknown>; previous?: Record<string, unknown> }> => {
+    const row = input as Record<string, unknown>;
+    const match = upsertMatch(row);
+    const byTarget = upsertTargetKeys.map((key) => `${key}=="${String(row[key])}"`).join(";");
+    const [previous] = (await conn.select().from(schema).where(match)) as Record<string, unknown>[];
+
+    if (previous) {
+      const id = String(previous[idColumnName]);
+      if (tenantColumnKey && previous[tenantColumnKey] !== row[tenantColumnKey]) {
+        throw new NotFoundError(resourceName, id);
+      }
+
+      const deleted = softDeleteKey ? previous[softDeleteKey] != null : false;
+      const filter = and(match, await upsertScope(req, byTarget, deleted));
+      const [allowed] = await conn.select().from(schema).where(filter);
+      if (!allowed) {
+        throw new ForbiddenError(`Not authorized to update on ${resourceName}`);
+      }
+      if (checkIfMatch) {
+        requireIfMatch(req, previous);
+      }
+
+      const data = (await executeBeforeUpdate(hooks, ctx, id, input as any)) as Record<string, unknown>;
+      const [item] = (await conn
+        .insert(schema)
+        .values({ ...row, ...data, ...(softDeleteKey && { [softDeleteKey]: null }) } as any)
+        .onConflictDoUpdate({
+          target: upsertTarget,
+          set: upsertSet(data, row),
+          setWhere: withETagGuard(req, filter, previous),
+        })
+        .returning()) as Record<string, unknown>[];
+      if (!item) {
+        await throwLostUpdate(conn, id, filter);
+      }
+
+      await executeAfterUpdate(hooks, ctx, item as any);
+      return { item: item!, previous };
     }
 
-    return filterer.convert(combinedFilter) as SQL<unknown>;
+    await scopeResolver.requirePermission("create", getUser(req), await getTenant(req));
+
+    let data = (await executeBeforeCreate(hooks, ctx, input)) as Record<string, unknown>;
+    if (softDeleteKey) {
+      data = { ...data, [softDeleteKey]: null };
+    }
+
+    const conflictScope = await upsertScope(req, byTarget);
+    const [item] = (await conn
+      .insert(schema)
+      .values(data as any)
+      .onConflictDoUpdate({
+        target: upsertTarget,
+        set: upsertSet(data, row),
+        ...(conflictScope && { setWhere: conflictScope }),
+      })
+      .returning()) as Record<string, unknown>[];
+    if (!item) {
+      // A concurrent insert won with a row this caller may not update
+      throw new ForbiddenError(`Not authorized to update on ${resourceName}`);
+    }
+
+    await executeAfterCreate(hooks, ctx, item as any);
+    return { item };
   };
 
+  const publishUpserts = async (
+    results: { item: Record<string, unknown>; previous?: Record<string, unknown> }[],
+    tenant: string | undefined
+  ): Promise<void> => {
+    const created: Record<string, unknown>[] = [];
+    const updated: Record<string, unknown>[] = [];
+    const previousMap = new Map<string, Record<string, unknown>>();
+
+    for (const { item, previous } of results) {
+      const id = String(item[idColumnName]);
+      if (previous) {
+        // A revived row reappears to changelog readers, as on restore;
+        // subscribers see it re-enter their filter
+        if (softDeleteKey && previous[softDeleteKey] != null) {
+          recordCreate(resourceName, id, item, tenant);
+        } else {
+          recordUpdate(resourceName, id, item, previous, tenant);
+        }
+        previousMap.set(id, previous);
+        updated.push(withETag(item));
+      } else {
+        recordCreate(resourceName, id, item, tenant);
+        created.push(withETag(item));
+      }
+      await indexDocument(id, item, tenant);
+    }
+
+    if (created.length > 0) {
+      await pushInsertsToSubscriptions(
+        resourceName,
+        filterer as any,
+        created,
+        idColumnName,
+        undefined,
+        subscriptionRelationLoader,
+        tenant
+      );
+    }
+    if (updated.length > 0) {
+      await pushUpdatesToSubscriptions(
+        resourceName,
+        filterer as any,
+        updated,
+        idColumnName,
+        previousMap,
+        subscriptionRelationLoader,
+        tenant
+      );
+    }
+  };
+
+  // Before the rate limiter, which buckets requests per tenant
+  if (config.tenant) {
+    router.use(
+      asyncHandler(async (req, _res, next) => {
+        await getTenant(req);
+        next();
+      })
+    );
+  }
+
   if (rateLimitMiddleware) {
     router.use(rateLimitMiddleware);
   }
@@ -286,29 +1030,44 @@ export const useResource = <TConfig extends TableConfig>(
     router.post(
       "/batch",
       asyncHandler(async (req, res) => {
-        await scopeResolver.requirePermission("create", getUser(req));
-
-        const data = parseMultiInsert(req.body);
+        const tenant = await getTenant(req);
+        await scopeResolver.requirePermission("create", getUser(req), tenant);
+
+        const access = await getFieldAccess(req);
+        const data = parseMultiInsert({
+          items: Array.isArray(req.body?.items)
+            ? await Promise.all(
+                req.body.items.map((item: Record<string, unknown>) =>
+                  withTenantColumn(req, access.stripWritable(item))
+                )
+              )
+            : req.body?.items,
+        });
         if (data.items.length > batchConfig.create!) {
           throw new BatchLimitError("create", batchConfig.create!, data.items.length);
         }
 
-        const ctx = createProcedureContext(req);
+        const created = await runWrite(req, async (conn, ctx) => {
+          const processedItems = await Promise.all(
+            data.items.map(async (item) => {
+              const processed = await executeBeforeCreate(hooks, ctx, item);
+              return processed;
+            })
+          );
 
-        const processedItems = await Promise.all(
-          data.items.map(async (item) => {
-            const processed = await executeBeforeCreate(hooks, ctx, item);
-            return processed;
-          })
-        );
+          const inserted = await conn.insert(schema).values(processedItems).returning();
+
+          for (const item of inserted as unknown as Record<string, unknown>[]) {
+            await executeAfterCreate(hooks, ctx, item as any);
+          }
 
-        const created = await db.insert(schema).values(processedItems).returning();
+          return inserted;
+        });
         const createdArray = created as unknown as Record<string, unknown>[];
 
         for (const item of createdArray) {
-          await executeAfterCreate(hooks, ctx, item as any);
-          recordCreate(resourceName, String(item[idColumnName]), item);
-          await indexDocument(String(item[idColumnName]), item);
+          recordCreate(resourceName, String(item[idColumnName]), item, tenant);
+          await indexDocument(String(item[idColumnName]), item, tenant);
         }
 
         await pushInsertsToSubscriptions(
@@ -317,10 +1076,52 @@ export const useResource = <TConfig extends TableConfig>(
           createdArray,
           idColumnName,
           undefined,
-          subscriptionRelationLoader
+          subscriptionRelationLoader,
+          tenant
         );
 
-        res.json({ items: created });
+        res.json({ items: createdArray.map((item) => access.redact(item)) });
+      })
+    );
+  }
+
+  if (batchConfig.upsert && batchConfig.upsert > 0) {
+    router.post(
+      "/batch/upsert",
+      asyncHandler(async (req, res) => {
+        const tenant = await getTenant(req);
+
+        const access = await getFieldAccess(req);
+        const data = parseMultiInsert({
+          items: Array.isArray(req.body?.items)
+            ? await Promise.all(
+                req.body.items.map((item: Record<string, unknown>) =>
+                  withTenantColumn(req, access.stripWritable(item))
+                )
+              )
+            : req.body?.items,
+        });
+        if (data.items.length > batchConfig.upsert!) {
+          throw new BatchLimitError("upsert", batchConfig.upsert!, data.items.length);
+        }
+
+        type UpsertResult = Awaited<ReturnType<typeof upsertRow>>;
+        const results: UpsertResult[] = await db.transaction(async (tx: DrizzleTransaction) => {
+          const ctx = createWriteContext(req, tx);
+          const upserted: UpsertResult[] = [];
+          for (const item of data.items) {
+            upserted.push(await upsertRow(req, tx, ctx, item, false));
+          }
+          return upserted;
+        });
+
+        await publishUpserts(results, tenant);
+
+        res.json({
+          items: results.map(({ item }) => access.redact(item)),
+          created: results.filter(({ previous }) => !previous).length,
+          updated: results.filter(({ previous }) => previous).length,
+        });
       })
     );
   }
@@ -329,8 +1130,11 @@ export const useResource = <TConfig extends TableConfig>(
     router.patch(
       "/batch",
       asyncHandler(async (req, res) => {
+        const tenant = await getTenant(req);
         const filter = await applyFilters(req, "update");
-        const data = parseUpdate(req.body);
+        const data = parseUpdate(
+          await withTenantColumn(req, (await getFieldAccess(req)).stripWritable(req.body))
+        );
 
         const result = await db.transaction(async (tx: DrizzleTransaction) => {
           const beforeItems = (await tx.select().from(schema).where(filter)) as unknown as Record<string, unknown>[];
@@ -339,7 +1143,7 @@ export const useResource = <TConfig extends TableConfig>(
             throw new BatchLimitError("update", batchConfig.update!, beforeItems.length);
           }
 
-          const ctx = createProcedureContext(req);
+          const ctx = createWriteContext(req, tx);
 
           let processedData = data;
           for (const item of beforeItems) {
@@ -363,7 +1167,6 @@ export const useResource = <TConfig extends TableConfig>(
             const after = afterItems[i]!;
             const id = String(before[idColumnName]);
             previousMap.set(id, before);
-            recordUpdate(resourceName, id, after, before);
             await executeAfterUpdate(hooks, ctx, after as any);
           }
 
@@ -371,7 +1174,9 @@ export const useResource = <TConfig extends TableConfig>(
         });
 
         for (const item of result.items) {
-          await indexDocument(String(item[idColumnName]), item);
+          const id = String(item[idColumnName]);
+          recordUpdate(resourceName, id, item, result.previousMap.get(id), tenant);
+          await indexDocument(id, item, tenant);
         }
 
         await pushUpdatesToSubscriptions(
@@ -380,7 +1185,8 @@ export const useResource = <TConfig extends TableConfig>(
           result.items,
           idColumnName,
           result.previousMap,
-          subscriptionRelationLoader
+          subscriptionRelationLoader,
+          tenant
         );
 
         res.json({ count: result.count });
@@ -392,6 +1198,7 @@ export const useResource = <TConfig extends TableConfig>(
     router.delete(
       "/batch",
       asyncHandler(async (req, res) => {
+        const tenant = await getTenant(req);
         const filter = await applyFilters(req, "delete");
 
         const result = await db.transaction(async (tx: DrizzleTransaction) => {
@@ -401,30 +1208,44 @@ export const useResource = <TConfig extends TableConfig>(
             throw new BatchLimitError("delete", batchConfig.delete!, items.length);
           }
 
-          const ctx = createProcedureContext(req);
+          const ctx = createWriteContext(req, tx);
 
           for (const item of items) {
             await executeBeforeDelete(hooks, ctx, String(item[idColumnName]));
           }
 
-          await tx.delete(schema).where(filter);
+          let stamped: Record<string, unknown>[] = [];
+          if (softDeleteKey) {
+            stamped = (await tx
+              .update(schema)
+              .set({ [softDeleteKey]: new Date() })
+              .where(filter)
+              .returning()) as Record<string, unknown>[];
+          } else {
+            await tx.delete(schema).where(filter);
+          }
 
           const deletedIds: string[] = [];
           for (const item of items) {
             const id = String(item[idColumnName]);
             deletedIds.push(id);
-            recordDelete(resourceName, id, item);
             await executeAfterDelete(hooks, ctx, item as any);
           }
 
-          return { count: items.length, deletedIds };
+          return { count: items.length, items, deletedIds, stamped };
         });
 
-        for (const id of result.deletedIds) {
-          await deleteFromIndex(id);
+        for (const item of result.items) {
+          const id = String(item[idColumnName]);
+          recordDelete(resourceName, id, item, tenant);
+          await deleteFromIndex(id, tenant);
         }
 
-        await pushDeletesToSubscriptions(resourceName, result.deletedIds);
+        if (softDeleteKey) {
+          await pushSoftDeleteChanges(result.stamped, result.items, tenant);
+        } else {
+          await pushDeletesToSubscriptions(resourceName, result.deletedIds, tenant, result.items);
+        }
 
         res.json({ count: result.count });
       })
@@ -457,100 +1278,111 @@ export const useResource = <TConfig extends TableConfig>(
     heartbeatMs: config.sse?.heartbeatMs ?? 20000,
     maxQueueBytes: config.sse?.maxQueueBytes ?? 65536,
     onBackpressure: config.sse?.onBackpressure ?? "invalidate",
+    liveAggregateDebounceMs: config.sse?.liveAggregateDebounceMs ?? 250,
+  };
+
+  const backpressure: BackpressureOptions = {
+    maxQueueBytes: sseConfig.maxQueueBytes,
+    onBackpressure: sseConfig.onBackpressure,
   };
 
   const userSubscriptionCounts = new Map<string, number>();
   const ipSubscriptionCounts = new Map<string, number>();
 
-  router.get(
-    "/subscribe",
-    asyncHandler(async (req, res) => {
-      const user = getUser(req);
-      const scope = await scopeResolver.resolve("subscribe", user);
-      const filterQuery = req.query.filter?.toString() ?? "";
-      const includeQuery = req.query.include?.toString();
-      const handlerId = uuidv4();
-
-      const resumeFrom = req.headers["last-event-id"]
-        ? parseInt(req.headers["last-event-id"] as string, 10)
-        : req.query.resumeFrom
-          ? parseInt(req.query.resumeFrom.toString(), 10)
-          : undefined;
-
-      const skipExisting = req.query.skipExisting === "true";
-      const knownIdsParam = req.query.knownIds?.toString();
-      const knownIds = knownIdsParam ? knownIdsParam.split(",").filter(id => id.length > 0) : [];
-
-      const userId = user?.id ?? "anonymous";
-      const clientIP = req.ip ?? req.socket.remoteAddress ?? "unknown";
-
-      const userCount = userSubscriptionCounts.get(userId) ?? 0;
-      if (userCount >= sseConfig.maxSubscriptionsPerUser) {
-        res.status(429).json({
-          type: "/__concave/problems/rate-limit-exceeded",
-          title: "Too many subscriptions",
-          status: 429,
-          detail: `Maximum ${sseConfig.maxSubscriptionsPerUser} subscriptions per user`,
-        });
-        return;
-      }
-
-      const ipCount = ipSubscriptionCounts.get(clientIP) ?? 0;
-      if (ipCount >= sseConfig.maxSubscriptionsPerIP) {
-        res.status(429).json({
-          type: "/__concave/problems/rate-limit-exceeded",
-          title: "Too many subscriptions",
-          status: 429,
-          detail: `Maximum ${sseConfig.maxSubscriptionsPerIP} subscriptions per IP`,
-        });
-        return;
-      }
+  const subscriptionLimitExceeded = (userId: string, clientIP: string): string | null => {
+    if ((userSubscriptionCounts.get(userId) ?? 0) >= sseConfig.maxSubscriptionsPerUser) {
+      return `Maximum ${sseConfig.maxSubscriptionsPerUser} subscriptions per user`;
+    }
+    if ((ipSubscriptionCounts.get(clientIP) ?? 0) >= sseConfig.maxSubscriptionsPerIP) {
+      return `Maximum ${sseConfig.maxSubscriptionsPerIP} subscriptions per IP`;
+    }
+    return null;
+  };
 
-      res.set({
-        "Content-Type": "text/event-stream",
-        "Cache-Control": "no-cache, no-transform",
-        "Connection": "keep-alive",
-        "X-Accel-Buffering": "no",
-        "X-Content-Type-Options": "nosniff",
-      });
-      res.flushHeaders?.();
+  const acquireSubscriptionSlot = (userId: string, clientIP: string): void => {
+    userSubscriptionCounts.set(userId, (userSubscriptionCounts.get(userId) ?? 0) + 1);
+    ipSubscriptionCounts.set(clientIP, (ipSubscriptionCounts.get(clientIP) ?? 0) + 1);
+    activeClients++;
+    startEventPolling();
+  };
 
-      userSubscriptionCounts.set(userId, userCount + 1);
-      ipSubscriptionCounts.set(clientIP, ipCount + 1);
+  const releaseSubscriptionSlot = (userId: string, clientIP: string): void => {
+    activeClients--;
 
-      registerHandler(handlerId, res);
-      activeClients++;
-      startEventPolling();
+    userSubscriptionCounts.set(
+      userId,
+      Math.max(0, (userSubscriptionCounts.get(userId) ?? 1) - 1)
+    );
+    ipSubscriptionCounts.set(
+      clientIP,
+      Math.max(0, (ipSubscriptionCounts.get(clientIP) ?? 1) - 1)
+    );
 
-      const currentSeq = await changelog.getCurrentSequence();
-      res.write(`id: ${currentSeq}\nevent: connected\ndata: ${JSON.stringify({ seq: currentSeq })}\n\n`);
+    if (activeClients === 0) {
+      stopEventPolling();
+    }
+  };
 
-      let queuedBytes = 0;
+  // Resolves scope, field policies and replay options before anything is
+  // written, so a bad subscribe request still fails as a plain HTTP error.
+  // Shared by the SSE route and the WebSocket transport.
+  const prepareSubscription = async (req: Request) => {
+    const user = getUser(req);
+    const tenant = await getTenant(req);
+    const scope = await scopeResolver.resolve("subscribe", user, tenant);
+    const filterQuery = req.query.filter?.toString() ?? "";
+    const includeQuery = req.query.include?.toString();
+
+    await checkFilterAccess(req, filterQuery);
+    const hiddenFields = await resolveHiddenFields(req, parseInclude(includeQuery));
+    const deletedFilter = await resolveDeletedFilter(req, "subscribe");
+
+    const combinedScope = combineScopes(scope, filterQuery);
+    const existingFilterExpr = joinFilters(
+      combinedScope !== "*" ? combinedScope : undefined,
+      deletedFilter
+    );
+    const relationScopes = await resolveRelationScopes(req, existingFilterExpr);
+    const existingFilter = existingFilterExpr
+      ? (filterer.convert(existingFilterExpr, { relationScopes }) as SQL<unknown>)
+      : undefined;
+
+    const resumeFrom = req.headers["last-event-id"]
+      ? parseInt(req.headers["last-event-id"] as string, 10)
+      : req.query.resumeFrom
+        ? parseInt(req.query.resumeFrom.toString(), 10)
+        : undefined;
 
-      const heartbeat = setInterval(() => {
-        if (res.writableEnded) {
-          clearInterval(heartbeat);
-          return;
-        }
-        res.write(`: ping ${Date.now()}\n\n`);
-      }, sseConfig.heartbeatMs);
+    const skipExisting = req.query.skipExisting === "true";
+    const knownIdsParam = req.query.knownIds?.toString();
+    const knownIds = knownIdsParam ? knownIdsParam.split(",").filter(id => id.length > 0) : [];
 
+    const start = async (
+      handlerId: string,
+      onCreated?: (subscriptionId: string) => void
+    ): Promise<string> => {
       const subscriptionId = await createSubscription({
         resource: resourceName,
         filter: filterQuery,
         handlerId,
         authId: user?.id ?? null,
-        scopeFilter: scope.toString() !== "*" ? scope.toString() : undefined,
+        scopeFilter:
+          joinFilters(scope.toString() !== "*" ? scope.toString() : undefined, deletedFilter) ||
+          undefined,
         authExpiresAt: user?.sessionExpiresAt,
         include: includeQuery,
+        hiddenFields,
+        relationScopes,
+        tenant,
       });
-
-      res.on("drain", () => {
-        queuedBytes = 0;
-      });
+      onCreated?.(subscriptionId);
 
       try {
         if (resumeFrom !== undefined) {
+          // A resuming client still holds these rows, so track them for removals
+          if (knownIds.length > 0) {
+            await registerKnownIds(subscriptionId, knownIds);
+          }
           if (await changelog.needsInvalidation(resumeFrom)) {
             await sendInvalidateEvent(subscriptionId, "Sequence gap - please refetch");
           }
@@ -563,22 +1395,12 @@ export const useResource = <TConfig extends TableConfig>(
           // matching items to populate relevantObjectIds for proper change tracking
           // This ensures removed events work correctly when items leave the filter scope
           else {
-            const combinedFilter = combineScopes(scope, filterQuery);
-            const filter = combinedFilter && combinedFilter !== "*"
-              ? (filterer.convert(combinedFilter) as SQL<unknown>)
-              : undefined;
-
-            const items = await db.select().from(schema).where(filter);
+            const items = await db.select().from(schema).where(existingFilter);
             const ids = (items as Record<string, unknown>[]).map(item => String(item[idColumnName]));
             await registerKnownIds(subscriptionId, ids);
           }
         } else {
-          const combinedFilter = combineScopes(scope, filterQuery);
-          const filter = combinedFilter && combinedFilter !== "*"
-            ? (filterer.convert(combinedFilter) as SQL<unknown>)
-            : undefined;
-
-          const items = await db.select().from(schema).where(filter);
+          const items = await db.select().from(schema).where(existingFilter);
           await sendExistingItems(
             subscriptionId,
             items as Record<string, unknown>[],
@@ -586,38 +1408,122 @@ export const useResource = <TConfig extends TableConfig>(
           );
         }
       } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : "Unknown error";
-        res.write(`event: error\ndata: ${JSON.stringify({ error: errorMessage })}\n\n`);
-        res.end();
+        await removeSubscription(subscriptionId);
+        throw error;
+      }
+
+      return subscriptionId;
+    };
+
+    return {
+      userId: user?.id ?? "anonymous",
+      clientIP: req.ip ?? req.socket?.remoteAddress ?? "unknown",
+      start,
+    };
+  };
+
+  const subscriptionEndpoint: SubscriptionEndpoint = {
+    resource: resourceName,
+    backpressure,
+    open: async (req, handlerId, onCreated) => {
+      const prepared = await prepareSubscription(req);
+
+      const limitExceeded = subscriptionLimitExceeded(prepared.userId, prepared.clientIP);
+      if (limitExceeded) {
+        throw new RateLimitError(1, limitExceeded);
+      }
+
+      acquireSubscriptionSlot(prepared.userId, prepared.clientIP);
+      try {
+        const subscriptionId = await prepared.start(handlerId, onCreated);
+        return {
+          subscriptionId,
+          close: async () => {
+            releaseSubscriptionSlot(prepared.userId, prepared.clientIP);
+            await removeSubscription(subscriptionId);
+          },
+        };
+      } catch (error) {
+        releaseSubscriptionSlot(prepared.userId, prepared.clientIP);
+        throw error;
+      }
+    },
+  };
+  registerSubscriptionEndpoint(subscriptionEndpoint);
+
+  router.get(
+    "/subscribe",
+    asyncHandler(async (req, res) => {
+      const prepared = await prepareSubscription(req);
+      const { userId, clientIP } = prepared;
+      const handlerId = uuidv4();
+
+      const limitExceeded = subscriptionLimitExceeded(userId, clientIP);
+      if (limitExceeded) {
+        res.status(429).json({
+          type: "/__concave/problems/rate-limit-exceeded",
+          title: "Too many subscriptions",
+          status: 429,
+          detail: limitExceeded,
+        });
         return;
       }
 
-      const cleanup = async () => {
-        clearInterval(heartbeat);
-        activeClients--;
+      res.set({
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        "Connection": "keep-alive",
+        "X-Accel-Buffering": "no",
+        "X-Content-Type-Options": "nosniff",
+      });
+      res.flushHeaders?.();
 
-        userSubscriptionCounts.set(
-          userId,
-          Math.max(0, (userSubscriptionCounts.get(userId) ?? 1) - 1)
-        );
-        ipSubscriptionCounts.set(
-          clientIP,
-          Math.max(0, (ipSubscriptionCounts.get(clientIP) ?? 1) - 1)
-        );
+      acquireSubscriptionSlot(userId, clientIP);
+      registerHandler(handlerId, createSSESink(res, backpressure));
 
-        unregisterHandler(handlerId);
+      const currentSeq = await changelog.getCurrentSequence();
+      res.write(`id: ${currentSeq}\nevent: connected\ndata: ${JSON.stringify({ seq: currentSeq })}\n\n`);
 
-        if (activeClients === 0) {
-          stopEventPolling();
+      const heartbeat = setInterval(() => {
+        if (res.writableEnded) {
+          clearInterval(heartbeat);
+          return;
         }
+        res.write(`: ping ${Date.now()}\n\n`);
+      }, sseConfig.heartbeatMs);
 
-        await removeSubscription(subscriptionId);
+      let subscriptionId: string | undefined;
+      let closed = false;
+
+      const cleanup = async () => {
+        closed = true;
+        clearInterval(heartbeat);
+        releaseSubscriptionSlot(userId, clientIP);
+        unregisterHandler(handlerId);
+
+        if (subscriptionId) {
+          await removeSubscription(subscriptionId);
+        }
       };
 
       req.on("close", cleanup);
       req.on("error", () => {
         clearInterval(heartbeat);
       });
+
+      try {
+        subscriptionId = await prepared.start(handlerId);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        res.write(`event: error\ndata: ${JSON.stringify({ error: errorMessage })}\n\n`);
+        res.end();
+        return;
+      }
+
+      // The client may have gone away while existing items were replayed
+      if (closed) {
+        await removeSubscription(subscriptionId);
+      }
     })
   );
 
@@ -626,34 +1532,12 @@ export const useResource = <TConfig extends TableConfig>(
     asyncHandler(async (req, res) => {
       const filter = await applyFilters(req, "read");
       const params = parseAggregationParams(req.query as Record<string, unknown>);
-
-      const { groupByColumns, aggregateColumns } = buildAggregationSelections(
-        schema,
-        params
+      (await getFieldAccess(req)).checkAggregation(
+        params.groupBy,
+        aggregationMetricFields(params)
       );
 
-      const columns = getTableColumns(schema);
-      const selectObj: Record<string, unknown> = {
-        ...groupByColumns,
-        ...aggregateColumns,
-      };
-
-      let query = db.select(selectObj as any).from(schema);
-
-      if (filter) {
-        query = query.where(filter) as any;
-      }
-
-      if (params.groupBy.length > 0) {
-        const groupByCols = params.groupBy.map((f) => columns[f]).filter(Boolean);
-        query = (query as any).groupBy(...groupByCols);
-      }
-
-      const results = await query;
-      const transformed = transformAggregationResults(
-        results as Record<string, unknown>[],
-        params
-      );
+      const transformed = await executeAggregation(db, schema, params, filter);
 
       res.json(transformed);
     })
@@ -673,42 +1557,360 @@ export const useResource = <TConfig extends TableConfig>(
     })
   );
 
+  // Streams an aggregation over SSE, pushing `format(result)` whenever
+  // changes to the resource alter it. Scoped like a subscription.
+  const streamAggregation = async (
+    req: Request,
+    res: Response,
+    params: ParsedAggregationParams,
+    format: (result: AggregationResult) => Record<string, unknown>
+  ): Promise<void> => {
+    const user = getUser(req);
+    const tenant = await getTenant(req);
+    const scope = await scopeResolver.resolve("subscribe", user, tenant);
+    const filterQuery = req.query.filter?.toString() ?? "";
+
+    await checkFilterAccess(req, filterQuery);
+    (await getFieldAccess(req)).checkAggregation(params.groupBy, aggregationMetricFields(params));
+
+    const combinedScope = combineScopes(scope, filterQuery);
+    const filterExpr = joinFilters(
+      combinedScope !== "*" ? combinedScope : undefined,
+      await resolveDeletedFilter(req, "subscribe")
+    );
+    const relationScopes = await resolveRelationScopes(req, filterExpr);
+    const filter = filterExpr
+      ? (filterer.convert(filterExpr, { relationScopes }) as SQL<unknown>)
+      : undefined;
+
+    // Filters that reach into relations can only be checked by the database
+    const compiled = filterExpr ? filterer.compile(filterExpr) : undefined;
+    const matches =
+      compiled && compiled.relations().length > 0
+        ? undefined
+        : (row: Record<string, unknown>) => !compiled || compiled.execute(row);
+
+    const userId = user?.id ?? "anonymous";
+    const clientIP = req.ip ?? req.socket?.remoteAddress ?? "unknown";
+    const limitExceeded = subscriptionLimitExceeded(userId, clientIP);
+    if (limitExceeded) {
+      res.status(429).json({
+        type: "/__concave/problems/rate-limit-exceeded",
+        title: "Too many subscriptions",
+        status: 429,
+        detail: limitExceeded,
+      });
+      return;
+    }
+
+    let live: { close(): void } | undefined;
+    let heartbeat: NodeJS.Timeout | undefined;
+    let closed = false;
+
+    req.on("close", () => {
+      closed = true;
+      live?.close();
+      if (heartbeat) {
+        clearInterval(heartbeat);
+        releaseSubscriptionSlot(userId, clientIP);
+      }
+    });
+
+    // Headers go out with the first result, so a failing first query is
+    // still answered as a plain HTTP error
+    live = await openLiveAggregate({
+      resource: resourceName,
+      params,
+      tenant,
+      matches,
+      debounceMs: sseConfig.liveAggregateDebounceMs,
+      compute: (computeParams) => executeAggregation(db, schema, computeParams, filter),
+      send: (result) => {
+        if (!res.headersSent) {
+          res.set({
+            "Content-Type": "text/event-stream",
+            "Cache-Control": "no-cache, no-transform",
+            "Connection": "keep-alive",
+            "X-Accel-Buffering": "no",
+            "X-Content-Type-Options": "nosniff",
+          });
+          res.flushHeaders?.();
+        }
+        if (!res.writableEnded) res.write(`data: ${JSON.stringify(format(result))}\n\n`);
+      },
+    });
+
+    // The client may have gone away during the first query
+    if (closed) {
+      live.close();
+      return;
+    }
+
+    acquireSubscriptionSlot(userId, clientIP);
+    heartbeat = setInterval(() => {
+      if (res.writableEnded) {
+        clearInterval(heartbeat);
+        return;
+      }
+      res.write(`: ping ${Date.now()}\n\n`);
+    }, sseConfig.heartbeatMs);
+  };
+
+  router.get(
+    "/aggregate/subscribe",
+    asyncHandler(async (req, res) => {
+      const params = parseAggregationParams(req.query as Record<string, unknown>);
+      await streamAggregation(req, res, params, (result) => ({ type: "aggregate", ...result }));
+    })
+  );
+
+  router.get(
+    "/count/subscribe",
+    asyncHandler(async (req, res) => {
+      const params = parseAggregationParams({ count: true });
+      await streamAggregation(req, res, params, (result) => ({
+        type: "count",
+        count: result.groups[0]?.count ?? 0,
+      }));
+    })
+  );
+
   for (const [name, procedure] of Object.entries(procedures)) {
     router.post(
       `/rpc/${name}`,
       asyncHandler(async (req, res) => {
         const ctx = createProcedureContext(req);
         const result = await executeProcedure(procedure, ctx, req.body);
-        res.json({ data: result });
+        // Declared effects tell clients which live queries to reconcile
+        const writeEffects = getWriteEffects(procedure);
+        res.json(writeEffects.length > 0 ? { data: result, writeEffects } : { data: result });
       })
     );
   }
 
   // Search endpoint and auto-indexing
-  const searchEnabled = config.search?.enabled !== false && hasGlobalSearch();
   const autoIndexEnabled = searchEnabled && config.search?.autoIndex !== false;
-  const searchIndexName = config.search?.indexName ?? resourceName;
 
-  const indexDocument = async (id: string, document: Record<string, unknown>) => {
+  // Each tenant gets its own index
+  const indexNameFor = (tenant: string | undefined) =>
+    tenant ? tenantIndexName(searchIndexName, tenant) : searchIndexName;
+
+  const indexDocument = async (
+    id: string,
+    document: Record<string, unknown>,
+    tenant: string | undefined
+  ) => {
     if (!autoIndexEnabled) return;
+    const indexName = indexNameFor(tenant);
     try {
       const search = getGlobalSearch();
-      await search.index(searchIndexName, id, document);
+      await search.index(indexName, id, document);
     } catch (err) {
-      console.error(`Failed to index document ${id} in ${searchIndexName}:`, err);
+      console.error(`Failed to index document ${id} in ${indexName}:`, err);
     }
   };
 
-  const deleteFromIndex = async (id: string) => {
+  const deleteFromIndex = async (id: string, tenant: string | undefined) => {
     if (!autoIndexEnabled) return;
+    const indexName = indexNameFor(tenant);
     try {
       const search = getGlobalSearch();
-      await search.delete(searchIndexName, id);
+      await search.delete(indexName, id);
     } catch (err) {
-      console.error(`Failed to delete document ${id} from ${searchIndexName}:`, err);
+      console.error(`Failed to delete document ${id} from ${indexName}:`, err);
+    }
+  };
+
+  const publishCreated = async (
+    items: Record<string, unknown>[],
+    tenant: string | undefined
+  ): Promise<void> => {
+    for (const item of items) {
+      recordCreate(resourceName, String(item[idColumnName]), item, tenant);
+      await indexDocument(String(item[idColumnName]), item, tenant);
+    }
+
+    await pushInsertsToSubscriptions(
+      resourceName,
+      filterer as any,
+      items.map((item) => withETag(item)),
+      idColumnName,
+      undefined,
+      subscriptionRelationLoader,
+      tenant
+    );
+  };
+
+  // Writes the relations named in a create or update body. Related rows are
+  // created by their own resource; join rows of many-to-many relations here.
+  const writeNestedRelations = async (
+    req: Request,
+    conn: DrizzleDatabase,
+    parent: Record<string, unknown>,
+    writes: NestedWrite[],
+    afterCommit: AfterCommit,
+    isNew: boolean
+  ): Promise<void> => {
+    for (const { relation: name, config: relation, create, connect, disconnect } of writes) {
+      const target = resourceRegistry.get(relation.resource)?.nestedWrite;
+      if (!target) {
+        throw new ValidationError("Validation failed", [
+          { field: name, message: `${relation.resource} is not a mounted resource` },
+        ]);
+      }
+
+      if (relation.type === "hasOne" || relation.type === "hasMany") {
+        const parentKey = parent[columnKeyOf(schema, relation.references)];
+
+        if (relation.type === "hasOne" && !isNew) {
+          const [existing] = await conn
+            .select()
+            .from(relation.schema)
+            .where(eq(relation.foreignKey, parentKey as any))
+            .limit(1);
+          if (existing) {
+            throw new ConflictError(`${resourceName} already has a ${name}`, { relation: name });
+          }
+        }
+
+        await target.create(req, conn, create, afterCommit, {
+          [columnKeyOf(relation.schema, relation.foreignKey)]: parentKey,
+        });
+        continue;
+      }
+
+      const through = relation.through!;
+      const sourceValue = parent[columnKeyOf(schema, relation.foreignKey)];
+      const linksOf = (values: unknown[]) =>
+        and(eq(through.sourceKey, sourceValue as any), inArray(through.targetKey, values as any[]));
+
+      if (disconnect.length > 0) {
+        await conn.delete(through.schema).where(linksOf(disconnect));
+      }
+
+      if (connect.length > 0) {
+        const visible = new Set(
+          (await target.visibleValues(req, conn, relation.references, connect)).map(String)
+        );
+        const missing = connect.find((value) => !visible.has(String(value)));
+        if (missing !== undefined) {
+          throw new NotFoundError(relation.resource, String(missing));
+        }
+      }
+
+      const created = await target.create(req, conn, create, afterCommit);
+      const targetKey = columnKeyOf(relation.schema, relation.references);
+      const linked = [...created.map((row) => row[targetKey]), ...connect];
+      if (linked.length === 0) continue;
+
+      const existingLinks = isNew
+        ? []
+        : await conn.select({ value: through.targetKey }).from(through.schema).where(linksOf(linked));
+      const seen = new Set(existingLinks.map((link: { value: unknown }) => String(link.value)));
+      const links: unknown[] = [];
+      for (const value of linked) {
+        if (seen.has(String(value))) continue;
+        seen.add(String(value));
+        links.push(value);
+      }
+
+      if (links.length > 0) {
+        const sourceKey = columnKeyOf(through.schema, through.sourceKey);
+        const joinKey = columnKeyOf(through.schema, through.targetKey);
+        await conn
+          .insert(through.schema)
+          .values(links.map((value) => ({ [sourceKey]: sourceValue, [joinKey]: value })));
+      }
+    }
+  };
+
+  const insertRow = async (
+    req: Request,
+    conn: DrizzleDatabase,
+    ctx: ProcedureContext<TConfig>,
+    body: Record<string, unknown>,
+    writes: NestedWrite[],
+    afterCommit: AfterCommit
+  ): Promise<Record<string, unknown>> => {
+    let data = parseInsert(body);
+
+    data = await executeBeforeCreate(hooks, ctx, data);
+
+    const insertResult = await conn.insert(schema).values(data).returning();
+    const inserted = (insertResult as any[])[0];
+
+    await executeAfterCreate(hooks, ctx, inserted);
+    await writeNestedRelations(req, conn, inserted, writes, afterCommit, true);
+
+    return inserted;
+  };
+
+  // The row of a nested write with the relations it wrote, as `include` returns them
+  const withWrittenRelations = async (
+    req: Request,
+    item: Record<string, unknown>,
+    writes: NestedWrite[]
+  ): Promise<Record<string, unknown>> => {
+    if (writes.length === 0 || !relationLoader) {
+      return (await getFieldAccess(req)).redact(item);
     }
+
+    const includeSpecs = writes.map((write) => ({ relation: write.relation }));
+    const loaded = await relationLoader.loadRelationsForItem(item, includeSpecs, idColumnName);
+    return redactHiddenFields(loaded, await resolveHiddenFields(req, includeSpecs));
   };
 
+  resourceRegistry.set(resourceName, {
+    ...resourceRegistry.get(resourceName)!,
+    nestedWrite: {
+      create: async (req, conn, rows, afterCommit, assigned = {}) => {
+        if (rows.length === 0) return [];
+        if (!capabilities.enableCreate) {
+          throw new ForbiddenError(`Create is disabled for ${resourceName}`);
+        }
+        if (batchConfig.create && rows.length > batchConfig.create) {
+          throw new BatchLimitError("create", batchConfig.create, rows.length);
+        }
+
+        const tenant = await getTenant(req);
+        await scopeResolver.requirePermission("create", getUser(req), tenant);
+
+        const access = await getFieldAccess(req);
+        const ctx = { ...createProcedureContext(req), db: conn };
+        const created: Record<string, unknown>[] = [];
+
+        for (const row of rows) {
+          const { data, writes } = splitNestedWrites(
+            row,
+            config.relations as RelationsConfig | undefined
+          );
+          const body = await withTenantColumn(req, { ...access.stripWritable(data), ...assigned });
+          created.push(await insertRow(req, conn, ctx, body, writes, afterCommit));
+        }
+
+        afterCommit(() => publishCreated(created, tenant));
+        return created;
+      },
+      visibleValues: async (req, conn, column, values) => {
+        const scope = await readScopeForRelations(req);
+        if (scope === false || values.length === 0) return [];
+
+        const match = inArray(column, values as any[]);
+        const where =
+          scope === "*"
+            ? match
+            : and(
+                match,
+                filterer.convert(scope, {
+                  relationScopes: await resolveRelationScopes(req, scope),
+                }) as SQL<unknown>
+              );
+        const rows = await conn.select({ value: column }).from(schema).where(where);
+        return rows.map((row: { value: unknown }) => row.value);
+      },
+    },
+  });
+
   if (searchEnabled) {
     const searchConfig = config.search ?? {};
     const searchHandler = createSearchHandler(
@@ -719,6 +1921,21 @@ export const useResource = <TConfig extends TableConfig>(
         scopeResolver,
         getUser,
         filterer: filterer as { execute: (expr: string, obj: unknown) => boolean },
+        getFieldAccess,
+        getTenant,
+        sqlScope: {
+          table: schema,
+          idColumn: config.id,
+          where: (req) => applyFilters(req, "read"),
+          ids: async (req, limit) => {
+            const rows = (await db
+              .select({ id: config.id })
+              .from(schema)
+              .where(await applyFilters(req, "read"))
+              .limit(limit)) as Array<{ id: unknown }>;
+            return rows.map((row) => String(row.id));
+          },
+        },
       }
     );
 
@@ -726,23 +1943,40 @@ export const useResource = <TConfig extends TableConfig>(
   }
 
   router.post(
-    "/",
+    "/upsert",
     asyncHandler(async (req, res) => {
-      await scopeResolver.requirePermission("create", getUser(req));
+      const tenant = await getTenant(req);
+
+      const access = await getFieldAccess(req);
+      const input = parseInsert(await withTenantColumn(req, access.stripWritable(req.body)));
+      const result = await runWrite(req, (conn, ctx) => upsertRow(req, conn, ctx, input, true));
 
-      const ctx = createProcedureContext(req);
-      let data = parseInsert(req.body);
+      await publishUpserts([result], tenant);
 
-      data = await executeBeforeCreate(hooks, ctx, data);
+      sendItem(req, res, result.item, result.previous ? 200 : 201, access.redact(result.item));
+    })
+  );
 
-      const insertResult = await db.insert(schema).values(data).returning();
-      const created = (insertResult as any[])[0];
-      const createdObj = created as Record<string, unknown>;
+  router.post(
+    "/",
+    asyncHandler(async (req, res) => {
+      const tenant = await getTenant(req);
+      await scopeResolver.requirePermission("create", getUser(req), tenant);
 
-      await executeAfterCreate(hooks, ctx, created);
+      const access = await getFieldAccess(req);
+      const { data, writes } = splitNestedWrites(
+        req.body,
+        config.relations as RelationsConfig | undefined
+      );
+      const body = await withTenantColumn(req, access.stripWritable(data));
+      const createdObj = await runWrite(
+        req,
+        (conn, ctx, afterCommit) => insertRow(req, conn, ctx, body, writes, afterCommit),
+        writes
+      );
 
-      recordCreate(resourceName, String(createdObj[idColumnName]), createdObj);
-      await indexDocument(String(createdObj[idColumnName]), createdObj);
+      recordCreate(resourceName, String(createdObj[idColumnName]), createdObj, tenant);
+      await indexDocument(String(createdObj[idColumnName]), createdObj, tenant);
 
       const optimisticId = req.headers["x-concave-optimistic-id"] as string | undefined;
       const optimisticIds = optimisticId
@@ -752,17 +1986,17 @@ export const useResource = <TConfig extends TableConfig>(
       await pushInsertsToSubscriptions(
         resourceName,
         filterer as any,
-        [createdObj],
+        [withETag(createdObj)],
         idColumnName,
         optimisticIds,
-        subscriptionRelationLoader
+        subscriptionRelationLoader,
+        tenant
       );
 
-      const response = optimisticId
-        ? { ...created, _optimisticId: optimisticId }
-        : created;
+      const item = await withWrittenRelations(req, createdObj, writes);
+      const response = optimisticId ? { ...item, _optimisticId: optimisticId } : item;
 
-      res.status(201).json(response);
+      sendItem(req, res, createdObj, 201, response);
     })
   );
 
@@ -775,6 +2009,10 @@ export const useResource = <TConfig extends TableConfig>(
       const includeTotalCount = req.query.totalCount === "true";
       const includeSpecs = parseInclude(req.query.include?.toString());
 
+      const access = await getFieldAccess(req);
+      access.checkOrderBy(paginationParams.orderBy);
+      access.checkSelect(selectFields);
+
       const orderByFields = parseOrderBy(paginationParams.orderBy);
 
       let query = db.select().from(schema);
@@ -824,6 +2062,9 @@ export const useResource = <TConfig extends TableConfig>(
         totalCount
       );
 
+      // ETags are computed from the stored row, before relations and projection
+      const etags = inlineETags ? result.items.map((item) => etagOf(item)) : [];
+
       if (relationLoader && includeSpecs.length > 0) {
         result.items = await relationLoader.loadRelationsForItems(
           result.items,
@@ -836,6 +2077,12 @@ export const useResource = <TConfig extends TableConfig>(
         result.items = applyProjection(result.items, selectFields) as any;
       }
 
+      const hiddenFields = await resolveHiddenFields(req, includeSpecs);
+      result.items = result.items.map((item, i) => ({
+        ...redactHiddenFields(item as Record<string, unknown>, hiddenFields),
+        ...(inlineETags && { _etag: etags[i] }),
+      })) as typeof result.items;
+
       res.json(result);
     })
   );
@@ -848,6 +2095,8 @@ export const useResource = <TConfig extends TableConfig>(
       const selectFields = parseSelect(req.query.select?.toString());
       const includeSpecs = parseInclude(req.query.include?.toString());
 
+      (await getFieldAccess(req)).checkSelect(selectFields);
+
       const selectResult = await db.select().from(schema).where(filter);
       const item = (selectResult as any[])[0];
 
@@ -855,6 +2104,10 @@ export const useResource = <TConfig extends TableConfig>(
         throw new NotFoundError(resourceName, id);
       }
 
+      if (handleConditionalGet(res, req.headers["if-none-match"], item, etagConfig)) {
+        return;
+      }
+
       let result = item;
 
       if (relationLoader && includeSpecs.length > 0) {
@@ -869,7 +2122,7 @@ export const useResource = <TConfig extends TableConfig>(
         result = applyProjection([result], selectFields)[0] as typeof item;
       }
 
-      res.json(result);
+      res.json(redactHiddenFields(result, await resolveHiddenFields(req, includeSpecs)));
     })
   );
 
@@ -877,43 +2130,55 @@ export const useResource = <TConfig extends TableConfig>(
     "/:id",
     asyncHandler(async (req, res) => {
       const id = req.params.id as string;
+      const tenant = await getTenant(req);
       const filter = await applyFilters(req, "update", `${idColumnName}=="${id}"`);
 
-      const existingResult = await db.select().from(schema).where(filter);
-      const existing = (existingResult as any[])[0];
-      if (!existing) {
-        throw new NotFoundError(resourceName, id);
-      }
+      const access = await getFieldAccess(req);
+      const body = await withTenantColumn(req, access.stripWritable(req.body));
+      const { existing, updated } = await runWrite(req, async (conn, ctx) => {
+        const existingResult = await conn.select().from(schema).where(filter);
+        const existing = (existingResult as any[])[0];
+        if (!existing) {
+          throw new NotFoundError(resourceName, id);
+        }
 
-      const ctx = createProcedureContext(req);
-      let data = parseInsert(req.body);
+        requireIfMatch(req, existing);
 
-      const updateData = await executeBeforeUpdate(hooks, ctx, id, data as any);
+        let data = parseInsert(body);
 
-      const updateResult = await db
-        .update(schema)
-        .set(updateData as any)
-        .where(filter)
-        .returning();
-      const updated = (updateResult as any[])[0];
+        const updateData = await executeBeforeUpdate(hooks, ctx, id, data as any);
 
-      await executeAfterUpdate(hooks, ctx, updated);
+        const updateResult = await conn
+          .update(schema)
+          .set(bumpVersion(updateData as any, existing))
+          .where(withETagGuard(req, filter, existing))
+          .returning();
+        const updated = (updateResult as any[])[0];
+        if (!updated) {
+          await throwLostUpdate(conn, id, filter);
+        }
 
-      recordUpdate(resourceName, id, updated, existing);
-      await indexDocument(id, updated);
+        await executeAfterUpdate(hooks, ctx, updated);
+
+        return { existing, updated };
+      });
+
+      recordUpdate(resourceName, id, updated, existing, tenant);
+      await indexDocument(id, updated, tenant);
 
       const previousMap = new Map<string, Record<string, unknown>>();
       previousMap.set(id, existing);
       await pushUpdatesToSubscriptions(
         resourceName,
         filterer as any,
-        [updated],
+        [withETag(updated)],
         idColumnName,
         previousMap,
-        subscriptionRelationLoader
+        subscriptionRelationLoader,
+        tenant
       );
 
-      res.json(updated);
+      sendItem(req, res, updated, 200, access.redact(updated));
     })
   );
 
@@ -921,43 +2186,69 @@ export const useResource = <TConfig extends TableConfig>(
     "/:id",
     asyncHandler(async (req, res) => {
       const id = req.params.id as string;
+      const tenant = await getTenant(req);
       const filter = await applyFilters(req, "update", `${idColumnName}=="${id}"`);
 
-      const existingResult = await db.select().from(schema).where(filter);
-      const existing = (existingResult as any[])[0];
-      if (!existing) {
-        throw new NotFoundError(resourceName, id);
-      }
-
-      const ctx = createProcedureContext(req);
-      let data = parseUpdate(req.body);
+      const access = await getFieldAccess(req);
+      const { data: fields, writes } = splitNestedWrites(
+        req.body,
+        config.relations as RelationsConfig | undefined
+      );
+      const body = await withTenantColumn(req, access.stripWritable(fields));
+      const { existing, updated } = await runWrite(
+        req,
+        async (conn, ctx, afterCommit) => {
+          const existingResult = await conn.select().from(schema).where(filter);
+          const existing = (existingResult as any[])[0];
+          if (!existing) {
+            throw new NotFoundError(resourceName, id);
+          }
 
-      data = await executeBeforeUpdate(hooks, ctx, id, data);
+          requireIfMatch(req, existing);
+
+          let data = parseUpdate(body);
+
+          data = await executeBeforeUpdate(hooks, ctx, id, data);
+
+          // A body that only writes relations leaves the row itself as it was
+          const changes = bumpVersion(data as any, existing);
+          const updateResult =
+            Object.keys(changes).length > 0 || writes.length === 0
+              ? await conn
+                  .update(schema)
+                  .set(changes)
+                  .where(withETagGuard(req, filter, existing))
+                  .returning()
+              : [existing];
+          const updated = (updateResult as any[])[0];
+          if (!updated) {
+            await throwLostUpdate(conn, id, filter);
+          }
 
-      const updateResult = await db
-        .update(schema)
-        .set(data as any)
-        .where(filter)
-        .returning();
-      const updated = (updateResult as any[])[0];
+          await executeAfterUpdate(hooks, ctx, updated);
+          await writeNestedRelations(req, conn, updated, writes, afterCommit, false);
 
-      await executeAfterUpdate(hooks, ctx, updated);
+          return { existing, updated };
+        },
+        writes
+      );
 
-      recordUpdate(resourceName, id, updated, existing);
-      await indexDocument(id, updated);
+      recordUpdate(resourceName, id, updated, existing, tenant);
+      await indexDocument(id, updated, tenant);
 
       const previousMap = new Map<string, Record<string, unknown>>();
       previousMap.set(id, existing);
       await pushUpdatesToSubscriptions(
         resourceName,
         filterer as any,
-        [updated],
+        [withETag(updated)],
         idColumnName,
         previousMap,
-        subscriptionRelationLoader
+        subscriptionRelationLoader,
+        tenant
       );
 
-      res.json(updated);
+      sendItem(req, res, updated, 200, await withWrittenRelations(req, updated, writes));
     })
   );
 
@@ -965,31 +2256,101 @@ export const useResource = <TConfig extends TableConfig>(
     "/:id",
     asyncHandler(async (req, res) => {
       const id = req.params.id as string;
+      const tenant = await getTenant(req);
       const filter = await applyFilters(req, "delete", `${idColumnName}=="${id}"`);
 
-      const existingResult = await db.select().from(schema).where(filter);
-      const existing = (existingResult as any[])[0];
-      if (!existing) {
-        throw new NotFoundError(resourceName, id);
-      }
-
-      const ctx = createProcedureContext(req);
+      const { existing, stamped } = await runWrite(req, async (conn, ctx) => {
+        const existingResult = await conn.select().from(schema).where(filter);
+        const existing = (existingResult as any[])[0];
+        if (!existing) {
+          throw new NotFoundError(resourceName, id);
+        }
 
-      await executeBeforeDelete(hooks, ctx, id);
+        requireIfMatch(req, existing);
+
+        await executeBeforeDelete(hooks, ctx, id);
+
+        const deleteResult = softDeleteKey
+          ? await conn
+              .update(schema)
+              .set(bumpVersion({ [softDeleteKey]: new Date() }, existing))
+              .where(withETagGuard(req, filter, existing))
+              .returning()
+          : await conn
+              .delete(schema)
+              .where(withETagGuard(req, filter, existing))
+              .returning();
+        if ((deleteResult as unknown[]).length === 0) {
+          await throwLostUpdate(conn, id, filter);
+        }
 
-      await db.delete(schema).where(filter);
+        await executeAfterDelete(hooks, ctx, existing);
 
-      await executeAfterDelete(hooks, ctx, existing);
+        return { existing, stamped: (deleteResult as Record<string, unknown>[])[0]! };
+      });
 
-      recordDelete(resourceName, id, existing);
-      await deleteFromIndex(id);
+      recordDelete(resourceName, id, existing, tenant);
+      await deleteFromIndex(id, tenant);
 
-      await pushDeletesToSubscriptions(resourceName, [id]);
+      if (softDeleteKey) {
+        await pushSoftDeleteChanges([stamped], [existing], tenant);
+      } else {
+        await pushDeletesToSubscriptions(resourceName, [id], tenant, [existing]);
+      }
 
       res.status(204).send();
     })
   );
 
+  if (softDeleteKey) {
+    router.post(
+      "/:id/restore",
+      asyncHandler(async (req, res) => {
+        const id = req.params.id as string;
+        const tenant = await getTenant(req);
+        const filter = await applyFilters(req, "restore", `${idColumnName}=="${id}"`);
+
+        const access = await getFieldAccess(req);
+        const { existing, restored } = await runWrite(req, async (conn, ctx) => {
+          const existingResult = await conn.select().from(schema).where(filter);
+          const existing = (existingResult as any[])[0];
+          if (!existing) {
+            throw new NotFoundError(resourceName, id);
+          }
+
+          requireIfMatch(req, existing);
+
+          // A restore is an update of the deleted-at column, hooks included
+          const updateData = await executeBeforeUpdate(hooks, ctx, id, {
+            [softDeleteKey]: null,
+          } as any);
+
+          const restoreResult = await conn
+            .update(schema)
+            .set(bumpVersion({ ...updateData, [softDeleteKey]: null }, existing))
+            .where(withETagGuard(req, filter, existing))
+            .returning();
+          const restored = (restoreResult as any[])[0];
+          if (!restored) {
+            await throwLostUpdate(conn, id, filter);
+          }
+
+          await executeAfterUpdate(hooks, ctx, restored);
+
+          return { existing, restored };
+        });
+
+        // To changelog readers the row reappears, mirroring the delete entry
+        recordCreate(resourceName, id, restored, tenant);
+        await indexDocument(id, restored, tenant);
+
+        await pushSoftDeleteChanges([restored], [existing], tenant);
+
+        sendItem(req, res, restored, 200, access.redact(restored));
+      })
+    );
+  }
+
   return router;
 };
 
@@ -0,0 +1,185 @@
+import { changelog } from "./changelog";
+import { ParsedAggregationParams } from "./query";
+import { AggregationResult, ChangelogEntry } from "./types";
+
+type Row = Record<string, unknown>;
+type Group = AggregationResult["groups"][number];
+type CountedGroup = Group & { count: number };
+
+export interface LiveAggregateOptions {
+  resource: string;
+  params: ParsedAggregationParams;
+  tenant?: string;
+  // Whether a changed row falls inside the stream's filter and scope. Left
+  // out when the filter can't be evaluated in memory, e.g. on relations.
+  matches?: (row: Row) => boolean;
+  // Window in which changes are batched before the aggregation is re-run
+  debounceMs: number;
+  compute: (params: ParsedAggregationParams) => Promise<AggregationResult>;
+  send: (result: AggregationResult) => void;
+}
+
+export interface LiveAggregate {
+  close(): void;
+}
+
+// Count and sum follow from the changed rows alone. Other metrics, date
+// buckets and results shaped by having, orderBy or limit are re-run.
+const isIncremental = (params: ParsedAggregationParams, matches: LiveAggregateOptions["matches"]) =>
+  !!matches &&
+  params.avg.length === 0 &&
+  params.min.length === 0 &&
+  params.max.length === 0 &&
+  !params.countDistinct?.length &&
+  !params.percentile?.length &&
+  Object.keys(params.buckets ?? {}).length === 0 &&
+  !params.having &&
+  !params.orderBy?.length &&
+  params.limit === undefined;
+
+const groupKeyOf = (key: Row | null): string => JSON.stringify(key);
+
+/**
+ * Keeps an aggregation over a resource current as its changelog grows.
+ * The result is sent once computed and again whenever a change alters it.
+ */
+export const openLiveAggregate = async (options: LiveAggregateOptions): Promise<LiveAggregate> => {
+  const { params, matches } = options;
+  const incremental = isIncremental(params, matches);
+  // Incremental streams track counts to know when a group empties
+  const computeParams = incremental ? { ...params, count: true } : params;
+
+  const groups = new Map<string, CountedGroup>();
+  let lastSent: string | undefined;
+  let computing = true;
+  let dirty = false;
+  let closed = false;
+  let timer: NodeJS.Timeout | undefined;
+
+  const emit = (result: AggregationResult) => {
+    const serialized = JSON.stringify(result);
+    if (closed || serialized === lastSent) return;
+    lastSent = serialized;
+    options.send(result);
+  };
+
+  const emitGroups = () => {
+    emit({
+      groups: [...groups.values()].map(({ count, ...group }) =>
+        params.count ? { ...group, count } : group
+      ),
+    });
+  };
+
+  const recompute = async () => {
+    timer = undefined;
+    computing = true;
+    dirty = false;
+
+    try {
+      const result = await options.compute(computeParams);
+      if (incremental) {
+        groups.clear();
+        for (const group of result.groups) {
+          groups.set(groupKeyOf(group.key), { ...group, count: group.count ?? 0 });
+        }
+        emitGroups();
+      } else {
+        emit(result);
+      }
+    } finally {
+      computing = false;
+    }
+
+    if (dirty) schedule();
+  };
+
+  const schedule = () => {
+    if (closed || timer) return;
+    timer = setTimeout(() => {
+      recompute().catch((err) => {
+        console.error(`Failed to recompute live aggregate of ${options.resource}:`, err);
+      });
+    }, options.debounceMs);
+    timer.unref?.();
+  };
+
+  // Adds (sign 1) or removes (sign -1) a row; false when it is outside the stream
+  const apply = (row: Row, sign: 1 | -1): boolean => {
+    if (!matches!(row)) return false;
+
+    const key =
+      params.groupBy.length > 0
+        ? Object.fromEntries(params.groupBy.map((field) => [field, row[field] ?? null]))
+        : null;
+    const groupKey = groupKeyOf(key);
+
+    let group = groups.get(groupKey);
+    if (!group) {
+      if (sign < 0) {
+        // The row was never counted; start over from the database
+        schedule();
+        return false;
+      }
+      group = { key, count: 0, ...(params.sum.length > 0 && { sum: {} }) };
+      groups.set(groupKey, group);
+    }
+
+    group.count += sign;
+    for (const field of params.sum) {
+      const value = row[field];
+      if (value !== null && value !== undefined && !Number.isNaN(Number(value))) {
+        group.sum![field] = (group.sum![field] ?? 0) + sign * Number(value);
+      }
+    }
+
+    if (group.count <= 0) {
+      if (key !== null) {
+        groups.delete(groupKey);
+      } else if (group.sum) {
+        group.sum = {};
+      }
+    }
+    return true;
+  };
+
+  const onEntry = (entry: ChangelogEntry) => {
+    if (closed || entry.resource !== options.resource) return;
+    if (options.tenant !== undefined && entry.tenant !== options.tenant) return;
+
+    // Without the previous row, an update or delete can't be told apart
+    const previousUnknown = entry.type !== "create" && !entry.previousObject;
+
+    if (computing) {
+      dirty = true;
+    } else if (incremental && !previousUnknown) {
+      const removed = entry.previousObject ? apply(entry.previousObject, -1) : false;
+      const added = entry.object ? apply(entry.object, 1) : false;
+      if (removed || added) emitGroups();
+    } else if (
+      !matches ||
+      previousUnknown ||
+      [entry.object, entry.previousObject].some((row) => row && matches(row))
+    ) {
+      schedule();
+    }
+  };
+
+  // Listen before the first query so no change falls in between
+  const stopListening = await changelog.onAppend(onEntry);
+
+  try {
+    await recompute();
+  } catch (error) {
+    stopListening();
+    throw error;
+  }
+
+  return {
+    close: () => {
+      closed = true;
+      stopListening();
+      if (timer) clearTimeout(timer);
+    },
+  };
+};
@@ -67,6 +67,32 @@ export interface MutationOptions {
   skipSubscriptions?: boolean;
 }
 
+export interface TransactionScope {
+  tx: DrizzleTransaction;
+  afterCommit: (fn: () => Promise<void> | void) => void;
+}
+
+/**
+ * Runs `fn` inside a transaction. Callbacks registered with `afterCommit` run
+ * in order once the transaction has committed, and are dropped on rollback.
+ */
+export const runInTransaction = async <R>(
+  db: DrizzleDatabase,
+  fn: (scope: TransactionScope) => Promise<R>
+): Promise<R> => {
+  const callbacks: Array<() => Promise<void> | void> = [];
+
+  const result = await db.transaction((tx: DrizzleTransaction) =>
+    fn({ tx, afterCommit: (cb) => callbacks.push(cb) })
+  );
+
+  for (const cb of callbacks) {
+    await cb();
+  }
+
+  return result;
+};
+
 interface MutationPipelineConfig<TConfig extends TableConfig> {
   schema: Table<TConfig>;
   db: DrizzleDatabase;
@@ -174,11 +200,12 @@ export const createMutationPipeline = <TConfig extends TableConfig>(
         logBypass(options.bypassReason, "create");
       }
 
-      return db.transaction(async (tx: DrizzleTransaction) => {
+      return runInTransaction(db, async ({ tx, afterCommit }) => {
+        const txCtx = { ...ctx, db: tx };
         let processedData = data;
 
         if (!options?.skipHooks && hooks) {
-          const result = await executeBeforeCreate(hooks, ctx, data);
+          const result = await executeBeforeCreate(hooks, txCtx, data);
           if (result) {
             processedData = result;
           }
@@ -190,19 +217,21 @@ export const createMutationPipeline = <TConfig extends TableConfig>(
         const id = String(createdObj[idColumnName]);
 
         if (!options?.skipChangelog) {
-          await changelogRecorder.recordCreate(resourceName, id, createdObj);
+          afterCommit(() => changelogRecorder.recordCreate(resourceName, id, createdObj));
         }
 
         if (!options?.skipHooks && hooks) {
-          await executeAfterCreate(hooks, ctx, created);
+          await executeAfterCreate(hooks, txCtx, created);
         }
 
         if (!options?.skipSubscriptions) {
-          await pushInsertsToSubscriptions(
-            resourceName,
-            filterer as any,
-            [createdObj],
-            idColumnName
+          afterCommit(() =>
+            pushInsertsToSubscriptions(
+              resourceName,
+              filterer as any,
+              [createdObj],
+              idColumnName
+            )
           );
         }
 
@@ -221,7 +250,8 @@ export const createMutationPipeline = <TConfig extends TableConfig>(
         logBypass(options.bypassReason, "update");
       }
 
-      return db.transaction(async (tx: DrizzleTransaction) => {
+      return runInTransaction(db, async ({ tx, afterCommit }) => {
+        const txCtx = { ...ctx, db: tx };
         const existingResult = await tx.select().from(schema).where(filter);
         const existing = existingResult[0] as SelectModel | undefined;
 
@@ -232,7 +262,7 @@ export const createMutationPipeline = <TConfig extends TableConfig>(
         let processedData = data;
 
         if (!options?.skipHooks && hooks) {
-          const result = await executeBeforeUpdate(hooks, ctx, id, data);
+          const result = await executeBeforeUpdate(hooks, txCtx, id, data);
           if (result) {
             processedData = result;
           }
@@ -248,27 +278,26 @@ export const createMutationPipeline = <TConfig extends TableConfig>(
         const existingObj = existing as unknown as Record<string, unknown>;
 
         if (!options?.skipChangelog) {
-          await changelogRecorder.recordUpdate(
-            resourceName,
-            id,
-            updatedObj,
-            existingObj
+          afterCommit(() =>
+            changelogRecorder.recordUpdate(resourceName, id, updatedObj, existingObj)
           );
         }
 
         if (!options?.skipHooks && hooks) {
-          await executeAfterUpdate(hooks, ctx, updated);
+          await executeAfterUpdate(hooks, txCtx, updated);
         }
 
         if (!options?.skipSubscriptions) {
           const previousMap = new Map<string, Record<string, unknown>>();
           previousMap.set(id, existingObj);
-          await pushUpdatesToSubscriptions(
-            resourceName,
-            filterer as any,
-            [updatedObj],
-            idColumnName,
-            previousMap
+          afterCommit(() =>
+            pushUpdatesToSubscriptions(
+              resourceName,
+              filterer as any,
+              [updatedObj],
+              idColumnName,
+              previousMap
+            )
           );
         }
 
@@ -296,7 +325,8 @@ export const createMutationPipeline = <TConfig extends TableConfig>(
         logBypass(options.bypassReason, "delete");
       }
 
-      return db.transaction(async (tx: DrizzleTransaction) => {
+      return runInTransaction(db, async ({ tx, afterCommit }) => {
+        const txCtx = { ...ctx, db: tx };
         const existingResult = await tx.select().from(schema).where(filter);
         const existing = existingResult[0] as SelectModel | undefined;
 
@@ -305,7 +335,7 @@ export const createMutationPipeline = <TConfig extends TableConfig>(
         }
 
         if (!options?.skipHooks && hooks) {
-          await executeBeforeDelete(hooks, ctx, id);
+          await executeBeforeDelete(hooks, txCtx, id);
         }
 
         await tx.delete(schema).where(filter);
@@ -313,15 +343,15 @@ export const createMutationPipeline = <TConfig extends TableConfig>(
         const existingObj = existing as unknown as Record<string, unknown>;
 
         if (!options?.skipChangelog) {
-          await changelogRecorder.recordDelete(resourceName, id, existingObj);
+          afterCommit(() => changelogRecorder.recordDelete(resourceName, id, existingObj));
         }
 
         if (!options?.skipHooks && hooks) {
-          await executeAfterDelete(hooks, ctx, existing);
+          await executeAfterDelete(hooks, txCtx, existing);
         }
 
         if (!options?.skipSubscriptions) {
-          await pushDeletesToSubscriptions(resourceName, [id]);
+          afterCommit(() => pushDeletesToSubscriptions(resourceName, [id], undefined, [existingObj]));
         }
 
         return { item: existing };
@@ -337,13 +367,14 @@ export const createMutationPipeline = <TConfig extends TableConfig>(
         logBypass(options.bypassReason, "batchCreate");
       }
 
-      return db.transaction(async (tx: DrizzleTransaction) => {
+      return runInTransaction(db, async ({ tx, afterCommit }) => {
+        const txCtx = { ...ctx, db: tx };
         const processedItems: InsertModel[] = [];
 
         for (const item of items) {
           let processedData = item;
           if (!options?.skipHooks && hooks) {
-            const result = await executeBeforeCreate(hooks, ctx, item);
+            const result = await executeBeforeCreate(hooks, txCtx, item);
             if (result) {
               processedData = result;
             }
@@ -359,20 +390,22 @@ export const createMutationPipeline = <TConfig extends TableConfig>(
           const id = String(itemObj[idColumnName]);
 
           if (!options?.skipChangelog) {
-            await changelogRecorder.recordCreate(resourceName, id, itemObj);
+            afterCommit(() => changelogRecorder.recordCreate(resourceName, id, itemObj));
           }
 
           if (!options?.skipHooks && hooks) {
-            await executeAfterCreate(hooks, ctx, item);
+            await executeAfterCreate(hooks, txCtx, item);
           }
         }
 
         if (!options?.skipSubscriptions) {
-          await pushInsertsToSubscriptions(
-            resourceName,
-            filterer as any,
-            created as unknown as Record<string, unknown>[],
-            idColumnName
+          afterCommit(() =>
+            pushInsertsToSubscriptions(
+              resourceName,
+              filterer as any,
+              created as unknown as Record<string, unknown>[],
+              idColumnName
+            )
           );
         }
 
@@ -390,7 +423,8 @@ export const createMutationPipeline = <TConfig extends TableConfig>(
         logBypass(options.bypassReason, "batchUpdate");
       }
 
-      return db.transaction(async (tx: DrizzleTransaction) => {
+      return runInTransaction(db, async ({ tx, afterCommit }) => {
+        const txCtx = { ...ctx, db: tx };
         const beforeItems = await tx.select().from(schema).where(filter);
         const previousMap = new Map<string, Record<string, unknown>>();
 
@@ -401,7 +435,7 @@ export const createMutationPipeline = <TConfig extends TableConfig>(
           previousMap.set(id, itemObj);
 
           if (!options?.skipHooks && hooks) {
-            const result = await executeBeforeUpdate(hooks, ctx, id, data);
+            const result = await executeBeforeUpdate(hooks, txCtx, id, data);
             if (result) {
               processedData = result;
             }
@@ -429,26 +463,25 @@ export const createMutationPipeline = <TConfig extends TableConfig>(
           const previousObj = previousMap.get(id);
 
           if (!options?.skipChangelog) {
-            await changelogRecorder.recordUpdate(
-              resourceName,
-              id,
-              itemObj,
-              previousObj
+            afterCommit(() =>
+              changelogRecorder.recordUpdate(resourceName, id, itemObj, previousObj)
             );
           }
 
           if (!options?.skipHooks && hooks) {
-            await executeAfterUpdate(hooks, ctx, item as SelectModel);
+            await executeAfterUpdate(hooks, txCtx, item as SelectModel);
           }
         }
 
         if (!options?.skipSubscriptions) {
-          await pushUpdatesToSubscriptions(
-            resourceName,
-            filterer as any,
-            afterItems as unknown as Record<string, unknown>[],
-            idColumnName,
-            previousMap
+          afterCommit(() =>
+            pushUpdatesToSubscriptions(
+              resourceName,
+              filterer as any,
+              afterItems as unknown as Record<string, unknown>[],
+              idColumnName,
+              previousMap
+            )
           );
         }
 
@@ -469,7 +502,8 @@ export const createMutationPipeline = <TConfig extends TableConfig>(
         logBypass(options.bypassReason, "batchDelete");
       }
 
-      return db.transaction(async (tx: DrizzleTransaction) => {
+      return runInTransaction(db, async ({ tx, afterCommit }) => {
+        const txCtx = { ...ctx, db: tx };
         const items = await tx.select().from(schema).where(filter);
         const deletedIds: string[] = [];
 
@@ -479,7 +513,7 @@ export const createMutationPipeline = <TConfig extends TableConfig>(
           deletedIds.push(id);
 
           if (!options?.skipHooks && hooks) {
-            await executeBeforeDelete(hooks, ctx, id);
+            await executeBeforeDelete(hooks, txCtx, id);
           }
         }
 
@@ -490,16 +524,23 @@ export const createMutationPipeline = <TConfig extends TableConfig>(
           const id = String(itemObj[idColumnName]);
 
           if (!options?.skipChangelog) {
-            await changelogRecorder.recordDelete(resourceName, id, itemObj);
+            afterCommit(() => changelogRecorder.recordDelete(resourceName, id, itemObj));
           }
 
           if (!options?.skipHooks && hooks) {
-            await executeAfterDelete(hooks, ctx, item as SelectModel);
+            await executeAfterDelete(hooks, txCtx, item as SelectModel);
           }
         }
 
         if (!options?.skipSubscriptions) {
-          await pushDeletesToSubscriptions(resourceName, deletedIds);
+          afterCommit(() =>
+            pushDeletesToSubscriptions(
+              resourceName,
+              deletedIds,
+              undefined,
+              items as unknown as Record<string, unknown>[]
+            )
+          );
         }
 
         return { items: items as SelectModel[], count: items.length };
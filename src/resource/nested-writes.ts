@@ -0,0 +1,126 @@
+import { Request } from "express";
+import { AnyColumn, getTableColumns, Table, TableConfig } from "drizzle-orm";
+import { ValidationError } from "./error";
+import { RelationConfig, RelationsConfig } from "./relations";
+import { DrizzleDatabase } from "./types";
+
+export type AfterCommit = (fn: () => Promise<void> | void) => void;
+
+// Rows written to one relation of a parent in the same request body
+export interface NestedWrite {
+  relation: string;
+  config: RelationConfig;
+  create: Record<string, unknown>[];
+  connect: unknown[];
+  disconnect: unknown[];
+}
+
+// What a mounted resource exposes so other resources can write to it
+// inside their own transaction
+export interface NestedWriteTarget {
+  // Creates rows with the target's create scope, field policies and hooks.
+  // `assigned` values (e.g. foreign keys) are set after write policies apply.
+  // Changelog, search and subscriptions are deferred to `afterCommit`.
+  create(
+    req: Request,
+    conn: DrizzleDatabase,
+    rows: Record<string, unknown>[],
+    afterCommit: AfterCommit,
+    assigned?: Record<string, unknown>
+  ): Promise<Record<string, unknown>[]>;
+  // Those of `values` of `column` found in rows the caller may read
+  visibleValues(
+    req: Request,
+    conn: DrizzleDatabase,
+    column: AnyColumn,
+    values: unknown[]
+  ): Promise<unknown[]>;
+}
+
+const isRow = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+const isId = (value: unknown): boolean => typeof value === "string" || typeof value === "number";
+
+const invalid = (relation: string, message: string): never => {
+  throw new ValidationError("Validation failed", [{ field: relation, message }]);
+};
+
+const rowsOf = (relation: string, value: unknown): Record<string, unknown>[] => {
+  if (!Array.isArray(value) || !value.every(isRow)) {
+    return invalid(relation, "Expected an array of objects");
+  }
+  return value;
+};
+
+const idsOf = (relation: string, value: unknown): unknown[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || !value.every(isId)) {
+    return invalid(relation, "Expected an array of ids");
+  }
+  return value;
+};
+
+/**
+ * Separates the keys of `writable` relations from a write body. hasOne takes
+ * a row, hasMany an array of rows, and manyToMany either an array of rows to
+ * create and link or `{ create, connect, disconnect }`. Keys of other
+ * relations are left in the body, where they are ignored like any unknown
+ * field, so an object read with `include` can be written back as it was.
+ */
+export const splitNestedWrites = <T extends Record<string, unknown>>(
+  body: T,
+  relations: RelationsConfig | undefined
+): { data: T; writes: NestedWrite[] } => {
+  if (!relations || !isRow(body)) return { data: body, writes: [] };
+
+  const data: Record<string, unknown> = { ...body };
+  const writes: NestedWrite[] = [];
+
+  for (const [relation, config] of Object.entries(relations)) {
+    const value = data[relation];
+    if (value === undefined || !config.writable) continue;
+    delete data[relation];
+
+    const write: NestedWrite = { relation, config, create: [], connect: [], disconnect: [] };
+
+    switch (config.type) {
+      case "belongsTo":
+        invalid(relation, "belongsTo relations cannot be written through the parent");
+        break;
+      case "hasOne":
+        if (!isRow(value)) invalid(relation, "Expected an object");
+        write.create = [value as Record<string, unknown>];
+        break;
+      case "hasMany":
+        write.create = rowsOf(relation, value);
+        break;
+      case "manyToMany":
+        if (!config.through) invalid(relation, "Relation has no join table");
+        if (Array.isArray(value)) {
+          write.create = rowsOf(relation, value);
+        } else if (isRow(value)) {
+          const unknownKeys = Object.keys(value).filter(
+            (key) => !["create", "connect", "disconnect"].includes(key)
+          );
+          if (unknownKeys.length > 0) {
+            invalid(relation, `Unknown operation: ${unknownKeys.join(", ")}`);
+          }
+          write.create = value.create === undefined ? [] : rowsOf(relation, value.create);
+          write.connect = idsOf(relation, value.connect);
+          write.disconnect = idsOf(relation, value.disconnect);
+        } else {
+          invalid(relation, "Expected an array of objects or { create, connect, disconnect }");
+        }
+        break;
+    }
+
+    writes.push(write);
+  }
+
+  return { data: data as T, writes };
+};
+
+// Property key a column is stored under in rows selected from its table
+export const columnKeyOf = (table: Table<TableConfig>, column: AnyColumn): string =>
+  Object.entries(getTableColumns(table)).find(([, c]) => c === column)?.[0] ?? column.name;
@@ -8,11 +8,15 @@ import {
   avg,
   min,
   max,
+  countDistinct,
+  asc,
+  desc,
   getTableColumns,
   AnyColumn,
 } from "drizzle-orm";
-import { ProjectionParams, AggregationParams, AggregationResult } from "./types";
+import { ProjectionParams, AggregationParams, AggregationResult, DrizzleDatabase } from "./types";
 import { ValidationError } from "./error";
+import { createResourceFilter, DEFAULT_FILTER_CONFIG } from "./filter";
 
 export const parseSelect = (select?: string): string[] | undefined => {
   if (!select) return undefined;
@@ -75,6 +79,22 @@ export const applyProjection = <T extends Record<string, unknown>>(
   });
 };
 
+export type DateBucket = "hour" | "day" | "week" | "month" | "year";
+
+const DATE_BUCKETS: DateBucket[] = ["hour", "day", "week", "month", "year"];
+
+export interface PercentileSpec {
+  field: string;
+  // 1-99
+  percent: number;
+}
+
+export interface AggregationOrder {
+  // A groupBy field or an aggregate alias such as `count` or `sum_total`
+  field: string;
+  direction: "asc" | "desc";
+}
+
 export interface ParsedAggregationParams {
   groupBy: string[];
   sum: string[];
@@ -82,8 +102,24 @@ export interface ParsedAggregationParams {
   min: string[];
   max: string[];
   count: boolean;
+  // groupBy fields given as `field:day`, bucketed in `timezone`
+  buckets?: Record<string, DateBucket>;
+  timezone?: string;
+  countDistinct?: string[];
+  percentile?: PercentileSpec[];
+  // RSQL over groupBy fields and aggregate aliases
+  having?: string;
+  orderBy?: AggregationOrder[];
+  limit?: number;
 }
 
+// Name a metric has in SQL, in `having` and in `orderBy`
+export const aggregateAlias = (metric: string, field?: string): string =>
+  field === undefined ? metric : `${metric}_${field}`;
+
+export const percentileAlias = ({ field, percent }: PercentileSpec): string =>
+  `p${percent}_${field}`;
+
 export const parseAggregationParams = (
   query: Record<string, unknown>
 ): ParsedAggregationParams => {
@@ -101,27 +137,205 @@ export const parseAggregationParams = (
     return [];
   };
 
+  const groupBy: string[] = [];
+  const buckets: Record<string, DateBucket> = {};
+  for (const spec of parseStringArray(query.groupBy)) {
+    const [field, bucket] = spec.split(":") as [string, string | undefined];
+    if (groupBy.includes(field)) {
+      throw new ValidationError(`Duplicate groupBy field: ${field}`);
+    }
+    if (bucket !== undefined) {
+      if (!DATE_BUCKETS.includes(bucket as DateBucket)) {
+        throw new ValidationError(`Invalid date bucket: ${bucket}`, { validBuckets: DATE_BUCKETS });
+      }
+      buckets[field] = bucket as DateBucket;
+    }
+    groupBy.push(field);
+  }
+
+  const percentile = parseStringArray(query.percentile).map((spec) => {
+    const [field, percent] = spec.split(":");
+    const value = Number(percent);
+    if (!field || !Number.isInteger(value) || value < 1 || value > 99) {
+      throw new ValidationError(`Invalid percentile: ${spec}`, {
+        expected: "field:percent, with percent an integer from 1 to 99",
+      });
+    }
+    return { field, percent: value };
+  });
+
+  const orderBy = parseStringArray(query.orderBy).map((spec): AggregationOrder => {
+    const [field, dir = "asc"] = spec.split(":") as [string, string | undefined];
+    if (dir !== "asc" && dir !== "desc") {
+      throw new ValidationError(`Invalid orderBy direction: ${dir}`);
+    }
+    return { field, direction: dir };
+  });
+
+  let limit: number | undefined;
+  if (query.limit !== undefined && query.limit !== "") {
+    limit = Number(query.limit);
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new ValidationError(`Invalid limit: ${query.limit}`);
+    }
+  }
+
   return {
-    groupBy: parseStringArray(query.groupBy),
+    groupBy,
     sum: parseStringArray(query.sum),
     avg: parseStringArray(query.avg),
     min: parseStringArray(query.min),
     max: parseStringArray(query.max),
     count: query.count === "true" || query.count === true,
+    buckets,
+    timezone: typeof query.timezone === "string" && query.timezone ? query.timezone : undefined,
+    countDistinct: parseStringArray(query.countDistinct),
+    percentile,
+    having: typeof query.having === "string" && query.having ? query.having : undefined,
+    orderBy,
+    limit,
   };
 };
 
+// Fields the caller's `aggregatable.metrics` policy must allow
+export const aggregationMetricFields = (params: ParsedAggregationParams): string[] => [
+  ...params.sum,
+  ...params.avg,
+  ...params.min,
+  ...params.max,
+  ...(params.countDistinct ?? []),
+  ...(params.percentile ?? []).map((spec) => spec.field),
+];
+
 export interface AggregationSelections {
-  groupByColumns: Record<string, AnyColumn>;
+  groupByColumns: Record<string, AnyColumn | SQL>;
   aggregateColumns: Record<string, SQL>;
 }
 
+type Dialect = "pg" | "sqlite" | "other";
+
+const dialectOf = (column: AnyColumn): Dialect =>
+  column.columnType.startsWith("Pg")
+    ? "pg"
+    : column.columnType.startsWith("SQLite")
+      ? "sqlite"
+      : "other";
+
+type TimeZone = { offsetMinutes: number } | { name: string };
+
+const parseTimeZone = (timezone: string | undefined): TimeZone => {
+  if (!timezone || timezone === "UTC" || timezone === "Z") return { offsetMinutes: 0 };
+
+  const offset = /^([+-])(\d{2}):?(\d{2})$/.exec(timezone);
+  if (offset) {
+    const [, sign, hours, minutes] = offset;
+    if (Number(hours) > 14 || Number(minutes) > 59) {
+      throw new ValidationError(`Invalid timezone: ${timezone}`);
+    }
+    const total = Number(hours) * 60 + Number(minutes);
+    return { offsetMinutes: sign === "-" ? -total : total };
+  }
+
+  // Zone names end up in SQL text, so only well-formed IANA names pass
+  try {
+    if (!/^[A-Za-z][A-Za-z0-9_+\-/]*$/.test(timezone)) throw new RangeError();
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+  } catch {
+    throw new ValidationError(`Invalid timezone: ${timezone}`);
+  }
+  return { name: timezone };
+};
+
+// Bucket labels sort chronologically: 2024-03-05T14:00, 2024-03-05 (week:
+// its Monday), 2024-03, 2024
+const SQLITE_BUCKET_FORMATS: Record<DateBucket, string> = {
+  hour: "%Y-%m-%dT%H:00",
+  day: "%Y-%m-%d",
+  week: "%Y-%m-%d",
+  month: "%Y-%m",
+  year: "%Y",
+};
+
+const PG_BUCKET_FORMATS: Record<DateBucket, string> = {
+  hour: 'YYYY-MM-DD"T"HH24:00',
+  day: "YYYY-MM-DD",
+  week: "YYYY-MM-DD",
+  month: "YYYY-MM",
+  year: "YYYY",
+};
+
+const buildDateBucket = (
+  field: string,
+  column: AnyColumn,
+  bucket: DateBucket,
+  timezone: string | undefined
+): SQL => {
+  if (column.dataType !== "date" && column.dataType !== "string") {
+    throw new ValidationError(`Cannot bucket non-date field: ${field}`);
+  }
+
+  const zone = parseTimeZone(timezone);
+
+  // Literals are inlined: Postgres only matches GROUP BY to the selected
+  // expression when both are written identically, parameters included
+  switch (dialectOf(column)) {
+    case "sqlite": {
+      if ("name" in zone) {
+        throw new ValidationError(
+          "Time zone names are not supported on SQLite; use a UTC offset such as +02:00"
+        );
+      }
+      const shift = sql.raw(`'${zone.offsetMinutes >= 0 ? "+" : ""}${zone.offsetMinutes} minutes'`);
+      const { columnType, mode } = column as AnyColumn & { mode?: string };
+      const local =
+        columnType === "SQLiteTimestamp"
+          ? mode === "timestamp_ms"
+            ? sql`datetime(${column} / 1000, 'unixepoch', ${shift})`
+            : sql`datetime(${column}, 'unixepoch', ${shift})`
+          : sql`datetime(${column}, ${shift})`;
+      const format = sql.raw(`'${SQLITE_BUCKET_FORMATS[bucket]}'`);
+      return bucket === "week"
+        ? sql`strftime(${format}, ${local}, 'weekday 0', '-6 days')`
+        : sql`strftime(${format}, ${local})`;
+    }
+    case "pg": {
+      const { columnType, withTimezone } = column as AnyColumn & { withTimezone?: boolean };
+      let local: SQL;
+      if (columnType === "PgDate" || columnType === "PgDateString") {
+        local = sql`${column}`;
+      } else {
+        const instant =
+          column.dataType === "string" && !columnType.startsWith("PgTimestamp")
+            ? sql`(${column})::timestamptz`
+            : withTimezone
+              ? sql`${column}`
+              : sql`(${column} AT TIME ZONE 'UTC')`;
+        local =
+          "name" in zone
+            ? sql`(${instant} AT TIME ZONE ${sql.raw(`'${zone.name}'`)})`
+            : sql`((${instant} AT TIME ZONE 'UTC') + interval ${sql.raw(`'${zone.offsetMinutes} minutes'`)})`;
+      }
+      const format = sql.raw(`'${PG_BUCKET_FORMATS[bucket]}'`);
+      return sql`to_char(date_trunc(${sql.raw(`'${bucket}'`)}, ${local}), ${format})`;
+    }
+    default:
+      throw new ValidationError("Date buckets are not supported on this database");
+  }
+};
+
+const buildPercentile = (field: string, column: AnyColumn, percent: number): SQL => {
+  if (dialectOf(column) !== "pg") {
+    throw new ValidationError(`Percentiles are not supported on this database: ${field}`);
+  }
+  return sql`percentile_cont(${sql.raw(String(percent / 100))}) within group (order by ${column})`;
+};
+
 export const buildAggregationSelections = <TConfig extends TableConfig>(
   schema: Table<TConfig>,
   params: ParsedAggregationParams
 ): AggregationSelections => {
   const columns = getTableColumns(schema);
-  const groupByColumns: Record<string, AnyColumn> = {};
+  const groupByColumns: Record<string, AnyColumn | SQL> = {};
   const aggregateColumns: Record<string, SQL> = {};
 
   for (const field of params.groupBy) {
@@ -129,7 +343,10 @@ export const buildAggregationSelections = <TConfig extends TableConfig>(
     if (!column) {
       throw new ValidationError(`Invalid groupBy field: ${field}`);
     }
-    groupByColumns[field] = column;
+    const bucket = params.buckets?.[field];
+    groupByColumns[field] = bucket
+      ? buildDateBucket(field, column, bucket, params.timezone)
+      : column;
   }
 
   for (const field of params.sum) {
@@ -137,7 +354,7 @@ export const buildAggregationSelections = <TConfig extends TableConfig>(
     if (!column) {
       throw new ValidationError(`Invalid sum field: ${field}`);
     }
-    aggregateColumns[`sum_${field}`] = sum(column);
+    aggregateColumns[aggregateAlias("sum", field)] = sum(column);
   }
 
   for (const field of params.avg) {
@@ -145,7 +362,7 @@ export const buildAggregationSelections = <TConfig extends TableConfig>(
     if (!column) {
       throw new ValidationError(`Invalid avg field: ${field}`);
     }
-    aggregateColumns[`avg_${field}`] = avg(column);
+    aggregateColumns[aggregateAlias("avg", field)] = avg(column);
   }
 
   for (const field of params.min) {
@@ -153,7 +370,7 @@ export const buildAggregationSelections = <TConfig extends TableConfig>(
     if (!column) {
       throw new ValidationError(`Invalid min field: ${field}`);
     }
-    aggregateColumns[`min_${field}`] = min(column);
+    aggregateColumns[aggregateAlias("min", field)] = min(column);
   }
 
   for (const field of params.max) {
@@ -161,7 +378,23 @@ export const buildAggregationSelections = <TConfig extends TableConfig>(
     if (!column) {
       throw new ValidationError(`Invalid max field: ${field}`);
     }
-    aggregateColumns[`max_${field}`] = max(column);
+    aggregateColumns[aggregateAlias("max", field)] = max(column);
+  }
+
+  for (const field of params.countDistinct ?? []) {
+    const column = columns[field];
+    if (!column) {
+      throw new ValidationError(`Invalid countDistinct field: ${field}`);
+    }
+    aggregateColumns[aggregateAlias("countDistinct", field)] = countDistinct(column);
+  }
+
+  for (const spec of params.percentile ?? []) {
+    const column = columns[spec.field];
+    if (!column) {
+      throw new ValidationError(`Invalid percentile field: ${spec.field}`);
+    }
+    aggregateColumns[percentileAlias(spec)] = buildPercentile(spec.field, column, spec.percent);
   }
 
   if (params.count) {
@@ -171,6 +404,75 @@ export const buildAggregationSelections = <TConfig extends TableConfig>(
   return { groupByColumns, aggregateColumns };
 };
 
+// HAVING clause: RSQL over the groupBy fields and aliases of this request
+export const buildAggregationHaving = <TConfig extends TableConfig>(
+  schema: Table<TConfig>,
+  having: string | undefined,
+  { groupByColumns, aggregateColumns }: AggregationSelections
+): SQL | undefined => {
+  if (!having) return undefined;
+
+  const filter = createResourceFilter(schema, {}, DEFAULT_FILTER_CONFIG, {}, {
+    ...groupByColumns,
+    ...aggregateColumns,
+  });
+  return filter.convert(having) as SQL;
+};
+
+export const buildAggregationOrderBy = (
+  orderBy: AggregationOrder[] | undefined,
+  { groupByColumns, aggregateColumns }: AggregationSelections
+): SQL[] =>
+  (orderBy ?? []).map(({ field, direction }) => {
+    const expression = groupByColumns[field] ?? aggregateColumns[field];
+    if (!expression) {
+      throw new ValidationError(`Invalid orderBy field: ${field}`, {
+        validFields: [...Object.keys(groupByColumns), ...Object.keys(aggregateColumns)],
+      });
+    }
+    return direction === "desc" ? desc(expression) : asc(expression);
+  });
+
+// Runs the aggregation over the rows matching `filter`
+export const executeAggregation = async <TConfig extends TableConfig>(
+  db: DrizzleDatabase,
+  schema: Table<TConfig>,
+  params: ParsedAggregationParams,
+  filter: SQL | undefined
+): Promise<AggregationResult> => {
+  const selections = buildAggregationSelections(schema, params);
+  const having = buildAggregationHaving(schema, params.having, selections);
+  const orderBy = buildAggregationOrderBy(params.orderBy, selections);
+
+  let query = db
+    .select({ ...selections.groupByColumns, ...selections.aggregateColumns } as any)
+    .from(schema)
+    .$dynamic();
+
+  if (filter) {
+    query = query.where(filter);
+  }
+
+  const groupBy = Object.values(selections.groupByColumns);
+  if (groupBy.length > 0) {
+    query = query.groupBy(...groupBy);
+  }
+
+  if (having) {
+    query = query.having(having);
+  }
+
+  if (orderBy.length > 0) {
+    query = query.orderBy(...orderBy);
+  }
+
+  if (params.limit !== undefined) {
+    query = query.limit(params.limit);
+  }
+
+  return transformAggregationResults((await query) as Record<string, unknown>[], params);
+};
+
 export const transformAggregationResults = (
   results: Record<string, unknown>[],
   params: ParsedAggregationParams
@@ -233,6 +535,23 @@ export const transformAggregationResults = (
       }
     }
 
+    if (params.countDistinct?.length) {
+      group.countDistinct = {};
+      for (const field of params.countDistinct) {
+        group.countDistinct[field] = Number(row[aggregateAlias("countDistinct", field)] ?? 0);
+      }
+    }
+
+    if (params.percentile?.length) {
+      group.percentile = {};
+      for (const spec of params.percentile) {
+        const value = row[percentileAlias(spec)];
+        if (value !== null && value !== undefined) {
+          (group.percentile[spec.field] ??= {})[`p${spec.percent}`] = Number(value);
+        }
+      }
+    }
+
     return group;
   });
 
@@ -265,6 +584,8 @@ export const createQueryHelper = <TConfig extends TableConfig>(
         query.avg ||
         query.min ||
         query.max ||
+        query.countDistinct ||
+        query.percentile ||
         query.count === "true" ||
         query.count === true
       );
@@ -29,7 +29,11 @@ export interface RelationConfig<
   strategy?: "eager" | "lazy";
   defaultSelect?: string[];
   filterable?: boolean;
-  subscribeToChanges?: boolean;
+  // Subscriptions including this relation get `changed` events when related
+  // rows change, batched over `debounceMs`
+  subscribeToChanges?: boolean | { debounceMs?: number };
+  // Accept rows for this relation in the parent's create and update bodies
+  writable?: boolean;
   condition?: (
     source: Table<TSourceConfig>,
     target: Table<TTargetConfig>
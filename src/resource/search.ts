@@ -1,8 +1,17 @@
 import { Request, Response, NextFunction } from "express";
-import { getGlobalSearch, hasGlobalSearch, SearchConfig } from "@/search";
+import { Column, SQL, Table } from "drizzle-orm";
+import {
+  getGlobalSearch,
+  hasGlobalSearch,
+  FacetRequest,
+  SearchConfig,
+  SearchScope,
+} from "@/search";
 import { ValidationError, SearchError } from "./error";
 import { ScopeResolver } from "@/auth/scope";
 import { UserContext } from "./types";
+import { FieldAccess } from "./capabilities";
+import { tenantIndexName } from "./tenant";
 
 const ISO_DATE_REGEX =
   /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}:\d{2}(\.\d{1,3})?(Z|[+-]\d{2}:?\d{2})?)?$/;
@@ -213,14 +222,79 @@ const executeFilter = (
   return true;
 };
 
+const FACET_FIELD = /^[A-Za-z_][A-Za-z0-9_.]*$/;
+
+const parseFlag = (value: unknown): boolean | undefined => {
+  if (value === "true" || value === "1") return true;
+  if (value === "false" || value === "0") return false;
+  return undefined;
+};
+
+// Facets named in ?facets=. Once a resource configures facets, only those
+// may be requested; otherwise each name is a terms facet on that field.
+const resolveFacets = (param: string, config: SearchConfig): FacetRequest[] =>
+  param
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean)
+    .map((name): FacetRequest => {
+      if (config.facets) {
+        const facet = config.facets[name];
+        if (!facet) {
+          throw new ValidationError(`Unknown facet '${name}'`, {
+            available: Object.keys(config.facets),
+          });
+        }
+        return { ...facet, name, field: facet.field ?? name };
+      }
+      if (!FACET_FIELD.test(name)) {
+        throw new ValidationError(`Invalid facet '${name}'`);
+      }
+      return { name, type: "terms", field: name };
+    });
+
 export interface SearchHandlerOptions {
   scopeResolver: ScopeResolver;
   getUser: (req: Request) => UserContext | null;
   filterer: {
     execute: (expr: string, obj: unknown) => boolean;
   };
+  getFieldAccess?: (req: Request) => Promise<FieldAccess>;
+  getTenant?: (req: Request) => Promise<string | undefined>;
+  // Read scope and filter compiled for the table, for adapters with
+  // `supportsScope` that apply them instead of filtering hits here
+  sqlScope?: {
+    table: Table;
+    idColumn: Column;
+    where: (req: Request) => Promise<SQL | undefined>;
+    // Ids of up to `limit` rows within the read scope and filter
+    ids: (req: Request, limit: number) => Promise<string[]>;
+  };
 }
 
+// Most ids an "ids" adapter is sent to scope facets with
+const MAX_SCOPE_IDS = 10000;
+
+const combineFilters = (authScope: string | null, userFilter: string | undefined): string => {
+  const filter = userFilter?.trim() ?? "";
+  if (!authScope || authScope === "*") return filter;
+  return filter ? `(${authScope});(${filter})` : authScope;
+};
+
+// Read scope and user filter as a check on indexed documents
+const scopePredicate = (
+  options: SearchHandlerOptions | undefined,
+  authScope: string | null,
+  userFilter: string | undefined
+): ((document: Record<string, unknown>) => boolean) | undefined => {
+  if (options && authScope && authScope !== "*") {
+    const combinedFilter = combineFilters(authScope, userFilter);
+    return (document) => options.filterer.execute(combinedFilter, document);
+  }
+  const filter = userFilter ? parseSimpleFilter(userFilter) : null;
+  return filter ? (document) => executeFilter(filter, document) : undefined;
+};
+
 export const createSearchHandler = (
   config: SearchConfig,
   tableName: string,
@@ -240,17 +314,60 @@ export const createSearchHandler = (
     }
 
     let authScope: string | null = null;
-    if (options) {
-      try {
+    let fieldAccess: FieldAccess | undefined;
+    let tenant: string | undefined;
+    let facets: FacetRequest[] | undefined;
+    let scope: SearchScope | undefined;
+    const userFilter = req.query.filter as string | undefined;
+    try {
+      if (req.query.facets) {
+        facets = resolveFacets(String(req.query.facets), config);
+      }
+
+      if (options) {
         const user = options.getUser(req);
-        const scope = await options.scopeResolver.resolve("read", user);
-        authScope = scope.toString();
-      } catch (err) {
-        return next(err);
+        tenant = await options.getTenant?.(req);
+        authScope = (await options.scopeResolver.resolve("read", user, tenant)).toString();
+        fieldAccess = await options.getFieldAccess?.(req);
+        fieldAccess?.checkFilter(userFilter);
+        // Bucket counts are a group-by over the field
+        fieldAccess?.checkAggregation(facets?.map((f) => f.field.split(".")[0]!) ?? [], []);
+
+        if (options.sqlScope && search.supportsScope === "sql") {
+          const { table, idColumn, where } = options.sqlScope;
+          scope = { table, idColumn, where: await where(req) };
+        } else if (options.sqlScope && search.supportsScope === "predicate") {
+          const { table, idColumn } = options.sqlScope;
+          scope = { table, idColumn, matches: scopePredicate(options, authScope, userFilter) };
+        } else if (
+          options.sqlScope &&
+          search.supportsScope === "ids" &&
+          facets &&
+          combineFilters(authScope, userFilter)
+        ) {
+          // Otherwise hits are filtered here, but facets must be counted
+          // over readable rows by the adapter itself
+          const { table, idColumn, ids } = options.sqlScope;
+          const readable = await ids(req, MAX_SCOPE_IDS + 1);
+          if (readable.length > MAX_SCOPE_IDS) {
+            throw new ValidationError(
+              `Facets need a filter matching at most ${MAX_SCOPE_IDS} readable rows`
+            );
+          }
+          scope = { table, idColumn, ids: readable };
+        }
+      }
+
+      // Counts over unfiltered hits would include rows the caller can't read
+      if (facets && !scope && combineFilters(authScope, userFilter)) {
+        throw new ValidationError("This search adapter can't compute facets over a read scope or filter");
       }
+    } catch (err) {
+      return next(err);
     }
 
-    const indexName = config.indexName ?? tableName;
+    const baseIndexName = config.indexName ?? tableName;
+    const indexName = tenant ? tenantIndexName(baseIndexName, tenant) : baseIndexName;
     const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
     const offset = parseInt(req.query.offset as string) || 0;
 
@@ -272,6 +389,12 @@ export const createSearchHandler = (
       }
     }
 
+    // Matching on a hidden field would reveal its content
+    if (fieldAccess && fieldAccess.hidden.length > 0) {
+      const hiddenFields = new Set(fieldAccess.hidden);
+      fields = (fields ?? fieldAccess.policies?.readable)?.filter((f) => !hiddenFields.has(f));
+    }
+
     try {
       const result = await search.search(indexName, {
         query,
@@ -280,47 +403,43 @@ export const createSearchHandler = (
         from: offset,
         size: limit,
         highlight: req.query.highlight === "true",
+        fuzzy: parseFlag(req.query.fuzzy),
+        prefix: parseFlag(req.query.prefix),
+        facets,
+        scope,
       });
 
       let items = result.hits.map((hit) => hit.source);
-      const userFilter = req.query.filter as string | undefined;
-
-      if (options && authScope && authScope !== "*") {
-        let combinedFilter: string;
-        if (!userFilter || userFilter.trim() === "") {
-          combinedFilter = authScope;
-        } else {
-          combinedFilter = `(${authScope});(${userFilter})`;
-        }
 
-        if (combinedFilter) {
-          items = items.filter((item) =>
-            options.filterer.execute(combinedFilter, item)
-          );
-        }
-      } else if (userFilter) {
-        const filter = parseSimpleFilter(userFilter);
-        if (filter) {
-          items = items.filter((item) =>
-            executeFilter(filter, item as Record<string, unknown>)
-          );
-        }
+      // A scoped adapter has already filtered its hits
+      const matches = scope ? undefined : scopePredicate(options, authScope, userFilter);
+      if (matches) {
+        items = items.filter((item) => matches(item as Record<string, unknown>));
       }
 
       const itemIds = new Set(items.map((item) => String((item as Record<string, unknown>).id)));
+      const hidden = new Set(fieldAccess?.hidden ?? []);
       const highlights =
         req.query.highlight === "true"
           ? Object.fromEntries(
               result.hits
                 .filter((h) => h.highlights && itemIds.has(String(h.id)))
-                .map((h) => [h.id, h.highlights])
+                .map((h) => [
+                  h.id,
+                  Object.fromEntries(
+                    Object.entries(h.highlights!).filter(([field]) => !hidden.has(field))
+                  ),
+                ])
             )
           : undefined;
 
       res.json({
-        items,
-        total: items.length,
+        items: fieldAccess
+          ? items.map((item) => fieldAccess.redact(item as Record<string, unknown>))
+          : items,
+        total: scope ? result.total : items.length,
         ...(highlights && Object.keys(highlights).length > 0 && { highlights }),
+        ...(result.facets && { facets: result.facets }),
       });
     } catch (err) {
       const error = err as Error;
@@ -4,7 +4,6 @@ import {
   SQL,
   and,
   count,
-  getTableColumns,
   InferSelectModel,
   AnyColumn,
 } from "drizzle-orm";
@@ -16,14 +15,11 @@ import {
   UserContext,
   AggregationParams,
 } from "./types";
-import {
-  buildAggregationSelections,
-  transformAggregationResults,
-  ParsedAggregationParams,
-} from "./query";
+import { parseAggregationParams, executeAggregation } from "./query";
 
 export interface SecureQueryContext {
   user: UserContext | null;
+  tenant?: string;
   bypassReason?: string;
 }
 
@@ -131,7 +127,7 @@ export const createSecureQueryBuilder = <TConfig extends TableConfig>(
       return filterer.convert(filterQuery) as SQL<unknown>;
     }
 
-    const scope = await scopeResolver.resolve(operation, ctx.user);
+    const scope = await scopeResolver.resolve(operation, ctx.user, ctx.tenant);
     const filterQuery = additionalFilter ?? "";
     const combinedFilter = combineScopes(scope, filterQuery);
 
@@ -211,44 +207,11 @@ export const createSecureQueryBuilder = <TConfig extends TableConfig>(
     ): Promise<SecureAggregateResult> {
       const filter = await buildFilter(defaultOperation, additionalFilter);
 
-      // Convert to ParsedAggregationParams with defaults
-      const parsedParams: ParsedAggregationParams = {
-        groupBy: params.groupBy ?? [],
-        sum: params.sum ?? [],
-        avg: params.avg ?? [],
-        min: params.min ?? [],
-        max: params.max ?? [],
-        count: params.count ?? false,
-      };
-
-      const { groupByColumns, aggregateColumns } = buildAggregationSelections(
+      return executeAggregation(
+        db,
         schema,
-        parsedParams
-      );
-
-      const columns = getTableColumns(schema);
-      const selectObj: Record<string, unknown> = {
-        ...groupByColumns,
-        ...aggregateColumns,
-      };
-
-      let query = db.select(selectObj).from(schema);
-
-      if (filter) {
-        query = query.where(filter);
-      }
-
-      if (parsedParams.groupBy.length > 0) {
-        const groupByCols = parsedParams.groupBy
-          .map((f) => columns[f])
-          .filter(Boolean);
-        query = query.groupBy(...groupByCols);
-      }
-
-      const results = await query;
-      return transformAggregationResults(
-        results as Record<string, unknown>[],
-        parsedParams
+        parseAggregationParams(params as Record<string, unknown>),
+        filter
       );
     },
 
@@ -315,7 +278,7 @@ export const createSecureMutationBuilder = <TConfig extends TableConfig>(
       if (bypassReason) {
         logAdminMutation(bypassReason, "insert");
       } else {
-        await scopeResolver.requirePermission("create", ctx.user);
+        await scopeResolver.requirePermission("create", ctx.user, ctx.tenant);
       }
 
       const items = Array.isArray(data) ? data : [data];
@@ -0,0 +1,251 @@
+import { IncomingMessage, Server } from "http";
+import { Duplex } from "stream";
+import { Request } from "express";
+import { getTableName, Table } from "drizzle-orm";
+import { WebSocketServer, WebSocket, RawData } from "ws";
+import { v4 as uuidv4 } from "uuid";
+import { changelog } from "./changelog";
+import {
+  registerHandler,
+  unregisterHandler,
+  resolveSubscriptionEndpoint,
+  normalizeMountPath,
+  createSubscriptionSink,
+  BackpressureOptions,
+  OpenedSubscription,
+} from "./subscription";
+import { ResourceError } from "./error";
+import { UserContext } from "./types";
+
+export interface SubscriptionSocketOptions {
+  server: Server;
+  path?: string;
+  heartbeatMs?: number;
+  // Resource tables by the path they are mounted at, e.g. `{ "/api/todos": todos }`.
+  // Without an entry a resource resolves by its table name, or by its mount
+  // path once it has served an HTTP request.
+  resources?: Record<string, Table>;
+  // Resolves the user from the upgrade request. Required unless
+  // `allowAnonymous` is set, since HTTP auth middleware never sees the socket.
+  authenticate?: (req: IncomingMessage) => Promise<UserContext | null> | UserContext | null;
+  // Serves sockets without `authenticate`; every subscription is anonymous
+  // and only public scopes let it through
+  allowAnonymous?: boolean;
+}
+
+export interface SubscriptionSocket {
+  wss: WebSocketServer;
+  close(): Promise<void>;
+}
+
+// Client -> server
+export type SocketClientMessage =
+  | { type: "subscribe"; ref: string; resource: string; params?: Record<string, string> }
+  | { type: "unsubscribe"; subscriptionId: string };
+
+// Server -> client; `event` carries the same payloads as SSE `data:` lines
+export type SocketServerMessage =
+  | { type: "subscribed"; ref: string; subscriptionId: string; seq: number }
+  | { type: "event"; event: unknown }
+  | { type: "error"; ref?: string; status: number; code: string; message: string };
+
+const DEFAULT_PATH = "/__concave/subscriptions";
+// Close code for sockets whose `authenticate` threw or rejected
+export const AUTH_FAILED_CLOSE_CODE = 4401;
+
+/**
+ * Serves subscriptions for every resource over one WebSocket per client.
+ * Each `subscribe` message goes through the resource's own subscribe logic,
+ * so scopes, field policies, resumeFrom and backpressure behave as on SSE.
+ */
+export const createSubscriptionSocket = (
+  options: SubscriptionSocketOptions
+): SubscriptionSocket => {
+  if (!options.authenticate && !options.allowAnonymous) {
+    throw new Error(
+      "createSubscriptionSocket needs `authenticate`, or `allowAnonymous: true` to serve anonymous sockets"
+    );
+  }
+
+  const path = options.path ?? DEFAULT_PATH;
+  const mounts = new Map(
+    Object.entries(options.resources ?? {}).map(([mountPath, table]) => [
+      normalizeMountPath(mountPath),
+      getTableName(table),
+    ])
+  );
+  const heartbeatMs = options.heartbeatMs ?? 20000;
+  const wss = new WebSocketServer({ noServer: true });
+
+  const onUpgrade = (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+    if (pathname !== path) return;
+
+    wss.handleUpgrade(req, socket, head, (ws) => wss.emit("connection", ws, req));
+  };
+  options.server.on("upgrade", onUpgrade);
+
+  wss.on("connection", (ws: WebSocket, upgradeReq: IncomingMessage) => {
+    const handlerId = uuidv4();
+    const subscriptions = new Map<string, OpenedSubscription>();
+    const backpressure = new Map<string, BackpressureOptions>();
+    let closed = false;
+
+    const send = (message: SocketServerMessage) => {
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.send(JSON.stringify(message));
+      }
+    };
+
+    registerHandler(
+      handlerId,
+      createSubscriptionSink(
+        {
+          write: (payload) => ws.send(payload),
+          bufferedBytes: () => ws.bufferedAmount,
+          isOpen: () => ws.readyState === WebSocket.OPEN,
+          close: () => ws.terminate(),
+        },
+        (event) => JSON.stringify({ type: "event", event }),
+        (subscriptionId) => backpressure.get(subscriptionId)
+      )
+    );
+
+    let alive = true;
+    ws.on("pong", () => {
+      alive = true;
+    });
+    const heartbeat = setInterval(() => {
+      if (!alive) {
+        ws.terminate();
+        return;
+      }
+      alive = false;
+      ws.ping();
+    }, heartbeatMs);
+
+    // A failed authenticate closes the socket; nothing is subscribed with it
+    let authFailed = false;
+    const rejectAuth = (error: unknown): null => {
+      authFailed = true;
+      console.error("Subscription socket authentication failed:", error);
+      ws.close(AUTH_FAILED_CLOSE_CODE, "Authentication failed");
+      return null;
+    };
+
+    let userPromise: Promise<UserContext | null>;
+    try {
+      userPromise = Promise.resolve(options.authenticate?.(upgradeReq) ?? null).catch(rejectAuth);
+    } catch (error) {
+      userPromise = Promise.resolve(rejectAuth(error));
+    }
+
+    const subscribe = async (message: Extract<SocketClientMessage, { type: "subscribe" }>) => {
+      const endpoint = resolveSubscriptionEndpoint(message.resource, mounts);
+      if (!endpoint) {
+        send({
+          type: "error",
+          ref: message.ref,
+          status: 404,
+          code: "NOT_FOUND",
+          message: `No subscribable resource at ${message.resource}`,
+        });
+        return;
+      }
+
+      const user = await userPromise;
+      if (authFailed) return;
+
+      // The resource's subscribe logic reads the same fields an SSE request has
+      const req = {
+        user,
+        query: message.params ?? {},
+        headers: upgradeReq.headers,
+        ip: upgradeReq.socket.remoteAddress,
+        socket: upgradeReq.socket,
+      } as unknown as Request;
+
+      const seq = await changelog.getCurrentSequence();
+      const opened = await endpoint.open(req, handlerId, (subscriptionId) => {
+        backpressure.set(subscriptionId, endpoint.backpressure);
+        send({ type: "subscribed", ref: message.ref, subscriptionId, seq });
+      });
+
+      if (closed) {
+        await opened.close();
+        return;
+      }
+      subscriptions.set(opened.subscriptionId, opened);
+    };
+
+    const unsubscribe = async (subscriptionId: string) => {
+      const opened = subscriptions.get(subscriptionId);
+      if (!opened) return;
+
+      subscriptions.delete(subscriptionId);
+      backpressure.delete(subscriptionId);
+      await opened.close();
+    };
+
+    ws.on("message", async (data: RawData) => {
+      let message: SocketClientMessage;
+      try {
+        message = JSON.parse(data.toString());
+      } catch {
+        send({ type: "error", status: 400, code: "VALIDATION_ERROR", message: "Invalid JSON" });
+        return;
+      }
+
+      try {
+        switch (message.type) {
+          case "subscribe":
+            await subscribe(message);
+            break;
+          case "unsubscribe":
+            await unsubscribe(message.subscriptionId);
+            break;
+          default:
+            send({
+              type: "error",
+              status: 400,
+              code: "VALIDATION_ERROR",
+              message: "Unknown message type",
+            });
+        }
+      } catch (error) {
+        send({
+          type: "error",
+          ref: message.type === "subscribe" ? message.ref : undefined,
+          status: error instanceof ResourceError ? error.statusCode : 500,
+          code: error instanceof ResourceError ? error.code : "INTERNAL_ERROR",
+          message: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    });
+
+    ws.on("close", async () => {
+      closed = true;
+      clearInterval(heartbeat);
+
+      const opened = Array.from(subscriptions.values());
+      subscriptions.clear();
+      try {
+        await unregisterHandler(handlerId);
+        await Promise.all(opened.map((subscription) => subscription.close()));
+      } catch (error) {
+        console.error("Failed to close socket subscriptions:", error);
+      }
+    });
+  });
+
+  return {
+    wss,
+    close: async () => {
+      options.server.off("upgrade", onUpgrade);
+      for (const client of wss.clients) {
+        client.terminate();
+      }
+      await new Promise<void>((resolve) => wss.close(() => resolve()));
+    },
+  };
+};
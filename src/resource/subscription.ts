@@ -1,5 +1,5 @@
 import { v4 as uuidv4 } from "uuid";
-import { Response } from "express";
+import { Request, Response } from "express";
 import { Filter, CompiledFilterExpression } from "./filter";
 import { changelog } from "./changelog";
 import {
@@ -11,12 +11,171 @@ import {
   InvalidateEvent,
   ExistingEvent,
   ChangelogEntry,
+  HiddenFieldsMap,
 } from "./types";
+import { redactHiddenFields } from "./capabilities";
+import { parseInclude } from "./relations";
+import { tenantKey } from "./tenant";
 import { getGlobalKV, hasGlobalKV, KVAdapter } from "../kv";
+import { backpressureEvents } from "../middleware/metrics";
+
+// Where a handler's events are written: an SSE response or a WebSocket connection
+export interface SubscriptionSink {
+  send(event: SubscriptionEvent): boolean;
+  isOpen(): boolean;
+  // Called once the connection's handler is unregistered
+  release?(): void;
+}
+
+export interface BackpressureOptions {
+  maxQueueBytes: number;
+  onBackpressure: "drop" | "invalidate" | "disconnect";
+}
+
+export interface SinkConnection {
+  write(payload: string): void;
+  bufferedBytes(): number;
+  isOpen(): boolean;
+  close(): void;
+}
+
+// Sink connections whose handler is registered, read when exporting queue
+// metrics. Each one leaves when its handler is unregistered.
+const sinkConnections = new Set<SinkConnection>();
+
+export const getSinkStats = (): { connections: number; queuedBytes: number } => {
+  let queuedBytes = 0;
+  for (const connection of sinkConnections) {
+    queuedBytes += connection.bufferedBytes();
+  }
+  return { connections: sinkConnections.size, queuedBytes };
+};
+
+// Applies the backpressure policy once a slow client's unsent buffer passes
+// maxQueueBytes. An invalidated subscription receives nothing further; the
+// client refetches and subscribes again.
+export const createSubscriptionSink = (
+  connection: SinkConnection,
+  encode: (event: SubscriptionEvent) => string,
+  backpressureFor: (subscriptionId: string) => BackpressureOptions | undefined
+): SubscriptionSink => {
+  const invalidated = new Set<string>();
+  sinkConnections.add(connection);
+
+  return {
+    isOpen: () => connection.isOpen(),
+    release: () => {
+      sinkConnections.delete(connection);
+    },
+
+    send(event) {
+      if (!connection.isOpen()) return false;
+      if (invalidated.has(event.subscriptionId)) return true;
+
+      const backpressure = backpressureFor(event.subscriptionId);
+      if (backpressure && connection.bufferedBytes() > backpressure.maxQueueBytes) {
+        backpressureEvents.inc({ policy: backpressure.onBackpressure });
+        switch (backpressure.onBackpressure) {
+          case "drop":
+            return true;
+          case "disconnect":
+            connection.close();
+            return true;
+          case "invalidate": {
+            invalidated.add(event.subscriptionId);
+            const invalidate: InvalidateEvent = {
+              id: uuidv4(),
+              subscriptionId: event.subscriptionId,
+              seq: event.seq,
+              timestamp: Date.now(),
+              type: "invalidate",
+              reason: "Client too slow - please refetch",
+            };
+            connection.write(encode(invalidate));
+            return true;
+          }
+        }
+      }
+
+      try {
+        connection.write(encode(event));
+        return true;
+      } catch {
+        return false;
+      }
+    },
+  };
+};
+
+export const createSSESink = (
+  res: Response,
+  backpressure?: BackpressureOptions
+): SubscriptionSink =>
+  createSubscriptionSink(
+    {
+      write: (payload) => res.write(payload),
+      bufferedBytes: () => res.writableLength ?? 0,
+      isOpen: () => !res.writableEnded,
+      close: () => res.end(),
+    },
+    (event) => `data: ${JSON.stringify(event)}\n\n`,
+    () => backpressure
+  );
+
+const isSink = (handler: Response | SubscriptionSink): handler is SubscriptionSink =>
+  typeof (handler as SubscriptionSink).send === "function" &&
+  typeof (handler as SubscriptionSink).isOpen === "function";
+
+export interface OpenedSubscription {
+  subscriptionId: string;
+  close(): Promise<void>;
+}
+
+// A resource's subscribe logic, exposed so transports other than its own SSE
+// route (the multiplexed WebSocket) can open subscriptions on it
+export interface SubscriptionEndpoint {
+  resource: string;
+  mountPath?: string;
+  backpressure: BackpressureOptions;
+  open(
+    req: Request,
+    handlerId: string,
+    onCreated?: (subscriptionId: string) => void
+  ): Promise<OpenedSubscription>;
+}
+
+const subscriptionEndpoints = new Map<string, SubscriptionEndpoint>();
+
+export const registerSubscriptionEndpoint = (endpoint: SubscriptionEndpoint): void => {
+  subscriptionEndpoints.set(endpoint.resource, endpoint);
+};
+
+export const normalizeMountPath = (path: string): string =>
+  "/" + path.replace(/^\/+|\/+$/g, "");
+
+// Matches the path a client uses for the resource: a mount path passed in by
+// the caller, the mount path seen on the resource's first HTTP request,
+// otherwise the last path segment as the resource name
+export const resolveSubscriptionEndpoint = (
+  path: string,
+  mounts?: Map<string, string>
+): SubscriptionEndpoint | undefined => {
+  const normalized = normalizeMountPath(path);
+
+  const mounted = mounts?.get(normalized);
+  if (mounted) return subscriptionEndpoints.get(mounted);
+
+  for (const endpoint of subscriptionEndpoints.values()) {
+    if (endpoint.mountPath === normalized) return endpoint;
+  }
+
+  const segments = normalized.split("/");
+  return subscriptionEndpoints.get(segments[segments.length - 1]!);
+};
 
 // Local process state (cannot be shared across processes)
 // HTTP handlers must stay in memory on the process that owns the connection
-const localHandlers = new Map<string, Response>();
+const localHandlers = new Map<string, SubscriptionSink>();
 
 // Local cache for compiled filters (each process can have its own cache)
 const compiledFiltersCache = new Map<string, CompiledFilterExpression>();
@@ -46,6 +205,9 @@ interface SerializedSubscription {
   scopeFilter?: string;
   authExpiresAt?: string | null;
   include?: string;
+  hiddenFields?: HiddenFieldsMap;
+  relationScopes?: Record<string, string | false>;
+  tenant?: string;
 }
 
 interface BroadcastEvent {
@@ -66,6 +228,9 @@ const serializeSubscription = (sub: Subscription): string => {
     scopeFilter: sub.scopeFilter,
     authExpiresAt: sub.authExpiresAt?.toISOString() ?? null,
     include: sub.include,
+    hiddenFields: sub.hiddenFields,
+    relationScopes: sub.relationScopes,
+    tenant: sub.tenant,
   };
   return JSON.stringify(serialized);
 };
@@ -84,6 +249,9 @@ const deserializeSubscription = (data: string): Subscription => {
     scopeFilter: parsed.scopeFilter,
     authExpiresAt: parsed.authExpiresAt ? new Date(parsed.authExpiresAt) : null,
     include: parsed.include,
+    hiddenFields: parsed.hiddenFields,
+    relationScopes: parsed.relationScopes,
+    tenant: parsed.tenant,
   };
 };
 
@@ -165,6 +333,9 @@ export interface CreateSubscriptionOptions {
   scopeFilter?: string;
   authExpiresAt?: Date | null;
   include?: string;
+  hiddenFields?: HiddenFieldsMap;
+  relationScopes?: Record<string, string | false>;
+  tenant?: string;
 }
 
 export const createSubscription = async (
@@ -183,6 +354,9 @@ export const createSubscription = async (
     scopeFilter: options.scopeFilter,
     authExpiresAt: options.authExpiresAt,
     include: options.include,
+    hiddenFields: options.hiddenFields,
+    relationScopes: options.relationScopes,
+    tenant: options.tenant,
   };
 
   const kv = getKV();
@@ -232,12 +406,13 @@ export const getSubscription = async (subscriptionId: string): Promise<Subscript
   return subscription;
 };
 
-export const registerHandler = (handlerId: string, res: Response): void => {
-  localHandlers.set(handlerId, res);
+export const registerHandler = (handlerId: string, handler: Response | SubscriptionSink): void => {
+  localHandlers.set(handlerId, isSink(handler) ? handler : createSSESink(handler));
   localHandlerIds.add(handlerId);
 };
 
 export const unregisterHandler = async (handlerId: string): Promise<void> => {
+  localHandlers.get(handlerId)?.release?.();
   localHandlers.delete(handlerId);
   localHandlerIds.delete(handlerId);
 
@@ -317,24 +492,26 @@ const sendEvent = <T extends SubscriptionEvent>(
   }
 
   const handler = localHandlers.get(handlerId);
-  if (!handler || handler.writableEnded) {
+  if (!handler) {
     return false;
   }
 
-  try {
-    handler.write(`data: ${JSON.stringify(event)}\n\n`);
-    return true;
-  } catch {
-    return false;
-  }
+  return handler.send(event);
 };
 
+// Events of a tenant's subscriptions go out on that tenant's own channel
+const eventsChannel = (tenant: string | undefined): string =>
+  tenant ? tenantKey(tenant, EVENTS_CHANNEL) : EVENTS_CHANNEL;
+
 // Broadcast event to all processes via pub/sub
-const broadcastEvent = async (event: BroadcastEvent): Promise<void> => {
+const broadcastEvent = async (
+  event: BroadcastEvent,
+  tenant: string | undefined
+): Promise<void> => {
   const kv = getKV();
   if (!kv) return;
 
-  await kv.publish(EVENTS_CHANNEL, JSON.stringify(event));
+  await kv.publish(eventsChannel(tenant), JSON.stringify(event));
 };
 
 // Initialize event subscription for this process
@@ -342,11 +519,12 @@ export const initializeEventSubscription = async (): Promise<void> => {
   const kv = getKV();
   if (!kv) return;
 
-  await kv.subscribe(EVENTS_CHANNEL, async (message: string) => {
+  const onEvent = async (message: string, channel: string) => {
     try {
       const broadcast: BroadcastEvent = JSON.parse(message);
       const subscription = await getSubscription(broadcast.subscriptionId);
-      if (!subscription) return;
+      // An event on one tenant's channel never reaches another tenant
+      if (!subscription || eventsChannel(subscription.tenant) !== channel) return;
 
       // Only process if this handler is local
       if (localHandlerIds.has(subscription.handlerId)) {
@@ -355,7 +533,10 @@ export const initializeEventSubscription = async (): Promise<void> => {
     } catch {
       // Ignore malformed messages
     }
-  });
+  };
+
+  await kv.subscribe(EVENTS_CHANNEL, onEvent);
+  await kv.psubscribe(tenantKey("*", EVENTS_CHANNEL), onEvent);
 };
 
 export const sendExistingItems = async <T extends Record<string, unknown>>(
@@ -376,19 +557,168 @@ export const sendExistingItems = async <T extends Record<string, unknown>>(
       seq: await getNextSeq(subscriptionId),
       timestamp: Date.now(),
       type: "existing",
-      object: item,
+      object: redactHiddenFields(item, subscription.hiddenFields),
     };
 
     // Send directly if local, otherwise broadcast
     if (localHandlerIds.has(subscription.handlerId)) {
       sendEvent(subscription.handlerId, event);
     } else {
-      await broadcastEvent({ type: "added", subscriptionId, event });
+      await broadcastEvent({ type: "added", subscriptionId, event }, subscription.tenant);
+    }
+  }
+};
+
+// Changes of a tenant-scoped resource only reach that tenant's subscriptions
+const sameTenant = (subscription: Subscription, tenant: string | undefined): boolean =>
+  tenant === undefined || subscription.tenant === undefined || subscription.tenant === tenant;
+
+// `filter` loads the relations a subscription's filter reaches into, in full
+export type RelationLoader<T> = (
+  items: T[],
+  include: string,
+  purpose?: "include" | "filter"
+) => Promise<T[]>;
+
+// Include string covering every relation a filter reaches into
+const filterInclude = (compiled: CompiledFilterExpression): string => {
+  const paths = [...new Set(compiled.relations().map((ref) => ref.path))];
+  return paths.filter((path) => !paths.some((other) => other.startsWith(`${path}.`))).join(",");
+};
+
+// Decides whether an item matches a subscription, loading the related rows
+// its filter reaches into first (once per item and include)
+const createRelevanceCheck = <T extends Record<string, unknown>>(
+  idColumn: string,
+  relationLoader?: RelationLoader<T>
+) => {
+  const withRelations = new Map<string, T>();
+
+  return async (
+    subscription: Subscription,
+    compiled: CompiledFilterExpression,
+    item: T
+  ): Promise<boolean> => {
+    let subject = item;
+    const include = relationLoader ? filterInclude(compiled) : "";
+
+    if (include) {
+      const key = `${include}:${String(item[idColumn])}`;
+      let loaded = withRelations.get(key);
+      if (!loaded) {
+        [loaded] = await relationLoader!([item], include, "filter");
+        withRelations.set(key, loaded!);
+      }
+      subject = loaded!;
     }
+
+    return compiled.execute(subject, { relationScopes: subscription.relationScopes });
+  };
+};
+
+export interface RelationDependent {
+  // Resource whose subscriptions include or filter on the relation
+  resource: string;
+  relation: string;
+  // Related resource whose changes fan out to those subscriptions
+  target: string;
+  // Window in which changes to related rows are batched per parent resource
+  debounceMs?: number;
+  filter: Filter;
+  idColumn: string;
+  relationLoader?: RelationLoader<Record<string, unknown>>;
+  // Rows of `resource` the changed related rows belong to
+  resolveParents: (rows: Record<string, unknown>[]) => Promise<Record<string, unknown>[]>;
+}
+
+const DEFAULT_RELATED_CHANGE_DEBOUNCE_MS = 50;
+
+const relationDependents = new Map<string, RelationDependent[]>();
+
+interface PendingRelatedChange {
+  dependent: RelationDependent;
+  tenant?: string;
+  rows: Record<string, unknown>[];
+  timer: NodeJS.Timeout;
+}
+
+const pendingRelatedChanges = new Map<string, PendingRelatedChange>();
+
+export const registerRelationDependent = (dependent: RelationDependent): void => {
+  const dependents = (relationDependents.get(dependent.target) ?? []).filter(
+    (d) => d.resource !== dependent.resource || d.relation !== dependent.relation
+  );
+  relationDependents.set(dependent.target, [...dependents, dependent]);
+};
+
+const dependsOnRelation = (
+  subscription: Subscription,
+  compiled: CompiledFilterExpression,
+  relation: string
+): boolean =>
+  parseInclude(subscription.include).some((spec) => spec.relation === relation) ||
+  compiled.relations().some((ref) => ref.path === relation || ref.path.startsWith(`${relation}.`));
+
+// Re-evaluates the parents of changed related rows for subscriptions that
+// include or filter on the relation. Parents only pick up `changed` (or
+// `added`/`removed` when the relation decides relevance); the push does not
+// cascade further up.
+const flushRelatedChange = async (key: string): Promise<void> => {
+  const pending = pendingRelatedChanges.get(key);
+  if (!pending) return;
+  pendingRelatedChanges.delete(key);
+  clearTimeout(pending.timer);
+
+  const { dependent, tenant } = pending;
+  const parents = new Map<string, Record<string, unknown>>();
+  for (const parent of await dependent.resolveParents(pending.rows)) {
+    parents.set(String(parent[dependent.idColumn]), parent);
   }
+  if (parents.size === 0) return;
+
+  await pushUpdates(
+    dependent.resource,
+    dependent.filter,
+    [...parents.values()],
+    dependent.idColumn,
+    undefined,
+    dependent.relationLoader,
+    tenant,
+    (subscription, compiled) => dependsOnRelation(subscription, compiled, dependent.relation)
+  );
 };
 
-export type RelationLoader<T> = (items: T[], include: string) => Promise<T[]>;
+const queueRelatedChanges = (
+  resource: string,
+  rows: Record<string, unknown>[],
+  tenant: string | undefined
+): void => {
+  const dependents = relationDependents.get(resource);
+  if (!dependents || rows.length === 0) return;
+
+  for (const dependent of dependents) {
+    const key = `${dependent.resource}:${dependent.relation}:${tenant ?? ""}`;
+    let pending = pendingRelatedChanges.get(key);
+
+    if (!pending) {
+      const timer = setTimeout(() => {
+        flushRelatedChange(key).catch((err) => {
+          console.error(`Failed to push ${dependent.relation} changes to ${dependent.resource} subscriptions:`, err);
+        });
+      }, dependent.debounceMs ?? DEFAULT_RELATED_CHANGE_DEBOUNCE_MS);
+      timer.unref?.();
+      pending = { dependent, tenant, rows: [], timer };
+      pendingRelatedChanges.set(key, pending);
+    }
+
+    pending.rows.push(...rows);
+  }
+};
+
+// Pushes batched related changes now instead of at the end of their window
+export const flushRelatedChanges = async (): Promise<void> => {
+  await Promise.all([...pendingRelatedChanges.keys()].map(flushRelatedChange));
+};
 
 export const pushInsertsToSubscriptions = async <T extends Record<string, unknown>>(
   resource: string,
@@ -396,7 +726,8 @@ export const pushInsertsToSubscriptions = async <T extends Record<string, unknow
   items: T[],
   idColumn: string,
   optimisticIds?: Map<string, string>,
-  relationLoader?: RelationLoader<T>
+  relationLoader?: RelationLoader<T>,
+  tenant?: string
 ): Promise<void> => {
   const allSubs = await getAllSubscriptions();
 
@@ -423,8 +754,11 @@ export const pushInsertsToSubscriptions = async <T extends Record<string, unknow
     return itemWithRelations;
   };
 
+  const isRelevantTo = createRelevanceCheck(idColumn, relationLoader);
+
   for (const [subId, subscription] of allSubs) {
     if (subscription.resource !== resource) continue;
+    if (!sameTenant(subscription, tenant)) continue;
 
     if (
       subscription.authExpiresAt &&
@@ -437,14 +771,17 @@ export const pushInsertsToSubscriptions = async <T extends Record<string, unknow
     const compiled = getCompiledFilter(subscription, filterFactory);
 
     for (const item of items) {
-      const matches = compiled.execute(item);
+      const matches = await isRelevantTo(subscription, compiled, item);
       if (!matches) continue;
 
       const id = String(item[idColumn]);
       await addRelevantObject(subId, id);
 
       const optimisticId = optimisticIds?.get(id);
-      const itemToSend = await getItemWithRelations(item, subscription.include);
+      const itemToSend = redactHiddenFields(
+        await getItemWithRelations(item, subscription.include),
+        subscription.hiddenFields
+      );
       const event: AddedEvent<T> = {
         id: uuidv4(),
         subscriptionId: subId,
@@ -457,10 +794,12 @@ export const pushInsertsToSubscriptions = async <T extends Record<string, unknow
 
       // Try local first, then broadcast
       if (!sendEvent(subscription.handlerId, event)) {
-        await broadcastEvent({ type: "added", subscriptionId: subId, event });
+        await broadcastEvent({ type: "added", subscriptionId: subId, event }, subscription.tenant);
       }
     }
   }
+
+  queueRelatedChanges(resource, items, tenant);
 };
 
 export const pushUpdatesToSubscriptions = async <T extends Record<string, unknown>>(
@@ -469,7 +808,23 @@ export const pushUpdatesToSubscriptions = async <T extends Record<string, unknow
   items: T[],
   idColumn: string,
   previousItems?: Map<string, T>,
-  relationLoader?: RelationLoader<T>
+  relationLoader?: RelationLoader<T>,
+  tenant?: string
+): Promise<void> => {
+  await pushUpdates(resource, filterFactory, items, idColumn, previousItems, relationLoader, tenant);
+  queueRelatedChanges(resource, [...items, ...(previousItems?.values() ?? [])], tenant);
+};
+
+// `appliesTo` narrows the subscriptions that see the update
+const pushUpdates = async <T extends Record<string, unknown>>(
+  resource: string,
+  filterFactory: Filter,
+  items: T[],
+  idColumn: string,
+  previousItems?: Map<string, T>,
+  relationLoader?: RelationLoader<T>,
+  tenant?: string,
+  appliesTo?: (subscription: Subscription, compiled: CompiledFilterExpression) => boolean
 ): Promise<void> => {
   const allSubs = await getAllSubscriptions();
 
@@ -496,8 +851,11 @@ export const pushUpdatesToSubscriptions = async <T extends Record<string, unknow
     return itemWithRelations;
   };
 
+  const isRelevantTo = createRelevanceCheck(idColumn, relationLoader);
+
   for (const [subId, subscription] of allSubs) {
     if (subscription.resource !== resource) continue;
+    if (!sameTenant(subscription, tenant)) continue;
 
     if (
       subscription.authExpiresAt &&
@@ -508,16 +866,20 @@ export const pushUpdatesToSubscriptions = async <T extends Record<string, unknow
     }
 
     const compiled = getCompiledFilter(subscription, filterFactory);
+    if (appliesTo && !appliesTo(subscription, compiled)) continue;
 
     for (const item of items) {
       const id = String(item[idColumn]);
       const wasRelevant = await isObjectRelevant(subId, id);
-      const isRelevant = compiled.execute(item);
+      const isRelevant = await isRelevantTo(subscription, compiled, item);
 
       if (isRelevant && !wasRelevant) {
         await addRelevantObject(subId, id);
 
-        const itemToSend = await getItemWithRelations(item, subscription.include);
+        const itemToSend = redactHiddenFields(
+          await getItemWithRelations(item, subscription.include),
+          subscription.hiddenFields
+        );
         const event: AddedEvent<T> = {
           id: uuidv4(),
           subscriptionId: subId,
@@ -528,14 +890,17 @@ export const pushUpdatesToSubscriptions = async <T extends Record<string, unknow
         };
 
         if (!sendEvent(subscription.handlerId, event)) {
-          await broadcastEvent({ type: "added", subscriptionId: subId, event });
+          await broadcastEvent({ type: "added", subscriptionId: subId, event }, subscription.tenant);
         }
       } else if (isRelevant && wasRelevant) {
         const previousObjectId = previousItems?.get(id)
           ? String(previousItems.get(id)![idColumn])
           : undefined;
 
-        const itemToSend = await getItemWithRelations(item, subscription.include);
+        const itemToSend = redactHiddenFields(
+          await getItemWithRelations(item, subscription.include),
+          subscription.hiddenFields
+        );
         const event: ChangedEvent<T> = {
           id: uuidv4(),
           subscriptionId: subId,
@@ -547,7 +912,7 @@ export const pushUpdatesToSubscriptions = async <T extends Record<string, unknow
         };
 
         if (!sendEvent(subscription.handlerId, event)) {
-          await broadcastEvent({ type: "changed", subscriptionId: subId, event });
+          await broadcastEvent({ type: "changed", subscriptionId: subId, event }, subscription.tenant);
         }
       } else if (!isRelevant && wasRelevant) {
         await removeRelevantObject(subId, id);
@@ -562,21 +927,25 @@ export const pushUpdatesToSubscriptions = async <T extends Record<string, unknow
         };
 
         if (!sendEvent(subscription.handlerId, event)) {
-          await broadcastEvent({ type: "removed", subscriptionId: subId, event });
+          await broadcastEvent({ type: "removed", subscriptionId: subId, event }, subscription.tenant);
         }
       }
     }
   }
 };
 
+// `deletedItems` lets resources that include the deleted rows find their parents
 export const pushDeletesToSubscriptions = async (
   resource: string,
-  deletedIds: string[]
+  deletedIds: string[],
+  tenant?: string,
+  deletedItems?: Record<string, unknown>[]
 ): Promise<void> => {
   const allSubs = await getAllSubscriptions();
 
   for (const [subId, subscription] of allSubs) {
     if (subscription.resource !== resource) continue;
+    if (!sameTenant(subscription, tenant)) continue;
 
     for (const id of deletedIds) {
       const wasRelevant = await isObjectRelevant(subId, id);
@@ -594,10 +963,14 @@ export const pushDeletesToSubscriptions = async (
       };
 
       if (!sendEvent(subscription.handlerId, event)) {
-        await broadcastEvent({ type: "removed", subscriptionId: subId, event });
+        await broadcastEvent({ type: "removed", subscriptionId: subId, event }, subscription.tenant);
       }
     }
   }
+
+  if (deletedItems) {
+    queueRelatedChanges(resource, deletedItems, tenant);
+  }
 };
 
 export const sendInvalidateEvent = async (
@@ -617,7 +990,7 @@ export const sendInvalidateEvent = async (
   };
 
   if (!sendEvent(subscription.handlerId, event)) {
-    await broadcastEvent({ type: "invalidate", subscriptionId, event });
+    await broadcastEvent({ type: "invalidate", subscriptionId, event }, subscription.tenant);
   }
 };
 
@@ -656,7 +1029,12 @@ export const processChangelogEntries = async (
         break;
 
       case "delete":
-        await pushDeletesToSubscriptions(entry.resource, [entry.objectId]);
+        await pushDeletesToSubscriptions(
+          entry.resource,
+          [entry.objectId],
+          entry.tenant,
+          entry.previousObject ? [entry.previousObject] : undefined
+        );
         break;
     }
   }
@@ -706,7 +1084,7 @@ export const getCatchupEvents = async (
     return null;
   }
 
-  return await changelog.getEntriesSince(subscription.resource, sinceSeq);
+  return await changelog.getEntriesSince(subscription.resource, sinceSeq, subscription.tenant);
 };
 
 export const isHandlerConnected = (handlerId: string): boolean => {
@@ -716,7 +1094,7 @@ export const isHandlerConnected = (handlerId: string): boolean => {
   }
 
   const handler = localHandlers.get(handlerId);
-  return handler !== undefined && !handler.writableEnded;
+  return handler !== undefined && handler.isOpen();
 };
 
 export const getHandlerSubscriptions = async (handlerId: string): Promise<string[]> => {
@@ -779,8 +1157,13 @@ export const getSubscriptionStats = async (): Promise<{
 
 export const clearAllSubscriptions = async (): Promise<void> => {
   compiledFiltersCache.clear();
+  for (const pending of pendingRelatedChanges.values()) {
+    clearTimeout(pending.timer);
+  }
+  pendingRelatedChanges.clear();
   localHandlers.clear();
   localHandlerIds.clear();
+  sinkConnections.clear();
 
   const kv = getKV();
   if (!kv) return;
@@ -0,0 +1,88 @@
+import { KVAdapter } from "@/kv/types";
+import { createPrefixedKV } from "@/kv/prefixed";
+import { TenantRequest, TenantResolver } from "./types";
+
+const TENANT_KEY_PREFIX = "tenant:";
+
+const headerValue = (req: TenantRequest, name: string): string | undefined => {
+  const value = req.headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+};
+
+const hostnameOf = (req: TenantRequest): string | undefined => {
+  const host = req.hostname ?? headerValue(req, "host");
+  return host?.replace(/:\d+$/, "").toLowerCase();
+};
+
+/**
+ * Reads the tenant from `user.metadata[field]`.
+ */
+export const tenantFromUser =
+  (field = "tenantId"): TenantResolver =>
+  (user) => {
+    const value = user?.metadata?.[field];
+    return value === undefined || value === null ? undefined : String(value);
+  };
+
+/**
+ * Reads the tenant from a request header. Anyone can send a header, so pair
+ * this with `authorize` unless the header is set by a trusted proxy.
+ */
+export const tenantFromHeader =
+  (name = "x-tenant-id"): TenantResolver =>
+  (_user, req) =>
+    headerValue(req, name) || undefined;
+
+/**
+ * Reads the tenant from the leftmost label of the host name. With
+ * `baseDomain`, only hosts directly below it count (`acme.example.com` for
+ * `example.com`); without it, any host with three or more labels does.
+ */
+export const tenantFromSubdomain =
+  (baseDomain?: string): TenantResolver =>
+  (_user, req) => {
+    const hostname = hostnameOf(req);
+    if (!hostname) return undefined;
+
+    if (baseDomain) {
+      const suffix = `.${baseDomain.toLowerCase()}`;
+      if (!hostname.endsWith(suffix)) return undefined;
+      const label = hostname.slice(0, -suffix.length);
+      return label && !label.includes(".") ? label : undefined;
+    }
+
+    const labels = hostname.split(".");
+    return labels.length >= 3 ? labels[0] : undefined;
+  };
+
+/**
+ * Tries each resolver in turn and returns the first tenant found.
+ */
+export const firstTenant =
+  (...resolvers: TenantResolver[]): TenantResolver =>
+  async (user, req) => {
+    for (const resolver of resolvers) {
+      const tenant = await resolver(user, req);
+      if (tenant) return tenant;
+    }
+    return undefined;
+  };
+
+/**
+ * Namespaces a KV key (or rate limit bucket) to a tenant.
+ */
+export const tenantKey = (tenant: string, key: string): string =>
+  `${TENANT_KEY_PREFIX}${tenant}:${key}`;
+
+/**
+ * A view of `kv` holding only the tenant's keys, each stored under
+ * `tenantKey(tenant, key)`.
+ */
+export const tenantKV = (kv: KVAdapter, tenant: string): KVAdapter =>
+  createPrefixedKV(kv, `${TENANT_KEY_PREFIX}${tenant}`);
+
+/**
+ * Name of a tenant's own search index.
+ */
+export const tenantIndexName = (indexName: string, tenant: string): string =>
+  `${indexName}__${tenant}`;
@@ -403,7 +403,12 @@ function wrapDeleteBuilder<TTable extends Table<any>>(
               }
 
               if (context.config.pushToSubscriptions !== false && deletedIds.length > 0) {
-                await pushDeletesToSubscriptions(tableInfo.resourceName, deletedIds);
+                await pushDeletesToSubscriptions(
+                  tableInfo.resourceName,
+                  deletedIds,
+                  undefined,
+                  itemsToDelete
+                );
               }
 
               if (context.config.cache?.enabled) {
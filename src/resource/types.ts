@@ -7,6 +7,9 @@ import {
   SQLWrapper,
 } from "drizzle-orm";
 import { z } from "zod";
+import type { ResourceETagConfig } from "./etag";
+import type { FacetConfig } from "@/search/types";
+import type { KVAdapter } from "@/kv/types";
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export type DrizzleDatabase = any;
@@ -73,6 +76,7 @@ export interface ChangelogEntry {
   object?: Record<string, unknown>;
   previousObject?: Record<string, unknown>;
   timestamp: number;
+  tenant?: string;
 }
 
 export interface Subscription {
@@ -87,8 +91,15 @@ export interface Subscription {
   scopeFilter?: string;
   authExpiresAt?: Date | null;
   include?: string;
+  hiddenFields?: HiddenFieldsMap;
+  // Read scopes of related resources the filter reaches into, by relation path
+  relationScopes?: Record<string, string | false>;
+  tenant?: string;
 }
 
+// Non-readable columns keyed by include path ("" is the resource itself)
+export type HiddenFieldsMap = Record<string, string[]>;
+
 export interface PaginationParams {
   cursor?: string;
   limit: number;
@@ -108,12 +119,23 @@ export interface ProjectionParams {
 }
 
 export interface AggregationParams {
+  // Fields, or date fields bucketed as `createdAt:day`
   groupBy?: string[];
   sum?: string[];
   avg?: string[];
   count?: boolean;
   min?: string[];
   max?: string[];
+  countDistinct?: string[];
+  // `field:percent`, e.g. `latency:95`
+  percentile?: string[];
+  // IANA zone name or UTC offset the date buckets are cut in
+  timezone?: string;
+  // RSQL over groupBy fields and aggregate aliases, e.g. `count>10;sum_total>=100`
+  having?: string;
+  // `alias:direction`, e.g. `count:desc`
+  orderBy?: string[];
+  limit?: number;
 }
 
 export interface AggregationResult {
@@ -124,6 +146,9 @@ export interface AggregationResult {
     avg?: Record<string, number>;
     min?: Record<string, number | string>;
     max?: Record<string, number | string>;
+    countDistinct?: Record<string, number>;
+    // Per field, keyed `p95` and the like
+    percentile?: Record<string, Record<string, number>>;
   }>;
 }
 
@@ -142,6 +167,9 @@ export interface ProcedureContext<TConfig extends TableConfig = TableConfig> {
   schema: Table<TConfig>;
   user: UserContext | null;
   req: unknown;
+  tenant?: string;
+  // The global KV store, holding only the tenant's keys on a tenant-scoped resource
+  kv?: KVAdapter;
 }
 
 export interface ProcedureDefinition<TInput = unknown, TOutput = unknown> {
@@ -201,6 +229,8 @@ export interface ScopeConfig {
   update?: ScopeFunction;
   delete?: ScopeFunction;
   subscribe?: ScopeFunction;
+  restore?: ScopeFunction;
+  withDeleted?: ScopeFunction;
   public?:
     | boolean
     | {
@@ -226,6 +256,7 @@ export interface BatchConfig {
   update?: number;
   replace?: number;
   delete?: number;
+  upsert?: number;
 }
 
 export interface SSEConfig {
@@ -235,6 +266,8 @@ export interface SSEConfig {
   heartbeatMs?: number;
   maxQueueBytes?: number;
   onBackpressure?: "drop" | "invalidate" | "disconnect";
+  // Window in which changes are batched before a live aggregate is re-run
+  liveAggregateDebounceMs?: number;
 }
 
 export interface FilterConfig {
@@ -256,6 +289,10 @@ export interface FieldPolicies {
   };
 }
 
+export type FieldPoliciesResolver = (
+  user: UserContext | null
+) => FieldPolicies | Promise<FieldPolicies>;
+
 export interface ResourceCapabilities {
   enableAggregations?: boolean;
   enableBatch?: boolean;
@@ -281,7 +318,8 @@ export interface RelationConfig {
   strategy?: "eager" | "lazy";
   defaultSelect?: string[];
   filterable?: boolean;
-  subscribeToChanges?: boolean;
+  subscribeToChanges?: boolean | { debounceMs?: number };
+  writable?: boolean;
 }
 
 export interface RelationsConfig {
@@ -313,6 +351,35 @@ export interface ResourceSearchConfig {
   indexName?: string;
   fields?: string[] | Record<string, SearchFieldConfig>;
   autoIndex?: boolean;
+  // Facets clients may request with ?facets=; without this, any readable
+  // field can be requested as a terms facet
+  facets?: Record<string, FacetConfig>;
+}
+
+export interface UpsertConfig {
+  target?: AnyColumn[];
+}
+
+export interface SoftDeleteConfig {
+  column: AnyColumn;
+}
+
+// The parts of a request a tenant can be derived from. Express requests and
+// WebSocket upgrade requests both satisfy it.
+export interface TenantRequest {
+  headers: Record<string, string | string[] | undefined>;
+  hostname?: string;
+}
+
+export type TenantResolver = (
+  user: UserContext | null,
+  req: TenantRequest
+) => string | null | undefined | Promise<string | null | undefined>;
+
+export interface TenantConfig {
+  column: AnyColumn;
+  resolve?: TenantResolver;
+  authorize?: (user: UserContext | null, tenant: string) => boolean | Promise<boolean>;
 }
 
 export interface ResourceConfig<
@@ -335,10 +402,15 @@ export interface ResourceConfig<
   customOperators?: Record<string, CustomOperator>;
   sse?: SSEConfig;
   filter?: FilterConfig;
-  fields?: FieldPolicies;
+  fields?: FieldPolicies | FieldPoliciesResolver;
   capabilities?: ResourceCapabilities;
   generatedFields?: string[];
   relations?: RelationsConfig;
   include?: IncludeConfig;
   search?: ResourceSearchConfig;
+  etag?: ResourceETagConfig;
+  transactional?: boolean;
+  softDelete?: SoftDeleteConfig;
+  upsert?: UpsertConfig;
+  tenant?: TenantConfig;
 }
@@ -0,0 +1,67 @@
+import { FacetBucket, FacetRange, FacetRequest } from "./types";
+
+const DEFAULT_TERMS_SIZE = 10;
+
+export const facetName = (facet: FacetRequest): string => facet.name ?? facet.field;
+
+export const facetRangeKey = (range: FacetRange): string =>
+  range.key ?? `${range.from ?? "*"}-${range.to ?? "*"}`;
+
+// Numbers compare as numbers and ISO dates by time, so one range
+// definition works for both
+const comparable = (value: unknown): number | null => {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === "string" && value.trim() !== "") {
+    const n = Number(value);
+    if (Number.isFinite(n)) return n;
+    const time = Date.parse(value);
+    return Number.isNaN(time) ? null : time;
+  }
+  return null;
+};
+
+const inRange = (value: unknown, range: FacetRange): boolean => {
+  const v = comparable(value);
+  if (v === null) return false;
+  const from = range.from === undefined ? null : comparable(range.from);
+  const to = range.to === undefined ? null : comparable(range.to);
+  return (from === null || v >= from) && (to === null || v < to);
+};
+
+/**
+ * Computes facet buckets over documents held in process. Terms buckets
+ * are ordered by count, then key; array values count once per element.
+ */
+export const computeFacets = (
+  documents: Record<string, unknown>[],
+  facets: FacetRequest[]
+): Record<string, FacetBucket[]> => {
+  const result: Record<string, FacetBucket[]> = {};
+
+  for (const facet of facets) {
+    if (facet.type === "terms") {
+      const counts = new Map<string, number>();
+      for (const doc of documents) {
+        const value = doc[facet.field];
+        const values = Array.isArray(value) ? value : [value];
+        for (const v of new Set(values.filter((v) => v !== null && v !== undefined).map(String))) {
+          counts.set(v, (counts.get(v) ?? 0) + 1);
+        }
+      }
+      result[facetName(facet)] = [...counts.entries()]
+        .sort(([ka, a], [kb, b]) => b - a || ka.localeCompare(kb))
+        .slice(0, facet.size ?? DEFAULT_TERMS_SIZE)
+        .map(([key, count]) => ({ key, count }));
+    } else {
+      result[facetName(facet)] = facet.ranges.map((range) => ({
+        key: facetRangeKey(range),
+        ...(range.from !== undefined && { from: range.from }),
+        ...(range.to !== undefined && { to: range.to }),
+        count: documents.filter((doc) => inRange(doc[facet.field], range)).length,
+      }));
+    }
+  }
+
+  return result;
+};
@@ -26,3 +26,7 @@ export const clearGlobalSearch = (): void => {
 export * from "./types";
 export * from "./memory";
 export * from "./opensearch";
+export * from "./sqlite";
+export * from "./postgres";
+export * from "./mappings";
+export * from "./reindex";
@@ -0,0 +1,63 @@
+import { Table, getTableColumns } from "drizzle-orm";
+import { FieldMapping, IndexMappings, SearchConfig } from "./types";
+
+interface ColumnShape {
+  dataType?: string;
+  columnType?: string;
+  enumValues?: string[];
+}
+
+const numberMapping = (columnType: string): FieldMapping => {
+  if (/Real|Double|Float|Numeric|Decimal/.test(columnType)) return { type: "double" };
+  if (/BigInt/.test(columnType)) return { type: "long" };
+  return { type: "integer" };
+};
+
+/**
+ * Derives index mappings from a table's Drizzle column types, keyed by the
+ * column's property name as in indexed documents. Strings are full-text
+ * fields unless they are enums, UUIDs or marked `searchable: false`, which
+ * map to keywords for exact filtering and facets. JSON, binary and custom
+ * columns are left to the engine's dynamic mapping.
+ */
+export const deriveIndexMappings = (
+  table: Table,
+  fields?: SearchConfig["fields"]
+): IndexMappings => {
+  const fieldConfig = fields && !Array.isArray(fields) ? fields : {};
+  const searchable = (key: string) =>
+    Array.isArray(fields) ? fields.includes(key) : fieldConfig[key]?.searchable !== false;
+
+  const properties: Record<string, FieldMapping> = {};
+
+  for (const [key, column] of Object.entries(getTableColumns(table))) {
+    const { dataType, columnType = "", enumValues } = column as unknown as ColumnShape;
+
+    switch (dataType) {
+      case "string":
+        if (/Numeric|Decimal/.test(columnType)) {
+          properties[key] = { type: "double" };
+        } else if (enumValues?.length || /UUID/.test(columnType) || !searchable(key)) {
+          properties[key] = { type: "keyword" };
+        } else {
+          const analyzer = fieldConfig[key]?.analyzer;
+          properties[key] = { type: "text", ...(analyzer && { analyzer }) };
+        }
+        break;
+      case "number":
+        properties[key] = numberMapping(columnType);
+        break;
+      case "bigint":
+        properties[key] = { type: "long" };
+        break;
+      case "boolean":
+        properties[key] = { type: "boolean" };
+        break;
+      case "date":
+        properties[key] = { type: "date" };
+        break;
+    }
+  }
+
+  return { properties };
+};
@@ -1,13 +1,65 @@
 import { SearchAdapter, SearchQuery, SearchResult, IndexMappings } from "./types";
+import { computeFacets } from "./facets";
+
+// Edits allowed per word length, as OpenSearch's AUTO fuzziness
+const allowedEdits = (length: number): number => (length <= 2 ? 0 : length <= 5 ? 1 : 2);
+
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j]! + 1,
+        current[j - 1]! + 1,
+        previous[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length]!;
+};
+
+const words = (text: string): string[] => text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? [];
+
+// Substring matching already finds prefixes, so `prefix` needs no handling
+const fieldMatches = (value: unknown, query: SearchQuery): boolean => {
+  if (typeof value === "number") {
+    return String(value).includes(query.query);
+  }
+  if (typeof value !== "string") {
+    return false;
+  }
+
+  const text = value.toLowerCase();
+  if (text.includes(query.query.toLowerCase())) {
+    return true;
+  }
+  if (!query.fuzzy) {
+    return false;
+  }
+
+  const candidates = words(text);
+  return words(query.query).every((term) =>
+    candidates.some(
+      (word) => word.includes(term) || editDistance(word, term) <= allowedEdits(term.length)
+    )
+  );
+};
 
 export const createMemorySearchAdapter = (): SearchAdapter & {
   getIndex(indexName: string): Map<string, Record<string, unknown>> | undefined;
   getAllIndices(): Map<string, Map<string, Record<string, unknown>>>;
 } => {
   const indices: Map<string, Map<string, Record<string, unknown>>> = new Map();
+  const aliases = new Map<string, string>();
+  const resolve = (name: string) => aliases.get(name) ?? name;
 
   return {
-    async index(indexName, id, document) {
+    supportsScope: "predicate",
+
+    async index(name, id, document) {
+      const indexName = resolve(name);
       if (!indices.has(indexName)) {
         indices.set(indexName, new Map());
       }
@@ -15,31 +67,25 @@ export const createMemorySearchAdapter = (): SearchAdapter & {
     },
 
     async delete(indexName, id) {
-      indices.get(indexName)?.delete(id);
+      indices.get(resolve(indexName))?.delete(id);
     },
 
     async search<T = Record<string, unknown>>(
       indexName: string,
       query: SearchQuery
     ): Promise<SearchResult<T>> {
-      const index = indices.get(indexName);
+      const index = indices.get(resolve(indexName));
       if (!index) {
         return { hits: [], total: 0 };
       }
 
       const allEntries = [...index.entries()];
       const matchingEntries = allEntries.filter(([_, doc]) => {
-        const searchFields = query.fields ?? Object.keys(doc);
-        return searchFields.some((field) => {
-          const value = doc[field];
-          if (typeof value === "string") {
-            return value.toLowerCase().includes(query.query.toLowerCase());
-          }
-          if (typeof value === "number") {
-            return String(value).includes(query.query);
-          }
+        if (query.scope?.matches && !query.scope.matches(doc)) {
           return false;
-        });
+        }
+        const searchFields = query.fields ?? Object.keys(doc);
+        return searchFields.some((field) => fieldMatches(doc[field], query));
       });
 
       const from = query.from ?? 0;
@@ -53,11 +99,7 @@ export const createMemorySearchAdapter = (): SearchAdapter & {
         highlights: query.highlight
           ? Object.fromEntries(
               Object.entries(doc)
-                .filter(
-                  ([_, v]) =>
-                    typeof v === "string" &&
-                    v.toLowerCase().includes(query.query.toLowerCase())
-                )
+                .filter(([_, v]) => typeof v === "string" && fieldMatches(v, query))
                 .map(([k, v]) => [k, [String(v)]])
             )
           : undefined,
@@ -66,25 +108,43 @@ export const createMemorySearchAdapter = (): SearchAdapter & {
       return {
         hits,
         total: matchingEntries.length,
+        ...(query.facets?.length && {
+          facets: computeFacets(matchingEntries.map(([_, doc]) => doc), query.facets),
+        }),
       };
     },
 
-    async createIndex(indexName: string, _mappings: IndexMappings) {
+    async createIndex(name: string, _mappings: IndexMappings) {
+      const indexName = resolve(name);
       if (!indices.has(indexName)) {
         indices.set(indexName, new Map());
       }
     },
 
     async deleteIndex(indexName: string) {
-      indices.delete(indexName);
+      indices.delete(resolve(indexName));
+      aliases.delete(indexName);
     },
 
     async indexExists(indexName: string) {
-      return indices.has(indexName);
+      return indices.has(resolve(indexName));
+    },
+
+    async putAlias(alias: string, indexName: string) {
+      indices.delete(alias);
+      aliases.set(alias, indexName);
+    },
+
+    async getAlias(alias: string) {
+      return aliases.get(alias) ?? null;
+    },
+
+    async listIds(indexName: string) {
+      return [...(indices.get(resolve(indexName))?.keys() ?? [])];
     },
 
     getIndex(indexName: string) {
-      return indices.get(indexName);
+      return indices.get(resolve(indexName));
     },
 
     getAllIndices() {
@@ -1,4 +1,5 @@
-import { SearchAdapter, SearchQuery, SearchResult, IndexMappings } from "./types";
+import { SearchAdapter, SearchQuery, SearchResult, IndexMappings, FacetBucket } from "./types";
+import { facetName, facetRangeKey } from "./facets";
 
 export interface OpenSearchConfig {
   node: string | string[];
@@ -20,7 +21,12 @@ interface OpenSearchClient {
     refresh?: boolean | "wait_for";
   }): Promise<unknown>;
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  search(params: { index: string; body: Record<string, unknown> }): Promise<any>;
+  bulk(params: { body: Array<Record<string, unknown>>; refresh?: boolean | "wait_for" }): Promise<any>;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  search(params: { index: string; body: Record<string, unknown>; scroll?: string }): Promise<any>;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  scroll(params: { scroll_id: string; scroll: string }): Promise<any>;
+  clearScroll(params: { scroll_id: string }): Promise<unknown>;
   indices: {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     exists(params: { index: string }): Promise<any>;
@@ -29,9 +35,21 @@ interface OpenSearchClient {
       body: { mappings: IndexMappings };
     }): Promise<unknown>;
     delete(params: { index: string }): Promise<unknown>;
+    updateAliases(params: {
+      body: { actions: Array<Record<string, { index: string; alias?: string }>> };
+    }): Promise<unknown>;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    getAlias(params: { name: string }): Promise<any>;
+    refresh(params: { index: string }): Promise<unknown>;
   };
 }
 
+const SCROLL_KEEPALIVE = "1m";
+const SCROLL_SIZE = 1000;
+
+const isNotFound = (err: unknown): boolean =>
+  (err as { meta?: { statusCode?: number } }).meta?.statusCode === 404;
+
 export const createOpenSearchAdapter = async (
   config: OpenSearchConfig,
   clientFactory?: (config: OpenSearchConfig) => OpenSearchClient
@@ -58,7 +76,22 @@ export const createOpenSearchAdapter = async (
   const prefix = config.indexPrefix ?? "concave_";
   const prefixedName = (name: string) => `${prefix}${name}`;
 
+  const getAlias = async (alias: string): Promise<string | null> => {
+    try {
+      const response = await client.indices.getAlias({ name: prefixedName(alias) });
+      const [index] = Object.keys(response.body ?? {});
+      return index ? index.slice(prefix.length) : null;
+    } catch (err: unknown) {
+      if (isNotFound(err)) {
+        return null;
+      }
+      throw err;
+    }
+  };
+
   return {
+    supportsScope: "ids",
+
     async index(indexName, id, document) {
       await client.index({
         index: prefixedName(indexName),
@@ -68,6 +101,30 @@ export const createOpenSearchAdapter = async (
       });
     },
 
+    async bulkIndex(indexName, documents) {
+      if (documents.length === 0) return;
+
+      const index = prefixedName(indexName);
+      const response = await client.bulk({
+        body: documents.flatMap(({ id, document }) => [{ index: { _index: index, _id: id } }, document]),
+        refresh: false,
+      });
+
+      // A bulk request succeeds as a whole even when some documents fail
+      if (response.body?.errors) {
+        const failed = (response.body.items as Array<{ index?: { _id: string; error?: { reason?: string } } }>)
+          .map((item) => item.index)
+          .find((item) => item?.error);
+        throw new Error(
+          `Failed to index document ${failed?._id} in ${indexName}: ${failed?.error?.reason ?? "unknown error"}`
+        );
+      }
+    },
+
+    async refresh(indexName) {
+      await client.indices.refresh({ index: prefixedName(indexName) });
+    },
+
     async delete(indexName, id) {
       try {
         await client.delete({
@@ -76,8 +133,7 @@ export const createOpenSearchAdapter = async (
           refresh: true,
         });
       } catch (err: unknown) {
-        const error = err as { meta?: { statusCode?: number } };
-        if (error.meta?.statusCode === 404) {
+        if (isNotFound(err)) {
           return;
         }
         throw err;
@@ -93,19 +149,40 @@ export const createOpenSearchAdapter = async (
           query.fieldWeights?.[f] ? `${f}^${query.fieldWeights[f]}` : f
         ) ?? ["*"];
 
-      const body: Record<string, unknown> = {
-        query: {
-          multi_match: {
-            query: query.query,
-            fields,
-            type: "best_fields",
-            fuzziness: "AUTO",
-          },
+      // bool_prefix matches the last word as a prefix, for search-as-you-type
+      const match = {
+        multi_match: {
+          query: query.query,
+          fields,
+          type: query.prefix ? "bool_prefix" : "best_fields",
+          ...(query.fuzzy !== false && { fuzziness: "AUTO" }),
         },
+      };
+
+      // The scope filters hits, total and aggregations alike
+      const body: Record<string, unknown> = {
+        query: query.scope?.ids
+          ? { bool: { must: match, filter: { ids: { values: query.scope.ids } } } }
+          : match,
         from: query.from ?? 0,
         size: query.size ?? 20,
       };
 
+      if (query.facets?.length) {
+        body.aggs = Object.fromEntries(
+          query.facets.map((facet) => {
+            if (facet.type === "terms") {
+              return [facetName(facet), { terms: { field: facet.field, size: facet.size ?? 10 } }];
+            }
+            const isDate = facet.ranges.some(
+              (r) => typeof r.from === "string" || typeof r.to === "string"
+            );
+            const ranges = facet.ranges.map((r) => ({ key: facetRangeKey(r), from: r.from, to: r.to }));
+            return [facetName(facet), { [isDate ? "date_range" : "range"]: { field: facet.field, ranges } }];
+          })
+        );
+      }
+
       if (query.highlight) {
         body.highlight = {
           fields: Object.fromEntries(
@@ -150,6 +227,28 @@ export const createOpenSearchAdapter = async (
           highlights: hit.highlight,
         })),
         total,
+        ...(query.facets?.length && {
+          facets: Object.fromEntries(
+            query.facets.map((facet) => {
+              const buckets: Array<{
+                key: string | number;
+                key_as_string?: string;
+                doc_count: number;
+              }> = response.body.aggregations?.[facetName(facet)]?.buckets ?? [];
+              const byKey = new Map(buckets.map((b) => [String(b.key), b]));
+              const parsed: FacetBucket[] =
+                facet.type === "terms"
+                  ? buckets.map((b) => ({ key: b.key_as_string ?? String(b.key), count: b.doc_count }))
+                  : facet.ranges.map((r) => ({
+                      key: facetRangeKey(r),
+                      ...(r.from !== undefined && { from: r.from }),
+                      ...(r.to !== undefined && { to: r.to }),
+                      count: byKey.get(facetRangeKey(r))?.doc_count ?? 0,
+                    }));
+              return [facetName(facet), parsed];
+            })
+          ),
+        }),
       };
     },
 
@@ -169,8 +268,7 @@ export const createOpenSearchAdapter = async (
       try {
         await client.indices.delete({ index: prefixedName(indexName) });
       } catch (err: unknown) {
-        const error = err as { meta?: { statusCode?: number } };
-        if (error.meta?.statusCode === 404) {
+        if (isNotFound(err)) {
           return;
         }
         throw err;
@@ -183,5 +281,53 @@ export const createOpenSearchAdapter = async (
       });
       return response.body;
     },
+
+    // A plain index with the alias's name is removed in the same request,
+    // so the first swap after enabling reindexing is atomic too
+    async putAlias(alias, indexName) {
+      const current = await getAlias(alias);
+      const actions: Array<Record<string, { index: string; alias?: string }>> = [];
+      if (current) {
+        actions.push({ remove: { index: prefixedName(current), alias: prefixedName(alias) } });
+      } else if ((await client.indices.exists({ index: prefixedName(alias) })).body) {
+        actions.push({ remove_index: { index: prefixedName(alias) } });
+      }
+      actions.push({ add: { index: prefixedName(indexName), alias: prefixedName(alias) } });
+
+      await client.indices.updateAliases({ body: { actions } });
+    },
+
+    getAlias,
+
+    async listIds(indexName) {
+      const ids: string[] = [];
+      let response;
+      try {
+        response = await client.search({
+          index: prefixedName(indexName),
+          scroll: SCROLL_KEEPALIVE,
+          body: { _source: false, size: SCROLL_SIZE, query: { match_all: {} } },
+        });
+      } catch (err: unknown) {
+        if (isNotFound(err)) {
+          return ids;
+        }
+        throw err;
+      }
+
+      let scrollId: string | undefined = response.body._scroll_id;
+      let hits: Array<{ _id: string }> = response.body.hits.hits;
+      while (hits.length > 0) {
+        ids.push(...hits.map((hit) => hit._id));
+        if (!scrollId) break;
+        response = await client.scroll({ scroll_id: scrollId, scroll: SCROLL_KEEPALIVE });
+        scrollId = response.body._scroll_id ?? scrollId;
+        hits = response.body.hits.hits;
+      }
+      if (scrollId) {
+        await client.clearScroll({ scroll_id: scrollId });
+      }
+      return ids;
+    },
   };
 };
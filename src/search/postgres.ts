@@ -0,0 +1,185 @@
+import { sql, SQL } from "drizzle-orm";
+import type { PgDatabase } from "drizzle-orm/pg-core";
+import { SearchAdapter, SearchQuery, SearchResult, SearchHit } from "./types";
+import { matchTerms, safeSortFields, groupHighlights } from "./sql-utils";
+
+export interface PostgresSearchConfig {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  db: PgDatabase<any, any, any>;
+  tablePrefix?: string;
+  // Text search configuration used for stemming (default "english")
+  language?: string;
+}
+
+interface MatchRow {
+  id: string;
+  document: Record<string, unknown> | string;
+  score: number | string;
+}
+
+/**
+ * Full-text search on a `tsvector` column with a GIN index, in the
+ * resource's own database. Documents are stored as JSONB next to a vector
+ * of all their string fields.
+ */
+export const createPostgresSearchAdapter = (config: PostgresSearchConfig): SearchAdapter => {
+  const { db } = config;
+  const prefix = config.tablePrefix ?? "concave_search_";
+  const language = sql`${config.language ?? "english"}::regconfig`;
+
+  const tableName = (indexName: string) => `${prefix}${indexName}`;
+  const table = (indexName: string) => sql.identifier(tableName(indexName));
+
+  // node-postgres and PGlite return { rows }, postgres.js an array
+  const query = async <R>(statement: SQL): Promise<R[]> => {
+    const result = (await db.execute(statement)) as unknown as R[] | { rows: R[] };
+    return Array.isArray(result) ? result : result.rows;
+  };
+
+  const ensured = new Set<string>();
+
+  const ensureIndex = async (indexName: string) => {
+    if (ensured.has(indexName)) return;
+    await db.execute(
+      sql`CREATE TABLE IF NOT EXISTS ${table(indexName)} (id TEXT PRIMARY KEY, document JSONB NOT NULL, search TSVECTOR NOT NULL)`
+    );
+    await db.execute(
+      sql`CREATE INDEX IF NOT EXISTS ${sql.identifier(`${tableName(indexName)}_search_idx`)} ON ${table(indexName)} USING GIN (search)`
+    );
+    ensured.add(indexName);
+  };
+
+  const indexExists = async (indexName: string): Promise<boolean> => {
+    const [row] = await query<{ name: string | null }>(
+      sql`SELECT to_regclass(${`"${tableName(indexName).replace(/"/g, '""')}"`})::text AS name`
+    );
+    return !!row?.name;
+  };
+
+  const fieldVector = (field: string) =>
+    sql`to_tsvector(${language}, coalesce(s.document ->> ${field}::text, ''))`;
+
+  return {
+    supportsScope: "sql",
+
+    async index(indexName, id, document) {
+      await ensureIndex(indexName);
+      const json = JSON.stringify(document);
+      await db.execute(
+        sql`INSERT INTO ${table(indexName)} (id, document, search)
+          VALUES (${id}, ${json}::jsonb, jsonb_to_tsvector(${language}, ${json}::jsonb, '["string"]'))
+          ON CONFLICT (id) DO UPDATE SET document = excluded.document, search = excluded.search`
+      );
+    },
+
+    async delete(indexName, id) {
+      if (!(await indexExists(indexName))) return;
+      await db.execute(sql`DELETE FROM ${table(indexName)} WHERE id = ${id}`);
+    },
+
+    async search<T = Record<string, unknown>>(
+      indexName: string,
+      searchQuery: SearchQuery
+    ): Promise<SearchResult<T>> {
+      const terms = matchTerms(searchQuery.query);
+      if (terms.length === 0 || !(await indexExists(indexName))) {
+        return { hits: [], total: 0 };
+      }
+
+      const tsquery = sql`to_tsquery(${language}, ${terms.map((t) => `${t}:*`).join(" & ")})`;
+      const fields = searchQuery.fields?.length ? searchQuery.fields : undefined;
+      const weights = searchQuery.fieldWeights ?? {};
+
+      // Restricting to fields rechecks against their own vectors; the GIN
+      // index on the full vector still narrows the candidates first
+      const conditions: SQL[] = [sql`s.search @@ ${tsquery}`];
+      if (fields) {
+        conditions.push(
+          sql`to_tsvector(${language}, concat_ws(' ', ${sql.join(
+            fields.map((f) => sql`s.document ->> ${f}::text`),
+            sql`, `
+          )})) @@ ${tsquery}`
+        );
+      }
+
+      // Weighted fields add their own rank on top of the overall one
+      const score = fields
+        ? sql.join(
+            fields.map((f) => sql`${weights[f] ?? 1} * ts_rank(${fieldVector(f)}, ${tsquery})`),
+            sql` + `
+          )
+        : sql.join(
+            [
+              sql`ts_rank(s.search, ${tsquery})`,
+              ...Object.entries(weights)
+                .filter(([, w]) => w !== 1)
+                .map(([f, w]) => sql`${w - 1} * ts_rank(${fieldVector(f)}, ${tsquery})`),
+            ],
+            sql` + `
+          );
+
+      const scope = searchQuery.scope;
+      let from = sql`FROM ${table(indexName)} s`;
+      if (scope) {
+        from = sql`${from} JOIN ${scope.table} ON ${scope.idColumn}::text = s.id`;
+        if (scope.where) conditions.push(scope.where);
+      }
+      const where = sql.join(conditions, sql` AND `);
+
+      const order: SQL[] = safeSortFields(searchQuery.sort).map(
+        (s) => sql`s.document -> ${s.field}::text ${sql.raw(s.order === "desc" ? "DESC" : "ASC")} NULLS LAST`
+      );
+      order.push(sql`score DESC`, sql`s.id`);
+
+      const rows = await query<MatchRow>(
+        sql`SELECT s.id, s.document, (${score})::float8 AS score ${from} WHERE ${where}
+          ORDER BY ${sql.join(order, sql`, `)}
+          LIMIT ${searchQuery.size ?? 20} OFFSET ${searchQuery.from ?? 0}`
+      );
+      const [count] = await query<{ total: number | string }>(
+        sql`SELECT count(*) AS total ${from} WHERE ${where}`
+      );
+
+      let highlights: Map<string, Record<string, string[]>> | undefined;
+      if (searchQuery.highlight && rows.length > 0) {
+        const snippets = await query<{ id: string; field: string; snippet: string }>(
+          sql`SELECT s.id, e.key AS field,
+              ts_headline(${language}, e.value, ${tsquery}, 'StartSel=<em>, StopSel=</em>') AS snippet
+            FROM ${table(indexName)} s CROSS JOIN LATERAL jsonb_each_text(s.document) e
+            WHERE s.id IN ${rows.map((r) => r.id)}
+              AND jsonb_typeof(s.document -> e.key) = 'string'
+              AND to_tsvector(${language}, e.value) @@ ${tsquery}
+              ${fields ? sql`AND e.key IN ${fields}` : sql``}`
+        );
+        highlights = groupHighlights(snippets);
+      }
+
+      return {
+        hits: rows.map((row): SearchHit<T> => ({
+          id: row.id,
+          score: Number(row.score),
+          source: (typeof row.document === "string" ? JSON.parse(row.document) : row.document) as T,
+          highlights: highlights ? highlights.get(row.id) ?? {} : undefined,
+        })),
+        total: Number(count?.total ?? 0),
+      };
+    },
+
+    async createIndex(indexName) {
+      await ensureIndex(indexName);
+    },
+
+    async deleteIndex(indexName) {
+      await db.execute(sql`DROP TABLE IF EXISTS ${table(indexName)}`);
+      ensured.delete(indexName);
+    },
+
+    indexExists,
+
+    async listIds(indexName) {
+      if (!(await indexExists(indexName))) return [];
+      const rows = await query<{ id: string }>(sql`SELECT id FROM ${table(indexName)}`);
+      return rows.map((row) => row.id);
+    },
+  };
+};
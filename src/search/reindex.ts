@@ -0,0 +1,501 @@
+import { AnyColumn, SQL, and, asc, count, eq, getTableColumns, gt, isNull, lte } from "drizzle-orm";
+import { z } from "zod";
+import { getGlobalKV, hasGlobalKV } from "@/kv";
+import { changelog } from "@/resource/changelog";
+import { NotFoundError, SearchError, SearchNotConfiguredError } from "@/resource/error";
+import { tenantIndexName } from "@/resource/tenant";
+import { defineTask } from "@/tasks/define";
+import { TaskScheduler } from "@/tasks/scheduler";
+import { TaskDefinition } from "@/tasks/types";
+import { getResourceSchema, SchemaRegistryEntry } from "@/ui/schema-registry";
+import { getGlobalSearch } from "./index";
+import { deriveIndexMappings } from "./mappings";
+import { SearchAdapter } from "./types";
+
+const PROGRESS_KEY = "concave:search:reindex";
+const DEFAULT_BATCH_SIZE = 500;
+// Far above the worker's default, which a large table outgrows
+const DEFAULT_TASK_TIMEOUT = 60 * 60 * 1000;
+
+export interface ReindexOptions {
+  batchSize?: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: ReindexProgress) => void | Promise<void>;
+  // Recorded in the progress when the run is a task
+  taskId?: string;
+  // Picks up an unfinished run of the resource after its last indexed row,
+  // writing into the same indices, instead of starting over
+  resume?: boolean;
+}
+
+export interface ReindexProgress {
+  resource: string;
+  status: "queued" | "running" | "completed" | "failed";
+  taskId?: string;
+  processed: number;
+  total: number;
+  // Index written by this run, by the alias (or live index) it replaces
+  indices: Record<string, string>;
+  startedAt: number;
+  finishedAt?: number;
+  error?: string;
+  // Id of the last row indexed, and the changelog sequence the run started
+  // at, for a resumed run to continue from
+  cursor?: string | number;
+  sinceSeq?: number;
+}
+
+export interface IndexConsistency {
+  index: string;
+  dbCount: number;
+  indexCount: number;
+  // Rows that are not in the index, and index documents with no row
+  missing: string[];
+  extra: string[];
+}
+
+export interface ConsistencyReport {
+  resource: string;
+  consistent: boolean;
+  indices: IndexConsistency[];
+}
+
+interface SearchTarget {
+  entry: SchemaRegistryEntry;
+  adapter: SearchAdapter;
+  indexName: string;
+  idKey: string;
+  tenantKey?: string;
+  softDeleteKey?: string;
+}
+
+const localProgress = new Map<string, ReindexProgress>();
+
+const saveProgress = async (progress: ReindexProgress): Promise<void> => {
+  if (hasGlobalKV()) {
+    await getGlobalKV().hset(PROGRESS_KEY, progress.resource, JSON.stringify(progress));
+  } else {
+    localProgress.set(progress.resource, { ...progress, indices: { ...progress.indices } });
+  }
+};
+
+export const getReindexProgress = async (resource: string): Promise<ReindexProgress | null> => {
+  if (hasGlobalKV()) {
+    const data = await getGlobalKV().hget(PROGRESS_KEY, resource);
+    return data ? (JSON.parse(data) as ReindexProgress) : null;
+  }
+  return localProgress.get(resource) ?? null;
+};
+
+export const listReindexProgress = async (): Promise<ReindexProgress[]> => {
+  if (hasGlobalKV()) {
+    const all = await getGlobalKV().hgetall(PROGRESS_KEY);
+    return Object.values(all).map((data) => JSON.parse(data) as ReindexProgress);
+  }
+  return [...localProgress.values()];
+};
+
+export const clearReindexProgress = async (): Promise<void> => {
+  if (hasGlobalKV()) {
+    await getGlobalKV().del(PROGRESS_KEY);
+  }
+  localProgress.clear();
+};
+
+const resolveTarget = (resource: string): SearchTarget => {
+  const entry = getResourceSchema(resource);
+  if (!entry) {
+    throw new NotFoundError("Resource", resource);
+  }
+  if (!entry.config.search) {
+    throw new SearchNotConfiguredError(`Search is not enabled for ${entry.name}`);
+  }
+
+  const keyOf = (column: AnyColumn | undefined) =>
+    column
+      ? Object.entries(getTableColumns(entry.schema)).find(([, c]) => c === column)?.[0] ?? column.name
+      : undefined;
+
+  return {
+    entry,
+    adapter: getGlobalSearch(),
+    indexName: entry.config.search.indexName,
+    idKey: keyOf(entry.idColumn)!,
+    tenantKey: keyOf(entry.config.tenantColumn),
+    softDeleteKey: keyOf(entry.config.softDeleteColumn),
+  };
+};
+
+// Each tenant has its own index, as with auto-indexing
+const indexFor = (target: SearchTarget, tenant: unknown): string =>
+  tenant === null || tenant === undefined
+    ? target.indexName
+    : tenantIndexName(target.indexName, String(tenant));
+
+const liveRows = (target: SearchTarget, ...conditions: Array<SQL | undefined>): SQL | undefined => {
+  const { softDeleteColumn } = target.entry.config;
+  return and(...conditions, softDeleteColumn ? isNull(softDeleteColumn) : undefined);
+};
+
+/**
+ * Reads the resource's live rows in id order, a batch at a time, so tables
+ * of any size stream with a bounded page and no OFFSET scans.
+ */
+async function* scanRows(
+  target: SearchTarget,
+  batchSize: number,
+  where?: SQL,
+  signal?: AbortSignal,
+  after?: unknown
+): AsyncGenerator<Record<string, unknown>[]> {
+  const { db, schema, idColumn } = target.entry;
+  let last = after;
+
+  for (;;) {
+    signal?.throwIfAborted();
+    const rows: Record<string, unknown>[] = await db
+      .select()
+      .from(schema)
+      .where(liveRows(target, where, last === undefined ? undefined : gt(idColumn, last)))
+      .orderBy(asc(idColumn))
+      .limit(batchSize);
+
+    if (rows.length > 0) yield rows;
+    if (rows.length < batchSize) return;
+    last = rows[rows.length - 1]![target.idKey];
+  }
+}
+
+// True when entries after `sinceSeq` have been trimmed from the changelog
+// (or it was reset), so catching up would silently miss changes
+const changesLost = async (sinceSeq: number): Promise<boolean> => {
+  if ((await changelog.getCurrentSequence()) < sinceSeq) return true;
+  return (await changelog.getMinAvailableSequence()) > sinceSeq + 1;
+};
+
+// Changes made while the table was being read went to the old index;
+// replaying them from the changelog brings the new one up to date
+const catchUp = async (target: SearchTarget, sinceSeq: number): Promise<void> => {
+  const entries = await changelog.getEntriesSince(target.entry.name, sinceSeq);
+
+  for (const entry of entries) {
+    const indexName = indexFor(target, entry.tenant);
+    const softDeleted = target.softDeleteKey && entry.object?.[target.softDeleteKey] != null;
+    if (entry.type === "delete" || softDeleted || !entry.object) {
+      await target.adapter.delete(indexName, entry.objectId);
+    } else {
+      await target.adapter.index(indexName, entry.objectId, entry.object);
+    }
+  }
+};
+
+// Rows go to the adapter a batch per index at a time, in one request when
+// it can take them in bulk
+const writeDocuments = async (
+  adapter: SearchAdapter,
+  indexName: string,
+  documents: Array<{ id: string; document: Record<string, unknown> }>
+): Promise<void> => {
+  if (adapter.bulkIndex) {
+    await adapter.bulkIndex(indexName, documents);
+    return;
+  }
+  for (const { id, document } of documents) {
+    await adapter.index(indexName, id, document);
+  }
+};
+
+const isUnfinished = (progress: ReindexProgress | null): progress is ReindexProgress =>
+  progress?.status === "running" || progress?.status === "failed";
+
+/**
+ * Rebuilds a resource's search index from its table, including rows that
+ * auto-indexing never saw. With an adapter that supports aliases, rows go
+ * into fresh indices created with mappings derived from the columns, and
+ * each alias is swapped over once the table has been read; otherwise the
+ * live index is rewritten in place and documents without a row are removed.
+ *
+ * A run that fails keeps its new indices and the id of the last row it
+ * indexed, so `resume` can finish it; a cancelled run removes them. So does
+ * a run whose changelog entries were trimmed before it could replay them:
+ * it fails without swapping, and the next run starts over.
+ */
+export const reindexResource = async (
+  resource: string,
+  options: ReindexOptions = {}
+): Promise<ReindexProgress> => {
+  const target = resolveTarget(resource);
+  const { entry, adapter } = target;
+  const useAliases = !!(adapter.putAlias && adapter.getAlias);
+  const mappings = deriveIndexMappings(entry.schema, entry.config.search?.fields);
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+
+  const [{ total }] = await entry.db
+    .select({ total: count() })
+    .from(entry.schema)
+    .where(liveRows(target));
+
+  const saved = await getReindexProgress(entry.name);
+  let resumed = false;
+  if (isUnfinished(saved) && options.resume && saved.cursor !== undefined) {
+    const indices = Object.values(saved.indices);
+    resumed = (await Promise.all(indices.map((i) => adapter.indexExists(i)))).every(Boolean);
+  }
+
+  // New indices of a failed run that won't be finished are dropped
+  if (!resumed && saved?.status === "failed" && useAliases) {
+    for (const [alias, indexName] of Object.entries(saved.indices)) {
+      if ((await adapter.getAlias!(alias)) !== indexName) {
+        await adapter.deleteIndex(indexName).catch(() => undefined);
+      }
+    }
+  }
+
+  const progress: ReindexProgress = resumed
+    ? {
+        ...saved!,
+        status: "running",
+        ...(options.taskId && { taskId: options.taskId }),
+        total: Number(total),
+        indices: { ...saved!.indices },
+        error: undefined,
+        finishedAt: undefined,
+      }
+    : {
+        resource: entry.name,
+        status: "running",
+        ...(options.taskId && { taskId: options.taskId }),
+        processed: 0,
+        total: Number(total),
+        indices: {},
+        startedAt: Date.now(),
+        sinceSeq: await changelog.getCurrentSequence(),
+      };
+  const report = async () => {
+    await saveProgress(progress);
+    await options.onProgress?.({ ...progress, indices: { ...progress.indices } });
+  };
+  await report();
+
+  // Ids written to each index rewritten in place, to find the stale ones
+  const written = new Map<string, Set<string>>(
+    Object.keys(progress.indices).map((alias) => [alias, new Set()])
+  );
+  const swapped = new Set<string>();
+  let trimmed = false;
+
+  const indexFrom = async (alias: string): Promise<string> => {
+    if (!progress.indices[alias]) {
+      const indexName = useAliases ? `${alias}__v${progress.startedAt}` : alias;
+      await adapter.createIndex(indexName, mappings);
+      progress.indices[alias] = indexName;
+      written.set(alias, new Set());
+    }
+    return progress.indices[alias]!;
+  };
+
+  try {
+    if (!target.tenantKey) {
+      await indexFrom(target.indexName);
+    }
+
+    // Rows the interrupted run indexed still count as written
+    if (resumed && !useAliases) {
+      const done = lte(entry.idColumn, progress.cursor);
+      for await (const rows of scanRows(target, batchSize, done, options.signal)) {
+        for (const row of rows) {
+          const alias = indexFor(target, target.tenantKey ? row[target.tenantKey] : undefined);
+          await indexFrom(alias);
+          written.get(alias)!.add(String(row[target.idKey]));
+        }
+      }
+    }
+
+    const rowBatches = scanRows(target, batchSize, undefined, options.signal, progress.cursor);
+    for await (const rows of rowBatches) {
+      const batches = new Map<string, Array<{ id: string; document: Record<string, unknown> }>>();
+      for (const row of rows) {
+        const alias = indexFor(target, target.tenantKey ? row[target.tenantKey] : undefined);
+        const id = String(row[target.idKey]);
+        await indexFrom(alias);
+        if (!batches.has(alias)) batches.set(alias, []);
+        batches.get(alias)!.push({ id, document: row });
+        written.get(alias)!.add(id);
+      }
+      for (const [alias, documents] of batches) {
+        await writeDocuments(adapter, progress.indices[alias]!, documents);
+      }
+
+      progress.processed += rows.length;
+      progress.cursor = rows[rows.length - 1]![target.idKey] as string | number;
+      await report();
+    }
+
+    for (const indexName of Object.values(progress.indices)) {
+      await adapter.refresh?.(indexName);
+    }
+
+    // The new indices would miss whatever changed in the trimmed entries
+    if (await changesLost(progress.sinceSeq ?? 0)) {
+      trimmed = true;
+      throw new SearchError(
+        `The changelog was trimmed while ${entry.name} was being reindexed; run the reindex again`
+      );
+    }
+
+    for (const [alias, indexName] of Object.entries(progress.indices)) {
+      if (useAliases) {
+        const previous = await adapter.getAlias!(alias);
+        await adapter.putAlias!(alias, indexName);
+        swapped.add(alias);
+        if (previous && previous !== indexName) {
+          await adapter.deleteIndex(previous);
+        }
+      } else if (adapter.listIds) {
+        const ids = written.get(alias)!;
+        for (const id of await adapter.listIds(alias)) {
+          if (!ids.has(id)) await adapter.delete(alias, id);
+        }
+      }
+    }
+
+    await catchUp(target, progress.sinceSeq ?? 0);
+
+    progress.status = "completed";
+    progress.finishedAt = Date.now();
+    await report();
+    return progress;
+  } catch (err) {
+    if (useAliases && (options.signal?.aborted || trimmed)) {
+      for (const [alias, indexName] of Object.entries(progress.indices)) {
+        if (swapped.has(alias) || (await adapter.getAlias!(alias)) === indexName) continue;
+        await adapter.deleteIndex(indexName).catch(() => undefined);
+      }
+    }
+    // Resuming can't recover the lost changes, so the next run starts over
+    if (trimmed) {
+      progress.cursor = undefined;
+    }
+    progress.status = "failed";
+    progress.error = err instanceof Error ? err.message : String(err);
+    progress.finishedAt = Date.now();
+    await report();
+    throw err;
+  }
+};
+
+/**
+ * Compares the ids of a resource's live rows with the ids in its search
+ * index, per tenant index when the resource is tenant-scoped.
+ */
+export const checkIndexConsistency = async (
+  resource: string,
+  options: { tenant?: string; batchSize?: number } = {}
+): Promise<ConsistencyReport> => {
+  const target = resolveTarget(resource);
+  const { adapter } = target;
+  if (!adapter.listIds) {
+    throw new SearchError("The search adapter cannot list document ids");
+  }
+
+  const { tenantColumn } = target.entry.config;
+  const where =
+    options.tenant !== undefined && tenantColumn ? eq(tenantColumn, options.tenant) : undefined;
+
+  const dbIds = new Map<string, Set<string>>();
+  if (!target.tenantKey) {
+    dbIds.set(target.indexName, new Set());
+  } else if (options.tenant !== undefined) {
+    dbIds.set(indexFor(target, options.tenant), new Set());
+  }
+
+  for await (const rows of scanRows(target, options.batchSize ?? DEFAULT_BATCH_SIZE, where)) {
+    for (const row of rows) {
+      const indexName = indexFor(target, target.tenantKey ? row[target.tenantKey] : undefined);
+      if (!dbIds.has(indexName)) dbIds.set(indexName, new Set());
+      dbIds.get(indexName)!.add(String(row[target.idKey]));
+    }
+  }
+
+  const indices: IndexConsistency[] = [];
+  for (const [indexName, ids] of dbIds) {
+    const indexIds = new Set(await adapter.listIds(indexName));
+    indices.push({
+      index: indexName,
+      dbCount: ids.size,
+      indexCount: indexIds.size,
+      missing: [...ids].filter((id) => !indexIds.has(id)),
+      extra: [...indexIds].filter((id) => !ids.has(id)),
+    });
+  }
+
+  return {
+    resource: target.entry.name,
+    consistent: indices.every((i) => i.missing.length === 0 && i.extra.length === 0),
+    indices,
+  };
+};
+
+export interface SearchReindexTaskInput {
+  resource: string;
+  batchSize?: number;
+}
+
+/**
+ * A task that runs `reindexResource`. Register it with the worker and
+ * enqueue `{ resource }` to rebuild that resource's index in the background.
+ * It reports its progress on the task, and a retry resumes the failed run.
+ */
+export const createSearchReindexTask = (
+  options: { name?: string; batchSize?: number; timeout?: number } = {}
+): TaskDefinition<SearchReindexTaskInput, ReindexProgress> =>
+  defineTask<SearchReindexTaskInput, ReindexProgress>({
+    name: options.name ?? "search:reindex",
+    input: z.object({
+      resource: z.string().min(1),
+      batchSize: z.number().int().positive().optional(),
+    }),
+    timeout: options.timeout ?? DEFAULT_TASK_TIMEOUT,
+    handler: (ctx, input) =>
+      reindexResource(input.resource, {
+        batchSize: input.batchSize ?? options.batchSize,
+        signal: ctx.signal,
+        taskId: ctx.taskId,
+        resume: true,
+        onProgress: (progress) =>
+          ctx.reportProgress(
+            progress.status === "completed"
+              ? 100
+              : progress.total > 0
+                ? (progress.processed / progress.total) * 100
+                : 0,
+            `${progress.processed}/${progress.total} rows`
+          ),
+      }),
+  });
+
+/**
+ * Enqueues a reindex of `resource` and records it as queued, so progress
+ * shows the job before a worker picks it up. The worker must have the
+ * same task registered.
+ */
+export const enqueueReindex = async (
+  scheduler: TaskScheduler,
+  resource: string,
+  task: TaskDefinition<SearchReindexTaskInput, ReindexProgress> = createSearchReindexTask()
+): Promise<ReindexProgress> => {
+  const { entry } = resolveTarget(resource);
+  const taskId = await scheduler.enqueue(task, { resource: entry.name });
+
+  const progress: ReindexProgress = {
+    resource: entry.name,
+    status: "queued",
+    taskId,
+    processed: 0,
+    total: 0,
+    indices: {},
+    startedAt: Date.now(),
+  };
+  await saveProgress(progress);
+  return progress;
+};
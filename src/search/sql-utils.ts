@@ -0,0 +1,30 @@
+import { SearchQuery } from "./types";
+
+const FIELD_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// Words of the query, so user input never reaches the MATCH/tsquery syntax
+export const matchTerms = (query: string): string[] =>
+  query.match(/[\p{L}\p{N}_]+/gu) ?? [];
+
+// Sort fields end up in JSON paths; anything but plain names is ignored
+export const safeSortFields = (sort: SearchQuery["sort"]): NonNullable<SearchQuery["sort"]> =>
+  (sort ?? []).filter((s) => FIELD_NAME.test(s.field));
+
+export const indexedFields = (document: Record<string, unknown>): Array<[string, string]> =>
+  Object.entries(document).filter(
+    (entry): entry is [string, string] => typeof entry[1] === "string" && entry[1] !== ""
+  );
+
+export const groupHighlights = (
+  rows: Array<{ id: string; field: string; snippet: string }>
+): Map<string, Record<string, string[]>> => {
+  const byId = new Map<string, Record<string, string[]>>();
+  for (const row of rows) {
+    if (!row.snippet.includes("<em>")) continue;
+    const id = String(row.id);
+    const fields = byId.get(id) ?? {};
+    (fields[row.field] ??= []).push(row.snippet);
+    byId.set(id, fields);
+  }
+  return byId;
+};
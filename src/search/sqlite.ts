@@ -0,0 +1,165 @@
+import { sql, SQL } from "drizzle-orm";
+import type { BaseSQLiteDatabase } from "drizzle-orm/sqlite-core";
+import { SearchAdapter, SearchQuery, SearchResult, SearchHit } from "./types";
+import { matchTerms, safeSortFields, indexedFields, groupHighlights } from "./sql-utils";
+
+export interface SQLiteSearchConfig {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  db: BaseSQLiteDatabase<"sync" | "async", any>;
+  tablePrefix?: string;
+  tokenizer?: string;
+}
+
+interface MatchRow {
+  id: string;
+  document: string;
+  score: number;
+}
+
+/**
+ * Full-text search on an FTS5 virtual table in the resource's own
+ * database. Every string field of a document is a row of the FTS table, so
+ * documents don't need a fixed set of columns, and the JSON document is kept
+ * alongside for sorting and returning hits.
+ */
+export const createSQLiteSearchAdapter = (config: SQLiteSearchConfig): SearchAdapter => {
+  const { db } = config;
+  const prefix = config.tablePrefix ?? "concave_fts_";
+  const tokenizer = config.tokenizer ?? "porter unicode61 remove_diacritics 2";
+
+  const ftsTable = (indexName: string) => sql.identifier(`${prefix}${indexName}`);
+  const docsTable = (indexName: string) => sql.identifier(`${prefix}${indexName}_docs`);
+
+  const ensured = new Set<string>();
+
+  const ensureIndex = async (indexName: string) => {
+    if (ensured.has(indexName)) return;
+    await db.run(
+      sql`CREATE VIRTUAL TABLE IF NOT EXISTS ${ftsTable(indexName)} USING fts5(id UNINDEXED, field UNINDEXED, content, tokenize=${sql.raw(`'${tokenizer.replace(/'/g, "''")}'`)})`
+    );
+    await db.run(
+      sql`CREATE TABLE IF NOT EXISTS ${docsTable(indexName)} (id TEXT PRIMARY KEY, document TEXT NOT NULL)`
+    );
+    ensured.add(indexName);
+  };
+
+  const indexExists = async (indexName: string): Promise<boolean> => {
+    const rows = await db.all<{ name: string }>(
+      sql`SELECT name FROM sqlite_master WHERE name = ${`${prefix}${indexName}`}`
+    );
+    return rows.length > 0;
+  };
+
+  return {
+    supportsScope: "sql",
+
+    async index(indexName, id, document) {
+      await ensureIndex(indexName);
+      const fts = ftsTable(indexName);
+
+      await db.run(sql`DELETE FROM ${fts} WHERE id = ${id}`);
+      await db.run(
+        sql`INSERT OR REPLACE INTO ${docsTable(indexName)} (id, document) VALUES (${id}, ${JSON.stringify(document)})`
+      );
+
+      const rows = indexedFields(document).map(
+        ([field, content]) => sql`(${id}, ${field}, ${content})`
+      );
+      if (rows.length > 0) {
+        await db.run(sql`INSERT INTO ${fts} (id, field, content) VALUES ${sql.join(rows, sql`, `)}`);
+      }
+    },
+
+    async delete(indexName, id) {
+      if (!(await indexExists(indexName))) return;
+      await db.run(sql`DELETE FROM ${ftsTable(indexName)} WHERE id = ${id}`);
+      await db.run(sql`DELETE FROM ${docsTable(indexName)} WHERE id = ${id}`);
+    },
+
+    async search<T = Record<string, unknown>>(
+      indexName: string,
+      query: SearchQuery
+    ): Promise<SearchResult<T>> {
+      const terms = matchTerms(query.query);
+      if (terms.length === 0 || !(await indexExists(indexName))) {
+        return { hits: [], total: 0 };
+      }
+
+      const fts = ftsTable(indexName);
+      const match = terms.map((term) => `"${term}"*`).join(" ");
+      const fieldFilter = query.fields?.length
+        ? sql` AND field IN ${query.fields}`
+        : sql``;
+
+      // bm25() is lower for better matches; weights scale per field row
+      const weights = Object.entries(query.fieldWeights ?? {});
+      const weight = weights.length > 0
+        ? sql`CASE field ${sql.join(weights.map(([f, w]) => sql`WHEN ${f} THEN ${w}`), sql` `)} ELSE 1 END`
+        : sql`1`;
+
+      // bm25() can't be evaluated inside the aggregate, hence MATERIALIZED
+      const matches = sql`WITH scored AS MATERIALIZED (
+        SELECT id, -bm25(${fts}) * ${weight} AS score FROM ${fts}
+        WHERE ${fts} MATCH ${match}${fieldFilter}
+      ), matches AS (
+        SELECT id, max(score) AS score FROM scored GROUP BY id
+      )`;
+
+      const scope = query.scope;
+      const from = scope
+        ? sql`FROM matches m JOIN ${docsTable(indexName)} d ON d.id = m.id JOIN ${scope.table} ON ${scope.idColumn} = d.id${scope.where ? sql` WHERE ${scope.where}` : sql``}`
+        : sql`FROM matches m JOIN ${docsTable(indexName)} d ON d.id = m.id`;
+
+      const order: SQL[] = safeSortFields(query.sort).map(
+        (s) => sql`json_extract(d.document, ${`$.${s.field}`}) ${sql.raw(s.order === "desc" ? "DESC" : "ASC")}`
+      );
+      order.push(sql`m.score DESC`, sql`d.id`);
+
+      const rows = await db.all<MatchRow>(
+        sql`${matches} SELECT d.id AS id, d.document AS document, m.score AS score ${from}
+          ORDER BY ${sql.join(order, sql`, `)}
+          LIMIT ${query.size ?? 20} OFFSET ${query.from ?? 0}`
+      );
+      const [count] = await db.all<{ total: number }>(
+        sql`${matches} SELECT count(*) AS total ${from}`
+      );
+
+      let highlights: Map<string, Record<string, string[]>> | undefined;
+      if (query.highlight && rows.length > 0) {
+        const snippets = await db.all<{ id: string; field: string; snippet: string }>(
+          sql`SELECT id, field, highlight(${fts}, 2, '<em>', '</em>') AS snippet FROM ${fts}
+            WHERE ${fts} MATCH ${match} AND id IN ${rows.map((r) => String(r.id))}${fieldFilter}`
+        );
+        highlights = groupHighlights(snippets);
+      }
+
+      return {
+        hits: rows.map((row): SearchHit<T> => ({
+          id: String(row.id),
+          score: Number(row.score),
+          source: JSON.parse(row.document) as T,
+          highlights: highlights ? highlights.get(String(row.id)) ?? {} : undefined,
+        })),
+        total: Number(count?.total ?? 0),
+      };
+    },
+
+    async createIndex(indexName) {
+      await ensureIndex(indexName);
+    },
+
+    async deleteIndex(indexName) {
+      await db.run(sql`DROP TABLE IF EXISTS ${ftsTable(indexName)}`);
+      await db.run(sql`DROP TABLE IF EXISTS ${docsTable(indexName)}`);
+      ensured.delete(indexName);
+    },
+
+    indexExists,
+
+    async listIds(indexName) {
+      if (!(await indexExists(indexName))) return [];
+      const rows = await db.all<{ id: string }>(sql`SELECT id FROM ${docsTable(indexName)}`);
+      return rows.map((row) => String(row.id));
+    },
+  };
+};
@@ -1,3 +1,5 @@
+import type { Column, SQL, Table } from "drizzle-orm";
+
 export interface SearchQuery {
   query: string;
   fields?: string[];
@@ -6,6 +8,48 @@ export interface SearchQuery {
   size?: number;
   highlight?: boolean;
   sort?: Array<{ field: string; order: "asc" | "desc" }>;
+  scope?: SearchScope;
+  facets?: FacetRequest[];
+  // Typo tolerance; left undefined, the adapter's default applies
+  fuzzy?: boolean;
+  // Treat the last word as a prefix, for search-as-you-type
+  prefix?: boolean;
+}
+
+// Restricts hits to the documents the user can read. Only adapters with
+// `supportsScope` read it: "sql" adapters join `table` and apply `where`,
+// "predicate" adapters call `matches` on each document and "ids" adapters
+// only match the documents in `ids`.
+export interface SearchScope {
+  table: Table;
+  idColumn: Column;
+  where?: SQL;
+  matches?: (document: Record<string, unknown>) => boolean;
+  ids?: string[];
+}
+
+export interface FacetRange {
+  key?: string;
+  // Numbers or ISO dates; `from` is inclusive, `to` exclusive
+  from?: number | string;
+  to?: number | string;
+}
+
+export type FacetRequest =
+  | { name?: string; type: "terms"; field: string; size?: number }
+  | { name?: string; type: "range"; field: string; ranges: FacetRange[] };
+
+// A facet offered by a resource's /search endpoint; `field` defaults to
+// the facet's name
+export type FacetConfig =
+  | { type: "terms"; field?: string; size?: number }
+  | { type: "range"; field?: string; ranges: FacetRange[] };
+
+export interface FacetBucket {
+  key: string;
+  count: number;
+  from?: number | string;
+  to?: number | string;
 }
 
 export interface SearchHit<T = Record<string, unknown>> {
@@ -18,6 +62,8 @@ export interface SearchHit<T = Record<string, unknown>> {
 export interface SearchResult<T = Record<string, unknown>> {
   hits: SearchHit<T>[];
   total: number;
+  // Keyed by facet name, which defaults to the field
+  facets?: Record<string, FacetBucket[]>;
 }
 
 export interface FieldMapping {
@@ -39,6 +85,10 @@ export interface IndexMappings {
 }
 
 export interface SearchAdapter {
+  // The adapter applies `SearchQuery.scope` itself, either in the
+  // resource's own database, per document or as a list of ids, so hits need
+  // no filtering afterwards
+  readonly supportsScope?: "sql" | "predicate" | "ids";
   index(
     indexName: string,
     id: string,
@@ -52,6 +102,23 @@ export interface SearchAdapter {
   createIndex(indexName: string, mappings: IndexMappings): Promise<void>;
   deleteIndex(indexName: string): Promise<void>;
   indexExists(indexName: string): Promise<boolean>;
+  // Points `alias` at `indexName` in one step, replacing whatever it
+  // pointed at (or a plain index of that name). Reads and writes through
+  // the alias then reach the new index. Without it, a reindex rebuilds the
+  // live index in place.
+  putAlias?(alias: string, indexName: string): Promise<void>;
+  // The index an alias points at, or null for a plain index or no index
+  getAlias?(alias: string): Promise<string | null>;
+  // Every document id in an index, for consistency checks
+  listIds?(indexName: string): Promise<string[]>;
+  // Indexes many documents in one request without waiting for them to
+  // become searchable; a reindex writes its batches this way and calls
+  // `refresh` once at the end
+  bulkIndex?(
+    indexName: string,
+    documents: Array<{ id: string; document: Record<string, unknown> }>
+  ): Promise<void>;
+  refresh?(indexName: string): Promise<void>;
 }
 
 export interface SearchConfig {
@@ -61,4 +128,5 @@ export interface SearchConfig {
     | string[]
     | Record<string, { weight?: number; searchable?: boolean; analyzer?: string }>;
   autoIndex?: boolean;
+  facets?: Record<string, FacetConfig>;
 }
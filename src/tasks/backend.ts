@@ -0,0 +1,26 @@
+import { KVAdapter } from "@/kv/types";
+import { Task } from "./types";
+import { TaskStorage } from "./storage";
+import { TaskQueue } from "./queue";
+import { TaskLock } from "./lock";
+import { RecurringManager } from "./recurring";
+import { DeadLetterQueue } from "./dlq";
+
+/**
+ * Where tasks, the queue, schedules and dead letters are kept. Schedulers
+ * and workers default to KV; pass a backend such as `createSQLTaskBackend`
+ * to keep them in a database instead. Coordination that is fine to lose
+ * on restart (events, concurrency slots, debounce windows and workflow
+ * bookkeeping) stays in KV either way.
+ */
+export interface TaskBackend {
+  storage: TaskStorage;
+  queue: TaskQueue;
+  lock: TaskLock;
+  recurring: RecurringManager;
+  // Takes `kv` for the workflows that retried tasks may belong to
+  createDeadLetterQueue(
+    kv: KVAdapter,
+    requeue: (task: Task) => Promise<string>
+  ): DeadLetterQueue;
+}
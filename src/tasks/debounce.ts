@@ -0,0 +1,102 @@
+import { KVAdapter, delIfEquals } from "@/kv/types";
+import { createTaskQueue } from "./queue";
+import { createTaskStorage } from "./storage";
+import type { TaskBackend } from "./backend";
+
+const DEBOUNCE_PREFIX = "concave:tasks:debounce:";
+// Keeps the key around a little past the window so a slow worker can still
+// find and clear it
+const DEBOUNCE_GRACE_SECONDS = 60;
+// Enqueues and task starts for one key take turns under this lock; it
+// expires on its own if a holder dies
+const KEY_LOCK_TTL_MS = 5000;
+const KEY_LOCK_RETRY_MS = 5;
+
+export interface TaskDebouncer {
+  /**
+   * Points `debounceKey` at a new task unless a task for it is still waiting,
+   * in which case that task takes the new input and its run moves to the end
+   * of a fresh window. Returns the waiting task's id, or the id `create`
+   * returns for a new task.
+   */
+  absorb(
+    debounceKey: string,
+    taskId: string,
+    input: unknown,
+    windowMs: number,
+    create: () => Promise<string>
+  ): Promise<string>;
+  // Called when the task starts, so later enqueues open a new window
+  release(debounceKey: string, taskId: string): Promise<void>;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export const createTaskDebouncer = (
+  kv: KVAdapter,
+  backend?: TaskBackend
+): TaskDebouncer => {
+  const storage = backend?.storage ?? createTaskStorage(kv);
+  const queue = backend?.queue ?? createTaskQueue(kv);
+
+  const withKeyLock = async <T>(key: string, fn: () => Promise<T>): Promise<T> => {
+    const lockKey = `${key}:lock`;
+    const owner = crypto.randomUUID();
+    const deadline = Date.now() + KEY_LOCK_TTL_MS;
+
+    for (;;) {
+      await kv.set(lockKey, owner, { nx: true, px: KEY_LOCK_TTL_MS });
+      if ((await kv.get(lockKey)) === owner) break;
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for debounce key ${key}`);
+      }
+      await sleep(KEY_LOCK_RETRY_MS);
+    }
+
+    try {
+      return await fn();
+    } finally {
+      await delIfEquals(kv, lockKey, owner);
+    }
+  };
+
+  return {
+    async absorb(
+      debounceKey: string,
+      taskId: string,
+      input: unknown,
+      windowMs: number,
+      create: () => Promise<string>
+    ): Promise<string> {
+      const key = `${DEBOUNCE_PREFIX}${debounceKey}`;
+      const ttl = Math.ceil(windowMs / 1000) + DEBOUNCE_GRACE_SECONDS;
+
+      // The new task is stored before the lock is let go, so a concurrent
+      // enqueue never finds the key pointing at a task that isn't there yet
+      return withKeyLock(key, async () => {
+        const holder = await kv.get(key);
+        if (holder) {
+          const waiting = await storage.get(holder);
+          if (waiting?.status === "scheduled") {
+            const scheduledFor = Date.now() + windowMs;
+            await storage.update(holder, { input, scheduledFor });
+            await queue.add(holder, waiting.priority, scheduledFor);
+            await kv.expire(key, ttl);
+            return holder;
+          }
+        }
+
+        // Nothing is waiting, or the earlier task has already started
+        await kv.set(key, taskId, { ex: ttl });
+        return create();
+      });
+    },
+
+    async release(debounceKey: string, taskId: string): Promise<void> {
+      const key = `${DEBOUNCE_PREFIX}${debounceKey}`;
+      // Waits out an absorb in progress, so its input lands before the
+      // worker reads the task's input back
+      await withKeyLock(key, () => delIfEquals(kv, key, taskId));
+    },
+  };
+};
@@ -1,12 +1,20 @@
 import { z } from "zod";
-import { TaskDefinition, RetryConfig, DebounceConfig } from "./types";
+import { TaskDefinition, TaskContext, RetryConfig, DebounceConfig } from "./types";
 
 export interface DefineTaskOptions<TInput, TOutput> {
   name: string;
   input?: z.ZodSchema<TInput>;
   output?: z.ZodSchema<TOutput>;
   handler: (
-    ctx: { taskId: string; attempt: number; workerId: string; signal: AbortSignal; scheduledAt: Date; startedAt: Date },
+    ctx: {
+      taskId: string;
+      attempt: number;
+      workerId: string;
+      signal: AbortSignal;
+      scheduledAt: Date;
+      startedAt: Date;
+      reportProgress: TaskContext["reportProgress"];
+    },
     input: TInput
   ) => Promise<TOutput>;
   retry?: RetryConfig;
@@ -1,9 +1,12 @@
 import { KVAdapter } from "@/kv/types";
 import { Task, DeadLetterEntry } from "./types";
-import { createTaskStorage } from "./storage";
+import { createTaskStorage, TaskStorage } from "./storage";
+import { createWorkflowManager, WorkflowManager } from "./workflow";
 
 const DEAD_LETTER_KEY = "concave:tasks:dead";
 const DLQ_DATA_PREFIX = "concave:tasks:dead:data:";
+// Holds the task id of the entry a dead workflow is filed under
+const DLQ_WORKFLOW_PREFIX = "concave:tasks:dead:workflow:";
 
 const serializeDLQEntry = (entry: DeadLetterEntry): Record<string, string> => ({
   taskId: entry.taskId,
@@ -11,6 +14,7 @@ const serializeDLQEntry = (entry: DeadLetterEntry): Record<string, string> => ({
   failedAt: String(entry.failedAt),
   reason: entry.reason,
   attempts: String(entry.attempts),
+  ...(entry.workflowId && { workflowId: entry.workflowId }),
 });
 
 const deserializeDLQEntry = (data: Record<string, string>): DeadLetterEntry => ({
@@ -19,8 +23,80 @@ const deserializeDLQEntry = (data: Record<string, string>): DeadLetterEntry => (
   failedAt: parseInt(data.failedAt, 10),
   reason: data.reason,
   attempts: parseInt(data.attempts, 10),
+  ...(data.workflowId && { workflowId: data.workflowId }),
 });
 
+// A fresh copy of a dead task, ready to be queued again
+export const retryTask = (task: Task): Task => ({
+  ...task,
+  id: crypto.randomUUID(),
+  status: "pending",
+  attempt: 0,
+  createdAt: Date.now(),
+  scheduledFor: Date.now(),
+  startedAt: undefined,
+  completedAt: undefined,
+  workerId: undefined,
+  lastError: undefined,
+  result: undefined,
+});
+
+export const withWorkflow = async (
+  entry: DeadLetterEntry,
+  workflows: WorkflowManager
+): Promise<DeadLetterEntry> => {
+  if (!entry.workflowId) return entry;
+  const workflow = await workflows.get(entry.workflowId);
+  return workflow ? { ...entry, workflow } : entry;
+};
+
+// The tasks an entry stands for: its own, or for a workflow every step that
+// is dead, the entry's own task first
+export const entryTasks = async (
+  entry: DeadLetterEntry,
+  storage: TaskStorage,
+  workflows: WorkflowManager
+): Promise<Task[]> => {
+  const workflow = entry.workflowId ? await workflows.get(entry.workflowId) : null;
+  const deadIds = (workflow?.steps ?? [])
+    .filter((s) => s.status === "dead" && s.taskId)
+    .map((s) => s.taskId!);
+  if (!deadIds.includes(entry.taskId)) return [entry.task];
+
+  const tasks = [entry.task];
+  for (const taskId of deadIds) {
+    if (taskId === entry.taskId) continue;
+    const task = await storage.get(taskId);
+    if (task) tasks.push(task);
+  }
+  return tasks;
+};
+
+// Queues fresh copies of an entry's tasks, resuming their workflow, and
+// returns the id of the copy of the entry's own task
+export const retryEntry = async (
+  entry: DeadLetterEntry,
+  storage: TaskStorage,
+  workflows: WorkflowManager,
+  requeue: (task: Task) => Promise<string>
+): Promise<string> => {
+  const ids: string[] = [];
+
+  for (const task of await entryTasks(entry, storage, workflows)) {
+    await storage.delete(task.id);
+    const newTask = retryTask(task);
+
+    // The workflow picks back up once its last dead step runs again
+    if (newTask.workflowId && newTask.workflowStep) {
+      await workflows.resume(newTask.workflowId, newTask.workflowStep, newTask.id);
+    }
+
+    ids.push(await requeue(newTask));
+  }
+
+  return ids[0];
+};
+
 export interface DeadLetterQueue {
   add(task: Task, reason: string): Promise<void>;
   list(limit?: number, offset?: number): Promise<DeadLetterEntry[]>;
@@ -36,21 +112,32 @@ export const createDeadLetterQueue = (
   requeue: (task: Task) => Promise<string>
 ): DeadLetterQueue => {
   const storage = createTaskStorage(kv);
+  const workflows = createWorkflowManager(kv);
 
   return {
     async add(task: Task, reason: string): Promise<void> {
+      // A workflow is dead-lettered once; later dead steps join its entry
+      let joins = false;
+      if (task.workflowId) {
+        const key = `${DLQ_WORKFLOW_PREFIX}${task.workflowId}`;
+        await kv.set(key, task.id, { nx: true });
+        joins = (await kv.get(key)) !== task.id;
+      }
+
       const entry: DeadLetterEntry = {
         taskId: task.id,
         task,
         failedAt: Date.now(),
         reason,
         attempts: task.attempt,
+        workflowId: task.workflowId,
       };
 
       await storage.updateStatus(task.id, task.status, "dead", {
         lastError: reason,
         completedAt: Date.now(),
       });
+      if (joins) return;
 
       await kv.zadd(DEAD_LETTER_KEY, entry.failedAt, task.id);
       await kv.hmset(
@@ -66,7 +153,7 @@ export const createDeadLetterQueue = (
       for (const taskId of taskIds) {
         const data = await kv.hgetall(`${DLQ_DATA_PREFIX}${taskId}`);
         if (data && Object.keys(data).length > 0) {
-          entries.push(deserializeDLQEntry(data));
+          entries.push(await withWorkflow(deserializeDLQEntry(data), workflows));
         }
       }
 
@@ -76,7 +163,7 @@ export const createDeadLetterQueue = (
     async get(taskId: string): Promise<DeadLetterEntry | null> {
       const data = await kv.hgetall(`${DLQ_DATA_PREFIX}${taskId}`);
       if (!data || Object.keys(data).length === 0) return null;
-      return deserializeDLQEntry(data);
+      return withWorkflow(deserializeDLQEntry(data), workflows);
     },
 
     async retry(taskId: string): Promise<string | null> {
@@ -87,23 +174,11 @@ export const createDeadLetterQueue = (
 
       await kv.zrem(DEAD_LETTER_KEY, taskId);
       await kv.del(`${DLQ_DATA_PREFIX}${taskId}`);
-      await storage.delete(taskId);
-
-      const newTask: Task = {
-        ...entry.task,
-        id: crypto.randomUUID(),
-        status: "pending",
-        attempt: 0,
-        createdAt: Date.now(),
-        scheduledFor: Date.now(),
-        startedAt: undefined,
-        completedAt: undefined,
-        workerId: undefined,
-        lastError: undefined,
-        result: undefined,
-      };
+      if (entry.workflowId) {
+        await kv.del(`${DLQ_WORKFLOW_PREFIX}${entry.workflowId}`);
+      }
 
-      return requeue(newTask);
+      return retryEntry(entry, storage, workflows, requeue);
     },
 
     async retryAll(): Promise<number> {
@@ -124,6 +199,16 @@ export const createDeadLetterQueue = (
       const taskIds = await kv.zrangebyscore(DEAD_LETTER_KEY, "-inf", cutoff);
 
       for (const taskId of taskIds) {
+        const data = await kv.hgetall(`${DLQ_DATA_PREFIX}${taskId}`);
+        if (data && Object.keys(data).length > 0) {
+          const entry = deserializeDLQEntry(data);
+          for (const task of await entryTasks(entry, storage, workflows)) {
+            await storage.delete(task.id);
+          }
+          if (entry.workflowId) {
+            await kv.del(`${DLQ_WORKFLOW_PREFIX}${entry.workflowId}`);
+          }
+        }
         await kv.del(`${DLQ_DATA_PREFIX}${taskId}`);
         await storage.delete(taskId);
       }
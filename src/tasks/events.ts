@@ -0,0 +1,62 @@
+import { KVAdapter } from "@/kv/types";
+import { TaskEvent } from "./types";
+
+const EVENTS_CHANNEL = "concave:tasks:events";
+
+type TaskEventListener = (event: TaskEvent) => void;
+
+// Relays task lifecycle events between processes over KV pub/sub. Each
+// instance subscribes once, on first use, and fans events out to local
+// listeners by task id.
+export interface TaskEvents {
+  publish(event: TaskEvent): Promise<void>;
+  // Calls `listener` with events for `taskId` until the returned function is called
+  listen(taskId: string, listener: TaskEventListener): Promise<() => void>;
+}
+
+export const createTaskEvents = (kv: KVAdapter): TaskEvents => {
+  const listeners = new Map<string, Set<TaskEventListener>>();
+  let subscribed: Promise<void> | undefined;
+
+  const dispatch = (message: string) => {
+    let event: TaskEvent;
+    try {
+      event = JSON.parse(message);
+    } catch {
+      return;
+    }
+
+    for (const listener of listeners.get(event.taskId) ?? []) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error("Task event listener failed:", error);
+      }
+    }
+  };
+
+  return {
+    async publish(event: TaskEvent): Promise<void> {
+      await kv.publish(EVENTS_CHANNEL, JSON.stringify(event));
+    },
+
+    async listen(taskId: string, listener: TaskEventListener): Promise<() => void> {
+      subscribed ??= kv.subscribe(EVENTS_CHANNEL, dispatch);
+      await subscribed;
+
+      let forTask = listeners.get(taskId);
+      if (!forTask) {
+        forTask = new Set();
+        listeners.set(taskId, forTask);
+      }
+      forTask.add(listener);
+
+      return () => {
+        forTask.delete(listener);
+        if (forTask.size === 0 && listeners.get(taskId) === forTask) {
+          listeners.delete(taskId);
+        }
+      };
+    },
+  };
+};
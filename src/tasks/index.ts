@@ -14,6 +14,18 @@ export type { TaskScheduler, TaskRegistry } from "./scheduler";
 export { createTaskWorker, startTaskWorkers } from "./worker";
 export type { TaskWorker, TaskWorkerDbConfig } from "./worker";
 
+export type { TaskBackend } from "./backend";
+
+export {
+  createSQLTaskBackend,
+  createSQLTaskStorage,
+  createSQLTaskQueue,
+  createSQLTaskLock,
+  createSQLDeadLetterQueue,
+  createSQLRecurringManager,
+} from "./sql";
+export type { SQLTaskConfig, SQLTaskDialect } from "./sql";
+
 export { createTaskQueue } from "./queue";
 export type { TaskQueue } from "./queue";
 
@@ -23,6 +35,31 @@ export type { TaskStorage } from "./storage";
 export { createTaskLock } from "./lock";
 export type { TaskLock } from "./lock";
 
+export { createTaskSemaphore } from "./semaphore";
+export type { TaskSemaphore } from "./semaphore";
+
+export { createTaskDebouncer } from "./debounce";
+export type { TaskDebouncer } from "./debounce";
+
+export { createTaskEvents } from "./events";
+export type { TaskEvents } from "./events";
+
+export { createTaskRoutes } from "./routes";
+export type { TaskRoutesConfig, TaskStatusView } from "./routes";
+
+export { createWorkflowManager, step, chain, group } from "./workflow";
+export type { WorkflowManager } from "./workflow";
+
+export { createTaskOutbox, createOutboxRelay } from "./outbox";
+export type {
+  TaskOutbox,
+  TaskOutboxConfig,
+  OutboxAddOptions,
+  OutboxEntry,
+  OutboxRelay,
+  OutboxRelayConfig,
+} from "./outbox";
+
 export { createDeadLetterQueue } from "./dlq";
 export type { DeadLetterQueue } from "./dlq";
 
@@ -35,8 +72,12 @@ export type { RecurringManager } from "./recurring";
 
 export { calculateBackoff, shouldRetry } from "./retry";
 
+export { createPurgeTask } from "./purge";
+export type { PurgeTaskOptions, PurgeTaskInput, PurgeTaskResult } from "./purge";
+
 export {
   createTaskTriggerHooks,
+  createOutboxTriggerHooks,
   composeHooks,
 } from "./integration";
 export type { ResourceTaskConfig, ResourceTaskTrigger } from "./integration";
@@ -2,6 +2,7 @@ import { TableConfig, InferSelectModel, Table } from "drizzle-orm";
 import { LifecycleHooks, ProcedureContext } from "@/resource/types";
 import { TaskDefinition, ScheduleOptions } from "./types";
 import { TaskScheduler, getTaskScheduler } from "./scheduler";
+import { TaskOutbox } from "./outbox";
 
 export interface ResourceTaskTrigger<TInput = unknown> {
   task: TaskDefinition<TInput>;
@@ -16,20 +17,21 @@ export interface ResourceTaskConfig {
   onDelete?: ResourceTaskTrigger[];
 }
 
-export const createTaskTriggerHooks = <TConfig extends TableConfig>(
-  schedulerOrConfig: TaskScheduler | ResourceTaskConfig,
-  configOrUndefined?: ResourceTaskConfig
-): LifecycleHooks<TConfig> => {
-  const scheduler =
-    "enqueue" in schedulerOrConfig
-      ? schedulerOrConfig
-      : getTaskScheduler();
-  const config =
-    "enqueue" in schedulerOrConfig ? configOrUndefined! : schedulerOrConfig;
+type TriggerEvent = "create" | "update" | "delete";
 
+// Runs `fire` for every trigger of `config` that matches a write, with the
+// input the trigger asks for
+const createTriggerHooks = <TConfig extends TableConfig>(
+  config: ResourceTaskConfig,
+  fire: (
+    trigger: ResourceTaskTrigger,
+    input: unknown,
+    ctx: ProcedureContext<TConfig>
+  ) => Promise<void>
+): LifecycleHooks<TConfig> => {
   const triggerTasks = async (
     triggers: ResourceTaskTrigger[] | undefined,
-    event: string,
+    event: TriggerEvent,
     data: unknown,
     ctx: ProcedureContext<TConfig>
   ): Promise<void> => {
@@ -47,16 +49,7 @@ export const createTaskTriggerHooks = <TConfig extends TableConfig>(
             userId: ctx.user?.id,
           };
 
-      const options: ScheduleOptions = {};
-      if (trigger.delay) {
-        options.delay = trigger.delay;
-      }
-
-      if (trigger.delay) {
-        await scheduler.schedule(trigger.task as TaskDefinition, input, options);
-      } else {
-        await scheduler.enqueue(trigger.task as TaskDefinition, input);
-      }
+      await fire(trigger, input, ctx);
     }
   };
 
@@ -81,6 +74,63 @@ export const createTaskTriggerHooks = <TConfig extends TableConfig>(
   };
 };
 
+export const createTaskTriggerHooks = <TConfig extends TableConfig>(
+  schedulerOrConfig: TaskScheduler | ResourceTaskConfig,
+  configOrUndefined?: ResourceTaskConfig
+): LifecycleHooks<TConfig> => {
+  const scheduler =
+    "enqueue" in schedulerOrConfig
+      ? schedulerOrConfig
+      : getTaskScheduler();
+  const config =
+    "enqueue" in schedulerOrConfig ? configOrUndefined! : schedulerOrConfig;
+
+  return createTriggerHooks<TConfig>(config, async (trigger, input) => {
+    if (trigger.delay) {
+      const options: ScheduleOptions = { delay: trigger.delay };
+      await scheduler.schedule(trigger.task as TaskDefinition, input, options);
+    } else {
+      await scheduler.enqueue(trigger.task as TaskDefinition, input);
+    }
+  });
+};
+
+// Drizzle transactions, unlike the databases they come from, can roll back
+const isTransaction = (db: unknown): boolean =>
+  typeof (db as { rollback?: unknown }).rollback === "function";
+
+/**
+ * Like `createTaskTriggerHooks`, but writes the tasks to a transactional
+ * outbox instead of the queue, through the write's own transaction. The
+ * resource must be `transactional: true`; on any other resource the before
+ * hooks reject the write, since the row could no longer commit with it.
+ */
+export const createOutboxTriggerHooks = <TConfig extends TableConfig>(
+  outbox: TaskOutbox,
+  config: ResourceTaskConfig
+): LifecycleHooks<TConfig> => {
+  const requireTransaction = async (ctx: ProcedureContext<TConfig>): Promise<void> => {
+    if (!isTransaction(ctx.db)) {
+      throw new Error(
+        "createOutboxTriggerHooks needs a resource with `transactional: true`"
+      );
+    }
+  };
+
+  const hooks = createTriggerHooks<TConfig>(config, async (trigger, input, ctx) => {
+    await outbox.add(ctx.db, trigger.task as TaskDefinition, input, {
+      delay: trigger.delay,
+    });
+  });
+
+  return {
+    ...hooks,
+    onBeforeCreate: hooks.onAfterCreate && ((ctx) => requireTransaction(ctx)),
+    onBeforeUpdate: hooks.onAfterUpdate && ((ctx) => requireTransaction(ctx)),
+    onBeforeDelete: hooks.onAfterDelete && ((ctx) => requireTransaction(ctx)),
+  };
+};
+
 export const composeHooks = <TConfig extends TableConfig>(
   ...hooks: (LifecycleHooks<TConfig> | undefined)[]
 ): LifecycleHooks<TConfig> => {
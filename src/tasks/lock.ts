@@ -1,7 +1,7 @@
 import { KVAdapter } from "@/kv/types";
 
 const LOCK_PREFIX = "concave:tasks:lock:";
-const DEFAULT_LOCK_TTL = 30;
+export const DEFAULT_LOCK_TTL = 30;
 
 export interface TaskLock {
   acquire(
@@ -0,0 +1,283 @@
+import { sql, SQL } from "drizzle-orm";
+import { KVAdapter } from "@/kv/types";
+import { DrizzleDatabase } from "@/resource/types";
+import { TaskDefinition } from "./types";
+import { TaskRegistry, createTaskScheduler } from "./scheduler";
+import { createTaskStorage } from "./storage";
+import { calculateBackoff } from "./retry";
+import type { TaskBackend } from "./backend";
+
+// How long a delivered row's key is kept to catch redeliveries
+const DELIVERY_KEY_TTL_MS = 24 * 60 * 60 * 1000;
+
+export type OutboxDialect = "sqlite" | "postgres";
+
+export interface TaskOutboxConfig {
+  db: DrizzleDatabase;
+  dialect: OutboxDialect;
+  table?: string;
+}
+
+export interface OutboxAddOptions {
+  delay?: number;
+  at?: Date;
+  idempotencyKey?: string;
+}
+
+export interface OutboxEntry {
+  id: string;
+  taskName: string;
+  input: unknown;
+  idempotencyKey: string;
+  runAt: number;
+  createdAt: number;
+  attempts: number;
+  lastError?: string;
+}
+
+export interface TaskOutbox {
+  // Creates the outbox table if it doesn't exist yet
+  setup(): Promise<void>;
+  // Writes a task through `conn`, usually the transaction of the write that
+  // causes it, so the row commits or rolls back with that write
+  add<TInput>(
+    conn: DrizzleDatabase,
+    task: TaskDefinition<TInput>,
+    input: TInput,
+    options?: OutboxAddOptions
+  ): Promise<string>;
+  list(limit?: number): Promise<OutboxEntry[]>;
+  count(): Promise<number>;
+  // Hands due rows to `deliver` inside one transaction. Delivered rows are
+  // deleted; rows whose delivery throws are retried later with backoff.
+  drain(deliver: (entry: OutboxEntry) => Promise<void>, limit?: number): Promise<number>;
+}
+
+interface OutboxRow {
+  id: string;
+  task_name: string;
+  input: string | null;
+  idempotency_key: string;
+  run_at: number | string;
+  created_at: number | string;
+  attempts: number | string;
+  last_error: string | null;
+}
+
+const toEntry = (row: OutboxRow): OutboxEntry => ({
+  id: row.id,
+  taskName: row.task_name,
+  input: row.input === null ? undefined : JSON.parse(row.input),
+  idempotencyKey: row.idempotency_key,
+  // Postgres drivers may return BIGINT columns as strings
+  runAt: Number(row.run_at),
+  createdAt: Number(row.created_at),
+  attempts: Number(row.attempts),
+  ...(row.last_error !== null && { lastError: row.last_error }),
+});
+
+/**
+ * Tasks written to a table in the application's own database, in the same
+ * transaction as the data they are about. A relay (`createOutboxRelay`)
+ * later moves them into the task queue, so a crash after the commit
+ * delays a task instead of dropping it, and a rolled-back write never
+ * enqueues one.
+ */
+export const createTaskOutbox = (config: TaskOutboxConfig): TaskOutbox => {
+  const { db, dialect } = config;
+  const tableName = config.table ?? "concave_task_outbox";
+  const table = sql.identifier(tableName);
+
+  const run = async (conn: DrizzleDatabase, query: SQL): Promise<void> => {
+    if (dialect === "sqlite") await conn.run(query);
+    else await conn.execute(query);
+  };
+
+  const all = async <R>(conn: DrizzleDatabase, query: SQL): Promise<R[]> => {
+    if (dialect === "sqlite") return conn.all(query);
+    const result = await conn.execute(query);
+    return Array.isArray(result) ? result : result.rows;
+  };
+
+  const select = (conn: DrizzleDatabase, query: SQL) =>
+    all<OutboxRow>(conn, query).then((rows) => rows.map(toEntry));
+
+  return {
+    async setup(): Promise<void> {
+      const timestamp = sql.raw(dialect === "sqlite" ? "INTEGER" : "BIGINT");
+      await run(
+        db,
+        sql`CREATE TABLE IF NOT EXISTS ${table} (id TEXT PRIMARY KEY, task_name TEXT NOT NULL, input TEXT, idempotency_key TEXT NOT NULL, run_at ${timestamp} NOT NULL, created_at ${timestamp} NOT NULL, attempts INTEGER NOT NULL DEFAULT 0, last_error TEXT)`
+      );
+      await run(
+        db,
+        sql`CREATE INDEX IF NOT EXISTS ${sql.identifier(`${tableName}_run_at`)} ON ${table} (run_at)`
+      );
+    },
+
+    async add<TInput>(
+      conn: DrizzleDatabase,
+      task: TaskDefinition<TInput>,
+      input: TInput,
+      options: OutboxAddOptions = {}
+    ): Promise<string> {
+      const id = crypto.randomUUID();
+      const now = Date.now();
+      const runAt = options.at?.getTime() ?? now + (options.delay ?? 0);
+      // Without a key of its own, the row's id keeps redeliveries of the
+      // same row from enqueueing twice
+      const idempotencyKey =
+        options.idempotencyKey ?? task.idempotencyKey?.(input) ?? `outbox:${id}`;
+      const json = input === undefined ? null : JSON.stringify(input);
+
+      await run(
+        conn,
+        sql`INSERT INTO ${table} (id, task_name, input, idempotency_key, run_at, created_at, attempts) VALUES (${id}, ${task.name}, ${json}, ${idempotencyKey}, ${runAt}, ${now}, 0)`
+      );
+      return id;
+    },
+
+    async list(limit = 50): Promise<OutboxEntry[]> {
+      return select(db, sql`SELECT * FROM ${table} ORDER BY run_at, created_at LIMIT ${limit}`);
+    },
+
+    async count(): Promise<number> {
+      const rows = await all<{ count: number | string }>(
+        db,
+        sql`SELECT COUNT(*) AS count FROM ${table}`
+      );
+      return Number(rows[0]?.count ?? 0);
+    },
+
+    async drain(
+      deliver: (entry: OutboxEntry) => Promise<void>,
+      limit = 100
+    ): Promise<number> {
+      // Postgres relays on several processes skip each other's rows; SQLite
+      // serializes writers anyway
+      const lock = dialect === "postgres" ? sql` FOR UPDATE SKIP LOCKED` : sql``;
+
+      return db.transaction(async (tx: DrizzleDatabase) => {
+        const now = Date.now();
+        const entries = await select(
+          tx,
+          sql`SELECT * FROM ${table} WHERE run_at <= ${now} ORDER BY run_at, created_at LIMIT ${limit}${lock}`
+        );
+
+        let delivered = 0;
+        for (const entry of entries) {
+          try {
+            await deliver(entry);
+            await run(tx, sql`DELETE FROM ${table} WHERE id = ${entry.id}`);
+            delivered++;
+          } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            const retryAt = Date.now() + calculateBackoff(entry.attempts + 1, {});
+            await run(
+              tx,
+              sql`UPDATE ${table} SET attempts = attempts + 1, last_error = ${message}, run_at = ${retryAt} WHERE id = ${entry.id}`
+            );
+          }
+        }
+        return delivered;
+      });
+    },
+  };
+};
+
+export interface OutboxRelayConfig {
+  pollIntervalMs?: number;
+  batchSize?: number;
+  backend?: TaskBackend;
+}
+
+export interface OutboxRelay {
+  start(): Promise<void>;
+  stop(): Promise<void>;
+  // Moves one batch of due rows into the queue; returns how many it moved
+  relayOnce(): Promise<number>;
+}
+
+/**
+ * Moves outbox rows into the task queue. Delivery is at least once: a
+ * relay that dies after enqueueing but before deleting the row delivers it
+ * again, and the row's `outbox:<id>` key turns that into a no-op.
+ */
+export const createOutboxRelay = (
+  kv: KVAdapter,
+  registry: TaskRegistry,
+  outbox: TaskOutbox,
+  config: OutboxRelayConfig = {}
+): OutboxRelay => {
+  const scheduler = createTaskScheduler(kv, registry, config.backend);
+  const storage = config.backend?.storage ?? createTaskStorage(kv);
+  const pollIntervalMs = config.pollIntervalMs ?? 1000;
+  const batchSize = config.batchSize ?? 100;
+
+  let running = false;
+  let loop: Promise<void> | undefined;
+  let wake: (() => void) | undefined;
+
+  const deliver = async (entry: OutboxEntry): Promise<void> => {
+    // A redelivered row was already handed over, whatever became of its
+    // task since. The row's own key says so; a task key of the caller's
+    // only dedupes unfinished tasks, as anywhere else in the scheduler.
+    const deliveryKey = `outbox:${entry.id}`;
+    if (await storage.findByIdempotencyKey(deliveryKey)) return;
+
+    const definition = registry.get(entry.taskName);
+    if (!definition) {
+      throw new Error(`Unknown task type: ${entry.taskName}`);
+    }
+
+    const taskId = await scheduler.schedule(definition, entry.input, {
+      at: new Date(entry.runAt),
+      idempotencyKey: entry.idempotencyKey,
+    });
+    if (entry.idempotencyKey !== deliveryKey) {
+      await storage.setIdempotencyKey(deliveryKey, taskId, DELIVERY_KEY_TTL_MS);
+    }
+  };
+
+  const relayOnce = (): Promise<number> => outbox.drain(deliver, batchSize);
+
+  const poll = async () => {
+    while (running) {
+      let moved = 0;
+      try {
+        moved = await relayOnce();
+      } catch (error) {
+        console.error("Outbox relay failed:", error);
+      }
+
+      // A full batch means more rows are probably waiting
+      if (moved < batchSize && running) {
+        await new Promise<void>((resolve) => {
+          const timer = setTimeout(resolve, pollIntervalMs);
+          wake = () => {
+            clearTimeout(timer);
+            resolve();
+          };
+        });
+        wake = undefined;
+      }
+    }
+  };
+
+  return {
+    async start(): Promise<void> {
+      if (running) return;
+      running = true;
+      loop = poll();
+    },
+
+    async stop(): Promise<void> {
+      running = false;
+      wake?.();
+      await loop;
+      loop = undefined;
+    },
+
+    relayOnce,
+  };
+};
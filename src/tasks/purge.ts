@@ -0,0 +1,80 @@
+import { AnyColumn, Table, and, getTableColumns, getTableName, inArray, lt } from "drizzle-orm";
+import { z } from "zod";
+import { DrizzleDatabase } from "@/resource/types";
+import { TaskDefinition } from "./types";
+import { defineTask } from "./define";
+
+const DEFAULT_BATCH_SIZE = 1000;
+
+export interface PurgeTaskOptions {
+  db: DrizzleDatabase;
+  table: Table;
+  column: AnyColumn;
+  retentionMs: number;
+  name?: string;
+  // Defaults to the table's single-column primary key
+  id?: AnyColumn;
+  // Rows deleted per statement
+  batchSize?: number;
+}
+
+export interface PurgeTaskInput {
+  retentionMs?: number;
+}
+
+export interface PurgeTaskResult {
+  purged: number;
+}
+
+/**
+ * Hard-deletes rows that were soft-deleted longer than `retentionMs` ago.
+ * Subscribers and the changelog already saw these rows leave at soft-delete
+ * time, so purging does not emit anything.
+ *
+ * Rows go a batch at a time, so a large backlog neither holds one long
+ * delete open nor comes back into memory; only the count is kept.
+ */
+export const createPurgeTask = (
+  options: PurgeTaskOptions
+): TaskDefinition<PurgeTaskInput, PurgeTaskResult> => {
+  const idColumn =
+    options.id ??
+    (Object.values(getTableColumns(options.table)) as AnyColumn[]).find((c) => c.primary);
+  if (!idColumn) {
+    throw new Error(
+      `Purge task for ${getTableName(options.table)} needs an id column: the table has no single-column primary key`
+    );
+  }
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+
+  return defineTask<PurgeTaskInput, PurgeTaskResult>({
+    name: options.name ?? `purge:${getTableName(options.table)}`,
+    input: z.object({ retentionMs: z.number().int().nonnegative().optional() }),
+    handler: async (ctx, input) => {
+      const retentionMs = input?.retentionMs ?? options.retentionMs;
+      const expired = lt(options.column, new Date(Date.now() - retentionMs));
+      let purged = 0;
+
+      for (;;) {
+        ctx.signal?.throwIfAborted();
+        const batch: { id: unknown }[] = await options.db
+          .select({ id: idColumn })
+          .from(options.table)
+          .where(expired)
+          .limit(batchSize);
+        if (batch.length === 0) break;
+
+        // Repeats the cutoff so a row restored since the select is kept
+        const deleted: unknown[] = await options.db
+          .delete(options.table)
+          .where(and(inArray(idColumn, batch.map((row) => row.id)), expired))
+          .returning({ id: idColumn });
+        purged += deleted.length;
+
+        if (batch.length < batchSize) break;
+      }
+
+      return { purged };
+    },
+  });
+};
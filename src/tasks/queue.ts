@@ -5,14 +5,20 @@ import { createTaskStorage } from "./storage";
 
 const PRIORITY_BUCKETS = [0, 25, 50, 75, 100];
 
-const getQueueKey = (priority: number): string => {
-  const bucket = PRIORITY_BUCKETS.find((b) => priority <= b) ?? 100;
-  return `concave:tasks:queue:${bucket}`;
-};
+// Tasks are claimed bucket by bucket, then by when they are due
+export const priorityBucket = (priority: number): number =>
+  PRIORITY_BUCKETS.find((b) => priority <= b) ?? 100;
+
+const getQueueKey = (priority: number): string =>
+  `concave:tasks:queue:${priorityBucket(priority)}`;
 
 export interface TaskQueue {
   add(taskId: string, priority: number, scheduledFor: number): Promise<void>;
-  claimNext(workerId: string, taskTypes?: string[]): Promise<Task | null>;
+  claimNext(
+    workerId: string,
+    taskTypes?: string[],
+    admit?: (task: Task) => Promise<boolean>
+  ): Promise<Task | null>;
   remove(taskId: string, priority: number): Promise<void>;
   getQueueDepth(priority?: number): Promise<number>;
   getScheduledTasks(limit?: number): Promise<string[]>;
@@ -34,7 +40,10 @@ export const createTaskQueue = (kv: KVAdapter): TaskQueue => {
 
     async claimNext(
       workerId: string,
-      taskTypes?: string[]
+      taskTypes?: string[],
+      // Last check before a task is taken off the queue; tasks it turns
+      // down stay queued for later
+      admit?: (task: Task) => Promise<boolean>
     ): Promise<Task | null> {
       const now = Date.now();
 
@@ -67,6 +76,11 @@ export const createTaskQueue = (kv: KVAdapter): TaskQueue => {
             continue;
           }
 
+          if (admit && !(await admit(task))) {
+            await lock.release(taskId, workerId);
+            continue;
+          }
+
           await kv.zrem(queueKey, taskId);
           return task;
         }
@@ -1,6 +1,7 @@
 import { CronExpressionParser } from "cron-parser";
 import { KVAdapter } from "@/kv/types";
 import { RecurringConfig, RecurringSchedule, TaskDefinition } from "./types";
+import type { TaskBackend } from "./backend";
 
 const RECURRING_KEY = "concave:tasks:recurring";
 const RECURRING_DATA_PREFIX = "concave:tasks:recurring:data:";
@@ -68,35 +69,40 @@ export const calculateNextRun = (
   throw new Error("Either cron or interval must be specified");
 };
 
+export const createSchedule = (
+  task: TaskDefinition,
+  input: unknown,
+  config: RecurringConfig
+): RecurringSchedule => {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    taskName: task.name,
+    input,
+    cron: config.cron,
+    interval: config.interval,
+    timezone: config.timezone ?? "UTC",
+    enabled: true,
+    nextRunAt: calculateNextRun(config, now),
+    createdAt: now,
+  };
+};
+
 export const createRecurringManager = (kv: KVAdapter): RecurringManager => ({
   async create(
     task: TaskDefinition,
     input: unknown,
     config: RecurringConfig
   ): Promise<string> {
-    const scheduleId = crypto.randomUUID();
-    const now = Date.now();
-    const nextRunAt = calculateNextRun(config, now);
-
-    const schedule: RecurringSchedule = {
-      id: scheduleId,
-      taskName: task.name,
-      input,
-      cron: config.cron,
-      interval: config.interval,
-      timezone: config.timezone ?? "UTC",
-      enabled: true,
-      nextRunAt,
-      createdAt: now,
-    };
+    const schedule = createSchedule(task, input, config);
 
     await kv.hmset(
-      `${RECURRING_DATA_PREFIX}${scheduleId}`,
+      `${RECURRING_DATA_PREFIX}${schedule.id}`,
       serializeSchedule(schedule) as never
     );
-    await kv.zadd(RECURRING_KEY, nextRunAt, scheduleId);
+    await kv.zadd(RECURRING_KEY, schedule.nextRunAt, schedule.id);
 
-    return scheduleId;
+    return schedule.id;
   },
 
   async pause(scheduleId: string): Promise<void> {
@@ -190,9 +196,10 @@ export const createRecurringManager = (kv: KVAdapter): RecurringManager => ({
 export const startRecurringScheduler = (
   kv: KVAdapter,
   enqueue: (taskName: string, input: unknown) => Promise<string>,
-  intervalMs: number = 1000
+  intervalMs: number = 1000,
+  backend?: TaskBackend
 ): (() => void) => {
-  const manager = createRecurringManager(kv);
+  const manager = backend?.recurring ?? createRecurringManager(kv);
   const interval = setInterval(() => manager.tick(enqueue), intervalMs);
   return () => clearInterval(interval);
 };
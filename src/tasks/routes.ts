@@ -0,0 +1,149 @@
+import { Router, Request, Response } from "express";
+import { Task, TaskProgress, TaskStatus } from "./types";
+import { TaskScheduler } from "./scheduler";
+
+export interface TaskRoutesConfig {
+  scheduler: TaskScheduler;
+  // Task ids are unguessable, so by default anyone holding one may watch it
+  authorize?: (req: Request, task: Task) => boolean | Promise<boolean>;
+  heartbeatMs?: number;
+}
+
+// What clients see of a task; input and internals stay on the server
+export interface TaskStatusView {
+  id: string;
+  name: string;
+  status: TaskStatus;
+  attempt: number;
+  progress?: TaskProgress;
+  result?: unknown;
+  error?: string;
+}
+
+const isFinished = (status: TaskStatus): boolean =>
+  ["completed", "failed", "dead"].includes(status);
+
+const toView = (task: Task): TaskStatusView => ({
+  id: task.id,
+  name: task.name,
+  status: task.status,
+  attempt: task.attempt,
+  ...(task.progress && { progress: task.progress }),
+  ...(task.status === "completed" && { result: task.result }),
+  ...((task.status === "dead" || task.status === "failed") && { error: task.lastError }),
+});
+
+/**
+ * Status and progress of individual tasks for the clients that started
+ * them: `GET /:id` returns the task, and `GET /:id/events` streams it over
+ * SSE until it completes, dies or is cancelled.
+ */
+export const createTaskRoutes = (config: TaskRoutesConfig): Router => {
+  const router = Router();
+  const { scheduler } = config;
+  const heartbeatMs = config.heartbeatMs ?? 20000;
+
+  const findTask = async (req: Request, res: Response): Promise<Task | null> => {
+    const task = await scheduler.getTask(req.params.id as string);
+    if (!task || (config.authorize && !(await config.authorize(req, task)))) {
+      res.status(404).json({
+        type: "/__concave/problems/not-found",
+        title: "Task not found",
+        status: 404,
+      });
+      return null;
+    }
+    return task;
+  };
+
+  router.get("/:id", async (req: Request, res: Response) => {
+    try {
+      const task = await findTask(req, res);
+      if (task) res.json({ task: toView(task) });
+    } catch (error) {
+      res.status(500).json({
+        type: "/__concave/problems/internal-error",
+        title: "Failed to fetch task",
+        status: 500,
+        detail: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  });
+
+  router.get("/:id/events", async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+
+    let ended = false;
+    let stopWatching: (() => void) | undefined;
+    let heartbeat: NodeJS.Timeout | undefined;
+
+    const end = () => {
+      if (ended) return;
+      ended = true;
+      clearInterval(heartbeat);
+      stopWatching?.();
+      if (res.headersSent && !res.writableEnded) res.end();
+    };
+    req.on("close", end);
+
+    const send = (payload: Record<string, unknown>) => {
+      if (!res.writableEnded) res.write(`data: ${JSON.stringify(payload)}\n\n`);
+    };
+
+    // Every event sends the task as stored, one read at a time so updates
+    // go out in order
+    const push = async () => {
+      if (ended) return;
+      const task = await scheduler.getTask(id);
+      if (!task) {
+        // Cancelled tasks are removed
+        send({ type: "cancelled", taskId: id });
+        end();
+        return;
+      }
+      send({ type: "task", task: toView(task) });
+      if (isFinished(task.status)) end();
+    };
+
+    let pushes = Promise.resolve();
+    const schedulePush = () => {
+      pushes = pushes.then(push).catch(end);
+    };
+
+    try {
+      if (!(await findTask(req, res))) return;
+      stopWatching = await scheduler.watch(id, schedulePush);
+    } catch (error) {
+      res.status(500).json({
+        type: "/__concave/problems/internal-error",
+        title: "Failed to watch task",
+        status: 500,
+        detail: error instanceof Error ? error.message : "Unknown error",
+      });
+      return;
+    }
+
+    // The client may have gone away in the meantime
+    if (ended) {
+      stopWatching();
+      return;
+    }
+
+    res.set({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      "Connection": "keep-alive",
+      "X-Accel-Buffering": "no",
+      "X-Content-Type-Options": "nosniff",
+    });
+    res.flushHeaders?.();
+
+    heartbeat = setInterval(() => {
+      if (!res.writableEnded) res.write(`: ping ${Date.now()}\n\n`);
+    }, heartbeatMs);
+
+    schedulePush();
+  });
+
+  return router;
+};
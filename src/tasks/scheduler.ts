@@ -5,18 +5,32 @@ import {
   TaskFilter,
   ScheduleOptions,
   RecurringConfig,
+  TaskEvent,
+  WaitOptions,
 } from "./types";
 import { createTaskStorage } from "./storage";
 import { createTaskQueue } from "./queue";
 import { createRecurringManager } from "./recurring";
+import { createTaskDebouncer } from "./debounce";
+import { createTaskSemaphore } from "./semaphore";
+import { createWorkflowManager } from "./workflow";
+import { createTaskEvents } from "./events";
+import type { TaskBackend } from "./backend";
 
 const NOTIFY_CHANNEL = "concave:tasks:notify";
+const DEFAULT_WAIT_TIMEOUT = 30000;
 
 export interface TaskScheduler {
   enqueue<TInput>(
     task: TaskDefinition<TInput>,
     input: TInput
   ): Promise<string>;
+  // Enqueues the task and resolves with its result, or rejects once it dies
+  enqueueAndWait<TInput, TOutput>(
+    task: TaskDefinition<TInput, TOutput>,
+    input: TInput,
+    options?: WaitOptions
+  ): Promise<TOutput>;
   schedule<TInput>(
     task: TaskDefinition<TInput>,
     input: TInput,
@@ -29,8 +43,12 @@ export interface TaskScheduler {
   ): Promise<string>;
   cancel(taskId: string): Promise<boolean>;
   getTask(taskId: string): Promise<Task | null>;
+  // Calls `listener` with the task's events until the returned function is called
+  watch(taskId: string, listener: (event: TaskEvent) => void): Promise<() => void>;
   getTasks(filter: TaskFilter): Promise<Task[]>;
   getQueueDepth(): Promise<number>;
+  // Tasks of this type currently holding a maxConcurrency slot
+  getRunningCount(taskName: string): Promise<number>;
 }
 
 export interface TaskRegistry {
@@ -62,11 +80,16 @@ export const createTaskRegistry = (): TaskRegistry => {
 
 export const createTaskScheduler = (
   kv: KVAdapter,
-  registry: TaskRegistry
+  registry: TaskRegistry,
+  backend?: TaskBackend
 ): TaskScheduler => {
-  const storage = createTaskStorage(kv);
-  const queue = createTaskQueue(kv);
-  const recurring = createRecurringManager(kv);
+  const storage = backend?.storage ?? createTaskStorage(kv);
+  const queue = backend?.queue ?? createTaskQueue(kv);
+  const recurring = backend?.recurring ?? createRecurringManager(kv);
+  const debouncer = createTaskDebouncer(kv, backend);
+  const semaphore = createTaskSemaphore(kv);
+  const workflows = createWorkflowManager(kv, backend);
+  const events = createTaskEvents(kv);
 
   const enqueueTask = async (task: Task): Promise<string> => {
     await storage.store(task);
@@ -75,6 +98,49 @@ export const createTaskScheduler = (
     return task.id;
   };
 
+  const waitForTask = (taskId: string, timeoutMs: number): Promise<unknown> =>
+    new Promise((resolve, reject) => {
+      let unlisten: (() => void) | undefined;
+      let settled = false;
+
+      const settle = (error: Error | null, result?: unknown) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        unlisten?.();
+        if (error) reject(error);
+        else resolve(result);
+      };
+
+      const timer = setTimeout(
+        () => settle(new Error(`Timed out waiting for task ${taskId}`)),
+        timeoutMs
+      );
+
+      const listening = events.listen(taskId, (event) => {
+        if (event.type === "completed") settle(null, event.result);
+        else if (event.type === "dead") settle(new Error(event.error));
+        else if (event.type === "cancelled") settle(new Error(`Task ${taskId} was cancelled`));
+      });
+
+      listening
+        .then(async (stop) => {
+          unlisten = stop;
+          if (settled) return stop();
+
+          // The task may have finished before we started listening
+          const task = await storage.get(taskId);
+          if (!task) {
+            settle(new Error(`Task ${taskId} not found`));
+          } else if (task.status === "completed") {
+            settle(null, task.result);
+          } else if (task.status === "dead" || task.status === "failed") {
+            settle(new Error(task.lastError ?? `Task ${taskId} failed`));
+          }
+        })
+        .catch((error) => settle(error));
+    });
+
   return {
     async enqueue<TInput>(
       taskDef: TaskDefinition<TInput>,
@@ -104,9 +170,29 @@ export const createTaskScheduler = (
         idempotencyKey,
       };
 
+      // Debounced tasks run once at the end of a window that every
+      // enqueue with the same key restarts, with the latest input
+      if (taskDef.debounce) {
+        const { windowMs, key } = taskDef.debounce;
+        const debounceKey = `${taskDef.name}:${key(input)}`;
+        task.status = "scheduled";
+        task.scheduledFor = now + windowMs;
+        task.debounceKey = debounceKey;
+        return debouncer.absorb(debounceKey, taskId, input, windowMs, () => enqueueTask(task));
+      }
+
       return enqueueTask(task);
     },
 
+    async enqueueAndWait<TInput, TOutput>(
+      taskDef: TaskDefinition<TInput, TOutput>,
+      input: TInput,
+      options: WaitOptions = {}
+    ): Promise<TOutput> {
+      const taskId = await this.enqueue(taskDef, input);
+      return waitForTask(taskId, options.timeout ?? DEFAULT_WAIT_TIMEOUT) as Promise<TOutput>;
+    },
+
     async schedule<TInput>(
       taskDef: TaskDefinition<TInput>,
       input: TInput,
@@ -159,8 +245,17 @@ export const createTaskScheduler = (
         return false;
       }
 
+      // Later steps can't run without this one, so the whole workflow goes
+      if (task.workflowId) {
+        return workflows.cancel(task.workflowId);
+      }
+
       await queue.remove(taskId, task.priority);
       await storage.delete(taskId);
+      if (task.debounceKey) {
+        await debouncer.release(task.debounceKey, taskId);
+      }
+      await events.publish({ type: "cancelled", taskId });
 
       return true;
     },
@@ -169,6 +264,13 @@ export const createTaskScheduler = (
       return storage.get(taskId);
     },
 
+    async watch(
+      taskId: string,
+      listener: (event: TaskEvent) => void
+    ): Promise<() => void> {
+      return events.listen(taskId, listener);
+    },
+
     async getTasks(filter: TaskFilter): Promise<Task[]> {
       return storage.query(filter);
     },
@@ -176,15 +278,19 @@ export const createTaskScheduler = (
     async getQueueDepth(): Promise<number> {
       return queue.getQueueDepth();
     },
+
+    async getRunningCount(taskName: string): Promise<number> {
+      return semaphore.count(taskName);
+    },
   };
 };
 
 let globalScheduler: TaskScheduler | null = null;
 let globalRegistry: TaskRegistry | null = null;
 
-export const initializeTasks = (kv: KVAdapter): void => {
+export const initializeTasks = (kv: KVAdapter, backend?: TaskBackend): void => {
   globalRegistry = createTaskRegistry();
-  globalScheduler = createTaskScheduler(kv, globalRegistry);
+  globalScheduler = createTaskScheduler(kv, globalRegistry, backend);
 };
 
 export const getTaskScheduler = (): TaskScheduler => {
@@ -0,0 +1,71 @@
+import { KVAdapter } from "@/kv/types";
+
+const SEMAPHORE_PREFIX = "concave:tasks:semaphore:";
+const DEFAULT_LEASE_TTL = 30;
+
+// Caps how many tasks of one type run at once across all workers. Each
+// running task holds a lease that expires unless extended, so slots held by
+// a worker that died free up after the lease TTL.
+export interface TaskSemaphore {
+  acquire(
+    taskName: string,
+    holder: string,
+    limit: number,
+    ttlSeconds?: number
+  ): Promise<boolean>;
+  extend(taskName: string, holder: string, ttlSeconds?: number): Promise<boolean>;
+  release(taskName: string, holder: string): Promise<void>;
+  count(taskName: string): Promise<number>;
+}
+
+export const createTaskSemaphore = (kv: KVAdapter): TaskSemaphore => {
+  // Leases live in a sorted set scored by their expiry time
+  const dropExpired = async (key: string): Promise<void> => {
+    const expired = await kv.zrangebyscore(key, "-inf", Date.now());
+    if (expired.length > 0) {
+      await kv.zrem(key, ...expired);
+    }
+  };
+
+  return {
+    async acquire(
+      taskName: string,
+      holder: string,
+      limit: number,
+      ttlSeconds: number = DEFAULT_LEASE_TTL
+    ): Promise<boolean> {
+      const key = `${SEMAPHORE_PREFIX}${taskName}`;
+      await dropExpired(key);
+      if ((await kv.zcard(key)) >= limit) return false;
+
+      // Claim a slot, then back out if others claimed the last ones too
+      await kv.zadd(key, Date.now() + ttlSeconds * 1000, holder);
+      if ((await kv.zcard(key)) > limit) {
+        await kv.zrem(key, holder);
+        return false;
+      }
+      return true;
+    },
+
+    async extend(
+      taskName: string,
+      holder: string,
+      ttlSeconds: number = DEFAULT_LEASE_TTL
+    ): Promise<boolean> {
+      const key = `${SEMAPHORE_PREFIX}${taskName}`;
+      if ((await kv.zscore(key, holder)) === null) return false;
+      await kv.zadd(key, Date.now() + ttlSeconds * 1000, holder);
+      return true;
+    },
+
+    async release(taskName: string, holder: string): Promise<void> {
+      await kv.zrem(`${SEMAPHORE_PREFIX}${taskName}`, holder);
+    },
+
+    async count(taskName: string): Promise<number> {
+      const key = `${SEMAPHORE_PREFIX}${taskName}`;
+      await dropExpired(key);
+      return kv.zcard(key);
+    },
+  };
+};
@@ -0,0 +1,135 @@
+import { asc, count, eq, inArray, lte } from "drizzle-orm";
+import { Task, DeadLetterEntry } from "../types";
+import { TaskStorage } from "../storage";
+import { DeadLetterQueue, entryTasks, retryEntry, withWorkflow } from "../dlq";
+import { WorkflowManager } from "../workflow";
+import { SQLTaskConfig, taskTables } from "./tables";
+
+interface DeadLetterRow {
+  taskId: string;
+  task: string;
+  failedAt: number;
+  reason: string;
+  attempts: number;
+  workflowId: string | null;
+}
+
+const fromRow = (row: DeadLetterRow): DeadLetterEntry => ({
+  taskId: row.taskId,
+  task: JSON.parse(row.task),
+  failedAt: row.failedAt,
+  reason: row.reason,
+  attempts: row.attempts,
+  ...(row.workflowId !== null && { workflowId: row.workflowId }),
+});
+
+export const createSQLDeadLetterQueue = (
+  config: SQLTaskConfig,
+  storage: TaskStorage,
+  workflows: WorkflowManager,
+  requeue: (task: Task) => Promise<string>
+): DeadLetterQueue => {
+  const { db } = config;
+  const { concaveTaskDeadLetters: deadLetters } = taskTables(config.dialect);
+
+  return {
+    async add(task: Task, reason: string): Promise<void> {
+      const failedAt = Date.now();
+
+      await storage.updateStatus(task.id, task.status, "dead", {
+        lastError: reason,
+        completedAt: failedAt,
+      });
+
+      const row = {
+        taskId: task.id,
+        task: JSON.stringify(task),
+        failedAt,
+        reason,
+        attempts: task.attempt,
+        workflowId: task.workflowId ?? null,
+      };
+      await db
+        .insert(deadLetters)
+        .values(row)
+        .onConflictDoUpdate({ target: deadLetters.taskId, set: row });
+
+      // A workflow is dead-lettered once: steps dying at the same time all
+      // insert, then every row but the earliest joins it
+      if (task.workflowId) {
+        const [first] = await db
+          .select({ taskId: deadLetters.taskId })
+          .from(deadLetters)
+          .where(eq(deadLetters.workflowId, task.workflowId))
+          .orderBy(asc(deadLetters.failedAt), asc(deadLetters.taskId))
+          .limit(1);
+        if (first && first.taskId !== task.id) {
+          await db.delete(deadLetters).where(eq(deadLetters.taskId, task.id));
+        }
+      }
+    },
+
+    async list(limit: number = 100, offset: number = 0): Promise<DeadLetterEntry[]> {
+      const rows = await db
+        .select()
+        .from(deadLetters)
+        .orderBy(asc(deadLetters.failedAt))
+        .limit(limit)
+        .offset(offset);
+      return Promise.all(rows.map((row: DeadLetterRow) => withWorkflow(fromRow(row), workflows)));
+    },
+
+    async get(taskId: string): Promise<DeadLetterEntry | null> {
+      const [row] = await db
+        .select()
+        .from(deadLetters)
+        .where(eq(deadLetters.taskId, taskId))
+        .limit(1);
+      return row ? withWorkflow(fromRow(row), workflows) : null;
+    },
+
+    async retry(taskId: string): Promise<string | null> {
+      const entry = await this.get(taskId);
+      if (!entry) return null;
+
+      await db.delete(deadLetters).where(eq(deadLetters.taskId, taskId));
+
+      return retryEntry(entry, storage, workflows, requeue);
+    },
+
+    async retryAll(): Promise<number> {
+      const entries = await this.list(1000);
+      let retried = 0;
+
+      for (const entry of entries) {
+        const newId = await this.retry(entry.taskId);
+        if (newId) retried++;
+      }
+
+      return retried;
+    },
+
+    async purge(olderThanMs?: number): Promise<number> {
+      const rows: DeadLetterRow[] = await db
+        .select()
+        .from(deadLetters)
+        .where(olderThanMs ? lte(deadLetters.failedAt, Date.now() - olderThanMs) : undefined);
+      const taskIds = rows.map((row) => row.taskId);
+      if (taskIds.length === 0) return 0;
+
+      for (const row of rows) {
+        for (const task of await entryTasks(fromRow(row), storage, workflows)) {
+          await storage.delete(task.id);
+        }
+      }
+      await db.delete(deadLetters).where(inArray(deadLetters.taskId, taskIds));
+
+      return taskIds.length;
+    },
+
+    async count(): Promise<number> {
+      const [row] = await db.select({ total: count() }).from(deadLetters);
+      return Number(row?.total ?? 0);
+    },
+  };
+};
@@ -0,0 +1,40 @@
+import { TaskBackend } from "../backend";
+import { createWorkflowManager } from "../workflow";
+import { SQLTaskConfig } from "./tables";
+import { createSQLTaskStorage } from "./storage";
+import { createSQLTaskQueue } from "./queue";
+import { createSQLTaskLock } from "./lock";
+import { createSQLDeadLetterQueue } from "./dlq";
+import { createSQLRecurringManager } from "./recurring";
+
+export type { SQLTaskConfig, SQLTaskDialect } from "./tables";
+export { createSQLTaskStorage } from "./storage";
+export { createSQLTaskQueue } from "./queue";
+export { createSQLTaskLock } from "./lock";
+export { createSQLDeadLetterQueue } from "./dlq";
+export { createSQLRecurringManager } from "./recurring";
+
+/**
+ * Keeps tasks, the queue, recurring schedules and dead letters in the
+ * application's database, so they survive restarts without Redis. The
+ * tables come from `@kahveciderin/concave/tasks/sqlite-schema` or
+ * `.../postgres-schema`; generate their migrations with drizzle-kit.
+ *
+ * Postgres workers claim tasks with `SELECT ... FOR UPDATE SKIP LOCKED`;
+ * on SQLite a conditional `UPDATE ... RETURNING` on the task row decides
+ * which worker gets it.
+ */
+export const createSQLTaskBackend = (config: SQLTaskConfig): TaskBackend => {
+  const storage = createSQLTaskStorage(config);
+
+  const backend: TaskBackend = {
+    storage,
+    queue: createSQLTaskQueue(config),
+    lock: createSQLTaskLock(config),
+    recurring: createSQLRecurringManager(config),
+    createDeadLetterQueue: (kv, requeue) =>
+      createSQLDeadLetterQueue(config, storage, createWorkflowManager(kv, backend), requeue),
+  };
+
+  return backend;
+};
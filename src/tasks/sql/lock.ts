@@ -0,0 +1,90 @@
+import { and, eq, gt, isNull, lt, or } from "drizzle-orm";
+import { DrizzleDatabase } from "@/resource/types";
+import { TaskLock, DEFAULT_LOCK_TTL } from "../lock";
+import { SQLTaskConfig, TaskRow, taskTables } from "./tables";
+
+type TasksTable = ReturnType<typeof taskTables>["concaveTasks"];
+
+// Takes the lock on a task row in a single update, so two workers can't
+// both win it. Returns the locked row, or undefined if someone else holds it.
+export const lockTaskRow = async (
+  conn: DrizzleDatabase,
+  tasks: TasksTable,
+  taskId: string,
+  workerId: string,
+  ttlSeconds: number = DEFAULT_LOCK_TTL
+): Promise<TaskRow | undefined> => {
+  const now = Date.now();
+  const [row] = await conn
+    .update(tasks)
+    .set({ lockedBy: workerId, lockedUntil: now + ttlSeconds * 1000 })
+    .where(
+      and(
+        eq(tasks.id, taskId),
+        or(isNull(tasks.lockedBy), eq(tasks.lockedBy, workerId), lt(tasks.lockedUntil, now))
+      )
+    )
+    .returning();
+  return row;
+};
+
+export const unlockTaskRow = async (
+  conn: DrizzleDatabase,
+  tasks: TasksTable,
+  taskId: string,
+  workerId: string
+): Promise<boolean> => {
+  const rows = await conn
+    .update(tasks)
+    .set({ lockedBy: null, lockedUntil: null })
+    .where(and(eq(tasks.id, taskId), eq(tasks.lockedBy, workerId)))
+    .returning({ id: tasks.id });
+  return rows.length > 0;
+};
+
+// Locks live on the task rows, so only stored tasks can be locked
+export const createSQLTaskLock = (config: SQLTaskConfig): TaskLock => {
+  const { db } = config;
+  const { concaveTasks: tasks } = taskTables(config.dialect);
+
+  return {
+    async acquire(
+      taskId: string,
+      workerId: string,
+      ttlSeconds: number = DEFAULT_LOCK_TTL
+    ): Promise<boolean> {
+      return !!(await lockTaskRow(db, tasks, taskId, workerId, ttlSeconds));
+    },
+
+    async extend(
+      taskId: string,
+      workerId: string,
+      ttlSeconds: number = DEFAULT_LOCK_TTL
+    ): Promise<boolean> {
+      const now = Date.now();
+      const rows = await db
+        .update(tasks)
+        .set({ lockedUntil: now + ttlSeconds * 1000 })
+        .where(
+          and(eq(tasks.id, taskId), eq(tasks.lockedBy, workerId), gt(tasks.lockedUntil, now))
+        )
+        .returning({ id: tasks.id });
+      return rows.length > 0;
+    },
+
+    async release(taskId: string, workerId: string): Promise<boolean> {
+      return unlockTaskRow(db, tasks, taskId, workerId);
+    },
+
+    async isHeld(taskId: string, workerId: string): Promise<boolean> {
+      const rows = await db
+        .select({ id: tasks.id })
+        .from(tasks)
+        .where(
+          and(eq(tasks.id, taskId), eq(tasks.lockedBy, workerId), gt(tasks.lockedUntil, Date.now()))
+        )
+        .limit(1);
+      return rows.length > 0;
+    },
+  };
+};
@@ -0,0 +1,85 @@
+import { pgTable, text, integer, bigint, boolean, index } from "drizzle-orm/pg-core";
+
+// Tables of the SQL task backend on Postgres. Export them from your
+// drizzle-kit schema to have migrations generated for them:
+//
+//   export * from "@kahveciderin/concave/tasks/postgres-schema";
+
+// Times are milliseconds since the epoch; JSON values are stored as text
+export const concaveTasks = pgTable(
+  "concave_tasks",
+  {
+    id: text("id").primaryKey(),
+    name: text("name").notNull(),
+    input: text("input"),
+    status: text("status").notNull(),
+    priority: integer("priority").notNull(),
+    createdAt: bigint("created_at", { mode: "number" }).notNull(),
+    scheduledFor: bigint("scheduled_for", { mode: "number" }).notNull(),
+    attempt: integer("attempt").notNull(),
+    maxAttempts: integer("max_attempts").notNull(),
+    startedAt: bigint("started_at", { mode: "number" }),
+    completedAt: bigint("completed_at", { mode: "number" }),
+    workerId: text("worker_id"),
+    lastError: text("last_error"),
+    result: text("result"),
+    progress: text("progress"),
+    idempotencyKey: text("idempotency_key"),
+    debounceKey: text("debounce_key"),
+    recurring: text("recurring"),
+    workflowId: text("workflow_id"),
+    workflowStep: text("workflow_step"),
+    lockedBy: text("locked_by"),
+    lockedUntil: bigint("locked_until", { mode: "number" }),
+  },
+  (t) => [
+    index("concave_tasks_status_idx").on(t.status),
+    index("concave_tasks_name_idx").on(t.name),
+  ]
+);
+
+export const concaveTaskQueue = pgTable(
+  "concave_task_queue",
+  {
+    taskId: text("task_id").primaryKey(),
+    bucket: integer("bucket").notNull(),
+    runAt: bigint("run_at", { mode: "number" }).notNull(),
+  },
+  (t) => [index("concave_task_queue_due_idx").on(t.bucket, t.runAt)]
+);
+
+export const concaveTaskIdempotencyKeys = pgTable("concave_task_idempotency_keys", {
+  key: text("key").primaryKey(),
+  taskId: text("task_id").notNull(),
+  expiresAt: bigint("expires_at", { mode: "number" }).notNull(),
+});
+
+export const concaveTaskDeadLetters = pgTable(
+  "concave_task_dead_letters",
+  {
+    taskId: text("task_id").primaryKey(),
+    task: text("task").notNull(),
+    failedAt: bigint("failed_at", { mode: "number" }).notNull(),
+    reason: text("reason").notNull(),
+    attempts: integer("attempts").notNull(),
+    workflowId: text("workflow_id"),
+  },
+  (t) => [index("concave_task_dead_letters_failed_at_idx").on(t.failedAt)]
+);
+
+export const concaveTaskSchedules = pgTable(
+  "concave_task_schedules",
+  {
+    id: text("id").primaryKey(),
+    taskName: text("task_name").notNull(),
+    input: text("input"),
+    cron: text("cron"),
+    interval: bigint("interval", { mode: "number" }),
+    timezone: text("timezone").notNull(),
+    enabled: boolean("enabled").notNull(),
+    lastRunAt: bigint("last_run_at", { mode: "number" }),
+    nextRunAt: bigint("next_run_at", { mode: "number" }).notNull(),
+    createdAt: bigint("created_at", { mode: "number" }).notNull(),
+  },
+  (t) => [index("concave_task_schedules_next_run_at_idx").on(t.nextRunAt)]
+);
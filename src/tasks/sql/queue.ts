@@ -0,0 +1,105 @@
+import { and, asc, count, eq, inArray, lte } from "drizzle-orm";
+import { DrizzleDatabase } from "@/resource/types";
+import { Task } from "../types";
+import { TaskQueue, priorityBucket } from "../queue";
+import { SQLTaskConfig, taskTables, fromRow } from "./tables";
+import { lockTaskRow, unlockTaskRow } from "./lock";
+
+// Due tasks looked at per claim
+const CLAIM_BATCH = 10;
+
+export const createSQLTaskQueue = (config: SQLTaskConfig): TaskQueue => {
+  const { db, dialect } = config;
+  const { concaveTasks: tasks, concaveTaskQueue: queue } = taskTables(dialect);
+
+  const claim = async (
+    conn: DrizzleDatabase,
+    workerId: string,
+    taskTypes?: string[],
+    admit?: (task: Task) => Promise<boolean>
+  ): Promise<Task | null> => {
+    let candidates = conn
+      .select({ taskId: queue.taskId })
+      .from(queue)
+      .innerJoin(tasks, eq(tasks.id, queue.taskId))
+      .where(
+        and(
+          lte(queue.runAt, Date.now()),
+          taskTypes ? inArray(tasks.name, taskTypes) : undefined
+        )
+      )
+      .orderBy(asc(queue.bucket), asc(queue.runAt))
+      .limit(CLAIM_BATCH);
+
+    // Workers claiming at the same time each get different rows instead of
+    // queueing up behind one another
+    if (dialect === "postgres") {
+      candidates = candidates.for("update", { of: queue, skipLocked: true });
+    }
+
+    for (const { taskId } of await candidates) {
+      const row = await lockTaskRow(conn, tasks, taskId, workerId);
+      if (!row) continue;
+
+      const task = fromRow(row);
+      if (task.status !== "pending" && task.status !== "scheduled") {
+        await unlockTaskRow(conn, tasks, taskId, workerId);
+        await conn.delete(queue).where(eq(queue.taskId, taskId));
+        continue;
+      }
+
+      if (admit && !(await admit(task))) {
+        await unlockTaskRow(conn, tasks, taskId, workerId);
+        continue;
+      }
+
+      await conn.delete(queue).where(eq(queue.taskId, taskId));
+      return task;
+    }
+
+    return null;
+  };
+
+  return {
+    async add(taskId: string, priority: number, scheduledFor: number): Promise<void> {
+      const bucket = priorityBucket(priority);
+      await db
+        .insert(queue)
+        .values({ taskId, bucket, runAt: scheduledFor })
+        .onConflictDoUpdate({ target: queue.taskId, set: { bucket, runAt: scheduledFor } });
+    },
+
+    // On SQLite, the lock update alone decides who gets a task
+    async claimNext(
+      workerId: string,
+      taskTypes?: string[],
+      admit?: (task: Task) => Promise<boolean>
+    ): Promise<Task | null> {
+      if (dialect === "postgres") {
+        return db.transaction((tx: DrizzleDatabase) => claim(tx, workerId, taskTypes, admit));
+      }
+      return claim(db, workerId, taskTypes, admit);
+    },
+
+    async remove(taskId: string): Promise<void> {
+      await db.delete(queue).where(eq(queue.taskId, taskId));
+    },
+
+    async getQueueDepth(priority?: number): Promise<number> {
+      const [row] = await db
+        .select({ depth: count() })
+        .from(queue)
+        .where(priority !== undefined ? eq(queue.bucket, priorityBucket(priority)) : undefined);
+      return Number(row?.depth ?? 0);
+    },
+
+    async getScheduledTasks(limit: number = 100): Promise<string[]> {
+      const rows = await db
+        .select({ taskId: queue.taskId })
+        .from(queue)
+        .orderBy(asc(queue.bucket), asc(queue.runAt))
+        .limit(limit);
+      return rows.map((row: { taskId: string }) => row.taskId);
+    },
+  };
+};
@@ -0,0 +1,121 @@
+import { and, asc, eq, lte } from "drizzle-orm";
+import { RecurringConfig, RecurringSchedule, TaskDefinition } from "../types";
+import { RecurringManager, calculateNextRun, createSchedule } from "../recurring";
+import { SQLTaskConfig, taskTables, encodeJSON, decodeJSON } from "./tables";
+
+interface ScheduleRow {
+  id: string;
+  taskName: string;
+  input: string | null;
+  cron: string | null;
+  interval: number | null;
+  timezone: string;
+  enabled: boolean;
+  lastRunAt: number | null;
+  nextRunAt: number;
+  createdAt: number;
+}
+
+const fromRow = (row: ScheduleRow): RecurringSchedule => ({
+  id: row.id,
+  taskName: row.taskName,
+  input: decodeJSON(row.input),
+  timezone: row.timezone,
+  enabled: row.enabled,
+  nextRunAt: row.nextRunAt,
+  createdAt: row.createdAt,
+  ...(row.cron !== null && { cron: row.cron }),
+  ...(row.interval !== null && { interval: row.interval }),
+  ...(row.lastRunAt !== null && { lastRunAt: row.lastRunAt }),
+});
+
+export const createSQLRecurringManager = (config: SQLTaskConfig): RecurringManager => {
+  const { db } = config;
+  const { concaveTaskSchedules: schedules } = taskTables(config.dialect);
+
+  const nextRun = (schedule: RecurringSchedule, from: number) =>
+    calculateNextRun(
+      { cron: schedule.cron, interval: schedule.interval, timezone: schedule.timezone },
+      from
+    );
+
+  return {
+    async create(
+      task: TaskDefinition,
+      input: unknown,
+      config: RecurringConfig
+    ): Promise<string> {
+      const schedule = createSchedule(task, input, config);
+
+      await db.insert(schedules).values({
+        id: schedule.id,
+        taskName: schedule.taskName,
+        input: encodeJSON(schedule.input),
+        cron: schedule.cron ?? null,
+        interval: schedule.interval ?? null,
+        timezone: schedule.timezone,
+        enabled: schedule.enabled,
+        nextRunAt: schedule.nextRunAt,
+        createdAt: schedule.createdAt,
+      });
+
+      return schedule.id;
+    },
+
+    async pause(scheduleId: string): Promise<void> {
+      await db.update(schedules).set({ enabled: false }).where(eq(schedules.id, scheduleId));
+    },
+
+    async resume(scheduleId: string): Promise<void> {
+      const schedule = await this.get(scheduleId);
+      if (!schedule) return;
+
+      await db
+        .update(schedules)
+        .set({ enabled: true, nextRunAt: nextRun(schedule, Date.now()) })
+        .where(eq(schedules.id, scheduleId));
+    },
+
+    async delete(scheduleId: string): Promise<void> {
+      await db.delete(schedules).where(eq(schedules.id, scheduleId));
+    },
+
+    async get(scheduleId: string): Promise<RecurringSchedule | null> {
+      const [row] = await db
+        .select()
+        .from(schedules)
+        .where(eq(schedules.id, scheduleId))
+        .limit(1);
+      return row ? fromRow(row) : null;
+    },
+
+    async list(): Promise<RecurringSchedule[]> {
+      const rows = await db.select().from(schedules).orderBy(asc(schedules.createdAt));
+      return rows.map(fromRow);
+    },
+
+    async tick(
+      enqueue: (taskName: string, input: unknown) => Promise<string>
+    ): Promise<void> {
+      const now = Date.now();
+
+      const rows = await db
+        .select()
+        .from(schedules)
+        .where(and(eq(schedules.enabled, true), lte(schedules.nextRunAt, now)));
+
+      for (const schedule of rows.map(fromRow)) {
+        // Moving the run forward claims it, so processes ticking at the same
+        // time enqueue it once between them
+        const claimed = await db
+          .update(schedules)
+          .set({ lastRunAt: now, nextRunAt: nextRun(schedule, now) })
+          .where(and(eq(schedules.id, schedule.id), eq(schedules.nextRunAt, schedule.nextRunAt)))
+          .returning({ id: schedules.id });
+        if (claimed.length === 0) continue;
+
+        await enqueue(schedule.taskName, schedule.input);
+      }
+    },
+  };
+};
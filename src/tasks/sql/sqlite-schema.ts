@@ -0,0 +1,85 @@
+import { sqliteTable, text, integer, index } from "drizzle-orm/sqlite-core";
+
+// Tables of the SQL task backend on SQLite. Export them from your drizzle-kit
+// schema to have migrations generated for them:
+//
+//   export * from "@kahveciderin/concave/tasks/sqlite-schema";
+
+// Times are milliseconds since the epoch; JSON values are stored as text
+export const concaveTasks = sqliteTable(
+  "concave_tasks",
+  {
+    id: text("id").primaryKey(),
+    name: text("name").notNull(),
+    input: text("input"),
+    status: text("status").notNull(),
+    priority: integer("priority").notNull(),
+    createdAt: integer("created_at").notNull(),
+    scheduledFor: integer("scheduled_for").notNull(),
+    attempt: integer("attempt").notNull(),
+    maxAttempts: integer("max_attempts").notNull(),
+    startedAt: integer("started_at"),
+    completedAt: integer("completed_at"),
+    workerId: text("worker_id"),
+    lastError: text("last_error"),
+    result: text("result"),
+    progress: text("progress"),
+    idempotencyKey: text("idempotency_key"),
+    debounceKey: text("debounce_key"),
+    recurring: text("recurring"),
+    workflowId: text("workflow_id"),
+    workflowStep: text("workflow_step"),
+    lockedBy: text("locked_by"),
+    lockedUntil: integer("locked_until"),
+  },
+  (t) => [
+    index("concave_tasks_status_idx").on(t.status),
+    index("concave_tasks_name_idx").on(t.name),
+  ]
+);
+
+export const concaveTaskQueue = sqliteTable(
+  "concave_task_queue",
+  {
+    taskId: text("task_id").primaryKey(),
+    bucket: integer("bucket").notNull(),
+    runAt: integer("run_at").notNull(),
+  },
+  (t) => [index("concave_task_queue_due_idx").on(t.bucket, t.runAt)]
+);
+
+export const concaveTaskIdempotencyKeys = sqliteTable("concave_task_idempotency_keys", {
+  key: text("key").primaryKey(),
+  taskId: text("task_id").notNull(),
+  expiresAt: integer("expires_at").notNull(),
+});
+
+export const concaveTaskDeadLetters = sqliteTable(
+  "concave_task_dead_letters",
+  {
+    taskId: text("task_id").primaryKey(),
+    task: text("task").notNull(),
+    failedAt: integer("failed_at").notNull(),
+    reason: text("reason").notNull(),
+    attempts: integer("attempts").notNull(),
+    workflowId: text("workflow_id"),
+  },
+  (t) => [index("concave_task_dead_letters_failed_at_idx").on(t.failedAt)]
+);
+
+export const concaveTaskSchedules = sqliteTable(
+  "concave_task_schedules",
+  {
+    id: text("id").primaryKey(),
+    taskName: text("task_name").notNull(),
+    input: text("input"),
+    cron: text("cron"),
+    interval: integer("interval"),
+    timezone: text("timezone").notNull(),
+    enabled: integer("enabled", { mode: "boolean" }).notNull(),
+    lastRunAt: integer("last_run_at"),
+    nextRunAt: integer("next_run_at").notNull(),
+    createdAt: integer("created_at").notNull(),
+  },
+  (t) => [index("concave_task_schedules_next_run_at_idx").on(t.nextRunAt)]
+);
@@ -0,0 +1,110 @@
+import { and, desc, eq, gt, gte, inArray, lte } from "drizzle-orm";
+import { Task, TaskStatus, TaskFilter } from "../types";
+import { TaskStorage } from "../storage";
+import { SQLTaskConfig, taskTables, toColumns, toRow, fromRow } from "./tables";
+
+const IDEMPOTENCY_TTL_MS = 24 * 60 * 60 * 1000;
+
+export const createSQLTaskStorage = (config: SQLTaskConfig): TaskStorage => {
+  const { db } = config;
+  const {
+    concaveTasks: tasks,
+    concaveTaskQueue: queue,
+    concaveTaskIdempotencyKeys: keys,
+  } = taskTables(config.dialect);
+
+  const setKey = async (key: string, taskId: string, ttlMs: number) => {
+    const expiresAt = Date.now() + ttlMs;
+    await db
+      .insert(keys)
+      .values({ key, taskId, expiresAt })
+      .onConflictDoUpdate({ target: keys.key, set: { taskId, expiresAt } });
+  };
+
+  return {
+    async store(task: Task): Promise<void> {
+      const row = toRow(task);
+      await db
+        .insert(tasks)
+        .values(row)
+        .onConflictDoUpdate({ target: tasks.id, set: row });
+
+      if (task.idempotencyKey) {
+        await setKey(task.idempotencyKey, task.id, IDEMPOTENCY_TTL_MS);
+      }
+    },
+
+    async get(taskId: string): Promise<Task | null> {
+      const [row] = await db.select().from(tasks).where(eq(tasks.id, taskId)).limit(1);
+      return row ? fromRow(row) : null;
+    },
+
+    async update(taskId: string, updates: Partial<Task>): Promise<void> {
+      const columns = toColumns(updates);
+      if (Object.keys(columns).length === 0) return;
+      await db.update(tasks).set(columns).where(eq(tasks.id, taskId));
+    },
+
+    // The status is a column, so `oldStatus` has no index to leave
+    async updateStatus(
+      taskId: string,
+      _oldStatus: TaskStatus,
+      newStatus: TaskStatus,
+      updates: Partial<Task> = {}
+    ): Promise<void> {
+      await db
+        .update(tasks)
+        .set({ ...toColumns(updates), status: newStatus })
+        .where(eq(tasks.id, taskId));
+    },
+
+    async delete(taskId: string): Promise<void> {
+      const task = await this.get(taskId);
+      if (!task) return;
+
+      await db.delete(queue).where(eq(queue.taskId, taskId));
+      await db.delete(tasks).where(eq(tasks.id, taskId));
+
+      if (task.idempotencyKey) {
+        await db
+          .delete(keys)
+          .where(and(eq(keys.key, task.idempotencyKey), eq(keys.taskId, taskId)));
+      }
+    },
+
+    async query(filter: TaskFilter): Promise<Task[]> {
+      const statuses = filter.status && [filter.status].flat();
+      const names = filter.name && [filter.name].flat();
+
+      const rows = await db
+        .select()
+        .from(tasks)
+        .where(
+          and(
+            statuses ? inArray(tasks.status, statuses) : undefined,
+            names ? inArray(tasks.name, names) : undefined,
+            filter.createdAfter ? gte(tasks.createdAt, filter.createdAfter.getTime()) : undefined,
+            filter.createdBefore ? lte(tasks.createdAt, filter.createdBefore.getTime()) : undefined
+          )
+        )
+        .orderBy(desc(tasks.createdAt))
+        .limit(filter.limit ?? 100)
+        .offset(filter.offset ?? 0);
+
+      return rows.map(fromRow);
+    },
+
+    async findByIdempotencyKey(key: string): Promise<Task | null> {
+      const [entry] = await db
+        .select({ taskId: keys.taskId })
+        .from(keys)
+        .where(and(eq(keys.key, key), gt(keys.expiresAt, Date.now())))
+        .limit(1);
+      return entry ? this.get(entry.taskId) : null;
+    },
+
+    async setIdempotencyKey(key: string, taskId: string, ttlMs: number): Promise<void> {
+      await setKey(key, taskId, ttlMs);
+    },
+  };
+};
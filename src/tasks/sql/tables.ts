@@ -0,0 +1,87 @@
+import { DrizzleDatabase } from "@/resource/types";
+import { Task, TaskStatus } from "../types";
+import * as sqliteSchema from "./sqlite-schema";
+import * as postgresSchema from "./postgres-schema";
+
+export type SQLTaskDialect = "sqlite" | "postgres";
+
+export interface SQLTaskConfig {
+  db: DrizzleDatabase;
+  dialect: SQLTaskDialect;
+}
+
+// Both schemas have the same columns under the same keys; only the column
+// types differ
+export const taskTables = (dialect: SQLTaskDialect) =>
+  dialect === "sqlite" ? sqliteSchema : postgresSchema;
+
+export type TaskRow = typeof sqliteSchema.concaveTasks.$inferSelect;
+
+const JSON_FIELDS = new Set(["input", "result", "progress", "recurring"]);
+
+const TASK_FIELDS: (keyof Task)[] = [
+  "id",
+  "name",
+  "input",
+  "status",
+  "priority",
+  "createdAt",
+  "scheduledFor",
+  "attempt",
+  "maxAttempts",
+  "startedAt",
+  "completedAt",
+  "workerId",
+  "lastError",
+  "result",
+  "progress",
+  "idempotencyKey",
+  "debounceKey",
+  "recurring",
+  "workflowId",
+  "workflowStep",
+];
+
+export const encodeJSON = (value: unknown): string | null =>
+  value === undefined ? null : JSON.stringify(value);
+
+export const decodeJSON = (value: string | null): unknown =>
+  value === null ? undefined : JSON.parse(value);
+
+// Column values for the given fields of a task; fields set to undefined are
+// cleared
+export const toColumns = (task: Partial<Task>): Record<string, unknown> => {
+  const columns: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(task)) {
+    if (!TASK_FIELDS.includes(key as keyof Task)) continue;
+    columns[key] = JSON_FIELDS.has(key) ? encodeJSON(value) : value ?? null;
+  }
+  return columns;
+};
+
+// Every column of a task, so a stored task replaces the previous one whole
+export const toRow = (task: Task): Record<string, unknown> =>
+  toColumns(Object.fromEntries(TASK_FIELDS.map((field) => [field, task[field]])));
+
+export const fromRow = (row: TaskRow): Task => ({
+  id: row.id,
+  name: row.name,
+  input: decodeJSON(row.input),
+  status: row.status as TaskStatus,
+  priority: row.priority,
+  createdAt: row.createdAt,
+  scheduledFor: row.scheduledFor,
+  attempt: row.attempt,
+  maxAttempts: row.maxAttempts,
+  ...(row.startedAt !== null && { startedAt: row.startedAt }),
+  ...(row.completedAt !== null && { completedAt: row.completedAt }),
+  ...(row.workerId !== null && { workerId: row.workerId }),
+  ...(row.lastError !== null && { lastError: row.lastError }),
+  ...(row.result !== null && { result: decodeJSON(row.result) }),
+  ...(row.progress !== null && { progress: decodeJSON(row.progress) as Task["progress"] }),
+  ...(row.idempotencyKey !== null && { idempotencyKey: row.idempotencyKey }),
+  ...(row.debounceKey !== null && { debounceKey: row.debounceKey }),
+  ...(row.recurring !== null && { recurring: decodeJSON(row.recurring) as Task["recurring"] }),
+  ...(row.workflowId !== null && { workflowId: row.workflowId }),
+  ...(row.workflowStep !== null && { workflowStep: row.workflowStep }),
+});
@@ -23,8 +23,12 @@ const serializeTask = (task: Task): Record<string, string> => {
   if (task.workerId !== undefined) result.workerId = task.workerId;
   if (task.lastError !== undefined) result.lastError = task.lastError;
   if (task.result !== undefined) result.result = JSON.stringify(task.result);
+  if (task.progress !== undefined) result.progress = JSON.stringify(task.progress);
   if (task.idempotencyKey !== undefined) result.idempotencyKey = task.idempotencyKey;
+  if (task.debounceKey !== undefined) result.debounceKey = task.debounceKey;
   if (task.recurring !== undefined) result.recurring = JSON.stringify(task.recurring);
+  if (task.workflowId !== undefined) result.workflowId = task.workflowId;
+  if (task.workflowStep !== undefined) result.workflowStep = task.workflowStep;
   return result;
 };
 
@@ -43,8 +47,12 @@ const deserializeTask = (data: Record<string, string>): Task => ({
   ...(data.workerId && { workerId: data.workerId }),
   ...(data.lastError && { lastError: data.lastError }),
   ...(data.result && { result: JSON.parse(data.result) }),
+  ...(data.progress && { progress: JSON.parse(data.progress) }),
   ...(data.idempotencyKey && { idempotencyKey: data.idempotencyKey }),
+  ...(data.debounceKey && { debounceKey: data.debounceKey }),
   ...(data.recurring && { recurring: JSON.parse(data.recurring) }),
+  ...(data.workflowId && { workflowId: data.workflowId }),
+  ...(data.workflowStep && { workflowStep: data.workflowStep }),
 });
 
 const matchesFilter = (task: Task, filter: TaskFilter): boolean => {
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import type { TaskBackend } from "./backend";
 
 export type TaskStatus =
   | "pending"
@@ -21,6 +22,13 @@ export interface DebounceConfig {
   key: (input: unknown) => string;
 }
 
+export interface TaskProgress {
+  // 0 to 100
+  percent: number;
+  message?: string;
+  updatedAt: number;
+}
+
 export interface TaskContext {
   taskId: string;
   attempt: number;
@@ -29,6 +37,8 @@ export interface TaskContext {
   workerId: string;
   signal: AbortSignal;
   db: unknown;
+  // Stores the task's progress and pushes it to anyone watching the task
+  reportProgress(percent: number, message?: string): Promise<void>;
 }
 
 export interface TaskDefinition<TInput = unknown, TOutput = unknown> {
@@ -65,8 +75,14 @@ export interface Task<TInput = unknown> {
   maxAttempts: number;
   lastError?: string;
   result?: unknown;
+  progress?: TaskProgress;
   idempotencyKey?: string;
+  // Task name and debounce key; enqueues sharing it fold into this task
+  debounceKey?: string;
   recurring?: RecurringConfig;
+  // Set on tasks started by a workflow step
+  workflowId?: string;
+  workflowStep?: string;
 }
 
 export interface ScheduleOptions {
@@ -76,6 +92,20 @@ export interface ScheduleOptions {
   idempotencyKey?: string;
 }
 
+export interface WaitOptions {
+  // Milliseconds to wait before rejecting; the task itself keeps going
+  timeout?: number;
+}
+
+// Published on the KV events channel as a task moves along
+export type TaskEvent =
+  | { type: "started"; taskId: string; attempt: number }
+  | { type: "progress"; taskId: string; progress: TaskProgress }
+  | { type: "retrying"; taskId: string; error: string; scheduledFor: number }
+  | { type: "completed"; taskId: string; result: unknown }
+  | { type: "dead"; taskId: string; error: string }
+  | { type: "cancelled"; taskId: string };
+
 export interface TaskFilter {
   status?: TaskStatus | TaskStatus[];
   name?: string | string[];
@@ -91,6 +121,69 @@ export interface DeadLetterEntry {
   failedAt: number;
   reason: string;
   attempts: number;
+  // Workflow halted by this task's death; retrying the entry resumes it
+  workflowId?: string;
+  // Current state of that workflow, filled in when the entry is read
+  workflow?: Workflow;
+}
+
+export interface TaskStep {
+  kind: "task";
+  task: TaskDefinition;
+  // Defaults to the result of the step before it (or every result, in order,
+  // when it waits on several)
+  input?: unknown;
+  id?: string;
+  // Ids of other steps in the workflow this one also waits for
+  dependsOn?: string[];
+}
+
+export interface ChainStep {
+  kind: "chain";
+  steps: WorkflowStep[];
+}
+
+export interface GroupStep {
+  kind: "group";
+  steps: WorkflowStep[];
+  // Runs once every step in the group has completed, with all their results
+  join?: TaskStep;
+}
+
+export type WorkflowStep = TaskStep | ChainStep | GroupStep;
+
+export type WorkflowStatus = "running" | "completed" | "dead" | "cancelled";
+
+// "waiting" steps have unfinished dependencies; "ready" ones are held back
+// because the workflow is dead and run once it is resumed
+export type WorkflowStepStatus =
+  | "waiting"
+  | "ready"
+  | "queued"
+  | "completed"
+  | "dead"
+  | "cancelled";
+
+export interface WorkflowStepState {
+  id: string;
+  taskName: string;
+  dependsOn: string[];
+  status: WorkflowStepStatus;
+  taskId?: string;
+  result?: unknown;
+  error?: string;
+}
+
+export interface Workflow {
+  id: string;
+  name?: string;
+  status: WorkflowStatus;
+  createdAt: number;
+  completedAt?: number;
+  error?: string;
+  // Result of the last step, or of every last step when several end the flow
+  result?: unknown;
+  steps: WorkflowStepState[];
 }
 
 export interface RecurringSchedule {
@@ -122,4 +215,6 @@ export interface WorkerConfig {
   taskTypes?: string[];
   lockTtlMs?: number;
   heartbeatMs?: number;
+  // Where tasks are claimed from; defaults to the worker's KV
+  backend?: TaskBackend;
 }
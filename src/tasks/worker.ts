@@ -7,9 +7,13 @@ import {
   WorkerStats,
 } from "./types";
 import { createTaskLock } from "./lock";
+import { createTaskSemaphore } from "./semaphore";
+import { createTaskDebouncer } from "./debounce";
 import { createTaskQueue } from "./queue";
 import { createTaskStorage } from "./storage";
 import { createDeadLetterQueue } from "./dlq";
+import { createWorkflowManager } from "./workflow";
+import { createTaskEvents } from "./events";
 import { calculateBackoff, shouldRetry } from "./retry";
 import { TaskRegistry } from "./scheduler";
 import { DrizzleDatabase } from "@/resource/types";
@@ -56,9 +60,12 @@ export const createTaskWorker = (
       : trackMutations(dbConfig.db, dbConfig.tables)
     : undefined;
 
-  const lock = createTaskLock(kv);
-  const queue = createTaskQueue(kv);
-  const storage = createTaskStorage(kv);
+  const { backend } = config;
+  const lock = backend?.lock ?? createTaskLock(kv);
+  const queue = backend?.queue ?? createTaskQueue(kv);
+  const storage = backend?.storage ?? createTaskStorage(kv);
+  const semaphore = createTaskSemaphore(kv);
+  const debouncer = createTaskDebouncer(kv, backend);
 
   let running = false;
   let paused = false;
@@ -73,7 +80,26 @@ export const createTaskWorker = (
     return task.id;
   };
 
-  const dlq = createDeadLetterQueue(kv, requeue);
+  const dlq = backend
+    ? backend.createDeadLetterQueue(kv, requeue)
+    : createDeadLetterQueue(kv, requeue);
+  const workflows = createWorkflowManager(kv, backend);
+  const events = createTaskEvents(kv);
+
+  const deadLetter = async (task: Task, reason: string): Promise<void> => {
+    await dlq.add(task, reason);
+    await workflows.stepDied(task, reason);
+    await events.publish({ type: "dead", taskId: task.id, error: reason });
+    failedCount++;
+  };
+
+  // Task types with a maxConcurrency are only claimed while a slot is free
+  // across the cluster. The slot is held until the task finishes.
+  const admit = async (task: Task): Promise<boolean> => {
+    const limit = registry.get(task.name)?.maxConcurrency;
+    if (limit === undefined) return true;
+    return semaphore.acquire(task.name, task.id, limit, lockTtl);
+  };
 
   const handleTaskError = async (
     task: Task,
@@ -95,25 +121,40 @@ export const createTaskWorker = (
       });
 
       await queue.add(task.id, task.priority, scheduledFor);
+      await events.publish({
+        type: "retrying",
+        taskId: task.id,
+        error: error.message,
+        scheduledFor,
+      });
     } else {
-      await dlq.add(task, error.message);
-      failedCount++;
+      await deadLetter(task, error.message);
     }
   };
 
   const processTask = async (task: Task): Promise<void> => {
     const definition = registry.get(task.name);
     if (!definition) {
-      await dlq.add(task, `Unknown task type: ${task.name}`);
-      failedCount++;
+      await deadLetter(task, `Unknown task type: ${task.name}`);
       return;
     }
 
     const controller = new AbortController();
     activeTasks.set(task.id, controller);
+    const limited = definition.maxConcurrency !== undefined;
+
+    // Cancelling a workflow aborts its running steps
+    let cancelled = false;
+    const cancel = () => {
+      cancelled = true;
+      controller.abort();
+    };
+    let stopListening: (() => void) | undefined;
 
     const heartbeat = setInterval(async () => {
-      const extended = await lock.extend(task.id, workerId, lockTtl);
+      const extended =
+        (await lock.extend(task.id, workerId, lockTtl)) &&
+        (!limited || (await semaphore.extend(task.name, task.id, lockTtl)));
       if (!extended) {
         controller.abort();
       }
@@ -125,6 +166,25 @@ export const createTaskWorker = (
         startedAt: Date.now(),
       });
 
+      if (task.debounceKey) {
+        // Enqueues from here on start a new task; pick up any input folded
+        // in since the task was claimed
+        await debouncer.release(task.debounceKey, task.id);
+        task.input = (await storage.get(task.id))?.input ?? task.input;
+      }
+
+      await events.publish({ type: "started", taskId: task.id, attempt: task.attempt + 1 });
+
+      if (task.workflowId) {
+        stopListening = await events.listen(task.id, (event) => {
+          if (event.type === "cancelled") cancel();
+        });
+        // A cancel published before we listened
+        if ((await workflows.get(task.workflowId))?.status === "cancelled") {
+          cancel();
+        }
+      }
+
       const ctx: TaskContext = {
         taskId: task.id,
         attempt: task.attempt + 1,
@@ -133,6 +193,15 @@ export const createTaskWorker = (
         workerId,
         signal: controller.signal,
         db: trackedDb,
+        reportProgress: async (percent, message) => {
+          const progress = {
+            percent: Math.min(100, Math.max(0, percent)),
+            message,
+            updatedAt: Date.now(),
+          };
+          await storage.update(task.id, { progress });
+          await events.publish({ type: "progress", taskId: task.id, progress });
+        },
       };
 
       const timeoutMs = definition.timeout ?? 30000;
@@ -151,8 +220,15 @@ export const createTaskWorker = (
       });
 
       processedCount++;
+      await events.publish({ type: "completed", taskId: task.id, result });
+      // The task itself succeeded, so don't let this reach the retry path
+      await workflows
+        .stepCompleted(task, result)
+        .catch((err) => console.error(`Workflow step ${task.id} error:`, err));
     } catch (error) {
-      if (controller.signal.aborted) {
+      if (cancelled) {
+        await storage.delete(task.id);
+      } else if (controller.signal.aborted) {
         await storage.updateStatus(task.id, "running", "scheduled", {
           lastError: "Worker lost lock",
           workerId: undefined,
@@ -163,7 +239,11 @@ export const createTaskWorker = (
       }
     } finally {
       clearInterval(heartbeat);
+      stopListening?.();
       activeTasks.delete(task.id);
+      if (limited) {
+        await semaphore.release(task.name, task.id);
+      }
       await lock.release(task.id, workerId);
     }
   };
@@ -175,7 +255,7 @@ export const createTaskWorker = (
         continue;
       }
 
-      const task = await queue.claimNext(workerId, config.taskTypes);
+      const task = await queue.claimNext(workerId, config.taskTypes, admit);
       if (task) {
         processTask(task).catch((err) =>
           console.error(`Task ${task.id} error:`, err)
@@ -0,0 +1,439 @@
+import { KVAdapter } from "@/kv/types";
+import {
+  Task,
+  TaskDefinition,
+  TaskStep,
+  ChainStep,
+  GroupStep,
+  WorkflowStep,
+  Workflow,
+  WorkflowStatus,
+  WorkflowStepState,
+} from "./types";
+import { createTaskStorage } from "./storage";
+import { createTaskQueue } from "./queue";
+import type { TaskBackend } from "./backend";
+import { createTaskEvents } from "./events";
+
+const WORKFLOWS_KEY = "concave:tasks:workflows";
+const WORKFLOW_PREFIX = "concave:tasks:workflow:";
+const NOTIFY_CHANNEL = "concave:tasks:notify";
+
+// Completed and cancelled workflows are kept this long; dead ones stay
+// until they are retried or cancelled
+const FINISHED_WORKFLOW_TTL_SECONDS = 7 * 24 * 60 * 60;
+// Index entries checked for expired workflows per start
+const PRUNE_BATCH = 100;
+
+// Everything needed to enqueue a step, fixed when the workflow starts so
+// workers can advance it without the task definitions
+interface StepPlan {
+  id: string;
+  taskName: string;
+  input?: unknown;
+  dependsOn: string[];
+  dependents: string[];
+  join: boolean;
+  priority: number;
+  maxAttempts: number;
+}
+
+type StepRecord = Omit<WorkflowStepState, "id" | "taskName" | "dependsOn">;
+
+export const step = <TInput>(
+  task: TaskDefinition<TInput>,
+  input?: TInput,
+  options: { id?: string; dependsOn?: string[] } = {}
+): TaskStep => ({
+  kind: "task",
+  task: task as TaskDefinition,
+  input,
+  ...options,
+});
+
+export const chain = (...steps: WorkflowStep[]): ChainStep => ({
+  kind: "chain",
+  steps,
+});
+
+export const group = (steps: WorkflowStep[], join?: TaskStep): GroupStep => ({
+  kind: "group",
+  steps,
+  join,
+});
+
+const planWorkflow = (root: WorkflowStep): StepPlan[] => {
+  const steps = new Map<string, StepPlan>();
+  let generated = 0;
+
+  const add = (taskStep: TaskStep, after: string[], join: boolean): string[] => {
+    const id = taskStep.id ?? `step-${++generated}`;
+    if (steps.has(id)) {
+      throw new Error(`Duplicate workflow step id: ${id}`);
+    }
+    steps.set(id, {
+      id,
+      taskName: taskStep.task.name,
+      input: taskStep.input,
+      dependsOn: [...new Set([...after, ...(taskStep.dependsOn ?? [])])],
+      dependents: [],
+      join,
+      priority: taskStep.task.priority ?? 50,
+      maxAttempts: taskStep.task.retry?.maxAttempts ?? 3,
+    });
+    return [id];
+  };
+
+  // Returns the ids of the steps that end the visited part of the flow
+  const visit = (node: WorkflowStep, after: string[]): string[] => {
+    switch (node.kind) {
+      case "task":
+        return add(node, after, false);
+      case "chain":
+        return node.steps.reduce((previous, child) => visit(child, previous), after);
+      case "group": {
+        const ends = node.steps.flatMap((child) => visit(child, after));
+        return node.join ? add(node.join, ends, true) : ends;
+      }
+    }
+  };
+
+  visit(root, []);
+  if (steps.size === 0) {
+    throw new Error("Workflow has no steps");
+  }
+
+  for (const plan of steps.values()) {
+    for (const dependency of plan.dependsOn) {
+      const parent = steps.get(dependency);
+      if (!parent) {
+        throw new Error(`Step ${plan.id} depends on unknown step: ${dependency}`);
+      }
+      parent.dependents.push(plan.id);
+    }
+  }
+
+  // Every step must be reachable from the steps with no dependencies
+  const remaining = new Map(
+    [...steps.values()].map((plan) => [plan.id, plan.dependsOn.length])
+  );
+  const ready = [...remaining].filter(([, count]) => count === 0).map(([id]) => id);
+  let visited = 0;
+  while (ready.length > 0) {
+    const id = ready.pop()!;
+    visited++;
+    for (const dependent of steps.get(id)!.dependents) {
+      const count = remaining.get(dependent)! - 1;
+      remaining.set(dependent, count);
+      if (count === 0) ready.push(dependent);
+    }
+  }
+  if (visited !== steps.size) {
+    throw new Error("Workflow steps form a cycle");
+  }
+
+  return [...steps.values()];
+};
+
+export interface WorkflowManager {
+  /**
+   * Persists the workflow and enqueues the steps that depend on nothing.
+   * Later steps are enqueued by workers as their dependencies complete.
+   */
+  start(root: WorkflowStep, options?: { name?: string }): Promise<string>;
+  get(workflowId: string): Promise<Workflow | null>;
+  // Newest first
+  list(limit?: number, offset?: number): Promise<Workflow[]>;
+  // Stops the workflow, drops its queued steps and aborts the `ctx.signal`
+  // of running ones
+  cancel(workflowId: string): Promise<boolean>;
+  // Called by workers when a workflow task completes or dies
+  stepCompleted(task: Task, result: unknown): Promise<void>;
+  stepDied(task: Task, reason: string): Promise<void>;
+  // Called when a dead step is retried from the DLQ as `taskId`
+  resume(workflowId: string, stepId: string, taskId: string): Promise<void>;
+}
+
+export const createWorkflowManager = (
+  kv: KVAdapter,
+  backend?: TaskBackend
+): WorkflowManager => {
+  const storage = backend?.storage ?? createTaskStorage(kv);
+  const queue = backend?.queue ?? createTaskQueue(kv);
+  const events = createTaskEvents(kv);
+
+  const workflowKey = (workflowId: string) => `${WORKFLOW_PREFIX}${workflowId}`;
+  const stepsKey = (workflowId: string) => `${WORKFLOW_PREFIX}${workflowId}:steps`;
+  const remainingKey = (workflowId: string) =>
+    `${WORKFLOW_PREFIX}${workflowId}:remaining`;
+  const waitingKey = (workflowId: string, stepId: string) =>
+    `${WORKFLOW_PREFIX}${workflowId}:waiting:${stepId}`;
+
+  const loadPlan = async (
+    workflowId: string
+  ): Promise<{ status: WorkflowStatus; plan: StepPlan[] } | null> => {
+    const data = await kv.hgetall(workflowKey(workflowId));
+    if (!data || Object.keys(data).length === 0) return null;
+    return { status: data.status as WorkflowStatus, plan: JSON.parse(data.plan) };
+  };
+
+  const loadSteps = async (workflowId: string): Promise<Record<string, StepRecord>> => {
+    const data = (await kv.hgetall(stepsKey(workflowId))) ?? {};
+    return Object.fromEntries(
+      Object.entries(data).map(([id, record]) => [id, JSON.parse(record)])
+    );
+  };
+
+  const setStep = (workflowId: string, stepId: string, record: StepRecord) =>
+    kv.hset(stepsKey(workflowId), stepId, JSON.stringify(record));
+
+  // Runs once a workflow is completed or cancelled
+  const finish = async (workflowId: string, plan: StepPlan[]) => {
+    await kv.del(remainingKey(workflowId));
+    for (const planned of plan) {
+      await kv.del(waitingKey(workflowId, planned.id));
+    }
+    await kv.expire(workflowKey(workflowId), FINISHED_WORKFLOW_TTL_SECONDS);
+    await kv.expire(stepsKey(workflowId), FINISHED_WORKFLOW_TTL_SECONDS);
+  };
+
+  // Drops index entries of workflows whose records have expired
+  const pruneIndex = async () => {
+    const cutoff = Date.now() - FINISHED_WORKFLOW_TTL_SECONDS * 1000;
+    const ids = await kv.zrangebyscore(WORKFLOWS_KEY, "-inf", cutoff, {
+      limit: { offset: 0, count: PRUNE_BATCH },
+    });
+    for (const id of ids) {
+      if ((await kv.exists(workflowKey(id))) === 0) {
+        await kv.zrem(WORKFLOWS_KEY, id);
+      }
+    }
+  };
+
+  const enqueueStep = async (workflowId: string, planned: StepPlan): Promise<void> => {
+    let input = planned.input;
+    if (input === undefined && planned.dependsOn.length > 0) {
+      const records = await loadSteps(workflowId);
+      const results = planned.dependsOn.map((id) => records[id]?.result);
+      input = planned.join || results.length > 1 ? results : results[0];
+    }
+
+    const now = Date.now();
+    const task: Task = {
+      id: crypto.randomUUID(),
+      name: planned.taskName,
+      input,
+      status: "pending",
+      priority: planned.priority,
+      createdAt: now,
+      scheduledFor: now,
+      attempt: 0,
+      maxAttempts: planned.maxAttempts,
+      workflowId,
+      workflowStep: planned.id,
+    };
+
+    await setStep(workflowId, planned.id, { status: "queued", taskId: task.id });
+    await storage.store(task);
+    await queue.add(task.id, task.priority, task.scheduledFor);
+    await kv.publish(NOTIFY_CHANNEL, JSON.stringify({ taskId: task.id }));
+  };
+
+  const toWorkflow = (
+    data: Record<string, string>,
+    records: Record<string, StepRecord>
+  ): Workflow => {
+    const plan: StepPlan[] = JSON.parse(data.plan);
+    return {
+      id: data.id,
+      status: data.status as WorkflowStatus,
+      createdAt: parseInt(data.createdAt, 10),
+      ...(data.name && { name: data.name }),
+      ...(data.completedAt && { completedAt: parseInt(data.completedAt, 10) }),
+      ...(data.error && { error: data.error }),
+      ...(data.result && { result: JSON.parse(data.result) }),
+      steps: plan.map((planned) => ({
+        id: planned.id,
+        taskName: planned.taskName,
+        dependsOn: planned.dependsOn,
+        ...(records[planned.id] ?? { status: "waiting" }),
+      })),
+    };
+  };
+
+  return {
+    async start(root: WorkflowStep, options: { name?: string } = {}): Promise<string> {
+      const plan = planWorkflow(root);
+      const workflowId = crypto.randomUUID();
+      const now = Date.now();
+
+      await pruneIndex();
+
+      await kv.hmset(workflowKey(workflowId), {
+        id: workflowId,
+        status: "running",
+        createdAt: String(now),
+        plan: JSON.stringify(plan),
+        ...(options.name && { name: options.name }),
+      });
+      await kv.zadd(WORKFLOWS_KEY, now, workflowId);
+      await kv.set(remainingKey(workflowId), String(plan.length));
+
+      for (const planned of plan) {
+        if (planned.dependsOn.length > 0) {
+          await kv.set(waitingKey(workflowId, planned.id), String(planned.dependsOn.length));
+          await setStep(workflowId, planned.id, { status: "waiting" });
+        }
+      }
+      for (const planned of plan) {
+        if (planned.dependsOn.length === 0) {
+          await enqueueStep(workflowId, planned);
+        }
+      }
+
+      return workflowId;
+    },
+
+    async get(workflowId: string): Promise<Workflow | null> {
+      const data = await kv.hgetall(workflowKey(workflowId));
+      if (!data || Object.keys(data).length === 0) return null;
+      return toWorkflow(data, await loadSteps(workflowId));
+    },
+
+    async list(limit: number = 50, offset: number = 0): Promise<Workflow[]> {
+      // The index is ordered oldest first, so read it from the end
+      const ids = await kv.zrange(WORKFLOWS_KEY, -(offset + limit), -(offset + 1));
+      const workflows: Workflow[] = [];
+
+      for (const id of ids.reverse()) {
+        const workflow = await this.get(id);
+        if (workflow) workflows.push(workflow);
+      }
+
+      return workflows;
+    },
+
+    async cancel(workflowId: string): Promise<boolean> {
+      const loaded = await loadPlan(workflowId);
+      if (!loaded || (loaded.status !== "running" && loaded.status !== "dead")) {
+        return false;
+      }
+
+      await kv.hmset(workflowKey(workflowId), {
+        status: "cancelled",
+        completedAt: String(Date.now()),
+      });
+
+      const records = await loadSteps(workflowId);
+      for (const planned of loaded.plan) {
+        const record = records[planned.id] ?? { status: "waiting" };
+
+        if (record.status === "waiting" || record.status === "ready") {
+          await setStep(workflowId, planned.id, { status: "cancelled" });
+        } else if (record.status === "queued" && record.taskId) {
+          const task = await storage.get(record.taskId);
+          if (task && (task.status === "pending" || task.status === "scheduled")) {
+            await queue.remove(task.id, task.priority);
+            await storage.delete(task.id);
+            await setStep(workflowId, planned.id, { ...record, status: "cancelled" });
+            await events.publish({ type: "cancelled", taskId: task.id });
+          } else if (task?.status === "running") {
+            // The worker running it aborts the task's signal
+            await setStep(workflowId, planned.id, { ...record, status: "cancelled" });
+            await events.publish({ type: "cancelled", taskId: task.id });
+          }
+        }
+      }
+
+      await finish(workflowId, loaded.plan);
+      return true;
+    },
+
+    async stepCompleted(task: Task, result: unknown): Promise<void> {
+      const { workflowId, workflowStep } = task;
+      if (!workflowId || !workflowStep) return;
+
+      const loaded = await loadPlan(workflowId);
+      if (!loaded) return;
+
+      await setStep(workflowId, workflowStep, {
+        status: "completed",
+        taskId: task.id,
+        result,
+      });
+      if (loaded.status === "cancelled") return;
+
+      const planned = loaded.plan.find((p) => p.id === workflowStep);
+      for (const dependentId of planned?.dependents ?? []) {
+        // The last dependency to complete releases the step
+        if ((await kv.decr(waitingKey(workflowId, dependentId))) !== 0) continue;
+
+        const dependent = loaded.plan.find((p) => p.id === dependentId)!;
+        const status = (await kv.hget(workflowKey(workflowId), "status")) as WorkflowStatus;
+        if (status === "running") {
+          await enqueueStep(workflowId, dependent);
+        } else if (status === "dead") {
+          await setStep(workflowId, dependentId, { status: "ready" });
+        }
+      }
+
+      if ((await kv.decr(remainingKey(workflowId))) !== 0) return;
+
+      const records = await loadSteps(workflowId);
+      const ends = loaded.plan.filter((p) => p.dependents.length === 0);
+      const results = ends.map((p) => records[p.id]?.result);
+      const output = ends.length === 1 ? results[0] : results;
+
+      await kv.hmset(workflowKey(workflowId), {
+        status: "completed",
+        completedAt: String(Date.now()),
+        ...(output !== undefined && { result: JSON.stringify(output) }),
+      });
+      await finish(workflowId, loaded.plan);
+    },
+
+    async stepDied(task: Task, reason: string): Promise<void> {
+      const { workflowId, workflowStep } = task;
+      if (!workflowId || !workflowStep) return;
+
+      const loaded = await loadPlan(workflowId);
+      if (!loaded) return;
+
+      await setStep(workflowId, workflowStep, {
+        status: "dead",
+        taskId: task.id,
+        error: reason,
+      });
+
+      // Steps already queued or running finish, but nothing new starts
+      // until the dead step is retried
+      if (loaded.status === "running") {
+        await kv.hmset(workflowKey(workflowId), {
+          status: "dead",
+          error: `Step ${workflowStep} failed: ${reason}`,
+        });
+      }
+    },
+
+    async resume(workflowId: string, stepId: string, taskId: string): Promise<void> {
+      const loaded = await loadPlan(workflowId);
+      if (!loaded || loaded.status !== "dead") return;
+
+      await setStep(workflowId, stepId, { status: "queued", taskId });
+
+      const records = await loadSteps(workflowId);
+      if (Object.values(records).some((record) => record.status === "dead")) {
+        return;
+      }
+
+      await kv.hset(workflowKey(workflowId), "status", "running");
+      await kv.hdel(workflowKey(workflowId), "error");
+
+      for (const planned of loaded.plan) {
+        if (records[planned.id]?.status === "ready") {
+          await enqueueStep(workflowId, planned);
+        }
+      }
+    },
+  };
+};
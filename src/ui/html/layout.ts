@@ -47,6 +47,8 @@ export const navigation: NavSection[] = [
       { id: 'sessions', icon: '\u26BF', label: 'Sessions', href: '/__concave/ui/sessions' },
       { id: 'tasks', icon: '\u231B', label: 'Task Queue', href: '/__concave/ui/tasks' },
       { id: 'kv-inspector', icon: '\u26C1', label: 'KV Inspector', href: '/__concave/ui/kv-inspector' },
+      { id: 'webhooks', icon: '\u21AA', label: 'Webhooks', href: '/__concave/ui/webhooks' },
+      { id: 'search', icon: '\u2315', label: 'Search', href: '/__concave/ui/search' },
     ],
   },
 ];
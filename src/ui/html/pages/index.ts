@@ -12,3 +12,5 @@ export * from './kv-inspector';
 export * from './admin-audit';
 export * from './filter-tester';
 export * from './api-explorer';
+export * from './webhooks';
+export * from './search';
@@ -0,0 +1,190 @@
+import { html, escapeHtml, formatRelativeTime, formatDuration } from '../utils';
+import { card, badge, button, statCard, emptyState, grid, BadgeVariant } from '../components';
+
+export interface ReindexProgressInfo {
+  status: 'queued' | 'running' | 'completed' | 'failed';
+  processed: number;
+  total: number;
+  startedAt: number;
+  finishedAt?: number;
+  error?: string;
+}
+
+export interface SearchIndexInfo {
+  resource: string;
+  indexName: string;
+  progress: ReindexProgressInfo | null;
+}
+
+export interface IndexConsistencyInfo {
+  index: string;
+  dbCount: number;
+  indexCount: number;
+  missing: string[];
+  extra: string[];
+}
+
+export interface SearchPageData {
+  enabled: boolean;
+  indices: SearchIndexInfo[];
+}
+
+const MAX_LISTED_IDS = 50;
+
+const resourcePath = (resource: string) => encodeURIComponent(resource.replace(/^\/+/, ''));
+
+export const searchPage = (data: SearchPageData): string => {
+  const count = (status: ReindexProgressInfo['status']) =>
+    data.indices.filter(i => i.progress?.status === status).length;
+
+  return html`
+    <div class="page-header">
+      <h1 class="page-title">Search</h1>
+      <p class="page-desc">Search indices, reindex jobs and consistency checks</p>
+    </div>
+
+    ${data.enabled ? html`
+      ${grid([
+        statCard('Indexed Resources', data.indices.length, 'neutral'),
+        statCard('Reindexing', count('queued') + count('running'), 'info'),
+        statCard('Completed', count('completed'), 'success'),
+        statCard('Failed', count('failed'), count('failed') > 0 ? 'error' : 'neutral'),
+      ], 4)}
+
+      <div style="margin-top: 16px;">
+        ${indicesCard(data.indices)}
+      </div>
+    ` : emptyState('\u2315', 'Search Disabled', 'Configure a search adapter and enable search in the admin UI')}
+  `;
+};
+
+const statusVariant = (status: ReindexProgressInfo['status']): BadgeVariant => {
+  switch (status) {
+    case 'completed': return 'success';
+    case 'failed': return 'error';
+    case 'queued': return 'neutral';
+    default: return 'info';
+  }
+};
+
+const progressBar = (progress: ReindexProgressInfo): string => {
+  const percent = progress.total > 0 ? Math.min(100, Math.round((progress.processed / progress.total) * 100)) : 100;
+  return html`
+    <div style="display: flex; align-items: center; gap: 8px;">
+      <div style="flex: 1; min-width: 80px; height: 6px; background: var(--bg-3); border-radius: 3px; overflow: hidden;">
+        <div style="width: ${percent}%; height: 100%; background: var(--${progress.status === 'failed' ? 'error' : 'accent'});"></div>
+      </div>
+      <span style="font-size: 12px; color: var(--text-2); white-space: nowrap;">
+        ${progress.processed} / ${progress.total}
+      </span>
+    </div>
+  `;
+};
+
+// Rows of running jobs poll themselves until the job finishes
+export const searchIndexRow = (info: SearchIndexInfo): string => {
+  const progress = info.progress;
+  const running = progress?.status === 'queued' || progress?.status === 'running';
+
+  return html`
+    <tr ${running ? html`hx-get="/__concave/ui/search/indices/${resourcePath(info.resource)}" hx-trigger="every 2s" hx-swap="outerHTML"` : ''}>
+      <td><span class="code-inline">${escapeHtml(info.resource)}</span></td>
+      <td style="font-size: 12px;">${escapeHtml(info.indexName)}</td>
+      <td>
+        ${progress ? badge(progress.status, statusVariant(progress.status)) : badge('never run', 'neutral')}
+        ${progress?.error ? html`<div style="font-size: 12px; color: var(--error);">${escapeHtml(progress.error)}</div>` : ''}
+      </td>
+      <td>${progress ? progressBar(progress) : ''}</td>
+      <td style="color: var(--text-2); font-size: 12px; white-space: nowrap;">
+        ${progress ? formatRelativeTime(progress.startedAt) : ''}
+        ${progress?.finishedAt ? html`<div>${formatDuration(progress.finishedAt - progress.startedAt)}</div>` : ''}
+      </td>
+      <td>
+        <div style="display: flex; gap: 4px;">
+          ${button('Reindex', {
+            size: 'sm',
+            variant: 'primary',
+            disabled: running,
+            hxPost: '/__concave/api/search/reindex/' + resourcePath(info.resource),
+            hxTarget: 'closest tr',
+            hxSwap: 'outerHTML',
+            hxConfirm: 'Rebuild the search index for ' + info.resource + '?',
+          })}
+          ${button('Check', {
+            size: 'sm',
+            variant: 'secondary',
+            hxGet: '/__concave/api/search/consistency/' + resourcePath(info.resource),
+            hxTarget: '#search-consistency',
+            hxSwap: 'innerHTML',
+          })}
+        </div>
+      </td>
+    </tr>
+  `;
+};
+
+const indicesCard = (indices: SearchIndexInfo[]): string => card({
+  title: 'Indices',
+  headerRight: badge(indices.length + ' resources', 'neutral'),
+  flush: true,
+}, html`
+  ${indices.length > 0 ? html`
+    <div style="overflow-x: auto;">
+      <table class="table">
+        <thead>
+          <tr>
+            <th>Resource</th>
+            <th>Index</th>
+            <th>Last Reindex</th>
+            <th>Progress</th>
+            <th>Started</th>
+            <th></th>
+          </tr>
+        </thead>
+        <tbody>
+          ${indices.map(searchIndexRow).join('')}
+        </tbody>
+      </table>
+    </div>
+  ` : emptyState('\u2315', 'No searchable resources', 'Resources appear here once mounted with search enabled')}
+
+  <div id="search-consistency" style="border-top: 1px solid var(--border);"></div>
+`);
+
+const idList = (label: string, ids: string[]): string => ids.length > 0 ? html`
+  <h5 style="font-size: 12px; color: var(--text-2); margin: 8px 0;">${label} (${ids.length})</h5>
+  <div class="code" style="max-height: 160px; overflow-y: auto;">
+    ${escapeHtml(ids.slice(0, MAX_LISTED_IDS).join(', '))}${ids.length > MAX_LISTED_IDS ? ', \u2026' : ''}
+  </div>
+` : '';
+
+export const searchConsistencyDetail = (resource: string, indices: IndexConsistencyInfo[]): string => html`
+  <div style="padding: 16px;">
+    <div style="display: flex; justify-content: space-between; align-items: center; margin-bottom: 12px;">
+      <h4 style="font-weight: 600;">Consistency of ${escapeHtml(resource)}</h4>
+      ${button('\u2715', {
+        size: 'sm',
+        variant: 'ghost',
+        hxGet: '/__concave/ui/empty',
+        hxTarget: '#search-consistency',
+        hxSwap: 'innerHTML',
+      })}
+    </div>
+
+    ${indices.map(index => html`
+      <div style="margin-bottom: 12px;">
+        <div style="display: flex; gap: 8px; align-items: center;">
+          <span class="code-inline">${escapeHtml(index.index)}</span>
+          ${index.missing.length === 0 && index.extra.length === 0
+            ? badge('consistent', 'success')
+            : badge('out of sync', 'warning')}
+          <span style="font-size: 12px; color: var(--text-2);">
+            ${index.dbCount} rows, ${index.indexCount} documents
+          </span>
+        </div>
+        ${idList('Missing from index', index.missing)}
+        ${idList('Not in database', index.extra)}
+      </div>
+    `).join('')}
+  </div>
+`;
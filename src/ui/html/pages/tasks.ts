@@ -35,11 +35,28 @@ export interface WorkerInfo {
   currentTask?: string;
 }
 
+export interface WorkflowStepInfo {
+  id: string;
+  taskName: string;
+  status: string;
+  dependsOn: string[];
+}
+
+export interface WorkflowInfo {
+  id: string;
+  name?: string;
+  status: string;
+  createdAt: string;
+  error?: string;
+  steps: WorkflowStepInfo[];
+}
+
 export interface TasksPageData {
   stats: TaskQueueStats;
   scheduled: ScheduledTask[];
   dlq: DLQEntry[];
   workers: WorkerInfo[];
+  workflows?: WorkflowInfo[];
 }
 
 export const tasksPage = (data: TasksPageData): string => html`
@@ -68,6 +85,12 @@ export const tasksPage = (data: TasksPageData): string => html`
   <div style="margin-top: 16px;">
     ${dlqCard(data.dlq)}
   </div>
+
+  ${data.workflows ? html`
+    <div style="margin-top: 16px;">
+      ${workflowsCard(data.workflows)}
+    </div>
+  ` : ''}
 `;
 
 const workersCard = (workers: WorkerInfo[]): string => card({
@@ -272,3 +295,96 @@ export const dlqDetail = (data: DLQDetailData): string => html`
     </div>
   </div>
 `;
+
+const workflowsCard = (workflows: WorkflowInfo[]): string => card({
+  title: 'Workflows',
+  headerRight: badge(workflows.length + ' workflows', 'neutral'),
+  flush: true,
+}, html`
+  ${workflows.length > 0 ? html`
+    <div style="max-height: 600px; overflow-y: auto;">
+      ${workflows.map(workflow => html`
+        <div class="list-item" style="flex-direction: column; align-items: stretch; gap: 8px;">
+          <div style="display: flex; align-items: center; gap: 8px;">
+            <span style="font-weight: 500; font-size: 13px;">${escapeHtml(workflow.name ?? workflow.id)}</span>
+            ${workflowStatusBadge(workflow.status)}
+            <span style="flex: 1;"></span>
+            <span style="font-size: 12px; color: var(--text-2);">${formatRelativeTime(workflow.createdAt)}</span>
+            ${workflow.status === 'running' || workflow.status === 'dead' ? button('Cancel', {
+              size: 'sm',
+              variant: 'ghost',
+              hxPost: '/__concave/api/tasks/workflows/' + workflow.id + '/cancel',
+              hxConfirm: 'Cancel this workflow and its queued steps?',
+            }) : ''}
+          </div>
+          ${workflow.error ? html`
+            <div style="color: var(--error); font-size: 12px;">${escapeHtml(workflow.error)}</div>
+          ` : ''}
+          ${workflowGraph(workflow.steps)}
+        </div>
+      `).join('')}
+    </div>
+  ` : emptyState('\u{1F500}', 'No workflows', 'Workflows will appear when started')}
+`);
+
+// Lays steps out in columns by their longest chain of dependencies, so every
+// step sits to the right of the steps it waits for
+const workflowGraph = (steps: WorkflowStepInfo[]): string => {
+  const byId = new Map(steps.map(step => [step.id, step]));
+  const depths = new Map<string, number>();
+  const depthOf = (step: WorkflowStepInfo): number => {
+    const known = depths.get(step.id);
+    if (known !== undefined) return known;
+    depths.set(step.id, 0);
+    const depth = Math.max(-1, ...step.dependsOn.map(id => {
+      const parent = byId.get(id);
+      return parent ? depthOf(parent) : -1;
+    })) + 1;
+    depths.set(step.id, depth);
+    return depth;
+  };
+
+  const columns: WorkflowStepInfo[][] = [];
+  for (const step of steps) {
+    (columns[depthOf(step)] ??= []).push(step);
+  }
+
+  return html`
+    <div style="display: flex; align-items: center; gap: 8px; overflow-x: auto; padding-bottom: 4px;">
+      ${columns.map((column, index) => html`
+        ${index > 0 ? html`<div style="color: var(--text-3);">\u2192</div>` : ''}
+        <div style="display: flex; flex-direction: column; gap: 6px;">
+          ${column.map(step => html`
+            <div style="padding: 6px 10px; background: var(--bg-2); border-radius: 6px; border-left: 3px solid ${stepStatusColor(step.status)}; font-size: 12px; min-width: 120px;">
+              <div style="font-weight: 500;">${escapeHtml(step.id)}</div>
+              <div class="code-inline">${escapeHtml(step.taskName)}</div>
+              ${step.dependsOn.length > 0 ? html`
+                <div style="color: var(--text-3); margin-top: 2px;">after ${escapeHtml(step.dependsOn.join(', '))}</div>
+              ` : ''}
+            </div>
+          `).join('')}
+        </div>
+      `).join('')}
+    </div>
+  `;
+};
+
+const stepStatusColor = (status: string): string => {
+  switch (status) {
+    case 'completed': return 'var(--success)';
+    case 'queued': return 'var(--info)';
+    case 'ready': return 'var(--warning)';
+    case 'dead': return 'var(--error)';
+    default: return 'var(--text-3)';
+  }
+};
+
+const workflowStatusBadge = (status: string): string => {
+  switch (status) {
+    case 'running': return badge('Running', 'info');
+    case 'completed': return badge('Completed', 'success');
+    case 'dead': return badge('Dead', 'error');
+    case 'cancelled': return badge('Cancelled', 'neutral');
+    default: return badge(status, 'neutral');
+  }
+};
@@ -0,0 +1,194 @@
+import { html, escapeHtml, formatRelativeTime, formatJson } from '../utils';
+import { card, badge, button, statCard, emptyState, grid, BadgeVariant } from '../components';
+
+export interface WebhookEndpointInfo {
+  id: string;
+  resource: string;
+  url: string;
+  events: string[];
+  filter?: string;
+  enabled: boolean;
+}
+
+export interface WebhookDeliveryInfo {
+  id: string;
+  endpointId: string;
+  url: string;
+  event: string;
+  resource: string;
+  objectId: string;
+  status: 'pending' | 'retrying' | 'succeeded' | 'failed';
+  attempts: number;
+  responseStatus?: number;
+  error?: string;
+  redeliveryOf?: string;
+  createdAt: string;
+  payload?: unknown;
+}
+
+export interface WebhooksPageData {
+  enabled: boolean;
+  endpoints: WebhookEndpointInfo[];
+  deliveries: WebhookDeliveryInfo[];
+}
+
+export const webhooksPage = (data: WebhooksPageData): string => {
+  const count = (status: WebhookDeliveryInfo['status']) =>
+    data.deliveries.filter(d => d.status === status).length;
+
+  return html`
+    <div class="page-header">
+      <h1 class="page-title">Webhooks</h1>
+      <p class="page-desc">Outbound deliveries driven by the changelog</p>
+    </div>
+
+    ${data.enabled ? html`
+      ${grid([
+        statCard('Endpoints', data.endpoints.length, 'neutral'),
+        statCard('Pending', count('pending') + count('retrying'), 'info'),
+        statCard('Succeeded', count('succeeded'), 'success'),
+        statCard('Failed', count('failed'), count('failed') > 0 ? 'error' : 'neutral'),
+      ], 4)}
+
+      <div style="margin-top: 16px;">
+        ${endpointsCard(data.endpoints)}
+      </div>
+
+      <div style="margin-top: 16px;">
+        ${deliveriesCard(data.deliveries)}
+      </div>
+    ` : emptyState('\u21AA', 'Webhooks Disabled', 'Pass a webhook manager to the admin UI to see deliveries')}
+  `;
+};
+
+const endpointsCard = (endpoints: WebhookEndpointInfo[]): string => card({
+  title: 'Endpoints',
+  headerRight: badge(endpoints.length + ' endpoints', 'neutral'),
+  flush: true,
+}, html`
+  ${endpoints.length > 0 ? html`
+    <table class="table">
+      <thead>
+        <tr>
+          <th>Resource</th>
+          <th>URL</th>
+          <th>Events</th>
+          <th>Filter</th>
+          <th></th>
+        </tr>
+      </thead>
+      <tbody>
+        ${endpoints.map(endpoint => html`
+          <tr>
+            <td><span class="code-inline">${escapeHtml(endpoint.resource)}</span></td>
+            <td style="font-size: 12px;">${escapeHtml(endpoint.url)}</td>
+            <td>${endpoint.events.map(e => badge(e, 'neutral')).join(' ')}</td>
+            <td>${endpoint.filter ? html`<span class="code-inline">${escapeHtml(endpoint.filter)}</span>` : ''}</td>
+            <td>${endpoint.enabled ? badge('Enabled', 'success') : badge('Disabled', 'neutral')}</td>
+          </tr>
+        `).join('')}
+      </tbody>
+    </table>
+  ` : emptyState('\u21AA', 'No endpoints', 'Register endpoints with webhooks.register()')}
+`);
+
+const deliveryStatusVariant = (status: WebhookDeliveryInfo['status']): BadgeVariant => {
+  switch (status) {
+    case 'succeeded': return 'success';
+    case 'failed': return 'error';
+    case 'retrying': return 'warning';
+    default: return 'info';
+  }
+};
+
+export const webhookDeliveryRow = (delivery: WebhookDeliveryInfo): string => html`
+  <tr>
+    <td>
+      <span class="code-inline">${escapeHtml(delivery.resource + '.' + delivery.event)}</span>
+      <div style="font-size: 12px; color: var(--text-2);">#${escapeHtml(delivery.objectId)}</div>
+    </td>
+    <td style="font-size: 12px;">${escapeHtml(delivery.url)}</td>
+    <td>
+      ${badge(delivery.status, deliveryStatusVariant(delivery.status))}
+      ${delivery.redeliveryOf ? badge('redelivery', 'neutral') : ''}
+    </td>
+    <td>${delivery.responseStatus ? badge(delivery.responseStatus, delivery.responseStatus < 400 ? 'success' : 'error') : ''}</td>
+    <td>${badge(delivery.attempts + 'x', 'neutral')}</td>
+    <td style="color: var(--text-2); font-size: 12px; white-space: nowrap;">
+      ${formatRelativeTime(delivery.createdAt)}
+    </td>
+    <td>
+      <div style="display: flex; gap: 4px;">
+        ${button('Redeliver', {
+          size: 'sm',
+          variant: 'primary',
+          hxPost: '/__concave/api/webhooks/deliveries/' + encodeURIComponent(delivery.id) + '/redeliver',
+          hxTarget: '#webhook-deliveries tbody',
+          hxSwap: 'afterbegin',
+        })}
+        ${button('Details', {
+          size: 'sm',
+          variant: 'secondary',
+          hxGet: '/__concave/ui/webhooks/deliveries/' + encodeURIComponent(delivery.id),
+          hxTarget: '#webhook-delivery-detail',
+          hxSwap: 'innerHTML',
+        })}
+      </div>
+    </td>
+  </tr>
+`;
+
+const deliveriesCard = (deliveries: WebhookDeliveryInfo[]): string => card({
+  title: 'Delivery Log',
+  headerRight: badge(deliveries.length + ' deliveries', 'neutral'),
+  flush: true,
+}, html`
+  ${deliveries.length > 0 ? html`
+    <div style="overflow-x: auto;">
+      <table class="table" id="webhook-deliveries">
+        <thead>
+          <tr>
+            <th>Event</th>
+            <th>URL</th>
+            <th>Status</th>
+            <th>Response</th>
+            <th>Attempts</th>
+            <th>Created</th>
+            <th></th>
+          </tr>
+        </thead>
+        <tbody>
+          ${deliveries.map(webhookDeliveryRow).join('')}
+        </tbody>
+      </table>
+    </div>
+  ` : emptyState('\u2709', 'No deliveries yet', 'Deliveries appear as matching changes are recorded')}
+
+  <div id="webhook-delivery-detail" style="border-top: 1px solid var(--border);"></div>
+`);
+
+export const webhookDeliveryDetail = (delivery: WebhookDeliveryInfo): string => html`
+  <div style="padding: 16px;">
+    <div style="display: flex; justify-content: space-between; align-items: center; margin-bottom: 12px;">
+      <h4 style="font-weight: 600;">Delivery ${escapeHtml(delivery.id)}</h4>
+      ${button('\u2715', {
+        size: 'sm',
+        variant: 'ghost',
+        hxGet: '/__concave/ui/empty',
+        hxTarget: '#webhook-delivery-detail',
+        hxSwap: 'innerHTML',
+      })}
+    </div>
+
+    ${delivery.error ? html`
+      <div class="code" style="background: var(--error-bg); color: var(--error); margin-bottom: 12px;">
+        ${escapeHtml(delivery.error)}
+      </div>
+    ` : ''}
+
+    <h5 style="font-size: 12px; color: var(--text-2); margin-bottom: 8px;">Payload</h5>
+    <div class="code" style="max-height: 300px; overflow-y: auto;">
+      ${escapeHtml(formatJson(delivery.payload))}
+    </div>
+  </div>
+`;
@@ -38,5 +38,9 @@ export { createDataExplorerRoutes } from "./data-explorer";
 export type { DataExplorerConfig } from "./data-explorer";
 export { createTaskMonitorRoutes } from "./task-monitor";
 export type { TaskMonitorConfig } from "./task-monitor";
+export { createWebhookMonitorRoutes } from "./webhook-monitor";
+export type { WebhookMonitorConfig } from "./webhook-monitor";
+export { createSearchMonitorRoutes } from "./search-monitor";
+export type { SearchMonitorConfig } from "./search-monitor";
 export { createKVInspectorRoutes } from "./kv-inspector";
 export type { KVInspectorConfig } from "./kv-inspector";
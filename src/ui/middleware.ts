@@ -15,6 +15,18 @@ import {
 import { createDataExplorerRoutes, DataExplorerConfig } from "./data-explorer";
 import { createTaskMonitorRoutes, TaskMonitorConfig } from "./task-monitor";
 import { createKVInspectorRoutes, KVInspectorConfig } from "./kv-inspector";
+import {
+  createWebhookMonitorRoutes,
+  WebhookMonitorConfig,
+  toWebhookDeliveryInfo,
+  toWebhookEndpointInfo,
+} from "./webhook-monitor";
+import {
+  createSearchMonitorRoutes,
+  SearchMonitorConfig,
+  getSearchIndexInfos,
+  getSearchIndexInfo,
+} from "./search-monitor";
 import { layout } from "./html/layout";
 import * as pages from "./html/pages";
 import { html, escapeHtml, formatRelativeTime, formatDuration, formatJson } from "./html/utils";
@@ -50,6 +62,8 @@ export interface AdminUIConfig {
   dataExplorer?: DataExplorerConfig;
   taskMonitor?: TaskMonitorConfig;
   kvInspector?: KVInspectorConfig;
+  webhooks?: WebhookMonitorConfig;
+  search?: SearchMonitorConfig;
 }
 
 interface RequestLog {
@@ -120,6 +134,16 @@ export const createAdminUI = (config: AdminUIConfig = {}): Router => {
     router.use("/api/kv", adminAuth, kvInspectorRouter);
   }
 
+  if (config.webhooks?.enabled) {
+    const webhookMonitorRouter = createWebhookMonitorRoutes(config.webhooks);
+    router.use("/api/webhooks", adminAuth, webhookMonitorRouter);
+  }
+
+  if (config.search?.enabled) {
+    const searchMonitorRouter = createSearchMonitorRoutes(config.search);
+    router.use("/api/search", adminAuth, searchMonitorRouter);
+  }
+
   // Admin audit log endpoint
   router.get("/api/admin-audit", adminAuth, (req: Request, res: Response) => {
     const limit = parseInt(String(req.query.limit)) || 100;
@@ -169,6 +193,8 @@ export const createAdminUI = (config: AdminUIConfig = {}): Router => {
         dataExplorerReadOnly,
         taskMonitor: config.taskMonitor?.enabled ?? false,
         kvInspector: config.kvInspector?.enabled ?? false,
+        webhooks: config.webhooks?.enabled ?? false,
+        search: config.search?.enabled ?? false,
         authRequired: config.security?.auth?.disabled !== true,
       },
     });
@@ -734,11 +760,23 @@ export const createAdminUI = (config: AdminUIConfig = {}): Router => {
 
   // Tasks
   router.get("/ui/tasks", async (req: Request, res: Response) => {
+    const workflows = config.taskMonitor?.workflows
+      ? (await config.taskMonitor.workflows.list(20)).map((w) => ({
+          id: w.id,
+          name: w.name,
+          status: w.status,
+          createdAt: new Date(w.createdAt).toISOString(),
+          error: w.error,
+          steps: w.steps,
+        }))
+      : undefined;
+
     const content = pages.tasksPage({
       stats: { pending: 0, scheduled: 0, running: 0, completed: 0, failed: 0, dlq: 0 },
       scheduled: [],
       dlq: [],
       workers: [],
+      workflows,
     });
 
     sendHtml(req, res, 'tasks', content);
@@ -753,6 +791,54 @@ export const createAdminUI = (config: AdminUIConfig = {}): Router => {
     sendHtml(req, res, 'kv-inspector', content);
   });
 
+  // Webhooks
+  router.get("/ui/webhooks", async (req: Request, res: Response) => {
+    const manager = config.webhooks?.enabled ? config.webhooks.manager : undefined;
+    const [endpoints, deliveries] = manager
+      ? await Promise.all([manager.listEndpoints(), manager.listDeliveries({ limit: 100 })])
+      : [[], []];
+
+    const content = pages.webhooksPage({
+      enabled: !!manager,
+      endpoints: endpoints.map(toWebhookEndpointInfo),
+      deliveries: deliveries.map(toWebhookDeliveryInfo),
+    });
+    sendHtml(req, res, 'webhooks', content);
+  });
+
+  router.get("/ui/webhooks/deliveries/:id", async (req: Request, res: Response) => {
+    const manager = config.webhooks?.enabled ? config.webhooks.manager : undefined;
+    const delivery = manager ? await manager.getDelivery(req.params.id as string) : null;
+
+    if (!delivery) {
+      res.status(404).send(emptyState('\u2709', 'Delivery not found', 'It may have been trimmed from the log'));
+      return;
+    }
+
+    res.send(pages.webhookDeliveryDetail(toWebhookDeliveryInfo(delivery)));
+  });
+
+  // Search
+  router.get("/ui/search", async (req: Request, res: Response) => {
+    const enabled = config.search?.enabled ?? false;
+    const content = pages.searchPage({
+      enabled,
+      indices: enabled ? await getSearchIndexInfos() : [],
+    });
+    sendHtml(req, res, 'search', content);
+  });
+
+  router.get("/ui/search/indices/:resource", async (req: Request, res: Response) => {
+    const info = config.search?.enabled ? await getSearchIndexInfo(req.params.resource as string) : null;
+
+    if (!info) {
+      res.status(404).send(emptyState('\u2315', 'Index not found', 'The resource has no search index'));
+      return;
+    }
+
+    res.send(pages.searchIndexRow(info));
+  });
+
   // Admin Audit
   router.get("/ui/admin-audit", (req: Request, res: Response) => {
     const entries = getAdminAuditLog(100, 0);
@@ -1,5 +1,13 @@
 import { Table, TableConfig, getTableColumns, AnyColumn } from "drizzle-orm";
-import { ResourceConfig, DrizzleDatabase, RelationsConfig, FieldPolicies, ResourceCapabilities } from "@/resource/types";
+import {
+  ResourceConfig,
+  DrizzleDatabase,
+  RelationsConfig,
+  FieldPolicies,
+  FieldPoliciesResolver,
+  ResourceCapabilities,
+  ResourceSearchConfig,
+} from "@/resource/types";
 
 export interface SchemaRegistryEntry {
   name: string;
@@ -16,6 +24,13 @@ export interface SchemaRegistryEntry {
     procedures?: string[];
     generatedFields?: string[];
     fields?: FieldPolicies;
+    // As configured, resolver included, for readers without a request
+    fieldPolicies?: FieldPolicies | FieldPoliciesResolver;
+    // Present when the resource has a /search endpoint; `indexName` is
+    // resolved to the index (or alias) documents are written to
+    search?: ResourceSearchConfig & { indexName: string };
+    tenantColumn?: AnyColumn;
+    softDeleteColumn?: AnyColumn;
   };
 }
 
@@ -0,0 +1,143 @@
+import { Router, Request, Response } from "express";
+import { ResourceError } from "@/resource/error";
+import {
+  checkIndexConsistency,
+  enqueueReindex,
+  getReindexProgress,
+  reindexResource,
+  ReindexProgress,
+  SearchReindexTaskInput,
+} from "@/search/reindex";
+import { TaskDefinition, TaskScheduler } from "@/tasks";
+import { logAdminAction, getAdminUser, requireAdminUser } from "./admin-auth";
+import { getAllResourceSchemas, getResourceSchema } from "./schema-registry";
+import { searchIndexRow, searchConsistencyDetail, SearchIndexInfo } from "./html/pages/search";
+
+export interface SearchMonitorConfig {
+  enabled?: boolean;
+  // Reindexes run as tasks when a scheduler is given, and in the admin
+  // process otherwise
+  scheduler?: TaskScheduler;
+  task?: TaskDefinition<SearchReindexTaskInput, ReindexProgress>;
+}
+
+export const getSearchIndexInfos = async (): Promise<SearchIndexInfo[]> => {
+  const entries = getAllResourceSchemas().filter((entry) => entry.config.search);
+  return Promise.all(
+    entries.map(async (entry) => ({
+      resource: entry.name,
+      indexName: entry.config.search!.indexName,
+      progress: await getReindexProgress(entry.name),
+    }))
+  );
+};
+
+export const getSearchIndexInfo = async (resource: string): Promise<SearchIndexInfo | null> => {
+  const entry = getResourceSchema(resource);
+  if (!entry?.config.search) return null;
+  return {
+    resource: entry.name,
+    indexName: entry.config.search.indexName,
+    progress: await getReindexProgress(entry.name),
+  };
+};
+
+const sendError = (res: Response, title: string, error: unknown) => {
+  const status = error instanceof ResourceError ? error.statusCode : 500;
+  res.status(status).json({
+    type: error instanceof ResourceError ? error.getType() : "/__concave/problems/internal-error",
+    title,
+    status,
+    detail: error instanceof Error ? error.message : "Unknown error",
+  });
+};
+
+export const createSearchMonitorRoutes = (config: SearchMonitorConfig = {}): Router => {
+  const router = Router();
+
+  if (!config.enabled) {
+    router.use((_req: Request, res: Response) => {
+      res.json({ enabled: false });
+    });
+    return router;
+  }
+
+  router.get("/indices", async (_req: Request, res: Response) => {
+    try {
+      res.json({ enabled: true, indices: await getSearchIndexInfos() });
+    } catch (error) {
+      sendError(res, "Failed to fetch search indices", error);
+    }
+  });
+
+  router.post("/reindex/:resource", async (req: Request, res: Response) => {
+    const adminUser = requireAdminUser(req, res);
+    if (!adminUser) return;
+
+    const resource = req.params.resource as string;
+
+    try {
+      const progress = config.scheduler
+        ? await enqueueReindex(config.scheduler, resource, config.task)
+        : await new Promise<ReindexProgress>((resolve, reject) => {
+            // Answers once the run has started; later failures are
+            // recorded in its progress
+            reindexResource(resource, { onProgress: resolve }).catch(reject);
+          });
+
+      logAdminAction({
+        userId: adminUser.id,
+        userEmail: adminUser.email,
+        operation: "search_reindex",
+        resource,
+        reason: "Admin started search reindex",
+        details: { taskId: progress.taskId },
+      });
+
+      if (req.headers["hx-request"] === "true") {
+        const info = await getSearchIndexInfo(resource);
+        res.setHeader("Content-Type", "text/html");
+        res.send(info ? searchIndexRow(info) : "");
+        return;
+      }
+
+      res.status(202).json({ progress });
+    } catch (error) {
+      sendError(res, "Failed to start reindex", error);
+    }
+  });
+
+  router.get("/consistency/:resource", async (req: Request, res: Response) => {
+    const adminUser = getAdminUser(req);
+    const resource = req.params.resource as string;
+
+    try {
+      const report = await checkIndexConsistency(resource, {
+        tenant: req.query.tenant as string | undefined,
+      });
+
+      if (adminUser) {
+        logAdminAction({
+          userId: adminUser.id,
+          userEmail: adminUser.email,
+          operation: "search_consistency_check",
+          resource,
+          reason: "Admin checked search index consistency",
+          details: { consistent: report.consistent },
+        });
+      }
+
+      if (req.headers["hx-request"] === "true") {
+        res.setHeader("Content-Type", "text/html");
+        res.send(searchConsistencyDetail(report.resource, report.indices));
+        return;
+      }
+
+      res.json(report);
+    } catch (error) {
+      sendError(res, "Failed to check index consistency", error);
+    }
+  });
+
+  return router;
+};
@@ -1,6 +1,7 @@
 import { Router, Request, Response } from "express";
 import { TaskScheduler, TaskRegistry, TaskWorker } from "@/tasks";
 import { DeadLetterQueue } from "@/tasks/dlq";
+import { WorkflowManager } from "@/tasks/workflow";
 import { logAdminAction, getAdminUser, requireAdminUser } from "./admin-auth";
 
 export interface TaskMonitorConfig {
@@ -9,6 +10,7 @@ export interface TaskMonitorConfig {
   registry?: TaskRegistry;
   dlq?: DeadLetterQueue;
   workers?: TaskWorker[];
+  workflows?: WorkflowManager;
 }
 
 export const createTaskMonitorRoutes = (config: TaskMonitorConfig = {}): Router => {
@@ -278,6 +280,92 @@ export const createTaskMonitorRoutes = (config: TaskMonitorConfig = {}): Router
     }
   });
 
+  router.get("/workflows", async (req: Request, res: Response) => {
+    if (!config.workflows) {
+      res.json({ enabled: false, workflows: [] });
+      return;
+    }
+
+    const limit = parseInt((req.query.limit as string) ?? "50", 10);
+    const offset = parseInt((req.query.offset as string) ?? "0", 10);
+
+    try {
+      const workflows = await config.workflows.list(limit, offset);
+      res.json({ enabled: true, workflows });
+    } catch (error) {
+      res.status(500).json({
+        type: "/__concave/problems/internal-error",
+        title: "Failed to fetch workflows",
+        status: 500,
+        detail: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  });
+
+  router.get("/workflows/:id", async (req: Request, res: Response) => {
+    if (!config.workflows) {
+      res.json({ enabled: false });
+      return;
+    }
+
+    const id = req.params.id as string;
+
+    try {
+      const workflow = await config.workflows.get(id);
+      if (!workflow) {
+        res.status(404).json({
+          type: "/__concave/problems/not-found",
+          title: "Workflow not found",
+          status: 404,
+        });
+        return;
+      }
+
+      res.json({ workflow });
+    } catch (error) {
+      res.status(500).json({
+        type: "/__concave/problems/internal-error",
+        title: "Failed to fetch workflow",
+        status: 500,
+        detail: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  });
+
+  router.post("/workflows/:id/cancel", async (req: Request, res: Response) => {
+    if (!config.workflows) {
+      res.json({ enabled: false });
+      return;
+    }
+
+    const adminUser = requireAdminUser(req, res);
+    if (!adminUser) return;
+
+    const id = req.params.id as string;
+
+    try {
+      const cancelled = await config.workflows.cancel(id);
+
+      logAdminAction({
+        userId: adminUser.id,
+        userEmail: adminUser.email,
+        operation: "workflow_cancel",
+        resourceId: id,
+        reason: "Admin cancelled workflow",
+        details: { success: cancelled },
+      });
+
+      res.json({ cancelled });
+    } catch (error) {
+      res.status(500).json({
+        type: "/__concave/problems/internal-error",
+        title: "Failed to cancel workflow",
+        status: 500,
+        detail: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  });
+
   router.get("/workers", (_req: Request, res: Response) => {
     if (!config.workers || config.workers.length === 0) {
       res.json({ enabled: false, workers: [] });
@@ -297,22 +385,30 @@ export const createTaskMonitorRoutes = (config: TaskMonitorConfig = {}): Router
     }
   });
 
-  router.get("/definitions", (_req: Request, res: Response) => {
+  router.get("/definitions", async (_req: Request, res: Response) => {
     if (!config.registry) {
       res.json({ enabled: false, definitions: [] });
       return;
     }
 
     try {
-      const definitions = config.registry.getAll().map((d) => ({
-        name: d.name,
-        hasInput: !!d.input,
-        hasOutput: !!d.output,
-        priority: d.priority,
-        timeout: d.timeout,
-        maxConcurrency: d.maxConcurrency,
-        retry: d.retry,
-      }));
+      const definitions = await Promise.all(
+        config.registry.getAll().map(async (d) => ({
+          name: d.name,
+          hasInput: !!d.input,
+          hasOutput: !!d.output,
+          priority: d.priority,
+          timeout: d.timeout,
+          maxConcurrency: d.maxConcurrency,
+          // Slots in use across all workers
+          running:
+            d.maxConcurrency !== undefined && config.scheduler
+              ? await config.scheduler.getRunningCount(d.name)
+              : undefined,
+          debounce: d.debounce ? { windowMs: d.debounce.windowMs } : undefined,
+          retry: d.retry,
+        }))
+      );
 
       res.json({ enabled: true, definitions });
     } catch (error) {
@@ -0,0 +1,165 @@
+import { Router, Request, Response } from "express";
+import { WebhookManager, WebhookDelivery, WebhookEndpoint } from "@/webhooks";
+import { logAdminAction, getAdminUser, requireAdminUser } from "./admin-auth";
+import { webhookDeliveryRow, WebhookDeliveryInfo, WebhookEndpointInfo } from "./html/pages/webhooks";
+
+export interface WebhookMonitorConfig {
+  enabled?: boolean;
+  manager?: WebhookManager;
+}
+
+// Secrets never leave the server
+export const toWebhookEndpointInfo = (endpoint: WebhookEndpoint): WebhookEndpointInfo => ({
+  id: endpoint.id,
+  resource: endpoint.resource,
+  url: endpoint.url,
+  events: endpoint.events,
+  filter: endpoint.filter,
+  enabled: endpoint.enabled,
+});
+
+export const toWebhookDeliveryInfo = (delivery: WebhookDelivery): WebhookDeliveryInfo => ({
+  id: delivery.id,
+  endpointId: delivery.endpointId,
+  url: delivery.url,
+  event: delivery.payload.event,
+  resource: delivery.payload.resource,
+  objectId: delivery.payload.objectId,
+  status: delivery.status,
+  attempts: delivery.attempts,
+  responseStatus: delivery.responseStatus,
+  error: delivery.error,
+  redeliveryOf: delivery.redeliveryOf,
+  createdAt: new Date(delivery.createdAt).toISOString(),
+  payload: delivery.payload,
+});
+
+export const createWebhookMonitorRoutes = (config: WebhookMonitorConfig = {}): Router => {
+  const router = Router();
+  const manager = config.manager;
+
+  if (!config.enabled || !manager) {
+    router.use((_req: Request, res: Response) => {
+      res.json({ enabled: false });
+    });
+    return router;
+  }
+
+  router.get("/endpoints", async (_req: Request, res: Response) => {
+    try {
+      const endpoints = await manager.listEndpoints();
+      res.json({ enabled: true, endpoints: endpoints.map(toWebhookEndpointInfo) });
+    } catch (error) {
+      res.status(500).json({
+        type: "/__concave/problems/internal-error",
+        title: "Failed to fetch webhook endpoints",
+        status: 500,
+        detail: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  });
+
+  router.get("/deliveries", async (req: Request, res: Response) => {
+    const adminUser = getAdminUser(req);
+    const limit = parseInt((req.query.limit as string) ?? "50", 10);
+    const offset = parseInt((req.query.offset as string) ?? "0", 10);
+
+    try {
+      const deliveries = await manager.listDeliveries({
+        endpointId: req.query.endpointId as string | undefined,
+        status: req.query.status as WebhookDelivery["status"] | undefined,
+        limit,
+        offset,
+      });
+
+      if (adminUser) {
+        logAdminAction({
+          userId: adminUser.id,
+          userEmail: adminUser.email,
+          operation: "webhook_view_deliveries",
+          reason: "Admin view webhook deliveries",
+        });
+      }
+
+      res.json({ enabled: true, deliveries: deliveries.map(toWebhookDeliveryInfo) });
+    } catch (error) {
+      res.status(500).json({
+        type: "/__concave/problems/internal-error",
+        title: "Failed to fetch webhook deliveries",
+        status: 500,
+        detail: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  });
+
+  router.get("/deliveries/:id", async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+
+    try {
+      const delivery = await manager.getDelivery(id);
+      if (!delivery) {
+        res.status(404).json({
+          type: "/__concave/problems/not-found",
+          title: "Webhook delivery not found",
+          status: 404,
+        });
+        return;
+      }
+
+      res.json({ delivery: toWebhookDeliveryInfo(delivery) });
+    } catch (error) {
+      res.status(500).json({
+        type: "/__concave/problems/internal-error",
+        title: "Failed to fetch webhook delivery",
+        status: 500,
+        detail: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  });
+
+  router.post("/deliveries/:id/redeliver", async (req: Request, res: Response) => {
+    const adminUser = requireAdminUser(req, res);
+    if (!adminUser) return;
+
+    const id = req.params.id as string;
+
+    try {
+      const delivery = await manager.redeliver(id);
+      if (!delivery) {
+        res.status(404).json({
+          type: "/__concave/problems/not-found",
+          title: "Webhook delivery not found",
+          status: 404,
+        });
+        return;
+      }
+
+      logAdminAction({
+        userId: adminUser.id,
+        userEmail: adminUser.email,
+        operation: "webhook_redeliver",
+        resourceId: id,
+        reason: "Admin redelivered webhook",
+        details: { deliveryId: delivery.id },
+      });
+
+      // The admin UI prepends the new delivery to its log
+      if (req.headers["hx-request"] === "true") {
+        res.setHeader("Content-Type", "text/html");
+        res.send(webhookDeliveryRow(toWebhookDeliveryInfo(delivery)));
+        return;
+      }
+
+      res.status(201).json({ delivery: toWebhookDeliveryInfo(delivery) });
+    } catch (error) {
+      res.status(500).json({
+        type: "/__concave/problems/internal-error",
+        title: "Failed to redeliver webhook",
+        status: 500,
+        detail: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  });
+
+  return router;
+};
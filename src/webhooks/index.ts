@@ -0,0 +1,12 @@
+export * from "./types";
+
+export { createWebhookManager, WEBHOOK_DELIVERY_TASK } from "./manager";
+
+export { createWebhookStore } from "./store";
+export type { WebhookStore } from "./store";
+
+export {
+  signWebhookPayload,
+  verifyWebhookSignature,
+  WEBHOOK_SIGNATURE_HEADER,
+} from "./signature";
@@ -0,0 +1,332 @@
+import { Table } from "drizzle-orm";
+import { changelog } from "@/resource/changelog";
+import { createResourceFilter, Filter } from "@/resource/filter";
+import { ChangelogEntry } from "@/resource/types";
+import { createFieldAccess, getSchemaColumns, resolveFieldPolicies } from "@/resource/capabilities";
+import { getResourceSchema } from "@/ui/schema-registry";
+import { defineTask } from "@/tasks/define";
+import { RetryConfig } from "@/tasks/types";
+import { delIfEquals } from "@/kv/types";
+import {
+  WebhookManager,
+  WebhookManagerOptions,
+  WebhookEndpoint,
+  WebhookEndpointConfig,
+  WebhookDelivery,
+  WebhookDeliveryInput,
+  WebhookDeliveryResult,
+  WebhookEventType,
+  WebhookPayload,
+} from "./types";
+import { createWebhookStore } from "./store";
+import { signWebhookPayload, WEBHOOK_SIGNATURE_HEADER } from "./signature";
+
+const CURSOR_KEY = "concave:webhooks:cursor";
+const DISPATCH_LOCK_KEY = "concave:webhooks:dispatch-lock";
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+
+const ALL_EVENTS: WebhookEventType[] = ["create", "update", "delete"];
+
+export const WEBHOOK_DELIVERY_TASK = "webhook:deliver";
+
+type Redact = (object: Record<string, unknown> | undefined) => Record<string, unknown> | undefined;
+
+/**
+ * Delivers changelog entries to registered endpoints. Because it reads the
+ * changelog rather than resource hooks, writes made through `trackMutations`
+ * on a raw Drizzle database trigger webhooks too.
+ *
+ * Each delivery runs as a task, so failed requests are retried with the
+ * task `RetryConfig` backoff and land in the dead letter queue once retries
+ * are exhausted.
+ */
+export const createWebhookManager = (options: WebhookManagerOptions): WebhookManager => {
+  const { kv, scheduler, registry } = options;
+  // The delivery task gets the same attempt count the statuses below are
+  // computed from, so the task runner's own default never applies
+  const maxAttempts = options.retry?.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const retry: RetryConfig = { backoff: "exponential", ...options.retry, maxAttempts };
+  const timeoutMs = options.timeoutMs ?? 10000;
+  const pollIntervalMs = options.pollIntervalMs ?? 1000;
+  const store = createWebhookStore(kv, options.maxLogEntries ?? 1000);
+
+  const filters = new Map<string, Filter>();
+
+  const getFilter = (resource: string): Filter | undefined => {
+    let filter = filters.get(resource);
+    if (!filter) {
+      const table = (options.tables?.[resource] ?? getResourceSchema(resource)?.schema) as
+        | Table
+        | undefined;
+      if (!table) return undefined;
+
+      filter = createResourceFilter(table);
+      filters.set(resource, filter);
+    }
+    return filter;
+  };
+
+  // Payloads leave the app, so they carry only what the resource's read
+  // field policy shows a caller without a user
+  const redactor = async (resource: string): Promise<Redact> => {
+    const entry = getResourceSchema(resource);
+    const policies = await resolveFieldPolicies(entry?.config.fieldPolicies, null);
+    if (!entry || !policies) return (object) => object;
+
+    const access = createFieldAccess(policies, getSchemaColumns(entry.schema));
+    return (object) => object && access.redact(object);
+  };
+
+  const matches = (endpoint: WebhookEndpoint, entry: ChangelogEntry): boolean => {
+    if (!endpoint.enabled) return false;
+    if (endpoint.resource !== entry.resource) return false;
+    if (!endpoint.events.includes(entry.type)) return false;
+    if (endpoint.tenant !== undefined && endpoint.tenant !== entry.tenant) return false;
+    if (!endpoint.filter) return true;
+
+    // Deletes are matched against the row as it was before removal
+    const object = entry.type === "delete" ? entry.previousObject : entry.object;
+    const filter = getFilter(entry.resource);
+    if (!object || !filter) return false;
+
+    try {
+      return filter.execute(endpoint.filter, object as never);
+    } catch {
+      return false;
+    }
+  };
+
+  const task = defineTask<WebhookDeliveryInput, WebhookDeliveryResult>({
+    name: WEBHOOK_DELIVERY_TASK,
+    retry,
+    timeout: timeoutMs + 1000,
+    idempotencyKey: (input) => `webhook:${input.deliveryId}`,
+    handler: async (ctx, input) => {
+      const delivery = await store.getDelivery(input.deliveryId);
+      if (!delivery) {
+        throw new Error(`Webhook delivery ${input.deliveryId} not found`);
+      }
+
+      const endpoint = await store.getEndpoint(delivery.endpointId);
+      if (!endpoint) {
+        await store.updateDelivery(delivery.id, {
+          status: "failed",
+          error: "Endpoint no longer registered",
+        });
+        throw new Error(`Webhook endpoint ${delivery.endpointId} not found`);
+      }
+
+      const body = JSON.stringify(delivery.payload);
+
+      try {
+        const response = await fetch(endpoint.url, {
+          method: "POST",
+          headers: {
+            ...endpoint.headers,
+            "Content-Type": "application/json",
+            "X-Concave-Webhook-Id": delivery.id,
+            "X-Concave-Event": `${delivery.payload.resource}.${delivery.payload.event}`,
+            [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(endpoint.secret, body),
+          },
+          body,
+          signal: AbortSignal.timeout(timeoutMs),
+        });
+
+        if (!response.ok) {
+          await store.updateDelivery(delivery.id, {
+            status: ctx.attempt >= maxAttempts ? "failed" : "retrying",
+            attempts: ctx.attempt,
+            responseStatus: response.status,
+            error: `Endpoint responded with ${response.status}`,
+          });
+          throw new Error(`Webhook endpoint responded with ${response.status}`);
+        }
+
+        await store.updateDelivery(delivery.id, {
+          status: "succeeded",
+          attempts: ctx.attempt,
+          responseStatus: response.status,
+          error: undefined,
+        });
+        return { status: response.status };
+      } catch (error) {
+        const current = await store.getDelivery(delivery.id);
+        if (current && current.attempts < ctx.attempt) {
+          // Network error or timeout: nothing was recorded yet for this attempt
+          await store.updateDelivery(delivery.id, {
+            status: ctx.attempt >= maxAttempts ? "failed" : "retrying",
+            attempts: ctx.attempt,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+        throw error;
+      }
+    },
+  });
+
+  registry.register(task);
+
+  const enqueueDelivery = async (delivery: WebhookDelivery): Promise<WebhookDelivery> => {
+    const taskId = await scheduler.enqueue(task, { deliveryId: delivery.id });
+    return (await store.updateDelivery(delivery.id, { taskId })) ?? delivery;
+  };
+
+  let pollTimer: NodeJS.Timeout | null = null;
+
+  return {
+    task,
+
+    async register(config: WebhookEndpointConfig): Promise<WebhookEndpoint> {
+      const existing = config.id ? await store.getEndpoint(config.id) : null;
+      const endpoint: WebhookEndpoint = {
+        id: config.id ?? crypto.randomUUID(),
+        resource: config.resource,
+        url: config.url,
+        secret: config.secret,
+        events: config.events ?? ALL_EVENTS,
+        filter: config.filter,
+        headers: config.headers,
+        tenant: config.tenant,
+        enabled: config.enabled ?? true,
+        createdAt: existing?.createdAt ?? Date.now(),
+      };
+
+      await store.saveEndpoint(endpoint);
+      return endpoint;
+    },
+
+    unregister: (id) => store.deleteEndpoint(id),
+
+    getEndpoint: (id) => store.getEndpoint(id),
+
+    async listEndpoints(resource?: string): Promise<WebhookEndpoint[]> {
+      const endpoints = await store.listEndpoints();
+      return resource ? endpoints.filter((e) => e.resource === resource) : endpoints;
+    },
+
+    async dispatch(entries: ChangelogEntry[]): Promise<number> {
+      const endpoints = await store.listEndpoints();
+      const redactors = new Map<string, Redact>();
+      let dispatched = 0;
+
+      for (const entry of entries) {
+        for (const endpoint of endpoints) {
+          if (!matches(endpoint, entry)) continue;
+
+          let redact = redactors.get(entry.resource);
+          if (!redact) {
+            redact = await redactor(entry.resource);
+            redactors.set(entry.resource, redact);
+          }
+
+          // One delivery per endpoint and changelog entry, even if dispatched twice
+          const id = `${endpoint.id}:${entry.seq}`;
+          const payload: WebhookPayload = {
+            id,
+            event: entry.type,
+            resource: entry.resource,
+            objectId: entry.objectId,
+            seq: entry.seq,
+            timestamp: entry.timestamp,
+            object: redact(entry.object),
+            previousObject: redact(entry.previousObject),
+            tenant: entry.tenant,
+          };
+          const now = Date.now();
+          const delivery: WebhookDelivery = {
+            id,
+            endpointId: endpoint.id,
+            url: endpoint.url,
+            payload,
+            status: "pending",
+            attempts: 0,
+            createdAt: now,
+            updatedAt: now,
+          };
+
+          if (await store.addDelivery(delivery)) {
+            await enqueueDelivery(delivery);
+            dispatched++;
+          }
+        }
+      }
+
+      return dispatched;
+    },
+
+    // Consumes changelog entries recorded since the last poll. Only one
+    // process dispatches at a time; the cursor lives in KV so a restart
+    // picks up where the last dispatcher stopped.
+    async poll(): Promise<number> {
+      const owner = crypto.randomUUID();
+      await kv.set(DISPATCH_LOCK_KEY, owner, { nx: true, ex: 30 });
+      if ((await kv.get(DISPATCH_LOCK_KEY)) !== owner) return 0;
+
+      try {
+        const cursor = await kv.get(CURSOR_KEY);
+        if (cursor === null) {
+          await kv.set(CURSOR_KEY, String(await changelog.getCurrentSequence()));
+          return 0;
+        }
+
+        const entries = await changelog.getAllEntriesSince(parseInt(cursor, 10));
+        if (entries.length === 0) return 0;
+
+        const dispatched = await this.dispatch(entries);
+        await kv.set(CURSOR_KEY, String(entries[entries.length - 1]!.seq));
+        return dispatched;
+      } finally {
+        // A poll that outlived the lock must not drop the next holder's
+        await delIfEquals(kv, DISPATCH_LOCK_KEY, owner);
+      }
+    },
+
+    async start(): Promise<void> {
+      if (pollTimer) return;
+
+      // Deliver only changes made from now on
+      if ((await kv.get(CURSOR_KEY)) === null) {
+        await kv.set(CURSOR_KEY, String(await changelog.getCurrentSequence()));
+      }
+
+      pollTimer = setInterval(() => {
+        this.poll().catch((err) => console.error("Webhook dispatch error:", err));
+      }, pollIntervalMs);
+    },
+
+    stop(): void {
+      if (pollTimer) {
+        clearInterval(pollTimer);
+        pollTimer = null;
+      }
+    },
+
+    getDelivery: (id) => store.getDelivery(id),
+
+    listDeliveries: (filter) => store.listDeliveries(filter),
+
+    async redeliver(deliveryId: string): Promise<WebhookDelivery | null> {
+      const original = await store.getDelivery(deliveryId);
+      if (!original) return null;
+
+      const endpoint = await store.getEndpoint(original.endpointId);
+      const now = Date.now();
+      const id = crypto.randomUUID();
+      const delivery: WebhookDelivery = {
+        id,
+        endpointId: original.endpointId,
+        url: endpoint?.url ?? original.url,
+        payload: { ...original.payload, id },
+        status: "pending",
+        attempts: 0,
+        redeliveryOf: original.id,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      await store.addDelivery(delivery);
+      return enqueueDelivery(delivery);
+    },
+  };
+};
@@ -0,0 +1,42 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+export const WEBHOOK_SIGNATURE_HEADER = "X-Concave-Signature";
+
+const DEFAULT_TOLERANCE_MS = 5 * 60 * 1000;
+
+const computeSignature = (secret: string, timestamp: number, body: string): string =>
+  createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+
+/**
+ * Builds the signature header value: `t=<unix ms>,v1=<hex HMAC-SHA256>`.
+ * The timestamp is part of the signed content so receivers can reject replays.
+ */
+export const signWebhookPayload = (
+  secret: string,
+  body: string,
+  timestamp: number = Date.now()
+): string => `t=${timestamp},v1=${computeSignature(secret, timestamp, body)}`;
+
+export const verifyWebhookSignature = (
+  secret: string,
+  body: string,
+  header: string | undefined,
+  toleranceMs: number = DEFAULT_TOLERANCE_MS
+): boolean => {
+  if (!header) return false;
+
+  const parts = Object.fromEntries(
+    header.split(",").map((part) => {
+      const index = part.indexOf("=");
+      return [part.slice(0, index).trim(), part.slice(index + 1).trim()];
+    })
+  );
+
+  const timestamp = parseInt(parts.t ?? "", 10);
+  if (!Number.isFinite(timestamp) || !parts.v1) return false;
+  if (Math.abs(Date.now() - timestamp) > toleranceMs) return false;
+
+  const expected = Buffer.from(computeSignature(secret, timestamp, body));
+  const received = Buffer.from(parts.v1);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+};
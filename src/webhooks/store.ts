@@ -0,0 +1,113 @@
+import { KVAdapter } from "@/kv/types";
+import { WebhookEndpoint, WebhookDelivery, WebhookDeliveryFilter } from "./types";
+
+const ENDPOINTS_KEY = "concave:webhooks:endpoints";
+const DELIVERIES_KEY = "concave:webhooks:deliveries";
+const DELIVERY_PREFIX = "concave:webhooks:delivery:";
+
+export interface WebhookStore {
+  saveEndpoint(endpoint: WebhookEndpoint): Promise<void>;
+  deleteEndpoint(id: string): Promise<boolean>;
+  getEndpoint(id: string): Promise<WebhookEndpoint | null>;
+  listEndpoints(): Promise<WebhookEndpoint[]>;
+  addDelivery(delivery: WebhookDelivery): Promise<boolean>;
+  updateDelivery(id: string, update: Partial<WebhookDelivery>): Promise<WebhookDelivery | null>;
+  getDelivery(id: string): Promise<WebhookDelivery | null>;
+  listDeliveries(filter?: WebhookDeliveryFilter): Promise<WebhookDelivery[]>;
+}
+
+export const createWebhookStore = (kv: KVAdapter, maxLogEntries: number): WebhookStore => {
+  const trimLog = async (): Promise<void> => {
+    const count = await kv.zcard(DELIVERIES_KEY);
+    if (count <= maxLogEntries) return;
+
+    const expired = await kv.zrange(DELIVERIES_KEY, 0, count - maxLogEntries - 1);
+    if (expired.length === 0) return;
+
+    await kv.del(...expired.map((id) => `${DELIVERY_PREFIX}${id}`));
+    await kv.zrem(DELIVERIES_KEY, ...expired);
+  };
+
+  return {
+    async saveEndpoint(endpoint: WebhookEndpoint): Promise<void> {
+      await kv.hset(ENDPOINTS_KEY, endpoint.id, JSON.stringify(endpoint));
+    },
+
+    async deleteEndpoint(id: string): Promise<boolean> {
+      return (await kv.hdel(ENDPOINTS_KEY, id)) > 0;
+    },
+
+    async getEndpoint(id: string): Promise<WebhookEndpoint | null> {
+      const data = await kv.hget(ENDPOINTS_KEY, id);
+      return data ? JSON.parse(data) : null;
+    },
+
+    async listEndpoints(): Promise<WebhookEndpoint[]> {
+      const all = await kv.hgetall(ENDPOINTS_KEY);
+      return Object.values(all)
+        .map((data) => JSON.parse(data) as WebhookEndpoint)
+        .sort((a, b) => a.createdAt - b.createdAt);
+    },
+
+    // Returns false when a delivery with this id is already logged
+    async addDelivery(delivery: WebhookDelivery): Promise<boolean> {
+      const key = `${DELIVERY_PREFIX}${delivery.id}`;
+      const data = JSON.stringify(delivery);
+      await kv.set(key, data, { nx: true });
+      if ((await kv.get(key)) !== data) return false;
+
+      await kv.zadd(DELIVERIES_KEY, delivery.createdAt, delivery.id);
+      await trimLog();
+      return true;
+    },
+
+    async updateDelivery(
+      id: string,
+      update: Partial<WebhookDelivery>
+    ): Promise<WebhookDelivery | null> {
+      const key = `${DELIVERY_PREFIX}${id}`;
+      const data = await kv.get(key);
+      if (!data) return null;
+
+      const delivery: WebhookDelivery = {
+        ...(JSON.parse(data) as WebhookDelivery),
+        ...update,
+        updatedAt: Date.now(),
+      };
+      await kv.set(key, JSON.stringify(delivery));
+      return delivery;
+    },
+
+    async getDelivery(id: string): Promise<WebhookDelivery | null> {
+      const data = await kv.get(`${DELIVERY_PREFIX}${id}`);
+      return data ? JSON.parse(data) : null;
+    },
+
+    // Newest first
+    async listDeliveries(filter: WebhookDeliveryFilter = {}): Promise<WebhookDelivery[]> {
+      const limit = filter.limit ?? 50;
+      const offset = filter.offset ?? 0;
+      const ids = (await kv.zrange(DELIVERIES_KEY, 0, -1)).reverse();
+
+      const deliveries: WebhookDelivery[] = [];
+      let skipped = 0;
+
+      for (const id of ids) {
+        if (deliveries.length >= limit) break;
+
+        const delivery = await this.getDelivery(id);
+        if (!delivery) continue;
+        if (filter.endpointId && delivery.endpointId !== filter.endpointId) continue;
+        if (filter.status && delivery.status !== filter.status) continue;
+
+        if (skipped < offset) {
+          skipped++;
+          continue;
+        }
+        deliveries.push(delivery);
+      }
+
+      return deliveries;
+    },
+  };
+};
@@ -0,0 +1,100 @@
+import { Table } from "drizzle-orm";
+import { KVAdapter } from "@/kv/types";
+import { ChangelogEntry } from "@/resource/types";
+import { RetryConfig, TaskDefinition } from "@/tasks/types";
+import { TaskScheduler, TaskRegistry } from "@/tasks/scheduler";
+
+export type WebhookEventType = ChangelogEntry["type"];
+
+export interface WebhookEndpointConfig {
+  id?: string;
+  resource: string;
+  url: string;
+  secret: string;
+  events?: WebhookEventType[];
+  filter?: string;
+  headers?: Record<string, string>;
+  enabled?: boolean;
+  // Only deliver changes of this tenant
+  tenant?: string;
+}
+
+export interface WebhookEndpoint
+  extends Required<Omit<WebhookEndpointConfig, "filter" | "headers" | "tenant">> {
+  filter?: string;
+  headers?: Record<string, string>;
+  tenant?: string;
+  createdAt: number;
+}
+
+export interface WebhookPayload {
+  id: string;
+  event: WebhookEventType;
+  resource: string;
+  objectId: string;
+  seq: number;
+  timestamp: number;
+  object?: Record<string, unknown>;
+  previousObject?: Record<string, unknown>;
+  tenant?: string;
+}
+
+export type WebhookDeliveryStatus = "pending" | "retrying" | "succeeded" | "failed";
+
+export interface WebhookDelivery {
+  id: string;
+  endpointId: string;
+  url: string;
+  payload: WebhookPayload;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus?: number;
+  error?: string;
+  taskId?: string;
+  redeliveryOf?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface WebhookDeliveryFilter {
+  endpointId?: string;
+  status?: WebhookDeliveryStatus;
+  limit?: number;
+  offset?: number;
+}
+
+export interface WebhookDeliveryInput {
+  deliveryId: string;
+}
+
+export interface WebhookDeliveryResult {
+  status: number;
+}
+
+export interface WebhookManagerOptions {
+  kv: KVAdapter;
+  scheduler: TaskScheduler;
+  registry: TaskRegistry;
+  retry?: RetryConfig;
+  timeoutMs?: number;
+  pollIntervalMs?: number;
+  maxLogEntries?: number;
+  // Tables of resources not mounted with useResource (e.g. only tracked
+  // with trackMutations), needed to evaluate endpoint filters
+  tables?: Record<string, Table>;
+}
+
+export interface WebhookManager {
+  task: TaskDefinition<WebhookDeliveryInput, WebhookDeliveryResult>;
+  register(config: WebhookEndpointConfig): Promise<WebhookEndpoint>;
+  unregister(id: string): Promise<boolean>;
+  getEndpoint(id: string): Promise<WebhookEndpoint | null>;
+  listEndpoints(resource?: string): Promise<WebhookEndpoint[]>;
+  dispatch(entries: ChangelogEntry[]): Promise<number>;
+  poll(): Promise<number>;
+  start(): Promise<void>;
+  stop(): void;
+  getDelivery(id: string): Promise<WebhookDelivery | null>;
+  listDeliveries(filter?: WebhookDeliveryFilter): Promise<WebhookDelivery[]>;
+  redeliver(deliveryId: string): Promise<WebhookDelivery | null>;
+}
@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import express, { Express, Request, Response, NextFunction } from "express";
+import request from "supertest";
+import { sqliteTable, text, integer } from "drizzle-orm/sqlite-core";
+import { drizzle } from "drizzle-orm/libsql";
+import { createClient } from "@libsql/client";
+import { useResource } from "@/resource/hook";
+
+const orders = sqliteTable("ag_orders", {
+  id: text("id").primaryKey(),
+  customerId: text("customerId").notNull(),
+  status: text("status").notNull(),
+  total: integer("total").notNull(),
+  createdAt: integer("createdAt", { mode: "timestamp" }).notNull(),
+});
+
+const injectUser = (req: Request, _res: Response, next: NextFunction) => {
+  (req as any).user = { id: "u1", sessionId: "s1", sessionExpiresAt: new Date(Date.now() + 3600000) };
+  next();
+};
+
+const at = (iso: string) => Math.floor(Date.parse(iso) / 1000);
+
+describe("Aggregations", () => {
+  let client: ReturnType<typeof createClient>;
+  let app: Express;
+
+  beforeAll(async () => {
+    client = createClient({ url: ":memory:" });
+    await client.executeMultiple(`
+      CREATE TABLE ag_orders (id TEXT PRIMARY KEY, customerId TEXT NOT NULL, status TEXT NOT NULL, total INTEGER NOT NULL, createdAt INTEGER NOT NULL);
+
+      INSERT INTO ag_orders VALUES
+        ('o1', 'c1', 'paid', 10, ${at("2024-03-04T23:30:00Z")}),
+        ('o2', 'c1', 'paid', 20, ${at("2024-03-05T08:00:00Z")}),
+        ('o3', 'c2', 'paid', 30, ${at("2024-03-05T09:00:00Z")}),
+        ('o4', 'c3', 'refunded', 40, ${at("2024-03-06T10:00:00Z")}),
+        ('o5', 'c2', 'pending', 50, ${at("2024-04-01T12:00:00Z")});
+    `);
+
+    app = express();
+    app.use(express.json());
+    app.use(injectUser);
+    app.use("/orders", useResource(orders, { id: orders.id, db: drizzle(client) }));
+  });
+
+  afterAll(() => {
+    client.close();
+  });
+
+  it("should group by day in the requested timezone", async () => {
+    const utc = await request(app).get("/orders/aggregate?groupBy=createdAt:day&count=true").expect(200);
+    expect(utc.body.groups).toEqual([
+      { key: { createdAt: "2024-03-04" }, count: 1 },
+      { key: { createdAt: "2024-03-05" }, count: 2 },
+      { key: { createdAt: "2024-03-06" }, count: 1 },
+      { key: { createdAt: "2024-04-01" }, count: 1 },
+    ]);
+
+    const shifted = await request(app)
+      .get("/orders/aggregate?groupBy=createdAt:day&count=true&timezone=%2B02:00")
+      .expect(200);
+    expect(shifted.body.groups[0]).toEqual({ key: { createdAt: "2024-03-05" }, count: 3 });
+  });
+
+  it("should group by month and week", async () => {
+    const months = await request(app).get("/orders/aggregate?groupBy=createdAt:month&sum=total").expect(200);
+    expect(months.body.groups).toEqual([
+      { key: { createdAt: "2024-03" }, sum: { total: 100 } },
+      { key: { createdAt: "2024-04" }, sum: { total: 50 } },
+    ]);
+
+    // Weeks start on Monday
+    const weeks = await request(app).get("/orders/aggregate?groupBy=createdAt:week&count=true").expect(200);
+    expect(weeks.body.groups.map((g: { key: { createdAt: string } }) => g.key.createdAt)).toEqual([
+      "2024-03-04",
+      "2024-04-01",
+    ]);
+  });
+
+  it("should count distinct values", async () => {
+    const res = await request(app)
+      .get("/orders/aggregate?groupBy=status&countDistinct=customerId&orderBy=status")
+      .expect(200);
+    expect(res.body.groups[0]).toEqual({ key: { status: "paid" }, countDistinct: { customerId: 2 } });
+  });
+
+  it("should filter groups with having, then order and limit them", async () => {
+    const res = await request(app)
+      .get("/orders/aggregate?groupBy=customerId&count=true&sum=total&having=count>1&orderBy=sum_total:desc&limit=1")
+      .expect(200);
+    expect(res.body.groups).toEqual([{ key: { customerId: "c2" }, count: 2, sum: { total: 80 } }]);
+  });
+
+  it("should reject having and orderBy on unknown aggregates", async () => {
+    await request(app).get("/orders/aggregate?groupBy=status&count=true&having=sum_total>1").expect(400);
+    await request(app).get("/orders/aggregate?groupBy=status&count=true&orderBy=total").expect(400);
+  });
+
+  it("should reject percentiles and named timezones the database cannot compute", async () => {
+    await request(app).get("/orders/aggregate?percentile=total:95").expect(400);
+    await request(app)
+      .get("/orders/aggregate?groupBy=createdAt:day&count=true&timezone=Europe/Paris")
+      .expect(400);
+  });
+});
@@ -0,0 +1,273 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { IDBFactory } from "fake-indexeddb";
+import {
+  IndexedDBOfflineStorage,
+  IndexedDBQueryCacheStorage,
+} from "../../src/client/indexeddb";
+import { createOfflineManager } from "../../src/client/offline";
+import {
+  createQueryCache,
+  InMemoryQueryCacheStorage,
+  queryCacheKey,
+} from "../../src/client/query-cache";
+import { createLiveQuery } from "../../src/client/live-store";
+import {
+  LiveListResourceClient,
+  OfflineMutation,
+  SubscribeOptions,
+  Subscription,
+  SubscriptionCallbacks,
+} from "../../src/client/types";
+
+interface Todo {
+  id: string;
+  title: string;
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const mutation = (id: string, timestamp: number): OfflineMutation => ({
+  id,
+  idempotencyKey: `key-${id}`,
+  type: "update",
+  resource: "/todos",
+  objectId: id,
+  data: { title: id },
+  timestamp,
+  retryCount: 0,
+  status: "pending",
+});
+
+const createRepo = (list: () => Promise<Todo[]>) => {
+  const subscribeCalls: SubscribeOptions[] = [];
+  let callbacks: SubscriptionCallbacks<Todo> | undefined;
+
+  const repo: LiveListResourceClient<Todo> = {
+    async list() {
+      const items = await list();
+      return { items, nextCursor: null, hasMore: false, totalCount: items.length };
+    },
+    async create(data) {
+      return { ...data, id: "new" } as Todo;
+    },
+    async update(id, data) {
+      return { ...data, id } as Todo;
+    },
+    async delete() {},
+    subscribe(options, cbs) {
+      subscribeCalls.push(options ?? {});
+      callbacks = cbs;
+      return {
+        state: { items: new Map(), isConnected: false, lastSeq: 0, error: null },
+        items: [],
+        unsubscribe: vi.fn(),
+        reconnect: vi.fn(),
+      } as Subscription<Todo>;
+    },
+  };
+
+  return { repo, subscribeCalls, connect: (seq: number) => callbacks?.onConnected?.(seq) };
+};
+
+describe("IndexedDBOfflineStorage", () => {
+  let factory: IDBFactory;
+
+  beforeEach(() => {
+    factory = new IDBFactory();
+  });
+
+  it("should store mutations as records ordered by timestamp", async () => {
+    const storage = new IndexedDBOfflineStorage("test", factory);
+    await storage.addMutation(mutation("b", 2));
+    await storage.addMutation(mutation("a", 1));
+
+    expect((await storage.getMutations()).map((m) => m.id)).toEqual(["a", "b"]);
+
+    await storage.updateMutation("a", { status: "failed", retryCount: 1 });
+    await storage.removeMutation("b");
+
+    const [remaining] = await storage.getMutations();
+    expect(remaining).toMatchObject({ id: "a", status: "failed", retryCount: 1 });
+    expect(await storage.getMutations()).toHaveLength(1);
+  });
+
+  it("should persist the queue across instances", async () => {
+    await new IndexedDBOfflineStorage("test", factory).addMutation(mutation("a", 1));
+
+    const reopened = new IndexedDBOfflineStorage("test", factory);
+    expect((await reopened.getMutations()).map((m) => m.id)).toEqual(["a"]);
+
+    await reopened.clear();
+    expect(await reopened.getMutations()).toEqual([]);
+  });
+
+  it("should back an OfflineManager queue", async () => {
+    const manager = createOfflineManager({
+      config: { enabled: true, storage: new IndexedDBOfflineStorage("test", factory) },
+    });
+    manager.setOnlineStatus(false);
+
+    await manager.queueMutation("create", "/todos", { title: "Offline" }, undefined, "opt_1");
+
+    expect(await manager.hasPendingMutationsForId("opt_1")).toBe(true);
+    expect(await manager.getPendingMutations()).toHaveLength(1);
+    manager.destroy();
+  });
+});
+
+describe("QueryCache", () => {
+  const entry = (key: string, items: Todo[]) => ({
+    key,
+    items,
+    optimisticIds: [],
+    lastSeq: 5,
+    hasMore: false,
+    nextCursor: null,
+  });
+
+  it("should round-trip entries through IndexedDB", async () => {
+    const cache = createQueryCache({
+      storage: new IndexedDBQueryCacheStorage("test", new IDBFactory()),
+    });
+    await cache.write(entry("todos", [{ id: "1", title: "One" }]));
+
+    const read = await cache.read<Todo>("todos");
+    expect(read?.items).toEqual([{ id: "1", title: "One" }]);
+    expect(read?.lastSeq).toBe(5);
+    expect(read?.size).toBeGreaterThan(0);
+
+    await cache.remove("todos");
+    expect(await cache.read("todos")).toBeNull();
+  });
+
+  it("should drop entries older than maxAgeMs", async () => {
+    vi.useFakeTimers();
+    try {
+      const cache = createQueryCache({ maxAgeMs: 1000 });
+      await cache.write(entry("todos", [{ id: "1", title: "One" }]));
+
+      vi.advanceTimersByTime(1500);
+      expect(await cache.read("todos")).toBeNull();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("should evict the least recently written entries past the size budget", async () => {
+    const storage = new InMemoryQueryCacheStorage();
+    const item = { id: "1", title: "x".repeat(100) };
+    const size = JSON.stringify([item]).length;
+    const cache = createQueryCache({ storage, maxBytes: size * 2 });
+
+    await cache.write(entry("a", [item]));
+    await wait(2);
+    await cache.write(entry("b", [item]));
+    await wait(2);
+    await cache.write(entry("c", [item]));
+
+    expect((await storage.list()).map((m) => m.key).sort()).toEqual(["b", "c"]);
+  });
+
+  it("should cap the number of entries", async () => {
+    const storage = new InMemoryQueryCacheStorage();
+    const cache = createQueryCache({ storage, maxEntries: 1 });
+
+    await cache.write(entry("a", []));
+    await wait(2);
+    await cache.write(entry("b", []));
+
+    expect((await storage.list()).map((m) => m.key)).toEqual(["b"]);
+  });
+
+  it("should key queries by resource, filter, orderBy, include and select", () => {
+    const base = queryCacheKey("/todos", { filter: "done==false" });
+    expect(queryCacheKey("/todos", { filter: "done==false" })).toBe(base);
+    expect(queryCacheKey("/todos", { filter: "done==true" })).not.toBe(base);
+    expect(queryCacheKey("/todos", { filter: "done==false", orderBy: "title" })).not.toBe(base);
+    expect(queryCacheKey("/todos", { filter: "done==false", include: "owner" })).not.toBe(base);
+    expect(queryCacheKey("/todos", { select: ["id", "title"] })).toBe(
+      queryCacheKey("/todos", { select: ["title", "id"] })
+    );
+  });
+});
+
+describe("createLiveQuery with a persisted cache", () => {
+  const key = queryCacheKey("/todos");
+
+  it("should persist results and hydrate a cold start from them", async () => {
+    const store = createQueryCache({ storage: new IndexedDBQueryCacheStorage("test", new IDBFactory()) });
+
+    const online = createRepo(async () => [{ id: "1", title: "Cached" }]);
+    const first = createLiveQuery(online.repo, { cache: { store, key } });
+    await wait(20);
+    online.connect(7);
+    first.destroy();
+    await wait(20);
+
+    // Offline cold start: the list request never answers
+    const offline = createRepo(() => new Promise(() => {}));
+    const second = createLiveQuery(offline.repo, { cache: { store, key } });
+    await wait(20);
+
+    expect(second.getSnapshot().items).toEqual([{ id: "1", title: "Cached" }]);
+    expect(second.getSnapshot().lastSeq).toBe(7);
+    second.destroy();
+  });
+
+  it("should stay on cached items when offline and resume with known ids", async () => {
+    const store = createQueryCache();
+    await store.write({
+      key,
+      items: [{ id: "1", title: "Cached" }],
+      optimisticIds: [],
+      lastSeq: 3,
+      hasMore: false,
+      nextCursor: null,
+    });
+
+    const { repo, subscribeCalls } = createRepo(async () => {
+      throw new TypeError("Failed to fetch");
+    });
+    const query = createLiveQuery(repo, { cache: { store, key } });
+    await wait(20);
+
+    const snapshot = query.getSnapshot();
+    expect(snapshot.status).toBe("offline");
+    expect(snapshot.items).toEqual([{ id: "1", title: "Cached" }]);
+    expect(subscribeCalls[0]).toMatchObject({ skipExisting: true, knownIds: ["1"], resumeFrom: 3 });
+    query.destroy();
+  });
+
+  it("should reconcile with the server once the subscription connects", async () => {
+    const store = createQueryCache();
+    await store.write({
+      key,
+      items: [{ id: "1", title: "Stale" }, { id: "2", title: "Deleted since" }],
+      optimisticIds: [],
+      lastSeq: 3,
+      hasMore: false,
+      nextCursor: null,
+    });
+
+    let reachable = false;
+    const { repo, connect } = createRepo(async () => {
+      if (!reachable) throw new TypeError("Failed to fetch");
+      return [{ id: "1", title: "Fresh" }];
+    });
+    const query = createLiveQuery(repo, { cache: { store, key } });
+    await wait(20);
+    expect(query.getSnapshot().items).toHaveLength(2);
+
+    reachable = true;
+    connect(9);
+    await wait(20);
+
+    const snapshot = query.getSnapshot();
+    expect(snapshot.status).toBe("live");
+    expect(snapshot.items).toEqual([{ id: "1", title: "Fresh" }]);
+
+    await wait(150);
+    expect((await store.read<Todo>(key))?.items).toEqual([{ id: "1", title: "Fresh" }]);
+    query.destroy();
+  });
+});
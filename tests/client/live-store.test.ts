@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { createLiveQuery, LiveQuery } from "../../src/client/live-store";
 import { ResourceClient, PaginatedResponse, Subscription, SubscriptionState, SubscriptionCallbacks } from "../../src/client/types";
+import { WriteEffectBus } from "../../src/client/write-effects";
 
 // Mock resource client
 const createMockRepo = <T extends { id: string }>(): ResourceClient<T> & {
@@ -274,6 +275,47 @@ describe("LiveStore", () => {
     });
   });
 
+  describe("write effects", () => {
+    it("should show the effects of a write until it settles", async () => {
+      const repo = createMockRepo<Todo>();
+      const bus = new WriteEffectBus();
+      repo.onWriteEffect = (listener) => bus.subscribe(listener);
+      const query = createLiveQuery(repo, {});
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      repo.triggerEvent("existing", { id: "1", title: "Edit me", completed: false });
+      repo.triggerEvent("existing", { id: "2", title: "Remove me", completed: false });
+
+      bus.apply("write-1", [
+        { type: "create", resource: "todos", data: { title: "New", completed: false } },
+        { type: "update", resource: "todos", id: "1", data: { completed: true } },
+        { type: "delete", resource: "todos", id: "2" },
+      ]);
+
+      let items = query.getSnapshot().items;
+      expect(items).toHaveLength(2);
+      expect(items.find((item) => item.id === "1")?.completed).toBe(true);
+      expect(items.find((item) => item.id !== "1")?.id).toMatch(/^optimistic_/);
+
+      repo.list = vi.fn().mockResolvedValue({
+        items: [
+          { id: "1", title: "Edit me", completed: true },
+          { id: "3", title: "New", completed: false },
+        ],
+        nextCursor: null,
+        hasMore: false,
+      });
+      bus.settle("write-1", ["todos"]);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      items = query.getSnapshot().items;
+      expect(repo.list).toHaveBeenCalled();
+      expect(items.map((item) => item.id)).toEqual(["1", "3"]);
+
+      query.destroy();
+    });
+  });
+
   describe("status transitions", () => {
     it("should transition to live or offline status after connected based on navigator.onLine", async () => {
       const repo = createMockRepo<Todo>();
@@ -403,6 +403,17 @@ describe("OfflineManager", () => {
       expect(pending[0].objectId).toBe("user123");
     });
 
+    it("should merge pending upserts of the same object", async () => {
+      (manager as any).isOnline = false;
+      await manager.queueMutation("upsert", "/users", { id: "user123", name: "First" }, "user123");
+      await manager.queueMutation("upsert", "/users", { id: "user123", name: "Second" }, "user123");
+
+      const pending = await manager.getPendingMutations();
+      expect(pending).toHaveLength(1);
+      expect(pending[0].type).toBe("upsert");
+      expect(pending[0].data).toEqual({ id: "user123", name: "Second" });
+    });
+
     it("should auto-sync when online", async () => {
       await manager.queueMutation("create", "/users", { name: "Test" });
 
@@ -441,6 +452,37 @@ describe("OfflineManager", () => {
       expect(pending).toHaveLength(0);
     });
 
+    it("should map the optimistic ids of a synced batch create to the created rows", async () => {
+      mockSyncHandler.mockResolvedValueOnce({ success: true, serverIds: ["s1", "s2"] });
+
+      (manager as any).isOnline = false;
+      await manager.queueMutation("batchCreate", "/users", [{ name: "A" }, { name: "B" }], undefined, undefined, undefined, {
+        idempotencyKey: "batch-key",
+        optimisticIds: ["opt-a", "opt-b"],
+      });
+
+      (manager as any).isOnline = true;
+      await manager.syncPendingMutations();
+
+      expect(mockSyncHandler.mock.calls[0][0].idempotencyKey).toBe("batch-key");
+      expect(manager.resolveId("opt-a")).toBe("s1");
+      expect(manager.resolveId("opt-b")).toBe("s2");
+    });
+
+    it("should remap optimistic ids inside the filter of a batch write", async () => {
+      manager.registerIdMapping("opt-a", "s1");
+
+      (manager as any).isOnline = false;
+      await manager.queueMutation("batchDelete", "/users", undefined, undefined, undefined, undefined, {
+        filter: 'id=in=("opt-a","u2")',
+      });
+
+      (manager as any).isOnline = true;
+      await manager.syncPendingMutations();
+
+      expect(mockSyncHandler.mock.calls[0][0].filter).toBe('id=in=("s1","u2")');
+    });
+
     it("should handle sync failure", async () => {
       mockSyncHandler.mockRejectedValueOnce(new Error("Network error"));
 
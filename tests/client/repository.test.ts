@@ -1,7 +1,8 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { Repository, createRepository } from "../../src/client/repository";
-import { Transport } from "../../src/client/transport";
+import { Transport, TransportError, PreconditionFailedError } from "../../src/client/transport";
 import { OfflineManager, InMemoryOfflineStorage } from "../../src/client/offline";
+import { WriteEffectBus } from "../../src/client/write-effects";
 
 interface TestUser {
   id: string;
@@ -231,6 +232,25 @@ describe("Repository", () => {
       });
     });
 
+    it("should search with facets, fuzzy and prefix matching", async () => {
+      mockRequest.mockResolvedValue({
+        data: { items: [], total: 0, facets: { role: [{ key: "admin", count: 2 }] } },
+      });
+
+      const result = await repository.search("ali", {
+        facets: ["role", "active"],
+        fuzzy: true,
+        prefix: true,
+      });
+
+      expect(mockRequest).toHaveBeenCalledWith({
+        method: "GET",
+        path: "/users/search",
+        params: { q: "ali", facets: "role,active", fuzzy: true, prefix: true },
+      });
+      expect(result.facets?.role).toEqual([{ key: "admin", count: 2 }]);
+    });
+
     it("should search with pagination", async () => {
       mockRequest.mockResolvedValue({
         data: { items: [], total: 100 },
@@ -426,6 +446,38 @@ describe("Repository", () => {
     });
   });
 
+  describe("upsert", () => {
+    it("should upsert resource", async () => {
+      mockRequest.mockResolvedValue({
+        data: { id: "1", name: "Alice", email: "alice@test.com" },
+        headers: new Headers({ ETag: '"v1"' }),
+      });
+
+      const result = await repository.upsert({ id: "1", name: "Alice", email: "alice@test.com" });
+
+      expect(mockRequest).toHaveBeenCalledWith({
+        method: "POST",
+        path: "/users/upsert",
+        body: { id: "1", name: "Alice", email: "alice@test.com" },
+      });
+      expect(result.name).toBe("Alice");
+      expect(repository.getETag("1")).toBe('"v1"');
+    });
+
+    it("should batch upsert", async () => {
+      mockRequest.mockResolvedValue({ data: { items: [{ id: "1", name: "Alice", email: "a@test.com" }] } });
+
+      const result = await repository.batchUpsert([{ id: "1", name: "Alice", email: "a@test.com" }]);
+
+      expect(mockRequest).toHaveBeenCalledWith({
+        method: "POST",
+        path: "/users/batch/upsert",
+        body: { items: [{ id: "1", name: "Alice", email: "a@test.com" }] },
+      });
+      expect(result).toHaveLength(1);
+    });
+  });
+
   describe("batch operations", () => {
     it("should batch create", async () => {
       mockRequest.mockResolvedValue({
@@ -451,6 +503,7 @@ describe("Repository", () => {
             { name: "Bob", email: "bob@test.com" },
           ],
         },
+        headers: { "Idempotency-Key": expect.any(String) },
       });
       expect(result).toHaveLength(2);
     });
@@ -465,6 +518,7 @@ describe("Repository", () => {
         path: "/users/batch",
         params: { filter: "active==false" },
         body: { active: true },
+        headers: { "Idempotency-Key": expect.any(String) },
       });
       expect(result.count).toBe(5);
     });
@@ -478,6 +532,7 @@ describe("Repository", () => {
         method: "DELETE",
         path: "/users/batch",
         params: { filter: 'status=="inactive"' },
+        headers: { "Idempotency-Key": expect.any(String) },
       });
       expect(result.count).toBe(3);
     });
@@ -501,6 +556,63 @@ describe("Repository", () => {
     });
   });
 
+  describe("live aggregates", () => {
+    const mockEventSource = () => {
+      const listeners = new Map<string, (e: unknown) => void>();
+      const eventSource = {
+        addEventListener: vi.fn((type: string, listener: (e: unknown) => void) => {
+          listeners.set(type, listener);
+        }),
+        close: vi.fn(),
+        readyState: 1,
+        onopen: null,
+      };
+      mockTransport.createEventSource = vi.fn().mockReturnValue(eventSource);
+      return { eventSource, emit: (type: string, e: unknown) => listeners.get(type)!(e) };
+    };
+
+    it("should stream aggregate results", () => {
+      const { eventSource, emit } = mockEventSource();
+      const onUpdate = vi.fn();
+
+      const subscription = repository.subscribeAggregate(
+        { groupBy: ["role"], count: true, filter: "age>18" },
+        { onUpdate }
+      );
+
+      expect(mockTransport.createEventSource).toHaveBeenCalledWith("/users/aggregate/subscribe", {
+        filter: "age>18",
+        groupBy: "role",
+        count: "true",
+      });
+
+      const groups = [{ key: { role: "admin" }, count: 2 }];
+      emit("message", { data: JSON.stringify({ type: "aggregate", groups }) });
+      expect(onUpdate).toHaveBeenCalledWith({ groups });
+
+      subscription.unsubscribe();
+      expect(eventSource.close).toHaveBeenCalled();
+    });
+
+    it("should stream counts and surface server errors", () => {
+      const { eventSource, emit } = mockEventSource();
+      const onUpdate = vi.fn();
+      const onError = vi.fn();
+
+      repository.subscribeCount("age>18", { onUpdate, onError });
+      expect(mockTransport.createEventSource).toHaveBeenCalledWith("/users/count/subscribe", {
+        filter: "age>18",
+      });
+
+      emit("message", { data: JSON.stringify({ type: "count", count: 7 }) });
+      expect(onUpdate).toHaveBeenCalledWith(7);
+
+      emit("error", { data: JSON.stringify({ error: "Forbidden" }) });
+      expect(onError).toHaveBeenCalledWith(new Error("Forbidden"));
+      expect(eventSource.close).toHaveBeenCalled();
+    });
+  });
+
   describe("rpc", () => {
     it("should call RPC procedure", async () => {
       mockRequest.mockResolvedValue({
@@ -516,6 +628,7 @@ describe("Repository", () => {
         method: "POST",
         path: "/users/rpc/createOrder",
         body: { items: ["item1", "item2"] },
+        headers: { "Idempotency-Key": expect.any(String) },
       });
       expect(result.orderId).toBe("order123");
     });
@@ -532,6 +645,87 @@ describe("Repository", () => {
       expect((customRepo as any).idField).toBe("uuid");
     });
   });
+
+  describe("optimistic concurrency", () => {
+    it("should send the ETag from get as If-Match on update", async () => {
+      mockRequest.mockResolvedValueOnce({
+        data: { id: "1", name: "Alice", email: "alice@test.com" },
+        headers: new Headers({ ETag: 'W/"abc"' }),
+      });
+      mockRequest.mockResolvedValueOnce({
+        data: { id: "1", name: "Alicia", email: "alice@test.com" },
+        headers: new Headers({ ETag: 'W/"def"' }),
+      });
+
+      await repository.get("1");
+      await repository.update("1", { name: "Alicia" });
+
+      expect(mockRequest).toHaveBeenLastCalledWith({
+        method: "PATCH",
+        path: "/users/1",
+        body: { name: "Alicia" },
+        headers: { "If-Match": 'W/"abc"' },
+      });
+      expect(repository.getETag("1")).toBe('W/"def"');
+    });
+
+    it("should remember ETags from list items", async () => {
+      mockRequest.mockResolvedValueOnce({
+        data: {
+          items: [{ id: "1", name: "Alice", email: "a@test.com", _etag: 'W/"v1"' }],
+          hasMore: false,
+          nextCursor: null,
+        },
+      });
+      mockRequest.mockResolvedValueOnce({ data: undefined });
+
+      await repository.list();
+      await repository.delete("1");
+
+      expect(mockRequest).toHaveBeenLastCalledWith({
+        method: "DELETE",
+        path: "/users/1",
+        headers: { "If-Match": 'W/"v1"' },
+      });
+      expect(repository.getETag("1")).toBeUndefined();
+    });
+
+    it("should skip If-Match when ifMatch is false", async () => {
+      mockRequest.mockResolvedValueOnce({
+        data: { id: "1", name: "Alice", email: "a@test.com" },
+        headers: new Headers({ ETag: 'W/"abc"' }),
+      });
+      mockRequest.mockResolvedValueOnce({ data: { id: "1", name: "Bob", email: "a@test.com" } });
+
+      await repository.get("1");
+      await repository.replace("1", { name: "Bob", email: "a@test.com" }, { ifMatch: false });
+
+      expect(mockRequest).toHaveBeenLastCalledWith({
+        method: "PUT",
+        path: "/users/1",
+        body: { name: "Bob", email: "a@test.com" },
+      });
+    });
+
+    it("should surface a typed error when the ETag is stale", async () => {
+      mockRequest.mockRejectedValue(
+        PreconditionFailedError.fromResponse({
+          type: "/__concave/problems/precondition-failed",
+          status: 412,
+          detail: "Resource was modified",
+          currentETag: 'W/"new"',
+        })
+      );
+
+      const error = await repository
+        .update("1", { name: "Alicia" }, { ifMatch: 'W/"old"' })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(PreconditionFailedError);
+      expect(error.isPreconditionFailed()).toBe(true);
+      expect(error.currentETag).toBe('W/"new"');
+    });
+  });
 });
 
 describe("Repository with offline support", () => {
@@ -623,6 +817,19 @@ describe("Repository with offline support", () => {
       expect(pending[0].type).toBe("create");
       expect(pending[0].optimisticId).toBe(result.id);
     });
+    it("should queue an upsert on background sync failure", async () => {
+      mockRequest.mockRejectedValue(new Error("Network error"));
+
+      const result = await repository.upsert({ id: "123", name: "Test" });
+      expect(result).toEqual({ id: "123", name: "Test" });
+
+      await new Promise((r) => setTimeout(r, 10));
+
+      const pending = await offlineManager.getPendingMutations();
+      expect(pending).toHaveLength(1);
+      expect(pending[0].type).toBe("upsert");
+      expect(pending[0].objectId).toBe("123");
+    });
   });
 
   describe("opt-out of optimistic mode", () => {
@@ -653,6 +860,89 @@ describe("Repository with offline support", () => {
     });
   });
 
+  describe("batch writes and procedure calls", () => {
+    it("should queue a batch create that can't reach the server under the key it was sent with", async () => {
+      mockRequest.mockRejectedValue(new TypeError("Failed to fetch"));
+
+      const created = await repository.batchCreate([{ name: "A" }, { name: "B" }]);
+      expect(created.map((item) => item.name)).toEqual(["A", "B"]);
+      expect(created[0].id).toContain("optimistic_");
+
+      const sentKey = mockRequest.mock.calls[0][0].headers["Idempotency-Key"];
+      const pending = await offlineManager.getPendingMutations();
+      expect(pending).toHaveLength(1);
+      expect(pending[0]).toMatchObject({
+        type: "batchCreate",
+        idempotencyKey: sentKey,
+        optimisticIds: created.map((item) => item.id),
+      });
+    });
+
+    it("should queue batch updates and deletes without sending them while offline", async () => {
+      offlineManager.setOnlineStatus(false);
+
+      expect(await repository.batchUpdate('name=="A"', { name: "B" })).toEqual({ count: 0, queued: true });
+      expect(await repository.batchDelete('name=="B"')).toEqual({ count: 0, queued: true });
+
+      expect(mockRequest).not.toHaveBeenCalled();
+      const pending = await offlineManager.getPendingMutations();
+      expect(pending.map((m) => [m.type, m.filter])).toEqual([
+        ["batchUpdate", 'name=="A"'],
+        ["batchDelete", 'name=="B"'],
+      ]);
+    });
+
+    it("should not queue batch writes the server rejected", async () => {
+      mockRequest.mockRejectedValue(new TransportError("Forbidden", 403, "FORBIDDEN"));
+
+      await expect(repository.batchDelete('name=="A"')).rejects.toThrow("Forbidden");
+      expect(await offlineManager.getPendingMutations()).toHaveLength(0);
+    });
+
+    it("should only queue procedure calls that ask for it", async () => {
+      mockRequest.mockRejectedValue(new TypeError("Failed to fetch"));
+
+      await expect(repository.rpc("archive", { id: "1" })).rejects.toThrow("Failed to fetch");
+      expect(await repository.rpc("archive", { id: "1" }, { queue: true })).toBeUndefined();
+
+      const pending = await offlineManager.getPendingMutations();
+      expect(pending).toHaveLength(1);
+      expect(pending[0]).toMatchObject({ type: "rpc", procedure: "archive", data: { id: "1" } });
+    });
+
+    it("should apply a procedure's write effects until the server answers", async () => {
+      const effects = new WriteEffectBus();
+      const repo = new Repository<{ id: string; name: string }>({
+        transport: mockTransport,
+        resourcePath: "/api/users",
+        offline: offlineManager,
+        effects,
+      });
+      const events: unknown[] = [];
+      repo.onWriteEffect((event) => events.push(event));
+      mockRequest.mockResolvedValue({
+        data: { data: { ok: true }, writeEffects: [{ type: "update", resource: "users" }] },
+      });
+
+      await repo.rpc("rename", { id: "1" }, {
+        writeEffects: [
+          { type: "update", resource: "users", id: "1", data: { name: "Renamed" } },
+          { type: "delete", resource: "posts", id: "9" },
+        ],
+      });
+
+      const key = mockRequest.mock.calls[0][0].headers["Idempotency-Key"];
+      expect(events).toEqual([
+        {
+          type: "apply",
+          key,
+          effects: [{ type: "update", resource: "users", id: "1", data: { name: "Renamed" } }],
+        },
+        { type: "settle", key, resources: ["users"] },
+      ]);
+    });
+  });
+
   describe("ID resolution for updates/deletes", () => {
     it("should resolve optimistic ID to server ID for update", async () => {
       // First, set up an ID mapping
@@ -383,6 +383,42 @@ describe("ResourceQueryBuilder", () => {
     });
   });
 
+  describe("date buckets and group conditions", () => {
+    it("should send date buckets, distinct counts, percentiles and having", async () => {
+      mockRequest.mockResolvedValue({
+        data: { groups: [{ key: { role: "admin", createdAt: "2024-03" }, count: 5 }] },
+      });
+
+      const result = await builder
+        .groupBy("role")
+        .groupByDate("createdAt", "month", "+02:00")
+        .withCount()
+        .countDistinct("email")
+        .percentile("score", 50, 95)
+        .having("count>1")
+        .orderBy("count:desc")
+        .limit(10)
+        .aggregate();
+
+      expect(mockRequest).toHaveBeenCalledWith({
+        method: "GET",
+        path: "/users/aggregate",
+        params: {
+          groupBy: "role,createdAt:month",
+          timezone: "+02:00",
+          count: true,
+          countDistinct: "email",
+          percentile: "score:50,score:95",
+          having: "count>1",
+          orderBy: "count:desc",
+          limit: 10,
+        },
+      });
+      const key: string = result.groups[0]!.key.createdAt;
+      expect(key).toBe("2024-03");
+    });
+  });
+
   describe("terminal methods", () => {
     describe("list", () => {
       it("should return paginated response", async () => {
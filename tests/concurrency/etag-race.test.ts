@@ -225,4 +225,220 @@ describe("ETag Race Condition Tests", () => {
     expect(newETag).toBeDefined();
     expect(newETag).not.toBe(initialETag);
   });
+
+  it("should reject writes with a stale If-Match", async () => {
+    const createRes = await request(app)
+      .post("/users")
+      .send({ name: "Heidi", email: "heidi@test.com" })
+      .expect(201);
+
+    const userId = createRes.body.id;
+    const staleETag = createRes.headers["etag"];
+
+    await request(app)
+      .patch(`/users/${userId}`)
+      .set("If-Match", staleETag)
+      .send({ name: "Heidi 1" })
+      .expect(200);
+
+    const conflictRes = await request(app)
+      .patch(`/users/${userId}`)
+      .set("If-Match", staleETag)
+      .send({ name: "Heidi 2" })
+      .expect(412);
+    expect(conflictRes.body.currentETag).toBeDefined();
+    expect(conflictRes.body.currentETag).not.toBe(staleETag);
+
+    await request(app)
+      .put(`/users/${userId}`)
+      .set("If-Match", staleETag)
+      .send({ name: "Heidi 3", email: "heidi@test.com" })
+      .expect(412);
+
+    await request(app)
+      .delete(`/users/${userId}`)
+      .set("If-Match", staleETag)
+      .expect(412);
+
+    const getRes = await request(app).get(`/users/${userId}`).expect(200);
+    expect(getRes.body.name).toBe("Heidi 1");
+  });
+
+  it("should let exactly one concurrent If-Match write win", async () => {
+    const createRes = await request(app)
+      .post("/users")
+      .send({ name: "Ivan", email: "ivan@test.com" })
+      .expect(201);
+
+    const userId = createRes.body.id;
+    const etag = createRes.headers["etag"];
+
+    const results = await Promise.all(
+      Array.from({ length: 4 }, (_, i) =>
+        request(app)
+          .patch(`/users/${userId}`)
+          .set("If-Match", etag)
+          .send({ name: `Ivan ${i}` })
+      )
+    );
+
+    expect(results.filter((r) => r.status === 200)).toHaveLength(1);
+    expect(results.filter((r) => r.status === 412)).toHaveLength(3);
+  });
+
+  it("should let exactly one concurrent If-Match write win without a version column", async () => {
+    // The ETag is a hash of the whole row here. The hook holds every request
+    // between its read and its write, so all of them pass the If-Match check.
+    const hashed = express();
+    hashed.use(express.json());
+    hashed.use(injectTestUser);
+    hashed.use(
+      "/users",
+      useResource(testUsersTable, {
+        id: testUsersTable.id,
+        db,
+        hooks: {
+          onBeforeUpdate: async (_ctx, _id, data) => {
+            await new Promise((resolve) => setTimeout(resolve, 20));
+            return data;
+          },
+        },
+      })
+    );
+    hashed.use(errorHandler);
+
+    const createRes = await request(hashed)
+      .post("/users")
+      .send({ name: "Ivy", email: "ivy@test.com" })
+      .expect(201);
+
+    const userId = createRes.body.id;
+    const etag = createRes.headers["etag"];
+
+    const results = await Promise.all(
+      Array.from({ length: 4 }, (_, i) =>
+        request(hashed)
+          .put(`/users/${userId}`)
+          .set("If-Match", etag)
+          .send({ name: `Ivy ${i}`, email: "ivy@test.com" })
+      )
+    );
+
+    expect(results.filter((r) => r.status === 200)).toHaveLength(1);
+    expect(results.filter((r) => r.status === 412)).toHaveLength(3);
+
+    const winner = results.find((r) => r.status === 200)!;
+    const getRes = await request(hashed).get(`/users/${userId}`).expect(200);
+    expect(getRes.body.name).toBe(winner.body.name);
+  });
+
+  it("should return 304 for a matching If-None-Match", async () => {
+    const createRes = await request(app)
+      .post("/users")
+      .send({ name: "Judy", email: "judy@test.com" })
+      .expect(201);
+
+    const userId = createRes.body.id;
+    const getRes = await request(app).get(`/users/${userId}`).expect(200);
+
+    await request(app)
+      .get(`/users/${userId}`)
+      .set("If-None-Match", getRes.headers["etag"])
+      .expect(304);
+
+    await request(app)
+      .patch(`/users/${userId}`)
+      .send({ name: "Judy Updated" })
+      .expect(200);
+
+    await request(app)
+      .get(`/users/${userId}`)
+      .set("If-None-Match", getRes.headers["etag"])
+      .expect(200);
+  });
+
+  it("should leave list items without ETags by default", async () => {
+    await request(app)
+      .post("/users")
+      .send({ name: "Karl", email: "karl@test.com" })
+      .expect(201);
+
+    const listRes = await request(app).get("/users").expect(200);
+    expect(listRes.body.items[0]).not.toHaveProperty("_etag");
+  });
+
+  it("should include per-item ETags in list responses when inline", async () => {
+    const inline = express();
+    inline.use(express.json());
+    inline.use(injectTestUser);
+    inline.use(
+      "/users",
+      useResource(testUsersTable, {
+        id: testUsersTable.id,
+        db,
+        etag: { versionField: "version", inline: true },
+      })
+    );
+    inline.use(errorHandler);
+
+    const createRes = await request(inline)
+      .post("/users")
+      .send({ name: "Karl", email: "karl@test.com" })
+      .expect(201);
+
+    const listRes = await request(inline).get("/users").expect(200);
+    const item = listRes.body.items.find((i: any) => i.id === createRes.body.id);
+
+    expect(item._etag).toBe(createRes.headers["etag"]);
+  });
+
+  it("should hash the row when there is no version column", async () => {
+    const hashed = express();
+    hashed.use(express.json());
+    hashed.use(injectTestUser);
+    hashed.use("/users", useResource(testUsersTable, { id: testUsersTable.id, db }));
+    hashed.use(errorHandler);
+
+    const createRes = await request(hashed)
+      .post("/users")
+      .send({ name: "Lena", email: "lena@test.com" })
+      .expect(201);
+    const id = createRes.body.id;
+
+    // Two writes in the same second still get different ETags
+    const first = await request(hashed).patch(`/users/${id}`).send({ name: "Lena 1" }).expect(200);
+    const second = await request(hashed).patch(`/users/${id}`).send({ name: "Lena 2" }).expect(200);
+    expect(first.headers["etag"]).not.toBe(second.headers["etag"]);
+
+    await request(hashed)
+      .patch(`/users/${id}`)
+      .set("If-Match", first.headers["etag"])
+      .send({ name: "Stale" })
+      .expect(412);
+    const getRes = await request(hashed).get(`/users/${id}`).expect(200);
+    expect(getRes.headers["etag"]).toBe(second.headers["etag"]);
+  });
+
+  it("should honour Prefer: return=minimal", async () => {
+    const createRes = await request(app)
+      .post("/users")
+      .set("Prefer", "return=minimal")
+      .send({ name: "Liam", email: "liam@test.com" })
+      .expect(201);
+
+    expect(createRes.text).toBe("");
+    expect(createRes.headers["etag"]).toBeDefined();
+    expect(createRes.headers["preference-applied"]).toBe("return=minimal");
+
+    const listRes = await request(app).get("/users").expect(200);
+    const userId = listRes.body.items.find((i: any) => i.name === "Liam").id;
+
+    const patchRes = await request(app)
+      .patch(`/users/${userId}`)
+      .set("Prefer", "return=minimal")
+      .send({ name: "Liam Updated" })
+      .expect(204);
+
+    expect(patchRes.headers["etag"]).toBeDefined();
+  });
 });
@@ -10,6 +10,7 @@ import { join } from "path";
 import { useResource } from "@/resource/hook";
 import { idempotencyMiddleware, validateIdempotencyKey } from "@/middleware/idempotency";
 import { createMemoryKV } from "@/kv/memory";
+import { defineProcedure } from "@/resource/procedures";
 
 const testOrdersTable = sqliteTable("test_orders", {
   id: integer("id").primaryKey({ autoIncrement: true }),
@@ -308,4 +309,33 @@ describe("Idempotency Replay Tests", () => {
     expect(res2.body.success).toBe(true);
     expect(res2.body.attempt).toBe(2);
   });
+
+  it("should replay procedure calls and read a mixed-case header name", async () => {
+    let calls = 0;
+    const testApp = express();
+    testApp.use(express.json());
+    testApp.use(injectTestUser("test-user"));
+    testApp.use(idempotencyMiddleware({ storage: kvStore, headerName: "Idempotency-Key" }));
+    testApp.use(
+      "/orders",
+      useResource(testOrdersTable, {
+        id: testOrdersTable.id,
+        db,
+        procedures: {
+          restock: defineProcedure({
+            writeEffects: [{ type: "update", resource: "orders" }],
+            handler: async () => ({ calls: ++calls }),
+          }),
+        },
+      })
+    );
+    testApp.use(errorHandler);
+
+    const first = await request(testApp).post("/orders/rpc/restock").set("Idempotency-Key", "rpc-1234").send({}).expect(200);
+    const retry = await request(testApp).post("/orders/rpc/restock").set("Idempotency-Key", "rpc-1234").send({}).expect(200);
+
+    expect(first.body).toEqual({ data: { calls: 1 }, writeEffects: [{ type: "update", resource: "orders" }] });
+    expect(retry.body).toEqual(first.body);
+    expect(calls).toBe(1);
+  });
 });
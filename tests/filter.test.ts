@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach } from "vitest";
-import { sqliteTable, text, integer, real } from "drizzle-orm/sqlite-core";
+import { sqliteTable, text, integer, real, SQLiteSyncDialect } from "drizzle-orm/sqlite-core";
 import { createResourceFilter } from "@/resource/filter";
 import { FilterParseError } from "@/resource/error";
 
@@ -528,6 +528,17 @@ describe("Filter System", () => {
       );
       expect(sql).toBeDefined();
     });
+
+    it("should convert null checks according to their value", () => {
+      const dialect = new SQLiteSyncDialect();
+
+      expect(dialect.sqlToQuery(filter.convert("status=isnull=true") as any).sql).toBe(
+        '"test_items"."status" is null'
+      );
+      expect(dialect.sqlToQuery(filter.convert("status=isnull=false") as any).sql).toBe(
+        '"test_items"."status" is not null'
+      );
+    });
   });
 
   describe("Print/Debug Output", () => {
@@ -0,0 +1,354 @@
+import { describe, it, expect, beforeEach, afterEach, beforeAll, afterAll } from "vitest";
+import express, { Express, Request, Response, NextFunction } from "express";
+import request from "supertest";
+import http from "http";
+import { sqliteTable, text, integer } from "drizzle-orm/sqlite-core";
+import { drizzle } from "drizzle-orm/libsql";
+import { createClient as createLibsqlClient } from "@libsql/client";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { useResource } from "@/resource/hook";
+import { errorMiddleware } from "@/middleware/error";
+import { changelog } from "@/resource/changelog";
+import { clearAllSubscriptions } from "@/resource/subscription";
+import {
+  tenantFromUser,
+  tenantFromHeader,
+  tenantFromSubdomain,
+  firstTenant,
+  tenantKey,
+} from "@/resource/tenant";
+import { setGlobalSearch, clearGlobalSearch, createMemorySearchAdapter } from "@/search";
+import { TenantConfig } from "@/resource/types";
+import { defineProcedure } from "@/resource/procedures";
+import { createMemoryKV, setGlobalKV, KVAdapter } from "@/kv";
+
+const mtProjects = sqliteTable("mt_projects", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  name: text("name").notNull(),
+  orgId: text("orgId").notNull(),
+});
+
+// The tenant comes from the user unless a test overrides the resolver
+const injectUser = (req: Request, _res: Response, next: NextFunction) => {
+  const org = req.headers["x-user-org"];
+  if (org) {
+    (req as any).user = {
+      id: `user-${org}`,
+      sessionId: "s1",
+      sessionExpiresAt: new Date(Date.now() + 3600000),
+      metadata: org === "none" ? {} : { orgId: org, orgs: [org] },
+    };
+  }
+  next();
+};
+
+const collectData = (baseUrl: string, path: string, org: string, waitMs: number, onReady?: () => Promise<void>) =>
+  new Promise<any[]>((resolve) => {
+    const events: any[] = [];
+    const req = http.get(new URL(path, baseUrl), { headers: { "x-user-org": org } }, (res) => {
+      let buffer = "";
+      res.on("data", (chunk) => {
+        buffer += chunk.toString();
+        const blocks = buffer.split("\n\n");
+        buffer = blocks.pop() ?? "";
+        for (const block of blocks) {
+          const data = block.match(/^data: (.+)$/m);
+          if (data && !block.includes("event: connected")) {
+            events.push(JSON.parse(data[1]!));
+          }
+        }
+      });
+      setTimeout(async () => {
+        await onReady?.();
+      }, 100);
+    });
+    setTimeout(() => {
+      req.destroy();
+      resolve(events);
+    }, waitMs);
+  });
+
+describe("Multi-tenancy", () => {
+  let app: Express;
+  let server: http.Server;
+  let baseUrl: string;
+  let db: ReturnType<typeof drizzle>;
+  let libsqlClient: ReturnType<typeof createLibsqlClient>;
+  let tempDir: string;
+
+  beforeAll(() => {
+    tempDir = mkdtempSync(join(tmpdir(), "concave-tenancy-"));
+  });
+
+  afterAll(() => {
+    try {
+      rmSync(tempDir, { recursive: true, force: true });
+    } catch {}
+  });
+
+  const mount = (tenant: Partial<TenantConfig> = {}) => {
+    app = express();
+    app.use(express.json());
+    app.use(injectUser);
+    app.use(
+      "/projects",
+      useResource(mtProjects, {
+        id: mtProjects.id,
+        db,
+        batch: { create: 10, update: 10, delete: 10 },
+        tenant: { column: mtProjects.orgId, resolve: tenantFromUser("orgId"), ...tenant },
+        procedures: {
+          remember: defineProcedure({
+            handler: async (ctx, input: { note: string }) => {
+              await ctx.kv!.set("note", input.note);
+              return { ok: true };
+            },
+          }),
+          recall: defineProcedure({
+            handler: async (ctx) => ({ note: await ctx.kv!.get("note"), keys: await ctx.kv!.keys("*") }),
+          }),
+        },
+      })
+    );
+    app.use(errorMiddleware);
+
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as any).port}`;
+  };
+
+  beforeEach(async () => {
+    libsqlClient = createLibsqlClient({ url: `file:${join(tempDir, `test-${Date.now()}.db`)}` });
+    db = drizzle(libsqlClient);
+
+    await libsqlClient.execute(`
+      CREATE TABLE mt_projects (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        orgId TEXT NOT NULL
+      )
+    `);
+    await libsqlClient.execute(
+      "INSERT INTO mt_projects (name, orgId) VALUES ('Acme A', 'acme'), ('Acme B', 'acme'), ('Globex', 'globex')"
+    );
+    await changelog.clear();
+  });
+
+  afterEach(async () => {
+    await clearAllSubscriptions();
+    clearGlobalSearch();
+    await new Promise((resolve) => server.close(resolve));
+    libsqlClient.close();
+  });
+
+  describe("reads", () => {
+    beforeEach(() => mount());
+
+    it("should only list rows of the caller's tenant", async () => {
+      const res = await request(app).get("/projects").set("x-user-org", "acme");
+
+      expect(res.status).toBe(200);
+      expect(res.body.items.map((p: any) => p.name).sort()).toEqual(["Acme A", "Acme B"]);
+    });
+
+    it("should AND the tenant into user filters and counts", async () => {
+      const filtered = await request(app)
+        .get("/projects")
+        .query({ filter: 'orgId=="globex"' })
+        .set("x-user-org", "acme");
+      expect(filtered.body.items).toHaveLength(0);
+
+      const count = await request(app).get("/projects/count").set("x-user-org", "acme");
+      expect(count.body.count).toBe(2);
+    });
+
+    it("should return 404 for another tenant's row", async () => {
+      await request(app).get("/projects/3").set("x-user-org", "acme").expect(404);
+      await request(app).get("/projects/3").set("x-user-org", "globex").expect(200);
+    });
+
+    it("should reject requests without a tenant", async () => {
+      await request(app).get("/projects").set("x-user-org", "none").expect(404);
+      await request(app).post("/projects").set("x-user-org", "none").send({ name: "x" }).expect(404);
+    });
+  });
+
+  describe("writes", () => {
+    beforeEach(() => mount());
+
+    it("should force the tenant column on create", async () => {
+      const res = await request(app)
+        .post("/projects")
+        .set("x-user-org", "acme")
+        .send({ name: "Sneaky", orgId: "globex" })
+        .expect(201);
+
+      expect(res.body.orgId).toBe("acme");
+    });
+
+    it("should fill in the tenant column when omitted", async () => {
+      const res = await request(app)
+        .post("/projects/batch")
+        .set("x-user-org", "globex")
+        .send({ items: [{ name: "One" }, { name: "Two" }] })
+        .expect(200);
+
+      expect(res.body.items.map((p: any) => p.orgId)).toEqual(["globex", "globex"]);
+    });
+
+    it("should not move a row to another tenant", async () => {
+      const res = await request(app)
+        .patch("/projects/1")
+        .set("x-user-org", "acme")
+        .send({ orgId: "globex" })
+        .expect(200);
+
+      expect(res.body.orgId).toBe("acme");
+    });
+
+    it("should return 404 when writing another tenant's row", async () => {
+      await request(app).patch("/projects/3").set("x-user-org", "acme").send({ name: "x" }).expect(404);
+      await request(app)
+        .put("/projects/3")
+        .set("x-user-org", "acme")
+        .send({ name: "x" })
+        .expect(404);
+      await request(app).delete("/projects/3").set("x-user-org", "acme").expect(404);
+      await request(app)
+        .post("/projects/upsert")
+        .set("x-user-org", "acme")
+        .send({ id: 3, name: "Taken over" })
+        .expect(404);
+
+      const row = await request(app).get("/projects/3").set("x-user-org", "globex");
+      expect(row.body.name).toBe("Globex");
+    });
+
+    it("should limit batch writes to the caller's tenant", async () => {
+      const res = await request(app)
+        .delete("/projects/batch")
+        .set("x-user-org", "acme")
+        .expect(200);
+      expect(res.body.count).toBe(2);
+
+      const globex = await request(app).get("/projects").set("x-user-org", "globex");
+      expect(globex.body.items).toHaveLength(1);
+    });
+
+    it("should record the tenant on changelog entries", async () => {
+      await request(app).post("/projects").set("x-user-org", "acme").send({ name: "New" });
+      await request(app).patch("/projects/3").set("x-user-org", "globex").send({ name: "G" });
+
+      const acme = await changelog.getEntriesSince("mt_projects", 0, "acme");
+      const globex = await changelog.getEntriesSince("mt_projects", 0, "globex");
+      expect(acme.map((e) => e.type)).toEqual(["create"]);
+      expect(globex.map((e) => e.type)).toEqual(["update"]);
+      expect(await changelog.getEntriesSince("mt_projects", 0)).toHaveLength(2);
+    });
+  });
+
+  describe("resolvers", () => {
+    it("should resolve the tenant from a header and hide unauthorized tenants", async () => {
+      mount({
+        resolve: tenantFromHeader("x-org"),
+        authorize: (user, tenant) => ((user?.metadata?.orgs as string[]) ?? []).includes(tenant),
+      });
+
+      const own = await request(app)
+        .get("/projects")
+        .set("x-user-org", "globex")
+        .set("x-org", "globex")
+        .expect(200);
+      expect(own.body.items).toHaveLength(1);
+
+      await request(app).get("/projects").set("x-user-org", "globex").set("x-org", "acme").expect(404);
+      await request(app).get("/projects").set("x-user-org", "globex").expect(404);
+    });
+
+    it("should resolve the tenant from a subdomain", () => {
+      const resolve = tenantFromSubdomain("example.com");
+      expect(resolve(null, { headers: {}, hostname: "acme.example.com" })).toBe("acme");
+      expect(resolve(null, { headers: { host: "globex.example.com:3000" } })).toBe("globex");
+      expect(resolve(null, { headers: {}, hostname: "example.com" })).toBeUndefined();
+      expect(resolve(null, { headers: {}, hostname: "a.b.example.com" })).toBeUndefined();
+
+      expect(tenantFromSubdomain()(null, { headers: {}, hostname: "acme.app.io" })).toBe("acme");
+      expect(tenantFromSubdomain()(null, { headers: {}, hostname: "app.io" })).toBeUndefined();
+    });
+
+    it("should fall back through resolvers", async () => {
+      const resolve = firstTenant(tenantFromHeader(), tenantFromUser("orgId"));
+      const user = { metadata: { orgId: "acme" } } as any;
+
+      expect(await resolve(user, { headers: { "x-tenant-id": "globex" } })).toBe("globex");
+      expect(await resolve(user, { headers: {} })).toBe("acme");
+      expect(await resolve(null, { headers: {} })).toBeUndefined();
+    });
+  });
+
+  describe("kv", () => {
+    let kv: KVAdapter;
+
+    beforeEach(async () => {
+      kv = createMemoryKV();
+      await kv.connect();
+      setGlobalKV(kv);
+      mount();
+    });
+
+    afterEach(async () => {
+      await kv.disconnect();
+    });
+
+    it("should keep each tenant's handler KV keys apart", async () => {
+      await request(app).post("/projects/rpc/remember").set("x-user-org", "acme").send({ note: "acme's" }).expect(200);
+
+      const other = await request(app).post("/projects/rpc/recall").set("x-user-org", "globex").send({}).expect(200);
+      expect(other.body.data).toEqual({ note: null, keys: [] });
+
+      const own = await request(app).post("/projects/rpc/recall").set("x-user-org", "acme").send({}).expect(200);
+      expect(own.body.data).toEqual({ note: "acme's", keys: ["note"] });
+
+      expect(await kv.get("note")).toBeNull();
+      expect(await kv.get(tenantKey("acme", "note"))).toBe("acme's");
+    });
+  });
+
+  describe("subscriptions", () => {
+    beforeEach(() => mount());
+
+    it("should only deliver the tenant's own rows and changes", async () => {
+      const events = await collectData(baseUrl, "/projects/subscribe", "acme", 600, async () => {
+        await request(app).post("/projects").set("x-user-org", "globex").send({ name: "Other" });
+        await request(app).post("/projects").set("x-user-org", "acme").send({ name: "Mine" });
+      });
+
+      const names = events.filter((e) => e.object).map((e) => e.object.name);
+      expect(names.sort()).toEqual(["Acme A", "Acme B", "Mine"]);
+    });
+  });
+
+  describe("search", () => {
+    it("should index and search each tenant separately", async () => {
+      const search = createMemorySearchAdapter();
+      setGlobalSearch(search);
+      mount();
+
+      await request(app).post("/projects").set("x-user-org", "acme").send({ name: "Rocket" });
+      await request(app).post("/projects").set("x-user-org", "globex").send({ name: "Rocket" });
+
+      const res = await request(app)
+        .get("/projects/search")
+        .query({ q: "Rocket" })
+        .set("x-user-org", "acme")
+        .expect(200);
+
+      expect(res.body.items).toHaveLength(1);
+      expect(res.body.items[0].orgId).toBe("acme");
+
+      const globexIndex = await search.search("mt_projects__globex", { query: "Rocket" });
+      expect(globexIndex.hits).toHaveLength(1);
+    });
+  });
+});
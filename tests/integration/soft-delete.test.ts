@@ -0,0 +1,283 @@
+import { describe, it, expect, beforeEach, afterEach, beforeAll, afterAll } from "vitest";
+import express, { Express, Request, Response, NextFunction } from "express";
+import request from "supertest";
+import http from "http";
+import { sqliteTable, text, integer } from "drizzle-orm/sqlite-core";
+import { drizzle } from "drizzle-orm/libsql";
+import { createClient as createLibsqlClient } from "@libsql/client";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { useResource } from "@/resource/hook";
+import { errorMiddleware } from "@/middleware/error";
+import { changelog } from "@/resource/changelog";
+import { clearAllSubscriptions } from "@/resource/subscription";
+import { allScope, emptyScope } from "@/auth/rsql";
+import { createPurgeTask } from "@/tasks/purge";
+import { TaskContext } from "@/tasks/types";
+
+const sdNotes = sqliteTable("sd_notes", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  title: text("title").notNull(),
+  deletedAt: integer("deletedAt", { mode: "timestamp_ms" }),
+});
+
+const injectUser = (req: Request, _res: Response, next: NextFunction) => {
+  (req as any).user = {
+    id: "u1",
+    sessionId: "s1",
+    sessionExpiresAt: new Date(Date.now() + 3600000),
+    metadata: { admin: req.headers["x-admin"] === "true" },
+  };
+  next();
+};
+
+const collectData = (baseUrl: string, path: string, waitMs: number, onReady?: () => Promise<void>) =>
+  new Promise<any[]>((resolve) => {
+    const events: any[] = [];
+    const req = http.get(new URL(path, baseUrl), (res) => {
+      let buffer = "";
+      res.on("data", (chunk) => {
+        buffer += chunk.toString();
+        const blocks = buffer.split("\n\n");
+        buffer = blocks.pop() ?? "";
+        for (const block of blocks) {
+          const data = block.match(/^data: (.+)$/m);
+          if (data && !block.includes("event: connected")) {
+            events.push(JSON.parse(data[1]!));
+          }
+        }
+      });
+      setTimeout(async () => {
+        await onReady?.();
+      }, 100);
+    });
+    setTimeout(() => {
+      req.destroy();
+      resolve(events);
+    }, waitMs);
+  });
+
+describe("Soft delete", () => {
+  let app: Express;
+  let server: http.Server;
+  let baseUrl: string;
+  let db: ReturnType<typeof drizzle>;
+  let libsqlClient: ReturnType<typeof createLibsqlClient>;
+  let tempDir: string;
+
+  beforeAll(() => {
+    tempDir = mkdtempSync(join(tmpdir(), "concave-soft-delete-"));
+  });
+
+  afterAll(() => {
+    try {
+      rmSync(tempDir, { recursive: true, force: true });
+    } catch {}
+  });
+
+  beforeEach(async () => {
+    libsqlClient = createLibsqlClient({ url: `file:${join(tempDir, `test-${Date.now()}.db`)}` });
+    db = drizzle(libsqlClient);
+
+    await libsqlClient.execute(`
+      CREATE TABLE sd_notes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        title TEXT NOT NULL,
+        deletedAt INTEGER
+      )
+    `);
+    await libsqlClient.execute("INSERT INTO sd_notes (title) VALUES ('First'), ('Second')");
+    await changelog.clear();
+
+    app = express();
+    app.use(express.json());
+    app.use(injectUser);
+    app.use(
+      "/notes",
+      useResource(sdNotes, {
+        id: sdNotes.id,
+        db,
+        softDelete: { column: sdNotes.deletedAt },
+        auth: {
+          withDeleted: (user) => (user.metadata?.admin ? allScope() : emptyScope()),
+        },
+      })
+    );
+    app.use(errorMiddleware);
+
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as any).port}`;
+  });
+
+  afterEach(async () => {
+    await clearAllSubscriptions();
+    await new Promise((resolve) => server.close(resolve));
+    libsqlClient.close();
+  });
+
+  it("should stamp the column instead of removing the row", async () => {
+    const res = await request(app).delete("/notes/1");
+    expect(res.status).toBe(204);
+
+    const stored = await libsqlClient.execute("SELECT deletedAt FROM sd_notes WHERE id = 1");
+    expect(stored.rows[0]!.deletedAt).toBeTypeOf("number");
+  });
+
+  it("should exclude soft-deleted rows from reads", async () => {
+    await request(app).delete("/notes/1");
+
+    const list = await request(app).get("/notes");
+    expect(list.body.items.map((n: any) => n.title)).toEqual(["Second"]);
+
+    expect((await request(app).get("/notes/1")).status).toBe(404);
+    expect((await request(app).get("/notes/count")).body.count).toBe(1);
+
+    const aggregate = await request(app).get("/notes/aggregate").query({ count: "true" });
+    expect(aggregate.body.groups[0].count).toBe(1);
+  });
+
+  it("should include soft-deleted rows with withDeleted when the scope allows", async () => {
+    await request(app).delete("/notes/1");
+
+    const allowed = await request(app)
+      .get("/notes")
+      .query({ withDeleted: "true" })
+      .set("x-admin", "true");
+    expect(allowed.status).toBe(200);
+    expect(allowed.body.items).toHaveLength(2);
+
+    const denied = await request(app).get("/notes").query({ withDeleted: "true" });
+    expect(denied.status).toBe(403);
+  });
+
+  it("should reject writes to soft-deleted rows", async () => {
+    await request(app).delete("/notes/1");
+
+    expect((await request(app).patch("/notes/1").send({ title: "Edited" })).status).toBe(404);
+    expect((await request(app).delete("/notes/1")).status).toBe(404);
+  });
+
+  it("should restore a soft-deleted row", async () => {
+    await request(app).delete("/notes/1");
+
+    const restored = await request(app).post("/notes/1/restore");
+    expect(restored.status).toBe(200);
+    expect(restored.body.deletedAt).toBeNull();
+
+    expect((await request(app).get("/notes/1")).status).toBe(200);
+    expect((await request(app).post("/notes/2/restore")).status).toBe(404);
+  });
+
+  it("should run the update hooks on restore", async () => {
+    const calls: string[] = [];
+    const hooked = express();
+    hooked.use(express.json());
+    hooked.use(injectUser);
+    hooked.use(
+      "/notes",
+      useResource(sdNotes, {
+        id: sdNotes.id,
+        db,
+        softDelete: { column: sdNotes.deletedAt },
+        hooks: {
+          onBeforeUpdate: async (_ctx, id, data) => {
+            calls.push(`before:${id}`);
+            return { ...data, title: "Restored" };
+          },
+          onAfterUpdate: async (_ctx, updated) => {
+            calls.push(`after:${updated.title}`);
+          },
+        },
+      })
+    );
+    hooked.use(errorMiddleware);
+
+    await request(hooked).delete("/notes/1").expect(204);
+    const restored = await request(hooked).post("/notes/1/restore").expect(200);
+
+    expect(calls).toEqual(["before:1", "after:Restored"]);
+    expect(restored.body).toMatchObject({ title: "Restored", deletedAt: null });
+  });
+
+  it("should record delete and restore in the changelog", async () => {
+    await request(app).delete("/notes/1");
+    await request(app).post("/notes/1/restore");
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    const entries = await changelog.getEntriesSince("sd_notes", 0);
+    expect(entries.map((e) => [e.type, e.objectId])).toEqual([
+      ["delete", "1"],
+      ["create", "1"],
+    ]);
+  });
+
+  it("should soft delete in batch", async () => {
+    const res = await request(app).delete("/notes/batch").query({ filter: 'title=="Second"' });
+    expect(res.body.count).toBe(1);
+
+    const stored = await libsqlClient.execute("SELECT COUNT(*) AS n FROM sd_notes");
+    expect(stored.rows[0]!.n).toBe(2);
+    expect((await request(app).get("/notes/count")).body.count).toBe(1);
+  });
+
+  it("should push removed on delete and added on restore", async () => {
+    const events = await collectData(baseUrl, "/notes/subscribe", 600, async () => {
+      await request(app).delete("/notes/1");
+      await request(app).post("/notes/1/restore");
+    });
+
+    expect(events.map((e) => e.type)).toEqual(["existing", "existing", "removed", "added"]);
+    expect(events[2].objectId).toBe("1");
+    expect(events[3].object.id).toBe(1);
+  });
+
+  it("should not send soft-deleted rows as existing", async () => {
+    await request(app).delete("/notes/1");
+
+    const events = await collectData(baseUrl, "/notes/subscribe", 300);
+
+    expect(events.map((e) => e.object.title)).toEqual(["Second"]);
+  });
+
+  it("should purge rows soft-deleted past the retention window", async () => {
+    const now = Date.now();
+    await libsqlClient.execute(`UPDATE sd_notes SET deletedAt = ${now - 10 * 86400000} WHERE id = 1`);
+    await libsqlClient.execute(`UPDATE sd_notes SET deletedAt = ${now - 1000} WHERE id = 2`);
+
+    const task = createPurgeTask({
+      db,
+      table: sdNotes,
+      column: sdNotes.deletedAt,
+      retentionMs: 7 * 86400000,
+    });
+
+    expect(task.name).toBe("purge:sd_notes");
+    const result = await task.handler({} as TaskContext, {});
+
+    expect(result.purged).toBe(1);
+    const stored = await libsqlClient.execute("SELECT id FROM sd_notes");
+    expect(stored.rows.map((r) => r.id)).toEqual([2]);
+  });
+
+  it("should purge in batches", async () => {
+    const old = Date.now() - 10 * 86400000;
+    await libsqlClient.execute(
+      `INSERT INTO sd_notes (title, deletedAt) VALUES ('a', ${old}), ('b', ${old}), ('c', ${old}), ('d', ${old})`
+    );
+    await libsqlClient.execute(`UPDATE sd_notes SET deletedAt = ${old} WHERE id = 1`);
+
+    const task = createPurgeTask({
+      db,
+      table: sdNotes,
+      column: sdNotes.deletedAt,
+      retentionMs: 7 * 86400000,
+      batchSize: 2,
+    });
+    const result = await task.handler({} as TaskContext, {});
+
+    expect(result).toEqual({ purged: 5 });
+    const stored = await libsqlClient.execute("SELECT id FROM sd_notes");
+    expect(stored.rows.map((r) => r.id)).toEqual([2]);
+  });
+});
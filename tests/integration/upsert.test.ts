@@ -0,0 +1,328 @@
+import { describe, it, expect, beforeEach, afterEach, beforeAll, afterAll } from "vitest";
+import express, { Express, Request, Response, NextFunction } from "express";
+import request from "supertest";
+import http from "http";
+import { sqliteTable, text, integer } from "drizzle-orm/sqlite-core";
+import { drizzle } from "drizzle-orm/libsql";
+import { createClient as createLibsqlClient } from "@libsql/client";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { useResource } from "@/resource/hook";
+import { rsql, emptyScope } from "@/auth/rsql";
+import { errorMiddleware } from "@/middleware/error";
+import { changelog } from "@/resource/changelog";
+import { clearAllSubscriptions } from "@/resource/subscription";
+
+const upContacts = sqliteTable("up_contacts", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  email: text("email").notNull().unique(),
+  name: text("name").notNull(),
+});
+
+const upTags = sqliteTable("up_tags", {
+  id: text("id").primaryKey(),
+  label: text("label").notNull(),
+});
+
+const upNotes = sqliteTable("up_notes", {
+  id: text("id").primaryKey(),
+  ownerId: text("ownerId").notNull(),
+  body: text("body").notNull(),
+  deletedAt: integer("deletedAt"),
+});
+
+const injectUser = (req: Request, _res: Response, next: NextFunction) => {
+  (req as any).user = { id: "u1", sessionId: "s1", sessionExpiresAt: new Date(Date.now() + 3600000) };
+  next();
+};
+
+const collectData = (baseUrl: string, path: string, waitMs: number, onReady?: () => Promise<void>) =>
+  new Promise<any[]>((resolve) => {
+    const events: any[] = [];
+    const req = http.get(new URL(path, baseUrl), (res) => {
+      let buffer = "";
+      res.on("data", (chunk) => {
+        buffer += chunk.toString();
+        const blocks = buffer.split("\n\n");
+        buffer = blocks.pop() ?? "";
+        for (const block of blocks) {
+          const data = block.match(/^data: (.+)$/m);
+          if (data && !block.includes("event: connected")) {
+            events.push(JSON.parse(data[1]!));
+          }
+        }
+      });
+      setTimeout(async () => {
+        await onReady?.();
+      }, 100);
+    });
+    setTimeout(() => {
+      req.destroy();
+      resolve(events);
+    }, waitMs);
+  });
+
+describe("Upsert", () => {
+  let app: Express;
+  let server: http.Server;
+  let baseUrl: string;
+  let libsqlClient: ReturnType<typeof createLibsqlClient>;
+  let tempDir: string;
+  let hookCalls: string[];
+
+  beforeAll(() => {
+    tempDir = mkdtempSync(join(tmpdir(), "concave-upsert-"));
+  });
+
+  afterAll(() => {
+    try {
+      rmSync(tempDir, { recursive: true, force: true });
+    } catch {}
+  });
+
+  beforeEach(async () => {
+    libsqlClient = createLibsqlClient({ url: `file:${join(tempDir, `test-${Date.now()}.db`)}` });
+    const db = drizzle(libsqlClient);
+    hookCalls = [];
+
+    await libsqlClient.execute(`
+      CREATE TABLE up_contacts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        email TEXT NOT NULL UNIQUE,
+        name TEXT NOT NULL
+      )
+    `);
+    await libsqlClient.execute(`CREATE TABLE up_tags (id TEXT PRIMARY KEY, label TEXT NOT NULL)`);
+    await libsqlClient.execute(
+      `CREATE TABLE up_notes (id TEXT PRIMARY KEY, ownerId TEXT NOT NULL, body TEXT NOT NULL, deletedAt INTEGER)`
+    );
+    await libsqlClient.execute("INSERT INTO up_contacts (email, name) VALUES ('ada@example.com', 'Ada')");
+    await changelog.clear();
+
+    app = express();
+    app.use(express.json());
+    app.use(injectUser);
+    app.use(
+      "/contacts",
+      useResource(upContacts, {
+        id: upContacts.id,
+        db,
+        upsert: { target: [upContacts.email] },
+        hooks: {
+          onBeforeCreate: async (_ctx, data) => {
+            hookCalls.push("create");
+            return data;
+          },
+          onBeforeUpdate: async (_ctx, id, data) => {
+            hookCalls.push(`update:${id}`);
+            return data;
+          },
+        },
+      })
+    );
+    app.use("/tags", useResource(upTags, { id: upTags.id, db }));
+    app.use(
+      "/fixed-tags",
+      useResource(upTags, { id: upTags.id, db, auth: { create: async () => emptyScope() } })
+    );
+    app.use(
+      "/notes",
+      useResource(upNotes, {
+        id: upNotes.id,
+        db,
+        softDelete: { column: upNotes.deletedAt },
+        auth: {
+          update: async (user) => rsql`ownerId==${user.id}`,
+          restore: async (user) => rsql`ownerId==${user.id}`,
+        },
+        hooks: {
+          onBeforeCreate: async (_ctx, data) => {
+            hookCalls.push("create");
+            // Another request inserting the same row between lookup and insert
+            if (data.body === "raced") {
+              await libsqlClient.execute(
+                "INSERT INTO up_notes (id, ownerId, body) VALUES ('n-raced', 'u1', 'first')"
+              );
+            }
+            return data;
+          },
+          onBeforeUpdate: async (_ctx, id, data) => {
+            hookCalls.push(`update:${id}`);
+            return data;
+          },
+        },
+      })
+    );
+    app.use(errorMiddleware);
+
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as any).port}`;
+  });
+
+  afterEach(async () => {
+    await clearAllSubscriptions();
+    await new Promise((resolve) => server.close(resolve));
+    libsqlClient.close();
+  });
+
+  it("should create when no row holds the conflict target", async () => {
+    const res = await request(app)
+      .post("/contacts/upsert")
+      .send({ email: "bob@example.com", name: "Bob" });
+
+    expect(res.status).toBe(201);
+    expect(res.body).toMatchObject({ id: 2, email: "bob@example.com", name: "Bob" });
+    expect(res.headers.etag).toBeDefined();
+    expect(hookCalls).toEqual(["create"]);
+  });
+
+  it("should update the row holding the conflict target", async () => {
+    const res = await request(app)
+      .post("/contacts/upsert")
+      .send({ email: "ada@example.com", name: "Ada Lovelace" });
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ id: 1, name: "Ada Lovelace" });
+    expect(hookCalls).toEqual(["update:1"]);
+
+    const stored = await libsqlClient.execute("SELECT COUNT(*) AS n FROM up_contacts");
+    expect(stored.rows[0]!.n).toBe(1);
+  });
+
+  it("should default the conflict target to the id column", async () => {
+    const created = await request(app).post("/tags/upsert").send({ id: "red", label: "Red" });
+    expect(created.status).toBe(201);
+
+    const updated = await request(app).post("/tags/upsert").send({ id: "red", label: "Crimson" });
+    expect(updated.status).toBe(200);
+    expect(updated.body.label).toBe("Crimson");
+  });
+
+  it("should require the conflict target", async () => {
+    const res = await request(app).post("/tags/upsert").send({ label: "No id" });
+
+    expect(res.status).toBe(400);
+  });
+
+  it("should check If-Match only against an existing row", async () => {
+    const stale = await request(app)
+      .post("/contacts/upsert")
+      .set("If-Match", '"stale"')
+      .send({ email: "ada@example.com", name: "Ada" });
+    expect(stale.status).toBe(412);
+
+    const fresh = await request(app)
+      .post("/contacts/upsert")
+      .set("If-Match", '"stale"')
+      .send({ email: "eve@example.com", name: "Eve" });
+    expect(fresh.status).toBe(201);
+  });
+
+  it("should upsert in batch", async () => {
+    const res = await request(app)
+      .post("/contacts/batch/upsert")
+      .send({
+        items: [
+          { email: "ada@example.com", name: "Ada L." },
+          { email: "bob@example.com", name: "Bob" },
+        ],
+      });
+
+    expect(res.status).toBe(200);
+    expect(res.body.created).toBe(1);
+    expect(res.body.updated).toBe(1);
+    expect(res.body.items.map((c: any) => c.name)).toEqual(["Ada L.", "Bob"]);
+  });
+
+  it("should record a create or update in the changelog", async () => {
+    await request(app).post("/contacts/upsert").send({ email: "bob@example.com", name: "Bob" });
+    await request(app).post("/contacts/upsert").send({ email: "bob@example.com", name: "Bobby" });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    const entries = await changelog.getEntriesSince("up_contacts", 0);
+    expect(entries.map((e) => e.type)).toEqual(["create", "update"]);
+  });
+
+  it("should emit added for inserts and changed for updates", async () => {
+    const events = await collectData(baseUrl, "/contacts/subscribe", 600, async () => {
+      await request(app).post("/contacts/upsert").send({ email: "bob@example.com", name: "Bob" });
+      await request(app).post("/contacts/upsert").send({ email: "ada@example.com", name: "Ada L." });
+    });
+
+    expect(events.map((e) => e.type)).toEqual(["existing", "added", "changed"]);
+    expect(events[1].object.name).toBe("Bob");
+    expect(events[2].object.name).toBe("Ada L.");
+  });
+
+  it("should not revive a soft-deleted row outside the caller's scopes", async () => {
+    await libsqlClient.execute(
+      "INSERT INTO up_notes (id, ownerId, body, deletedAt) VALUES ('n1', 'u2', 'theirs', 1)"
+    );
+
+    const res = await request(app)
+      .post("/notes/upsert")
+      .send({ id: "n1", ownerId: "u1", body: "mine now" });
+
+    expect(res.status).toBe(403);
+    expect(hookCalls).toEqual([]);
+    const stored = await libsqlClient.execute("SELECT * FROM up_notes WHERE id = 'n1'");
+    expect(stored.rows[0]).toMatchObject({ ownerId: "u2", body: "theirs", deletedAt: 1 });
+  });
+
+  it("should revive an own soft-deleted row as an update", async () => {
+    await libsqlClient.execute(
+      "INSERT INTO up_notes (id, ownerId, body, deletedAt) VALUES ('n1', 'u1', 'old', 1)"
+    );
+
+    const res = await request(app)
+      .post("/notes/upsert")
+      .send({ id: "n1", ownerId: "u1", body: "back" });
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ body: "back", deletedAt: null });
+    expect(hookCalls).toEqual(["update:n1"]);
+
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    const entries = await changelog.getEntriesSince("up_notes", 0);
+    expect(entries.map((e) => e.type)).toEqual(["create"]);
+  });
+
+  it("should keep the primary key when the conflict target is another column", async () => {
+    const res = await request(app)
+      .post("/contacts/upsert")
+      .send({ id: 99, email: "ada@example.com", name: "Ada L." })
+      .expect(200);
+
+    expect(res.body.id).toBe(1);
+    const rows = await libsqlClient.execute("SELECT id, name FROM up_contacts");
+    expect(rows.rows.map((row) => [row.id, row.name])).toEqual([[1, "Ada L."]]);
+  });
+
+  it("should only need create permission when the upsert inserts", async () => {
+    await libsqlClient.execute("INSERT INTO up_tags (id, label) VALUES ('t-fixed', 'old')");
+
+    const updated = await request(app)
+      .post("/fixed-tags/upsert")
+      .send({ id: "t-fixed", label: "new" })
+      .expect(200);
+    expect(updated.body.label).toBe("new");
+
+    await request(app).post("/fixed-tags/upsert").send({ id: "t-new", label: "x" }).expect(403);
+  });
+
+  it("should update a row a concurrent request inserted first", async () => {
+    const res = await request(app)
+      .post("/notes/upsert")
+      .send({ id: "n-raced", ownerId: "u1", body: "raced" });
+
+    // The conflict is resolved in the same statement, so the upsert still
+    // reports what it saw when it read: a create
+    expect(res.status).toBe(201);
+    expect(res.body.body).toBe("raced");
+    expect(hookCalls).toEqual(["create"]);
+
+    const rows = await libsqlClient.execute("SELECT body FROM up_notes WHERE id = 'n-raced'");
+    expect(rows.rows.map((row) => row.body)).toEqual(["raced"]);
+  });
+});
@@ -657,6 +657,131 @@ describe("useResource Integration Tests", () => {
     });
   });
 
+  describe("Transactional Writes", () => {
+    const mount = (hooks: Parameters<typeof useResource>[1]["hooks"], transactional = true) => {
+      app.use(
+        "/users",
+        useResource(testUsersTable, {
+          id: testUsersTable.id,
+          db,
+          transactional,
+          hooks,
+        })
+      );
+      app.use(errorHandler);
+    };
+
+    const countUsers = async () => {
+      const result = await libsqlClient.execute("SELECT COUNT(*) as c FROM test_users");
+      return Number(result.rows[0].c);
+    };
+
+    it("should roll back a create when an after hook throws", async () => {
+      mount({
+        onAfterCreate: async () => {
+          throw new Error("audit failed");
+        },
+      });
+
+      const response = await request(app)
+        .post("/users")
+        .send({ name: "Test", email: "test@test.com", age: 25 });
+
+      expect(response.status).toBe(500);
+      expect(await countUsers()).toBe(0);
+    });
+
+    it("should keep the create without transactional", async () => {
+      mount(
+        {
+          onAfterCreate: async () => {
+            throw new Error("audit failed");
+          },
+        },
+        false
+      );
+
+      await request(app)
+        .post("/users")
+        .send({ name: "Test", email: "test@test.com", age: 25 });
+
+      expect(await countUsers()).toBe(1);
+    });
+
+    it("should roll back an update when an after hook throws", async () => {
+      await libsqlClient.execute(
+        "INSERT INTO test_users (name, email, age) VALUES ('Original', 'a@test.com', 30)"
+      );
+      mount({
+        onAfterUpdate: async () => {
+          throw new Error("audit failed");
+        },
+      });
+
+      const response = await request(app).patch("/users/1").send({ name: "Changed" });
+
+      expect(response.status).toBe(500);
+      const result = await libsqlClient.execute("SELECT name FROM test_users WHERE id = 1");
+      expect(result.rows[0].name).toBe("Original");
+    });
+
+    it("should roll back a delete when an after hook throws", async () => {
+      await libsqlClient.execute(
+        "INSERT INTO test_users (name, email, age) VALUES ('Original', 'a@test.com', 30)"
+      );
+      mount({
+        onAfterDelete: async () => {
+          throw new Error("audit failed");
+        },
+      });
+
+      const response = await request(app).delete("/users/1");
+
+      expect(response.status).toBe(500);
+      expect(await countUsers()).toBe(1);
+    });
+
+    it("should run hook writes through ctx.db in the same transaction", async () => {
+      mount({
+        onAfterCreate: async (ctx, created) => {
+          await ctx.db.insert(testUsersTable).values({
+            name: `${created.name} (copy)`,
+            email: "copy@test.com",
+            age: 1,
+          });
+          throw new Error("audit failed");
+        },
+      });
+
+      await request(app)
+        .post("/users")
+        .send({ name: "Test", email: "test@test.com", age: 25 });
+
+      expect(await countUsers()).toBe(0);
+    });
+
+    it("should roll back a batch create when an after hook throws", async () => {
+      let calls = 0;
+      mount({
+        onAfterCreate: async () => {
+          if (++calls === 2) throw new Error("audit failed");
+        },
+      });
+
+      const response = await request(app)
+        .post("/users/batch")
+        .send({
+          items: [
+            { name: "A", email: "a@test.com", age: 20 },
+            { name: "B", email: "b@test.com", age: 21 },
+          ],
+        });
+
+      expect(response.status).toBe(500);
+      expect(await countUsers()).toBe(0);
+    });
+  });
+
   describe("Pagination Configuration", () => {
     beforeEach(async () => {
       app.use(
@@ -0,0 +1,310 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from "vitest";
+import express, { Express, Request, Response, NextFunction } from "express";
+import request from "supertest";
+import { sqliteTable, text, integer } from "drizzle-orm/sqlite-core";
+import { drizzle } from "drizzle-orm/libsql";
+import { createClient } from "@libsql/client";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { useResource } from "@/resource/hook";
+import { RelationsConfig } from "@/resource/relations";
+import {
+  createSubscription,
+  registerHandler,
+  removeSubscription,
+} from "@/resource/subscription";
+import { emptyScope } from "@/auth/rsql";
+
+const orders = sqliteTable("nw_orders", {
+  id: text("id").primaryKey(),
+  customer: text("customer").notNull(),
+});
+
+const orderItems = sqliteTable("nw_order_items", {
+  id: text("id").primaryKey(),
+  orderId: text("orderId").notNull(),
+  sku: text("sku").notNull(),
+  quantity: integer("quantity").notNull(),
+});
+
+const shipments = sqliteTable("nw_shipments", {
+  id: text("id").primaryKey(),
+  orderId: text("orderId").notNull(),
+  address: text("address").notNull(),
+});
+
+const notes = sqliteTable("nw_notes", {
+  id: text("id").primaryKey(),
+  orderId: text("orderId").notNull(),
+  body: text("body").notNull(),
+});
+
+const labels = sqliteTable("nw_labels", {
+  id: text("id").primaryKey(),
+  name: text("name").notNull(),
+});
+
+const orderLabels = sqliteTable("nw_order_labels", {
+  orderId: text("orderId").notNull(),
+  labelId: text("labelId").notNull(),
+});
+
+const orderRelations: RelationsConfig = {
+  items: {
+    resource: "nw_order_items",
+    schema: orderItems,
+    type: "hasMany",
+    foreignKey: orderItems.orderId,
+    references: orders.id,
+    writable: true,
+  },
+  shipment: {
+    resource: "nw_shipments",
+    schema: shipments,
+    type: "hasOne",
+    foreignKey: shipments.orderId,
+    references: orders.id,
+    writable: true,
+  },
+  notes: {
+    resource: "nw_notes",
+    schema: notes,
+    type: "hasMany",
+    foreignKey: notes.orderId,
+    references: orders.id,
+    writable: true,
+  },
+  labels: {
+    resource: "nw_labels",
+    schema: labels,
+    type: "manyToMany",
+    foreignKey: orders.id,
+    references: labels.id,
+    through: { schema: orderLabels, sourceKey: orderLabels.orderId, targetKey: orderLabels.labelId },
+    writable: true,
+  },
+  // Readable with include, but not written through the order
+  lines: {
+    resource: "nw_order_items",
+    schema: orderItems,
+    type: "hasMany",
+    foreignKey: orderItems.orderId,
+    references: orders.id,
+  },
+};
+
+const injectUser = (req: Request, _res: Response, next: NextFunction) => {
+  (req as any).user = { id: "u1", sessionId: "s1", sessionExpiresAt: new Date(Date.now() + 3600000) };
+  next();
+};
+
+describe("Nested writes", () => {
+  let client: ReturnType<typeof createClient>;
+  let db: ReturnType<typeof drizzle>;
+  let app: Express;
+  let tempDir: string;
+  let dbCount = 0;
+
+  const count = async (table: string) => {
+    const result = await client.execute(`SELECT COUNT(*) AS n FROM ${table}`);
+    return Number(result.rows[0]!.n);
+  };
+
+  // Nested writes run in a transaction, which an in-memory libsql database does not survive
+  beforeAll(() => {
+    tempDir = mkdtempSync(join(tmpdir(), "concave-nested-writes-"));
+  });
+
+  afterAll(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    client = createClient({ url: `file:${join(tempDir, `test-${++dbCount}.db`)}` });
+    await client.executeMultiple(`
+      CREATE TABLE nw_orders (id TEXT PRIMARY KEY, customer TEXT NOT NULL);
+      CREATE TABLE nw_order_items (id TEXT PRIMARY KEY, orderId TEXT NOT NULL, sku TEXT NOT NULL, quantity INTEGER NOT NULL);
+      CREATE TABLE nw_shipments (id TEXT PRIMARY KEY, orderId TEXT NOT NULL, address TEXT NOT NULL);
+      CREATE TABLE nw_notes (id TEXT PRIMARY KEY, orderId TEXT NOT NULL, body TEXT NOT NULL);
+      CREATE TABLE nw_labels (id TEXT PRIMARY KEY, name TEXT NOT NULL);
+      CREATE TABLE nw_order_labels (orderId TEXT NOT NULL, labelId TEXT NOT NULL);
+
+      INSERT INTO nw_labels VALUES ('l1', 'rush'), ('l2', 'gift');
+    `);
+    db = drizzle(client);
+
+    app = express();
+    app.use(express.json());
+    app.use(injectUser);
+    app.use(
+      "/items",
+      useResource(orderItems, {
+        id: orderItems.id,
+        db,
+        hooks: {
+          onBeforeCreate: async (_ctx, data) => ({ ...data, sku: String(data.sku).toUpperCase() }),
+        },
+      })
+    );
+    app.use("/shipments", useResource(shipments, { id: shipments.id, db }));
+    app.use(
+      "/notes",
+      useResource(notes, { id: notes.id, db, auth: { create: async () => emptyScope() } })
+    );
+    app.use("/labels", useResource(labels, { id: labels.id, db }));
+    app.use("/orders", useResource(orders, { id: orders.id, db, relations: orderRelations }));
+  });
+
+  afterEach(() => {
+    client.close();
+  });
+
+  it("should create a parent with hasMany and hasOne rows in one request", async () => {
+    const res = await request(app)
+      .post("/orders")
+      .send({
+        id: "o1",
+        customer: "Ada",
+        items: [
+          { id: "i1", sku: "abc", quantity: 2 },
+          { id: "i2", sku: "def", quantity: 1 },
+        ],
+        shipment: { id: "s1", address: "1 Loop St" },
+      })
+      .expect(201);
+
+    expect(res.body.id).toBe("o1");
+    expect(res.body.items.map((i: { sku: string }) => i.sku).sort()).toEqual(["ABC", "DEF"]);
+    expect(res.body.items.every((i: { orderId: string }) => i.orderId === "o1")).toBe(true);
+    expect(res.body.shipment).toMatchObject({ id: "s1", orderId: "o1" });
+  });
+
+  it("should roll everything back when a related row fails", async () => {
+    await request(app)
+      .post("/orders")
+      .send({ id: "o1", customer: "Ada", items: [{ id: "i1", sku: "abc", quantity: 2 }, { id: "i2" }] })
+      .expect(400);
+
+    expect(await count("nw_orders")).toBe(0);
+    expect(await count("nw_order_items")).toBe(0);
+  });
+
+  it("should enforce the related resource's create scope", async () => {
+    await request(app)
+      .post("/orders")
+      .send({ id: "o1", customer: "Ada", notes: [{ id: "n1", body: "Leave at door" }] })
+      .expect(403);
+
+    expect(await count("nw_orders")).toBe(0);
+  });
+
+  it("should reject malformed relation values", async () => {
+    await request(app)
+      .post("/orders")
+      .send({ id: "o1", customer: "Ada", items: { id: "i1" } })
+      .expect(400);
+
+    await request(app)
+      .post("/orders")
+      .send({ id: "o1", customer: "Ada", labels: { attach: ["l1"] } })
+      .expect(400);
+  });
+
+  it("should create, connect and disconnect many-to-many rows", async () => {
+    await request(app)
+      .post("/orders")
+      .send({ id: "o1", customer: "Ada", labels: { connect: ["l1"], create: [{ id: "l3", name: "fragile" }] } })
+      .expect(201);
+
+    const res = await request(app)
+      .patch("/orders/o1")
+      .send({ labels: { connect: ["l2", "l3"], disconnect: ["l1"] } })
+      .expect(200);
+
+    expect(res.body.customer).toBe("Ada");
+    expect(res.body.labels.map((l: { id: string }) => l.id).sort()).toEqual(["l2", "l3"]);
+    expect(await count("nw_order_labels")).toBe(2);
+  });
+
+  it("should not connect rows the caller cannot see", async () => {
+    await request(app).post("/orders").send({ id: "o1", customer: "Ada" }).expect(201);
+
+    await request(app)
+      .patch("/orders/o1")
+      .send({ customer: "Grace", labels: { connect: ["l1", "missing"] } })
+      .expect(404);
+
+    const order = await request(app).get("/orders/o1").expect(200);
+    expect(order.body.customer).toBe("Ada");
+    expect(await count("nw_order_labels")).toBe(0);
+  });
+
+  it("should refuse a second hasOne row", async () => {
+    await request(app)
+      .post("/orders")
+      .send({ id: "o1", customer: "Ada", shipment: { id: "s1", address: "1 Loop St" } })
+      .expect(201);
+
+    await request(app)
+      .patch("/orders/o1")
+      .send({ shipment: { id: "s2", address: "2 Loop St" } })
+      .expect(409);
+  });
+
+  it("should leave relations that are not writable out of the write", async () => {
+    await request(app)
+      .post("/orders")
+      .send({ id: "o1", customer: "Ada", items: [{ id: "i1", sku: "abc", quantity: 2 }] })
+      .expect(201);
+
+    const order = await request(app).get("/orders/o1").query({ include: "lines" }).expect(200);
+    expect(order.body.lines).toHaveLength(1);
+
+    // Writing back an object read with include
+    const res = await request(app)
+      .patch("/orders/o1")
+      .send({ ...order.body, customer: "Grace" })
+      .expect(200);
+
+    expect(res.body.customer).toBe("Grace");
+    expect(await count("nw_order_items")).toBe(1);
+  });
+
+  it("should emit added events for every affected resource after commit", async () => {
+    const chunks: string[] = [];
+    registerHandler("nw-handler", {
+      write: vi.fn((data: string) => chunks.push(data) > 0),
+      writableEnded: false,
+      end: vi.fn(),
+    } as unknown as Response);
+
+    const subscriptions = [
+      await createSubscription({ resource: "nw_orders", filter: "", handlerId: "nw-handler", authId: "u1" }),
+      await createSubscription({ resource: "nw_order_items", filter: "", handlerId: "nw-handler", authId: "u1" }),
+      await createSubscription({ resource: "nw_shipments", filter: "", handlerId: "nw-handler", authId: "u1" }),
+    ];
+
+    await request(app)
+      .post("/orders")
+      .send({
+        id: "o1",
+        customer: "Ada",
+        items: [{ id: "i1", sku: "abc", quantity: 1 }],
+        shipment: { id: "s1", address: "1 Loop St" },
+      })
+      .expect(201);
+
+    const added = chunks
+      .filter((c) => c.startsWith("data: "))
+      .map((c) => JSON.parse(c.slice(6).trim()))
+      .filter((e) => e.type === "added")
+      .map((e) => e.object.id)
+      .sort();
+    expect(added).toEqual(["i1", "o1", "s1"]);
+
+    for (const id of subscriptions) {
+      await removeSubscription(id);
+    }
+  });
+});
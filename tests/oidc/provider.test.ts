@@ -1,9 +1,11 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
 import express, { Express } from "express";
 import request from "supertest";
+import { AddressInfo } from "net";
 import { createOIDCProvider } from "../../src/oidc/provider";
 import { createKeyManager } from "../../src/oidc/keys";
 import { generateDiscoveryDocument } from "../../src/oidc/discovery";
+import { createOIDCAdapter } from "../../src/auth/adapters/oidc";
 import { OIDCClient, OIDCProviderConfig, OIDCUser } from "../../src/oidc/types";
 
 const testUser: OIDCUser = {
@@ -378,6 +380,327 @@ describe("OIDC Provider", () => {
     });
   });
 
+  describe("Introspection and Revocation", () => {
+    const resourceServer: OIDCClient = {
+      ...testClient,
+      id: "resource-server",
+      secret: "rs-secret",
+      name: "Resource Server",
+      tokenEndpointAuthMethod: "client_secret_basic",
+    };
+
+    const basicAuth = (client: OIDCClient) =>
+      `Basic ${Buffer.from(`${client.id}:${client.secret}`).toString("base64")}`;
+
+    const setup = (overrides: Partial<OIDCProviderConfig> = {}) => {
+      const provider = createOIDCProvider(
+        createTestConfig({ clients: [testClient, resourceServer], ...overrides })
+      );
+      const app = express();
+      app.use(express.json());
+      app.use(express.urlencoded({ extended: true }));
+      app.use("/oidc", provider.router);
+      app.use(provider.middleware);
+      app.get("/protected", (_req, res) => {
+        res.json({ ok: true });
+      });
+      return { app, ...provider };
+    };
+
+    const issueTokens = (tokenService: ReturnType<typeof setup>["tokenService"]) =>
+      tokenService.generateTokenSet({
+        user: testUser,
+        client: testClient,
+        scope: "openid profile offline_access",
+      });
+
+    it("should advertise endpoint auth methods", () => {
+      const doc = generateDiscoveryDocument(createTestConfig());
+
+      expect(doc.introspection_endpoint).toBe("https://auth.example.com/introspect");
+      expect(doc.introspection_endpoint_auth_methods_supported).toContain("client_secret_basic");
+      expect(doc.revocation_endpoint).toBe("https://auth.example.com/revoke");
+    });
+
+    it("should introspect an active access token", async () => {
+      const { app, tokenService } = setup();
+      const tokens = await issueTokens(tokenService);
+
+      const res = await request(app)
+        .post("/oidc/introspect")
+        .set("Authorization", basicAuth(resourceServer))
+        .type("form")
+        .send({ token: tokens.access_token });
+
+      expect(res.status).toBe(200);
+      expect(res.headers["cache-control"]).toBe("no-store");
+      expect(res.body.active).toBe(true);
+      expect(res.body.sub).toBe("user-123");
+      expect(res.body.client_id).toBe("test-client");
+      expect(res.body.token_type).toBe("Bearer");
+    });
+
+    it("should introspect a refresh token", async () => {
+      const { app, tokenService } = setup();
+      const tokens = await issueTokens(tokenService);
+
+      const res = await request(app)
+        .post("/oidc/introspect")
+        .set("Authorization", basicAuth(resourceServer))
+        .type("form")
+        .send({ token: tokens.refresh_token, token_type_hint: "refresh_token" });
+
+      expect(res.body.active).toBe(true);
+      expect(res.body.token_type).toBe("refresh_token");
+      expect(res.body.scope).toBe("openid profile offline_access");
+    });
+
+    it("should report unknown tokens as inactive", async () => {
+      const { app } = setup();
+
+      const res = await request(app)
+        .post("/oidc/introspect")
+        .set("Authorization", basicAuth(resourceServer))
+        .type("form")
+        .send({ token: "not-a-token" });
+
+      expect(res.status).toBe(200);
+      expect(res.body).toEqual({ active: false });
+    });
+
+    it("should require confidential client authentication for introspection", async () => {
+      const { app } = setup();
+
+      const publicClient = await request(app)
+        .post("/oidc/introspect")
+        .type("form")
+        .send({ token: "anything", client_id: "test-client" });
+      expect(publicClient.status).toBe(401);
+
+      const wrongSecret = await request(app)
+        .post("/oidc/introspect")
+        .set("Authorization", basicAuth({ ...resourceServer, secret: "wrong" }))
+        .type("form")
+        .send({ token: "anything" });
+      expect(wrongSecret.status).toBe(401);
+      expect(wrongSecret.body.error).toBe("invalid_client");
+    });
+
+    it("should enforce the registered token endpoint auth method", async () => {
+      const { app } = setup();
+
+      const res = await request(app)
+        .post("/oidc/introspect")
+        .type("form")
+        .send({ token: "anything", client_id: resourceServer.id, client_secret: resourceServer.secret });
+
+      expect(res.status).toBe(401);
+    });
+
+    it("should not enforce the registered auth method at the token endpoint", async () => {
+      const { app } = setup();
+
+      const res = await request(app)
+        .post("/oidc/token")
+        .type("form")
+        .send({
+          grant_type: "refresh_token",
+          refresh_token: "unknown",
+          client_id: resourceServer.id,
+          client_secret: resourceServer.secret,
+        });
+
+      expect(res.status).toBe(400);
+      expect(res.body.error).toBe("invalid_grant");
+    });
+
+    it("should revoke an access token everywhere it is checked", async () => {
+      const { app, tokenService } = setup();
+      const tokens = await issueTokens(tokenService);
+
+      const revoke = await request(app)
+        .post("/oidc/revoke")
+        .type("form")
+        .send({ token: tokens.access_token, token_type_hint: "access_token", client_id: "test-client" });
+      expect(revoke.status).toBe(200);
+
+      const introspection = await request(app)
+        .post("/oidc/introspect")
+        .set("Authorization", basicAuth(resourceServer))
+        .type("form")
+        .send({ token: tokens.access_token });
+      expect(introspection.body.active).toBe(false);
+
+      const userinfo = await request(app)
+        .get("/oidc/userinfo")
+        .set("Authorization", `Bearer ${tokens.access_token}`);
+      expect(userinfo.status).toBe(401);
+
+      const protectedRoute = await request(app)
+        .get("/protected")
+        .set("Authorization", `Bearer ${tokens.access_token}`);
+      expect(protectedRoute.status).toBe(401);
+    });
+
+    it("should revoke a refresh token", async () => {
+      const { app, tokenService } = setup();
+      const tokens = await issueTokens(tokenService);
+
+      await request(app)
+        .post("/oidc/revoke")
+        .type("form")
+        .send({ token: tokens.refresh_token, client_id: "test-client" })
+        .expect(200);
+
+      const refresh = await request(app)
+        .post("/oidc/token")
+        .type("form")
+        .send({ grant_type: "refresh_token", refresh_token: tokens.refresh_token, client_id: "test-client" });
+      expect(refresh.status).toBe(400);
+      expect(refresh.body.error).toBe("invalid_grant");
+    });
+
+    it("should refuse to revoke another client's token", async () => {
+      const { app, tokenService } = setup();
+      const tokens = await issueTokens(tokenService);
+
+      const res = await request(app)
+        .post("/oidc/revoke")
+        .set("Authorization", basicAuth(resourceServer))
+        .type("form")
+        .send({ token: tokens.refresh_token });
+
+      expect(res.status).toBe(400);
+
+      const introspection = await request(app)
+        .post("/oidc/introspect")
+        .set("Authorization", basicAuth(resourceServer))
+        .type("form")
+        .send({ token: tokens.refresh_token });
+      expect(introspection.body.active).toBe(true);
+    });
+
+    it("should answer 200 for unknown tokens", async () => {
+      const { app } = setup();
+
+      const res = await request(app)
+        .post("/oidc/revoke")
+        .type("form")
+        .send({ token: "unknown", client_id: "test-client" });
+
+      expect(res.status).toBe(200);
+    });
+
+    it("should issue, introspect and revoke opaque access tokens", async () => {
+      const { app, tokenService } = setup({
+        tokens: { accessToken: { format: "opaque" } },
+      });
+      const tokens = await issueTokens(tokenService);
+
+      expect(tokens.access_token.split(".")).toHaveLength(1);
+
+      const active = await request(app)
+        .post("/oidc/introspect")
+        .set("Authorization", basicAuth(resourceServer))
+        .type("form")
+        .send({ token: tokens.access_token });
+      expect(active.body.active).toBe(true);
+      expect(active.body.sub).toBe("user-123");
+
+      await request(app)
+        .get("/oidc/userinfo")
+        .set("Authorization", `Bearer ${tokens.access_token}`)
+        .expect(200);
+
+      await request(app)
+        .post("/oidc/revoke")
+        .type("form")
+        .send({ token: tokens.access_token, client_id: "test-client" })
+        .expect(200);
+
+      const revoked = await request(app)
+        .post("/oidc/introspect")
+        .set("Authorization", basicAuth(resourceServer))
+        .type("form")
+        .send({ token: tokens.access_token });
+      expect(revoked.body.active).toBe(false);
+    });
+
+    it("should let the OIDC auth adapter accept live tokens and reject revoked ones", async () => {
+      const app = express();
+      app.use(express.urlencoded({ extended: true }));
+      const server = app.listen(0);
+      const port = (server.address() as AddressInfo).port;
+      const issuer = `http://127.0.0.1:${port}/oidc`;
+      let introspections = 0;
+      app.use("/oidc/introspect", (_req, _res, next) => {
+        introspections++;
+        next();
+      });
+
+      try {
+        const { router, tokenService } = createOIDCProvider(
+          createTestConfig({ issuer, clients: [testClient, resourceServer] })
+        );
+        app.use("/oidc", router);
+
+        const provider = {
+          name: "local",
+          issuer,
+          clientId: resourceServer.id,
+          clientSecret: resourceServer.secret!,
+          introspectTokens: true,
+        };
+        const adapter = createOIDCAdapter({
+          baseUrl: "http://localhost:3000",
+          providers: [provider],
+          introspectionCacheTtlMs: 30000,
+        });
+
+        const tokens = await tokenService.generateTokenSet({
+          user: testUser,
+          client: resourceServer,
+          scope: "openid profile",
+        });
+        const accepted = await adapter.validateCredentials({
+          type: "bearer",
+          token: tokens.access_token,
+        });
+        expect(accepted.success).toBe(true);
+        expect(accepted.user?.id).toBe("user-123");
+
+        // The second request is answered from the adapter's cache
+        const cached = await adapter.validateCredentials({
+          type: "bearer",
+          token: tokens.access_token,
+        });
+        expect(cached.user?.id).toBe("user-123");
+        expect(introspections).toBe(1);
+
+        await adapter.revokeToken("local", tokens.access_token);
+        const rejected = await adapter.validateCredentials({
+          type: "bearer",
+          token: tokens.access_token,
+        });
+        expect(rejected.success).toBe(false);
+        expect(introspections).toBe(2);
+
+        // Without the option every request is introspected
+        const uncached = createOIDCAdapter({ baseUrl: "http://localhost:3000", providers: [provider] });
+        const live = await tokenService.generateTokenSet({
+          user: testUser,
+          client: resourceServer,
+          scope: "openid profile",
+        });
+        await uncached.validateCredentials({ type: "bearer", token: live.access_token });
+        await uncached.validateCredentials({ type: "bearer", token: live.access_token });
+        expect(introspections).toBe(4);
+      } finally {
+        await new Promise((resolve) => server.close(resolve));
+      }
+    });
+  });
+
   describe("Stores", () => {
     it("should store and retrieve authorization codes", async () => {
       const config = createTestConfig();
@@ -0,0 +1,281 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import express, { Express } from "express";
+import request from "supertest";
+import { sqliteTable, text, integer } from "drizzle-orm/sqlite-core";
+import { drizzle } from "drizzle-orm/libsql";
+import { createClient as createLibsqlClient } from "@libsql/client";
+import { useResource } from "@/resource/hook";
+import { errorMiddleware } from "@/middleware/error";
+import { observabilityMiddleware } from "@/middleware/observability";
+import { resetDefaultStore } from "@/middleware/rateLimit";
+import {
+  createMetricsRegistry,
+  instrumentKV,
+  metricsRegistry,
+} from "@/middleware/metrics";
+import {
+  createPrometheusExporter,
+  mergeMetricFamilies,
+  renderPrometheus,
+} from "@/middleware/prometheus";
+import { createSubscriptionSink } from "@/resource/subscription";
+import { changelog, recordCreate } from "@/resource/changelog";
+import { createMemoryKV, getGlobalKV, setGlobalKV, KVAdapter } from "@/kv";
+import { createTaskQueue } from "@/tasks/queue";
+
+const widgets = sqliteTable("widgets", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  name: text("name").notNull(),
+});
+
+// Returns the value of the first sample line matching name and labels
+const sample = (body: string, name: string, labels = ""): number | undefined => {
+  const line = body
+    .split("\n")
+    .find((l) => l.startsWith(`${name}${labels} `) || (labels === "" && l.startsWith(`${name} `)));
+  return line ? Number(line.slice(line.lastIndexOf(" ") + 1)) : undefined;
+};
+
+describe("Prometheus exporter", () => {
+  beforeEach(async () => {
+    metricsRegistry.reset();
+    await changelog.clear();
+  });
+
+  describe("rendering", () => {
+    it("should render counters, gauges and cumulative histogram buckets", () => {
+      const registry = createMetricsRegistry();
+      registry.counter("jobs_total", "Jobs run").inc({ queue: 'a"b' }, 2);
+      registry.gauge("temperature", "Current temperature").set({}, 21.5);
+      const latency = registry.histogram("latency_seconds", "Latency", [0.1, 1]);
+      latency.observe({ op: "get" }, 0.05);
+      latency.observe({ op: "get" }, 0.5);
+      latency.observe({ op: "get" }, 3);
+
+      const body = renderPrometheus(registry.snapshot());
+
+      expect(body).toContain("# HELP jobs_total Jobs run\n# TYPE jobs_total counter");
+      expect(body).toContain('jobs_total{queue="a\\"b"} 2');
+      expect(body).toContain("temperature 21.5");
+      expect(body).toContain('latency_seconds_bucket{op="get",le="0.1"} 1');
+      expect(body).toContain('latency_seconds_bucket{op="get",le="1"} 2');
+      expect(body).toContain('latency_seconds_bucket{op="get",le="+Inf"} 3');
+      expect(body).toContain('latency_seconds_sum{op="get"} 3.55');
+      expect(body).toContain('latency_seconds_count{op="get"} 3');
+    });
+
+    it("should sum series with the same labels when merging snapshots", () => {
+      const a = createMetricsRegistry();
+      const b = createMetricsRegistry();
+      a.counter("hits_total", "Hits").inc({ path: "/x" }, 2);
+      b.counter("hits_total", "Hits").inc({ path: "/x" }, 3);
+      b.counter("hits_total", "Hits").inc({ path: "/y" });
+      a.histogram("d", "D", [1]).observe({}, 0.5);
+      b.histogram("d", "D", [1]).observe({}, 2);
+
+      const body = renderPrometheus(mergeMetricFamilies([a.snapshot(), b.snapshot()]));
+
+      expect(sample(body, "hits_total", '{path="/x"}')).toBe(5);
+      expect(sample(body, "hits_total", '{path="/y"}')).toBe(1);
+      expect(sample(body, "d_bucket", '{le="1"}')).toBe(1);
+      expect(sample(body, "d_count")).toBe(2);
+    });
+  });
+
+  describe("HTTP endpoint", () => {
+    let app: Express;
+    let libsqlClient: ReturnType<typeof createLibsqlClient>;
+
+    beforeAll(async () => {
+      libsqlClient = createLibsqlClient({ url: ":memory:" });
+      await libsqlClient.execute(
+        "CREATE TABLE widgets (id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT NOT NULL)"
+      );
+    });
+
+    afterAll(() => {
+      libsqlClient.close();
+    });
+
+    beforeEach(() => {
+      resetDefaultStore();
+
+      const exporter = createPrometheusExporter({ cluster: false });
+      app = express();
+      app.use(express.json());
+      app.use((req, _res, next) => {
+        (req as any).user = { id: "u1", sessionId: "s1", sessionExpiresAt: new Date(Date.now() + 3600000) };
+        next();
+      });
+      app.use(observabilityMiddleware({ metrics: exporter, logger: { info() {}, warn() {}, error() {} } }));
+      app.get("/metrics", exporter.handler);
+      app.use(
+        "/widgets",
+        useResource(widgets, {
+          id: widgets.id,
+          db: drizzle(libsqlClient),
+          rateLimit: { windowMs: 60000, maxRequests: 3 },
+        })
+      );
+      app.use(errorMiddleware);
+    });
+
+    it("should expose latency histograms by resource and operation", async () => {
+      await request(app).post("/widgets").send({ name: "a" }).expect(201);
+      await request(app).get("/widgets").expect(200);
+
+      const res = await request(app).get("/metrics").expect(200);
+
+      expect(res.headers["content-type"]).toContain("version=0.0.4");
+      expect(
+        sample(
+          res.text,
+          "concave_http_request_duration_seconds_count",
+          '{resource="widgets",operation="create",method="POST",status="201"}'
+        )
+      ).toBe(1);
+      expect(
+        sample(
+          res.text,
+          "concave_http_request_duration_seconds_count",
+          '{resource="widgets",operation="list",method="GET",status="200"}'
+        )
+      ).toBe(1);
+      expect(sample(res.text, "concave_changelog_sequence")).toBe(1);
+    });
+
+    it("should count rate limit rejections per resource", async () => {
+      for (let i = 0; i < 5; i++) {
+        await request(app).get("/widgets");
+      }
+
+      const res = await request(app).get("/metrics");
+      expect(sample(res.text, "concave_rate_limit_rejections_total", '{resource="widgets"}')).toBe(2);
+    });
+  });
+
+  describe("built-in metrics", () => {
+    it("should count backpressure events and report queued bytes", async () => {
+      let buffered = 0;
+      const sink = createSubscriptionSink(
+        {
+          write: (payload) => {
+            buffered += payload.length;
+          },
+          bufferedBytes: () => buffered,
+          isOpen: () => true,
+          close: () => {},
+        },
+        (event) => JSON.stringify(event),
+        () => ({ maxQueueBytes: 10, onBackpressure: "drop" })
+      );
+
+      const event = { id: "e", subscriptionId: "s", seq: 1, timestamp: 0, type: "invalidate" } as const;
+      sink.send(event);
+      sink.send(event);
+      sink.send(event);
+
+      const body = await createPrometheusExporter({ cluster: false }).collect();
+      expect(
+        sample(body, "concave_subscription_backpressure_events_total", '{policy="drop"}')
+      ).toBe(2);
+      expect(sample(body, "concave_subscription_queue_bytes")).toBeGreaterThanOrEqual(buffered);
+    });
+
+    it("should time KV operations through an instrumented adapter", async () => {
+      const kv = instrumentKV(createMemoryKV("test-prometheus-instrumented"));
+      await kv.connect();
+      await kv.set("a", "1");
+      await kv.get("a");
+      await kv.get("a");
+
+      const body = await createPrometheusExporter({ cluster: false }).collect();
+      expect(sample(body, "concave_kv_operation_duration_seconds_count", '{operation="get"}')).toBe(2);
+      expect(sample(body, "concave_kv_operation_duration_seconds_count", '{operation="set"}')).toBe(1);
+      await kv.disconnect();
+    });
+
+    it("should time the global KV adapter without wrapping it by hand", async () => {
+      const kv = createMemoryKV("test-prometheus-global");
+      await kv.connect();
+      setGlobalKV(kv);
+
+      const exporter = createPrometheusExporter({ cluster: false });
+      createPrometheusExporter({ cluster: false });
+      await getGlobalKV().set("a", "1");
+
+      const body = await exporter.collect();
+      expect(sample(body, "concave_kv_operation_duration_seconds_count", '{operation="set"}')).toBe(1);
+      await kv.disconnect();
+    });
+
+    it("should report changelog trim lag", async () => {
+      await recordCreate("widgets", "1", { id: 1 });
+      await recordCreate("widgets", "2", { id: 2 });
+      await recordCreate("widgets", "3", { id: 3 });
+
+      const body = await createPrometheusExporter({ cluster: false }).collect();
+      expect(sample(body, "concave_changelog_sequence")).toBe(3);
+      expect(sample(body, "concave_changelog_entries")).toBe(3);
+      expect(sample(body, "concave_changelog_trim_lag")).toBe(2);
+    });
+  });
+
+  describe("cluster aggregation", () => {
+    let kv: KVAdapter;
+
+    beforeEach(async () => {
+      kv = createMemoryKV("test-prometheus-cluster");
+      await kv.connect();
+      for (const key of await kv.keys("*")) {
+        await kv.del(key);
+      }
+    });
+
+    it("should sum metrics pushed by every process", async () => {
+      const registryA = createMetricsRegistry();
+      const registryB = createMetricsRegistry();
+      const a = createPrometheusExporter({ kv, registry: registryA, instanceId: "a" });
+      const b = createPrometheusExporter({ kv, registry: registryB, instanceId: "b" });
+
+      registryA.counter("concave_test_total", "Test").inc({}, 2);
+      registryB.counter("concave_test_total", "Test").inc({}, 5);
+      await b.push();
+
+      const body = await a.collect();
+      expect(sample(body, "concave_test_total")).toBe(7);
+      expect(sample(body, "concave_metrics_instances")).toBe(2);
+
+      await b.stop();
+      expect(sample(await a.collect(), "concave_test_total")).toBe(2);
+    });
+
+    it("should drop snapshots from processes that stopped pushing", async () => {
+      const a = createPrometheusExporter({
+        kv,
+        registry: createMetricsRegistry(),
+        instanceId: "a",
+        staleAfterMs: 1000,
+      });
+      await kv.hset(
+        "concave:metrics:instances",
+        "gone",
+        JSON.stringify({ at: Date.now() - 5000, families: [] })
+      );
+
+      const body = await a.collect();
+      expect(sample(body, "concave_metrics_instances")).toBe(1);
+      expect(await kv.hkeys("concave:metrics:instances")).toEqual(["a"]);
+    });
+
+    it("should report task queue depth and dead letters from the KV", async () => {
+      const queue = createTaskQueue(kv);
+      await queue.add("t1", 50, Date.now());
+      await queue.add("t2", 50, Date.now());
+
+      const body = await createPrometheusExporter({ kv, registry: createMetricsRegistry() }).collect();
+      expect(sample(body, "concave_task_queue_depth", '{priority="50"}')).toBe(2);
+      expect(sample(body, "concave_task_dead_letter_size")).toBe(0);
+    });
+  });
+});
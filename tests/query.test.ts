@@ -99,6 +99,42 @@ describe("Query Utilities", () => {
       expect(params.max).toEqual([]);
       expect(params.count).toBe(false);
     });
+
+    it("should parse date buckets in groupBy", () => {
+      const params = parseAggregationParams({ groupBy: "status,createdAt:month", timezone: "+02:00" });
+      expect(params.groupBy).toEqual(["status", "createdAt"]);
+      expect(params.buckets).toEqual({ createdAt: "month" });
+      expect(params.timezone).toBe("+02:00");
+    });
+
+    it("should parse distinct counts, percentiles, having, ordering and limit", () => {
+      const params = parseAggregationParams({
+        countDistinct: "customerId",
+        percentile: "latency:50,latency:95",
+        having: "count>10",
+        orderBy: "sum_total:desc,status",
+        limit: "5",
+      });
+      expect(params.countDistinct).toEqual(["customerId"]);
+      expect(params.percentile).toEqual([
+        { field: "latency", percent: 50 },
+        { field: "latency", percent: 95 },
+      ]);
+      expect(params.having).toBe("count>10");
+      expect(params.orderBy).toEqual([
+        { field: "sum_total", direction: "desc" },
+        { field: "status", direction: "asc" },
+      ]);
+      expect(params.limit).toBe(5);
+    });
+
+    it("should reject invalid buckets, percentiles and limits", () => {
+      expect(() => parseAggregationParams({ groupBy: "createdAt:quarter" })).toThrow("Invalid date bucket");
+      expect(() => parseAggregationParams({ groupBy: "status,status" })).toThrow("Duplicate groupBy");
+      expect(() => parseAggregationParams({ percentile: "latency:100" })).toThrow("Invalid percentile");
+      expect(() => parseAggregationParams({ orderBy: "count:up" })).toThrow("Invalid orderBy");
+      expect(() => parseAggregationParams({ limit: "0" })).toThrow("Invalid limit");
+    });
   });
 
   describe("transformAggregationResults", () => {
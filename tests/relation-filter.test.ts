@@ -0,0 +1,261 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+import express, { Express, Request, Response, NextFunction } from "express";
+import request from "supertest";
+import { sqliteTable, text, integer } from "drizzle-orm/sqlite-core";
+import { drizzle } from "drizzle-orm/libsql";
+import { createClient } from "@libsql/client";
+import { useResource, getResourceRegistry } from "@/resource/hook";
+import { createResourceFilter } from "@/resource/filter";
+import { RelationLoader, RelationsConfig } from "@/resource/relations";
+import {
+  createSubscription,
+  registerHandler,
+  unregisterHandler,
+  pushInsertsToSubscriptions,
+} from "@/resource/subscription";
+import { rsql } from "@/auth/rsql";
+
+const users = sqliteTable("rf_users", {
+  id: text("id").primaryKey(),
+  name: text("name").notNull(),
+  email: text("email").notNull(),
+});
+
+const posts = sqliteTable("rf_posts", {
+  id: text("id").primaryKey(),
+  title: text("title").notNull(),
+  authorId: text("author_id"),
+});
+
+const comments = sqliteTable("rf_comments", {
+  id: text("id").primaryKey(),
+  postId: text("post_id").notNull(),
+  authorId: text("author_id").notNull(),
+  status: text("status").notNull(),
+  deletedAt: integer("deleted_at", { mode: "timestamp" }),
+});
+
+const tags = sqliteTable("rf_tags", {
+  id: text("id").primaryKey(),
+  name: text("name").notNull(),
+});
+
+const postTags = sqliteTable("rf_post_tags", {
+  postId: text("post_id").notNull(),
+  tagId: text("tag_id").notNull(),
+});
+
+const postRelations: RelationsConfig = {
+  author: {
+    resource: "rf_users",
+    schema: users,
+    type: "belongsTo",
+    foreignKey: posts.authorId,
+    references: users.id,
+    filterable: true,
+  },
+  comments: {
+    resource: "rf_comments",
+    schema: comments,
+    type: "hasMany",
+    foreignKey: comments.postId,
+    references: posts.id,
+    filterable: true,
+  },
+  tags: {
+    resource: "rf_tags",
+    schema: tags,
+    type: "manyToMany",
+    foreignKey: posts.id,
+    references: tags.id,
+    through: { schema: postTags, sourceKey: postTags.postId, targetKey: postTags.tagId },
+    filterable: true,
+  },
+  reviewer: {
+    resource: "rf_users",
+    schema: users,
+    type: "belongsTo",
+    foreignKey: posts.authorId,
+    references: users.id,
+  },
+};
+
+const injectUser = (req: Request, _res: Response, next: NextFunction) => {
+  (req as any).user = { id: "u1", sessionId: "s1", sessionExpiresAt: new Date(Date.now() + 3600000) };
+  next();
+};
+
+describe("Relation filters", () => {
+  describe("filter expressions", () => {
+    const filter = createResourceFilter(posts, {}, undefined, {
+      author: { config: postRelations.author! },
+      comments: { config: postRelations.comments! },
+      reviewer: { config: postRelations.reviewer! },
+    });
+
+    it("should list the relations a filter reaches into", () => {
+      const compiled = filter.compile('title=="A";(author.name=="Ada",comments=any=(status=="flagged"))');
+      expect(compiled.relations()).toEqual([
+        { path: "author", filter: 'name=="Ada"' },
+        { path: "comments", filter: 'status=="flagged"' },
+      ]);
+    });
+
+    it("should evaluate loaded related rows in memory", () => {
+      const post = {
+        id: "p1",
+        title: "A",
+        author: { id: "u1", name: "Ada" },
+        comments: [
+          { id: "c1", status: "ok", authorId: "u1" },
+          { id: "c2", status: "flagged", authorId: "u2" },
+        ],
+      };
+
+      expect(filter.execute('author.name=="Ada"', post as any)).toBe(true);
+      expect(filter.execute('author.name=="Grace"', post as any)).toBe(false);
+      expect(filter.execute('comments=any=(status=="flagged")', post as any)).toBe(true);
+      expect(
+        filter.execute('comments=any=(status=="flagged")', post as any, {
+          relationScopes: { comments: 'authorId=="u1"' },
+        })
+      ).toBe(false);
+      expect(
+        filter.execute('author.name=="Ada"', post as any, { relationScopes: { author: false } })
+      ).toBe(false);
+      expect(filter.execute('comments.status=="flagged"', { id: "p2" } as any)).toBe(false);
+    });
+
+    it("should reject unknown and non-filterable relations", () => {
+      expect(() => filter.compile('editor.name=="Ada"')).toThrow("Unknown relation: editor");
+      expect(() => filter.compile('reviewer.name=="Ada"')).toThrow("not filterable");
+      expect(() => filter.compile('comments=any=status=="x"')).toThrow("parenthesised");
+    });
+  });
+
+  describe("resources", () => {
+    let client: ReturnType<typeof createClient>;
+    let db: ReturnType<typeof drizzle>;
+    let app: Express;
+
+    const titles = (res: { body: { items: { title: string }[] } }) =>
+      res.body.items.map((item) => item.title).sort();
+
+    beforeAll(async () => {
+      client = createClient({ url: ":memory:" });
+      await client.executeMultiple(`
+        CREATE TABLE rf_users (id TEXT PRIMARY KEY, name TEXT NOT NULL, email TEXT NOT NULL);
+        CREATE TABLE rf_posts (id TEXT PRIMARY KEY, title TEXT NOT NULL, author_id TEXT);
+        CREATE TABLE rf_comments (id TEXT PRIMARY KEY, post_id TEXT NOT NULL, author_id TEXT NOT NULL, status TEXT NOT NULL, deleted_at INTEGER);
+        CREATE TABLE rf_tags (id TEXT PRIMARY KEY, name TEXT NOT NULL);
+        CREATE TABLE rf_post_tags (post_id TEXT NOT NULL, tag_id TEXT NOT NULL);
+
+        INSERT INTO rf_users VALUES ('u1', 'Ada', 'ada@example.com'), ('u2', 'Grace', 'grace@example.com');
+        INSERT INTO rf_posts VALUES ('p1', 'Engines', 'u1'), ('p2', 'Compilers', 'u2'), ('p3', 'Notes', 'u1');
+        INSERT INTO rf_comments VALUES
+          ('c1', 'p1', 'u1', 'flagged', NULL),
+          ('c2', 'p2', 'u2', 'flagged', NULL),
+          ('c3', 'p3', 'u1', 'flagged', 1700000000);
+        INSERT INTO rf_tags VALUES ('t1', 'db'), ('t2', 'ts'), ('t3', 'ml');
+        INSERT INTO rf_post_tags VALUES ('p1', 't1'), ('p2', 't2'), ('p3', 't3');
+      `);
+      db = drizzle(client);
+
+      app = express();
+      app.use(express.json());
+      app.use(injectUser);
+      app.use(
+        "/users",
+        useResource(users, { id: users.id, db, fields: { filterable: ["id", "name"] } })
+      );
+      app.use(
+        "/comments",
+        useResource(comments, {
+          id: comments.id,
+          db,
+          softDelete: { column: comments.deletedAt },
+          auth: { read: async (user) => rsql`authorId==${user.id}` },
+        })
+      );
+      app.use("/tags", useResource(tags, { id: tags.id, db }));
+      app.use("/posts", useResource(posts, { id: posts.id, db, relations: postRelations }));
+    });
+
+    afterAll(() => {
+      client.close();
+    });
+
+    it("should filter on fields of a belongsTo relation", async () => {
+      const res = await request(app).get('/posts?filter=author.name=="Ada"').expect(200);
+      expect(titles(res)).toEqual(["Engines", "Notes"]);
+    });
+
+    it("should apply the related resource's read scope and soft delete", async () => {
+      // c2 belongs to another user and c3 is deleted
+      const res = await request(app).get('/posts?filter=comments=any=(status=="flagged")').expect(200);
+      expect(titles(res)).toEqual(["Engines"]);
+    });
+
+    it("should filter through a many-to-many relation", async () => {
+      const res = await request(app).get('/posts?filter=tags.name=in=("db","ts")').expect(200);
+      expect(titles(res)).toEqual(["Compilers", "Engines"]);
+
+      const combined = await request(app)
+        .get('/posts?filter=tags.name=in=("db","ts");author.name=="Grace"')
+        .expect(200);
+      expect(titles(combined)).toEqual(["Compilers"]);
+    });
+
+    it("should check the related resource's field policies", async () => {
+      await request(app).get('/posts?filter=author.email=="ada@example.com"').expect(400);
+    });
+
+    it("should reject relations that are not filterable", async () => {
+      await request(app).get('/posts?filter=reviewer.name=="Ada"').expect(400);
+    });
+
+    it("should decide subscription relevance on related rows", async () => {
+      const chunks: string[] = [];
+      const res = {
+        write: vi.fn((data: string) => chunks.push(data) > 0),
+        writableEnded: false,
+        end: vi.fn(),
+      } as unknown as Response;
+      registerHandler("rf-handler", res);
+
+      const filter = getResourceRegistry().get("rf_posts")!.filter as any;
+      await createSubscription({
+        resource: "rf_posts",
+        filter: 'comments=any=(status=="flagged")',
+        handlerId: "rf-handler",
+        authId: "u1",
+        relationScopes: { comments: 'authorId=="u1";deletedAt=isnull=true' },
+      });
+
+      const loader = new RelationLoader(db, posts, postRelations, getResourceRegistry());
+      const relationLoader = (items: Record<string, unknown>[], include: string) =>
+        loader.loadRelationsForItems(items, [{ relation: include }], "id");
+
+      await pushInsertsToSubscriptions(
+        "rf_posts",
+        filter,
+        [
+          { id: "p1", title: "Engines", authorId: "u1" },
+          { id: "p2", title: "Compilers", authorId: "u2" },
+        ],
+        "id",
+        undefined,
+        relationLoader
+      );
+
+      const added = chunks
+        .filter((c) => c.startsWith("data: "))
+        .map((c) => JSON.parse(c.slice(6).trim()))
+        .filter((e) => e.type === "added");
+      expect(added.map((e) => e.object.id)).toEqual(["p1"]);
+      expect(added[0].object.comments).toBeUndefined();
+
+      await unregisterHandler("rf-handler");
+    });
+  });
+});
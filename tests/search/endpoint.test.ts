@@ -12,7 +12,10 @@ import {
   setGlobalSearch,
   clearGlobalSearch,
   createMemorySearchAdapter,
+  SearchAdapter,
+  SearchQuery,
 } from "@/search";
+import { rsql } from "@/auth/rsql";
 
 const injectTestUser = (req: Request, res: Response, next: NextFunction) => {
   (req as any).user = { id: "test-user", email: "test@test.com" };
@@ -226,6 +229,169 @@ describe("Search Endpoint", () => {
         expect(res.body.highlights).toBeUndefined();
       });
     });
+
+    describe("facets", () => {
+      it("should return terms facets over all matches", async () => {
+        const res = await request(app)
+          .get("/items/search?q=a&facets=status&limit=1")
+          .expect(200);
+
+        expect(res.body.items).toHaveLength(1);
+        expect(res.body.facets).toEqual({
+          status: [
+            { key: "active", count: 2 },
+            { key: "completed", count: 1 },
+          ],
+        });
+      });
+
+      it("should count only filtered matches", async () => {
+        const res = await request(app)
+          .get("/items/search?q=important&filter=status==completed&facets=status")
+          .expect(200);
+
+        expect(res.body.facets.status).toEqual([{ key: "completed", count: 1 }]);
+      });
+
+      it("should reject invalid facet names", async () => {
+        await request(app).get("/items/search?q=task&facets=status;drop").expect(400);
+      });
+
+      it("should match typos when fuzzy", async () => {
+        const exact = await request(app).get("/items/search?q=importnt").expect(200);
+        expect(exact.body.items).toHaveLength(0);
+
+        const fuzzy = await request(app).get("/items/search?q=importnt&fuzzy=1").expect(200);
+        expect(fuzzy.body.items.map((i: { id: number }) => i.id).sort()).toEqual([1, 3]);
+      });
+    });
+  });
+
+  describe("configured facets", () => {
+    beforeEach(async () => {
+      app.use(
+        "/items",
+        useResource(testItemsTable, {
+          id: testItemsTable.id,
+          db,
+          search: {
+            facets: {
+              state: { type: "terms", field: "status" },
+              ids: { type: "range", field: "id", ranges: [{ to: 2 }, { key: "two+", from: 2 }] },
+            },
+          },
+        })
+      );
+      app.use(errorHandler);
+
+      for (const [id, status] of [[1, "active"], [2, "active"], [3, "completed"]] as const) {
+        await searchAdapter.index("test_items", String(id), { id, title: `Task ${id}`, status });
+      }
+    });
+
+    it("should return configured terms and range facets", async () => {
+      const res = await request(app)
+        .get("/items/search?q=task&facets=state,ids")
+        .expect(200);
+
+      expect(res.body.facets).toEqual({
+        state: [
+          { key: "active", count: 2 },
+          { key: "completed", count: 1 },
+        ],
+        ids: [
+          { key: "*-2", to: 2, count: 1 },
+          { key: "two+", from: 2, count: 2 },
+        ],
+      });
+    });
+
+    it("should reject facets that are not configured", async () => {
+      const res = await request(app).get("/items/search?q=task&facets=title").expect(400);
+      expect(res.body.error).toBe("Unknown facet 'title'");
+    });
+  });
+
+  describe("facets on a scoped resource", () => {
+    let queries: SearchQuery[];
+
+    // Applies only the ids it is sent, like the OpenSearch adapter
+    const idsAdapter = (): SearchAdapter => {
+      const memory = createMemorySearchAdapter();
+      return {
+        ...memory,
+        supportsScope: "ids",
+        search: (indexName, query) => {
+          queries.push(query);
+          const ids = query.scope?.ids;
+          return memory.search(indexName, {
+            ...query,
+            scope: ids && { ...query.scope!, matches: (doc) => ids.includes(String(doc.id)) },
+          });
+        },
+      };
+    };
+
+    const mountScoped = async (adapter: SearchAdapter) => {
+      setGlobalSearch(adapter);
+      app.use(
+        "/items",
+        useResource(testItemsTable, {
+          id: testItemsTable.id,
+          db,
+          search: { enabled: true },
+          auth: { read: async () => rsql`status!=${"archived"}` },
+        })
+      );
+      app.use(errorHandler);
+
+      for (const [id, status] of [[1, "active"], [2, "completed"], [3, "archived"]] as const) {
+        await libsqlClient.execute({
+          sql: "INSERT INTO test_items (id, title, status) VALUES (?, ?, ?)",
+          args: [id, `Task ${id}`, status],
+        });
+        await adapter.index("test_items", String(id), { id, title: `Task ${id}`, status });
+      }
+    };
+
+    beforeEach(() => {
+      queries = [];
+    });
+
+    it("should count only readable rows through an ids adapter", async () => {
+      await mountScoped(idsAdapter());
+
+      const res = await request(app).get("/items/search?q=task&facets=status").expect(200);
+      expect(res.body.facets.status).toEqual([
+        { key: "active", count: 1 },
+        { key: "completed", count: 1 },
+      ]);
+      expect(res.body.total).toBe(2);
+      expect(queries[0]!.scope!.ids!.sort()).toEqual(["1", "2"]);
+
+      const filtered = await request(app)
+        .get("/items/search")
+        .query({ q: "task", facets: "status", filter: 'status=="active"' })
+        .expect(200);
+      expect(filtered.body.facets.status).toEqual([{ key: "active", count: 1 }]);
+    });
+
+    it("should only send ids when facets are requested", async () => {
+      await mountScoped(idsAdapter());
+
+      const res = await request(app).get("/items/search?q=task").expect(200);
+      expect(res.body.items.map((i: { id: number }) => i.id).sort()).toEqual([1, 2]);
+      expect(queries[0]!.scope).toBeUndefined();
+    });
+
+    it("should reject facets an adapter can't scope", async () => {
+      const { supportsScope: _, ...unscoped } = createMemorySearchAdapter();
+      await mountScoped(unscoped);
+
+      const res = await request(app).get("/items/search?q=task&facets=status").expect(400);
+      expect(res.body.error).toBe("This search adapter can't compute facets over a read scope or filter");
+      await request(app).get("/items/search?q=task").expect(200);
+    });
   });
 
   describe("with search disabled", () => {
@@ -239,6 +239,80 @@ describe("Memory Search Adapter", () => {
     });
   });
 
+  describe("fuzzy and prefix matching", () => {
+    beforeEach(async () => {
+      await adapter.index("items", "1", { id: "1", title: "Quarterly report" });
+      await adapter.index("items", "2", { id: "2", title: "Team offsite" });
+    });
+
+    it("should tolerate typos only when fuzzy", async () => {
+      expect((await adapter.search("items", { query: "quartrly reprt" })).total).toBe(0);
+
+      const result = await adapter.search("items", { query: "quartrly reprt", fuzzy: true });
+      expect(result.hits.map((h) => h.id)).toEqual(["1"]);
+    });
+
+    it("should not stretch short words", async () => {
+      const result = await adapter.search("items", { query: "tx", fuzzy: true });
+      expect(result.total).toBe(0);
+    });
+
+    it("should match prefixes as you type", async () => {
+      const result = await adapter.search("items", { query: "quar", prefix: true });
+      expect(result.hits.map((h) => h.id)).toEqual(["1"]);
+    });
+  });
+
+  describe("facets", () => {
+    beforeEach(async () => {
+      await adapter.index("items", "1", { id: "1", title: "Shirt", tags: ["a", "b"], price: 5, at: "2024-01-10" });
+      await adapter.index("items", "2", { id: "2", title: "Shirt", tags: ["a"], price: 15, at: "2024-03-01" });
+      await adapter.index("items", "3", { id: "3", title: "Shirt", price: 25 });
+      await adapter.index("items", "4", { id: "4", title: "Hat", tags: ["c"], price: 1 });
+    });
+
+    it("should count terms over every match, not just the page", async () => {
+      const result = await adapter.search("items", {
+        query: "shirt",
+        size: 1,
+        facets: [{ type: "terms", field: "tags" }],
+      });
+
+      expect(result.hits).toHaveLength(1);
+      expect(result.facets).toEqual({
+        tags: [
+          { key: "a", count: 2 },
+          { key: "b", count: 1 },
+        ],
+      });
+    });
+
+    it("should bucket numeric and date ranges", async () => {
+      const result = await adapter.search("items", {
+        query: "shirt",
+        facets: [
+          { name: "price", type: "range", field: "price", ranges: [{ to: 10 }, { from: 10, to: 20 }, { from: 20 }] },
+          { name: "month", type: "range", field: "at", ranges: [{ key: "jan", from: "2024-01-01", to: "2024-02-01" }] },
+        ],
+      });
+
+      expect(result.facets!.price!.map((b) => b.count)).toEqual([1, 1, 1]);
+      expect(result.facets!.price![1]).toEqual({ key: "10-20", from: 10, to: 20, count: 1 });
+      expect(result.facets!.month).toEqual([{ key: "jan", from: "2024-01-01", to: "2024-02-01", count: 1 }]);
+    });
+
+    it("should apply a scope predicate before counting", async () => {
+      const result = await adapter.search("items", {
+        query: "shirt",
+        facets: [{ type: "terms", field: "tags" }],
+        scope: { table: {} as never, idColumn: {} as never, matches: (doc) => doc.price !== 5 },
+      });
+
+      expect(result.total).toBe(2);
+      expect(result.facets!.tags).toEqual([{ key: "a", count: 1 }]);
+    });
+  });
+
   describe("getAllIndices", () => {
     it("should return all indices", async () => {
       await adapter.index("items1", "1", { id: "1" });
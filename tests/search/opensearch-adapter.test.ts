@@ -0,0 +1,173 @@
+import { describe, it, expect, vi } from "vitest";
+import { createOpenSearchAdapter } from "@/search";
+
+const createClient = (response: Record<string, unknown>) => {
+  const search = vi.fn().mockResolvedValue({ body: response });
+  const client = {
+    index: vi.fn(),
+    delete: vi.fn(),
+    bulk: vi.fn().mockResolvedValue({ body: { errors: false, items: [] } }),
+    search,
+    scroll: vi.fn(),
+    clearScroll: vi.fn(),
+    indices: {
+      exists: vi.fn(),
+      create: vi.fn(),
+      delete: vi.fn(),
+      updateAliases: vi.fn(),
+      getAlias: vi.fn(),
+      refresh: vi.fn(),
+    },
+  };
+  return { client, search };
+};
+
+describe("OpenSearch Adapter", () => {
+  it("should keep AUTO fuzziness unless fuzzy is false", async () => {
+    const { client, search } = createClient({ hits: { total: { value: 0 }, hits: [] } });
+    const adapter = await createOpenSearchAdapter({ node: "http://localhost:9200" }, () => client);
+
+    await adapter.search("todos", { query: "tsak" });
+    await adapter.search("todos", { query: "task", fuzzy: false });
+
+    expect(search.mock.calls[0]![0].body.query.multi_match.fuzziness).toBe("AUTO");
+    expect(search.mock.calls[1]![0].body.query.multi_match).not.toHaveProperty("fuzziness");
+  });
+
+  it("should use bool_prefix for prefix queries", async () => {
+    const { client, search } = createClient({ hits: { total: { value: 0 }, hits: [] } });
+    const adapter = await createOpenSearchAdapter({ node: "http://localhost:9200" }, () => client);
+
+    await adapter.search("todos", { query: "wri", prefix: true });
+
+    expect(search.mock.calls[0]![0].body.query.multi_match.type).toBe("bool_prefix");
+  });
+
+  it("should request facets as aggregations and map the buckets", async () => {
+    const { client, search } = createClient({
+      hits: { total: { value: 3 }, hits: [] },
+      aggregations: {
+        status: { buckets: [{ key: "open", doc_count: 2 }, { key: "done", doc_count: 1 }] },
+        price: { buckets: [{ key: "cheap", to: 10, doc_count: 1 }, { key: "10-*", from: 10, doc_count: 2 }] },
+        created: { buckets: [{ key: "2024", doc_count: 3 }] },
+      },
+    });
+    const adapter = await createOpenSearchAdapter({ node: "http://localhost:9200" }, () => client);
+
+    const result = await adapter.search("todos", {
+      query: "task",
+      facets: [
+        { name: "status", type: "terms", field: "status.keyword", size: 5 },
+        { type: "range", field: "price", ranges: [{ key: "cheap", to: 10 }, { from: 10 }] },
+        { name: "created", type: "range", field: "createdAt", ranges: [{ key: "2024", from: "2024-01-01", to: "2025-01-01" }] },
+      ],
+    });
+
+    const aggs = search.mock.calls[0]![0].body.aggs;
+    expect(aggs.status).toEqual({ terms: { field: "status.keyword", size: 5 } });
+    expect(aggs.price.range.ranges).toEqual([
+      { key: "cheap", to: 10 },
+      { key: "10-*", from: 10 },
+    ]);
+    expect(aggs.created.date_range.field).toBe("createdAt");
+
+    expect(result.facets).toEqual({
+      status: [
+        { key: "open", count: 2 },
+        { key: "done", count: 1 },
+      ],
+      price: [
+        { key: "cheap", to: 10, count: 1 },
+        { key: "10-*", from: 10, count: 2 },
+      ],
+      created: [{ key: "2024", from: "2024-01-01", to: "2025-01-01", count: 3 }],
+    });
+  });
+
+  it("should filter hits and aggregations to the scope's ids", async () => {
+    const { client, search } = createClient({ hits: { total: { value: 0 }, hits: [] } });
+    const adapter = await createOpenSearchAdapter({ node: "http://localhost:9200" }, () => client);
+
+    expect(adapter.supportsScope).toBe("ids");
+    await adapter.search("todos", {
+      query: "task",
+      facets: [{ type: "terms", field: "status" }],
+      scope: { table: {} as any, idColumn: {} as any, ids: ["1", "2"] },
+    });
+
+    const { query } = search.mock.calls[0]![0].body;
+    expect(query.bool.filter).toEqual({ ids: { values: ["1", "2"] } });
+    expect(query.bool.must.multi_match.query).toBe("task");
+  });
+
+  it("should swap aliases in one request", async () => {
+    const { client } = createClient({});
+    const notFound = Object.assign(new Error("missing"), { meta: { statusCode: 404 } });
+    client.indices.getAlias.mockRejectedValueOnce(notFound);
+    client.indices.exists.mockResolvedValueOnce({ body: true });
+    const adapter = await createOpenSearchAdapter({ node: "http://localhost:9200" }, () => client);
+
+    // The first swap replaces the plain index auto-indexing created
+    await adapter.putAlias!("todos", "todos__v1");
+    expect(client.indices.updateAliases.mock.calls[0]![0].body.actions).toEqual([
+      { remove_index: { index: "concave_todos" } },
+      { add: { index: "concave_todos__v1", alias: "concave_todos" } },
+    ]);
+
+    client.indices.getAlias.mockResolvedValue({ body: { concave_todos__v1: { aliases: { concave_todos: {} } } } });
+    expect(await adapter.getAlias!("todos")).toBe("todos__v1");
+
+    await adapter.putAlias!("todos", "todos__v2");
+    expect(client.indices.updateAliases.mock.calls[1]![0].body.actions).toEqual([
+      { remove: { index: "concave_todos__v1", alias: "concave_todos" } },
+      { add: { index: "concave_todos__v2", alias: "concave_todos" } },
+    ]);
+  });
+
+  it("should list ids with a scroll", async () => {
+    const { client, search } = createClient({
+      _scroll_id: "s1",
+      hits: { total: { value: 3 }, hits: [{ _id: "1" }, { _id: "2" }] },
+    });
+    client.scroll
+      .mockResolvedValueOnce({ body: { _scroll_id: "s1", hits: { hits: [{ _id: "3" }] } } })
+      .mockResolvedValueOnce({ body: { _scroll_id: "s1", hits: { hits: [] } } });
+    const adapter = await createOpenSearchAdapter({ node: "http://localhost:9200" }, () => client);
+
+    expect(await adapter.listIds!("todos")).toEqual(["1", "2", "3"]);
+    expect(search.mock.calls[0]![0]).toMatchObject({ index: "concave_todos", scroll: "1m" });
+    expect(client.clearScroll).toHaveBeenCalledWith({ scroll_id: "s1" });
+  });
+
+  it("should bulk index without refreshing and report failed documents", async () => {
+    const { client } = createClient({});
+    const adapter = await createOpenSearchAdapter({ node: "http://localhost:9200" }, () => client);
+
+    await adapter.bulkIndex!("todos", [
+      { id: "1", document: { title: "One" } },
+      { id: "2", document: { title: "Two" } },
+    ]);
+    expect(client.bulk.mock.calls[0]![0]).toEqual({
+      body: [
+        { index: { _index: "concave_todos", _id: "1" } },
+        { title: "One" },
+        { index: { _index: "concave_todos", _id: "2" } },
+        { title: "Two" },
+      ],
+      refresh: false,
+    });
+
+    await adapter.refresh!("todos");
+    expect(client.indices.refresh).toHaveBeenCalledWith({ index: "concave_todos" });
+
+    client.bulk.mockResolvedValueOnce({
+      body: {
+        errors: true,
+        items: [{ index: { _id: "1" } }, { index: { _id: "2", error: { reason: "mapper_parsing_exception" } } }],
+      },
+    });
+    await expect(
+      adapter.bulkIndex!("todos", [{ id: "2", document: { title: 2 } }])
+    ).rejects.toThrow("Failed to index document 2 in todos: mapper_parsing_exception");
+  });
+});
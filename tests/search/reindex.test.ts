@@ -0,0 +1,477 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import express, { Express, Request, Response, NextFunction } from "express";
+import request from "supertest";
+import { sqliteTable, text, integer, real } from "drizzle-orm/sqlite-core";
+import { pgTable, uuid, varchar, bigint, doublePrecision, pgEnum, timestamp } from "drizzle-orm/pg-core";
+import { drizzle } from "drizzle-orm/libsql";
+import { createClient as createLibsqlClient } from "@libsql/client";
+import { useResource } from "@/resource/hook";
+import { changelog } from "@/resource/changelog";
+import {
+  setGlobalSearch,
+  clearGlobalSearch,
+  createMemorySearchAdapter,
+  createSQLiteSearchAdapter,
+  deriveIndexMappings,
+  reindexResource,
+  checkIndexConsistency,
+  createSearchReindexTask,
+  getReindexProgress,
+  ReindexProgress,
+} from "@/search";
+import { clearReindexProgress } from "@/search/reindex";
+import { clearSchemaRegistry, createAdminUI } from "@/ui";
+
+const products = sqliteTable("reindex_products", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  title: text("title").notNull(),
+  status: text("status", { enum: ["draft", "live"] }).notNull(),
+  price: real("price"),
+  stock: integer("stock"),
+  featured: integer("featured", { mode: "boolean" }),
+  deletedAt: integer("deleted_at", { mode: "timestamp" }),
+});
+
+const injectUser = (req: Request, _res: Response, next: NextFunction) => {
+  (req as any).user = { id: "u1", sessionId: "s1", sessionExpiresAt: new Date(Date.now() + 3600000) };
+  next();
+};
+
+describe("deriveIndexMappings", () => {
+  it("should map Drizzle column types to field mappings", () => {
+    expect(deriveIndexMappings(products)).toEqual({
+      properties: {
+        id: { type: "integer" },
+        title: { type: "text" },
+        status: { type: "keyword" },
+        price: { type: "double" },
+        stock: { type: "integer" },
+        featured: { type: "boolean" },
+        deletedAt: { type: "date" },
+      },
+    });
+  });
+
+  it("should map Postgres columns and apply the search field config", () => {
+    const mood = pgEnum("mood", ["happy", "sad"]);
+    const people = pgTable("people", {
+      id: uuid("id").primaryKey(),
+      name: varchar("name", { length: 100 }),
+      handle: varchar("handle", { length: 50 }),
+      mood: mood("mood"),
+      visits: bigint("visits", { mode: "number" }),
+      score: doublePrecision("score"),
+      seenAt: timestamp("seen_at"),
+    });
+
+    const { properties } = deriveIndexMappings(people, {
+      name: { analyzer: "english" },
+      handle: { searchable: false },
+    });
+
+    expect(properties).toEqual({
+      id: { type: "keyword" },
+      name: { type: "text", analyzer: "english" },
+      handle: { type: "keyword" },
+      mood: { type: "keyword" },
+      visits: { type: "long" },
+      score: { type: "double" },
+      seenAt: { type: "date" },
+    });
+  });
+
+  it("should treat strings outside a field list as keywords", () => {
+    const { properties } = deriveIndexMappings(products, ["title"]);
+    expect(properties.title).toEqual({ type: "text" });
+    expect(properties.status).toEqual({ type: "keyword" });
+  });
+});
+
+describe("Search reindexing", () => {
+  let client: ReturnType<typeof createLibsqlClient>;
+  let db: ReturnType<typeof drizzle>;
+  let app: Express;
+
+  const seed = async (count: number) => {
+    for (let i = 1; i <= count; i++) {
+      await db.insert(products).values({ title: `Product ${i}`, status: "live", price: i });
+    }
+  };
+
+  const mount = () => {
+    app = express();
+    app.use(express.json());
+    app.use(injectUser);
+    app.use(
+      "/products",
+      useResource(products, {
+        id: products.id,
+        db,
+        softDelete: { column: products.deletedAt },
+      })
+    );
+  };
+
+  beforeEach(async () => {
+    client = createLibsqlClient({ url: ":memory:" });
+    await client.execute(
+      "CREATE TABLE reindex_products (id INTEGER PRIMARY KEY AUTOINCREMENT, title TEXT NOT NULL, status TEXT NOT NULL, price REAL, stock INTEGER, featured INTEGER, deleted_at INTEGER)"
+    );
+    db = drizzle(client);
+    await changelog.clear();
+    await clearReindexProgress();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    clearGlobalSearch();
+    clearSchemaRegistry();
+    client.close();
+  });
+
+  describe("with an alias-capable adapter", () => {
+    let adapter: ReturnType<typeof createMemorySearchAdapter>;
+
+    beforeEach(() => {
+      adapter = createMemorySearchAdapter();
+      setGlobalSearch(adapter);
+      mount();
+    });
+
+    it("should index rows written before search was enabled, in keyset batches", async () => {
+      await seed(7);
+      const updates: ReindexProgress[] = [];
+
+      const result = await reindexResource("reindex_products", {
+        batchSize: 3,
+        onProgress: (p) => {
+          updates.push(p);
+        },
+      });
+
+      expect(result).toMatchObject({ status: "completed", processed: 7, total: 7 });
+      expect(updates.map((p) => p.processed)).toEqual([0, 3, 6, 7, 7]);
+
+      const res = await request(app).get("/products/search?q=Product&limit=50").expect(200);
+      expect(res.body.total).toBe(7);
+      expect(await getReindexProgress("reindex_products")).toMatchObject({ status: "completed" });
+    });
+
+    it("should swap the alias to a new index and drop the old one", async () => {
+      await seed(2);
+      await adapter.index("reindex_products", "99", { id: 99, title: "Stale" });
+
+      const first = await reindexResource("reindex_products");
+      const firstIndex = first.indices.reindex_products!;
+      expect(firstIndex).toMatch(/^reindex_products__v\d+$/);
+      expect(await adapter.getAlias!("reindex_products")).toBe(firstIndex);
+      expect(await adapter.listIds!("reindex_products")).toEqual(["1", "2"]);
+
+      await new Promise((resolve) => setTimeout(resolve, 2));
+      const second = await reindexResource("reindex_products");
+      expect(await adapter.getAlias!("reindex_products")).toBe(second.indices.reindex_products);
+      expect([...adapter.getAllIndices().keys()]).toEqual([second.indices.reindex_products]);
+    });
+
+    it("should skip soft-deleted rows", async () => {
+      await seed(2);
+      await request(app).delete("/products/2").expect(204);
+
+      await reindexResource("reindex_products");
+      expect(await adapter.listIds!("reindex_products")).toEqual(["1"]);
+    });
+
+    it("should replay changes made while the table was being read", async () => {
+      await seed(4);
+
+      await reindexResource("reindex_products", {
+        batchSize: 2,
+        onProgress: async (p) => {
+          if (p.processed === 2) {
+            await request(app).post("/products").send({ title: "Late arrival", status: "live" }).expect(201);
+            await request(app).delete("/products/1").expect(204);
+          }
+        },
+      });
+
+      const ids = await adapter.listIds!("reindex_products");
+      expect(ids.sort()).toEqual(["2", "3", "4", "5"]);
+    });
+
+    it("should fail without swapping when the changelog is trimmed mid-run", async () => {
+      await seed(4);
+      const before = await reindexResource("reindex_products");
+      await new Promise((resolve) => setTimeout(resolve, 2));
+
+      await expect(
+        reindexResource("reindex_products", {
+          batchSize: 2,
+          onProgress: async (p) => {
+            if (p.processed === 2) {
+              await request(app).delete("/products/1").expect(204);
+              await request(app).delete("/products/2").expect(204);
+              // The entry for the first delete falls off the changelog
+              const last = await changelog.getCurrentSequence();
+              vi.spyOn(changelog, "getMinAvailableSequence").mockResolvedValue(last);
+            }
+          },
+        })
+      ).rejects.toThrow("changelog was trimmed");
+
+      expect(await adapter.getAlias!("reindex_products")).toBe(before.indices.reindex_products);
+      expect([...adapter.getAllIndices().keys()]).toEqual([before.indices.reindex_products]);
+      const progress = await getReindexProgress("reindex_products");
+      expect(progress).toMatchObject({ status: "failed" });
+      expect(progress?.cursor).toBeUndefined();
+
+      vi.mocked(changelog.getMinAvailableSequence).mockRestore();
+      const result = await reindexResource("reindex_products", { resume: true });
+      expect(result).toMatchObject({ status: "completed", processed: 2 });
+      expect((await adapter.listIds!("reindex_products")).sort()).toEqual(["3", "4"]);
+    });
+
+    it("should run as a task", async () => {
+      await seed(2);
+      const task = createSearchReindexTask();
+      const controller = new AbortController();
+      const reportProgress = vi.fn(async () => {});
+
+      const result = await task.handler(
+        {
+          taskId: "t1",
+          attempt: 1,
+          scheduledAt: new Date(),
+          startedAt: new Date(),
+          workerId: "w1",
+          signal: controller.signal,
+          db,
+          reportProgress,
+        },
+        { resource: "reindex_products", batchSize: 1 }
+      );
+
+      expect(task.name).toBe("search:reindex");
+      expect(task.timeout).toBeGreaterThan(30000);
+      expect(createSearchReindexTask({ timeout: 5000 }).timeout).toBe(5000);
+      expect(result).toMatchObject({ status: "completed", taskId: "t1", processed: 2 });
+      expect(reportProgress.mock.calls).toEqual([
+        [0, "0/2 rows"],
+        [50, "1/2 rows"],
+        [100, "2/2 rows"],
+        [100, "2/2 rows"],
+      ]);
+    });
+
+    it("should write batches in bulk and refresh once", async () => {
+      await seed(5);
+      const bulkIndex = vi.fn(async (indexName: string, documents: Array<{ id: string; document: Record<string, unknown> }>) => {
+        for (const { id, document } of documents) await adapter.index(indexName, id, document);
+      });
+      const refresh = vi.fn(async () => {});
+      const index = vi.spyOn(adapter, "index");
+      setGlobalSearch({ ...adapter, bulkIndex, refresh });
+
+      const result = await reindexResource("reindex_products", { batchSize: 2 });
+
+      const indexName = result.indices.reindex_products!;
+      expect(bulkIndex.mock.calls.map(([name, docs]) => [name, docs.map((d) => d.id)])).toEqual([
+        [indexName, ["1", "2"]],
+        [indexName, ["3", "4"]],
+        [indexName, ["5"]],
+      ]);
+      expect(refresh.mock.calls).toEqual([[indexName]]);
+      expect(index).toHaveBeenCalledTimes(5);
+      expect(await adapter.listIds!("reindex_products")).toEqual(["1", "2", "3", "4", "5"]);
+    });
+
+    it("should resume a failed run after its last indexed row", async () => {
+      await seed(5);
+      const indexed: string[] = [];
+      let failAt: string | undefined = "4";
+      setGlobalSearch({
+        ...adapter,
+        index: async (indexName, id, document) => {
+          if (id === failAt) throw new Error("node unavailable");
+          indexed.push(id);
+          await adapter.index(indexName, id, document);
+        },
+      });
+
+      await expect(reindexResource("reindex_products", { batchSize: 2 })).rejects.toThrow("node unavailable");
+      const failed = await getReindexProgress("reindex_products");
+      expect(failed).toMatchObject({ status: "failed", processed: 2, cursor: 2 });
+
+      failAt = undefined;
+      const result = await reindexResource("reindex_products", { batchSize: 2, resume: true });
+
+      expect(result).toMatchObject({ status: "completed", processed: 5, startedAt: failed!.startedAt });
+      expect(result.indices).toEqual(failed!.indices);
+      expect(indexed).toEqual(["1", "2", "3", "3", "4", "5"]);
+      expect(await adapter.listIds!("reindex_products")).toEqual(["1", "2", "3", "4", "5"]);
+    });
+
+    it("should drop the indices of a failed run it does not resume", async () => {
+      await seed(2);
+      setGlobalSearch({
+        ...adapter,
+        index: async () => {
+          throw new Error("node unavailable");
+        },
+      });
+      await expect(reindexResource("reindex_products")).rejects.toThrow("node unavailable");
+      expect(adapter.getAllIndices().size).toBe(1);
+
+      setGlobalSearch(adapter);
+      const result = await reindexResource("reindex_products");
+      expect([...adapter.getAllIndices().keys()]).toEqual([result.indices.reindex_products]);
+    });
+
+    it("should record a failed run and remove its new index", async () => {
+      await seed(3);
+      const controller = new AbortController();
+
+      await expect(
+        reindexResource("reindex_products", {
+          batchSize: 1,
+          signal: controller.signal,
+          onProgress: (p) => {
+            if (p.processed === 1) controller.abort(new Error("stopped"));
+          },
+        })
+      ).rejects.toThrow("stopped");
+
+      expect(await getReindexProgress("reindex_products")).toMatchObject({
+        status: "failed",
+        error: "stopped",
+      });
+      expect(adapter.getAllIndices().size).toBe(0);
+    });
+
+    it("should report ids missing from and extra in the index", async () => {
+      await seed(3);
+      await adapter.index("reindex_products", "1", { id: 1 });
+      await adapter.index("reindex_products", "42", { id: 42 });
+
+      const report = await checkIndexConsistency("reindex_products");
+
+      expect(report.consistent).toBe(false);
+      expect(report.indices).toEqual([
+        { index: "reindex_products", dbCount: 3, indexCount: 2, missing: ["2", "3"], extra: ["42"] },
+      ]);
+
+      await reindexResource("reindex_products");
+      expect((await checkIndexConsistency("reindex_products")).consistent).toBe(true);
+    });
+
+    it("should reject resources without search", async () => {
+      await expect(reindexResource("unknown")).rejects.toThrow("not found");
+    });
+  });
+
+  describe("with an adapter without aliases", () => {
+    it("should rebuild the live index in place", async () => {
+      setGlobalSearch(createSQLiteSearchAdapter({ db }));
+      mount();
+      await seed(3);
+      const adapter = createSQLiteSearchAdapter({ db });
+      await adapter.index("reindex_products", "1", { id: 1, title: "Old title" });
+      await adapter.index("reindex_products", "77", { id: 77, title: "Gone" });
+
+      const result = await reindexResource("reindex_products", { batchSize: 2 });
+
+      expect(result.indices).toEqual({ reindex_products: "reindex_products" });
+      expect((await adapter.listIds!("reindex_products")).sort()).toEqual(["1", "2", "3"]);
+      const hits = await adapter.search("reindex_products", { query: "old" });
+      expect(hits.total).toBe(0);
+    });
+
+    it("should keep rows indexed before an interrupted run when resuming in place", async () => {
+      const adapter = createSQLiteSearchAdapter({ db });
+      setGlobalSearch(adapter);
+      mount();
+      await seed(4);
+      await adapter.index("reindex_products", "77", { id: 77, title: "Gone" });
+      setGlobalSearch({
+        ...adapter,
+        index: async (indexName, id, document) => {
+          if (id === "3") throw new Error("disk full");
+          await adapter.index(indexName, id, document);
+        },
+      });
+      await expect(reindexResource("reindex_products", { batchSize: 2 })).rejects.toThrow("disk full");
+
+      setGlobalSearch(adapter);
+      const result = await reindexResource("reindex_products", { batchSize: 2, resume: true });
+
+      expect(result).toMatchObject({ status: "completed", processed: 4 });
+      expect((await adapter.listIds!("reindex_products")).sort()).toEqual(["1", "2", "3", "4"]);
+    });
+  });
+
+  describe("admin UI", () => {
+    beforeEach(() => {
+      setGlobalSearch(createMemorySearchAdapter());
+      mount();
+      app.use(
+        "/__concave",
+        createAdminUI({
+          security: { mode: "development", auth: { disabled: true } },
+          search: { enabled: true },
+        })
+      );
+    });
+
+    it("should start a reindex and report its progress", async () => {
+      await seed(2);
+
+      const res = await request(app).post("/__concave/api/search/reindex/reindex_products").expect(202);
+      expect(res.body.progress).toMatchObject({ resource: "reindex_products", status: "running", total: 2 });
+
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      const indices = await request(app).get("/__concave/api/search/indices").expect(200);
+      expect(indices.body.indices).toEqual([
+        expect.objectContaining({
+          resource: "reindex_products",
+          indexName: "reindex_products",
+          progress: expect.objectContaining({ status: "completed", processed: 2 }),
+        }),
+      ]);
+
+      const page = await request(app).get("/__concave/ui/search").expect(200);
+      expect(page.text).toContain("reindex_products");
+      expect(page.text).toContain("Reindex");
+    });
+
+    it("should enqueue the reindex task when a scheduler is configured", async () => {
+      const enqueued: unknown[] = [];
+      const scheduler = {
+        enqueue: async (task: { name: string }, input: unknown) => {
+          enqueued.push({ name: task.name, input });
+          return "task-1";
+        },
+      };
+      const admin = express();
+      admin.use(
+        "/__concave",
+        createAdminUI({
+          security: { mode: "development", auth: { disabled: true } },
+          search: { enabled: true, scheduler: scheduler as any },
+        })
+      );
+
+      const res = await request(admin).post("/__concave/api/search/reindex/reindex_products").expect(202);
+
+      expect(enqueued).toEqual([{ name: "search:reindex", input: { resource: "reindex_products" } }]);
+      expect(res.body.progress).toMatchObject({ status: "queued", taskId: "task-1" });
+    });
+
+    it("should check consistency and 404 for unknown resources", async () => {
+      await seed(1);
+
+      const res = await request(app).get("/__concave/api/search/consistency/reindex_products").expect(200);
+      expect(res.body.indices[0]).toMatchObject({ missing: ["1"], extra: [] });
+
+      await request(app).post("/__concave/api/search/reindex/missing").expect(404);
+    });
+  });
+});
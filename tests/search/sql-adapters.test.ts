@@ -0,0 +1,261 @@
+import { describe, it, expect, beforeEach, afterEach, beforeAll, afterAll } from "vitest";
+import express, { Express, Request, Response, NextFunction } from "express";
+import request from "supertest";
+import { sqliteTable, text, integer } from "drizzle-orm/sqlite-core";
+import { pgTable, serial, varchar } from "drizzle-orm/pg-core";
+import { drizzle } from "drizzle-orm/libsql";
+import { drizzle as drizzlePglite } from "drizzle-orm/pglite";
+import { createClient as createLibsqlClient } from "@libsql/client";
+import { PGlite } from "@electric-sql/pglite";
+import { sql } from "drizzle-orm";
+import { useResource } from "@/resource/hook";
+import { rsql } from "@/auth/rsql";
+import {
+  SearchAdapter,
+  setGlobalSearch,
+  clearGlobalSearch,
+  getGlobalSearch,
+  createSQLiteSearchAdapter,
+  createPostgresSearchAdapter,
+} from "@/search";
+
+const docs = [
+  { id: 1, title: "Running shoes", body: "Light trainers for the road", userId: "u1" },
+  { id: 2, title: "Hiking boots", body: "Waterproof, good for running on trails", userId: "u2" },
+  { id: 3, title: "Rain jacket", body: "Packs small", userId: "u1" },
+];
+
+// The same behaviour is expected from both database-native adapters
+const adapterSuite = (name: string, setup: () => Promise<{ adapter: SearchAdapter; close: () => Promise<void> }>) => {
+  describe(name, () => {
+    let adapter: SearchAdapter;
+    let close: () => Promise<void>;
+
+    beforeEach(async () => {
+      ({ adapter, close } = await setup());
+      for (const doc of docs) {
+        await adapter.index("products", String(doc.id), doc);
+      }
+    });
+
+    afterEach(async () => {
+      await close();
+    });
+
+    it("should rank matches with stemming and prefixes", async () => {
+      const result = await adapter.search("products", { query: "run" });
+
+      expect(result.total).toBe(2);
+      expect(result.hits.map((h) => h.id).sort()).toEqual(["1", "2"]);
+      expect(result.hits[0]!.score).toBeGreaterThanOrEqual(result.hits[1]!.score);
+      expect(result.hits.find((h) => h.id === "1")!.source).toEqual(docs[0]);
+    });
+
+    it("should boost weighted fields", async () => {
+      const byTitle = await adapter.search("products", {
+        query: "running",
+        fields: ["title", "body"],
+        fieldWeights: { title: 10 },
+      });
+      expect(byTitle.hits[0]!.id).toBe("1");
+
+      const byBody = await adapter.search("products", {
+        query: "running",
+        fields: ["title", "body"],
+        fieldWeights: { body: 10 },
+      });
+      expect(byBody.hits[0]!.id).toBe("2");
+    });
+
+    it("should only match the requested fields", async () => {
+      const result = await adapter.search("products", { query: "running", fields: ["title"] });
+      expect(result.hits.map((h) => h.id)).toEqual(["1"]);
+    });
+
+    it("should highlight matching fields", async () => {
+      const result = await adapter.search("products", { query: "boots", highlight: true });
+      expect(result.hits[0]!.highlights).toEqual({ title: ["Hiking <em>boots</em>"] });
+    });
+
+    it("should sort and paginate", async () => {
+      const first = await adapter.search("products", {
+        query: "running",
+        sort: [{ field: "id", order: "desc" }],
+        size: 1,
+      });
+      expect(first.total).toBe(2);
+      expect(first.hits.map((h) => h.id)).toEqual(["2"]);
+
+      const second = await adapter.search("products", {
+        query: "running",
+        sort: [{ field: "id", order: "desc" }],
+        from: 1,
+        size: 1,
+      });
+      expect(second.hits.map((h) => h.id)).toEqual(["1"]);
+    });
+
+    it("should keep the index in sync on update and delete", async () => {
+      await adapter.index("products", "3", { ...docs[2], title: "Running jacket" });
+      expect((await adapter.search("products", { query: "running" })).total).toBe(3);
+
+      await adapter.delete("products", "1");
+      const result = await adapter.search("products", { query: "running" });
+      expect(result.hits.map((h) => h.id).sort()).toEqual(["2", "3"]);
+    });
+
+    it("should treat query syntax as plain words", async () => {
+      const result = await adapter.search("products", { query: 'shoes" (*:' });
+      expect(result.hits.map((h) => h.id)).toEqual(["1"]);
+    });
+
+    it("should manage indices", async () => {
+      expect(await adapter.indexExists("products")).toBe(true);
+      expect(await adapter.indexExists("missing")).toBe(false);
+      expect(await adapter.search("missing", { query: "running" })).toEqual({ hits: [], total: 0 });
+
+      await adapter.deleteIndex("products");
+      expect(await adapter.indexExists("products")).toBe(false);
+    });
+  });
+};
+
+adapterSuite("SQLite FTS5 search adapter", async () => {
+  const client = createLibsqlClient({ url: ":memory:" });
+  return {
+    adapter: createSQLiteSearchAdapter({ db: drizzle(client) }),
+    close: async () => client.close(),
+  };
+});
+
+adapterSuite("Postgres tsvector search adapter", async () => {
+  const pg = new PGlite();
+  return {
+    adapter: createPostgresSearchAdapter({ db: drizzlePglite(pg) }),
+    close: () => pg.close(),
+  };
+});
+
+const injectUser = (id: string) => (req: Request, _res: Response, next: NextFunction) => {
+  (req as any).user = { id, sessionId: "s1", sessionExpiresAt: new Date(Date.now() + 3600000) };
+  next();
+};
+
+describe("Search endpoint with a SQL adapter", () => {
+  describe("SQLite", () => {
+    const products = sqliteTable("products", {
+      id: integer("id").primaryKey({ autoIncrement: true }),
+      title: text("title").notNull(),
+      body: text("body"),
+      userId: text("userId").notNull(),
+    });
+
+    let client: ReturnType<typeof createLibsqlClient>;
+    let app: Express;
+
+    beforeEach(async () => {
+      client = createLibsqlClient({ url: ":memory:" });
+      await client.execute(
+        "CREATE TABLE products (id INTEGER PRIMARY KEY AUTOINCREMENT, title TEXT NOT NULL, body TEXT, userId TEXT NOT NULL)"
+      );
+      const db = drizzle(client);
+      setGlobalSearch(createSQLiteSearchAdapter({ db }));
+
+      app = express();
+      app.use(express.json());
+      app.use(injectUser("u1"));
+      app.use(
+        "/products",
+        useResource(products, {
+          id: products.id,
+          db,
+          auth: { read: async (user) => rsql`userId==${user.id}` },
+        })
+      );
+
+      // Seeded directly, so u2's row is indexed too
+      for (const doc of docs) {
+        await db.insert(products).values(doc);
+        await getGlobalSearch().index("products", String(doc.id), doc);
+      }
+    });
+
+    afterEach(() => {
+      clearGlobalSearch();
+      client.close();
+    });
+
+    it("should apply the read scope in SQL and report the scoped total", async () => {
+      const res = await request(app).get("/products/search?q=running&limit=1").expect(200);
+
+      expect(res.body.items).toEqual([docs[0]]);
+      expect(res.body.total).toBe(1);
+    });
+
+    it("should apply the user filter in SQL", async () => {
+      const res = await request(app).get('/products/search?q=running&filter=title=="Rain jacket"').expect(200);
+      expect(res.body.items).toEqual([]);
+
+      const match = await request(app).get('/products/search?q=packs&filter=title=="Rain jacket"').expect(200);
+      expect(match.body.items.map((i: { id: number }) => i.id)).toEqual([3]);
+    });
+
+    it("should index writes made through the resource", async () => {
+      await request(app).post("/products").send({ title: "Running socks", userId: "u1" }).expect(201);
+
+      const res = await request(app).get("/products/search?q=socks").expect(200);
+      expect(res.body.items.map((i: { title: string }) => i.title)).toEqual(["Running socks"]);
+    });
+  });
+
+  describe("Postgres", () => {
+    const products = pgTable("products", {
+      id: serial("id").primaryKey(),
+      title: varchar("title", { length: 255 }).notNull(),
+      body: varchar("body", { length: 255 }),
+      userId: varchar("user_id", { length: 50 }).notNull(),
+    });
+
+    let pg: PGlite;
+    let app: Express;
+
+    beforeAll(async () => {
+      pg = new PGlite();
+      const db = drizzlePglite(pg);
+      await db.execute(
+        sql`CREATE TABLE products (id SERIAL PRIMARY KEY, title VARCHAR(255) NOT NULL, body VARCHAR(255), user_id VARCHAR(50) NOT NULL)`
+      );
+      const adapter = createPostgresSearchAdapter({ db });
+      for (const doc of docs) {
+        await db.insert(products).values(doc);
+        await adapter.index("products", String(doc.id), doc);
+      }
+
+      setGlobalSearch(adapter);
+      app = express();
+      app.use(express.json());
+      app.use(injectUser("u2"));
+      app.use(
+        "/products",
+        useResource(products, {
+          id: products.id,
+          db,
+          auth: { read: async (user) => rsql`userId==${user.id}` },
+        })
+      );
+    });
+
+    afterAll(async () => {
+      clearGlobalSearch();
+      await pg.close();
+    });
+
+    it("should apply the read scope in SQL", async () => {
+      const res = await request(app).get("/products/search?q=running&highlight=true").expect(200);
+
+      expect(res.body.items.map((i: { id: number }) => i.id)).toEqual([2]);
+      expect(res.body.total).toBe(1);
+      expect(res.body.highlights["2"].body).toEqual(["Waterproof, good for <em>running</em> on trails"]);
+    });
+  });
+});
@@ -0,0 +1,236 @@
+import { describe, it, expect, beforeEach, afterEach, beforeAll, afterAll } from "vitest";
+import express, { Express, Request, Response, NextFunction } from "express";
+import request from "supertest";
+import http from "http";
+import { sqliteTable, text, integer } from "drizzle-orm/sqlite-core";
+import { drizzle } from "drizzle-orm/libsql";
+import { createClient as createLibsqlClient } from "@libsql/client";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { useResource } from "@/resource/hook";
+import { errorMiddleware } from "@/middleware/error";
+import { clearAllSubscriptions } from "@/resource/subscription";
+import { FieldPolicies, UserContext } from "@/resource/types";
+
+const fpUsers = sqliteTable("fp_users", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  name: text("name").notNull(),
+  ssn: text("ssn"),
+  role: text("role").default("user"),
+});
+
+const fpPosts = sqliteTable("fp_posts", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  title: text("title").notNull(),
+  authorId: integer("authorId").notNull(),
+  internalNote: text("internalNote"),
+});
+
+const userPolicies: FieldPolicies = {
+  readable: ["id", "name", "role"],
+  writable: ["name", "ssn"],
+};
+
+// Admins see everything; everybody else gets the restricted policy
+const resolveUserPolicies = (user: UserContext | null): FieldPolicies =>
+  user?.metadata?.admin ? {} : userPolicies;
+
+const injectUser = (req: Request, _res: Response, next: NextFunction) => {
+  (req as any).user = {
+    id: "u1",
+    sessionId: "s1",
+    sessionExpiresAt: new Date(Date.now() + 3600000),
+    metadata: { admin: req.headers["x-admin"] === "true" },
+  };
+  next();
+};
+
+const collectData = (baseUrl: string, path: string, waitMs: number, onReady?: () => Promise<void>) =>
+  new Promise<any[]>((resolve) => {
+    const events: any[] = [];
+    const req = http.get(new URL(path, baseUrl), (res) => {
+      let buffer = "";
+      res.on("data", (chunk) => {
+        buffer += chunk.toString();
+        const blocks = buffer.split("\n\n");
+        buffer = blocks.pop() ?? "";
+        for (const block of blocks) {
+          const data = block.match(/^data: (.+)$/m);
+          if (data && !block.includes("event: connected")) {
+            events.push(JSON.parse(data[1]!));
+          }
+        }
+      });
+      setTimeout(async () => {
+        await onReady?.();
+      }, 100);
+    });
+    setTimeout(() => {
+      req.destroy();
+      resolve(events);
+    }, waitMs);
+  });
+
+describe("Field policy enforcement", () => {
+  let app: Express;
+  let server: http.Server;
+  let baseUrl: string;
+  let libsqlClient: ReturnType<typeof createLibsqlClient>;
+  let tempDir: string;
+
+  beforeAll(() => {
+    tempDir = mkdtempSync(join(tmpdir(), "concave-field-policies-"));
+  });
+
+  afterAll(() => {
+    try {
+      rmSync(tempDir, { recursive: true, force: true });
+    } catch {}
+  });
+
+  beforeEach(async () => {
+    libsqlClient = createLibsqlClient({ url: `file:${join(tempDir, `test-${Date.now()}.db`)}` });
+    const db = drizzle(libsqlClient);
+
+    await libsqlClient.execute(`
+      CREATE TABLE fp_users (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        ssn TEXT,
+        role TEXT DEFAULT 'user'
+      )
+    `);
+    await libsqlClient.execute(`
+      CREATE TABLE fp_posts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        title TEXT NOT NULL,
+        authorId INTEGER NOT NULL,
+        internalNote TEXT
+      )
+    `);
+    await libsqlClient.execute(
+      "INSERT INTO fp_users (name, ssn, role) VALUES ('Ada', '111-22-3333', 'admin'), ('Bob', '444-55-6666', 'user')"
+    );
+    await libsqlClient.execute(
+      "INSERT INTO fp_posts (title, authorId, internalNote) VALUES ('Hello', 1, 'draft')"
+    );
+
+    app = express();
+    app.use(express.json());
+    app.use(injectUser);
+    app.use("/users", useResource(fpUsers, { id: fpUsers.id, db, fields: resolveUserPolicies }));
+    app.use(
+      "/posts",
+      useResource(fpPosts, {
+        id: fpPosts.id,
+        db,
+        fields: { readable: ["id", "title", "authorId"] },
+        relations: {
+          author: {
+            resource: "fp_users",
+            schema: fpUsers,
+            type: "belongsTo",
+            foreignKey: fpPosts.authorId,
+            references: fpUsers.id,
+          },
+        },
+      })
+    );
+    app.use(errorMiddleware);
+
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as any).port}`;
+  });
+
+  afterEach(async () => {
+    await clearAllSubscriptions();
+    await new Promise((resolve) => server.close(resolve));
+    libsqlClient.close();
+  });
+
+  it("should hide non-readable fields from list and get", async () => {
+    const list = await request(app).get("/users");
+    expect(list.status).toBe(200);
+    expect(list.body.items[0]).not.toHaveProperty("ssn");
+    expect(list.body.items[0].name).toBe("Ada");
+
+    const item = await request(app).get("/users/1");
+    expect(item.body).toEqual({ id: 1, name: "Ada", role: "admin" });
+  });
+
+  it("should resolve policies per user", async () => {
+    const res = await request(app).get("/users/1").set("x-admin", "true");
+
+    expect(res.body.ssn).toBe("111-22-3333");
+  });
+
+  it("should reject filtering, sorting and selecting hidden fields", async () => {
+    const filtered = await request(app).get("/users").query({ filter: 'ssn=="111-22-3333"' });
+    expect(filtered.status).toBe(400);
+
+    const counted = await request(app).get("/users/count").query({ filter: 'ssn=="111-22-3333"' });
+    expect(counted.status).toBe(400);
+
+    const sorted = await request(app).get("/users").query({ orderBy: "ssn:desc" });
+    expect(sorted.status).toBe(400);
+
+    const selected = await request(app).get("/users").query({ select: "id,ssn" });
+    expect(selected.status).toBe(400);
+
+    const allowed = await request(app).get("/users").query({ filter: 'name=="Bob"' });
+    expect(allowed.status).toBe(200);
+    expect(allowed.body.items).toHaveLength(1);
+  });
+
+  it("should reject aggregating over hidden fields", async () => {
+    const res = await request(app).get("/users/aggregate").query({ groupBy: "ssn", count: "true" });
+
+    expect(res.status).toBe(400);
+  });
+
+  it("should ignore non-writable fields on writes", async () => {
+    const created = await request(app)
+      .post("/users")
+      .send({ name: "Eve", ssn: "777-88-9999", role: "admin" });
+
+    expect(created.status).toBe(201);
+    expect(created.body).not.toHaveProperty("ssn");
+    expect(created.body.role).toBe("user");
+
+    const patched = await request(app).patch("/users/2").send({ role: "admin", name: "Robert" });
+    expect(patched.body).toEqual({ id: 2, name: "Robert", role: "user" });
+
+    const stored = await libsqlClient.execute("SELECT ssn, role FROM fp_users WHERE name = 'Eve'");
+    expect(stored.rows[0]!.ssn).toBe("777-88-9999");
+    expect(stored.rows[0]!.role).toBe("user");
+  });
+
+  it("should apply the related resource's policy to includes", async () => {
+    const res = await request(app).get("/posts/1").query({ include: "author" });
+
+    expect(res.body).not.toHaveProperty("internalNote");
+    expect(res.body.author.name).toBe("Ada");
+    expect(res.body.author).not.toHaveProperty("ssn");
+  });
+
+  it("should hide non-readable fields in subscription events", async () => {
+    const events = await collectData(baseUrl, "/users/subscribe", 600, async () => {
+      await request(app).post("/users").send({ name: "Eve", ssn: "777-88-9999" });
+    });
+
+    const existing = events.filter((e) => e.type === "existing");
+    const added = events.find((e) => e.type === "added");
+
+    expect(existing).toHaveLength(2);
+    expect(existing[0].object).not.toHaveProperty("ssn");
+    expect(added.object.name).toBe("Eve");
+    expect(added.object).not.toHaveProperty("ssn");
+  });
+
+  it("should reject subscribing with a filter on a hidden field", async () => {
+    const res = await request(app).get("/users/subscribe").query({ filter: 'ssn=="x"' });
+
+    expect(res.status).toBe(400);
+  });
+});
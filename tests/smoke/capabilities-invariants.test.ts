@@ -186,7 +186,7 @@ describe("Capabilities and Field Policy Invariant Tests", () => {
 
       const fields: FieldPolicies = {
         readable: ["id", "name", "email", "role"],
-        writable: ["name", "email", "password"],
+        writable: ["name", "email", "password", "role"],
         filterable: ["name", "email", "role"],
       };
 
@@ -402,7 +402,7 @@ describe("Capabilities and Field Policy Invariant Tests", () => {
 
       const fields: FieldPolicies = {
         readable: ["id", "name", "email"],
-        writable: ["name", "email"],
+        writable: ["name", "email", "password"],
       };
 
       app.use(
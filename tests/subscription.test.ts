@@ -23,6 +23,9 @@ import {
   clearAllSubscriptions,
   addRelevantObject,
   registerKnownIds,
+  createSubscriptionSink,
+  getSinkStats,
+  SinkConnection,
 } from "@/resource/subscription";
 import { changelog } from "@/resource/changelog";
 import { createMemoryKV, setGlobalKV, KVAdapter } from "@/kv";
@@ -1581,3 +1584,95 @@ describe("Hybrid Subscription (skipExisting + knownIds)", () => {
     });
   });
 });
+
+describe("Subscription sink backpressure", () => {
+  const createConnection = (bufferedBytes: number) => {
+    const written: any[] = [];
+    const connection: SinkConnection & { closed: boolean } = {
+      closed: false,
+      write: (payload) => {
+        written.push(JSON.parse(payload));
+      },
+      bufferedBytes: () => bufferedBytes,
+      isOpen: () => !connection.closed,
+      close: () => {
+        connection.closed = true;
+      },
+    };
+    return { connection, written };
+  };
+
+  const event = (subscriptionId: string, seq: number) => ({
+    id: `e${seq}`,
+    subscriptionId,
+    seq,
+    timestamp: Date.now(),
+    type: "removed" as const,
+    objectId: String(seq),
+  });
+
+  it("should write events while under the queue limit", () => {
+    const { connection, written } = createConnection(10);
+    const sink = createSubscriptionSink(connection, JSON.stringify, () => ({
+      maxQueueBytes: 100,
+      onBackpressure: "invalidate",
+    }));
+
+    expect(sink.send(event("s1", 1))).toBe(true);
+    expect(written.map((e) => e.type)).toEqual(["removed"]);
+  });
+
+  it("should drop events over the limit with the drop policy", () => {
+    const { connection, written } = createConnection(500);
+    const sink = createSubscriptionSink(connection, JSON.stringify, () => ({
+      maxQueueBytes: 100,
+      onBackpressure: "drop",
+    }));
+
+    sink.send(event("s1", 1));
+    expect(written).toHaveLength(0);
+    expect(sink.isOpen()).toBe(true);
+  });
+
+  it("should close the connection with the disconnect policy", () => {
+    const { connection, written } = createConnection(500);
+    const sink = createSubscriptionSink(connection, JSON.stringify, () => ({
+      maxQueueBytes: 100,
+      onBackpressure: "disconnect",
+    }));
+
+    sink.send(event("s1", 1));
+    expect(written).toHaveLength(0);
+    expect(sink.isOpen()).toBe(false);
+  });
+
+  it("should invalidate only the lagging subscription once", () => {
+    const { connection, written } = createConnection(500);
+    const sink = createSubscriptionSink(connection, JSON.stringify, (subscriptionId) =>
+      subscriptionId === "s1" ? { maxQueueBytes: 100, onBackpressure: "invalidate" } : undefined
+    );
+
+    sink.send(event("s1", 1));
+    sink.send(event("s1", 2));
+    sink.send(event("s2", 3));
+
+    expect(written.map((e) => [e.subscriptionId, e.type])).toEqual([
+      ["s1", "invalidate"],
+      ["s2", "removed"],
+    ]);
+  });
+
+  it("should stop counting a connection once its handler is unregistered", async () => {
+    const { connection } = createConnection(40);
+    const before = getSinkStats();
+
+    registerHandler("sink-stats", createSubscriptionSink(connection, JSON.stringify, () => undefined));
+    expect(getSinkStats()).toEqual({
+      connections: before.connections + 1,
+      queuedBytes: before.queuedBytes + 40,
+    });
+
+    await unregisterHandler("sink-stats");
+    expect(getSinkStats()).toEqual(before);
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import express, { Express, Request, Response, NextFunction } from "express";
+import request from "supertest";
+import http from "http";
+import { sqliteTable, text, integer } from "drizzle-orm/sqlite-core";
+import { drizzle } from "drizzle-orm/libsql";
+import { createClient } from "@libsql/client";
+import { useResource } from "@/resource/hook";
+import { rsql } from "@/auth/rsql";
+
+const orders = sqliteTable("la_orders", {
+  id: text("id").primaryKey(),
+  customerId: text("customerId").notNull(),
+  status: text("status").notNull(),
+  total: integer("total").notNull(),
+});
+
+const injectUser = (req: Request, _res: Response, next: NextFunction) => {
+  const id = req.headers["x-user"]?.toString() ?? "c1";
+  (req as any).user = { id, sessionId: "s1", sessionExpiresAt: new Date(Date.now() + 3600000) };
+  next();
+};
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("Live aggregates", () => {
+  let client: ReturnType<typeof createClient>;
+  let app: Express;
+  let server: http.Server;
+  let baseUrl: string;
+
+  // Opens an SSE stream and collects its data events until the returned
+  // function is called
+  const stream = async (path: string, user = "c1") => {
+    const events: any[] = [];
+    const req = http.get(new URL(path, baseUrl), { headers: { "x-user": user } }, (res) => {
+      let buffer = "";
+      res.on("data", (chunk) => {
+        buffer += chunk.toString();
+        const blocks = buffer.split("\n\n");
+        buffer = blocks.pop() ?? "";
+        for (const block of blocks) {
+          const data = block.match(/^data: (.+)$/m);
+          if (data) events.push(JSON.parse(data[1]!));
+        }
+      });
+    });
+
+    while (events.length === 0) await wait(10);
+    return {
+      events,
+      close: () => req.destroy(),
+    };
+  };
+
+  beforeEach(async () => {
+    client = createClient({ url: ":memory:" });
+    await client.executeMultiple(`
+      CREATE TABLE la_orders (id TEXT PRIMARY KEY, customerId TEXT NOT NULL, status TEXT NOT NULL, total INTEGER NOT NULL);
+
+      INSERT INTO la_orders VALUES
+        ('o1', 'c1', 'paid', 10),
+        ('o2', 'c1', 'pending', 20),
+        ('o3', 'c2', 'paid', 30);
+    `);
+
+    app = express();
+    app.use(express.json());
+    app.use(injectUser);
+    app.use(
+      "/orders",
+      useResource(orders, {
+        id: orders.id,
+        db: drizzle(client),
+        auth: { read: async (user) => rsql`customerId==${user.id}` },
+        sse: { liveAggregateDebounceMs: 20 },
+      })
+    );
+
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as any).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    client.close();
+  });
+
+  it("should update counts and sums as rows are written", async () => {
+    const live = await stream("/orders/aggregate/subscribe?groupBy=status&count=true&sum=total");
+    expect(live.events[0]).toEqual({
+      type: "aggregate",
+      groups: [
+        { key: { status: "paid" }, count: 1, sum: { total: 10 } },
+        { key: { status: "pending" }, count: 1, sum: { total: 20 } },
+      ],
+    });
+
+    await request(app).post("/orders").send({ id: "o4", customerId: "c1", status: "paid", total: 5 }).expect(201);
+    await request(app).patch("/orders/o2").send({ status: "shipped" }).expect(200);
+    await request(app).delete("/orders/o1").expect(204);
+    await wait(50);
+    live.close();
+
+    expect(live.events).toHaveLength(4);
+    expect(live.events.at(-1).groups).toEqual([
+      { key: { status: "paid" }, count: 1, sum: { total: 5 } },
+      { key: { status: "shipped" }, count: 1, sum: { total: 20 } },
+    ]);
+  });
+
+  it("should leave out rows outside the caller's scope", async () => {
+    const live = await stream("/orders/count/subscribe");
+    expect(live.events[0]).toEqual({ type: "count", count: 2 });
+
+    await request(app)
+      .post("/orders")
+      .set("x-user", "c2")
+      .send({ id: "o4", customerId: "c2", status: "paid", total: 5 })
+      .expect(201);
+    await request(app).post("/orders").send({ id: "o5", customerId: "c1", status: "paid", total: 5 }).expect(201);
+    await wait(50);
+    live.close();
+
+    expect(live.events).toEqual([
+      { type: "count", count: 2 },
+      { type: "count", count: 3 },
+    ]);
+  });
+
+  it("should apply the stream's filter", async () => {
+    const live = await stream('/orders/count/subscribe?filter=status=="pending"');
+    expect(live.events[0].count).toBe(1);
+
+    await request(app).patch("/orders/o2").send({ status: "paid" }).expect(200);
+    await wait(50);
+    live.close();
+
+    expect(live.events.at(-1)).toEqual({ type: "count", count: 0 });
+  });
+
+  it("should recompute averages once per batch of changes", async () => {
+    const live = await stream("/orders/aggregate/subscribe?avg=total&max=total");
+    expect(live.events[0].groups).toEqual([{ key: null, avg: { total: 15 }, max: { total: 20 } }]);
+
+    await request(app).post("/orders").send({ id: "o4", customerId: "c1", status: "paid", total: 60 }).expect(201);
+    await request(app).post("/orders").send({ id: "o5", customerId: "c1", status: "paid", total: 30 }).expect(201);
+    await wait(100);
+    live.close();
+
+    expect(live.events).toHaveLength(2);
+    expect(live.events[1].groups).toEqual([{ key: null, avg: { total: 30 }, max: { total: 60 } }]);
+  });
+
+  it("should reject invalid aggregations before streaming", async () => {
+    await request(app).get("/orders/aggregate/subscribe?groupBy=missing&count=true").expect(400);
+  });
+});
@@ -0,0 +1,254 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import express, { Express, Request, Response, NextFunction } from "express";
+import request from "supertest";
+import { eq } from "drizzle-orm";
+import { sqliteTable, text } from "drizzle-orm/sqlite-core";
+import { drizzle } from "drizzle-orm/libsql";
+import { createClient } from "@libsql/client";
+import { useResource } from "@/resource/hook";
+import { trackMutations } from "@/resource/track-mutations";
+import { RelationsConfig } from "@/resource/relations";
+import {
+  createSubscription,
+  registerHandler,
+  addRelevantObject,
+  removeSubscription,
+  flushRelatedChanges,
+  processChangelogEntries,
+} from "@/resource/subscription";
+import { createResourceFilter } from "@/resource/filter";
+
+const users = sqliteTable("rc_users", {
+  id: text("id").primaryKey(),
+  name: text("name").notNull(),
+});
+
+const posts = sqliteTable("rc_posts", {
+  id: text("id").primaryKey(),
+  title: text("title").notNull(),
+  authorId: text("authorId"),
+});
+
+const comments = sqliteTable("rc_comments", {
+  id: text("id").primaryKey(),
+  postId: text("postId").notNull(),
+  body: text("body").notNull(),
+});
+
+const tags = sqliteTable("rc_tags", {
+  id: text("id").primaryKey(),
+  name: text("name").notNull(),
+});
+
+const postTags = sqliteTable("rc_post_tags", {
+  postId: text("postId").notNull(),
+  tagId: text("tagId").notNull(),
+});
+
+const postRelations: RelationsConfig = {
+  author: {
+    resource: "rc_users",
+    schema: users,
+    type: "belongsTo",
+    foreignKey: posts.authorId,
+    references: users.id,
+    subscribeToChanges: true,
+  },
+  comments: {
+    resource: "rc_comments",
+    schema: comments,
+    type: "hasMany",
+    foreignKey: comments.postId,
+    references: posts.id,
+    subscribeToChanges: { debounceMs: 100 },
+  },
+  tags: {
+    resource: "rc_tags",
+    schema: tags,
+    type: "manyToMany",
+    foreignKey: posts.id,
+    references: tags.id,
+    through: { schema: postTags, sourceKey: postTags.postId, targetKey: postTags.tagId },
+    subscribeToChanges: true,
+  },
+};
+
+const injectUser = (req: Request, _res: Response, next: NextFunction) => {
+  (req as any).user = { id: "u1", sessionId: "s1", sessionExpiresAt: new Date(Date.now() + 3600000) };
+  next();
+};
+
+const createHandler = (handlerId: string) => {
+  const chunks: string[] = [];
+  registerHandler(handlerId, {
+    write: vi.fn((data: string) => chunks.push(data) > 0),
+    writableEnded: false,
+    end: vi.fn(),
+  } as unknown as Response);
+
+  return () =>
+    chunks
+      .filter((c) => c.startsWith("data: "))
+      .map((c) => JSON.parse(c.slice(6).trim()));
+};
+
+const subscriptionIds: string[] = [];
+
+const subscribe = async (handlerId: string, include?: string, filter = "") => {
+  const id = await createSubscription({
+    resource: "rc_posts",
+    filter,
+    handlerId,
+    authId: "u1",
+    include,
+  });
+  await addRelevantObject(id, "p1");
+  await addRelevantObject(id, "p2");
+  subscriptionIds.push(id);
+  return id;
+};
+
+describe("Subscriptions to included relations", () => {
+  let client: ReturnType<typeof createClient>;
+  let db: ReturnType<typeof drizzle>;
+  let app: Express;
+
+  beforeEach(async () => {
+    client = createClient({ url: ":memory:" });
+    await client.executeMultiple(`
+      CREATE TABLE rc_users (id TEXT PRIMARY KEY, name TEXT NOT NULL);
+      CREATE TABLE rc_posts (id TEXT PRIMARY KEY, title TEXT NOT NULL, authorId TEXT);
+      CREATE TABLE rc_comments (id TEXT PRIMARY KEY, postId TEXT NOT NULL, body TEXT NOT NULL);
+      CREATE TABLE rc_tags (id TEXT PRIMARY KEY, name TEXT NOT NULL);
+      CREATE TABLE rc_post_tags (postId TEXT NOT NULL, tagId TEXT NOT NULL);
+
+      INSERT INTO rc_users VALUES ('u1', 'Ada'), ('u2', 'Grace');
+      INSERT INTO rc_posts VALUES ('p1', 'Engines', 'u1'), ('p2', 'Compilers', 'u2');
+      INSERT INTO rc_comments VALUES ('c1', 'p1', 'First'), ('c2', 'p1', 'Second');
+      INSERT INTO rc_tags VALUES ('t1', 'db');
+      INSERT INTO rc_post_tags VALUES ('p2', 't1');
+    `);
+    db = drizzle(client);
+
+    app = express();
+    app.use(express.json());
+    app.use(injectUser);
+    app.use("/users", useResource(users, { id: users.id, db }));
+    app.use("/comments", useResource(comments, { id: comments.id, db }));
+    app.use("/tags", useResource(tags, { id: tags.id, db }));
+    app.use("/posts", useResource(posts, { id: posts.id, db, relations: postRelations }));
+  });
+
+  afterEach(async () => {
+    for (const id of subscriptionIds.splice(0)) {
+      await removeSubscription(id);
+    }
+    client.close();
+  });
+
+  it("should push the parent when an included hasMany row changes", async () => {
+    const events = createHandler("h1");
+    await subscribe("h1", "comments");
+
+    await request(app).patch("/comments/c1").send({ body: "Edited" }).expect(200);
+    await flushRelatedChanges();
+
+    const changed = events().filter((e) => e.type === "changed");
+    expect(changed).toHaveLength(1);
+    expect(changed[0].object.id).toBe("p1");
+    expect(changed[0].object.comments.map((c: { body: string }) => c.body).sort()).toEqual([
+      "Edited",
+      "Second",
+    ]);
+  });
+
+  it("should batch changes to the same parent into one event", async () => {
+    const events = createHandler("h1");
+    await subscribe("h1", "comments");
+
+    await request(app).patch("/comments/c1").send({ body: "One" }).expect(200);
+    await request(app).patch("/comments/c2").send({ body: "Two" }).expect(200);
+    await request(app).post("/comments").send({ id: "c3", postId: "p1", body: "Three" }).expect(201);
+    await new Promise((resolve) => setTimeout(resolve, 150));
+
+    const changed = events().filter((e) => e.type === "changed");
+    expect(changed).toHaveLength(1);
+    expect(changed[0].object.comments).toHaveLength(3);
+  });
+
+  it("should push parents of deleted related rows", async () => {
+    const events = createHandler("h1");
+    await subscribe("h1", "comments");
+
+    await request(app).delete("/comments/c2").expect(204);
+    await flushRelatedChanges();
+
+    const changed = events().filter((e) => e.type === "changed");
+    expect(changed[0].object.comments.map((c: { id: string }) => c.id)).toEqual(["c1"]);
+  });
+
+  it("should push children of a deleted parent replayed from the changelog", async () => {
+    const events = createHandler("h1");
+    await subscribe("h1", "author");
+
+    await client.execute("DELETE FROM rc_users WHERE id = 'u2'");
+    await processChangelogEntries(
+      [
+        {
+          seq: 1,
+          resource: "rc_users",
+          type: "delete",
+          objectId: "u2",
+          previousObject: { id: "u2", name: "Grace" },
+          timestamp: Date.now(),
+        },
+      ],
+      createResourceFilter(users),
+      "id"
+    );
+    await flushRelatedChanges();
+
+    const changed = events().filter((e) => e.type === "changed");
+    expect(changed).toHaveLength(1);
+    expect(changed[0].object.id).toBe("p2");
+    expect(changed[0].object.author).toBeNull();
+  });
+
+  it("should push every post of a renamed author, and of a renamed tag", async () => {
+    const events = createHandler("h1");
+    await subscribe("h1", "author,tags");
+
+    await request(app).patch("/users/u2").send({ name: "Grace Hopper" }).expect(200);
+    await request(app).patch("/tags/t1").send({ name: "databases" }).expect(200);
+    await flushRelatedChanges();
+
+    const changed = events().filter((e) => e.type === "changed");
+    expect(changed).toHaveLength(2);
+    expect(changed.every((e) => e.object.id === "p2")).toBe(true);
+    expect(changed.at(-1).object.author.name).toBe("Grace Hopper");
+    expect(changed.at(-1).object.tags[0].name).toBe("databases");
+  });
+
+  it("should leave subscriptions that do not include the relation alone", async () => {
+    const events = createHandler("h1");
+    await subscribe("h1", "author");
+
+    await request(app).patch("/comments/c1").send({ body: "Edited" }).expect(200);
+    await flushRelatedChanges();
+
+    expect(events().filter((e) => e.type === "changed")).toHaveLength(0);
+  });
+
+  it("should react to changes captured by trackMutations", async () => {
+    const events = createHandler("h1");
+    await subscribe("h1", "comments");
+
+    const tracked = trackMutations(db, { comments: { table: comments, id: comments.id } });
+    await tracked.update(comments).set({ body: "Tracked" }).where(eq(comments.id, "c2")).returning();
+    await flushRelatedChanges();
+
+    const changed = events().filter((e) => e.type === "changed");
+    expect(changed).toHaveLength(1);
+    expect(changed[0].object.comments.map((c: { body: string }) => c.body)).toContain("Tracked");
+  });
+});
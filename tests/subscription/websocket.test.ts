@@ -0,0 +1,299 @@
+import { describe, it, expect, beforeEach, afterEach, beforeAll, afterAll } from "vitest";
+import express, { Express, Request, Response, NextFunction } from "express";
+import request from "supertest";
+import http from "http";
+import WebSocket from "ws";
+import { sqliteTable, text, integer } from "drizzle-orm/sqlite-core";
+import { drizzle } from "drizzle-orm/libsql";
+import { createClient as createLibsqlClient } from "@libsql/client";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { useResource } from "@/resource/hook";
+import { errorMiddleware } from "@/middleware/error";
+import { changelog } from "@/resource/changelog";
+import { clearAllSubscriptions } from "@/resource/subscription";
+import { createSubscriptionSocket, SubscriptionSocket } from "@/resource/subscription-socket";
+import { rsql } from "@/auth/rsql";
+import { FetchTransport } from "@/client/transport";
+import { SubscriptionSocket as ClientSubscriptionSocket } from "@/client/subscription-socket";
+import { SubscriptionManager } from "@/client/subscription-manager";
+
+const wsTasks = sqliteTable("ws_tasks", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  title: text("title").notNull(),
+  ownerId: text("ownerId").notNull(),
+});
+
+const wsNotes = sqliteTable("ws_notes", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  body: text("body").notNull(),
+});
+
+const testUser = {
+  id: "u1",
+  sessionId: "s1",
+  sessionExpiresAt: new Date(Date.now() + 3600000),
+};
+
+const injectUser = (req: Request, _res: Response, next: NextFunction) => {
+  (req as any).user = testUser;
+  next();
+};
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const openSocket = (url: string) =>
+  new Promise<{ ws: WebSocket; messages: any[] }>((resolve, reject) => {
+    const ws = new WebSocket(url);
+    const messages: any[] = [];
+    ws.on("message", (data) => messages.push(JSON.parse(data.toString())));
+    ws.on("open", () => resolve({ ws, messages }));
+    ws.on("error", reject);
+  });
+
+describe("WebSocket subscriptions", () => {
+  let app: Express;
+  let server: http.Server;
+  let socketServer: SubscriptionSocket;
+  let wsUrl: string;
+  let baseUrl: string;
+  let libsqlClient: ReturnType<typeof createLibsqlClient>;
+  let tempDir: string;
+  let authenticated: boolean;
+
+  beforeAll(() => {
+    tempDir = mkdtempSync(join(tmpdir(), "concave-websocket-"));
+  });
+
+  afterAll(() => {
+    try {
+      rmSync(tempDir, { recursive: true, force: true });
+    } catch {}
+  });
+
+  beforeEach(async () => {
+    libsqlClient = createLibsqlClient({ url: `file:${join(tempDir, `test-${Date.now()}.db`)}` });
+    const db = drizzle(libsqlClient);
+    authenticated = true;
+
+    await libsqlClient.execute(
+      "CREATE TABLE ws_tasks (id INTEGER PRIMARY KEY AUTOINCREMENT, title TEXT NOT NULL, ownerId TEXT NOT NULL)"
+    );
+    await libsqlClient.execute("CREATE TABLE ws_notes (id INTEGER PRIMARY KEY AUTOINCREMENT, body TEXT NOT NULL)");
+    await libsqlClient.execute(
+      "INSERT INTO ws_tasks (title, ownerId) VALUES ('Mine', 'u1'), ('Theirs', 'u2')"
+    );
+    await changelog.clear();
+
+    app = express();
+    app.use(express.json());
+    app.use(injectUser);
+    app.use(
+      "/tasks",
+      useResource(wsTasks, {
+        id: wsTasks.id,
+        db,
+        auth: {
+          read: (user) => rsql`ownerId==${user.id}`,
+        },
+      })
+    );
+    app.use("/ws_notes", useResource(wsNotes, { id: wsNotes.id, db, auth: { public: true } }));
+    app.use(errorMiddleware);
+
+    server = app.listen(0);
+    const port = (server.address() as any).port;
+    baseUrl = `http://127.0.0.1:${port}`;
+    wsUrl = `ws://127.0.0.1:${port}/__concave/subscriptions`;
+
+    // ws_tasks is mounted under a path other than its table name; the
+    // socket learns it here, before any HTTP request reaches the resource
+    socketServer = createSubscriptionSocket({
+      server,
+      resources: { "/tasks": wsTasks },
+      authenticate: () => (authenticated ? testUser : null),
+    });
+  });
+
+  afterEach(async () => {
+    await socketServer.close();
+    await clearAllSubscriptions();
+    await new Promise((resolve) => server.close(resolve));
+    libsqlClient.close();
+  });
+
+  it("should replay existing items within the subscribe scope", async () => {
+    const { ws, messages } = await openSocket(wsUrl);
+    ws.send(JSON.stringify({ type: "subscribe", ref: "a", resource: "/tasks" }));
+    await wait(150);
+    ws.close();
+
+    expect(messages[0]).toMatchObject({ type: "subscribed", ref: "a" });
+    const events = messages.slice(1).map((m) => m.event);
+    expect(events.map((e) => [e.type, e.object.title])).toEqual([["existing", "Mine"]]);
+    expect(events[0].subscriptionId).toBe(messages[0].subscriptionId);
+  });
+
+  it("should multiplex subscriptions to several resources", async () => {
+    const { ws, messages } = await openSocket(wsUrl);
+    ws.send(JSON.stringify({ type: "subscribe", ref: "t", resource: "/tasks", params: { skipExisting: "true" } }));
+    ws.send(JSON.stringify({ type: "subscribe", ref: "n", resource: "/ws_notes" }));
+    await wait(150);
+
+    await request(app).post("/tasks").send({ title: "New", ownerId: "u1" });
+    await request(app).post("/ws_notes").send({ body: "Hello" });
+    await wait(150);
+    ws.close();
+
+    const ids = Object.fromEntries(
+      messages.filter((m) => m.type === "subscribed").map((m) => [m.ref, m.subscriptionId])
+    );
+    const events = messages.filter((m) => m.type === "event").map((m) => m.event);
+
+    expect(events.map((e) => [e.subscriptionId, e.type])).toEqual([
+      [ids.t, "added"],
+      [ids.n, "added"],
+    ]);
+  });
+
+  it("should stop events after unsubscribe", async () => {
+    const { ws, messages } = await openSocket(wsUrl);
+    ws.send(JSON.stringify({ type: "subscribe", ref: "n", resource: "/ws_notes" }));
+    await wait(100);
+
+    ws.send(JSON.stringify({ type: "unsubscribe", subscriptionId: messages[0].subscriptionId }));
+    await wait(50);
+    await request(app).post("/ws_notes").send({ body: "Unseen" });
+    await wait(100);
+    ws.close();
+
+    expect(messages.filter((m) => m.type === "event")).toHaveLength(0);
+  });
+
+  it("should skip the replay when resuming from a sequence", async () => {
+    await request(app).post("/ws_notes").send({ body: "Seen before" });
+    const seq = await changelog.getCurrentSequence();
+
+    const { ws, messages } = await openSocket(wsUrl);
+    ws.send(
+      JSON.stringify({ type: "subscribe", ref: "n", resource: "/ws_notes", params: { resumeFrom: String(seq) } })
+    );
+    await wait(100);
+    await request(app).post("/ws_notes").send({ body: "Fresh" });
+    await wait(100);
+    ws.close();
+
+    const events = messages.filter((m) => m.type === "event").map((m) => m.event);
+    expect(events.map((e) => [e.type, e.object.body])).toEqual([["added", "Fresh"]]);
+  });
+
+  it("should report errors for unknown resources and unauthenticated users", async () => {
+    const { ws, messages } = await openSocket(wsUrl);
+    ws.send(JSON.stringify({ type: "subscribe", ref: "x", resource: "/nope" }));
+    await wait(50);
+    ws.close();
+
+    expect(messages[0]).toMatchObject({ type: "error", ref: "x", status: 404 });
+
+    authenticated = false;
+    const anonymous = await openSocket(wsUrl);
+    anonymous.ws.send(JSON.stringify({ type: "subscribe", ref: "t", resource: "/tasks" }));
+    await wait(50);
+    anonymous.ws.close();
+
+    expect(anonymous.messages[0]).toMatchObject({ type: "error", ref: "t", status: 401 });
+  });
+
+  it("should require authenticate unless anonymous sockets are allowed", async () => {
+    expect(() => createSubscriptionSocket({ server, path: "/anonymous" })).toThrow(
+      /authenticate/
+    );
+
+    const anonymousServer = createSubscriptionSocket({
+      server,
+      path: "/anonymous",
+      resources: { "/tasks": wsTasks },
+      allowAnonymous: true,
+    });
+    try {
+      const { ws, messages } = await openSocket(wsUrl.replace("/__concave/subscriptions", "/anonymous"));
+      ws.send(JSON.stringify({ type: "subscribe", ref: "t", resource: "/tasks" }));
+      ws.send(JSON.stringify({ type: "subscribe", ref: "n", resource: "/ws_notes" }));
+      await wait(100);
+      ws.close();
+
+      expect(messages.find((m) => m.ref === "t")).toMatchObject({ type: "error", status: 401 });
+      expect(messages.find((m) => m.ref === "n")).toMatchObject({ type: "subscribed" });
+    } finally {
+      await anonymousServer.close();
+    }
+  });
+
+  it("should close the socket when authenticate rejects or throws", async () => {
+    const failing = [
+      createSubscriptionSocket({
+        server,
+        path: "/rejects",
+        authenticate: async () => {
+          throw new Error("session store down");
+        },
+      }),
+      createSubscriptionSocket({
+        server,
+        path: "/throws",
+        authenticate: () => {
+          throw new Error("bad cookie");
+        },
+      }),
+    ];
+    try {
+      for (const path of ["/rejects", "/throws"]) {
+        const { ws, messages } = await openSocket(wsUrl.replace("/__concave/subscriptions", path));
+        const closed = new Promise<number>((resolve) => ws.on("close", (code) => resolve(code)));
+        ws.send(JSON.stringify({ type: "subscribe", ref: "n", resource: "/ws_notes" }));
+
+        expect(await closed).toBe(4401);
+        expect(messages.filter((m) => m.type === "subscribed")).toHaveLength(0);
+      }
+    } finally {
+      await Promise.all(failing.map((socket) => socket.close()));
+    }
+  });
+
+  it("should drive the client SubscriptionManager over the shared socket", async () => {
+    const transport = new FetchTransport({ baseUrl });
+    transport.setWebSocketConstructor(WebSocket as unknown as typeof globalThis.WebSocket);
+    const socket = new ClientSubscriptionSocket(transport);
+
+    const added: string[] = [];
+    const tasks = new SubscriptionManager<any>({
+      transport,
+      resourcePath: "/tasks",
+      idField: "id",
+      socket,
+      callbacks: { onAdded: (item) => added.push(item.title) },
+    });
+    const notes = new SubscriptionManager<any>({
+      transport,
+      resourcePath: "/ws_notes",
+      idField: "id",
+      socket,
+    });
+    await wait(150);
+
+    expect(tasks.state.isConnected).toBe(true);
+    expect(tasks.items.map((t) => t.title)).toEqual(["Mine"]);
+
+    await request(app).post("/tasks").send({ title: "Another", ownerId: "u1" });
+    await request(app).post("/ws_notes").send({ body: "Note" });
+    await wait(150);
+
+    expect(added).toEqual(["Another"]);
+    expect(notes.items.map((n) => n.body)).toEqual(["Note"]);
+    expect(socketServer.wss.clients.size).toBe(1);
+
+    tasks.unsubscribe();
+    notes.unsubscribe();
+  });
+});
@@ -0,0 +1,262 @@
+import { describe, it, expect, beforeEach, afterEach, beforeAll, afterAll } from "vitest";
+import express from "express";
+import request from "supertest";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { sqliteTable, text } from "drizzle-orm/sqlite-core";
+import { pgTable, varchar } from "drizzle-orm/pg-core";
+import { drizzle } from "drizzle-orm/libsql";
+import { drizzle as drizzlePglite } from "drizzle-orm/pglite";
+import { createClient as createLibsqlClient } from "@libsql/client";
+import { PGlite } from "@electric-sql/pglite";
+import { useResource } from "@/resource/hook";
+import { DrizzleDatabase } from "@/resource/types";
+import { createTaskOutbox, createOutboxRelay, TaskOutbox, OutboxDialect } from "@/tasks/outbox";
+import { createOutboxTriggerHooks, composeHooks } from "@/tasks/integration";
+import { createTaskScheduler, createTaskRegistry, TaskRegistry } from "@/tasks/scheduler";
+import { createTaskStorage } from "@/tasks/storage";
+import { defineTask } from "@/tasks/define";
+import { createMemoryKV, KVAdapter } from "@/kv";
+
+const sqliteOrders = sqliteTable("ob_orders", {
+  id: text("id").primaryKey(),
+  customer: text("customer").notNull(),
+});
+
+const pgOrders = pgTable("ob_orders", {
+  id: varchar("id", { length: 50 }).primaryKey(),
+  customer: varchar("customer", { length: 50 }).notNull(),
+});
+
+interface Database {
+  db: DrizzleDatabase;
+  dialect: OutboxDialect;
+  orders: typeof sqliteOrders | typeof pgOrders;
+  close: () => Promise<void>;
+}
+
+const sendEmail = defineTask({
+  name: "send-email",
+  handler: async (_ctx, input: { to: string }) => input.to,
+});
+
+let kv: KVAdapter;
+
+beforeAll(async () => {
+  kv = createMemoryKV("test-outbox");
+  await kv.connect();
+});
+
+afterAll(async () => {
+  await kv.disconnect();
+});
+
+// The same behaviour is expected from both dialects
+const outboxSuite = (name: string, open: () => Promise<Database>) => {
+  describe(name, () => {
+    let database: Database;
+    let outbox: TaskOutbox;
+    let registry: TaskRegistry;
+
+    const tasks = () => createTaskStorage(kv).query({ name: "send-email" });
+
+    beforeEach(async () => {
+      for (const key of await kv.keys("*")) {
+        await kv.del(key);
+      }
+
+      database = await open();
+
+      outbox = createTaskOutbox({ db: database.db, dialect: database.dialect });
+      await outbox.setup();
+
+      registry = createTaskRegistry();
+      registry.register(sendEmail);
+    });
+
+    afterEach(async () => {
+      await database.close();
+    });
+
+    it("should only keep rows whose transaction commits", async () => {
+      await database.db.transaction(async (tx: DrizzleDatabase) => {
+        await outbox.add(tx, sendEmail, { to: "a@example.com" });
+      });
+      await expect(
+        database.db.transaction(async (tx: DrizzleDatabase) => {
+          await outbox.add(tx, sendEmail, { to: "b@example.com" });
+          throw new Error("rollback");
+        })
+      ).rejects.toThrow("rollback");
+
+      const entries = await outbox.list();
+      expect(entries).toHaveLength(1);
+      expect(entries[0]).toMatchObject({
+        taskName: "send-email",
+        input: { to: "a@example.com" },
+        attempts: 0,
+      });
+    });
+
+    it("should move due rows into the queue", async () => {
+      await outbox.add(database.db, sendEmail, { to: "a@example.com" });
+      await outbox.add(database.db, sendEmail, { to: "later@example.com" }, { delay: 60000 });
+
+      const relay = createOutboxRelay(kv, registry, outbox);
+      expect(await relay.relayOnce()).toBe(1);
+
+      const queued = await tasks();
+      expect(queued).toHaveLength(1);
+      expect(queued[0]!.input).toEqual({ to: "a@example.com" });
+      expect(await outbox.count()).toBe(1);
+    });
+
+    it("should not enqueue a redelivered row twice", async () => {
+      const rowId = await outbox.add(database.db, sendEmail, { to: "a@example.com" });
+
+      // A relay that enqueued the task but died before deleting the row
+      const scheduler = createTaskScheduler(kv, registry);
+      await scheduler.schedule(sendEmail, { to: "a@example.com" }, {
+        idempotencyKey: `outbox:${rowId}`,
+      });
+
+      const relay = createOutboxRelay(kv, registry, outbox);
+      expect(await relay.relayOnce()).toBe(1);
+      expect(await tasks()).toHaveLength(1);
+      expect(await outbox.count()).toBe(0);
+    });
+
+    it("should not redeliver a row whose keyed task already finished", async () => {
+      const rowId = await outbox.add(database.db, sendEmail, { to: "a@example.com" }, {
+        idempotencyKey: "welcome:a",
+      });
+
+      // Delivered and run, but the relay died before deleting the row
+      const storage = createTaskStorage(kv);
+      const taskId = await createTaskScheduler(kv, registry).schedule(
+        sendEmail,
+        { to: "a@example.com" },
+        { idempotencyKey: "welcome:a" }
+      );
+      await storage.setIdempotencyKey(`outbox:${rowId}`, taskId, 60000);
+      await storage.update(taskId, { status: "completed" });
+
+      expect(await createOutboxRelay(kv, registry, outbox).relayOnce()).toBe(1);
+      expect(await tasks()).toHaveLength(1);
+    });
+
+    it("should enqueue a row whose key only matches a finished task", async () => {
+      const relay = createOutboxRelay(kv, registry, outbox);
+      await outbox.add(database.db, sendEmail, { to: "a@example.com" }, { idempotencyKey: "welcome:a" });
+      await relay.relayOnce();
+
+      const [first] = await tasks();
+      await createTaskStorage(kv).update(first!.id, { status: "completed" });
+
+      await outbox.add(database.db, sendEmail, { to: "a@example.com" }, { idempotencyKey: "welcome:a" });
+      await relay.relayOnce();
+      expect(await tasks()).toHaveLength(2);
+    });
+
+    it("should keep rows it cannot deliver for a later attempt", async () => {
+      await outbox.add(database.db, defineTask({ name: "unregistered", handler: async () => null }), {});
+
+      const relay = createOutboxRelay(kv, registry, outbox);
+      expect(await relay.relayOnce()).toBe(0);
+
+      const [entry] = await outbox.list();
+      expect(entry).toMatchObject({ attempts: 1, lastError: "Unknown task type: unregistered" });
+      expect(entry!.runAt).toBeGreaterThan(Date.now());
+    });
+
+    const ordersApp = (transactional: boolean) => {
+      const app = express();
+      app.use(express.json());
+      app.use((req, _res, next) => {
+        (req as any).user = { id: "u1", sessionId: "s1", sessionExpiresAt: new Date(Date.now() + 3600000) };
+        next();
+      });
+      app.use(
+        "/orders",
+        useResource(database.orders as typeof sqliteOrders, {
+          id: (database.orders as typeof sqliteOrders).id,
+          db: database.db,
+          transactional,
+          hooks: composeHooks(
+            createOutboxTriggerHooks(outbox, {
+              onCreate: [
+                {
+                  task: sendEmail,
+                  transform: (data) => ({ to: (data as { customer: string }).customer }),
+                },
+              ],
+            }),
+            {
+              onAfterCreate: async (_ctx, created) => {
+                if (created.customer === "fail@example.com") throw new Error("rejected");
+              },
+            }
+          ),
+        })
+      );
+      return app;
+    };
+
+    it("should write trigger tasks in the resource's transaction", async () => {
+      const app = ordersApp(true);
+
+      await request(app).post("/orders").send({ id: "o1", customer: "a@example.com" }).expect(201);
+      await request(app).post("/orders").send({ id: "o2", customer: "fail@example.com" }).expect(500);
+
+      const entries = await outbox.list();
+      expect(entries.map((e) => e.input)).toEqual([{ to: "a@example.com" }]);
+
+      await createOutboxRelay(kv, registry, outbox).relayOnce();
+      expect((await tasks()).map((t) => t.input)).toEqual([{ to: "a@example.com" }]);
+    });
+
+    it("should reject writes to a resource that is not transactional", async () => {
+      const app = ordersApp(false);
+
+      await request(app).post("/orders").send({ id: "o1", customer: "a@example.com" }).expect(500);
+
+      await request(app).get("/orders/o1").expect(404);
+      expect(await outbox.count()).toBe(0);
+    });
+  });
+};
+
+let tempDir: string;
+let dbCount = 0;
+
+// Transactions on an in-memory libsql database lose the data, so use files
+beforeAll(() => {
+  tempDir = mkdtempSync(join(tmpdir(), "concave-outbox-"));
+});
+
+afterAll(() => {
+  rmSync(tempDir, { recursive: true, force: true });
+});
+
+outboxSuite("SQLite outbox", async () => {
+  const client = createLibsqlClient({ url: `file:${join(tempDir, `outbox-${++dbCount}.db`)}` });
+  await client.execute("CREATE TABLE ob_orders (id TEXT PRIMARY KEY, customer TEXT NOT NULL)");
+  return {
+    db: drizzle(client),
+    dialect: "sqlite",
+    orders: sqliteOrders,
+    close: async () => client.close(),
+  };
+});
+
+outboxSuite("Postgres outbox", async () => {
+  const pg = new PGlite();
+  await pg.exec("CREATE TABLE ob_orders (id VARCHAR(50) PRIMARY KEY, customer VARCHAR(50) NOT NULL)");
+  return {
+    db: drizzlePglite(pg),
+    dialect: "postgres",
+    orders: pgOrders,
+    close: () => pg.close(),
+  };
+});
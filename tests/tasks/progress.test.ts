@@ -0,0 +1,218 @@
+import { describe, it, expect, beforeEach, beforeAll, afterAll, afterEach } from "vitest";
+import express from "express";
+import request from "supertest";
+import http from "http";
+import { createTaskWorker, TaskWorker } from "@/tasks/worker";
+import {
+  createTaskScheduler,
+  createTaskRegistry,
+  TaskScheduler,
+  TaskRegistry,
+} from "@/tasks/scheduler";
+import { createTaskRoutes } from "@/tasks/routes";
+import { defineTask } from "@/tasks/define";
+import { createMemoryKV, KVAdapter } from "@/kv";
+
+let kv: KVAdapter;
+let scheduler: TaskScheduler;
+let registry: TaskRegistry;
+let workers: TaskWorker[] = [];
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const startWorker = async () => {
+  const worker = createTaskWorker(kv, registry, { pollIntervalMs: 20 });
+  workers.push(worker);
+  await worker.start();
+};
+
+describe("Task results and progress", () => {
+  beforeAll(async () => {
+    kv = createMemoryKV("test-progress");
+    await kv.connect();
+  });
+
+  afterAll(async () => {
+    await kv.disconnect();
+  });
+
+  beforeEach(async () => {
+    registry = createTaskRegistry();
+    scheduler = createTaskScheduler(kv, registry);
+
+    const allKeys = await kv.keys("*");
+    for (const key of allKeys) {
+      await kv.del(key);
+    }
+  });
+
+  afterEach(async () => {
+    for (const worker of workers) {
+      await worker.stop();
+    }
+    workers = [];
+  });
+
+  describe("enqueueAndWait", () => {
+    it("should resolve with the task's result", async () => {
+      const add = defineTask({
+        name: "wait-add",
+        handler: async (_ctx, input: { a: number; b: number }) => input.a + input.b,
+      });
+      registry.register(add);
+      await startWorker();
+
+      await expect(scheduler.enqueueAndWait(add, { a: 2, b: 3 })).resolves.toBe(5);
+    });
+
+    it("should reject with the error of a dead task", async () => {
+      const broken = defineTask({
+        name: "wait-broken",
+        retry: { maxAttempts: 1 },
+        handler: async () => {
+          throw new Error("disk full");
+        },
+      });
+      registry.register(broken);
+      await startWorker();
+
+      await expect(scheduler.enqueueAndWait(broken, {})).rejects.toThrow("disk full");
+    });
+
+    it("should give up after the timeout", async () => {
+      const idle = defineTask({ name: "wait-idle", handler: async () => null });
+
+      await expect(
+        scheduler.enqueueAndWait(idle, {}, { timeout: 50 })
+      ).rejects.toThrow("Timed out");
+      expect(await scheduler.getQueueDepth()).toBe(1);
+    });
+  });
+
+  describe("progress", () => {
+    let server: http.Server;
+    let baseUrl: string;
+
+    const app = () => {
+      const app = express();
+      app.use(
+        "/tasks",
+        createTaskRoutes({
+          scheduler,
+          authorize: (req, task) => task.name !== "secret" || req.headers["x-admin"] === "1",
+        })
+      );
+      return app;
+    };
+
+    // Collects the data events of an SSE stream until the server ends it
+    const stream = (path: string) =>
+      new Promise<any[]>((resolve, reject) => {
+        const events: any[] = [];
+        http
+          .get(new URL(path, baseUrl), (res) => {
+            let buffer = "";
+            res.on("data", (chunk) => {
+              buffer += chunk.toString();
+              const blocks = buffer.split("\n\n");
+              buffer = blocks.pop() ?? "";
+              for (const block of blocks) {
+                const data = block.match(/^data: (.+)$/m);
+                if (data) events.push(JSON.parse(data[1]!));
+              }
+            });
+            res.on("end", () => resolve(events));
+          })
+          .on("error", reject);
+      });
+
+    beforeEach(() => {
+      server = app().listen(0);
+      baseUrl = `http://127.0.0.1:${(server.address() as any).port}`;
+    });
+
+    afterEach(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it("should store reported progress on the task", async () => {
+      let release!: () => void;
+      const gate = new Promise<void>((resolve) => (release = resolve));
+      const job = defineTask({
+        name: "progress-job",
+        handler: async (ctx) => {
+          await ctx.reportProgress(40, "Resizing images");
+          await gate;
+          return "ok";
+        },
+      });
+      registry.register(job);
+      await startWorker();
+
+      const taskId = await scheduler.enqueue(job, {});
+      await sleep(100);
+
+      const res = await request(app()).get(`/tasks/${taskId}`).expect(200);
+      expect(res.body.task).toMatchObject({
+        id: taskId,
+        status: "running",
+        progress: { percent: 40, message: "Resizing images" },
+      });
+      expect(res.body.task.input).toBeUndefined();
+
+      release();
+    });
+
+    it("should stream progress until the task completes", async () => {
+      let release!: () => void;
+      const gate = new Promise<void>((resolve) => (release = resolve));
+      const job = defineTask({
+        name: "stream-job",
+        handler: async (ctx) => {
+          await gate;
+          await ctx.reportProgress(50, "Halfway");
+          await ctx.reportProgress(150);
+          return { url: "/exports/1.zip" };
+        },
+      });
+      registry.register(job);
+
+      const taskId = await scheduler.enqueue(job, {});
+      const events = stream(`/tasks/${taskId}/events`);
+      await sleep(50);
+      await startWorker();
+      await sleep(50);
+      release();
+
+      const received = await events;
+      expect(received[0]).toMatchObject({ type: "task", task: { status: "pending" } });
+      expect(received.map((e) => e.task.progress?.percent)).toContain(50);
+
+      const last = received.at(-1);
+      expect(last.task.status).toBe("completed");
+      expect(last.task.progress.percent).toBe(100);
+      expect(last.task.result).toEqual({ url: "/exports/1.zip" });
+    });
+
+    it("should end the stream when the task is cancelled", async () => {
+      const job = defineTask({ name: "cancel-job", handler: async () => null });
+      const taskId = await scheduler.enqueue(job, {});
+
+      const events = stream(`/tasks/${taskId}/events`);
+      await sleep(50);
+      await scheduler.cancel(taskId);
+
+      expect((await events).at(-1)).toEqual({ type: "cancelled", taskId });
+    });
+
+    it("should hide tasks the caller may not see", async () => {
+      const secret = defineTask({ name: "secret", handler: async () => null });
+      const taskId = await scheduler.enqueue(secret, {});
+
+      await request(app()).get(`/tasks/${taskId}`).expect(404);
+      await request(app()).get(`/tasks/${taskId}/events`).expect(404);
+      await request(app()).get(`/tasks/${taskId}`).set("x-admin", "1").expect(200);
+      await request(app()).get("/tasks/missing").expect(404);
+    });
+  });
+});
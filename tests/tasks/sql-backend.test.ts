@@ -0,0 +1,253 @@
+import { describe, it, expect, beforeEach, afterEach, beforeAll, afterAll, vi } from "vitest";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { drizzle } from "drizzle-orm/libsql";
+import { drizzle as drizzlePglite } from "drizzle-orm/pglite";
+import { createClient as createLibsqlClient } from "@libsql/client";
+import { PGlite } from "@electric-sql/pglite";
+import {
+  generateSQLiteDrizzleJson,
+  generateSQLiteMigration,
+  generateDrizzleJson,
+  generateMigration,
+} from "drizzle-kit/api";
+import * as sqliteSchema from "@/tasks/sql/sqlite-schema";
+import * as postgresSchema from "@/tasks/sql/postgres-schema";
+import { createSQLTaskBackend, SQLTaskConfig } from "@/tasks/sql";
+import { TaskBackend } from "@/tasks/backend";
+import { createTaskScheduler, createTaskRegistry, TaskRegistry } from "@/tasks/scheduler";
+import { createTaskWorker, TaskWorker } from "@/tasks/worker";
+import { defineTask } from "@/tasks/define";
+import { createWorkflowManager, group, step } from "@/tasks/workflow";
+import { createMemoryKV, KVAdapter } from "@/kv";
+
+interface Database {
+  config: SQLTaskConfig;
+  close: () => Promise<void>;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const add = defineTask({
+  name: "sql-add",
+  handler: async (_ctx, input: { a: number; b: number }) => input.a + input.b,
+});
+
+const broken = defineTask({
+  name: "sql-broken",
+  retry: { maxAttempts: 1 },
+  handler: async () => {
+    throw new Error("disk full");
+  },
+});
+
+// The same behaviour is expected from both dialects
+const backendSuite = (name: string, open: () => Promise<Database>) => {
+  describe(name, () => {
+    let database: Database;
+    let backend: TaskBackend;
+    let kv: KVAdapter;
+    let registry: TaskRegistry;
+    let workers: TaskWorker[] = [];
+
+    const startWorker = async (workerKv: KVAdapter) => {
+      const worker = createTaskWorker(workerKv, registry, { pollIntervalMs: 20, backend });
+      workers.push(worker);
+      await worker.start();
+    };
+
+    const waitForStatus = async (taskId: string, status: string) => {
+      for (let i = 0; i < 100; i++) {
+        const task = await backend.storage.get(taskId);
+        if (task?.status === status) return task;
+        await sleep(20);
+      }
+      throw new Error(`Task ${taskId} never became ${status}`);
+    };
+
+    beforeEach(async () => {
+      database = await open();
+      backend = createSQLTaskBackend(database.config);
+
+      kv = createMemoryKV(`test-sql-backend-${name}`);
+      await kv.connect();
+
+      registry = createTaskRegistry();
+      registry.register(add);
+      registry.register(broken);
+    });
+
+    afterEach(async () => {
+      for (const worker of workers) {
+        await worker.stop();
+      }
+      workers = [];
+      await kv.disconnect();
+      await database.close();
+    });
+
+    it("should keep queued tasks when the KV is lost", async () => {
+      const scheduler = createTaskScheduler(kv, registry, backend);
+      const taskId = await scheduler.enqueue(add, { a: 2, b: 3 });
+
+      // A restarted process with an empty in-memory KV
+      const fresh = createMemoryKV(`test-sql-backend-${name}-restarted`);
+      await fresh.connect();
+      try {
+        await startWorker(fresh);
+        const task = await waitForStatus(taskId, "completed");
+        expect(task.result).toBe(5);
+        expect(await backend.queue.getQueueDepth()).toBe(0);
+      } finally {
+        await workers.pop()!.stop();
+        await fresh.disconnect();
+      }
+    });
+
+    it("should let only one worker claim a task", async () => {
+      const scheduler = createTaskScheduler(kv, registry, backend);
+      const taskId = await scheduler.enqueue(add, { a: 1, b: 1 });
+
+      const claims = await Promise.all(
+        ["w1", "w2", "w3"].map((workerId) => backend.queue.claimNext(workerId))
+      );
+
+      const claimed = claims.filter((task) => task !== null);
+      expect(claimed).toHaveLength(1);
+      expect(claimed[0]!.id).toBe(taskId);
+      expect(await backend.queue.claimNext("w4")).toBeNull();
+    });
+
+    it("should claim by priority, due time and task type", async () => {
+      const scheduler = createTaskScheduler(kv, registry, backend);
+      const low = await scheduler.schedule(add, { a: 0, b: 0 }, { at: new Date(Date.now() - 1000), priority: 90 });
+      const high = await scheduler.schedule(add, { a: 0, b: 0 }, { at: new Date(Date.now() - 500), priority: 10 });
+      await scheduler.schedule(add, { a: 0, b: 0 }, { delay: 60000, priority: 0 });
+      const other = await scheduler.schedule(broken, {}, { at: new Date(Date.now() - 2000), priority: 10 });
+
+      expect((await backend.queue.claimNext("w1", ["sql-add"]))!.id).toBe(high);
+      expect((await backend.queue.claimNext("w1", ["sql-add"]))!.id).toBe(low);
+      expect(await backend.queue.claimNext("w1", ["sql-add"])).toBeNull();
+      expect((await backend.queue.claimNext("w1"))!.id).toBe(other);
+    });
+
+    it("should dedupe tasks by idempotency key", async () => {
+      const scheduler = createTaskScheduler(kv, registry, backend);
+      const first = await scheduler.schedule(add, { a: 1, b: 2 }, { delay: 1000, idempotencyKey: "sum-1" });
+      const second = await scheduler.schedule(add, { a: 1, b: 2 }, { delay: 1000, idempotencyKey: "sum-1" });
+
+      expect(second).toBe(first);
+      expect(await backend.storage.findByIdempotencyKey("sum-1")).toMatchObject({ id: first });
+      expect(await scheduler.getTasks({ name: "sql-add" })).toHaveLength(1);
+    });
+
+    it("should dead-letter failed tasks and retry them", async () => {
+      const scheduler = createTaskScheduler(kv, registry, backend);
+      const taskId = await scheduler.enqueue(broken, {});
+      await startWorker(kv);
+      await waitForStatus(taskId, "dead");
+
+      const dlq = backend.createDeadLetterQueue(kv, async (task) => {
+        await backend.storage.store(task);
+        await backend.queue.add(task.id, task.priority, task.scheduledFor);
+        return task.id;
+      });
+      expect(await dlq.count()).toBe(1);
+      expect(await dlq.get(taskId)).toMatchObject({ reason: "disk full", attempts: 0 });
+
+      const retriedId = await dlq.retry(taskId);
+      expect(retriedId).not.toBe(taskId);
+      expect(await backend.storage.get(taskId)).toBeNull();
+      await waitForStatus(retriedId!, "dead");
+    });
+
+    it("should dead-letter a workflow once with its state", async () => {
+      const workflows = createWorkflowManager(kv, backend);
+      const workflowId = await workflows.start(group([step(broken, {}), step(broken, {})]));
+      await startWorker(kv);
+      for (let i = 0; i < 100; i++) {
+        const workflow = await workflows.get(workflowId);
+        if (workflow?.steps.every((s) => s.status === "dead")) break;
+        await sleep(20);
+      }
+
+      const dlq = backend.createDeadLetterQueue(kv, async (task) => task.id);
+      const entries = await dlq.list();
+      expect(entries).toHaveLength(1);
+      expect(entries[0].workflowId).toBe(workflowId);
+      expect(entries[0].workflow?.status).toBe("dead");
+    });
+
+    it("should run each due schedule once across ticking processes", async () => {
+      const scheduleId = await backend.recurring.create(add, { a: 1, b: 1 }, { interval: 5000 });
+      expect(await backend.recurring.get(scheduleId)).toMatchObject({ enabled: true, interval: 5000 });
+
+      // Every tick below sees it as due
+      const now = Date.now();
+      const clock = vi.spyOn(Date, "now").mockReturnValue(now + 6000);
+
+      const enqueued: string[] = [];
+      const enqueue = async (taskName: string) => {
+        enqueued.push(taskName);
+        return "task";
+      };
+      try {
+        await Promise.all([backend.recurring.tick(enqueue), backend.recurring.tick(enqueue)]);
+      } finally {
+        clock.mockRestore();
+      }
+
+      expect(enqueued).toEqual(["sql-add"]);
+      const schedule = await backend.recurring.get(scheduleId);
+      expect(schedule!.lastRunAt).toBe(now + 6000);
+      expect(schedule!.nextRunAt).toBe(now + 11000);
+
+      await backend.recurring.pause(scheduleId);
+      expect((await backend.recurring.list()).map((s) => s.enabled)).toEqual([false]);
+    });
+  });
+};
+
+let tempDir: string;
+let dbCount = 0;
+
+// Transactions on an in-memory libsql database lose the data, so use files
+beforeAll(() => {
+  tempDir = mkdtempSync(join(tmpdir(), "concave-sql-tasks-"));
+});
+
+afterAll(() => {
+  rmSync(tempDir, { recursive: true, force: true });
+});
+
+// Tables are created from the exported schemas by drizzle-kit, as in an app
+backendSuite("SQLite task backend", async () => {
+  const client = createLibsqlClient({ url: `file:${join(tempDir, `tasks-${++dbCount}.db`)}` });
+  const statements = await generateSQLiteMigration(
+    await generateSQLiteDrizzleJson({}),
+    await generateSQLiteDrizzleJson(sqliteSchema)
+  );
+  for (const statement of statements) {
+    await client.execute(statement);
+  }
+  return {
+    config: { db: drizzle(client), dialect: "sqlite" },
+    close: async () => client.close(),
+  };
+});
+
+backendSuite("Postgres task backend", async () => {
+  const pg = new PGlite();
+  const statements = await generateMigration(
+    generateDrizzleJson({}),
+    generateDrizzleJson(postgresSchema)
+  );
+  for (const statement of statements) {
+    await pg.exec(statement);
+  }
+  return {
+    config: { db: drizzlePglite(pg), dialect: "postgres" },
+    close: () => pg.close(),
+  };
+});
@@ -237,6 +237,137 @@ describe("TaskWorker", () => {
     });
   });
 
+  describe("cluster-wide limits", () => {
+    it("should cap maxConcurrency across workers", async () => {
+      let concurrent = 0;
+      let maxConcurrent = 0;
+      let completed = 0;
+
+      const task = defineTask({
+        name: "single-flight",
+        maxConcurrency: 1,
+        handler: async () => {
+          concurrent++;
+          maxConcurrent = Math.max(maxConcurrent, concurrent);
+          await sleep(50);
+          concurrent--;
+          completed++;
+        },
+      });
+      registry.register(task);
+
+      for (let i = 0; i < 2; i++) {
+        const worker = createTaskWorker(kv, registry, { pollIntervalMs: 20, concurrency: 5 });
+        workers.push(worker);
+        await worker.start();
+      }
+
+      for (let i = 0; i < 4; i++) {
+        await scheduler.enqueue(task, { id: i });
+      }
+      await sleep(600);
+
+      expect(completed).toBe(4);
+      expect(maxConcurrent).toBe(1);
+      expect(await scheduler.getRunningCount("single-flight")).toBe(0);
+    });
+
+    it("should run other task types while one is at its limit", async () => {
+      const ran: string[] = [];
+
+      const slow = defineTask({
+        name: "limited-slow",
+        maxConcurrency: 1,
+        handler: async () => {
+          await sleep(200);
+          ran.push("slow");
+        },
+      });
+      const fast = defineTask({
+        name: "unlimited-fast",
+        handler: async () => {
+          ran.push("fast");
+        },
+      });
+      registry.register(slow);
+      registry.register(fast);
+
+      const worker = createTaskWorker(kv, registry, { pollIntervalMs: 20, concurrency: 5 });
+      workers.push(worker);
+      await worker.start();
+
+      await scheduler.enqueue(slow, {});
+      await scheduler.enqueue(slow, {});
+      await scheduler.enqueue(fast, {});
+      await sleep(100);
+
+      expect(ran).toEqual(["fast"]);
+    });
+
+    it("should run debounced enqueues once with the latest input", async () => {
+      const inputs: unknown[] = [];
+
+      const task = defineTask({
+        name: "debounced",
+        debounce: { windowMs: 100, key: (input) => (input as { userId: string }).userId },
+        handler: async (_ctx, input) => {
+          inputs.push(input);
+        },
+      });
+      registry.register(task);
+
+      const worker = createTaskWorker(kv, registry, { pollIntervalMs: 20, concurrency: 5 });
+      workers.push(worker);
+      await worker.start();
+
+      const first = await scheduler.enqueue(task, { userId: "u1", n: 1 });
+      await sleep(50);
+      const second = await scheduler.enqueue(task, { userId: "u1", n: 2 });
+      await scheduler.enqueue(task, { userId: "u2", n: 3 });
+      expect(second).toBe(first);
+
+      await sleep(80);
+      // The second enqueue restarted u1's window
+      expect(inputs).toEqual([]);
+
+      await sleep(150);
+      expect(inputs).toHaveLength(2);
+      expect(inputs).toContainEqual({ userId: "u1", n: 2 });
+      expect(inputs).toContainEqual({ userId: "u2", n: 3 });
+
+      // Once started, the next enqueue opens a new window
+      const third = await scheduler.enqueue(task, { userId: "u1", n: 4 });
+      expect(third).not.toBe(first);
+    });
+
+    it("should fold concurrent debounced enqueues into one task", async () => {
+      const inputs: unknown[] = [];
+
+      const task = defineTask({
+        name: "debounced-concurrent",
+        debounce: { windowMs: 50, key: () => "same" },
+        handler: async (_ctx, input) => {
+          inputs.push(input);
+        },
+      });
+      registry.register(task);
+
+      const ids = await Promise.all(
+        [1, 2, 3, 4, 5].map((n) => scheduler.enqueue(task, { n }))
+      );
+      expect(new Set(ids).size).toBe(1);
+      const latest = (await scheduler.getTask(ids[0]!))?.input;
+
+      const worker = createTaskWorker(kv, registry, { pollIntervalMs: 20, concurrency: 5 });
+      workers.push(worker);
+      await worker.start();
+      await sleep(200);
+
+      expect(inputs).toHaveLength(1);
+      expect(inputs[0]).toEqual(latest);
+    });
+  });
+
   describe("retry and failure handling", () => {
     it("should retry failed tasks", async () => {
       let attempts = 0;
@@ -0,0 +1,293 @@
+import { describe, it, expect, beforeEach, beforeAll, afterAll } from "vitest";
+import { createTaskWorker, TaskWorker } from "@/tasks/worker";
+import {
+  createTaskScheduler,
+  createTaskRegistry,
+  TaskScheduler,
+  TaskRegistry,
+} from "@/tasks/scheduler";
+import {
+  createWorkflowManager,
+  WorkflowManager,
+  step,
+  chain,
+  group,
+} from "@/tasks/workflow";
+import { createDeadLetterQueue } from "@/tasks/dlq";
+import { createTaskStorage } from "@/tasks/storage";
+import { createTaskQueue } from "@/tasks/queue";
+import { defineTask } from "@/tasks/define";
+import { createMemoryKV, KVAdapter } from "@/kv";
+
+let kv: KVAdapter;
+let scheduler: TaskScheduler;
+let registry: TaskRegistry;
+let workflows: WorkflowManager;
+let workers: TaskWorker[] = [];
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const startWorker = async () => {
+  const worker = createTaskWorker(kv, registry, { pollIntervalMs: 20, concurrency: 5 });
+  workers.push(worker);
+  await worker.start();
+};
+
+describe("Workflows", () => {
+  beforeAll(async () => {
+    kv = createMemoryKV("test-workflow");
+    await kv.connect();
+  });
+
+  afterAll(async () => {
+    for (const worker of workers) {
+      await worker.stop();
+    }
+    await kv.disconnect();
+  });
+
+  beforeEach(async () => {
+    for (const worker of workers) {
+      await worker.stop();
+    }
+    workers = [];
+
+    registry = createTaskRegistry();
+    scheduler = createTaskScheduler(kv, registry);
+    workflows = createWorkflowManager(kv);
+
+    const allKeys = await kv.keys("*");
+    for (const key of allKeys) {
+      await kv.del(key);
+    }
+  });
+
+  const double = defineTask({
+    name: "wf-double",
+    handler: async (_ctx, n: number) => n * 2,
+  });
+  const sum = defineTask({
+    name: "wf-sum",
+    handler: async (_ctx, values: number[]) => values.reduce((a, b) => a + b, 0),
+  });
+
+  it("should pass each step's result to the next step in a chain", async () => {
+    registry.register(double);
+    await startWorker();
+
+    const id = await workflows.start(chain(step(double, 3), step(double), step(double)), {
+      name: "triple double",
+    });
+    await sleep(400);
+
+    const workflow = await workflows.get(id);
+    expect(workflow?.name).toBe("triple double");
+    expect(workflow?.status).toBe("completed");
+    expect(workflow?.result).toBe(24);
+    expect(workflow?.steps.map((s) => s.result)).toEqual([6, 12, 24]);
+  });
+
+  it("should fan out a group and join on all of its results", async () => {
+    registry.register(double);
+    registry.register(sum);
+    await startWorker();
+
+    const id = await workflows.start(
+      group([1, 2, 3].map((n) => step(double, n)), step(sum))
+    );
+    await sleep(400);
+
+    const workflow = await workflows.get(id);
+    expect(workflow?.status).toBe("completed");
+    expect(workflow?.result).toBe(12);
+
+    const join = workflow!.steps.at(-1)!;
+    expect(join.dependsOn).toHaveLength(3);
+  });
+
+  it("should wait for steps named in dependsOn", async () => {
+    const order: string[] = [];
+    const record = defineTask({
+      name: "wf-record",
+      handler: async (_ctx, label: string) => {
+        order.push(label);
+        return label;
+      },
+    });
+    registry.register(record);
+    await startWorker();
+
+    const id = await workflows.start(
+      group([
+        step(record, "last", { id: "last", dependsOn: ["middle"] }),
+        step(record, "middle", { id: "middle", dependsOn: ["first"] }),
+        step(record, "first", { id: "first" }),
+      ])
+    );
+    await sleep(500);
+
+    expect(order).toEqual(["first", "middle", "last"]);
+    expect((await workflows.get(id))?.result).toBe("last");
+  });
+
+  it("should reject cycles and unknown dependencies", async () => {
+    await expect(
+      workflows.start(
+        group([
+          step(double, 1, { id: "a", dependsOn: ["b"] }),
+          step(double, 1, { id: "b", dependsOn: ["a"] }),
+        ])
+      )
+    ).rejects.toThrow("cycle");
+
+    await expect(
+      workflows.start(step(double, 1, { dependsOn: ["missing"] }))
+    ).rejects.toThrow("unknown step");
+  });
+
+  it("should halt the workflow when a step dies and resume it from the DLQ", async () => {
+    let fail = true;
+    const flaky = defineTask({
+      name: "wf-flaky",
+      retry: { maxAttempts: 1 },
+      handler: async (_ctx, n: number) => {
+        if (fail) throw new Error("upstream down");
+        return n;
+      },
+    });
+    registry.register(flaky);
+    registry.register(double);
+    await startWorker();
+
+    const id = await workflows.start(chain(step(flaky, 5), step(double)));
+    await sleep(300);
+
+    let workflow = await workflows.get(id);
+    expect(workflow?.status).toBe("dead");
+    expect(workflow?.error).toContain("upstream down");
+    expect(workflow?.steps.map((s) => s.status)).toEqual(["dead", "waiting"]);
+
+    const storage = createTaskStorage(kv);
+    const queue = createTaskQueue(kv);
+    const dlq = createDeadLetterQueue(kv, async (task) => {
+      await storage.store(task);
+      await queue.add(task.id, task.priority, task.scheduledFor);
+      return task.id;
+    });
+    const [entry] = await dlq.list();
+    expect(entry.workflowId).toBe(id);
+
+    fail = false;
+    await dlq.retry(entry.taskId);
+    await sleep(400);
+
+    workflow = await workflows.get(id);
+    expect(workflow?.status).toBe("completed");
+    expect(workflow?.result).toBe(10);
+  });
+
+  it("should dead-letter a workflow once and retry every dead step", async () => {
+    let fail = true;
+    const flaky = defineTask({
+      name: "wf-flaky-group",
+      retry: { maxAttempts: 1 },
+      handler: async (_ctx, n: number) => {
+        if (fail) throw new Error("upstream down");
+        return n;
+      },
+    });
+    registry.register(flaky);
+    registry.register(sum);
+    await startWorker();
+
+    const id = await workflows.start(group([step(flaky, 1), step(flaky, 2)], step(sum)));
+    await sleep(300);
+
+    const storage = createTaskStorage(kv);
+    const queue = createTaskQueue(kv);
+    const dlq = createDeadLetterQueue(kv, async (task) => {
+      await storage.store(task);
+      await queue.add(task.id, task.priority, task.scheduledFor);
+      return task.id;
+    });
+    const entries = await dlq.list();
+    expect(entries).toHaveLength(1);
+    expect(entries[0].workflow?.status).toBe("dead");
+    expect(entries[0].workflow?.steps.map((s) => s.status)).toEqual(["dead", "dead", "waiting"]);
+
+    fail = false;
+    await dlq.retry(entries[0].taskId);
+    await sleep(400);
+
+    const workflow = await workflows.get(id);
+    expect(workflow?.status).toBe("completed");
+    expect(workflow?.result).toBe(3);
+    expect(await dlq.count()).toBe(0);
+  });
+
+  it("should list newest workflows first and expire finished ones", async () => {
+    registry.register(double);
+    await startWorker();
+
+    const first = await workflows.start(step(double, 1), { name: "first" });
+    await sleep(5);
+    const second = await workflows.start(step(double, 2), { name: "second" });
+    await sleep(300);
+
+    expect((await workflows.list()).map((w) => w.id)).toEqual([second, first]);
+    expect((await workflows.list(1, 1)).map((w) => w.id)).toEqual([first]);
+
+    const ttl = await kv.ttl(`concave:tasks:workflow:${first}`);
+    expect(ttl).toBeGreaterThan(0);
+  });
+
+  it("should abort running steps when the workflow is cancelled", async () => {
+    let aborted = false;
+    const slow = defineTask({
+      name: "wf-slow",
+      handler: async (ctx) => {
+        await new Promise<void>((resolve) => {
+          ctx.signal.addEventListener("abort", () => {
+            aborted = true;
+            resolve();
+          });
+        });
+        throw new Error("aborted");
+      },
+    });
+    registry.register(slow);
+    registry.register(double);
+    await startWorker();
+
+    const id = await workflows.start(chain(step(slow, 1), step(double)));
+    await sleep(150);
+    expect((await workflows.get(id))?.steps[0].status).toBe("queued");
+
+    expect(await workflows.cancel(id)).toBe(true);
+    await sleep(150);
+
+    expect(aborted).toBe(true);
+    const workflow = await workflows.get(id);
+    expect(workflow?.status).toBe("cancelled");
+    expect(workflow?.steps.map((s) => s.status)).toEqual(["cancelled", "cancelled"]);
+    // The aborted step is dropped rather than retried or dead-lettered
+    expect(await createTaskStorage(kv).get(workflow!.steps[0].taskId!)).toBeNull();
+  });
+
+  it("should cancel queued and waiting steps with the workflow", async () => {
+    registry.register(double);
+
+    const id = await workflows.start(chain(group([step(double, 1), step(double, 2)]), step(sum)));
+    const queued = (await workflows.get(id))!.steps.filter((s) => s.status === "queued");
+    expect(queued).toHaveLength(2);
+
+    // Cancelling one step takes the rest of the workflow with it
+    expect(await scheduler.cancel(queued[0].taskId!)).toBe(true);
+
+    const workflow = await workflows.get(id);
+    expect(workflow?.status).toBe("cancelled");
+    expect(workflow?.steps.map((s) => s.status)).toEqual(["cancelled", "cancelled", "cancelled"]);
+    expect(await scheduler.getQueueDepth()).toBe(0);
+    expect(await workflows.cancel(id)).toBe(false);
+  });
+});
@@ -0,0 +1,362 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from "vitest";
+import http from "http";
+import { AddressInfo } from "net";
+import express from "express";
+import request from "supertest";
+import { sqliteTable, text, integer } from "drizzle-orm/sqlite-core";
+import { createMemoryKV, KVAdapter } from "@/kv";
+import { createTaskScheduler, createTaskRegistry } from "@/tasks/scheduler";
+import { createTaskWorker, TaskWorker } from "@/tasks/worker";
+import { createDeadLetterQueue } from "@/tasks/dlq";
+import { changelog, recordCreate, recordUpdate, recordDelete } from "@/resource/changelog";
+import { ChangelogEntry } from "@/resource/types";
+import {
+  createWebhookManager,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  WebhookManager,
+  WEBHOOK_SIGNATURE_HEADER,
+} from "@/webhooks";
+import { createAdminUI } from "@/ui";
+import { registerResourceSchema, unregisterResourceSchema } from "@/ui/schema-registry";
+
+const ordersTable = sqliteTable("orders", {
+  id: text("id").primaryKey(),
+  status: text("status").notNull(),
+  total: integer("total").notNull(),
+});
+
+interface Received {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const waitFor = async (predicate: () => boolean | Promise<boolean>, timeoutMs = 3000) => {
+  const start = Date.now();
+  while (!(await predicate())) {
+    if (Date.now() - start > timeoutMs) throw new Error("Timed out waiting for condition");
+    await sleep(20);
+  }
+};
+
+const entry = (overrides: Partial<ChangelogEntry>): ChangelogEntry => ({
+  seq: 1,
+  resource: "orders",
+  type: "create",
+  objectId: "o1",
+  object: { id: "o1", status: "paid", total: 100 },
+  timestamp: Date.now(),
+  ...overrides,
+});
+
+describe("Webhook signatures", () => {
+  it("should verify a signature produced for the same body", () => {
+    const body = JSON.stringify({ hello: "world" });
+    const header = signWebhookPayload("secret", body);
+    expect(verifyWebhookSignature("secret", body, header)).toBe(true);
+  });
+
+  it("should reject a tampered body or wrong secret", () => {
+    const header = signWebhookPayload("secret", "{}");
+    expect(verifyWebhookSignature("secret", '{"a":1}', header)).toBe(false);
+    expect(verifyWebhookSignature("other", "{}", header)).toBe(false);
+    expect(verifyWebhookSignature("secret", "{}", undefined)).toBe(false);
+  });
+
+  it("should reject signatures outside the tolerance window", () => {
+    const header = signWebhookPayload("secret", "{}", Date.now() - 10 * 60 * 1000);
+    expect(verifyWebhookSignature("secret", "{}", header)).toBe(false);
+  });
+});
+
+describe("WebhookManager", () => {
+  let kv: KVAdapter;
+  let server: http.Server;
+  let url: string;
+  let received: Received[];
+  let responseStatus: number;
+  let worker: TaskWorker;
+  let webhooks: WebhookManager;
+
+  beforeAll(async () => {
+    kv = createMemoryKV("test-webhooks");
+    await kv.connect();
+
+    server = http.createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = responseStatus;
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    await kv.disconnect();
+  });
+
+  beforeEach(async () => {
+    for (const key of await kv.keys("*")) {
+      await kv.del(key);
+    }
+    await changelog.clear();
+
+    received = [];
+    responseStatus = 200;
+
+    const registry = createTaskRegistry();
+    const scheduler = createTaskScheduler(kv, registry);
+    webhooks = createWebhookManager({
+      kv,
+      scheduler,
+      registry,
+      retry: { maxAttempts: 2, backoff: "fixed", initialDelayMs: 10 },
+      tables: { orders: ordersTable },
+    });
+
+    worker = createTaskWorker(kv, registry, { pollIntervalMs: 20, concurrency: 1 });
+    await worker.start();
+  });
+
+  afterEach(async () => {
+    webhooks.stop();
+    await worker.stop();
+  });
+
+  it("should deliver signed payloads for matching changes", async () => {
+    const endpoint = await webhooks.register({ resource: "orders", url, secret: "s3cret" });
+
+    expect(await webhooks.dispatch([entry({ seq: 7 })])).toBe(1);
+    await waitFor(() => received.length === 1);
+
+    const [delivery] = received;
+    const payload = JSON.parse(delivery!.body);
+    expect(payload).toMatchObject({
+      id: `${endpoint.id}:7`,
+      event: "create",
+      resource: "orders",
+      objectId: "o1",
+      seq: 7,
+    });
+    expect(delivery!.headers["x-concave-event"]).toBe("orders.create");
+    expect(
+      verifyWebhookSignature(
+        "s3cret",
+        delivery!.body,
+        delivery!.headers[WEBHOOK_SIGNATURE_HEADER.toLowerCase()] as string
+      )
+    ).toBe(true);
+
+    await waitFor(async () => (await webhooks.getDelivery(payload.id))?.status === "succeeded");
+    const logged = await webhooks.getDelivery(payload.id);
+    expect(logged?.attempts).toBe(1);
+    expect(logged?.responseStatus).toBe(200);
+  });
+
+  it("should leave fields hidden by the read field policy out of payloads", async () => {
+    registerResourceSchema("orders", ordersTable, {} as any, ordersTable.id, {
+      fieldPolicies: (user) => ({ readable: user ? ["id", "status", "total"] : ["id", "status"] }),
+    });
+    try {
+      await webhooks.register({ resource: "orders", url, secret: "s" });
+      await webhooks.dispatch([
+        entry({
+          seq: 1,
+          type: "update",
+          object: { id: "o1", status: "shipped", total: 100 },
+          previousObject: { id: "o1", status: "paid", total: 100 },
+        }),
+      ]);
+      await waitFor(() => received.length === 1);
+
+      const payload = JSON.parse(received[0]!.body);
+      expect(payload.object).toEqual({ id: "o1", status: "shipped" });
+      expect(payload.previousObject).toEqual({ id: "o1", status: "paid" });
+    } finally {
+      unregisterResourceSchema("orders");
+    }
+  });
+
+  it("should match endpoints by event type and RSQL filter", async () => {
+    await webhooks.register({ resource: "orders", url, secret: "s", events: ["delete"] });
+    await webhooks.register({ resource: "orders", url, secret: "s", filter: 'status=="paid"' });
+    await webhooks.register({ resource: "users", url, secret: "s" });
+
+    const dispatched = await webhooks.dispatch([
+      entry({ seq: 1 }),
+      entry({ seq: 2, type: "update", object: { id: "o1", status: "pending", total: 5 } }),
+      entry({
+        seq: 3,
+        type: "delete",
+        object: undefined,
+        previousObject: { id: "o1", status: "paid", total: 100 },
+      }),
+    ]);
+
+    // seq 1: filter endpoint; seq 2: nothing; seq 3: delete endpoint and filter endpoint
+    expect(dispatched).toBe(3);
+    await waitFor(() => received.length === 3);
+  });
+
+  it("should not create duplicate deliveries for the same changelog entry", async () => {
+    await webhooks.register({ resource: "orders", url, secret: "s" });
+
+    expect(await webhooks.dispatch([entry({ seq: 4 })])).toBe(1);
+    expect(await webhooks.dispatch([entry({ seq: 4 })])).toBe(0);
+
+    const deliveries = await webhooks.listDeliveries();
+    expect(deliveries).toHaveLength(1);
+  });
+
+  it("should retry failed deliveries and move them to the DLQ", async () => {
+    responseStatus = 500;
+    await webhooks.register({ id: "failing", resource: "orders", url, secret: "s" });
+    await webhooks.dispatch([entry({ seq: 1 })]);
+
+    await waitFor(async () => (await webhooks.getDelivery("failing:1"))?.status === "failed");
+
+    const delivery = await webhooks.getDelivery("failing:1");
+    expect(delivery?.attempts).toBe(2);
+    expect(delivery?.responseStatus).toBe(500);
+    expect(received).toHaveLength(2);
+
+    const dlq = createDeadLetterQueue(kv, async () => "");
+    await waitFor(async () => (await dlq.count()) === 1);
+  });
+
+  it("should redeliver as a new delivery", async () => {
+    responseStatus = 500;
+    await webhooks.register({ id: "flaky", resource: "orders", url, secret: "s" });
+    await webhooks.dispatch([entry({ seq: 1 })]);
+    await waitFor(async () => (await webhooks.getDelivery("flaky:1"))?.status === "failed");
+
+    responseStatus = 200;
+    const redelivery = await webhooks.redeliver("flaky:1");
+    expect(redelivery?.redeliveryOf).toBe("flaky:1");
+    expect(redelivery?.payload.id).toBe(redelivery?.id);
+
+    await waitFor(async () => (await webhooks.getDelivery(redelivery!.id))?.status === "succeeded");
+    expect((await webhooks.getDelivery("flaky:1"))?.status).toBe("failed");
+    expect(await webhooks.redeliver("missing")).toBeNull();
+  });
+
+  it("should consume changelog entries recorded after start", async () => {
+    await webhooks.register({ resource: "orders", url, secret: "s" });
+    await recordCreate("orders", "before", { id: "before", status: "paid", total: 1 });
+
+    await webhooks.poll();
+    expect(await webhooks.listDeliveries()).toHaveLength(0);
+
+    await recordUpdate(
+      "orders",
+      "o1",
+      { id: "o1", status: "shipped", total: 1 },
+      { id: "o1", status: "paid", total: 1 }
+    );
+    await recordDelete("orders", "o1", { id: "o1", status: "shipped", total: 1 });
+
+    expect(await webhooks.poll()).toBe(2);
+    expect(await webhooks.poll()).toBe(0);
+
+    await waitFor(() => received.length === 2);
+    const events = received.map((r) => JSON.parse(r.body).event).sort();
+    expect(events).toEqual(["delete", "update"]);
+  });
+
+  it("should not release a dispatch lock another process took over", async () => {
+    await webhooks.poll();
+
+    // The lock expires mid-poll and another dispatcher takes it
+    const read = vi.spyOn(changelog, "getAllEntriesSince").mockImplementation(async () => {
+      await kv.set("concave:webhooks:dispatch-lock", "other-dispatcher");
+      return [];
+    });
+    try {
+      await webhooks.poll();
+    } finally {
+      read.mockRestore();
+    }
+
+    expect(await kv.get("concave:webhooks:dispatch-lock")).toBe("other-dispatcher");
+    expect(await webhooks.poll()).toBe(0);
+  });
+
+  it("should release the dispatch lock on adapters without delIfEquals", async () => {
+    // A third-party adapter written before delIfEquals existed
+    const legacyKV = new Proxy(kv, {
+      get: (target, prop) => {
+        if (prop === "delIfEquals") return undefined;
+        const value = Reflect.get(target, prop);
+        return typeof value === "function" ? value.bind(target) : value;
+      },
+    });
+    const registry = createTaskRegistry();
+    const legacy = createWebhookManager({
+      kv: legacyKV,
+      scheduler: createTaskScheduler(legacyKV, registry),
+      registry,
+    });
+
+    await legacy.poll();
+    await legacy.poll();
+    expect(await kv.get("concave:webhooks:dispatch-lock")).toBeNull();
+  });
+
+  describe("admin UI", () => {
+    const createApp = () => {
+      const app = express();
+      app.use(express.json());
+      app.use(
+        "/__concave",
+        createAdminUI({
+          security: { mode: "development", auth: { disabled: true } },
+          webhooks: { enabled: true, manager: webhooks },
+        })
+      );
+      return app;
+    };
+
+    it("should list deliveries without exposing endpoint secrets", async () => {
+      await webhooks.register({ id: "ep", resource: "orders", url, secret: "hidden" });
+      await webhooks.dispatch([entry({ seq: 1 })]);
+
+      const app = createApp();
+      const endpoints = await request(app).get("/__concave/api/webhooks/endpoints").expect(200);
+      expect(endpoints.body.endpoints[0].id).toBe("ep");
+      expect(JSON.stringify(endpoints.body)).not.toContain("hidden");
+
+      const deliveries = await request(app).get("/__concave/api/webhooks/deliveries").expect(200);
+      expect(deliveries.body.deliveries[0]).toMatchObject({ id: "ep:1", event: "create" });
+
+      const page = await request(app).get("/__concave/ui/webhooks").expect(200);
+      expect(page.text).toContain("Delivery Log");
+      expect(page.text).toContain("Redeliver");
+    });
+
+    it("should redeliver from the admin API", async () => {
+      await webhooks.register({ id: "ep", resource: "orders", url, secret: "s" });
+      await webhooks.dispatch([entry({ seq: 1 })]);
+
+      const app = createApp();
+      const res = await request(app)
+        .post("/__concave/api/webhooks/deliveries/ep:1/redeliver")
+        .expect(201);
+      expect(res.body.delivery.redeliveryOf).toBe("ep:1");
+
+      const row = await request(app)
+        .post("/__concave/api/webhooks/deliveries/ep:1/redeliver")
+        .set("HX-Request", "true")
+        .expect(200);
+      expect(row.text).toContain("<tr>");
+
+      await request(app).post("/__concave/api/webhooks/deliveries/missing/redeliver").expect(404);
+    });
+  });
+});